@@ -9,6 +9,7 @@ import PageRenderer from '@/components/PageRenderer';
 import PasswordForm from '@/components/PasswordForm';
 import { getSettingByKey } from '@/lib/repositories/settingsRepository';
 import { parseAuthCookie, getPasswordProtection, fetchFoldersForAuth } from '@/lib/page-auth';
+import { findRedirect, isPermanentRedirect } from '@/lib/redirect-utils';
 import type { Page, PageFolder, Translation, Redirect as RedirectType } from '@/types';
 
 // Static by default for performance, dynamic only when pagination is requested
@@ -250,17 +251,15 @@ export default async function Page({ params }: PageProps) {
   const slugPath = Array.isArray(slug) ? slug.join('/') : slug;
 
   // Check for redirects before processing the page
+  // (the proxy redirects requests first; this covers requests it didn't see)
   const currentPath = `/${slugPath}`;
   const redirects = await fetchCachedRedirects();
-  if (redirects && Array.isArray(redirects)) {
-    const matchedRedirect = redirects.find((r) => r.oldUrl === currentPath);
-    if (matchedRedirect) {
-      // Use permanentRedirect for 301 (default), redirect for 302
-      if (matchedRedirect.type === '302') {
-        redirect(matchedRedirect.newUrl);
-      } else {
-        permanentRedirect(matchedRedirect.newUrl);
-      }
+  const matchedRedirect = findRedirect(redirects, currentPath);
+  if (matchedRedirect) {
+    if (isPermanentRedirect(matchedRedirect.redirect)) {
+      permanentRedirect(matchedRedirect.destination);
+    } else {
+      redirect(matchedRedirect.destination);
     }
   }
 
@@ -2,13 +2,16 @@ import { notFound, redirect, permanentRedirect } from 'next/navigation';
 import { unstable_noStore } from 'next/cache';
 import { fetchPageByPath, fetchErrorPage, PaginationContext } from '@/lib/page-fetcher';
 import PageRenderer from '@/components/PageRenderer';
+import { parseCollectionQueries } from '@/lib/collection-query-utils';
+import { SITE_SEARCH_PARAM } from '@/lib/site-search-utils';
 import PasswordForm from '@/components/PasswordForm';
 import { fetchGlobalPageSettings } from '@/lib/generate-page-metadata';
 import { getSettingByKey } from '@/lib/repositories/settingsRepository';
 import { parseAuthCookie, getPasswordProtection, fetchFoldersForAuth } from '@/lib/page-auth';
+import { findRedirect, isPermanentRedirect } from '@/lib/redirect-utils';
 import type { Redirect as RedirectType } from '@/types';
 
-// Internal pagination path: always dynamic/no-store.
+// Internal pagination, search and filter path: always dynamic/no-store.
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
@@ -25,14 +28,17 @@ export default async function DynamicSlugPage({ params, searchParams }: DynamicS
   const currentPath = `/${slugPath}`;
 
   const redirects = await getSettingByKey('redirects') as RedirectType[] | null;
-  if (redirects && Array.isArray(redirects)) {
-    const matchedRedirect = redirects.find((r) => r.oldUrl === currentPath);
-    if (matchedRedirect) {
-      if (matchedRedirect.type === '302') {
-        redirect(matchedRedirect.newUrl);
-      } else {
-        permanentRedirect(matchedRedirect.newUrl);
-      }
+  const search = new URLSearchParams(
+    Object.entries(resolvedSearchParams).flatMap(([key, value]) => (
+      Array.isArray(value) ? value.map((v) => [key, v]) : value !== undefined ? [[key, value]] : []
+    ))
+  ).toString();
+  const matchedRedirect = findRedirect(redirects, currentPath, search);
+  if (matchedRedirect) {
+    if (isPermanentRedirect(matchedRedirect.redirect)) {
+      permanentRedirect(matchedRedirect.destination);
+    } else {
+      redirect(matchedRedirect.destination);
     }
   }
 
@@ -52,6 +58,10 @@ export default async function DynamicSlugPage({ params, searchParams }: DynamicS
   const paginationContext: PaginationContext = {
     pageNumbers,
     defaultPage: 1,
+    collectionQueries: parseCollectionQueries(resolvedSearchParams),
+    siteSearch: typeof resolvedSearchParams[SITE_SEARCH_PARAM] === 'string'
+      ? resolvedSearchParams[SITE_SEARCH_PARAM]
+      : undefined,
   };
 
   const data = await fetchPageByPath(slugPath, true, paginationContext);
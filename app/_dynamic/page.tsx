@@ -2,12 +2,14 @@ import { unstable_noStore } from 'next/cache';
 import Link from 'next/link';
 import { fetchHomepage, fetchErrorPage, PaginationContext } from '@/lib/page-fetcher';
 import PageRenderer from '@/components/PageRenderer';
+import { parseCollectionQueries } from '@/lib/collection-query-utils';
+import { SITE_SEARCH_PARAM } from '@/lib/site-search-utils';
 import PasswordForm from '@/components/PasswordForm';
 import { fetchGlobalPageSettings } from '@/lib/generate-page-metadata';
 import { parseAuthCookie, getPasswordProtection, fetchFoldersForAuth } from '@/lib/page-auth';
 import { getSettingByKey } from '@/lib/repositories/settingsRepository';
 
-// Internal pagination path: always dynamic/no-store.
+// Internal pagination, search and filter path: always dynamic/no-store.
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
@@ -34,6 +36,10 @@ export default async function DynamicHome({ searchParams }: DynamicHomeProps) {
   const paginationContext: PaginationContext = {
     pageNumbers,
     defaultPage: 1,
+    collectionQueries: parseCollectionQueries(resolvedSearchParams),
+    siteSearch: typeof resolvedSearchParams[SITE_SEARCH_PARAM] === 'string'
+      ? resolvedSearchParams[SITE_SEARCH_PARAM]
+      : undefined,
   };
 
   const data = await fetchHomepage(true, paginationContext);
@@ -21,8 +21,9 @@ export default function RootLayout({
 }>) {
   // Dark mode is handled client-side by DarkModeProvider
   // This avoids using headers() which would force all pages to be dynamic
+  // Published pages set data-color-scheme before hydration (see color-scheme-utils)
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
       <body className={`${inter.variable} font-sans antialiased text-xs`}>
         <DarkModeProvider>
           {children}
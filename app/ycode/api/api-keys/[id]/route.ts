@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
-import { getApiKeyById, deleteApiKey } from '@/lib/repositories/apiKeyRepository';
+import { getApiKeyById, updateApiKey, deleteApiKey } from '@/lib/repositories/apiKeyRepository';
 import { noCache } from '@/lib/api-response';
+import { parseApiKeyAccess } from '@/lib/api-key-utils';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -37,6 +38,60 @@ export async function GET(
   }
 }
 
+/**
+ * PUT /ycode/api/api-keys/[id]
+ * Update an API key's name, scopes, collections, expiry and rate limit
+ * (internal endpoint for settings UI)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || body.name.trim() === '')) {
+      return noCache(
+        { error: 'Name is required' },
+        400
+      );
+    }
+
+    const access = parseApiKeyAccess(body);
+    if (access.error) {
+      return noCache(
+        { error: access.error },
+        400
+      );
+    }
+
+    // Verify the key exists first
+    const existing = await getApiKeyById(id);
+    if (!existing) {
+      return noCache(
+        { error: 'API key not found' },
+        404
+      );
+    }
+
+    const key = await updateApiKey(id, {
+      ...access.data,
+      ...(body.name !== undefined && { name: body.name.trim() }),
+    });
+
+    return noCache({
+      data: key,
+    });
+  } catch (error) {
+    console.error('Error updating API key:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to update API key' },
+      500
+    );
+  }
+}
+
 /**
  * DELETE /ycode/api/api-keys/[id]
  * Delete an API key (internal endpoint for settings UI)
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { getAllApiKeys, createApiKey } from '@/lib/repositories/apiKeyRepository';
 import { noCache } from '@/lib/api-response';
+import { parseApiKeyAccess } from '@/lib/api-key-utils';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -32,7 +33,11 @@ export async function GET() {
  * 
  * Request body:
  * {
- *   "name": "Production API Key"
+ *   "name": "Production API Key",
+ *   "scopes": ["collections:read"],          // Optional, defaults to all scopes
+ *   "collection_ids": ["uuid"],              // Optional, null = all collections
+ *   "expires_at": "2026-12-31T00:00:00Z",    // Optional, null = never
+ *   "rate_limit": 60                         // Optional, requests per minute
  * }
  * 
  * Response:
@@ -58,7 +63,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const key = await createApiKey(name.trim());
+    const access = parseApiKeyAccess(body);
+    if (access.error) {
+      return noCache(
+        { error: access.error },
+        400
+      );
+    }
+
+    const key = await createApiKey(name.trim(), access.data);
 
     return noCache({
       data: key,
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { getAppById } from '@/lib/apps/registry';
+import { getIntegrationProvider } from '@/lib/apps/integration-service';
+import { getAppSettingsMap } from '@/lib/repositories/appSettingsRepository';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/apps/[appId]/fields
+ * Fetch the app fields that form fields can be mapped to (proxied)
+ *
+ * Query: list_id - the selected list, for apps with per-list fields
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  try {
+    const { appId } = await params;
+
+    const app = getAppById(appId);
+    const provider = getIntegrationProvider(appId);
+    if (!app || !provider?.getFields) {
+      return noCache({ error: 'App not found' }, 404);
+    }
+
+    const settings = await getAppSettingsMap(appId);
+    if (!provider.isConfigured(settings)) {
+      return noCache({ error: `${app.name} is not configured` }, 400);
+    }
+
+    const listId = request.nextUrl.searchParams.get('list_id') || undefined;
+    const fields = await provider.getFields(settings, listId);
+
+    return noCache({ data: fields });
+  } catch (error) {
+    console.error('Error fetching app fields:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to fetch fields' },
+      500
+    );
+  }
+}
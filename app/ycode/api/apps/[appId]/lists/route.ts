@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { getAppById } from '@/lib/apps/registry';
+import { getIntegrationProvider } from '@/lib/apps/integration-service';
+import { getAppSettingsMap } from '@/lib/repositories/appSettingsRepository';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/apps/[appId]/lists
+ * Fetch the lists a connection can send submissions to (proxied),
+ * e.g. MailerLite groups or Mailchimp audiences
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  try {
+    const { appId } = await params;
+
+    const app = getAppById(appId);
+    const provider = getIntegrationProvider(appId);
+    if (!app || !provider?.getLists) {
+      return noCache({ error: 'App not found' }, 404);
+    }
+
+    const settings = await getAppSettingsMap(appId);
+    if (!provider.isConfigured(settings)) {
+      return noCache({ error: `${app.name} is not configured` }, 400);
+    }
+
+    const lists = await provider.getLists(settings);
+
+    return noCache({ data: lists });
+  } catch (error) {
+    console.error('Error fetching app lists:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to fetch lists' },
+      500
+    );
+  }
+}
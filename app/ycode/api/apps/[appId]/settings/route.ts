@@ -1,10 +1,11 @@
 import { NextRequest } from 'next/server';
 import {
-  getAppSettings,
+  getAppSettingsMap,
   setAppSetting,
   deleteAllAppSettings,
 } from '@/lib/repositories/appSettingsRepository';
 import { getAppById } from '@/lib/apps/registry';
+import { getAppConnections, getIntegrationProvider } from '@/lib/apps/integration-service';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -27,13 +28,7 @@ export async function GET(
       return noCache({ error: 'App not found' }, 404);
     }
 
-    const settings = await getAppSettings(appId);
-
-    // Convert to a key-value map for easier consumption
-    const settingsMap: Record<string, unknown> = {};
-    for (const setting of settings) {
-      settingsMap[setting.key] = setting.value;
-    }
+    const settingsMap = await getAppSettingsMap(appId);
 
     return noCache({ data: settingsMap });
   } catch (error) {
@@ -50,6 +45,7 @@ export async function GET(
  * Update settings for a specific app
  *
  * Body: { [key]: value, ... }
+ * Connections are validated by the app's integration provider.
  */
 export async function PUT(
   request: NextRequest,
@@ -65,17 +61,27 @@ export async function PUT(
 
     const body = await request.json();
 
+    const provider = getIntegrationProvider(appId);
+    if (provider && body.connections !== undefined) {
+      if (!Array.isArray(body.connections)) {
+        return noCache({ error: 'Connections must be an array' }, 400);
+      }
+
+      for (const connection of getAppConnections(body)) {
+        const connectionError = provider.validateConnection(connection);
+        if (connectionError) {
+          return noCache({ error: connectionError }, 400);
+        }
+      }
+    }
+
     // Update each setting
     for (const [key, value] of Object.entries(body)) {
       await setAppSetting(appId, key, value);
     }
 
     // Return updated settings
-    const settings = await getAppSettings(appId);
-    const settingsMap: Record<string, unknown> = {};
-    for (const setting of settings) {
-      settingsMap[setting.key] = setting.value;
-    }
+    const settingsMap = await getAppSettingsMap(appId);
 
     return noCache({ data: settingsMap });
   } catch (error) {
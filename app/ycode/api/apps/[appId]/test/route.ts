@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { getAppById } from '@/lib/apps/registry';
+import { getIntegrationProvider } from '@/lib/apps/integration-service';
+import { getAppSettingsMap } from '@/lib/repositories/appSettingsRepository';
+import { noCache } from '@/lib/api-response';
+import type { AppConnection } from '@/lib/apps/types';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /ycode/api/apps/[appId]/test
+ * Test an app's credentials, or send a sample submission through a connection
+ *
+ * Body: { settings?: { [key]: value }, connection?: AppConnection }
+ * Unsaved settings (e.g. a new API key) override the stored ones.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ appId: string }> }
+) {
+  try {
+    const { appId } = await params;
+
+    const app = getAppById(appId);
+    const provider = getIntegrationProvider(appId);
+    if (!app || !provider) {
+      return noCache({ error: 'App not found' }, 404);
+    }
+
+    const body = await request.json();
+    const connection: AppConnection | undefined = body.connection;
+
+    for (const credential of app.integration?.credentials || []) {
+      const value = body.settings?.[credential.key];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        return noCache({ error: `${credential.label} is required` }, 400);
+      }
+    }
+
+    const settings = {
+      ...(await getAppSettingsMap(appId)),
+      ...(body.settings || {}),
+    };
+
+    const result = await provider.test(settings, connection);
+
+    return noCache({ data: result });
+  } catch (error) {
+    console.error('Error testing app connection:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to test connection' },
+      500
+    );
+  }
+}
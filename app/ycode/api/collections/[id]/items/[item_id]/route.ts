@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getItemWithValues, updateItem, deleteItem } from '@/lib/repositories/collectionItemRepository';
 import { setValuesByFieldName } from '@/lib/repositories/collectionItemValueRepository';
 import { deleteTranslationsInBulk } from '@/lib/repositories/translationRepository';
+import { syncPendingItemRedirects } from '@/lib/services/autoRedirectService';
+import { validateCollectionItemValues } from '@/lib/services/collectionValidationService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -60,6 +62,14 @@ export async function PUT(
     // Extract values from body
     const { values, ...itemData } = body;
 
+    // Enforce field validation rules on the changed values
+    if (values && typeof values === 'object') {
+      const errors = await validateCollectionItemValues(collectionId, values, { itemId, partial: true });
+      if (errors.length > 0) {
+        return noCache({ error: 'Some fields are invalid', errors }, 400);
+      }
+    }
+
     // Always update the item's updated_at timestamp in collection_items table
     await updateItem(itemId, {
       ...itemData,
@@ -75,6 +85,9 @@ export async function PUT(
         {},
         false // is_published (draft)
       );
+
+      // Track URL changes of published dynamic page items for automatic redirects
+      await syncPendingItemRedirects(Object.keys(values));
     }
 
     // Get updated item with values
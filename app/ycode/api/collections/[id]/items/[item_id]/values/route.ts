@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getValuesByItemId } from '@/lib/repositories/collectionItemValueRepository';
 import { setValuesByFieldName } from '@/lib/repositories/collectionItemValueRepository';
+import { syncPendingItemRedirects } from '@/lib/services/autoRedirectService';
+import { validateCollectionItemValues } from '@/lib/services/collectionValidationService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -47,6 +49,12 @@ export async function PUT(
       return noCache({ error: 'Request body must be an object' }, 400);
     }
 
+    // Enforce field validation rules on the changed values
+    const errors = await validateCollectionItemValues(id, body, { itemId: item_id, partial: true });
+    if (errors.length > 0) {
+      return noCache({ error: 'Some fields are invalid', errors }, 400);
+    }
+
     // Set draft values by field name
     await setValuesByFieldName(
       item_id,
@@ -56,6 +64,9 @@ export async function PUT(
       false // Update draft values
     );
 
+    // Track URL changes of published dynamic page items for automatic redirects
+    await syncPendingItemRedirects(Object.keys(body));
+
     // Get updated draft values
     const values = await getValuesByItemId(item_id, false);
     return noCache({ data: values });
@@ -3,9 +3,11 @@ import { getItemsWithValues } from '@/lib/repositories/collectionItemRepository'
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
 import { getAllPages } from '@/lib/repositories/pageRepository';
 import { getAllPageFolders } from '@/lib/repositories/pageFolderRepository';
-import { renderCollectionItemsToHtml, loadTranslationsForLocale } from '@/lib/page-fetcher';
+import { renderCollectionItemsToHtml, loadTranslationsForLocale, applyCollectionQuery, sortCollectionItems } from '@/lib/page-fetcher';
+import { evaluateVisibility, applyLimitOffset } from '@/lib/layer-utils';
+import { isCollectionQueryActive } from '@/lib/collection-query-utils';
 import { noCache } from '@/lib/api-response';
-import type { Layer, Page, PageFolder } from '@/types';
+import type { CollectionItemWithValues, CollectionQuery, ConditionalVisibility, Layer, Page, PageFolder } from '@/types';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -23,6 +25,8 @@ export const revalidate = 0;
  * - layerTemplate: Layer[] - the layer template to render items with
  * - collectionLayerId: string - the collection layer ID for unique item IDs
  * - published: whether to fetch published items (default: true for public pages)
+ * - query: visitor search, filters and sort (from _paginationMeta.query)
+ * - filters: collection filters applied with the query (from _paginationMeta.filters)
  */
 export async function POST(
   request: NextRequest,
@@ -42,7 +46,19 @@ export async function POST(
       collectionLayerId,
       published = true,
       localeCode,
-    } = body;
+      query,
+      filters: collectionFilters,
+    } = body as {
+      offset?: number;
+      limit?: number;
+      itemIds?: string[];
+      layerTemplate?: Layer[];
+      collectionLayerId?: string;
+      published?: boolean;
+      localeCode?: string;
+      query?: CollectionQuery;
+      filters?: ConditionalVisibility;
+    };
 
     // Validate required fields
     if (!layerTemplate || !Array.isArray(layerTemplate)) {
@@ -73,18 +89,39 @@ export async function POST(
       filters.itemIds = itemIds;
     }
 
-    // Fetch items with values
-    const { items, total } = await getItemsWithValues(
-      collectionId,
-      published,
-      filters
-    );
+    const collectionFields = await getFieldsByCollectionId(collectionId, published);
+    let items: CollectionItemWithValues[];
+    let total: number;
+
+    if (isCollectionQueryActive(query)) {
+      // Visitor query: filter and sort all items, then take the next page (same as SSR)
+      const result = await getItemsWithValues(collectionId, published, { itemIds: filters.itemIds });
+      let matchingItems = result.items;
+      if (collectionFilters?.groups?.length) {
+        matchingItems = matchingItems.filter(item =>
+          evaluateVisibility(collectionFilters, {
+            collectionLayerData: item.values,
+            pageCollectionData: null,
+            pageCollectionCounts: {},
+          })
+        );
+      }
+      matchingItems = sortCollectionItems(applyCollectionQuery(matchingItems, query, collectionFields), query.sortBy, query.sortOrder);
+      items = applyLimitOffset(matchingItems, filters.limit, filters.offset);
+      total = matchingItems.length;
+    } else {
+      // Fetch items with values
+      ({ items, total } = await getItemsWithValues(
+        collectionId,
+        published,
+        filters
+      ));
+    }
 
     // Build collection item slugs from the items we're rendering
     const collectionItemSlugs: Record<string, string> = {};
 
     // Get the slug field for this collection
-    const collectionFields = await getFieldsByCollectionId(collectionId, published);
     const slugField = collectionFields.find(f => f.key === 'slug');
 
     // Extract slug values from items
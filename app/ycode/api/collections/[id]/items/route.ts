@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getItemsWithValues, createItem, getItemWithValues, getMaxIdValue } from '@/lib/repositories/collectionItemRepository';
 import { setValuesByFieldName } from '@/lib/repositories/collectionItemValueRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
+import { validateCollectionItemValues } from '@/lib/services/collectionValidationService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -118,14 +119,21 @@ export async function POST(
     // Extract item data and values
     const { values, ...itemData } = body;
 
+    // Get all fields to map field keys to field IDs
+    const fields = await getFieldsByCollectionId(id, false);
+
+    // Enforce field validation rules
+    const errors = await validateCollectionItemValues(id, values || {}, { fields });
+    if (errors.length > 0) {
+      return noCache({ error: 'Some fields are invalid', errors }, 400);
+    }
+
     // Create the item (draft)
     const item = await createItem({
       collection_id: id,
       manual_order: itemData.manual_order ?? 0,
       is_published: false, // Always create as draft
     });
-    // Get all fields to map field keys to field IDs
-    const fields = await getFieldsByCollectionId(id, false);
 
     // Find field IDs for built-in fields
     const idField = fields.find(f => f.key === 'id');
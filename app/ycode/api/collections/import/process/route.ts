@@ -19,6 +19,8 @@ import {
   isValidUrl,
 } from '@/lib/csv-utils';
 import { uploadFile } from '@/lib/file-upload';
+import { validateItemValues } from '@/lib/field-validation-utils';
+import { getUniqueFieldValues, getValidationAssets } from '@/lib/services/collectionValidationService';
 import { noCache } from '@/lib/api-response';
 import { randomUUID } from 'crypto';
 import type { CollectionField } from '@/types';
@@ -166,7 +168,7 @@ function prepareRow(
     }
 
     // Regular field conversion
-    const convertedValue = convertValueForFieldType(rawValue, field.type);
+    const convertedValue = convertValueForFieldType(rawValue, field.type, field);
 
     if (convertedValue !== null) {
       values.push({ item_id: itemId, field_id: fieldId, value: convertedValue, is_published: false });
@@ -219,6 +221,50 @@ async function insertRowByRow(
   return { succeeded, failed };
 }
 
+/**
+ * Validate prepared rows against the validation rules of the fields.
+ * Unique values are checked against existing items and earlier rows of the batch.
+ * @returns Rows that passed validation; failed rows are reported in errors
+ */
+async function validateRows(
+  preparedRows: PreparedRow[],
+  fields: CollectionField[],
+  errors: string[]
+): Promise<PreparedRow[]> {
+  const rowValues = preparedRows.map(row => (
+    Object.fromEntries(row.values.map(value => [value.field_id, value.value])) as Record<string, string | null>
+  ));
+
+  const [uniqueValues, assets] = await Promise.all([
+    getUniqueFieldValues(fields, false),
+    getValidationAssets(fields, rowValues),
+  ]);
+
+  const validRows: PreparedRow[] = [];
+
+  preparedRows.forEach((row, index) => {
+    const fieldErrors = validateItemValues(fields, rowValues[index], {
+      isDuplicate: (fieldId, value) => (uniqueValues.get(fieldId)?.get(value)?.length || 0) > 0,
+      getAsset: (assetId) => assets.get(assetId),
+    });
+
+    if (fieldErrors.length > 0) {
+      errors.push(`Row ${row.rowNumber}: ${fieldErrors.map(error => error.message).join('; ')}`);
+      return;
+    }
+
+    // Reserve unique values for the following rows
+    for (const [fieldId, itemIdsByValue] of uniqueValues) {
+      const value = rowValues[index][fieldId]?.trim();
+      if (value) itemIdsByValue.set(value, [...(itemIdsByValue.get(value) || []), row.itemId]);
+    }
+
+    validRows.push(row);
+  });
+
+  return validRows;
+}
+
 /**
  * POST /ycode/api/collections/import/process
  * Process pending import jobs in batches.
@@ -379,24 +425,28 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // --- Phase 1.75: Enforce field validation rules (required, unique, pattern...) ---
+    const validRows = await validateRows(preparedRows, fields, errors);
+    failedCount += preparedRows.length - validRows.length;
+
     // --- Phase 2: Bulk insert, with row-by-row fallback on failure ---
-    if (preparedRows.length > 0) {
+    if (validRows.length > 0) {
       try {
         // Bulk insert items (1 query)
-        await createItemsBulk(preparedRows.map(r => r.item));
+        await createItemsBulk(validRows.map(r => r.item));
 
         // Bulk insert values (1 query)
-        const allValues = preparedRows.flatMap(r => r.values);
+        const allValues = validRows.flatMap(r => r.values);
         if (allValues.length > 0) {
           await insertValuesBulk(allValues);
         }
 
-        processedCount += preparedRows.length;
+        processedCount += validRows.length;
       } catch (bulkError) {
         // Bulk failed — fall back to row-by-row to identify the culprit(s)
         console.error('Bulk insert failed, falling back to row-by-row:', bulkError);
 
-        const { succeeded, failed } = await insertRowByRow(preparedRows, errors);
+        const { succeeded, failed } = await insertRowByRow(validRows, errors);
         processedCount += succeeded;
         failedCount += failed;
       }
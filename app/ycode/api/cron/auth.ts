@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Validate a scheduled job request
+ * Expects: Authorization: Bearer <CRON_SECRET> (the header Vercel Cron sends)
+ *
+ * Cron routes are disabled until CRON_SECRET is set.
+ */
+export function validateCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get('authorization');
+
+  if (!secret || !authHeader?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(authHeader.substring(7));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create an unauthorized response
+ */
+export function cronUnauthorizedResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'Invalid or missing cron secret' },
+    { status: 401 }
+  );
+}
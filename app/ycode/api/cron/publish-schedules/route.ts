@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { validateCronRequest, cronUnauthorizedResponse } from '../auth';
+import { runDuePublishSchedules } from '@/lib/services/publishScheduleService';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/cron/publish-schedules
+ * Run scheduled publishes and unpublishes whose time has come
+ *
+ * Meant to be called every minute by a scheduler (Vercel Cron, system cron,
+ * or `npm run schedules:run` locally). Requires Authorization: Bearer <CRON_SECRET>.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateCronRequest(request)) {
+    return cronUnauthorizedResponse();
+  }
+
+  try {
+    const result = await runDuePublishSchedules();
+    return noCache({ data: result });
+  } catch (error) {
+    console.error('Error running publish schedules:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to run publish schedules' },
+      500
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { validateCronRequest, cronUnauthorizedResponse } from '../auth';
+import { retryDueWebhookDeliveries } from '@/lib/services/webhookService';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/cron/webhook-retries
+ * Retry failed webhook deliveries whose next attempt is due
+ *
+ * Meant to be called every minute by a scheduler (Vercel Cron, system cron,
+ * or `npm run webhooks:retry` locally). Requires Authorization: Bearer <CRON_SECRET>.
+ */
+export async function GET(request: NextRequest) {
+  if (!validateCronRequest(request)) {
+    return cronUnauthorizedResponse();
+  }
+
+  try {
+    const result = await retryDueWebhookDeliveries();
+    return noCache({ data: result });
+  } catch (error) {
+    console.error('Error retrying webhook deliveries:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to retry webhook deliveries' },
+      500
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { deletePageFolder, updatePageFolder, getPageFolderById } from '@/lib/repositories/pageFolderRepository';
 import { deleteTranslationsInBulk } from '@/lib/repositories/translationRepository';
+import { syncPendingRedirects } from '@/lib/services/autoRedirectService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -72,6 +73,11 @@ export async function PUT(
 
     const updatedFolder = await updatePageFolder(id, body);
 
+    // Track URL changes of published pages for automatic redirects
+    if (body.slug !== undefined || body.page_folder_id !== undefined) {
+      await syncPendingRedirects();
+    }
+
     return noCache(
       { data: updatedFolder },
       200
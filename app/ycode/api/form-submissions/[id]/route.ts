@@ -4,6 +4,7 @@ import {
   updateFormSubmission,
   deleteFormSubmission,
 } from '@/lib/repositories/formSubmissionRepository';
+import { withSubmissionFiles, deleteSubmissionFiles } from '@/lib/services/formFileService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -27,7 +28,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return noCache({ error: 'Form submission not found' }, 404);
     }
 
-    return noCache({ data: submission });
+    const [submissionWithFiles] = await withSubmissionFiles([submission]);
+
+    return noCache({ data: submissionWithFiles });
   } catch (error) {
     console.error('Error fetching form submission:', error);
     return noCache(
@@ -75,6 +78,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    await deleteSubmissionFiles([id]);
     await deleteFormSubmission(id);
 
     return noCache({ message: 'Form submission deleted successfully' });
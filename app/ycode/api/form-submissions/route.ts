@@ -9,7 +9,25 @@ import {
 import { dispatchFormSubmittedEvent } from '@/lib/services/webhookService';
 import { sendFormSubmissionEmail, extractReplyToEmail } from '@/lib/services/emailService';
 import { processAppIntegrations } from '@/lib/apps/integration-service';
+import { getFormDefinition } from '@/lib/services/formService';
+import { scoreFormSubmission } from '@/lib/services/formSpamService';
+import {
+  saveFormSubmissionFiles,
+  getFormSubmissionFileLinks,
+  withSubmissionFiles,
+  deleteSubmissionFiles,
+  deleteFormSubmissionFiles,
+} from '@/lib/services/formFileService';
+import {
+  FORM_HONEYPOT_FIELD,
+  FORM_TOKEN_FIELD,
+  FORM_FILE_PART_PREFIX,
+  pickFormFiles,
+  stripFormSpamFields,
+  validateFormSubmission,
+} from '@/lib/form-utils';
 import { noCache } from '@/lib/api-response';
+import type { FormSubmissionMetadata } from '@/types';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -37,7 +55,7 @@ export async function GET(request: NextRequest) {
     }
 
     const submissions = await getAllFormSubmissions(formId, status);
-    return noCache({ data: submissions });
+    return noCache({ data: await withSubmissionFiles(submissions) });
   } catch (error) {
     console.error('Error fetching form submissions:', error);
     return noCache(
@@ -51,14 +69,22 @@ export async function GET(request: NextRequest) {
  * POST /ycode/api/form-submissions
  * Create a new form submission (public endpoint for form submissions)
  *
- * Body:
+ * Body (JSON, or multipart/form-data when the form has file inputs):
  * - form_id: string (required)
- * - payload: object (required)
- * - metadata: object (optional - IP, user agent, etc.)
+ * - page_id: string (required - form IDs are only unique within a page)
+ * - payload: object (required, JSON-encoded in multipart requests)
+ * - metadata: object (optional - page URL, JSON-encoded in multipart requests)
+ * - file:<field name>: File (multipart only, repeated for multiple files;
+ *   files of fields that aren't file inputs of the form are dropped)
+ *
+ * The payload is validated against the form definition derived from the
+ * form layer; invalid fields are returned as `errors` (field name -> message).
+ * Valid submissions are then scored for spam. Spam is stored with status
+ * 'spam' and doesn't trigger webhooks, email notifications or app integrations.
  */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const { body, files } = await parseSubmissionRequest(request);
 
     // Validate required fields
     if (!body.form_id) {
@@ -68,6 +94,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!body.page_id || typeof body.page_id !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: page_id' },
+        { status: 400 }
+      );
+    }
+
     if (!body.payload || typeof body.payload !== 'object') {
       return NextResponse.json(
         { error: 'Missing or invalid field: payload' },
@@ -75,50 +108,103 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Extract metadata from request if not provided
-    const metadata = body.metadata || {
+    // The form definition and notification settings come from the form layer, not the browser
+    const formDefinition = await getFormDefinition(body.page_id, body.form_id);
+
+    if (!formDefinition) {
+      return NextResponse.json(
+        { error: 'Form not found' },
+        { status: 404 }
+      );
+    }
+
+    // Only files of the form's file inputs are validated and stored
+    const formFiles = pickFormFiles(formDefinition, files);
+
+    const { values: payload, errors } = validateFormSubmission(
+      formDefinition,
+      stripFormSpamFields(body.payload),
+      formFiles
+    );
+
+    if (Object.keys(errors).length > 0) {
+      return NextResponse.json(
+        { error: 'Some fields are invalid', errors },
+        { status: 400 }
+      );
+    }
+
+    // Request details are taken from headers; only the page URL comes from the browser
+    const metadata: FormSubmissionMetadata = {
+      ip: getClientIp(request),
       user_agent: request.headers.get('user-agent') || undefined,
       referrer: request.headers.get('referer') || undefined,
-      // Note: IP is typically handled by the proxy/edge, not available directly
+      page_url: typeof body.metadata?.page_url === 'string' ? body.metadata.page_url : undefined,
     };
 
+    // Score the submission using the form's spam protection settings
+    const spamVerdict = await scoreFormSubmission({
+      formId: body.form_id,
+      payload,
+      settings: formDefinition.settings.spam_protection || {},
+      ip: metadata.ip,
+      honeypot: body.payload[FORM_HONEYPOT_FIELD] || undefined,
+      token: body.payload[FORM_TOKEN_FIELD] || undefined,
+    });
+
     const submission = await createFormSubmission({
       form_id: body.form_id,
-      payload: body.payload,
-      metadata,
+      payload,
+      metadata: { ...metadata, spam: spamVerdict },
+      status: spamVerdict.is_spam ? 'spam' : 'new',
     });
 
+    // Respond as usual so bots can't tell their submission was flagged.
+    // Files sent with spam are never stored.
+    if (spamVerdict.is_spam) {
+      return NextResponse.json(
+        { data: { id: submission.id }, message: 'Form submitted successfully' },
+        { status: 201 }
+      );
+    }
+
+    const submissionFiles = await saveFormSubmissionFiles(submission, formFiles);
+    const fileLinks = await getFormSubmissionFileLinks(submissionFiles);
+
     // Dispatch webhook event (fire and forget)
     dispatchFormSubmittedEvent({
       form_id: body.form_id,
       submission_id: submission.id,
-      fields: body.payload,
+      fields: payload,
+      files: fileLinks,
       metadata,
     });
 
     // Send email notification if enabled (fire and forget)
-    if (body.email?.enabled && body.email?.to) {
+    const emailNotification = formDefinition.settings.email_notification;
+    if (emailNotification?.enabled && emailNotification.to) {
       // Extract reply-to email from form payload (first email field found)
-      const replyTo = extractReplyToEmail(body.payload);
+      const replyTo = extractReplyToEmail(payload);
 
       sendFormSubmissionEmail(
-        body.email.to,
-        body.email.subject || `New form submission: ${body.form_id}`,
+        emailNotification.to,
+        emailNotification.subject || `New form submission: ${body.form_id}`,
         {
           formId: body.form_id,
           submissionId: submission.id,
-          payload: body.payload,
+          payload,
           metadata: {
             ...metadata,
             submitted_at: submission.created_at,
           },
+          files: fileLinks,
           replyTo,
         }
       );
     }
 
     // Process app integrations (fire and forget)
-    processAppIntegrations(body.form_id, submission.id, body.payload);
+    processAppIntegrations(body.form_id, submission.id, payload);
 
     return NextResponse.json(
       { data: submission, message: 'Form submitted successfully' },
@@ -133,6 +219,69 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Read the submission body and any uploaded files
+ * Forms with file inputs are sent as multipart/form-data, other forms as JSON.
+ */
+async function parseSubmissionRequest(request: NextRequest): Promise<{
+  body: Record<string, any>;
+  files: Record<string, File[]>;
+}> {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (!contentType.includes('multipart/form-data')) {
+    return { body: await request.json(), files: {} };
+  }
+
+  const formData = await request.formData();
+  const files: Record<string, File[]> = {};
+
+  formData.forEach((value, key) => {
+    if (!key.startsWith(FORM_FILE_PART_PREFIX) || typeof value === 'string' || value.size === 0) {
+      return;
+    }
+
+    const fieldName = key.slice(FORM_FILE_PART_PREFIX.length);
+    files[fieldName] = [...(files[fieldName] || []), value];
+  });
+
+  return {
+    body: {
+      form_id: formData.get('form_id'),
+      page_id: formData.get('page_id'),
+      payload: parseJsonPart(formData.get('payload')),
+      metadata: parseJsonPart(formData.get('metadata')),
+    },
+    files,
+  };
+}
+
+function parseJsonPart(value: FormDataEntryValue | null): unknown {
+  if (typeof value !== 'string') return undefined;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the visitor's IP address from proxy headers
+ * Uses the address set by the proxy in front of the app: x-real-ip, or the
+ * right-most x-forwarded-for entry. Earlier entries are sent by the client
+ * and can be made up.
+ */
+function getClientIp(request: NextRequest): string | undefined {
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  if (realIp) {
+    return realIp;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return forwardedFor?.split(',').map((entry) => entry.trim()).filter(Boolean).pop();
+}
+
 /**
  * DELETE /ycode/api/form-submissions
  * Delete submissions - either by form_id (all submissions) or by ids (bulk delete)
@@ -150,6 +299,7 @@ export async function DELETE(request: NextRequest) {
 
     // If form_id is provided, delete all submissions for that form
     if (formId) {
+      await deleteFormSubmissionFiles(formId);
       await deleteFormSubmissionsByFormId(formId);
       return noCache({ message: 'All submissions for form deleted successfully' });
     }
@@ -159,6 +309,7 @@ export async function DELETE(request: NextRequest) {
     const ids = body.ids;
 
     if (Array.isArray(ids) && ids.length > 0) {
+      await deleteSubmissionFiles(ids);
       await bulkDeleteFormSubmissions(ids);
       return noCache({ message: `${ids.length} submissions deleted successfully` });
     }
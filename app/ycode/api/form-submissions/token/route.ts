@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server';
+import { createFormToken } from '@/lib/services/formSpamService';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/form-submissions/token
+ * Issue a signed time-to-submit token for a form (public endpoint)
+ *
+ * Published pages are cached, so forms fetch this when they mount
+ * instead of having the timestamp rendered into the static HTML.
+ *
+ * Query params:
+ * - form_id: string (required)
+ */
+export async function GET(request: NextRequest) {
+  const formId = request.nextUrl.searchParams.get('form_id');
+
+  if (!formId) {
+    return noCache({ error: 'Missing required param: form_id' }, 400);
+  }
+
+  return noCache({ data: { token: createFormToken(formId) } });
+}
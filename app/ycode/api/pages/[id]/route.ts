@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { getPageById, updatePage, deletePage } from '@/lib/repositories/pageRepository';
 import { deleteTranslationsInBulk } from '@/lib/repositories/translationRepository';
+import { syncPendingRedirects } from '@/lib/services/autoRedirectService';
 import { noCache } from '@/lib/api-response';
 
 // Disable caching for this route
@@ -98,6 +99,11 @@ export async function PUT(
     // Pass all updates to the repository (it will handle further validation)
     const page = await updatePage(id, body);
 
+    // Track URL changes of published pages for automatic redirects
+    if (body.slug !== undefined || body.page_folder_id !== undefined || body.is_index !== undefined) {
+      await syncPendingRedirects();
+    }
+
     return noCache({
       data: page,
     });
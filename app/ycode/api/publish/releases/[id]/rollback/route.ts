@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { noCache } from '@/lib/api-response';
+import { getSiteReleaseById } from '@/lib/repositories/siteReleaseRepository';
+import { rollbackToRelease } from '@/lib/services/siteReleaseService';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * POST /ycode/api/publish/releases/[id]/rollback
+ * Roll the live site back to a release (drafts are kept)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await getSiteReleaseById(id);
+    if (!existing) {
+      return noCache({ error: 'Release not found' }, 404);
+    }
+
+    const release = await rollbackToRelease(id);
+
+    return noCache({
+      data: release,
+      message: `Rolled back to "${release.name}"`,
+    });
+  } catch (error) {
+    console.error('Error rolling back release:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to roll back release' },
+      500
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { noCache } from '@/lib/api-response';
+import { getSiteReleaseById, updateSiteRelease } from '@/lib/repositories/siteReleaseRepository';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * PUT /ycode/api/publish/releases/[id]
+ * Rename a release
+ *
+ * Body: { name: string }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return noCache({ error: 'Release name is required' }, 400);
+    }
+
+    const existing = await getSiteReleaseById(id);
+    if (!existing) {
+      return noCache({ error: 'Release not found' }, 404);
+    }
+
+    const release = await updateSiteRelease(id, name);
+
+    return noCache({ data: release });
+  } catch (error) {
+    console.error('Error updating release:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to update release' },
+      500
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { noCache } from '@/lib/api-response';
+import { diffSiteReleases } from '@/lib/services/siteReleaseService';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/publish/releases/diff
+ * Compare two releases
+ *
+ * Query params:
+ * - from: ID of the older release (required)
+ * - to: ID of the newer release (required)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const fromId = searchParams.get('from');
+  const toId = searchParams.get('to');
+
+  if (!fromId || !toId) {
+    return noCache({ error: 'Missing required params: from, to' }, 400);
+  }
+
+  try {
+    const diff = await diffSiteReleases(fromId, toId);
+
+    return noCache({ data: diff });
+  } catch (error) {
+    console.error('Error comparing releases:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to compare releases' },
+      500
+    );
+  }
+}
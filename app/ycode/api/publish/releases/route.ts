@@ -0,0 +1,28 @@
+import { noCache } from '@/lib/api-response';
+import { getAllSiteReleases } from '@/lib/repositories/siteReleaseRepository';
+import { getLiveReleaseId } from '@/lib/services/siteReleaseService';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/publish/releases
+ * List the releases recorded on publish (newest first), with the ID of the live release
+ */
+export async function GET() {
+  try {
+    const [releases, liveReleaseId] = await Promise.all([
+      getAllSiteReleases(),
+      getLiveReleaseId(),
+    ]);
+
+    return noCache({ data: { releases, live_release_id: liveReleaseId } });
+  } catch (error) {
+    console.error('Error fetching releases:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to fetch releases' },
+      500
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { noCache } from '@/lib/api-response';
+import { getPublishScheduleById, cancelPublishSchedule } from '@/lib/repositories/publishScheduleRepository';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * DELETE /ycode/api/publish/schedules/[id]
+ * Cancel a pending publish schedule (kept for history with status cancelled)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const existing = await getPublishScheduleById(id);
+    if (!existing) {
+      return noCache({ error: 'Publish schedule not found' }, 404);
+    }
+
+    const schedule = await cancelPublishSchedule(id);
+    if (!schedule) {
+      return noCache({ error: `This schedule is ${existing.status} and can no longer be cancelled` }, 409);
+    }
+
+    return noCache({ data: schedule });
+  } catch (error) {
+    console.error('Error cancelling publish schedule:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to cancel publish schedule' },
+      500
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { noCache } from '@/lib/api-response';
+import { getPublishSchedules, createPublishSchedule } from '@/lib/repositories/publishScheduleRepository';
+import { parsePublishSchedule } from '@/lib/services/publishScheduleService';
+import type { PublishScheduleStatus, PublishScheduleTargetType } from '@/types';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/publish/schedules
+ * List publish schedules, soonest first
+ *
+ * Query Parameters:
+ * - status: pending (default), running, completed, failed or cancelled
+ * - target_type: site, page or collection_item
+ * - target_id: Page or collection item ID
+ * - collection_id: Collection of collection item schedules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const schedules = await getPublishSchedules({
+      status: (searchParams.get('status') || 'pending') as PublishScheduleStatus,
+      target_type: (searchParams.get('target_type') || undefined) as PublishScheduleTargetType | undefined,
+      target_id: searchParams.get('target_id') || undefined,
+      collection_id: searchParams.get('collection_id') || undefined,
+    });
+
+    return noCache({ data: schedules });
+  } catch (error) {
+    console.error('Error fetching publish schedules:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to fetch publish schedules' },
+      500
+    );
+  }
+}
+
+/**
+ * POST /ycode/api/publish/schedules
+ * Schedule a publish or unpublish
+ *
+ * Body: {
+ *   action: 'publish' | 'unpublish',
+ *   target_type: 'site' | 'page' | 'collection_item',
+ *   target_id?: string,     // Required for pages and collection items
+ *   collection_id?: string, // Required for collection items
+ *   scheduled_at: string    // ISO timestamp in the future
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return noCache({ error: 'Invalid request body' }, 400);
+    }
+
+    const parsed = parsePublishSchedule(body);
+    if (parsed.error) {
+      return noCache({ error: parsed.error }, 400);
+    }
+
+    const schedule = await createPublishSchedule(parsed.data!);
+
+    return noCache({ data: schedule }, 201);
+  } catch (error) {
+    console.error('Error creating publish schedule:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to create publish schedule' },
+      500
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server';
+import { searchSite } from '@/lib/services/searchIndexService';
+import { SITE_SEARCH_PARAM } from '@/lib/site-search-utils';
+import { noCache } from '@/lib/api-response';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/search
+ * Search the published site (public endpoint)
+ *
+ * Query params:
+ * - q: search text (required)
+ * - locale: locale code of the results (default locale when not set)
+ * - limit: number of hits (default: 10, max: 50)
+ * - offset: number of hits to skip (default: 0)
+ *
+ * Hits have a title, URL and an excerpt (plain, and as escaped HTML with matches in <mark>)
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get(SITE_SEARCH_PARAM)?.trim();
+
+  if (!query) {
+    return noCache({ error: `Missing required param: ${SITE_SEARCH_PARAM}` }, 400);
+  }
+
+  try {
+    const result = await searchSite(query, {
+      localeCode: searchParams.get('locale'),
+      limit: parseInt(searchParams.get('limit') || '', 10) || undefined,
+      offset: parseInt(searchParams.get('offset') || '', 10) || undefined,
+    });
+
+    return noCache({ data: result });
+  } catch (error) {
+    console.error('Error searching site:', error);
+    return noCache(
+      { error: error instanceof Error ? error.message : 'Failed to search' },
+      500
+    );
+  }
+}
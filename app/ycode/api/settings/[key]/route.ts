@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSettingByKey, setSetting } from '@/lib/repositories/settingsRepository';
+import { clearRedirectCache } from '@/lib/services/redirectService';
 
 /**
  * GET /ycode/api/settings/[key]
@@ -54,6 +55,10 @@ export async function PUT(
 
     await setSetting(key, value);
 
+    if (key === 'redirects') {
+      clearRedirectCache();
+    }
+
     return NextResponse.json({
       data: { key, value },
       message: 'Setting updated successfully',
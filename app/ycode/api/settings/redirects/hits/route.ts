@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getRedirectHits } from '@/lib/repositories/redirectHitRepository';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/settings/redirects/hits
+ *
+ * Get hit counters of redirect rules
+ */
+export async function GET() {
+  try {
+    const hits = await getRedirectHits();
+
+    return NextResponse.json({ data: hits });
+  } catch (error) {
+    console.error('[API] Error fetching redirect hits:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch redirect hits' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,140 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { validateApiKey as validateApiKeyFromRepo } from '@/lib/repositories/apiKeyRepository';
+import type { ApiKey } from '@/lib/repositories/apiKeyRepository';
+import { isApiKeyExpired } from '@/lib/api-key-utils';
+import type { ApiKeyScope } from '@/lib/api-key-utils';
+
+export type ApiAuthErrorCode = 'UNAUTHORIZED' | 'FORBIDDEN' | 'RATE_LIMITED';
 
 export interface ApiKeyValidation {
   valid: boolean;
   error?: string;
+  code?: ApiAuthErrorCode;
+  /** Seconds until the rate limit window resets (RATE_LIMITED only) */
+  retryAfter?: number;
+  key?: ApiKey;
+}
+
+export interface ApiKeyAccess {
+  /** Scope the endpoint requires */
+  scope: ApiKeyScope;
+  /** Collection the endpoint operates on, checked against the key's restriction */
+  collectionId?: string;
+}
+
+/**
+ * Simple in-memory rate limiter for API keys
+ * Tracks requests per key in fixed one-minute windows
+ */
+const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
+
+function checkRateLimit(key: ApiKey): { allowed: boolean; retryAfter: number } {
+  if (!key.rate_limit) {
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  const now = Date.now();
+  const record = rateLimitStore.get(key.id);
+
+  // Clean up expired entries periodically
+  if (rateLimitStore.size > 10000) {
+    for (const [id, value] of rateLimitStore.entries()) {
+      if (now > value.resetTime) {
+        rateLimitStore.delete(id);
+      }
+    }
+  }
+
+  if (!record || now > record.resetTime) {
+    // No record or expired - allow and start fresh
+    rateLimitStore.set(key.id, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  if (record.count >= key.rate_limit) {
+    return { allowed: false, retryAfter: Math.ceil((record.resetTime - now) / 1000) };
+  }
+
+  record.count++;
+  return { allowed: true, retryAfter: 0 };
+}
+
+/**
+ * Whether an API key may access a collection
+ */
+export function canAccessCollection(key: ApiKey | undefined, collectionId: string): boolean {
+  return !key?.collection_ids || key.collection_ids.includes(collectionId);
 }
 
 /**
  * Validate API key from Authorization header
  * Expects: Authorization: Bearer <api_key>
- * 
+ *
  * The API key is hashed and compared against stored hashes in the api_keys table.
  * Updates last_used_at on successful validation.
+ *
+ * When access is given, the key must also grant the scope and, if set,
+ * the collection. Expired keys, exceeded rate limits and out-of-scope
+ * calls are rejected with their own error codes.
  */
-export async function validateApiKey(request: NextRequest): Promise<ApiKeyValidation> {
+export async function validateApiKey(
+  request: NextRequest,
+  access?: ApiKeyAccess
+): Promise<ApiKeyValidation> {
   const authHeader = request.headers.get('authorization');
 
   if (!authHeader) {
-    return { valid: false, error: 'Missing Authorization header' };
+    return { valid: false, error: 'Missing Authorization header', code: 'UNAUTHORIZED' };
   }
 
   if (!authHeader.startsWith('Bearer ')) {
-    return { valid: false, error: 'Invalid Authorization format. Use: Bearer <api_key>' };
+    return { valid: false, error: 'Invalid Authorization format. Use: Bearer <api_key>', code: 'UNAUTHORIZED' };
   }
 
   const apiKey = authHeader.substring(7); // Remove 'Bearer ' prefix
 
   if (!apiKey) {
-    return { valid: false, error: 'API key is required' };
+    return { valid: false, error: 'API key is required', code: 'UNAUTHORIZED' };
   }
 
+  let key: ApiKey | null;
+
   try {
     // Validate against api_keys table
-    const key = await validateApiKeyFromRepo(apiKey);
-
-    if (!key) {
-      return { valid: false, error: 'Invalid API key' };
-    }
-
-    return { valid: true };
+    key = await validateApiKeyFromRepo(apiKey);
   } catch (error) {
     console.error('API key validation error:', error);
-    return { valid: false, error: 'API key validation failed. Please check your database configuration.' };
+    return { valid: false, error: 'API key validation failed. Please check your database configuration.', code: 'UNAUTHORIZED' };
   }
+
+  if (!key) {
+    return { valid: false, error: 'Invalid API key', code: 'UNAUTHORIZED' };
+  }
+
+  if (isApiKeyExpired(key.expires_at)) {
+    return { valid: false, error: 'API key has expired', code: 'UNAUTHORIZED' };
+  }
+
+  const { allowed, retryAfter } = checkRateLimit(key);
+  if (!allowed) {
+    return {
+      valid: false,
+      error: `Rate limit exceeded (${key.rate_limit} requests per minute)`,
+      code: 'RATE_LIMITED',
+      retryAfter,
+    };
+  }
+
+  if (access && !key.scopes.includes(access.scope)) {
+    return { valid: false, error: `API key is missing the "${access.scope}" scope`, code: 'FORBIDDEN' };
+  }
+
+  if (access?.collectionId && !canAccessCollection(key, access.collectionId)) {
+    return { valid: false, error: 'API key does not have access to this collection', code: 'FORBIDDEN' };
+  }
+
+  return { valid: true, key };
 }
 
 /**
@@ -54,3 +146,33 @@ export function unauthorizedResponse(message: string): NextResponse {
     { status: 401 }
   );
 }
+
+/**
+ * Create a forbidden response (valid key, but out of scope)
+ */
+export function forbiddenResponse(message: string): NextResponse {
+  return NextResponse.json(
+    { error: message, code: 'FORBIDDEN' },
+    { status: 403 }
+  );
+}
+
+/**
+ * Create the error response for a failed API key validation
+ */
+export function authErrorResponse(result: ApiKeyValidation): NextResponse {
+  const message = result.error || 'Unauthorized';
+
+  if (result.code === 'FORBIDDEN') {
+    return forbiddenResponse(message);
+  }
+
+  if (result.code === 'RATE_LIMITED') {
+    return NextResponse.json(
+      { error: message, code: 'RATE_LIMITED' },
+      { status: 429, headers: { 'Retry-After': String(result.retryAfter || 60) } }
+    );
+  }
+
+  return unauthorizedResponse(message);
+}
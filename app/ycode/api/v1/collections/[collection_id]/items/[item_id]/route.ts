@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../../../auth';
+import { validateApiKey, authErrorResponse } from '../../../../auth';
 import { getCollectionById } from '@/lib/repositories/collectionRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
 import { getItemWithValues, deleteItem } from '@/lib/repositories/collectionItemRepository';
 import { setValues } from '@/lib/repositories/collectionItemValueRepository';
 import { getSupabaseAdmin } from '@/lib/supabase-server';
+import { validateCollectionItemValues } from '@/lib/services/collectionValidationService';
+import { normalizeOptionFieldValues } from '@/lib/option-field-utils';
 import { transformItemToPublicWithRefs, parseFieldProjections } from '../../../../reference-resolver';
+import { validationErrorResponse } from '../../../../validation';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -19,15 +22,15 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string; item_id: string }> }
 ) {
+  const { collection_id, item_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:read', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id, item_id } = await params;
-
     // Parse field projections from query params
     const { searchParams } = new URL(request.url);
     const fieldProjections = parseFieldProjections(searchParams);
@@ -60,7 +63,8 @@ export async function GET(
       fields, 
       true,
       hasProjections ? fieldProjections : undefined,
-      hasProjections ? collection.name : undefined
+      hasProjections ? collection.name : undefined,
+      authResult.key
     );
     return NextResponse.json(response);
   } catch (error) {
@@ -86,15 +90,15 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string; item_id: string }> }
 ) {
+  const { collection_id, item_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:write', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id, item_id } = await params;
-
     // Parse field projections from query params (for response filtering)
     const { searchParams } = new URL(request.url);
     const fieldProjections = parseFieldProjections(searchParams);
@@ -162,6 +166,19 @@ export async function PUT(
       }
     }
 
+    // Option fields accept labels, arrays and comma-separated values
+    Object.assign(valuesToSet, normalizeOptionFieldValues(valuesToSet, fields));
+
+    // Enforce field validation rules
+    const validationErrors = await validateCollectionItemValues(collection_id, valuesToSet, {
+      itemId: item_id,
+      isPublished: true,
+      fields,
+    });
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors, fields);
+    }
+
     // Auto-update updated_at timestamp if field exists
     const updatedAtField = fields.find(f => f.key === 'updated_at');
     if (updatedAtField) {
@@ -189,7 +206,8 @@ export async function PUT(
       fields, 
       true,
       hasProjections ? fieldProjections : undefined,
-      hasProjections ? collection.name : undefined
+      hasProjections ? collection.name : undefined,
+      authResult.key
     );
     return NextResponse.json(response);
   } catch (error) {
@@ -214,15 +232,15 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string; item_id: string }> }
 ) {
+  const { collection_id, item_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:write', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id, item_id } = await params;
-
     // Parse field projections from query params (for response filtering)
     const { searchParams } = new URL(request.url);
     const fieldProjections = parseFieldProjections(searchParams);
@@ -281,6 +299,20 @@ export async function PATCH(
       }
     }
 
+    // Option fields accept labels, arrays and comma-separated values
+    Object.assign(valuesToSet, normalizeOptionFieldValues(valuesToSet, fields));
+
+    // Enforce field validation rules
+    const validationErrors = await validateCollectionItemValues(collection_id, valuesToSet, {
+      itemId: item_id,
+      isPublished: true,
+      partial: true,
+      fields,
+    });
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors, fields);
+    }
+
     // Auto-update updated_at timestamp if field exists
     const updatedAtField = fields.find(f => f.key === 'updated_at');
     if (updatedAtField) {
@@ -310,7 +342,8 @@ export async function PATCH(
       fields, 
       true,
       hasProjections ? fieldProjections : undefined,
-      hasProjections ? collection.name : undefined
+      hasProjections ? collection.name : undefined,
+      authResult.key
     );
     return NextResponse.json(response);
   } catch (error) {
@@ -330,15 +363,15 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string; item_id: string }> }
 ) {
+  const { collection_id, item_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:write', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id, item_id } = await params;
-
     // Verify collection exists (published)
     const collection = await getCollectionById(collection_id, true);
     if (!collection) {
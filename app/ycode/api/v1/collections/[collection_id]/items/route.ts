@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../../auth';
+import { validateApiKey, authErrorResponse } from '../../../auth';
 import { getCollectionById } from '@/lib/repositories/collectionRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
 import { getItemsWithValues, createItem, getMaxIdValue } from '@/lib/repositories/collectionItemRepository';
 import { setValues } from '@/lib/repositories/collectionItemValueRepository';
+import { validateCollectionItemValues } from '@/lib/services/collectionValidationService';
+import { normalizeOptionFieldValues } from '@/lib/option-field-utils';
 import { transformItemToPublicWithRefs, parseFieldProjections } from '../../../reference-resolver';
+import { validationErrorResponse } from '../../../validation';
+import {
+  parseItemFilters,
+  applyItemFilters,
+  parseSearchFields,
+  applyItemSearch,
+  parseItemSort,
+  applyItemSort,
+  decodeItemCursor,
+  encodeItemCursor,
+  getItemsAfterCursor,
+} from '../../../item-query';
 
 // Disable caching for this route
 export const dynamic = 'force-dynamic';
@@ -12,44 +26,50 @@ export const revalidate = 0;
 
 /**
  * GET /ycode/api/v1/collections/{collection_id}/items
- * List all published items in a collection with pagination, filtering, and sorting
+ * List all published items in a collection with pagination, filtering, search and sorting
  * 
  * Query Parameters:
  * - page: number (default: 1) - Page number
  * - per_page: number (default: 100) - Items per page
  * - limit: number - Limit total number of records (alternative to pagination)
- * - sort_by: string - Field slug to sort by
- * - order_by: string (asc|desc, default: asc) - Sort order
+ * - cursor: string - Continue after pagination.next_cursor (replaces page)
+ * - sort: string - Comma-separated field slugs, "-" prefix for descending (e.g. -price,name)
+ * - sort_by: string - Field slug to sort by (single field, use sort for multiple)
+ * - order_by: string (asc|desc, default: asc) - Sort order for sort_by
  * - filter[field_slug]: string - Filter by exact field value
+ * - filter[field_slug][operator]: string - Filter with an operator, e.g. filter[price][gte]=10,
+ *   filter[tags][is_one_of]=a,b or filter[date][is_between]=2026-01-01,2026-02-01
+ * - search: string - Case-insensitive search across text fields
+ * - search_fields: string - Comma-separated field slugs to limit search to
  * 
  * Response format:
  * {
  *   "items": [
  *     { "id": "...", "name": "...", "slug": "...", ... }
  *   ],
- *   "pagination": { "page": 1, "per_page": 100, "total": 50 }
+ *   "pagination": { "page": 1, "per_page": 100, "total": 50, "next_cursor": "..." }
  * }
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string }> }
 ) {
+  const { collection_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:read', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id } = await params;
-
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     const pageParam = searchParams.get('page');
     const perPageParam = searchParams.get('per_page');
     const limitParam = searchParams.get('limit');
-    const sortByParam = searchParams.get('sort_by');
-    const orderByParam = searchParams.get('order_by');
+    const searchParam = searchParams.get('search')?.trim() || '';
+    const cursorParam = searchParams.get('cursor');
     
     // Pagination with validation
     const page = pageParam ? Math.max(1, parseInt(pageParam, 10) || 1) : 1;
@@ -59,6 +79,7 @@ export async function GET(
     const limit = limitParam 
       ? Math.min(Math.max(1, parseInt(limitParam, 10) || 100), 1000) 
       : perPage;
+    const pageSize = limitParam ? limit : perPage;
     const offset = (page - 1) * perPage;
 
     // Verify collection exists (published)
@@ -70,88 +91,74 @@ export async function GET(
       );
     }
 
-    // Get published fields for reference resolution and filtering
+    // Get published fields for reference resolution, filtering and sorting
     const fields = await getFieldsByCollectionId(collection_id, true);
-    const fieldSlugToId: Record<string, string> = {};
-    fields.forEach(field => {
-      const slug = field.key || field.name.toLowerCase().replace(/\s+/g, '-');
-      fieldSlugToId[slug] = field.id;
-    });
 
-    // Parse filter params first to determine if we need client-side pagination
-    const filterParams: Record<string, string> = {};
-    searchParams.forEach((value, key) => {
-      const match = key.match(/^filter\[(.+)\]$/);
-      if (match) {
-        filterParams[match[1]] = value;
-      }
-    });
+    // Parse filters, search and sorting
+    const filterResult = parseItemFilters(searchParams, fields);
+    const searchFieldsResult = parseSearchFields(searchParams, fields);
+    const sortResult = parseItemSort(searchParams, fields);
+    const queryError = filterResult.error || searchFieldsResult.error || sortResult.error;
+    if (queryError) {
+      return NextResponse.json(
+        { error: queryError, code: 'INVALID_REQUEST' },
+        { status: 400 }
+      );
+    }
+    const conditions = filterResult.data!;
+    const sortKeys = sortResult.data!;
+
+    const cursorResult = cursorParam ? decodeItemCursor(cursorParam, sortKeys) : null;
+    if (cursorResult?.error) {
+      return NextResponse.json(
+        { error: cursorResult.error, code: 'INVALID_REQUEST' },
+        { status: 400 }
+      );
+    }
+    const cursorTuple = cursorResult?.data ?? null;
 
     // Parse field projections for limiting returned fields
     const fieldProjections = parseFieldProjections(searchParams);
 
-    // If sorting or filtering is requested, we need to fetch all items first,
-    // then apply filter/sort, then paginate client-side
-    const needsClientPagination = sortByParam || Object.keys(filterParams).length > 0;
+    // If filtering, searching, sorting or a cursor is requested, we need to
+    // fetch all items first, then apply them, then paginate in memory
+    const needsClientPagination = conditions.length > 0
+      || !!searchParam
+      || searchParams.has('sort')
+      || searchParams.has('sort_by')
+      || !!cursorTuple;
 
     // Get published items with values
     let { items, total } = await getItemsWithValues(collection_id, true, {
-      limit: needsClientPagination ? undefined : (limitParam ? limit : perPage),
+      limit: needsClientPagination ? undefined : pageSize,
       offset: needsClientPagination ? undefined : offset,
       deleted: false,
     });
 
-    // Apply client-side filtering (filter[field_slug]=value)
-    if (Object.keys(filterParams).length > 0) {
-      items = items.filter(item => {
-        for (const [key, filterValue] of Object.entries(filterParams)) {
-          // Normalize filter key to lowercase slug for case-insensitive matching
-          const slug = key.toLowerCase().replace(/\s+/g, '-');
-          const fieldId = fieldSlugToId[slug];
-          if (fieldId) {
-            const itemValue = item.values[fieldId];
-            if (itemValue !== filterValue) {
-              return false;
-            }
-          }
-        }
-        return true;
-      });
-    }
+    let hasMore = !needsClientPagination && offset + items.length < total;
 
-    // Apply sorting (case-insensitive field matching)
-    if (sortByParam) {
-      const normalizedSort = sortByParam.toLowerCase().replace(/\s+/g, '-');
-      const sortFieldId = fieldSlugToId[normalizedSort];
-      if (sortFieldId) {
-        // Get field type for proper sorting (numeric vs string)
-        const sortField = fields.find(f => f.id === sortFieldId);
-        const isNumeric = sortField?.type === 'number';
-        const order = orderByParam === 'desc' ? -1 : 1;
-        
-        items.sort((a, b) => {
-          const aVal = a.values[sortFieldId] || '';
-          const bVal = b.values[sortFieldId] || '';
-          
-          if (isNumeric) {
-            // Numeric comparison
-            const aNum = parseFloat(aVal) || 0;
-            const bNum = parseFloat(bVal) || 0;
-            return (aNum - bNum) * order;
-          } else {
-            // String comparison
-            return aVal.localeCompare(bVal) * order;
-          }
-        });
+    if (needsClientPagination) {
+      items = applyItemFilters(items, conditions);
+
+      if (searchParam) {
+        items = applyItemSearch(items, searchParam, searchFieldsResult.data!);
       }
-    }
 
-    // Apply pagination AFTER filtering and sorting (if needed)
-    if (needsClientPagination) {
+      items = applyItemSort(items, sortKeys);
       total = items.length;
-      items = items.slice(offset, offset + (limitParam ? limit : perPage));
+
+      // Apply pagination AFTER filtering and sorting (cursor takes precedence over page)
+      const remaining = cursorTuple
+        ? getItemsAfterCursor(items, cursorTuple, sortKeys)
+        : items.slice(offset);
+      hasMore = remaining.length > pageSize;
+      items = remaining.slice(0, pageSize);
     }
 
+    const nextCursor = hasMore && items.length > 0
+      ? encodeItemCursor(items[items.length - 1], sortKeys)
+      : null;
+
     // Transform items to public format with resolved references
     // Pass field projections and collection name for field filtering
     const hasProjections = Object.keys(fieldProjections).length > 0;
@@ -161,7 +168,8 @@ export async function GET(
         fields, 
         true,
         hasProjections ? fieldProjections : undefined,
-        hasProjections ? collection.name : undefined
+        hasProjections ? collection.name : undefined,
+        authResult.key
       ))
     );
 
@@ -171,6 +179,7 @@ export async function GET(
         page,
         per_page: perPage,
         total,
+        next_cursor: nextCursor,
       },
     });
   } catch (error) {
@@ -199,15 +208,15 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string }> }
 ) {
+  const { collection_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:write', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id } = await params;
-
     // Parse field projections from query params (for response filtering)
     const { searchParams } = new URL(request.url);
     const fieldProjections = parseFieldProjections(searchParams);
@@ -257,6 +266,18 @@ export async function POST(
       }
     }
 
+    // Option fields accept labels, arrays and comma-separated values
+    Object.assign(valuesToSet, normalizeOptionFieldValues(valuesToSet, fields));
+
+    // Enforce field validation rules
+    const validationErrors = await validateCollectionItemValues(collection_id, valuesToSet, {
+      isPublished: true,
+      fields,
+    });
+    if (validationErrors.length > 0) {
+      return validationErrorResponse(validationErrors, fields);
+    }
+
     // Auto-generate ID field (always, user cannot override)
     const idField = fields.find(f => f.key === 'id');
     if (idField) {
@@ -342,7 +363,8 @@ export async function POST(
       fields, 
       true,
       hasProjections ? fieldProjections : undefined,
-      hasProjections ? collection.name : undefined
+      hasProjections ? collection.name : undefined,
+      authResult.key
     );
     return NextResponse.json(response, { status: 201 });
   } catch (error) {
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../auth';
+import { validateApiKey, authErrorResponse } from '../../auth';
 import { getCollectionById } from '@/lib/repositories/collectionRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
 
@@ -32,15 +32,15 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ collection_id: string }> }
 ) {
+  const { collection_id } = await params;
+
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:read', collectionId: collection_id });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
-    const { collection_id } = await params;
-
     // Always get published collection
     const collection = await getCollectionById(collection_id, true);
 
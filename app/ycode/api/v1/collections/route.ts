@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../auth';
+import { validateApiKey, authErrorResponse, canAccessCollection } from '../auth';
 import { getAllCollections } from '@/lib/repositories/collectionRepository';
 
 // Disable caching for this route
@@ -8,7 +8,7 @@ export const revalidate = 0;
 
 /**
  * GET /ycode/api/v1/collections
- * List all published collections
+ * List all published collections the API key can access
  * 
  * Response format:
  * {
@@ -24,22 +24,24 @@ export const revalidate = 0;
  */
 export async function GET(request: NextRequest) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'collections:read' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
     // Always get published collections
     const collections = await getAllCollections({ is_published: true, deleted: false });
 
-    // Transform to public API format
-    const publicCollections = collections.map(collection => ({
-      id: collection.id,
-      displayName: collection.name,
-      singularName: collection.name.replace(/s$/, ''),
-      slug: collection.name.toLowerCase().replace(/\s+/g, '-'),
-    }));
+    // Transform to public API format (only collections the key can access)
+    const publicCollections = collections
+      .filter(collection => canAccessCollection(authResult.key, collection.id))
+      .map(collection => ({
+        id: collection.id,
+        displayName: collection.name,
+        singularName: collection.name.replace(/s$/, ''),
+        slug: collection.name.toLowerCase().replace(/\s+/g, '-'),
+      }));
 
     return NextResponse.json({
       collections: publicCollections,
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../auth';
+import { validateApiKey, authErrorResponse } from '../../auth';
 import { getAllFormSubmissions } from '@/lib/repositories/formSubmissionRepository';
 
 // Disable caching for this route
@@ -28,9 +28,9 @@ export async function GET(
   { params }: { params: Promise<{ form_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:read' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
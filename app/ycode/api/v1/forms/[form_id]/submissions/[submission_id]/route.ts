@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../../../auth';
+import { validateApiKey, authErrorResponse } from '../../../../auth';
 import {
   getFormSubmissionById,
   updateFormSubmission,
   deleteFormSubmission,
 } from '@/lib/repositories/formSubmissionRepository';
+import { withSubmissionFiles, deleteSubmissionFiles } from '@/lib/services/formFileService';
 import type { FormSubmissionStatus } from '@/types';
 
 // Disable caching for this route
@@ -22,7 +23,17 @@ export const revalidate = 0;
  *   "payload": { "name": "John", "email": "john@example.com" },
  *   "metadata": { "user_agent": "...", "referrer": "..." },
  *   "status": "new",
- *   "createdAt": "2026-01-29T10:30:00.000Z"
+ *   "createdAt": "2026-01-29T10:30:00.000Z",
+ *   "files": [
+ *     {
+ *       "id": "uuid",
+ *       "fieldName": "resume",
+ *       "filename": "resume.pdf",
+ *       "mimeType": "application/pdf",
+ *       "fileSize": 48213,
+ *       "url": "https://..." // Signed download URL, valid for 1 hour
+ *     }
+ *   ]
  * }
  */
 export async function GET(
@@ -30,9 +41,9 @@ export async function GET(
   { params }: { params: Promise<{ form_id: string; submission_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:read' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
@@ -55,6 +66,8 @@ export async function GET(
       );
     }
 
+    const [submissionWithFiles] = await withSubmissionFiles([submission]);
+
     return NextResponse.json({
       id: submission.id,
       formId: submission.form_id,
@@ -62,6 +75,14 @@ export async function GET(
       metadata: submission.metadata,
       status: submission.status,
       createdAt: submission.created_at,
+      files: (submissionWithFiles.files || []).map(file => ({
+        id: file.id,
+        fieldName: file.field_name,
+        filename: file.filename,
+        mimeType: file.mime_type,
+        fileSize: file.file_size,
+        url: file.url || null,
+      })),
     });
   } catch (error) {
     console.error('Error fetching form submission:', error);
@@ -88,9 +109,9 @@ export async function PATCH(
   { params }: { params: Promise<{ form_id: string; submission_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:write' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
@@ -156,9 +177,9 @@ export async function DELETE(
   { params }: { params: Promise<{ form_id: string; submission_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:write' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
@@ -181,6 +202,7 @@ export async function DELETE(
       );
     }
 
+    await deleteSubmissionFiles([submission_id]);
     await deleteFormSubmission(submission_id);
 
     return new NextResponse(null, { status: 204 });
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../../../auth';
+import { validateApiKey, authErrorResponse } from '../../../auth';
 import {
   getAllFormSubmissions,
   createFormSubmission,
 } from '@/lib/repositories/formSubmissionRepository';
+import { withSubmissionFiles } from '@/lib/services/formFileService';
 import type { FormSubmissionStatus } from '@/types';
 
 // Disable caching for this route
@@ -28,7 +29,17 @@ export const revalidate = 0;
  *       "payload": { "name": "John", "email": "john@example.com" },
  *       "metadata": { "user_agent": "...", "referrer": "..." },
  *       "status": "new",
- *       "createdAt": "2026-01-29T10:30:00.000Z"
+ *       "createdAt": "2026-01-29T10:30:00.000Z",
+ *       "files": [
+ *         {
+ *           "id": "uuid",
+ *           "fieldName": "resume",
+ *           "filename": "resume.pdf",
+ *           "mimeType": "application/pdf",
+ *           "fileSize": 48213,
+ *           "url": "https://..." // Signed download URL, valid for 1 hour
+ *         }
+ *       ]
  *     }
  *   ],
  *   "pagination": {
@@ -43,9 +54,9 @@ export async function GET(
   { params }: { params: Promise<{ form_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:read' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
@@ -72,7 +83,9 @@ export async function GET(
 
     // Apply pagination
     const offset = (page - 1) * perPage;
-    const paginatedSubmissions = allSubmissions.slice(offset, offset + perPage);
+    const paginatedSubmissions = await withSubmissionFiles(
+      allSubmissions.slice(offset, offset + perPage)
+    );
 
     // Transform to public API format
     const submissions = paginatedSubmissions.map(submission => ({
@@ -82,6 +95,14 @@ export async function GET(
       metadata: submission.metadata,
       status: submission.status,
       createdAt: submission.created_at,
+      files: (submission.files || []).map(file => ({
+        id: file.id,
+        fieldName: file.field_name,
+        filename: file.filename,
+        mimeType: file.mime_type,
+        fileSize: file.file_size,
+        url: file.url || null,
+      })),
     }));
 
     return NextResponse.json({
@@ -125,9 +146,9 @@ export async function POST(
   { params }: { params: Promise<{ form_id: string }> }
 ) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:write' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
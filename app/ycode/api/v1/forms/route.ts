@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey, unauthorizedResponse } from '../auth';
+import { validateApiKey, authErrorResponse } from '../auth';
 import { getFormSummaries } from '@/lib/repositories/formSubmissionRepository';
 
 // Disable caching for this route
@@ -24,9 +24,9 @@ export const revalidate = 0;
  */
 export async function GET(request: NextRequest) {
   // Validate API key
-  const authResult = await validateApiKey(request);
+  const authResult = await validateApiKey(request, { scope: 'forms:read' });
   if (!authResult.valid) {
-    return unauthorizedResponse(authResult.error!);
+    return authErrorResponse(authResult);
   }
 
   try {
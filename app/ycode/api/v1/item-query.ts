@@ -0,0 +1,384 @@
+/**
+ * Item Query Helpers for API
+ *
+ * Parses and applies filtering, search, sorting and cursor pagination for
+ * the collection items endpoint. Filters are evaluated with the same
+ * visibility conditions the site renderer uses for collection filters.
+ *
+ * - filter[price][gte]=10, filter[name]=Foo (no operator = "is")
+ * - filter[tags][is_one_of]=a,b
+ * - filter[date][is_between]=2026-01-01,2026-02-01
+ * - search=term, search_fields=name,summary
+ * - sort=-price,name (minus prefix = descending)
+ * - cursor=<pagination.next_cursor>
+ */
+
+import { evaluateVisibility } from '@/lib/layer-utils';
+import { extractPlainTextFromTiptap } from '@/lib/tiptap-utils';
+import { findFieldOption } from '@/lib/option-field-utils';
+import {
+  getOperatorsForFieldType,
+  operatorRequiresItemSelection,
+  operatorRequiresSecondValue,
+  operatorRequiresValue,
+} from '@/lib/collection-field-utils';
+import type {
+  CollectionField,
+  CollectionFieldType,
+  CollectionItemWithValues,
+  VisibilityCondition,
+  VisibilityOperator,
+} from '@/types';
+
+type ParseResult<T> = { data: T; error?: undefined } | { data?: undefined; error: string };
+
+/** Field types whose values are matched by full-text search */
+const SEARCHABLE_FIELD_TYPES: CollectionFieldType[] = ['text', 'rich_text', 'email', 'phone'];
+
+/** Operators that can target any field type */
+const UNIVERSAL_OPERATORS: VisibilityOperator[] = ['is_one_of', 'is_not_one_of'];
+
+/**
+ * Public slug of a field (used in filter, sort and search params)
+ */
+export function getFieldSlug(field: CollectionField): string {
+  return field.key || field.name.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Find a field by slug (case-insensitive)
+ */
+function findFieldBySlug(fields: CollectionField[], slug: string): CollectionField | undefined {
+  const normalizedSlug = slug.trim().toLowerCase().replace(/\s+/g, '-');
+  return fields.find(field => getFieldSlug(field).toLowerCase() === normalizedSlug);
+}
+
+function getFilterOperators(field: CollectionField): VisibilityOperator[] {
+  const operators = getOperatorsForFieldType(field.type, field.data?.multiple === true)
+    .map(option => option.value)
+    // item_count needs a compare operator, which the query syntax has no room for
+    .filter(operator => operator !== 'item_count');
+
+  return Array.from(new Set([...operators, ...UNIVERSAL_OPERATORS]));
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(part => part.length > 0);
+}
+
+// =============================================================================
+// Filtering
+// =============================================================================
+
+/**
+ * Parse filter[field] and filter[field][operator] params into visibility conditions
+ */
+export function parseItemFilters(
+  searchParams: URLSearchParams,
+  fields: CollectionField[]
+): ParseResult<VisibilityCondition[]> {
+  const conditions: VisibilityCondition[] = [];
+
+  for (const [key, value] of searchParams.entries()) {
+    const match = key.match(/^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/);
+    if (!match) continue;
+
+    const [, slug, operatorParam] = match;
+    const field = findFieldBySlug(fields, slug);
+    if (!field) {
+      return { error: `Unknown filter field "${slug}"` };
+    }
+
+    const operator = (operatorParam || 'is') as VisibilityOperator;
+    const operators = getFilterOperators(field);
+    if (!operators.includes(operator)) {
+      return { error: `Operator "${operator}" is not supported for field "${slug}". Use one of: ${operators.join(', ')}` };
+    }
+
+    const condition: VisibilityCondition = {
+      id: `filter-${conditions.length}`,
+      source: 'collection_field',
+      fieldId: field.id,
+      fieldType: field.type,
+      operator,
+    };
+
+    // Option fields can be filtered by option label or value
+    const toValue = (entry: string) => (field.type === 'option' ? findFieldOption(field, entry)?.value ?? entry : entry);
+
+    if (operatorRequiresItemSelection(operator)) {
+      condition.value = JSON.stringify(splitList(value).map(toValue));
+    } else if (operatorRequiresSecondValue(operator)) {
+      const [from, to] = splitList(value);
+      if (!from || !to) {
+        return { error: `Operator "${operator}" expects two comma-separated values for field "${slug}"` };
+      }
+      condition.value = from;
+      condition.value2 = to;
+    } else if (operatorRequiresValue(operator)) {
+      condition.value = toValue(value);
+    }
+
+    conditions.push(condition);
+  }
+
+  return { data: conditions };
+}
+
+/**
+ * Item values as strings, the way visibility conditions compare them
+ * (values are cast by field type when loaded, e.g. numbers and arrays)
+ */
+function getComparableValues(item: CollectionItemWithValues): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const [fieldId, value] of Object.entries(item.values)) {
+    const raw = value as unknown;
+    if (raw === null || raw === undefined) continue;
+    values[fieldId] = typeof raw === 'object' ? JSON.stringify(raw) : String(raw);
+  }
+  return values;
+}
+
+/**
+ * Keep items matching all filter conditions
+ */
+export function applyItemFilters(
+  items: CollectionItemWithValues[],
+  conditions: VisibilityCondition[]
+): CollectionItemWithValues[] {
+  if (conditions.length === 0) return items;
+
+  // One group per condition: groups are AND'd together
+  const filters = {
+    groups: conditions.map(condition => ({ id: condition.id, conditions: [condition] })),
+  };
+
+  return items.filter(item =>
+    evaluateVisibility(filters, {
+      collectionLayerData: getComparableValues(item),
+      pageCollectionData: null,
+      pageCollectionCounts: {},
+    })
+  );
+}
+
+// =============================================================================
+// Search
+// =============================================================================
+
+/**
+ * Resolve the fields to search (search_fields param, or all text fields)
+ */
+export function parseSearchFields(
+  searchParams: URLSearchParams,
+  fields: CollectionField[]
+): ParseResult<CollectionField[]> {
+  const textFields = fields.filter(field => SEARCHABLE_FIELD_TYPES.includes(field.type));
+  const searchFieldsParam = searchParams.get('search_fields');
+  if (!searchFieldsParam) {
+    return { data: textFields };
+  }
+
+  const searchFields: CollectionField[] = [];
+  for (const slug of splitList(searchFieldsParam)) {
+    const field = findFieldBySlug(textFields, slug);
+    if (!field) {
+      return { error: `Field "${slug}" is not a searchable text field` };
+    }
+    searchFields.push(field);
+  }
+
+  return { data: searchFields };
+}
+
+function getSearchableText(value: unknown, fieldType: CollectionFieldType): string {
+  if (value === null || value === undefined) return '';
+  if (fieldType === 'rich_text' && typeof value === 'object') {
+    return extractPlainTextFromTiptap(value);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Keep items where every search word appears in at least one of the fields
+ * (case-insensitive)
+ */
+export function applyItemSearch(
+  items: CollectionItemWithValues[],
+  search: string,
+  searchFields: CollectionField[]
+): CollectionItemWithValues[] {
+  const terms = search.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  if (terms.length === 0) return items;
+
+  return items.filter(item => {
+    const text = searchFields
+      .map(field => getSearchableText(item.values[field.id], field.type))
+      .join(' ')
+      .toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+type SortValue = string | number | null;
+
+interface SortKey {
+  getValue: (item: CollectionItemWithValues) => SortValue;
+  direction: 1 | -1;
+}
+
+function toSortValue(value: unknown, fieldType: CollectionFieldType): SortValue {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (fieldType) {
+    case 'number': {
+      const num = typeof value === 'number' ? value : parseFloat(String(value));
+      return isNaN(num) ? null : num;
+    }
+    case 'date': {
+      const time = new Date(String(value)).getTime();
+      return isNaN(time) ? null : time;
+    }
+    case 'boolean':
+      return value === true || value === 'true' ? 1 : 0;
+    case 'rich_text':
+      return typeof value === 'object' ? extractPlainTextFromTiptap(value) : String(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Parse sort params into sort keys
+ * sort=-price,name sorts by price (descending), then name.
+ * The legacy sort_by + order_by params are still supported.
+ * Without sorting, items keep their manual order.
+ * The item ID is always the final key so the order is stable for cursors.
+ */
+export function parseItemSort(
+  searchParams: URLSearchParams,
+  fields: CollectionField[]
+): ParseResult<SortKey[]> {
+  const sortKeys: SortKey[] = [];
+  const sortParam = searchParams.get('sort');
+  const sortByParam = searchParams.get('sort_by');
+
+  const entries = sortParam
+    ? splitList(sortParam).map(part => ({
+      slug: part.replace(/^[-+]/, ''),
+      direction: (part.startsWith('-') ? -1 : 1) as 1 | -1,
+    }))
+    : sortByParam
+      ? [{ slug: sortByParam, direction: (searchParams.get('order_by') === 'desc' ? -1 : 1) as 1 | -1 }]
+      : [];
+
+  for (const { slug, direction } of entries) {
+    const field = findFieldBySlug(fields, slug);
+    if (!field) {
+      return { error: `Unknown sort field "${slug}"` };
+    }
+    sortKeys.push({
+      getValue: item => toSortValue(item.values[field.id], field.type),
+      direction,
+    });
+  }
+
+  if (sortKeys.length === 0) {
+    // Same order as the repository: manual order, then newest first
+    sortKeys.push(
+      { getValue: item => item.manual_order, direction: 1 },
+      { getValue: item => new Date(item.created_at).getTime(), direction: -1 }
+    );
+  }
+
+  sortKeys.push({ getValue: item => item.id, direction: 1 });
+
+  return { data: sortKeys };
+}
+
+/**
+ * Compare two sort values (empty values always sort last)
+ */
+function compareSortValues(a: SortValue, b: SortValue, direction: 1 | -1): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (a - b) * direction;
+  }
+  return String(a).localeCompare(String(b)) * direction;
+}
+
+function compareSortTuples(a: SortValue[], b: SortValue[], sortKeys: SortKey[]): number {
+  for (let i = 0; i < sortKeys.length; i++) {
+    const result = compareSortValues(a[i] ?? null, b[i] ?? null, sortKeys[i].direction);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+function getSortTuple(item: CollectionItemWithValues, sortKeys: SortKey[]): SortValue[] {
+  return sortKeys.map(key => key.getValue(item));
+}
+
+/**
+ * Sort items by the sort keys
+ */
+export function applyItemSort(
+  items: CollectionItemWithValues[],
+  sortKeys: SortKey[]
+): CollectionItemWithValues[] {
+  return items
+    .map(item => ({ item, tuple: getSortTuple(item, sortKeys) }))
+    .sort((a, b) => compareSortTuples(a.tuple, b.tuple, sortKeys))
+    .map(({ item }) => item);
+}
+
+// =============================================================================
+// Cursor Pagination
+// =============================================================================
+
+/**
+ * Encode the position after an item as an opaque cursor
+ */
+export function encodeItemCursor(item: CollectionItemWithValues, sortKeys: SortKey[]): string {
+  return Buffer.from(JSON.stringify(getSortTuple(item, sortKeys))).toString('base64url');
+}
+
+/**
+ * Decode a cursor into the sort tuple it points after
+ */
+export function decodeItemCursor(cursor: string, sortKeys: SortKey[]): ParseResult<SortValue[]> {
+  try {
+    const tuple = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      !Array.isArray(tuple) ||
+      tuple.length !== sortKeys.length ||
+      !tuple.every(value => value === null || typeof value === 'string' || typeof value === 'number')
+    ) {
+      return { error: 'Invalid cursor. Cursors only work with the sort they were created with' };
+    }
+    return { data: tuple };
+  } catch {
+    return { error: 'Invalid cursor' };
+  }
+}
+
+/**
+ * Items positioned after the cursor, in sorted order
+ * Stable when items before the cursor are added or removed.
+ */
+export function getItemsAfterCursor(
+  sortedItems: CollectionItemWithValues[],
+  cursorTuple: SortValue[],
+  sortKeys: SortKey[]
+): CollectionItemWithValues[] {
+  const index = sortedItems.findIndex(
+    item => compareSortTuples(getSortTuple(item, sortKeys), cursorTuple, sortKeys) > 0
+  );
+  return index === -1 ? [] : sortedItems.slice(index);
+}
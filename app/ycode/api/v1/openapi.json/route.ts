@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateApiKey, authErrorResponse } from '../auth';
+import { buildOpenApiDocument } from '../openapi';
+
+// Disable caching for this route
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+/**
+ * GET /ycode/api/v1/openapi.json
+ * OpenAPI 3.1 document for the v1 API, generated from the published CMS schema
+ *
+ * Every published collection the API key can access gets typed item schemas
+ * and item paths, so the document can be used to generate typed clients.
+ */
+export async function GET(request: NextRequest) {
+  // Validate API key (any scope can read the schema)
+  const authResult = await validateApiKey(request);
+  if (!authResult.valid) {
+    return authErrorResponse(authResult);
+  }
+
+  try {
+    const serverUrl = `${request.nextUrl.origin}/ycode/api/v1`;
+    const document = await buildOpenApiDocument(serverUrl, authResult.key);
+
+    return NextResponse.json(document);
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate OpenAPI document', code: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,866 @@
+/**
+ * OpenAPI Document Builder for API
+ *
+ * Builds an OpenAPI 3.1 document for the v1 API from the published CMS
+ * schema. Each collection gets its own item schemas (typed from its
+ * fields) and its own item paths, so generated clients are fully typed.
+ *
+ * Item responses use field names as keys with references resolved to
+ * nested items, while request bodies use field slugs (see items routes).
+ */
+
+import { getAllCollections } from '@/lib/repositories/collectionRepository';
+import { getAllFields } from '@/lib/repositories/collectionFieldRepository';
+import type { ApiKey } from '@/lib/repositories/apiKeyRepository';
+import { canAccessCollection } from './auth';
+import { getFieldSlug } from './item-query';
+import { getFieldOptions, isMultipleOptionField } from '@/lib/option-field-utils';
+import {
+  getFieldValidation,
+  RANGE_VALIDATION_FIELD_TYPES,
+  TEXT_VALIDATION_FIELD_TYPES,
+} from '@/lib/field-validation-utils';
+import type { Collection, CollectionField } from '@/types';
+
+type SchemaObject = Record<string, unknown>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: SchemaObject;
+  servers: SchemaObject[];
+  security: SchemaObject[];
+  paths: Record<string, SchemaObject>;
+  components: SchemaObject;
+}
+
+/** Built-in fields that are generated and cannot be set through the API */
+const PROTECTED_FIELD_KEYS = ['id', 'created_at', 'updated_at'];
+
+const ERROR_CODES = ['UNAUTHORIZED', 'FORBIDDEN', 'RATE_LIMITED', 'NOT_FOUND', 'INVALID_REQUEST', 'VALIDATION_ERROR', 'INTERNAL_ERROR'];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const responseRef = (name: string) => ({ $ref: `#/components/responses/${name}` });
+
+const jsonContent = (schema: SchemaObject) => ({ 'application/json': { schema } });
+
+const jsonResponse = (description: string, schema: SchemaObject) => ({
+  description,
+  content: jsonContent(schema),
+});
+
+const pathParam = (name: string, description: string) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' },
+});
+
+const queryParam = (name: string, description: string, schema: SchemaObject = { type: 'string' }) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema,
+});
+
+/** Error responses every endpoint can return */
+const AUTH_ERROR_RESPONSES = {
+  401: responseRef('Unauthorized'),
+  403: responseRef('Forbidden'),
+  429: responseRef('RateLimited'),
+  500: responseRef('InternalError'),
+};
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+/**
+ * PascalCase schema name for a collection (e.g. "Blog Posts" -> "BlogPosts")
+ */
+function toSchemaName(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Assign a unique schema name to each collection
+ */
+function getCollectionSchemaNames(collections: Collection[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  for (const collection of collections) {
+    let name = toSchemaName(collection.name);
+    if (!name || /^[0-9]/.test(name)) {
+      name = `Collection${name}`;
+    }
+    if (used.has(name)) {
+      name = `${name}${collection.id.replace(/-/g, '').slice(0, 8)}`;
+    }
+    used.add(name);
+    names.set(collection.id, name);
+  }
+
+  return names;
+}
+
+// =============================================================================
+// Field Schemas
+// =============================================================================
+
+/**
+ * Schema of an option value, listing the choices of the field
+ */
+function getOptionValueSchema(field: CollectionField): SchemaObject {
+  const options = getFieldOptions(field);
+  return {
+    type: 'string',
+    ...(options.length > 0 && {
+      enum: options.map(option => option.value),
+      'x-enum-descriptions': options.map(option => option.label),
+    }),
+  };
+}
+
+/**
+ * Schema of a field value in item responses
+ */
+function getFieldResponseSchema(
+  field: CollectionField,
+  schemaNames: Map<string, string>
+): SchemaObject {
+  const referencedSchema = field.reference_collection_id
+    ? schemaNames.get(field.reference_collection_id)
+    : undefined;
+  const referencedItem = referencedSchema ? ref(`${referencedSchema}Item`) : ref('ReferencedItem');
+
+  switch (field.type) {
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'email':
+      return { type: 'string', format: 'email' };
+    case 'color':
+      return { type: 'string', description: 'Hex color, e.g. #ff0000' };
+    case 'rich_text':
+      return { type: 'object', description: 'Rich text as a Tiptap JSON document', additionalProperties: true };
+    case 'link':
+      return ref('LinkValue');
+    case 'geolocation':
+      return ref('GeolocationValue');
+    case 'option':
+      return isMultipleOptionField(field)
+        ? { type: 'array', items: getOptionValueSchema(field), description: 'Values of the selected options' }
+        : { ...getOptionValueSchema(field), description: 'Value of the selected option' };
+    case 'image':
+    case 'audio':
+    case 'video':
+    case 'document':
+      return { type: 'string', description: `ID of the ${field.type} asset` };
+    case 'reference':
+      // References to collections outside the key's restriction aren't resolved
+      if (field.reference_collection_id && !referencedSchema) {
+        return { type: 'string', description: 'ID of the referenced item' };
+      }
+      return { oneOf: [referencedItem, { type: 'null' }], description: 'Referenced item (resolved)' };
+    case 'multi_reference':
+      if (field.reference_collection_id && !referencedSchema) {
+        return { type: 'array', items: { type: 'string' }, description: 'IDs of the referenced items' };
+      }
+      return { type: 'array', items: referencedItem, description: 'Referenced items (resolved)' };
+    case 'text':
+    case 'phone':
+    default:
+      return { type: 'string' };
+  }
+}
+
+/**
+ * Schema of a field value in create/update request bodies
+ * Values are stored as text, so string forms are always accepted.
+ */
+function getFieldRequestSchema(field: CollectionField): SchemaObject {
+  switch (field.type) {
+    case 'number':
+      return { type: ['number', 'string', 'null'] };
+    case 'boolean':
+      return { type: ['boolean', 'string', 'null'] };
+    case 'date':
+      return { type: ['string', 'null'], format: 'date-time' };
+    case 'email':
+      return { type: ['string', 'null'], format: 'email' };
+    case 'rich_text':
+      return { type: ['string', 'null'], description: 'Tiptap JSON document, serialized as a string' };
+    case 'link':
+      return { type: ['string', 'null'], description: 'Link settings, serialized as a JSON string' };
+    case 'geolocation':
+      return { type: ['string', 'null'], description: 'Geolocation serialized as a JSON string, e.g. {"lat":52.37,"lng":4.89,"label":"Amsterdam"}' };
+    case 'option':
+      return isMultipleOptionField(field)
+        ? {
+          type: ['array', 'string', 'null'],
+          items: { type: 'string' },
+          description: 'Option values or labels, as an array or comma-separated',
+        }
+        : { type: ['string', 'null'], description: 'Option value or label' };
+    case 'image':
+    case 'audio':
+    case 'video':
+    case 'document':
+      return { type: ['string', 'null'], description: `ID of the ${field.type} asset` };
+    case 'reference':
+      return { type: ['string', 'null'], format: 'uuid', description: 'The referenced item\'s _id' };
+    case 'multi_reference':
+      return { type: ['string', 'null'], description: 'JSON array of referenced item _ids, e.g. ["uuid-1","uuid-2"]' };
+    case 'color':
+    case 'text':
+    case 'phone':
+    default:
+      return { type: ['string', 'null'] };
+  }
+}
+
+/**
+ * Constraints of a field's validation rules in request bodies
+ * Unique and file type rules can't be expressed in the schema and are only described.
+ */
+function getFieldValidationSchema(field: CollectionField): SchemaObject {
+  const rules = getFieldValidation(field);
+  const schema: SchemaObject = {};
+
+  if (TEXT_VALIDATION_FIELD_TYPES.includes(field.type)) {
+    if (typeof rules.minLength === 'number') schema.minLength = rules.minLength;
+    if (typeof rules.maxLength === 'number') schema.maxLength = rules.maxLength;
+    if (rules.pattern) schema.pattern = rules.pattern;
+  }
+  if (RANGE_VALIDATION_FIELD_TYPES.includes(field.type)) {
+    if (typeof rules.min === 'number') schema.minimum = rules.min;
+    if (typeof rules.max === 'number') schema.maximum = rules.max;
+  }
+
+  const notes: string[] = [];
+  if (rules.unique) notes.push('Must be unique within the collection.');
+  if (rules.allowedFileTypes?.length) notes.push(`Allowed file types: ${rules.allowedFileTypes.join(', ')}.`);
+  if (notes.length > 0) schema['x-validation'] = notes.join(' ');
+
+  return schema;
+}
+
+function buildItemSchema(
+  collection: Collection,
+  fields: CollectionField[],
+  schemaNames: Map<string, string>
+): SchemaObject {
+  const properties: Record<string, SchemaObject> = {
+    _id: { type: 'string', format: 'uuid' },
+  };
+
+  for (const field of fields) {
+    const schema = getFieldResponseSchema(field, schemaNames);
+    properties[field.name] = PROTECTED_FIELD_KEYS.includes(field.key || '')
+      ? { ...schema, readOnly: true }
+      : schema;
+  }
+
+  return {
+    type: 'object',
+    description: `An item in the "${collection.name}" collection`,
+    required: ['_id'],
+    properties,
+  };
+}
+
+function buildItemInputSchema(collection: Collection, fields: CollectionField[]): SchemaObject {
+  const properties: Record<string, SchemaObject> = {};
+  const required: string[] = [];
+
+  for (const field of fields) {
+    if (PROTECTED_FIELD_KEYS.includes(field.key || '')) continue;
+    const slug = getFieldSlug(field);
+    properties[slug] = {
+      ...getFieldRequestSchema(field),
+      ...getFieldValidationSchema(field),
+      title: field.name,
+    };
+    if (getFieldValidation(field).required) required.push(slug);
+  }
+
+  return {
+    type: 'object',
+    description: `Field values for an item in the "${collection.name}" collection, keyed by field slug (case-insensitive)`,
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  };
+}
+
+// =============================================================================
+// Paths
+// =============================================================================
+
+const ITEM_LIST_PARAMETERS = [
+  queryParam('page', 'Page number', { type: 'integer', minimum: 1, default: 1 }),
+  queryParam('per_page', 'Items per page', { type: 'integer', minimum: 1, maximum: 1000, default: 100 }),
+  queryParam('limit', 'Limit the number of items (alternative to per_page)', { type: 'integer', minimum: 1, maximum: 1000 }),
+  queryParam('cursor', 'Continue after pagination.next_cursor of the previous page (replaces page)'),
+  queryParam('sort', 'Comma-separated field slugs, prefix with "-" for descending (e.g. -price,name)'),
+  queryParam('sort_by', 'Single field slug to sort by (use sort for multiple fields)'),
+  queryParam('order_by', 'Sort order for sort_by', { type: 'string', enum: ['asc', 'desc'], default: 'asc' }),
+  queryParam('search', 'Case-insensitive search across text fields'),
+  queryParam('search_fields', 'Comma-separated text field slugs to limit search to'),
+  {
+    name: 'filter',
+    in: 'query',
+    required: false,
+    style: 'deepObject',
+    explode: true,
+    description: 'Filter by field value: filter[field]=value, or with an operator: filter[field][operator]=value '
+      + '(e.g. filter[price][gte]=10, filter[tags][is_one_of]=a,b, filter[date][is_between]=2026-01-01,2026-02-01). '
+      + 'Operators: is, is_not, contains, does_not_contain, is_present, is_empty, lt, lte, gt, gte, is_before, is_after, '
+      + 'is_between, is_not_empty, is_one_of, is_not_one_of, exists, does_not_exist, contains_all_of, contains_exactly, '
+      + 'has_items, has_no_items. Available operators depend on the field type.',
+    schema: { type: 'object', additionalProperties: true },
+  },
+];
+
+const FIELD_PROJECTION_PARAMETER = {
+  name: 'fields',
+  in: 'query',
+  required: false,
+  style: 'deepObject',
+  explode: true,
+  description: 'Limit returned fields per collection path, e.g. fields[Blog Posts]=Name,Summary&fields[Blog Posts.Author]=Name',
+  schema: { type: 'object', additionalProperties: { type: 'string' } },
+};
+
+function buildCollectionItemPaths(
+  collection: Collection,
+  schemaName: string
+): Record<string, SchemaObject> {
+  const basePath = `/collections/${collection.id}/items`;
+  const itemSchema = ref(`${schemaName}Item`);
+  const inputSchema = ref(`${schemaName}ItemInput`);
+  const itemIdParam = pathParam('item_id', 'The item\'s _id');
+  const tags = [collection.name];
+
+  return {
+    [basePath]: {
+      get: {
+        operationId: `list${schemaName}Items`,
+        summary: `List ${collection.name} items`,
+        tags,
+        parameters: [...ITEM_LIST_PARAMETERS, FIELD_PROJECTION_PARAMETER],
+        responses: {
+          200: jsonResponse('Items', {
+            type: 'object',
+            required: ['items', 'pagination'],
+            properties: {
+              items: { type: 'array', items: itemSchema },
+              pagination: ref('ItemPagination'),
+            },
+          }),
+          400: responseRef('InvalidRequest'),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      post: {
+        operationId: `create${schemaName}Item`,
+        summary: `Create a ${collection.name} item`,
+        description: 'Creates a published item.',
+        tags,
+        parameters: [FIELD_PROJECTION_PARAMETER],
+        requestBody: { required: true, content: jsonContent(inputSchema) },
+        responses: {
+          201: jsonResponse('Created item', itemSchema),
+          400: responseRef('ValidationFailed'),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+    [`${basePath}/{item_id}`]: {
+      parameters: [itemIdParam],
+      get: {
+        operationId: `get${schemaName}Item`,
+        summary: `Get a ${collection.name} item`,
+        tags,
+        parameters: [FIELD_PROJECTION_PARAMETER],
+        responses: {
+          200: jsonResponse('Item', itemSchema),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      put: {
+        operationId: `replace${schemaName}Item`,
+        summary: `Replace a ${collection.name} item`,
+        description: 'Replaces all field values. Fields left out are cleared.',
+        tags,
+        parameters: [FIELD_PROJECTION_PARAMETER],
+        requestBody: { required: true, content: jsonContent(inputSchema) },
+        responses: {
+          200: jsonResponse('Updated item', itemSchema),
+          400: responseRef('ValidationFailed'),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      patch: {
+        operationId: `update${schemaName}Item`,
+        summary: `Update a ${collection.name} item`,
+        description: 'Updates only the given field values.',
+        tags,
+        parameters: [FIELD_PROJECTION_PARAMETER],
+        requestBody: { required: true, content: jsonContent(inputSchema) },
+        responses: {
+          200: jsonResponse('Updated item', itemSchema),
+          400: responseRef('ValidationFailed'),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      delete: {
+        operationId: `delete${schemaName}Item`,
+        summary: `Delete a ${collection.name} item`,
+        tags,
+        responses: {
+          200: jsonResponse('Deleted', {
+            type: 'object',
+            properties: {
+              deleted: { type: 'boolean', const: true },
+              _id: { type: 'string', format: 'uuid' },
+            },
+          }),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+  };
+}
+
+function buildCollectionPaths(): Record<string, SchemaObject> {
+  const tags = ['Collections'];
+
+  return {
+    '/collections': {
+      get: {
+        operationId: 'listCollections',
+        summary: 'List collections',
+        tags,
+        responses: {
+          200: jsonResponse('Collections', {
+            type: 'object',
+            required: ['collections'],
+            properties: {
+              collections: { type: 'array', items: ref('Collection') },
+            },
+          }),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+    '/collections/{collection_id}': {
+      get: {
+        operationId: 'getCollection',
+        summary: 'Get a collection with its fields',
+        tags,
+        parameters: [pathParam('collection_id', 'The collection ID')],
+        responses: {
+          200: jsonResponse('Collection', ref('CollectionDetail')),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+  };
+}
+
+function buildFormPaths(): Record<string, SchemaObject> {
+  const tags = ['Forms'];
+  const formIdParam = pathParam('form_id', 'The form ID (set in the form element settings)');
+  const submissionIdParam = pathParam('submission_id', 'The submission ID');
+
+  return {
+    '/forms': {
+      get: {
+        operationId: 'listForms',
+        summary: 'List forms',
+        description: 'Forms are derived from their submissions.',
+        tags,
+        responses: {
+          200: jsonResponse('Forms', {
+            type: 'object',
+            required: ['forms'],
+            properties: {
+              forms: { type: 'array', items: ref('FormSummary') },
+            },
+          }),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+    '/forms/{form_id}': {
+      parameters: [formIdParam],
+      get: {
+        operationId: 'getForm',
+        summary: 'Get a form with submission counts by status',
+        tags,
+        responses: {
+          200: jsonResponse('Form', ref('FormDetail')),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+    '/forms/{form_id}/submissions': {
+      parameters: [formIdParam],
+      get: {
+        operationId: 'listFormSubmissions',
+        summary: 'List form submissions',
+        tags,
+        parameters: [
+          queryParam('page', 'Page number', { type: 'integer', minimum: 1, default: 1 }),
+          queryParam('per_page', 'Submissions per page', { type: 'integer', minimum: 1, maximum: 100, default: 50 }),
+          queryParam('status', 'Filter by status', ref('SubmissionStatus')),
+        ],
+        responses: {
+          200: jsonResponse('Submissions', {
+            type: 'object',
+            required: ['submissions', 'pagination'],
+            properties: {
+              submissions: { type: 'array', items: ref('Submission') },
+              pagination: ref('SubmissionPagination'),
+            },
+          }),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      post: {
+        operationId: 'createFormSubmission',
+        summary: 'Create a form submission',
+        tags,
+        requestBody: {
+          required: true,
+          content: jsonContent({
+            type: 'object',
+            required: ['payload'],
+            properties: {
+              payload: { type: 'object', additionalProperties: true, description: 'Submitted field values' },
+              metadata: { type: 'object', additionalProperties: true },
+            },
+          }),
+        },
+        responses: {
+          201: jsonResponse('Created submission', ref('Submission')),
+          400: responseRef('InvalidRequest'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+    '/forms/{form_id}/submissions/{submission_id}': {
+      parameters: [formIdParam, submissionIdParam],
+      get: {
+        operationId: 'getFormSubmission',
+        summary: 'Get a form submission',
+        tags,
+        responses: {
+          200: jsonResponse('Submission', ref('Submission')),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      patch: {
+        operationId: 'updateFormSubmission',
+        summary: 'Update a form submission\'s status',
+        tags,
+        requestBody: {
+          required: true,
+          content: jsonContent({
+            type: 'object',
+            properties: {
+              status: ref('SubmissionStatus'),
+            },
+          }),
+        },
+        responses: {
+          200: jsonResponse('Updated submission', ref('Submission')),
+          400: responseRef('InvalidRequest'),
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+      delete: {
+        operationId: 'deleteFormSubmission',
+        summary: 'Delete a form submission',
+        tags,
+        responses: {
+          204: { description: 'Deleted' },
+          404: responseRef('NotFound'),
+          ...AUTH_ERROR_RESPONSES,
+        },
+      },
+    },
+  };
+}
+
+// =============================================================================
+// Shared Components
+// =============================================================================
+
+function buildSharedSchemas(): Record<string, SchemaObject> {
+  return {
+    Error: {
+      type: 'object',
+      required: ['error', 'code'],
+      properties: {
+        error: { type: 'string' },
+        code: { type: 'string', enum: ERROR_CODES },
+      },
+    },
+    ValidationError: {
+      type: 'object',
+      required: ['error', 'code', 'errors'],
+      properties: {
+        error: { type: 'string' },
+        code: { type: 'string', enum: ['VALIDATION_ERROR'] },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['field', 'rule', 'message'],
+            properties: {
+              field: { type: 'string', description: 'Field slug' },
+              rule: {
+                type: 'string',
+                enum: ['required', 'unique', 'format', 'min_length', 'max_length', 'min', 'max', 'pattern', 'file_type'],
+              },
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    Collection: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        displayName: { type: 'string' },
+        singularName: { type: 'string' },
+        slug: { type: 'string' },
+      },
+    },
+    CollectionDetail: {
+      allOf: [
+        ref('Collection'),
+        {
+          type: 'object',
+          properties: {
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  displayName: { type: 'string' },
+                  slug: { type: 'string' },
+                  type: { type: 'string' },
+                  isRequired: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+    ReferencedItem: {
+      type: 'object',
+      description: 'An item in a collection that is not part of this document',
+      required: ['_id'],
+      properties: {
+        _id: { type: 'string', format: 'uuid' },
+      },
+      additionalProperties: true,
+    },
+    LinkValue: {
+      type: 'object',
+      description: 'Link settings',
+      properties: {
+        type: { type: 'string', description: 'Link type, e.g. url, email, phone, asset or page' },
+      },
+      additionalProperties: true,
+    },
+    GeolocationValue: {
+      type: 'object',
+      description: 'Geographic coordinates',
+      required: ['lat', 'lng'],
+      properties: {
+        lat: { type: 'number', minimum: -90, maximum: 90 },
+        lng: { type: 'number', minimum: -180, maximum: 180 },
+        label: { type: 'string' },
+      },
+    },
+    ItemPagination: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer' },
+        per_page: { type: 'integer' },
+        total: { type: 'integer' },
+        next_cursor: { type: ['string', 'null'], description: 'Pass as cursor to get the next page, null on the last page' },
+      },
+    },
+    SubmissionStatus: {
+      type: 'string',
+      enum: ['new', 'read', 'archived', 'spam'],
+    },
+    SubmissionFile: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        fieldName: { type: 'string' },
+        filename: { type: 'string' },
+        mimeType: { type: 'string' },
+        fileSize: { type: 'integer' },
+        url: { type: ['string', 'null'], format: 'uri', description: 'Signed download URL, valid for 1 hour' },
+      },
+    },
+    Submission: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        formId: { type: 'string' },
+        payload: { type: 'object', additionalProperties: true },
+        metadata: { type: ['object', 'null'], additionalProperties: true },
+        status: ref('SubmissionStatus'),
+        createdAt: { type: 'string', format: 'date-time' },
+        files: { type: 'array', items: ref('SubmissionFile') },
+      },
+    },
+    SubmissionPagination: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer' },
+        perPage: { type: 'integer' },
+        total: { type: 'integer' },
+      },
+    },
+    FormSummary: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        submissionCount: { type: 'integer' },
+        newCount: { type: 'integer' },
+        latestSubmission: { type: ['string', 'null'], format: 'date-time' },
+      },
+    },
+    FormDetail: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        submissionCount: { type: 'integer' },
+        statusCounts: {
+          type: 'object',
+          properties: {
+            new: { type: 'integer' },
+            read: { type: 'integer' },
+            archived: { type: 'integer' },
+            spam: { type: 'integer' },
+          },
+        },
+        latestSubmission: { type: ['string', 'null'], format: 'date-time' },
+      },
+    },
+  };
+}
+
+function buildErrorResponses(): Record<string, SchemaObject> {
+  const errorResponse = (description: string) => jsonResponse(description, ref('Error'));
+
+  return {
+    Unauthorized: errorResponse('Invalid, missing or expired API key'),
+    Forbidden: errorResponse('The API key is missing the required scope or collection access'),
+    RateLimited: {
+      ...errorResponse('The API key\'s rate limit was exceeded'),
+      headers: {
+        'Retry-After': { description: 'Seconds until requests are allowed again', schema: { type: 'integer' } },
+      },
+    },
+    NotFound: errorResponse('Resource not found'),
+    InvalidRequest: errorResponse('Invalid request parameters or body'),
+    ValidationFailed: jsonResponse(
+      'Invalid request body, or field values that fail the validation rules of their fields',
+      { oneOf: [ref('Error'), ref('ValidationError')] }
+    ),
+    InternalError: errorResponse('Internal server error'),
+  };
+}
+
+// =============================================================================
+// Document
+// =============================================================================
+
+/**
+ * Build the OpenAPI document from the published collections and fields
+ * @param serverUrl - Base URL of the v1 API
+ * @param key - API key requesting the document (limits the collections included)
+ */
+export async function buildOpenApiDocument(
+  serverUrl: string,
+  key?: ApiKey
+): Promise<OpenApiDocument> {
+  const [allCollections, allFields] = await Promise.all([
+    getAllCollections({ is_published: true, deleted: false }),
+    getAllFields(true),
+  ]);
+
+  const collections = allCollections.filter(collection => canAccessCollection(key, collection.id));
+  const schemaNames = getCollectionSchemaNames(collections);
+
+  const schemas: Record<string, SchemaObject> = buildSharedSchemas();
+  let paths: Record<string, SchemaObject> = {
+    ...buildCollectionPaths(),
+  };
+
+  for (const collection of collections) {
+    const schemaName = schemaNames.get(collection.id)!;
+    const fields = allFields.filter(field => field.collection_id === collection.id);
+
+    schemas[`${schemaName}Item`] = buildItemSchema(collection, fields, schemaNames);
+    schemas[`${schemaName}ItemInput`] = buildItemInputSchema(collection, fields);
+    paths = { ...paths, ...buildCollectionItemPaths(collection, schemaName) };
+  }
+
+  paths = { ...paths, ...buildFormPaths() };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Ycode API',
+      version: '1.0.0',
+      description: 'Public API for collections and form submissions. Generated from the published CMS schema.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'API key from Integrations → API',
+        },
+      },
+      schemas,
+      responses: buildErrorResponses(),
+    },
+  };
+}
@@ -4,6 +4,9 @@
  * Resolves reference and multi-reference fields by fetching the actual
  * referenced item data and returning it as nested objects/arrays.
  * 
+ * References to collections the API key can't access are returned as
+ * bare item IDs instead of expanded items.
+ * 
  * Supports field projections to limit returned fields:
  * - fieldProjections["Blog Posts"] = Set(["Name", "Summary", "Author"])
  * - fieldProjections["Blog Posts.Author"] = Set(["Name", "Email"])
@@ -12,7 +15,9 @@
 import { getItemWithValues } from '@/lib/repositories/collectionItemRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
 import { getCollectionById } from '@/lib/repositories/collectionRepository';
+import type { ApiKey } from '@/lib/repositories/apiKeyRepository';
 import type { CollectionField } from '@/types';
+import { canAccessCollection } from './auth';
 
 /**
  * Field projections map: path -> Set of allowed field names
@@ -50,6 +55,19 @@ function isFieldAllowed(
   return false;
 }
 
+/**
+ * Parse the JSON array of item IDs stored in a multi-reference value
+ */
+function parseItemIds(value: string): string[] {
+  try {
+    const itemIds = JSON.parse(value);
+    return Array.isArray(itemIds) ? itemIds : [];
+  } catch {
+    // If not valid JSON, treat as empty array
+    return [];
+  }
+}
+
 /**
  * Transform an item's values, resolving reference fields to nested objects
  * 
@@ -62,6 +80,7 @@ function isFieldAllowed(
  * @param currentDepth - Current recursion depth
  * @param fieldProjections - Optional map of path -> allowed field names
  * @param currentPath - Current path for field projections (e.g., "Blog Posts.Author")
+ * @param key - API key of the request, references are only expanded for collections it can access
  * @returns Object with field names as keys and resolved values
  */
 export async function resolveItemReferences(
@@ -73,7 +92,8 @@ export async function resolveItemReferences(
   maxDepth: number = 6,
   currentDepth: number = 0,
   fieldProjections?: FieldProjections,
-  currentPath?: string
+  currentPath?: string,
+  key?: ApiKey
 ): Promise<Record<string, any>> {
   const result: Record<string, any> = {
     _id: itemId,
@@ -117,7 +137,14 @@ export async function resolveItemReferences(
       continue;
     }
 
-    if (field.type === 'reference' && field.reference_collection_id) {
+    if (
+      (field.type === 'reference' || field.type === 'multi_reference') &&
+      field.reference_collection_id &&
+      !canAccessCollection(key, field.reference_collection_id)
+    ) {
+      // Collection is outside the key's restriction - return the item IDs only
+      result[field.name] = field.type === 'reference' ? value : parseItemIds(value);
+    } else if (field.type === 'reference' && field.reference_collection_id) {
       // Single reference - resolve to nested object
       try {
         const refItem = await getItemWithValues(value, isPublished);
@@ -134,7 +161,8 @@ export async function resolveItemReferences(
             maxDepth,
             currentDepth + 1,
             fieldProjections,
-            nestedPath
+            nestedPath,
+            key
           );
           result[field.name] = resolved;
         } else {
@@ -147,17 +175,7 @@ export async function resolveItemReferences(
     } else if (field.type === 'multi_reference' && field.reference_collection_id) {
       // Multi-reference - resolve to array of objects
       try {
-        // Parse the JSON array of item IDs
-        let itemIds: string[] = [];
-        try {
-          itemIds = JSON.parse(value);
-          if (!Array.isArray(itemIds)) {
-            itemIds = [];
-          }
-        } catch {
-          // If not valid JSON, treat as empty array
-          itemIds = [];
-        }
+        const itemIds = parseItemIds(value);
 
         const resolvedItems: ResolvedItem[] = [];
         const refFields = await getFieldsByCollectionId(field.reference_collection_id, isPublished);
@@ -176,7 +194,8 @@ export async function resolveItemReferences(
               maxDepth,
               currentDepth + 1,
               fieldProjections,
-              nestedPath
+              nestedPath,
+              key
             );
             resolvedItems.push(resolved as ResolvedItem);
           }
@@ -205,13 +224,15 @@ export async function resolveItemReferences(
  * @param isPublished - Whether to fetch published data
  * @param fieldProjections - Optional field projections map
  * @param collectionName - Collection name for building projection path
+ * @param key - API key of the request (limits which referenced collections are expanded)
  */
 export async function transformItemToPublicWithRefs(
   item: { id: string; values: Record<string, string> },
   fields: CollectionField[],
   isPublished: boolean = true,
   fieldProjections?: FieldProjections,
-  collectionName?: string
+  collectionName?: string,
+  key?: ApiKey
 ): Promise<Record<string, any>> {
   return resolveItemReferences(
     item.id,
@@ -222,7 +243,8 @@ export async function transformItemToPublicWithRefs(
     6,
     0,
     fieldProjections,
-    collectionName
+    collectionName,
+    key
   );
 }
 
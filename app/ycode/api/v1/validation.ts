@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { FieldValidationError } from '@/lib/field-validation-utils';
+import type { CollectionField } from '@/types';
+
+/**
+ * Validation error response for the public API
+ * Errors reference fields by their slug, as used in request bodies.
+ */
+export function validationErrorResponse(
+  errors: FieldValidationError[],
+  fields: CollectionField[]
+): NextResponse {
+  const fieldsById = new Map(fields.map(field => [field.id, field]));
+
+  return NextResponse.json(
+    {
+      error: 'Some fields are invalid',
+      code: 'VALIDATION_ERROR',
+      errors: errors.map(error => {
+        const field = fieldsById.get(error.field_id);
+        return {
+          field: field ? (field.key || field.name.toLowerCase().replace(/\s+/g, '-')) : error.field,
+          rule: error.rule,
+          message: error.message,
+        };
+      }),
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhookDeliveryById } from '@/lib/repositories/webhookRepository';
+import { redeliverWebhookDelivery } from '@/lib/services/webhookService';
+
+interface RouteParams {
+  params: Promise<{ id: string; deliveryId: string }>;
+}
+
+/**
+ * POST /ycode/api/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Send a past delivery's payload again as a new delivery
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  try {
+    const { id, deliveryId } = await params;
+
+    // Verify delivery exists and belongs to this webhook
+    const delivery = await getWebhookDeliveryById(deliveryId);
+    if (!delivery || delivery.webhook_id !== id) {
+      return NextResponse.json(
+        { error: 'Delivery not found' },
+        { status: 404 }
+      );
+    }
+
+    const redelivery = await redeliverWebhookDelivery(deliveryId);
+
+    if (!redelivery) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ data: redelivery });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,15 +2,22 @@ import { NextRequest, NextResponse } from 'next/server';
 import {
   getWebhookById,
   getWebhookDeliveries,
+  type WebhookDeliveryStatus,
 } from '@/lib/repositories/webhookRepository';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'success', 'retrying', 'failed'];
+
 /**
  * GET /ycode/api/webhooks/[id]/deliveries
  * Get delivery logs for a webhook
+ *
+ * Query params:
+ * - limit, offset: Pagination
+ * - status: Filter by delivery status ('failed' lists deliveries that ran out of retries)
  */
 export async function GET(
   request: NextRequest,
@@ -22,6 +29,8 @@ export async function GET(
 
     const limit = parseInt(searchParams.get('limit') || '50', 10);
     const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const statusParam = searchParams.get('status') as WebhookDeliveryStatus | null;
+    const status = statusParam && DELIVERY_STATUSES.includes(statusParam) ? statusParam : undefined;
 
     // Verify webhook exists
     const webhook = await getWebhookById(id);
@@ -32,7 +41,7 @@ export async function GET(
       );
     }
 
-    const { deliveries, total } = await getWebhookDeliveries(id, { limit, offset });
+    const { deliveries, total } = await getWebhookDeliveries(id, { limit, offset, status });
 
     return NextResponse.json({
       data: deliveries,
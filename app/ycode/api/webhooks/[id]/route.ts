@@ -9,6 +9,8 @@ import {
   markWebhookTriggered,
   type UpdateWebhookData,
 } from '@/lib/repositories/webhookRepository';
+import { buildWebhookRequestBody } from '@/lib/services/webhookService';
+import { validateWebhookTemplate } from '@/lib/webhook-utils';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -71,6 +73,7 @@ export async function PUT(
     if (body.filters !== undefined) updates.filters = body.filters;
     if (body.enabled !== undefined) updates.enabled = body.enabled;
     if (body.secret !== undefined) updates.secret = body.secret;
+    if (body.payload_template !== undefined) updates.payload_template = body.payload_template || null;
 
     // Validate URL if provided
     if (updates.url) {
@@ -84,6 +87,17 @@ export async function PUT(
       }
     }
 
+    // Validate payload template if provided
+    if (updates.payload_template) {
+      const templateError = validateWebhookTemplate(updates.payload_template);
+      if (templateError) {
+        return NextResponse.json(
+          { error: templateError },
+          { status: 400 }
+        );
+      }
+    }
+
     const webhook = await updateWebhook(id, updates);
 
     return NextResponse.json({ data: webhook });
@@ -157,7 +171,8 @@ export async function POST(
       },
     };
 
-    const payloadString = JSON.stringify(testPayload);
+    // Apply the payload template so receivers can check the rendered format
+    const payloadString = buildWebhookRequestBody(webhook, testPayload);
 
     // Build headers
     const headers: Record<string, string> = {
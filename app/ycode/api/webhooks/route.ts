@@ -6,6 +6,7 @@ import {
   type CreateWebhookData,
   type WebhookEventType,
 } from '@/lib/repositories/webhookRepository';
+import { validateWebhookTemplate } from '@/lib/webhook-utils';
 
 /**
  * GET /ycode/api/webhooks
@@ -28,12 +29,12 @@ export async function GET() {
  * POST /ycode/api/webhooks
  * Create a new webhook
  *
- * Body: { name: string, url: string, events: string[], secret?: string, generateSecret?: boolean }
+ * Body: { name: string, url: string, events: string[], secret?: string, generateSecret?: boolean, payload_template?: string }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, url, events, secret, generateSecret, filters } = body;
+    const { name, url, events, secret, generateSecret, filters, payload_template } = body;
 
     // Validation
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -67,6 +68,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (payload_template) {
+      const templateError = validateWebhookTemplate(payload_template);
+      if (templateError) {
+        return NextResponse.json(
+          { error: templateError },
+          { status: 400 }
+        );
+      }
+    }
+
     // Generate secret if requested
     let webhookSecret = secret;
     if (generateSecret && !secret) {
@@ -79,6 +90,7 @@ export async function POST(request: NextRequest) {
       events: events as WebhookEventType[],
       secret: webhookSecret,
       filters: filters || null,
+      payload_template: payload_template || null,
     };
 
     const webhook = await createWebhook(webhookData);
@@ -37,9 +37,12 @@ import { getSampleCollectionOptions } from '@/lib/sample-collections';
 import { ASSET_CATEGORIES, getOptimizedImageUrl, isAssetOfType } from '@/lib/asset-utils';
 import { type FieldType, findDisplayField, getItemDisplayName, getFieldIcon, isMultipleAssetField } from '@/lib/collection-field-utils';
 import { extractPlainTextFromTiptap } from '@/lib/tiptap-utils';
+import { formatGeolocationValue } from '@/lib/geolocation-utils';
+import { getSelectedOptions } from '@/lib/option-field-utils';
 import { parseCollectionLinkValue, resolveCollectionLinkValue } from '@/lib/link-utils';
 import { useEditorUrl } from '@/hooks/use-editor-url';
 import FieldsDropdown from './FieldsDropdown';
+import { OptionBadge } from './OptionFieldInput';
 import CollectionItemContextMenu from './CollectionItemContextMenu';
 import FieldFormDialog from './FieldFormDialog';
 import type { FieldFormData } from './FieldFormDialog';
@@ -1826,6 +1829,45 @@ const CMS = React.memo(function CMS() {
                         );
                       }
 
+                      // Option fields - display the selected options
+                      if (field.type === 'option') {
+                        const selectedOptions = getSelectedOptions(field, value);
+                        return (
+                          <td
+                            key={field.id}
+                            className="px-4 py-5 text-muted-foreground max-w-50"
+                            onClick={() => !isManualMode && handleEditItem(item)}
+                          >
+                            {selectedOptions.length > 0 ? (
+                              <div className="flex items-center gap-1 overflow-hidden">
+                                {selectedOptions.map(option => (
+                                  <OptionBadge
+                                    key={option.value}
+                                    option={option}
+                                    className="shrink-0"
+                                  />
+                                ))}
+                              </div>
+                            ) : '-'}
+                          </td>
+                        );
+                      }
+
+                      // Geolocation fields - display the label or coordinates
+                      if (field.type === 'geolocation') {
+                        return (
+                          <td
+                            key={field.id}
+                            className="px-4 py-5 text-muted-foreground max-w-50"
+                            onClick={() => !isManualMode && handleEditItem(item)}
+                          >
+                            <span className="block truncate">
+                              {formatGeolocationValue(value) || '-'}
+                            </span>
+                          </td>
+                        );
+                      }
+
                       // Boolean fields - display as readonly switch
                       if (field.type === 'boolean') {
                         const isTrue = isTruthyBooleanValue(value);
@@ -18,9 +18,16 @@ import { createRoot, Root } from 'react-dom/client';
 import LayerRenderer from '@/components/LayerRenderer';
 import { serializeLayers } from '@/lib/layer-utils';
 import { collectEditorHiddenLayerIds } from '@/lib/animation-utils';
+import { getBreakpointThemeCss } from '@/lib/breakpoint-utils';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
+import { getFontThemeCss } from '@/lib/font-utils';
+import { useCustomFonts, useFontAssetUrls } from '@/hooks/use-custom-fonts';
+import { getDesignTokensCss } from '@/lib/design-token-utils';
+import { useDesignTokens } from '@/hooks/use-design-tokens';
+import { COLOR_SCHEME_ATTRIBUTE, DARK_VARIANT_CSS } from '@/lib/color-scheme-utils';
 import { cn } from '@/lib/utils';
 
-import type { Layer, Component, CollectionItemWithValues, CollectionField, Breakpoint, Asset, ComponentVariable } from '@/types';
+import type { Layer, Component, CollectionItemWithValues, CollectionField, Breakpoint, Asset, ComponentVariable, UIState } from '@/types';
 import type { UseLiveLayerUpdatesReturn } from '@/hooks/use-live-layer-updates';
 import type { UseLiveComponentUpdatesReturn } from '@/hooks/use-live-component-updates';
 
@@ -36,7 +43,9 @@ interface CanvasProps {
   /** Current breakpoint/viewport mode */
   breakpoint: Breakpoint;
   /** Active UI state for preview (hover, focus, etc.) */
-  activeUIState: 'neutral' | 'hover' | 'focus' | 'active' | 'disabled' | 'current';
+  activeUIState: UIState;
+  /** Preview the site's dark color scheme (also shown while editing the dark state) */
+  darkPreview?: boolean;
   /** Whether a component is being edited */
   editingComponentId: string | null;
   /** Collection items by collection ID */
@@ -210,6 +219,7 @@ export default function Canvas({
   onCanvasClick,
   editingComponentVariables,
   disableEditorHiddenLayers = false,
+  darkPreview = false,
 }: CanvasProps) {
   // Refs
   const iframeRef = useRef<HTMLIFrameElement>(null);
@@ -220,6 +230,10 @@ export default function Canvas({
   const [iframeReady, setIframeReady] = useState(false);
   const [internalHoveredLayerId, setInternalHoveredLayerId] = useState<string | null>(null);
   const effectiveHoveredLayerId = hoveredLayerId ?? internalHoveredLayerId;
+  const breakpoints = useBreakpoints();
+  const customFonts = useCustomFonts();
+  const fontAssetUrls = useFontAssetUrls(customFonts);
+  const designTokens = useDesignTokens();
 
   // Resolve component instances in layers
   const { layers: resolvedLayers, componentMap } = useMemo(() => {
@@ -292,7 +306,13 @@ export default function Canvas({
     @theme {
       /* Use default Tailwind theme */
     }
+    ${DARK_VARIANT_CSS}
   </style>
+  <style type="text/tailwindcss" data-breakpoint-theme="true">
+    ${getBreakpointThemeCss()}
+  </style>
+  <style type="text/tailwindcss" data-font-theme="true"></style>
+  <style data-design-tokens="true"></style>
   <link rel="stylesheet" href="/canvas.css">
   <!-- GSAP for animations (now free thanks to Webflow) -->
   <script src="https://cdn.jsdelivr.net/npm/gsap@3/dist/gsap.min.js"></script>
@@ -353,6 +373,36 @@ export default function Canvas({
     };
   }, []); // Empty deps - only run once on mount
 
+  // Keep the Tailwind theme breakpoints in sync with the site's breakpoints
+  useEffect(() => {
+    const style = iframeRef.current?.contentDocument?.querySelector('style[data-breakpoint-theme="true"]');
+    if (style) {
+      style.textContent = getBreakpointThemeCss();
+    }
+  }, [iframeReady, breakpoints]);
+
+  // Load the site's custom fonts (@font-face rules and font-<key> theme fonts)
+  useEffect(() => {
+    const style = iframeRef.current?.contentDocument?.querySelector('style[data-font-theme="true"]');
+    if (style) {
+      style.textContent = getFontThemeCss(fontAssetUrls, customFonts);
+    }
+  }, [iframeReady, customFonts, fontAssetUrls]);
+
+  // Keep the design token custom properties in sync with the site's tokens
+  useEffect(() => {
+    const style = iframeRef.current?.contentDocument?.querySelector('style[data-design-tokens="true"]');
+    if (style) {
+      style.textContent = getDesignTokensCss(designTokens);
+    }
+  }, [iframeReady, designTokens]);
+
+  // Apply the dark color scheme (dark: classes and dark token values)
+  const isDarkScheme = darkPreview || activeUIState === 'dark';
+  useEffect(() => {
+    iframeRef.current?.contentDocument?.documentElement.setAttribute(COLOR_SCHEME_ATTRIBUTE, isDarkScheme ? 'dark' : 'light');
+  }, [iframeReady, isDarkScheme]);
+
   // Notify parent when iframe is ready
   useEffect(() => {
     if (iframeReady && iframeRef.current && onIframeReady) {
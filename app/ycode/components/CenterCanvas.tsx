@@ -59,13 +59,14 @@ import { getTranslationValue } from '@/lib/localisation-utils';
 import { cn } from '@/lib/utils';
 import { getCollectionVariable, canDeleteLayer, findLayerById, findParentCollectionLayer, findAllParentCollectionLayers, canLayerHaveLink } from '@/lib/layer-utils';
 import { CANVAS_BORDER, CANVAS_PADDING } from '@/lib/canvas-utils';
+import { getBreakpointViewportWidth } from '@/lib/breakpoint-utils';
 import { buildFieldGroups, hasFieldsMatching, flattenFieldGroups, DISPLAYABLE_FIELD_TYPES } from '@/lib/collection-field-utils';
 import { DropContainerIndicator, DropLineIndicator } from '@/components/DropIndicators';
 import { DragCaptureOverlay } from '@/components/DragCaptureOverlay';
 import { setDragCursor, clearDragCursor } from '@/lib/drag-cursor';
 
 // 7. Types
-import type { Layer, Page, CollectionField, Asset } from '@/types';
+import type { Layer, Page, CollectionField, Asset, Breakpoint } from '@/types';
 import {
   DropdownMenu,
   DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuShortcut,
@@ -81,12 +82,13 @@ import {
 import { Spinner } from '@/components/ui/spinner';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 
-type ViewportMode = 'desktop' | 'tablet' | 'mobile';
+type ViewportMode = Breakpoint;
 
 import type { UseLiveLayerUpdatesReturn } from '@/hooks/use-live-layer-updates';
 import type { UseLiveComponentUpdatesReturn } from '@/hooks/use-live-component-updates';
 import { useCanvasDropDetection } from '@/hooks/use-canvas-drop-detection';
 import { useCanvasSiblingReorder } from '@/hooks/use-canvas-sibling-reorder';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
 
 interface CenterCanvasProps {
   selectedLayerId: string | null;
@@ -100,12 +102,6 @@ interface CenterCanvasProps {
   liveComponentUpdates?: UseLiveComponentUpdatesReturn | null;
 }
 
-const viewportSizes: Record<ViewportMode, { width: string; label: string; icon: string }> = {
-  desktop: { width: '1366px', label: 'Desktop', icon: '🖥️' },
-  tablet: { width: '768px', label: 'Tablet', icon: '📱' },
-  mobile: { width: '375px', label: 'Mobile', icon: '📱' },
-};
-
 // Import the drop target type from the store
 import type { CanvasDropTarget } from '@/stores/useEditorStore';
 
@@ -494,6 +490,7 @@ const CenterCanvas = React.memo(function CenterCanvas({
   liveComponentUpdates,
 }: CenterCanvasProps) {
   const [showAddBlockPanel, setShowAddBlockPanel] = useState(false);
+  const breakpoints = useBreakpoints();
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -537,6 +534,7 @@ const CenterCanvas = React.memo(function CenterCanvas({
   const getSelectedLocale = useLocalisationStore((state) => state.getSelectedLocale);
   const translations = useLocalisationStore((state) => state.translations);
   const activeUIState = useEditorStore((state) => state.activeUIState);
+  const [isDarkPreview, setIsDarkPreview] = useState(false);
   const editingComponentId = useEditorStore((state) => state.editingComponentId);
   const setCurrentPageId = useEditorStore((state) => state.setCurrentPageId);
   const returnToPageId = useEditorStore((state) => state.returnToPageId);
@@ -632,10 +630,8 @@ const CenterCanvas = React.memo(function CenterCanvas({
     autoInit: true,
   });
 
-  // Parse viewport width
-  const viewportWidth = useMemo(() => {
-    return parseInt(viewportSizes[viewportMode].width);
-  }, [viewportMode]);
+  // Viewport width of the breakpoint (follows changes to the site's breakpoints)
+  const viewportWidth = getBreakpointViewportWidth(viewportMode);
 
   // Calculate default iframe height to fill canvas (set once on load)
   const defaultCanvasHeight = useMemo(() => {
@@ -1708,16 +1704,17 @@ const CenterCanvas = React.memo(function CenterCanvas({
         {/* Viewport Controls */}
         <div className="flex justify-center gap-2">
           <Tabs value={viewportMode} onValueChange={(value) => setViewportMode(value as ViewportMode)}>
-            <TabsList className="w-50">
-            <TabsTrigger value="desktop" title="Desktop View">
-              Desktop
-            </TabsTrigger>
-            <TabsTrigger value="tablet" title="Tablet View">
-              Tablet
-            </TabsTrigger>
-            <TabsTrigger value="mobile" title="Mobile View">
-              Phone
-            </TabsTrigger>
+            <TabsList className="min-w-50">
+            {/* Largest breakpoints first */}
+            {[...breakpoints].reverse().map((bp) => (
+              <TabsTrigger
+                key={bp.value}
+                value={bp.value}
+                title={`${bp.label} View`}
+              >
+                {bp.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
           </Tabs>
           <DropdownMenu>
@@ -1760,6 +1757,20 @@ const CenterCanvas = React.memo(function CenterCanvas({
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          {!isPreviewMode && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant={isDarkPreview ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setIsDarkPreview((current) => !current)}
+                >
+                  <Icon name="moon" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{isDarkPreview ? 'Hide dark mode' : 'Preview dark mode'}</TooltipContent>
+            </Tooltip>
+          )}
         </div>
 
         {/* Undo/Redo Buttons (hidden in preview mode) */}
@@ -2138,7 +2149,7 @@ const CenterCanvas = React.memo(function CenterCanvas({
               <div
                 className="bg-white shadow-3xl relative"
                 style={{
-                  width: viewportSizes[viewportMode].width,
+                  width: `${viewportWidth}px`,
                   // Compensate height for zoom so visual size = 100% after scaling
                   height: `${((containerHeight - CANVAS_PADDING) / (zoom / 100))}px`,
                   transform: `scale(${zoom / 100})`,
@@ -2208,7 +2219,7 @@ const CenterCanvas = React.memo(function CenterCanvas({
                   style={{
                     transform: `scale(${zoom / 100})`,
                     transformOrigin: 'top center', // Always scale from top
-                    width: viewportSizes[viewportMode].width,
+                    width: `${viewportWidth}px`,
                     height: `${finalIframeHeight}px`,
                     flexShrink: 0, // Prevent shrinking - maintain fixed size
                     // GPU optimization hints
@@ -2229,6 +2240,7 @@ const CenterCanvas = React.memo(function CenterCanvas({
                         hoveredLayerId={hoveredLayerId}
                         breakpoint={viewportMode}
                         activeUIState={activeUIState}
+                        darkPreview={isDarkPreview}
                         editingComponentId={editingComponentId || null}
                         collectionItems={{ ...collectionItemsFromStore, ...referencedItems }}
                         collectionFields={collectionFieldsFromStore}
@@ -0,0 +1,338 @@
+'use client';
+
+/**
+ * Collection Control Settings Component
+ *
+ * Settings panel for search, filter and sort controls: the collection list
+ * they drive, the searched fields, the filtered field and its display,
+ * and the sort choices offered to visitors
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import SettingsPanel from './SettingsPanel';
+import ToggleGroup from './ToggleGroup';
+import { findAllCollectionLayers, CollectionLayerInfo } from '@/lib/layer-utils';
+import {
+  FILTERABLE_FIELD_TYPES,
+  SEARCHABLE_FIELD_TYPES,
+  SORTABLE_FIELD_TYPES,
+  getCollectionControlSettings,
+} from '@/lib/collection-query-utils';
+import { generateId } from '@/lib/utils';
+import { usePagesStore } from '@/stores/usePagesStore';
+import { useEditorStore } from '@/stores/useEditorStore';
+import { useComponentsStore } from '@/stores/useComponentsStore';
+import { useCollectionsStore } from '@/stores/useCollectionsStore';
+import type { Layer, CollectionControlSettings as CollectionControlSettingsValue, CollectionSortOption } from '@/types';
+
+interface CollectionControlSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+}
+
+const PANEL_TITLES: Record<string, string> = {
+  collectionSearch: 'Search',
+  collectionFilter: 'Filter',
+  collectionSort: 'Sort',
+};
+
+export default function CollectionControlSettings({ layer, onLayerUpdate }: CollectionControlSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const draftsByPageId = usePagesStore((state) => state.draftsByPageId);
+  const currentPageId = useEditorStore((state) => state.currentPageId);
+  const editingComponentId = useEditorStore((state) => state.editingComponentId);
+  const componentDrafts = useComponentsStore((state) => state.componentDrafts);
+  const fieldsByCollectionId = useCollectionsStore((state) => state.fields);
+
+  // Collection lists the control can drive
+  const pageCollectionLayers = useMemo((): CollectionLayerInfo[] => {
+    if (!currentPageId) return [];
+
+    let layers: Layer[] = [];
+    if (editingComponentId) {
+      layers = componentDrafts[editingComponentId] || [];
+    } else {
+      const draft = draftsByPageId[currentPageId];
+      layers = draft ? draft.layers : [];
+    }
+
+    return findAllCollectionLayers(layers);
+  }, [currentPageId, editingComponentId, componentDrafts, draftsByPageId]);
+
+  const settings = layer ? getCollectionControlSettings(layer) : null;
+
+  const updateControl = useCallback((updates: Partial<CollectionControlSettingsValue>) => {
+    if (!layer || !settings) return;
+
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        collectionControl: {
+          ...settings,
+          ...updates,
+        },
+      },
+    });
+  }, [layer, settings, onLayerUpdate]);
+
+  // Only show for search, filter and sort controls
+  if (!layer || !settings) {
+    return null;
+  }
+
+  const fields = settings.collectionId ? fieldsByCollectionId[settings.collectionId] || [] : [];
+  const searchableFields = fields.filter((field) => SEARCHABLE_FIELD_TYPES.includes(field.type));
+  const filterableFields = fields.filter((field) => FILTERABLE_FIELD_TYPES.includes(field.type));
+  const sortableFields = fields.filter((field) => SORTABLE_FIELD_TYPES.includes(field.type));
+  const searchFieldIds = settings.searchFieldIds || [];
+  const sortOptions = settings.sortOptions || [];
+
+  const handleCollectionLayerChange = (layerId: string) => {
+    const collectionLayer = pageCollectionLayers.find((info) => info.layerId === layerId);
+    if (!collectionLayer) return;
+
+    // Fields belong to the previous collection
+    const collectionChanged = collectionLayer.collectionId !== settings.collectionId;
+    updateControl({
+      collectionLayerId: collectionLayer.layerId,
+      collectionId: collectionLayer.collectionId,
+      ...(collectionChanged && { searchFieldIds: [], fieldId: null, sortOptions: [] }),
+    });
+  };
+
+  const handleSearchFieldToggle = (fieldId: string) => {
+    updateControl({
+      searchFieldIds: searchFieldIds.includes(fieldId)
+        ? searchFieldIds.filter((id) => id !== fieldId)
+        : [...searchFieldIds, fieldId],
+    });
+  };
+
+  const updateSortOption = (id: string, updates: Partial<CollectionSortOption>) => {
+    updateControl({
+      sortOptions: sortOptions.map((option) => (option.id === id ? { ...option, ...updates } : option)),
+    });
+  };
+
+  const handleAddSortOption = () => {
+    const field = sortableFields[0];
+    updateControl({
+      sortOptions: [
+        ...sortOptions,
+        { id: generateId('sort'), label: field?.name || 'Sort', fieldId: field?.id || '', order: 'asc' },
+      ],
+    });
+  };
+
+  const getSearchFieldsText = () => {
+    if (searchFieldIds.length === 0) return 'All text fields';
+
+    const names = searchFieldIds.map((id) => fields.find((field) => field.id === id)?.name || id);
+    return names.length <= 2 ? names.join(', ') : `${names.length} fields`;
+  };
+
+  return (
+    <SettingsPanel
+      title={PANEL_TITLES[layer.name] || 'Collection control'}
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Collection</Label>
+          <div className="col-span-2">
+            <Select
+              value={settings.collectionLayerId || ''}
+              onValueChange={handleCollectionLayerChange}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder={pageCollectionLayers.length > 0 ? 'Select a collection list' : 'No collection lists'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {pageCollectionLayers.map((info) => (
+                    <SelectItem key={info.layerId} value={info.layerId}>
+                      {info.layerName}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {layer.name !== 'collectionFilter' || settings.display !== 'checkboxes' ? (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Placeholder</Label>
+            <div className="col-span-2">
+              <Input
+                value={settings.placeholder || ''}
+                placeholder={layer.name === 'collectionSearch' ? 'Search...' : layer.name === 'collectionSort' ? 'Default' : 'All'}
+                onChange={(e) => updateControl({ placeholder: e.target.value })}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        {settings.collectionId && layer.name === 'collectionSearch' && (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Fields</Label>
+            <div className="col-span-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="input"
+                    size="sm"
+                    className="w-full justify-between font-normal"
+                  >
+                    <span className="truncate text-xs">{getSearchFieldsText()}</span>
+                    <Icon name="chevronCombo" className="size-2.5 opacity-50 ml-2" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-(--radix-dropdown-menu-trigger-width) min-w-50 max-h-60 overflow-y-auto" align="start">
+                  {searchableFields.length === 0 ? (
+                    <div className="text-center py-4 text-xs text-muted-foreground">
+                      No text fields
+                    </div>
+                  ) : (
+                    searchableFields.map((field) => (
+                      <DropdownMenuCheckboxItem
+                        key={field.id}
+                        checked={searchFieldIds.includes(field.id)}
+                        onCheckedChange={() => handleSearchFieldToggle(field.id)}
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        {field.name}
+                      </DropdownMenuCheckboxItem>
+                    ))
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        )}
+
+        {settings.collectionId && layer.name === 'collectionFilter' && (
+          <>
+            <div className="grid grid-cols-3 items-center gap-2">
+              <Label variant="muted">Field</Label>
+              <div className="col-span-2">
+                <Select
+                  value={settings.fieldId || ''}
+                  onValueChange={(fieldId) => updateControl({ fieldId })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {filterableFields.map((field) => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 items-center gap-2">
+              <Label variant="muted">Display</Label>
+              <div className="col-span-2 *:w-full">
+                <ToggleGroup
+                  options={[
+                    { label: 'Dropdown', value: 'dropdown' },
+                    { label: 'Checkboxes', value: 'checkboxes' },
+                  ]}
+                  value={settings.display || 'dropdown'}
+                  onChange={(value) => updateControl({ display: value as CollectionControlSettingsValue['display'] })}
+                />
+              </div>
+            </div>
+          </>
+        )}
+
+        {settings.collectionId && layer.name === 'collectionSort' && (
+          <div className="flex flex-col gap-2">
+            <Label variant="muted">Options</Label>
+
+            {sortOptions.map((option) => (
+              <div key={option.id} className="flex items-center gap-1.5">
+                <Input
+                  value={option.label}
+                  placeholder="Label"
+                  onChange={(e) => updateSortOption(option.id, { label: e.target.value })}
+                />
+                <Select
+                  value={option.fieldId}
+                  onValueChange={(fieldId) => updateSortOption(option.id, { fieldId })}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {sortableFields.map((field) => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={option.order}
+                  onValueChange={(order) => updateSortOption(option.id, { order: order as CollectionSortOption['order'] })}
+                >
+                  <SelectTrigger className="w-20 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectItem value="asc">Asc</SelectItem>
+                      <SelectItem value="desc">Desc</SelectItem>
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="xs"
+                  onClick={() => updateControl({ sortOptions: sortOptions.filter((o) => o.id !== option.id) })}
+                >
+                  <Icon name="x" />
+                </Button>
+              </div>
+            ))}
+
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="w-fit"
+              onClick={handleAddSortOption}
+              disabled={sortableFields.length === 0}
+            >
+              <Icon name="plus" className="size-3" />
+              Add option
+            </Button>
+          </div>
+        )}
+      </div>
+    </SettingsPanel>
+  );
+}
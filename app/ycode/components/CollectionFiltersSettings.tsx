@@ -14,6 +14,7 @@ import debounce from 'lodash.debounce';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OptionValuesSelector } from './OptionFieldInput';
 import SettingsPanel from './SettingsPanel';
 import type {
   Layer,
@@ -48,6 +49,7 @@ import {
   getItemDisplayName,
   COMPARE_OPERATORS,
 } from '@/lib/collection-field-utils';
+import { getFieldOptions } from '@/lib/option-field-utils';
 import { getCollectionVariable } from '@/lib/layer-utils';
 import type { CollectionItemWithValues } from '@/types';
 
@@ -286,8 +288,8 @@ export default function CollectionFiltersSettings({
       fieldId: field.id,
       fieldType: field.type,
       referenceCollectionId: field.reference_collection_id || undefined,
-      operator: getOperatorsForFieldType(field.type)[0].value,
-      value: (field.type === 'reference' || field.type === 'multi_reference') ? '[]' : field.type === 'boolean' ? 'true' : '',
+      operator: getOperatorsForFieldType(field.type, field.data?.multiple)[0].value,
+      value: (field.type === 'reference' || field.type === 'multi_reference' || field.type === 'option') ? '[]' : field.type === 'boolean' ? 'true' : '',
     };
 
     const newGroup: VisibilityConditionGroup = {
@@ -308,8 +310,8 @@ export default function CollectionFiltersSettings({
           fieldId: field.id,
           fieldType: field.type,
           referenceCollectionId: field.reference_collection_id || undefined,
-          operator: getOperatorsForFieldType(field.type)[0].value,
-          value: (field.type === 'reference' || field.type === 'multi_reference') ? '[]' : field.type === 'boolean' ? 'true' : '',
+          operator: getOperatorsForFieldType(field.type, field.data?.multiple)[0].value,
+          value: (field.type === 'reference' || field.type === 'multi_reference' || field.type === 'option') ? '[]' : field.type === 'boolean' ? 'true' : '',
         };
         return {
           ...group,
@@ -500,10 +502,12 @@ export default function CollectionFiltersSettings({
   // Render a single condition
   const renderCondition = (condition: VisibilityCondition, group: VisibilityConditionGroup, index: number) => {
     const fieldType = condition.fieldType || getFieldType(condition.fieldId || '');
-    const operators = getOperatorsForFieldType(fieldType);
+    const conditionField = condition.fieldId ? fields?.find(f => f.id === condition.fieldId) : undefined;
+    const operators = getOperatorsForFieldType(fieldType, conditionField?.data?.multiple);
     const icon = getFieldIcon(fieldType);
     const displayName = getFieldName(condition.fieldId || '');
     const referenceCollectionId = getReferenceCollectionId(condition);
+    const fieldOptions = conditionField ? getFieldOptions(conditionField) : [];
 
     return (
       <React.Fragment key={condition.id}>
@@ -582,7 +586,16 @@ export default function CollectionFiltersSettings({
           )}
 
           {/* Reference/Multi-reference items selector */}
-          {operatorRequiresItemSelection(condition.operator) && referenceCollectionId && (
+          {/* Option values selector */}
+          {operatorRequiresItemSelection(condition.operator) && fieldType === 'option' && (
+            <OptionValuesSelector
+              options={fieldOptions}
+              value={condition.value || '[]'}
+              onChange={(value) => handleValueChange(group.id, condition.id, value)}
+            />
+          )}
+
+          {operatorRequiresItemSelection(condition.operator) && fieldType !== 'option' && referenceCollectionId && (
             <ReferenceItemsSelector
               collectionId={referenceCollectionId}
               value={condition.value || '[]'}
@@ -592,7 +605,25 @@ export default function CollectionFiltersSettings({
 
           {operatorRequiresValue(condition.operator) && condition.operator !== 'item_count' && !operatorRequiresItemSelection(condition.operator) && (
             <>
-              {fieldType === 'boolean' ? (
+              {fieldType === 'option' ? (
+                <Select
+                  value={fieldOptions.some(option => option.value === condition.value) ? condition.value : ''}
+                  onValueChange={(value) => handleValueChange(group.id, condition.id, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an option..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {fieldOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              ) : fieldType === 'boolean' ? (
                 <Select
                   value={condition.value || 'true'}
                   onValueChange={(value) => handleValueChange(group.id, condition.id, value)}
@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * Collection Item Publish Schedule
+ *
+ * Schedule a collection item to publish and/or unpublish (expire) at a
+ * given time. Shown in the collection item sheet for existing items.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import { publishApi } from '@/lib/api';
+import { formatDateInTimezone, localDatetimeToUTC } from '@/lib/date-format-utils';
+import { toast } from 'sonner';
+import type { PublishSchedule, PublishScheduleAction } from '@/types';
+
+interface CollectionItemPublishScheduleProps {
+  collectionId: string;
+  itemId: string;
+  timezone: string;
+}
+
+const SCHEDULE_ROWS: { action: PublishScheduleAction; label: string }[] = [
+  { action: 'publish', label: 'Publish on' },
+  { action: 'unpublish', label: 'Unpublish on' },
+];
+
+export default function CollectionItemPublishSchedule({
+  collectionId,
+  itemId,
+  timezone,
+}: CollectionItemPublishScheduleProps) {
+  const [schedules, setSchedules] = useState<PublishSchedule[]>([]);
+  const [inputValues, setInputValues] = useState<Record<PublishScheduleAction, string>>({ publish: '', unpublish: '' });
+  const [savingAction, setSavingAction] = useState<PublishScheduleAction | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    const response = await publishApi.getSchedules({ target_type: 'collection_item', target_id: itemId });
+    setSchedules(response.data ?? []);
+  }, [itemId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const handleSchedule = async (action: PublishScheduleAction) => {
+    const scheduledAt = localDatetimeToUTC(inputValues[action], timezone);
+    if (!scheduledAt) return;
+
+    setSavingAction(action);
+    try {
+      const result = await publishApi.createSchedule({
+        action,
+        target_type: 'collection_item',
+        target_id: itemId,
+        collection_id: collectionId,
+        scheduled_at: scheduledAt,
+      });
+
+      if (result.error) {
+        toast.error('Failed to schedule item', { description: result.error });
+        return;
+      }
+
+      setInputValues(prev => ({ ...prev, [action]: '' }));
+      await loadSchedules();
+    } finally {
+      setSavingAction(null);
+    }
+  };
+
+  const handleCancel = async (scheduleId: string) => {
+    const result = await publishApi.cancelSchedule(scheduleId);
+    if (result.error) {
+      toast.error('Failed to cancel schedule', { description: result.error });
+    }
+    await loadSchedules();
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <Label>Schedule</Label>
+
+      {SCHEDULE_ROWS.map(({ action, label }) => {
+        const pending = schedules.filter(schedule => schedule.action === action);
+
+        return (
+          <div key={action} className="flex flex-col gap-1.5">
+            <span className="text-xs text-muted-foreground">{label}</span>
+
+            {pending.map(schedule => (
+              <div key={schedule.id} className="flex items-center justify-between gap-2 text-xs">
+                <span className="flex items-center gap-1.5">
+                  <Icon name="calendar" className="size-3 text-muted-foreground" />
+                  {formatDateInTimezone(schedule.scheduled_at, timezone)}
+                </span>
+                <Button
+                  type="button"
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => handleCancel(schedule.id)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center gap-2">
+              <Input
+                type="datetime-local"
+                value={inputValues[action]}
+                onChange={(e) => setInputValues(prev => ({ ...prev, [action]: e.target.value }))}
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                onClick={() => handleSchedule(action)}
+                disabled={!inputValues[action] || savingAction === action}
+              >
+                Schedule
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-muted-foreground">
+        Scheduled items publish with their latest saved changes. Unpublished items stay out of site-wide publishes until they are edited again.
+      </p>
+    </div>
+  );
+}
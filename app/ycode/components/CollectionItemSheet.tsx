@@ -25,6 +25,7 @@ import {
   Form,
   FormControl,
   FormField,
+  FormDescription,
   FormItem,
   FormLabel,
   FormMessage,
@@ -40,12 +41,17 @@ import { useResourceLock } from '@/hooks/use-resource-lock';
 import { slugify, normalizeBooleanValue } from '@/lib/collection-utils';
 import { validateFieldValue, isAssetFieldType, isMultipleAssetField, getFileManagerCategory, getAssetFieldLabel, getAssetFieldTypeLabel, isValidAssetForField } from '@/lib/collection-field-utils';
 import { formatDateInTimezone, localDatetimeToUTC } from '@/lib/date-format-utils';
+import { validateItemValues, describeFieldValidation, getFieldValidation } from '@/lib/field-validation-utils';
+import { getFieldOptions, isMultipleOptionField } from '@/lib/option-field-utils';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { toast } from 'sonner';
 import ReferenceFieldCombobox from './ReferenceFieldCombobox';
 import CollectionLinkFieldInput from './CollectionLinkFieldInput';
 import ColorFieldInput from './ColorFieldInput';
+import GeolocationFieldInput from './GeolocationFieldInput';
+import OptionFieldInput from './OptionFieldInput';
 import AssetFieldCard from './AssetFieldCard';
+import CollectionItemPublishSchedule from './CollectionItemPublishSchedule';
 import type { Asset, CollectionItemWithValues } from '@/types';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { Label } from '@/components/ui/label';
@@ -307,6 +313,23 @@ export default function CollectionItemSheet({
       }
     }
 
+    // Validate field rules (required, unique, length, range, pattern, file types)
+    const fieldErrors = validateItemValues(collectionFields, values, {
+      isDuplicate: (fieldId, value) => collectionItems.some(
+        item => item.id !== editingItem?.id && item.values[fieldId]?.trim() === value
+      ),
+      getAsset,
+    });
+
+    fieldErrors.forEach(error => {
+      if (form.getFieldState(error.field_id).error) return;
+      form.setError(error.field_id, {
+        type: 'manual',
+        message: error.message,
+      });
+      hasErrors = true;
+    });
+
     if (hasErrors) return;
 
     // Store editingItem reference before closing (needed for API call below)
@@ -464,7 +487,10 @@ export default function CollectionItemSheet({
                     name={field.id}
                     render={({ field: formField }) => (
                       <FormItem>
-                        <FormLabel>{field.name}</FormLabel>
+                        <FormLabel>
+                          {field.name}
+                          {getFieldValidation(field).required && <span className="text-muted-foreground">*</span>}
+                        </FormLabel>
                         <FormControl>
                           {field.type === 'rich_text' ? (
                             <RichTextEditor
@@ -522,6 +548,18 @@ export default function CollectionItemSheet({
                               value={formField.value || ''}
                               onChange={formField.onChange}
                             />
+                          ) : field.type === 'geolocation' ? (
+                            <GeolocationFieldInput
+                              value={formField.value || ''}
+                              onChange={formField.onChange}
+                            />
+                          ) : field.type === 'option' ? (
+                            <OptionFieldInput
+                              options={getFieldOptions(field)}
+                              multiple={isMultipleOptionField(field)}
+                              value={formField.value}
+                              onChange={formField.onChange}
+                            />
                           ) : isMultipleAssetField(field) ? (
                             /* Multiple Asset Field */
                             (() => {
@@ -691,6 +729,11 @@ export default function CollectionItemSheet({
                             />
                           )}
                         </FormControl>
+                        {describeFieldValidation(field) && (
+                          <FormDescription className="text-xs">
+                            {describeFieldValidation(field)}
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -699,6 +742,17 @@ export default function CollectionItemSheet({
             </div>
           </form>
         </Form>
+
+        {editingItem && !isTempId(editingItem.id) && (
+          <>
+            <Separator />
+            <CollectionItemPublishSchedule
+              collectionId={collectionId}
+              itemId={editingItem.id}
+              timezone={timezone}
+            />
+          </>
+        )}
       </SheetContent>
 
       <ConfirmDialog
@@ -27,6 +27,8 @@ import {
 } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { findDesignTokenByValue, getDesignTokenValue } from '@/lib/design-token-utils';
+import { useDesignTokens } from '@/hooks/use-design-tokens';
 
 /** CMS color field binding props (optional, for design property data-binding) */
 export interface ColorPickerBindingProps {
@@ -819,6 +821,11 @@ export default function ColorPicker({
   const displayValue = value || '';
   const isGradient = displayValue.startsWith('linear') || displayValue.startsWith('radial');
 
+  // Color tokens are shown (and edited) as their light value, picking a color detaches the token
+  const colorTokens = useDesignTokens('color');
+  const activeToken = findDesignTokenByValue(displayValue, colorTokens);
+  const solidValue = activeToken ? activeToken.value : displayValue;
+
   // Format display value for user-friendly gradient names
   const getDisplayText = (val: string): string => {
     if (val.startsWith('linear-gradient')) {
@@ -832,8 +839,8 @@ export default function ColorPicker({
 
   // Solid color state
   const [rgbaColor, setRgbaColor] = useState(() => {
-    if (!isGradient && displayValue) {
-      return parseColor(displayValue);
+    if (!isGradient && solidValue) {
+      return parseColor(solidValue);
     }
     return parseColor(defaultValue);
   });
@@ -841,24 +848,24 @@ export default function ColorPicker({
   // Store HSV values separately to prevent drift and instability when adjusting colors
   // This prevents cursor jumping when RGB->HSV conversions are unstable (e.g., near black)
   const [hue, setHue] = useState(() => {
-    const initialColor = (!isGradient && displayValue) ? parseColor(displayValue) : parseColor(defaultValue);
+    const initialColor = (!isGradient && solidValue) ? parseColor(solidValue) : parseColor(defaultValue);
     return rgbToHsv(initialColor.r, initialColor.g, initialColor.b).h;
   });
 
   const [saturation, setSaturation] = useState(() => {
-    const initialColor = (!isGradient && displayValue) ? parseColor(displayValue) : parseColor(defaultValue);
+    const initialColor = (!isGradient && solidValue) ? parseColor(solidValue) : parseColor(defaultValue);
     return rgbToHsv(initialColor.r, initialColor.g, initialColor.b).s;
   });
 
   const [hsvValue, setHsvValue] = useState(() => {
-    const initialColor = (!isGradient && displayValue) ? parseColor(displayValue) : parseColor(defaultValue);
+    const initialColor = (!isGradient && solidValue) ? parseColor(solidValue) : parseColor(defaultValue);
     return rgbToHsv(initialColor.r, initialColor.g, initialColor.b).v;
   });
 
   // Local state for HEX input to allow free typing
   const [hexInputValue, setHexInputValue] = useState(() => {
-    if (!isGradient && displayValue) {
-      return getHexOnly(displayValue);
+    if (!isGradient && solidValue) {
+      return getHexOnly(solidValue);
     }
     return getHexOnly(defaultValue);
   });
@@ -946,8 +953,8 @@ export default function ColorPicker({
 
   // Sync rgba color when value changes externally (for solid colors)
   useEffect(() => {
-    if (!isGradient && displayValue) {
-      const newColor = parseColor(displayValue);
+    if (!isGradient && solidValue) {
+      const newColor = parseColor(solidValue);
       setRgbaColor(newColor);
       // Only update HSV values when color changes externally (not from internal updates)
       if (!isInternalUpdate.current) {
@@ -959,7 +966,7 @@ export default function ColorPicker({
     }
     // Reset flag after sync
     isInternalUpdate.current = false;
-  }, [displayValue, isGradient]);
+  }, [solidValue, isGradient]);
 
   const handleClear = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -1557,12 +1564,12 @@ export default function ColorPicker({
                   backgroundImage: backgroundImageProps.backgroundImage,
                 }
                 : {
-                  background: isGradient ? displayValue : displayValue,
+                  background: isGradient ? displayValue : solidValue,
                 }
             }
           />
           <Label variant="muted" className="truncate max-w-30">
-            {backgroundImageProps?.backgroundImage ? 'Image' : getDisplayText(displayValue)}
+            {backgroundImageProps?.backgroundImage ? 'Image' : (activeToken?.name ?? getDisplayText(displayValue))}
           </Label>
           <div className="ml-auto -mr-1.5">
               <Button
@@ -1717,6 +1724,28 @@ export default function ColorPicker({
                   </div>
                 );
               })()}
+
+              {/* Color tokens (stored as var(), so token changes restyle every usage) */}
+              {colorTokens.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {colorTokens.map((token) => (
+                    <Tooltip key={token.id}>
+                      <TooltipTrigger asChild>
+                        <button
+                          type="button"
+                          className={cn(
+                            'size-5 rounded border border-border cursor-pointer',
+                            activeToken?.id === token.id && 'ring-2 ring-primary ring-offset-1 ring-offset-background'
+                          )}
+                          style={{ background: token.value }}
+                          onClick={() => immediateOnChange(getDesignTokenValue(token))}
+                        />
+                      </TooltipTrigger>
+                      <TooltipContent>{token.name}</TooltipContent>
+                    </Tooltip>
+                  ))}
+                </div>
+              )}
             </div>
           </TabsContent>
 
@@ -143,7 +143,10 @@ export default function ColorPropertyField({
     layerId?: string,
   ) => {
     if (!layer) return;
-    const field = colorFields.find(f => f.id === fieldId);
+    // Type of the bound field (the last relationship for nested references), option fields bind the option color
+    const targetFieldId = relationshipPath[relationshipPath.length - 1] || fieldId;
+    const field = colorFields.find(f => f.id === targetFieldId)
+      || Object.values(allFields || {}).flat().find(f => f.id === targetFieldId);
     const fieldVar = buildFieldVariable(
       fieldId, relationshipPath, field?.type || null,
       source as FieldSourceType | undefined, layerId,
@@ -174,7 +177,7 @@ export default function ColorPropertyField({
       : { radial: { stops } };
 
     setBinding({ ...currentBinding, type: 'color', mode, ...modeUpdate });
-  }, [layer, colorFields, currentBinding, setBinding]);
+  }, [layer, colorFields, allFields, currentBinding, setBinding]);
 
   /** Unbind a stop (null = solid) */
   const handleUnbind = useCallback((stopId: string | null) => {
@@ -5,9 +5,10 @@
  *
  * Dialog for managing text variables in a component
  * Used when editing components to expose text content as variables
+ * Variant and boolean variables switch styles and visibility of inner layers
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -16,6 +17,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import Icon from '@/components/ui/icon';
 import {
   DropdownMenu,
@@ -26,10 +29,23 @@ import {
 import RichTextEditor from './RichTextEditor';
 import ImageSettings, { type ImageSettingsValue } from './ImageSettings';
 import LinkSettings, { type LinkSettingsValue } from './LinkSettings';
+import ComponentVariantSettings from './ComponentVariantSettings';
 
 import { useComponentsStore } from '@/stores/useComponentsStore';
 import { useCollectionsStore } from '@/stores/useCollectionsStore';
 import { createTextComponentVariableValue, extractTiptapFromComponentVariable } from '@/lib/variable-utils';
+import { getLayerIcon, getLayerName } from '@/lib/layer-utils';
+import { flattenTree } from '@/lib/tree-utilities';
+import type { ComponentVariable } from '@/types';
+
+/** Icon of each variable type in the variable list */
+const VARIABLE_TYPE_ICONS = {
+  text: 'text',
+  image: 'image',
+  link: 'link',
+  variant: 'swatch',
+  boolean: 'eye',
+} as const;
 
 interface ComponentVariablesDialogProps {
   open: boolean;
@@ -46,8 +62,11 @@ export default function ComponentVariablesDialog({
   const addTextVariable = useComponentsStore((state) => state.addTextVariable);
   const addImageVariable = useComponentsStore((state) => state.addImageVariable);
   const addLinkVariable = useComponentsStore((state) => state.addLinkVariable);
+  const addVariantVariable = useComponentsStore((state) => state.addVariantVariable);
+  const addBooleanVariable = useComponentsStore((state) => state.addBooleanVariable);
   const updateTextVariable = useComponentsStore((state) => state.updateTextVariable);
   const deleteTextVariable = useComponentsStore((state) => state.deleteTextVariable);
+  const componentDraft = useComponentsStore((state) => (componentId ? state.componentDrafts[componentId] : undefined));
   const fields = useCollectionsStore((state) => state.fields);
   const collections = useCollectionsStore((state) => state.collections);
 
@@ -62,6 +81,14 @@ export default function ComponentVariablesDialog({
   // Get the currently selected variable
   const selectedVariable = textVariables.find((v) => v.id === selectedVariableId);
 
+  // Inner layers that variant and boolean variables can target (draft has the latest edits)
+  const componentLayers = componentDraft || component?.layers;
+  const layerItems = useMemo(() => {
+    const items = flattenTree(componentLayers || []);
+    // The root layer can't be toggled, instances are hidden on the page instead
+    return { all: items, inner: items.filter((item) => item.depth > 0) };
+  }, [componentLayers]);
+
   // Helper to get empty Tiptap doc
   const getEmptyTiptapDoc = () => ({ type: 'doc', content: [{ type: 'paragraph' }] });
 
@@ -124,6 +151,48 @@ export default function ComponentVariablesDialog({
     }
   };
 
+  // Handle creating a new variant variable
+  const handleAddVariantVariable = async () => {
+    if (!componentId) return;
+
+    const newId = await addVariantVariable(componentId, 'Variant');
+    if (newId) {
+      setSelectedVariableId(newId);
+      setEditingName('Variant');
+    }
+  };
+
+  // Handle creating a new boolean variable
+  const handleAddBooleanVariable = async () => {
+    if (!componentId) return;
+
+    const newId = await addBooleanVariable(componentId, 'Visible');
+    if (newId) {
+      setSelectedVariableId(newId);
+      setEditingName('Visible');
+    }
+  };
+
+  // Handle variant options change, then regenerate CSS so option classes are included
+  const handleVariantChange = async (updates: Pick<ComponentVariable, 'options' | 'default_option'>) => {
+    if (!componentId || !selectedVariableId) return;
+    await updateTextVariable(componentId, selectedVariableId, updates);
+
+    try {
+      const { regenerateDraftCSS } = await import('@/lib/client/cssGenerator');
+      await regenerateDraftCSS();
+    } catch (cssError) {
+      console.error('Failed to generate CSS after updating variant:', cssError);
+    }
+  };
+
+  // Handle toggling a layer controlled by a boolean variable
+  const handleBooleanLayerToggle = (layerId: string, checked: boolean) => {
+    if (!componentId || !selectedVariable) return;
+    const layerIds = (selectedVariable.layer_ids || []).filter((id) => id !== layerId);
+    updateTextVariable(componentId, selectedVariable.id, { layer_ids: checked ? [...layerIds, layerId] : layerIds });
+  };
+
   // Handle image default value change (via ImageSettings standalone mode)
   const handleImageDefaultValueChange = (value: ImageSettingsValue) => {
     if (!componentId || !selectedVariableId) return;
@@ -217,6 +286,14 @@ export default function ComponentVariablesDialog({
                       <Icon name="link" className="size-3" />
                       Link
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleAddVariantVariable}>
+                      <Icon name="swatch" className="size-3" />
+                      Variant
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleAddBooleanVariable}>
+                      <Icon name="eye" className="size-3" />
+                      Boolean
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -231,7 +308,7 @@ export default function ComponentVariablesDialog({
                   className="justify-start"
                   onClick={() => setSelectedVariableId(variable.id)}
                 >
-                  <Icon name={variable.type === 'image' ? 'image' : variable.type === 'link' ? 'link' : 'text'} className="size-3" />
+                  <Icon name={VARIABLE_TYPE_ICONS[variable.type || 'text']} className="size-3" />
                   {variable.name}
                 </Button>
               ))}
@@ -245,7 +322,7 @@ export default function ComponentVariablesDialog({
           </div>
 
           {/* Right panel - variable editor */}
-          <div className="flex-1 p-6 pt-14 flex flex-col gap-2">
+          <div className="flex-1 p-6 pt-14 flex flex-col gap-2 h-120 overflow-y-auto">
             {selectedVariable ? (
               <>
                 <div className="grid grid-cols-3">
@@ -261,42 +338,85 @@ export default function ComponentVariablesDialog({
                   </div>
                 </div>
 
-                <div className="grid grid-cols-3">
-                  <Label variant="muted">Default</Label>
-                  <div className="col-span-2 *:w-full">
-                    {selectedVariable.type === 'link' ? (
-                      // Link variable - use LinkSettings in standalone mode
-                      <LinkSettings
-                        mode="standalone"
-                        value={selectedVariable.default_value as LinkSettingsValue}
-                        onChange={handleLinkDefaultValueChange}
-                        allFields={fields}
-                        collections={collections}
-                      />
-                    ) : selectedVariable.type === 'image' ? (
-                      // Image variable - use ImageSettings in standalone mode
-                      <ImageSettings
-                        mode="standalone"
-                        value={selectedVariable.default_value as ImageSettingsValue}
-                        onChange={handleImageDefaultValueChange}
-                        allFields={fields}
-                        collections={collections}
-                      />
-                    ) : (
-                      // Text variable - use RichTextEditor
-                      <RichTextEditor
-                        value={editingDefaultValue}
-                        onChange={handleDefaultValueChange}
-                        onBlur={handleDefaultValueBlur}
-                        placeholder="Default value..."
-                        allFields={fields}
-                        collections={collections}
-                        withFormatting={true}
-                        showFormattingToolbar={false}
-                      />
-                    )}
+                {selectedVariable.type === 'variant' ? (
+                  <ComponentVariantSettings
+                    variable={selectedVariable}
+                    layerItems={layerItems.all}
+                    onChange={handleVariantChange}
+                  />
+                ) : selectedVariable.type === 'boolean' ? (
+                  <>
+                    <div className="grid grid-cols-3 items-center">
+                      <Label variant="muted">Default</Label>
+                      <div className="col-span-2">
+                        <Switch
+                          checked={selectedVariable.default_enabled ?? true}
+                          onCheckedChange={(checked) => componentId && updateTextVariable(componentId, selectedVariable.id, { default_enabled: checked })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3">
+                      <Label variant="muted">Layers</Label>
+                      <div className="col-span-2 flex flex-col gap-1">
+                        <p className="text-xs text-muted-foreground">
+                          Checked layers are only shown while the variable is on.
+                        </p>
+                        {layerItems.inner.map((item) => (
+                          <label
+                            key={item.id}
+                            className="flex items-center gap-2 py-0.5 text-xs cursor-pointer"
+                            style={{ paddingLeft: `${(item.depth - 1) * 0.75}rem` }}
+                          >
+                            <Checkbox
+                              checked={selectedVariable.layer_ids?.includes(item.id) ?? false}
+                              onCheckedChange={(checked) => handleBooleanLayerToggle(item.id, checked === true)}
+                            />
+                            <Icon name={getLayerIcon(item.layer)} className="size-3" />
+                            <span className="truncate">{getLayerName(item.layer)}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <div className="grid grid-cols-3">
+                    <Label variant="muted">Default</Label>
+                    <div className="col-span-2 *:w-full">
+                      {selectedVariable.type === 'link' ? (
+                        // Link variable - use LinkSettings in standalone mode
+                        <LinkSettings
+                          mode="standalone"
+                          value={selectedVariable.default_value as LinkSettingsValue}
+                          onChange={handleLinkDefaultValueChange}
+                          allFields={fields}
+                          collections={collections}
+                        />
+                      ) : selectedVariable.type === 'image' ? (
+                        // Image variable - use ImageSettings in standalone mode
+                        <ImageSettings
+                          mode="standalone"
+                          value={selectedVariable.default_value as ImageSettingsValue}
+                          onChange={handleImageDefaultValueChange}
+                          allFields={fields}
+                          collections={collections}
+                        />
+                      ) : (
+                        // Text variable - use RichTextEditor
+                        <RichTextEditor
+                          value={editingDefaultValue}
+                          onChange={handleDefaultValueChange}
+                          onBlur={handleDefaultValueBlur}
+                          placeholder="Default value..."
+                          allFields={fields}
+                          collections={collections}
+                          withFormatting={true}
+                          showFormattingToolbar={false}
+                        />
+                      )}
+                    </div>
                   </div>
-                </div>
+                )}
 
                 <div className="mt-4 pt-4 border-t">
                   <Button
@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * Component Variant Settings
+ *
+ * Editor for the options of a variant variable (e.g. size = sm | md | lg)
+ * Each option stores classes for inner layers, applied to instances that select it
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import { getLayerIcon, getLayerName } from '@/lib/layer-utils';
+import { classesToDesign } from '@/lib/tailwind-class-mapper';
+import { generateId } from '@/lib/utils';
+import type { FlattenedItem } from '@/lib/tree-utilities';
+import type { ComponentVariable, ComponentVariantOption } from '@/types';
+
+interface ComponentVariantSettingsProps {
+  variable: ComponentVariable;
+  layerItems: FlattenedItem[]; // Component layers that options can style
+  onChange: (updates: Pick<ComponentVariable, 'options' | 'default_option'>) => void;
+}
+
+export default function ComponentVariantSettings({
+  variable,
+  layerItems,
+  onChange,
+}: ComponentVariantSettingsProps) {
+  // Local copy, so typing in names and classes doesn't save on every keystroke
+  const [options, setOptions] = useState<ComponentVariantOption[]>(variable.options || []);
+
+  useEffect(() => {
+    setOptions(variable.options || []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [variable.id]);
+
+  const defaultOptionId = variable.default_option && options.some((option) => option.id === variable.default_option)
+    ? variable.default_option
+    : options[0]?.id;
+
+  // Save options, storing the design properties of each layer's classes
+  const saveOptions = (nextOptions: ComponentVariantOption[], defaultOption = defaultOptionId) => {
+    setOptions(nextOptions);
+    onChange({
+      options: nextOptions.map((option) => ({
+        ...option,
+        layers: Object.fromEntries(
+          Object.entries(option.layers || {}).map(([layerId, style]) => [
+            layerId,
+            { classes: style.classes.trim(), design: classesToDesign(style.classes) },
+          ])
+        ),
+      })),
+      default_option: defaultOption,
+    });
+  };
+
+  const updateOption = (optionId: string, updater: (option: ComponentVariantOption) => ComponentVariantOption) => {
+    setOptions((current) => current.map((option) => (option.id === optionId ? updater(option) : option)));
+  };
+
+  const handleAddOption = () => {
+    saveOptions([...options, { id: generateId('cpo'), name: `Option ${options.length + 1}`, layers: {} }]);
+  };
+
+  const handleDeleteOption = (optionId: string) => {
+    const remaining = options.filter((option) => option.id !== optionId);
+    saveOptions(remaining, optionId === defaultOptionId ? remaining[0]?.id : defaultOptionId);
+  };
+
+  const handleAddLayer = (option: ComponentVariantOption, layerId: string) => {
+    saveOptions(options.map((o) => (
+      o.id === option.id ? { ...o, layers: { ...o.layers, [layerId]: { classes: '' } } } : o
+    )));
+  };
+
+  const handleRemoveLayer = (option: ComponentVariantOption, layerId: string) => {
+    const { [layerId]: _, ...remainingLayers } = option.layers || {};
+    saveOptions(options.map((o) => (o.id === option.id ? { ...o, layers: remainingLayers } : o)));
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-3">
+        <Label variant="muted">Default</Label>
+        <div className="col-span-2 *:w-full">
+          <Select
+            value={defaultOptionId || ''}
+            onValueChange={(optionId) => saveOptions(options, optionId)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3">
+        <Label variant="muted">Options</Label>
+        <div className="col-span-2 flex flex-col gap-2">
+          {options.map((option) => {
+            const styledLayerIds = Object.keys(option.layers || {});
+            const availableLayers = layerItems.filter((item) => !styledLayerIds.includes(item.id));
+
+            return (
+              <div key={option.id} className="flex flex-col gap-2 border rounded-lg p-2">
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="text"
+                    placeholder="Option name"
+                    value={option.name}
+                    onChange={(e) => updateOption(option.id, (o) => ({ ...o, name: e.target.value }))}
+                    onBlur={() => option.name.trim() && saveOptions(options)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="xs"
+                    onClick={() => handleDeleteOption(option.id)}
+                    disabled={options.length <= 1}
+                  >
+                    <Icon name="trash" />
+                  </Button>
+                </div>
+
+                {styledLayerIds.map((layerId) => {
+                  const item = layerItems.find((i) => i.id === layerId);
+
+                  return (
+                    <div key={layerId} className="flex flex-col gap-1">
+                      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                        <Icon name={item ? getLayerIcon(item.layer) : 'box'} className="size-3" />
+                        <span className="flex-1 truncate">{item ? getLayerName(item.layer) : 'Deleted layer'}</span>
+                        <Button
+                          variant="ghost"
+                          size="xs"
+                          onClick={() => handleRemoveLayer(option, layerId)}
+                        >
+                          <Icon name="x" />
+                        </Button>
+                      </div>
+                      <Input
+                        type="text"
+                        placeholder="e.g. px-6 py-3 text-lg"
+                        value={option.layers?.[layerId]?.classes || ''}
+                        onChange={(e) => updateOption(option.id, (o) => ({
+                          ...o,
+                          layers: { ...o.layers, [layerId]: { classes: e.target.value } },
+                        }))}
+                        onBlur={() => saveOptions(options)}
+                      />
+                    </div>
+                  );
+                })}
+
+                {availableLayers.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="justify-start"
+                      >
+                        <Icon name="plus" />
+                        Style a layer
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="max-h-64 overflow-y-auto">
+                      {availableLayers.map((item) => (
+                        <DropdownMenuItem
+                          key={item.id}
+                          onClick={() => handleAddLayer(option, item.id)}
+                          style={{ paddingLeft: `${0.5 + item.depth * 0.75}rem` }}
+                        >
+                          <Icon name={getLayerIcon(item.layer)} className="size-3" />
+                          {getLayerName(item.layer)}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+            );
+          })}
+
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={handleAddOption}
+          >
+            Add option
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -14,6 +14,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import SettingsPanel from './SettingsPanel';
+import { OptionValuesSelector } from './OptionFieldInput';
 import type {
   Layer,
   CollectionField,
@@ -48,6 +49,7 @@ import {
   COMPARE_OPERATORS,
   PAGE_COLLECTION_OPERATORS,
 } from '@/lib/collection-field-utils';
+import { getFieldOptions } from '@/lib/option-field-utils';
 import { findAllCollectionLayers, CollectionLayerInfo } from '@/lib/layer-utils';
 import { usePagesStore } from '@/stores/usePagesStore';
 import { useEditorStore } from '@/stores/useEditorStore';
@@ -264,8 +266,8 @@ export default function ConditionalVisibilitySettings({
       fieldId: field.id,
       fieldType: field.type,
       referenceCollectionId: field.reference_collection_id || undefined,
-      operator: getOperatorsForFieldType(field.type)[0].value,
-      value: (field.type === 'reference' || field.type === 'multi_reference') ? '[]' : field.type === 'boolean' ? 'true' : '',
+      operator: getOperatorsForFieldType(field.type, field.data?.multiple)[0].value,
+      value: (field.type === 'reference' || field.type === 'multi_reference' || field.type === 'option') ? '[]' : field.type === 'boolean' ? 'true' : '',
     };
 
     const newGroup: VisibilityConditionGroup = {
@@ -309,8 +311,8 @@ export default function ConditionalVisibilitySettings({
           fieldId: field.id,
           fieldType: field.type,
           referenceCollectionId: field.reference_collection_id || undefined,
-          operator: getOperatorsForFieldType(field.type)[0].value,
-          value: (field.type === 'reference' || field.type === 'multi_reference') ? '[]' : field.type === 'boolean' ? 'true' : '',
+          operator: getOperatorsForFieldType(field.type, field.data?.multiple)[0].value,
+          value: (field.type === 'reference' || field.type === 'multi_reference' || field.type === 'option') ? '[]' : field.type === 'boolean' ? 'true' : '',
         };
         return {
           ...group,
@@ -545,12 +547,14 @@ export default function ConditionalVisibilitySettings({
   const renderCondition = (condition: VisibilityCondition, group: VisibilityConditionGroup, index: number) => {
     const isPageCollection = condition.source === 'page_collection';
     const fieldType = isPageCollection ? undefined : condition.fieldType || getFieldType(condition.fieldId || '');
-    const operators = isPageCollection ? PAGE_COLLECTION_OPERATORS : getOperatorsForFieldType(fieldType);
+    const conditionField = condition.fieldId ? allFieldsFromGroups.find(f => f.id === condition.fieldId) : undefined;
+    const operators = isPageCollection ? PAGE_COLLECTION_OPERATORS : getOperatorsForFieldType(fieldType, conditionField?.data?.multiple);
     const icon = isPageCollection ? 'database' : getFieldIcon(fieldType);
     const displayName = isPageCollection
       ? condition.collectionLayerName || 'Collection'
       : getFieldName(condition.fieldId || '');
     const referenceCollectionId = getReferenceCollectionId(condition);
+    const fieldOptions = conditionField ? getFieldOptions(conditionField) : [];
 
     return (
       <React.Fragment key={condition.id}>
@@ -629,7 +633,16 @@ export default function ConditionalVisibilitySettings({
           )}
 
           {/* Reference/Multi-reference items selector */}
-          {operatorRequiresItemSelection(condition.operator) && referenceCollectionId && (
+          {/* Option values selector */}
+          {operatorRequiresItemSelection(condition.operator) && fieldType === 'option' && (
+            <OptionValuesSelector
+              options={fieldOptions}
+              value={condition.value || '[]'}
+              onChange={(value) => handleValueChange(group.id, condition.id, value)}
+            />
+          )}
+
+          {operatorRequiresItemSelection(condition.operator) && fieldType !== 'option' && referenceCollectionId && (
             <ReferenceItemsSelector
               collectionId={referenceCollectionId}
               value={condition.value || '[]'}
@@ -639,7 +652,25 @@ export default function ConditionalVisibilitySettings({
 
           {operatorRequiresValue(condition.operator) && condition.operator !== 'item_count' && !operatorRequiresItemSelection(condition.operator) && (
             <>
-              {fieldType === 'boolean' ? (
+              {fieldType === 'option' ? (
+                <Select
+                  value={fieldOptions.some(option => option.value === condition.value) ? condition.value : ''}
+                  onValueChange={(value) => handleValueChange(group.id, condition.id, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an option..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {fieldOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              ) : fieldType === 'boolean' ? (
                 <Select
                   value={condition.value || 'true'}
                   onValueChange={(value) => handleValueChange(group.id, condition.id, value)}
@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * Design Token Select Component
+ *
+ * Dropdown next to a measurement input to apply a spacing or font size token
+ * Selected tokens are stored as var() references, so token changes restyle every usage
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useDesignTokens } from '@/hooks/use-design-tokens';
+import { findDesignTokenByValue, getDesignTokenValue } from '@/lib/design-token-utils';
+import type { DesignTokenType } from '@/types';
+
+interface DesignTokenSelectProps {
+  type: Exclude<DesignTokenType, 'color'>;
+  value: string;
+  onSelect: (value: string) => void;
+  disabled?: boolean;
+}
+
+export default function DesignTokenSelect({
+  type,
+  value,
+  onSelect,
+  disabled = false,
+}: DesignTokenSelectProps) {
+  const tokens = useDesignTokens(type);
+  const activeToken = findDesignTokenByValue(value, tokens);
+
+  // Nothing to pick from until the site has tokens of this type
+  if (tokens.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant={activeToken ? 'secondary' : 'ghost'}
+              size="sm"
+              disabled={disabled}
+            >
+              <Icon name="swatch" />
+            </Button>
+          </DropdownMenuTrigger>
+        </TooltipTrigger>
+        <TooltipContent>{activeToken ? activeToken.name : 'Use token'}</TooltipContent>
+      </Tooltip>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>{type === 'spacing' ? 'Spacing tokens' : 'Font size tokens'}</DropdownMenuLabel>
+        {tokens.map((token) => (
+          <DropdownMenuItem
+            key={token.id}
+            onSelect={() => onSelect(getDesignTokenValue(token))}
+          >
+            <span className="flex-1">{token.name}</span>
+            <span className="text-muted-foreground text-xs">{token.value}</span>
+            {activeToken?.id === token.id && <Icon name="check" className="size-3" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
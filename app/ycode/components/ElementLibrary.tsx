@@ -155,8 +155,9 @@ const elementCategories: Record<string, string[]> = {
   Content: ['heading', 'text'],
   Actions: ['button'],
   Media: ['image', 'icon', 'video', 'audio'],
-  Form: ['form', 'input', 'textarea', 'select', 'checkbox', 'radio', 'label'],
-  Utilities: ['localeSelector', 'htmlEmbed'],
+  Form: ['form', 'input', 'textarea', 'select', 'checkbox', 'radio', 'fileUpload', 'label'],
+  Filters: ['collectionSearch', 'collectionFilter', 'collectionSort', 'siteSearch', 'searchResults'],
+  Utilities: ['slider', 'lightbox', 'map', 'localeSelector', 'colorSchemeToggle', 'htmlEmbed'],
 };
 
 /**
@@ -434,7 +435,7 @@ export default function ElementLibrary({ isOpen, onClose, defaultTab = 'elements
       }
       // Form elements use a wrapper div that should show as "Block" in the Layers panel,
       // not inherit the element type name. The child elements already show their correct names.
-      const formWrapperTypes = ['input', 'textarea', 'select', 'checkbox', 'radio'];
+      const formWrapperTypes = ['input', 'textarea', 'select', 'checkbox', 'radio', 'fileUpload'];
       const isFormWrapper = formWrapperTypes.includes(elementType);
       const newLayer = {
         ...normalizedTemplate,
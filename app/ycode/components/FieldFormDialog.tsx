@@ -35,8 +35,17 @@ import { useAssetsStore } from '@/stores/useAssetsStore';
 import RichTextEditor from './RichTextEditor';
 import CollectionLinkFieldInput from './CollectionLinkFieldInput';
 import ColorFieldInput from './ColorFieldInput';
+import GeolocationFieldInput from './GeolocationFieldInput';
+import OptionFieldInput from './OptionFieldInput';
+import FieldOptionsEditor, { validateFieldOptions } from './FieldOptionsEditor';
 import AssetFieldCard from './AssetFieldCard';
-import type { Asset, AssetCategoryFilter, CollectionField, CollectionFieldData, CollectionFieldType } from '@/types';
+import {
+  RANGE_VALIDATION_FIELD_TYPES,
+  TEXT_VALIDATION_FIELD_TYPES,
+  UNIQUE_VALIDATION_FIELD_TYPES,
+  validatePatternSource,
+} from '@/lib/field-validation-utils';
+import type { Asset, AssetCategoryFilter, CollectionField, CollectionFieldData, CollectionFieldOption, CollectionFieldType, CollectionFieldValidation } from '@/types';
 
 export interface FieldFormData {
   name: string;
@@ -46,6 +55,65 @@ export interface FieldFormData {
   data?: CollectionFieldData;
 }
 
+/** Validation rules as edited in the form (numbers and file types as text) */
+interface ValidationFormState {
+  required: boolean;
+  unique: boolean;
+  minLength: string;
+  maxLength: string;
+  min: string;
+  max: string;
+  pattern: string;
+  patternMessage: string;
+  allowedFileTypes: string;
+}
+
+function toValidationFormState(validation?: CollectionFieldValidation): ValidationFormState {
+  return {
+    required: validation?.required || false,
+    unique: validation?.unique || false,
+    minLength: validation?.minLength?.toString() ?? '',
+    maxLength: validation?.maxLength?.toString() ?? '',
+    min: validation?.min?.toString() ?? '',
+    max: validation?.max?.toString() ?? '',
+    pattern: validation?.pattern || '',
+    patternMessage: validation?.patternMessage || '',
+    allowedFileTypes: validation?.allowedFileTypes?.join(', ') || '',
+  };
+}
+
+/** Convert the form state to the rules supported by the field type (undefined when empty) */
+function toFieldValidation(state: ValidationFormState, fieldType: FieldType): CollectionFieldValidation | undefined {
+  const toNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+  const validation: CollectionFieldValidation = {};
+
+  if (state.required && fieldType !== 'boolean') validation.required = true;
+  if (state.unique && UNIQUE_VALIDATION_FIELD_TYPES.includes(fieldType)) validation.unique = true;
+
+  if (TEXT_VALIDATION_FIELD_TYPES.includes(fieldType) || fieldType === 'rich_text') {
+    validation.minLength = toNumber(state.minLength);
+    validation.maxLength = toNumber(state.maxLength);
+  }
+  if (TEXT_VALIDATION_FIELD_TYPES.includes(fieldType) && state.pattern.trim()) {
+    validation.pattern = state.pattern.trim();
+    validation.patternMessage = state.patternMessage.trim() || undefined;
+  }
+  if (RANGE_VALIDATION_FIELD_TYPES.includes(fieldType)) {
+    validation.min = toNumber(state.min);
+    validation.max = toNumber(state.max);
+  }
+  if (isAssetFieldType(fieldType)) {
+    const fileTypes = state.allowedFileTypes.split(',').map(type => type.trim()).filter(Boolean);
+    if (fileTypes.length > 0) validation.allowedFileTypes = fileTypes;
+  }
+
+  const rules = Object.fromEntries(
+    Object.entries(validation).filter(([, value]) => value !== undefined)
+  ) as CollectionFieldValidation;
+
+  return Object.keys(rules).length > 0 ? rules : undefined;
+}
+
 interface FieldFormDialogProps {
   /** null = create mode, CollectionField = edit mode */
   field?: CollectionField | null;
@@ -79,7 +147,9 @@ export default function FieldFormDialog({
   const [fieldDefault, setFieldDefault] = useState('');
   const [referenceCollectionId, setReferenceCollectionId] = useState<string | null>(null);
   const [fieldMultiple, setFieldMultiple] = useState(false);
+  const [fieldOptions, setFieldOptions] = useState<CollectionFieldOption[]>([]);
   const [hasChangedType, setHasChangedType] = useState(false);
+  const [validation, setValidation] = useState<ValidationFormState>(() => toValidationFormState());
 
   // Stores
   const { collections } = useCollectionsStore();
@@ -107,8 +177,21 @@ export default function FieldFormDialog({
   // Derived flags
   const isReferenceType = fieldType === 'reference' || fieldType === 'multi_reference';
   const isAssetType = ASSET_FIELD_TYPES.includes(fieldType);
+  const isOptionType = fieldType === 'option';
   const hasDefault = supportsDefaultValue(fieldType);
-  const isSubmitDisabled = !fieldName.trim() || (isReferenceType && !referenceCollectionId);
+  const supportsLength = TEXT_VALIDATION_FIELD_TYPES.includes(fieldType) || fieldType === 'rich_text';
+  const supportsPattern = TEXT_VALIDATION_FIELD_TYPES.includes(fieldType);
+  const supportsRange = RANGE_VALIDATION_FIELD_TYPES.includes(fieldType);
+  const supportsUnique = UNIQUE_VALIDATION_FIELD_TYPES.includes(fieldType);
+  const patternError = supportsPattern && validation.pattern.trim()
+    ? validatePatternSource(validation.pattern.trim())
+    : null;
+  const optionsError = isOptionType ? validateFieldOptions(fieldOptions) : null;
+  const isSubmitDisabled = !fieldName.trim() || (isReferenceType && !referenceCollectionId) || !!patternError || !!optionsError;
+
+  const updateValidation = (updates: Partial<ValidationFormState>) => {
+    setValidation((prev) => ({ ...prev, ...updates }));
+  };
 
   // Reset form when dialog opens
   useEffect(() => {
@@ -120,12 +203,16 @@ export default function FieldFormDialog({
       setFieldDefault(field.default || '');
       setReferenceCollectionId(field.reference_collection_id || null);
       setFieldMultiple(field.data?.multiple || false);
+      setFieldOptions(field.data?.options || []);
+      setValidation(toValidationFormState(field.data?.validation));
     } else {
       setFieldName('');
       setFieldType('text');
       setFieldDefault('');
       setReferenceCollectionId(null);
       setFieldMultiple(false);
+      setFieldOptions([]);
+      setValidation(toValidationFormState());
     }
     setHasChangedType(false);
   }, [open, field]);
@@ -137,12 +224,12 @@ export default function FieldFormDialog({
     }
   }, [isReferenceType, hasChangedType]);
 
-  // Clear multiple setting when switching away from asset types
+  // Clear multiple setting when switching away from asset and option types
   useEffect(() => {
-    if (hasChangedType && !isAssetType) {
+    if (hasChangedType && !isAssetType && !isOptionType) {
       setFieldMultiple(false);
     }
-  }, [isAssetType, hasChangedType]);
+  }, [isAssetType, isOptionType, hasChangedType]);
 
   // Clear/reset default value when switching types
   useEffect(() => {
@@ -160,13 +247,20 @@ export default function FieldFormDialog({
   const handleSubmit = async () => {
     if (!fieldName.trim()) return;
     if (isReferenceType && !referenceCollectionId) return;
+    if (patternError || optionsError) return;
 
     await onSubmit({
       name: fieldName.trim(),
       type: fieldType,
       default: fieldDefault,
       reference_collection_id: isReferenceType ? referenceCollectionId : null,
-      data: isAssetType ? { multiple: fieldMultiple } : undefined,
+      data: {
+        ...((isAssetType || isOptionType) && { multiple: fieldMultiple }),
+        ...(isOptionType && {
+          options: fieldOptions.map(option => ({ ...option, label: option.label.trim(), value: option.value.trim() })),
+        }),
+        validation: toFieldValidation(validation, fieldType),
+      },
     });
   };
 
@@ -266,8 +360,24 @@ export default function FieldFormDialog({
             </div>
           )}
 
-          {/* Multiple files toggle */}
-          {isAssetType && (
+          {/* Option choices */}
+          {isOptionType && (
+            <div className="grid grid-cols-5 items-start gap-4">
+              <Label className="text-right mt-2">
+                Options
+              </Label>
+              <div className="col-span-4">
+                <FieldOptionsEditor
+                  key={stableField?.id || 'new'}
+                  options={fieldOptions}
+                  onChange={setFieldOptions}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Multiple files/options toggle */}
+          {(isAssetType || isOptionType) && (
             <div className="grid grid-cols-5 items-center gap-4">
               <Label htmlFor="field-multiple" className="text-right">
                 Multiple
@@ -283,7 +393,7 @@ export default function FieldFormDialog({
                   htmlFor="field-multiple"
                   className="text-xs text-muted-foreground font-normal cursor-pointer"
                 >
-                  Allows multiple files
+                  {isOptionType ? 'Allows multiple options' : 'Allows multiple files'}
                 </Label>
               </div>
             </div>
@@ -330,6 +440,18 @@ export default function FieldFormDialog({
                     value={fieldDefault}
                     onChange={setFieldDefault}
                   />
+                ) : fieldType === 'geolocation' ? (
+                  <GeolocationFieldInput
+                    value={fieldDefault}
+                    onChange={setFieldDefault}
+                  />
+                ) : fieldType === 'option' ? (
+                  <OptionFieldInput
+                    options={fieldOptions.filter(option => option.value.trim())}
+                    multiple={fieldMultiple}
+                    value={fieldDefault}
+                    onChange={setFieldDefault}
+                  />
                 ) : fieldType === 'boolean' ? (
                   <div className="flex items-center gap-2 h-8">
                     <Switch
@@ -387,6 +509,116 @@ export default function FieldFormDialog({
             </div>
           )}
 
+          {/* Validation rules */}
+          <div className="grid grid-cols-5 items-start gap-4">
+            <Label className="text-right mt-2">
+              Validation
+            </Label>
+            <div className="col-span-4 flex flex-col gap-3">
+              {fieldType !== 'boolean' && (
+                <div className="flex items-center gap-2 h-8">
+                  <Switch
+                    id="field-required"
+                    checked={validation.required}
+                    onCheckedChange={(checked) => updateValidation({ required: checked })}
+                  />
+                  <Label
+                    htmlFor="field-required"
+                    className="text-xs text-muted-foreground font-normal cursor-pointer"
+                  >
+                    Required
+                  </Label>
+                </div>
+              )}
+
+              {supportsUnique && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="field-unique"
+                    checked={validation.unique}
+                    onCheckedChange={(checked) => updateValidation({ unique: checked })}
+                  />
+                  <Label
+                    htmlFor="field-unique"
+                    className="text-xs text-muted-foreground font-normal cursor-pointer"
+                  >
+                    Unique within the collection
+                  </Label>
+                </div>
+              )}
+
+              {supportsLength && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    value={validation.minLength}
+                    onChange={(e) => updateValidation({ minLength: e.target.value })}
+                    placeholder="Min length"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={validation.maxLength}
+                    onChange={(e) => updateValidation({ maxLength: e.target.value })}
+                    placeholder="Max length"
+                  />
+                </div>
+              )}
+
+              {supportsRange && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="number"
+                    value={validation.min}
+                    onChange={(e) => updateValidation({ min: e.target.value })}
+                    placeholder="Min value"
+                  />
+                  <Input
+                    type="number"
+                    value={validation.max}
+                    onChange={(e) => updateValidation({ max: e.target.value })}
+                    placeholder="Max value"
+                  />
+                </div>
+              )}
+
+              {supportsPattern && (
+                <div className="flex flex-col gap-2">
+                  <Input
+                    value={validation.pattern}
+                    onChange={(e) => updateValidation({ pattern: e.target.value })}
+                    placeholder="Pattern (regular expression), e.g. ^[A-Z]{3}-\d+$"
+                    aria-invalid={!!patternError}
+                  />
+                  {patternError && (
+                    <p className="text-xs text-destructive">{patternError}</p>
+                  )}
+                  {validation.pattern.trim() && (
+                    <Input
+                      value={validation.patternMessage}
+                      onChange={(e) => updateValidation({ patternMessage: e.target.value })}
+                      placeholder="Error message when the pattern doesn't match"
+                    />
+                  )}
+                </div>
+              )}
+
+              {isAssetType && (
+                <div className="flex flex-col gap-1">
+                  <Input
+                    value={validation.allowedFileTypes}
+                    onChange={(e) => updateValidation({ allowedFileTypes: e.target.value })}
+                    placeholder="Allowed file types, e.g. pdf, image/*"
+                  />
+                  <span className="text-[10px] text-muted-foreground">
+                    Comma-separated extensions or MIME types. Leave empty to allow all.
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="flex justify-end gap-2 mt-2">
             <Button
               variant="secondary"
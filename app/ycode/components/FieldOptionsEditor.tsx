@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * FieldOptionsEditor Component
+ *
+ * Manages the choices of an option field (label, value and color) in the field dialog.
+ * Values are generated from labels until they are edited, and must be unique.
+ */
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import Icon from '@/components/ui/icon';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { getOptionValueFromLabel } from '@/lib/option-field-utils';
+import type { CollectionFieldOption } from '@/types';
+
+/** Preset colors for options */
+const OPTION_COLORS = [
+  '#6b7280', '#ef4444', '#f97316', '#eab308', '#22c55e',
+  '#14b8a6', '#3b82f6', '#6366f1', '#a855f7', '#ec4899',
+];
+
+interface FieldOptionsEditorProps {
+  options: CollectionFieldOption[];
+  onChange: (options: CollectionFieldOption[]) => void;
+}
+
+/**
+ * Find the error of a list of options (empty or duplicate values)
+ * @returns Error message, or null when valid
+ */
+export function validateFieldOptions(options: CollectionFieldOption[]): string | null {
+  if (options.some(option => !option.label.trim() || !option.value.trim())) {
+    return 'Options need a label and a value';
+  }
+  const values = options.map(option => option.value.trim());
+  if (new Set(values).size !== values.length) {
+    return 'Option values must be unique';
+  }
+  return null;
+}
+
+function OptionColorPicker({ color, onChange }: { color?: string; onChange: (color?: string) => void }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="size-8 shrink-0 flex items-center justify-center rounded-lg bg-input hover:bg-input/60"
+          aria-label="Option color"
+        >
+          <span
+            className={cn('size-3 rounded-full', !color && 'border border-dashed border-muted-foreground')}
+            style={color ? { backgroundColor: color } : undefined}
+          />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2" align="start">
+        <div className="grid grid-cols-5 gap-1.5">
+          {OPTION_COLORS.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              className={cn('size-6 rounded-md ring-offset-1 ring-offset-background', color === preset && 'ring-2 ring-ring')}
+              style={{ backgroundColor: preset }}
+              onClick={() => { onChange(preset); setOpen(false); }}
+              aria-label={preset}
+            />
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="xs"
+          className="w-full mt-2"
+          onClick={() => { onChange(undefined); setOpen(false); }}
+        >
+          No color
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function FieldOptionsEditor({ options, onChange }: FieldOptionsEditorProps) {
+  // Values that were edited by hand (no longer follow the label)
+  const [customValues, setCustomValues] = useState<Set<number>>(() => new Set(options.map((_, index) => index)));
+
+  const updateOption = (index: number, updates: Partial<CollectionFieldOption>) => {
+    onChange(options.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+  };
+
+  const handleLabelChange = (index: number, label: string) => {
+    updateOption(index, customValues.has(index) ? { label } : { label, value: getOptionValueFromLabel(label) });
+  };
+
+  const handleValueChange = (index: number, value: string) => {
+    setCustomValues(prev => new Set(prev).add(index));
+    updateOption(index, { value });
+  };
+
+  const handleAdd = () => {
+    onChange([...options, { label: '', value: '', color: OPTION_COLORS[options.length % OPTION_COLORS.length] }]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(options.filter((_, i) => i !== index));
+    // Shift the indexes of custom values after the removed option
+    setCustomValues(prev => new Set(
+      Array.from(prev).filter(i => i !== index).map(i => (i > index ? i - 1 : i))
+    ));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= options.length) return;
+    const reordered = [...options];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+    setCustomValues(prev => new Set(
+      Array.from(prev).map(i => (i === index ? target : i === target ? index : i))
+    ));
+  };
+
+  const error = validateFieldOptions(options);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {options.map((option, index) => (
+        <div key={index} className="flex items-center gap-1.5">
+          <OptionColorPicker
+            color={option.color}
+            onChange={(color) => updateOption(index, { color })}
+          />
+          <Input
+            value={option.label}
+            onChange={(e) => handleLabelChange(index, e.target.value)}
+            placeholder="Label"
+          />
+          <Input
+            value={option.value}
+            onChange={(e) => handleValueChange(index, e.target.value)}
+            placeholder="Value"
+            className="font-mono"
+          />
+          <div className="flex shrink-0">
+            <Button
+              type="button"
+              variant="ghost"
+              size="xs"
+              onClick={() => handleMove(index, -1)}
+              disabled={index === 0}
+            >
+              <Icon name="chevronRight" className="-rotate-90" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="xs"
+              onClick={() => handleRemove(index)}
+            >
+              <Icon name="x" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {options.length > 0 && error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        className="w-fit"
+        onClick={handleAdd}
+      >
+        <Icon name="plus" className="size-3" />
+        Add option
+      </Button>
+    </div>
+  );
+}
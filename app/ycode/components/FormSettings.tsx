@@ -88,12 +88,33 @@ export default function FormSettings({ layer, onLayerUpdate }: FormSettingsProps
     [layer, onLayerUpdate]
   );
 
+  const handleSpamProtectionChange = useCallback(
+    (key: keyof NonNullable<FormSettingsType['spam_protection']>, value: any) => {
+      if (!layer) return;
+
+      onLayerUpdate(layer.id, {
+        settings: {
+          ...layer.settings,
+          form: {
+            ...layer.settings?.form,
+            spam_protection: {
+              ...layer.settings?.form?.spam_protection,
+              [key]: value,
+            },
+          },
+        },
+      });
+    },
+    [layer, onLayerUpdate]
+  );
+
   // Only show for form layers
   if (!layer || layer.name !== 'form') {
     return null;
   }
 
   const emailNotification = formSettings.email_notification || { enabled: false, to: '' };
+  const spamProtection = formSettings.spam_protection || {};
 
   return (
     <SettingsPanel
@@ -205,6 +226,63 @@ export default function FormSettings({ layer, onLayerUpdate }: FormSettingsProps
           </div>
 
         </div>
+
+        {/* Spam Protection Section */}
+        <div className="flex flex-col gap-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1.5">
+              <Label htmlFor="spam-honeypot" className="text-xs">
+                Honeypot field
+              </Label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Icon name="info" className="size-3 opacity-70" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  Adds a hidden field that only bots fill in
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="spam-honeypot"
+              checked={spamProtection.honeypot ?? false}
+              onCheckedChange={(checked) => handleSpamProtectionChange('honeypot', checked)}
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="spam-min-time" className="text-xs font-normal">
+              Minimum time to submit (seconds)
+            </Label>
+            <Input
+              id="spam-min-time"
+              type="number"
+              min={0}
+              value={spamProtection.min_submit_seconds ?? ''}
+              onChange={(e) => handleSpamProtectionChange('min_submit_seconds', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+              placeholder="0"
+              className="text-xs"
+            />
+          </div>
+
+          <div className="flex flex-col gap-1.5">
+            <Label htmlFor="spam-rate-limit" className="text-xs font-normal">
+              Submissions per IP per hour
+            </Label>
+            <Input
+              id="spam-rate-limit"
+              type="number"
+              min={0}
+              value={spamProtection.rate_limit ?? ''}
+              onChange={(e) => handleSpamProtectionChange('rate_limit', e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+              placeholder="No limit"
+              className="text-xs"
+            />
+            <p className="text-[10px] text-muted-foreground">
+              Flagged submissions are kept as spam and don&apos;t trigger notifications
+            </p>
+          </div>
+        </div>
       </div>
     </SettingsPanel>
   );
@@ -0,0 +1,96 @@
+'use client';
+
+/**
+ * GeolocationFieldInput Component
+ *
+ * Latitude, longitude and label inputs for geolocation collection fields.
+ * Stores the value as JSON ({"lat":..,"lng":..,"label":..}), or an empty
+ * string when the coordinates are cleared.
+ */
+
+import React, { useState, useEffect } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { isValidCoordinates, parseGeolocationValue, stringifyGeolocationValue } from '@/lib/geolocation-utils';
+
+interface GeolocationFieldInputProps {
+  value: unknown;
+  onChange: (value: string) => void;
+}
+
+interface GeolocationDraft {
+  lat: string;
+  lng: string;
+  label: string;
+}
+
+function toDraft(value: unknown): GeolocationDraft {
+  const geolocation = parseGeolocationValue(value);
+  return {
+    lat: geolocation ? String(geolocation.lat) : '',
+    lng: geolocation ? String(geolocation.lng) : '',
+    label: geolocation?.label || '',
+  };
+}
+
+export default function GeolocationFieldInput({ value, onChange }: GeolocationFieldInputProps) {
+  // Keep typed text locally so partial input (e.g. "52.") isn't reformatted
+  const [draft, setDraft] = useState<GeolocationDraft>(() => toDraft(value));
+
+  useEffect(() => {
+    const geolocation = parseGeolocationValue(value);
+    setDraft((prev) => {
+      const current = parseGeolocationValue({ lat: prev.lat, lng: prev.lng, label: prev.label });
+      const isSame = current && geolocation
+        ? current.lat === geolocation.lat && current.lng === geolocation.lng && current.label === geolocation.label
+        : !current && !geolocation;
+      return isSame ? prev : toDraft(value);
+    });
+  }, [value]);
+
+  const handleChange = (updates: Partial<GeolocationDraft>) => {
+    const next = { ...draft, ...updates };
+    setDraft(next);
+
+    if (!next.lat.trim() && !next.lng.trim()) {
+      onChange('');
+      return;
+    }
+
+    const lat = parseFloat(next.lat);
+    const lng = parseFloat(next.lng);
+    if (isValidCoordinates(lat, lng)) {
+      onChange(stringifyGeolocationValue({ lat, lng, label: next.label.trim() || undefined }));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          type="number"
+          step="any"
+          min={-90}
+          max={90}
+          value={draft.lat}
+          onChange={(e) => handleChange({ lat: e.target.value })}
+          placeholder="Latitude"
+        />
+        <Input
+          type="number"
+          step="any"
+          min={-180}
+          max={180}
+          value={draft.lng}
+          onChange={(e) => handleChange({ lng: e.target.value })}
+          placeholder="Longitude"
+        />
+      </div>
+      <Input
+        value={draft.label}
+        onChange={(e) => handleChange({ label: e.target.value })}
+        placeholder="Label (e.g. address)"
+      />
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import SettingsPanel from './SettingsPanel';
+import { DEFAULT_FORM_FILE_MAX_SIZE_MB, MAX_FORM_FILE_SIZE_MB } from '@/lib/form-utils';
 import type { Layer } from '@/types';
 
 interface InputSettingsProps {
@@ -39,6 +40,7 @@ const INPUT_TYPES = [
   { value: 'date', label: 'Date' },
   { value: 'datetime-local', label: 'Date and time' },
   { value: 'range', label: 'Range' },
+  { value: 'file', label: 'File upload' },
 ];
 
 export default function InputSettings({ layer, onLayerUpdate }: InputSettingsProps) {
@@ -54,6 +56,7 @@ export default function InputSettings({ layer, onLayerUpdate }: InputSettingsPro
   const isCheckboxInput = isInputLayer && layer?.attributes?.type === 'checkbox';
   const isRadioInput = isInputLayer && layer?.attributes?.type === 'radio';
   const isCheckboxOrRadio = isCheckboxInput || isRadioInput;
+  const isFileInput = isInputLayer && layer?.attributes?.type === 'file';
 
   // Get current attribute values
   const attributes = layer?.attributes || {};
@@ -63,14 +66,17 @@ export default function InputSettings({ layer, onLayerUpdate }: InputSettingsPro
   const name = attributes.name || '';
   const isRequired = attributes.required === true || attributes.required === 'true';
   const isAutofocus = attributes.autofocus === true || attributes.autofocus === 'true';
+  const isMultiple = attributes.multiple === true || attributes.multiple === 'true';
+  const accept = attributes.accept || '';
+  const maxSize = attributes['data-max-size'] || '';
 
   const handleAttributeChange = useCallback(
     (key: string, newValue: any) => {
       if (!layer) return;
 
-      // Handle boolean attributes (required, autofocus)
+      // Handle boolean attributes (required, autofocus, multiple)
       // If false/unchecked, remove the attribute entirely
-      if (key === 'required' || key === 'autofocus') {
+      if (key === 'required' || key === 'autofocus' || key === 'multiple') {
         const newAttributes = { ...layer.attributes };
         if (newValue) {
           newAttributes[key] = true;
@@ -220,8 +226,38 @@ export default function InputSettings({ layer, onLayerUpdate }: InputSettingsPro
               </div>
             )}
 
+            {/* File upload limits - enforced when the form is submitted */}
+            {isFileInput && (
+              <>
+                <div className="grid grid-cols-3">
+                  <Label variant="muted">Allowed types</Label>
+                  <div className="col-span-2 *:w-full">
+                    <Input
+                      value={accept}
+                      onChange={(e) => handleAttributeChange('accept', e.target.value)}
+                      placeholder="e.g., image/*, .pdf"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3">
+                  <Label variant="muted">Max size (MB)</Label>
+                  <div className="col-span-2 *:w-full">
+                    <Input
+                      type="number"
+                      min={1}
+                      max={MAX_FORM_FILE_SIZE_MB}
+                      value={maxSize}
+                      onChange={(e) => handleAttributeChange('data-max-size', e.target.value)}
+                      placeholder={String(DEFAULT_FORM_FILE_MAX_SIZE_MB)}
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
             {/* Placeholder - for input and textarea */}
-            {(isInputLayer || isTextareaLayer) && (
+            {!isFileInput && (isInputLayer || isTextareaLayer) && (
               <div className="grid grid-cols-3">
                 <Label variant="muted">Placeholder</Label>
                 <div className="col-span-2 *:w-full">
@@ -235,7 +271,7 @@ export default function InputSettings({ layer, onLayerUpdate }: InputSettingsPro
             )}
 
             {/* Value - default value for the input */}
-            {(isInputLayer || isTextareaLayer) && (
+            {!isFileInput && (isInputLayer || isTextareaLayer) && (
               <div className="grid grid-cols-3">
                 <Label variant="muted">Value</Label>
                 <div className="col-span-2 *:w-full">
@@ -278,6 +314,21 @@ export default function InputSettings({ layer, onLayerUpdate }: InputSettingsPro
                     Autofocus
                   </Label>
                 </div>
+                {isFileInput && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="multiple"
+                      checked={isMultiple}
+                      onCheckedChange={(checked) => handleAttributeChange('multiple', checked)}
+                    />
+                    <Label
+                      htmlFor="multiple"
+                      className="text-xs font-normal cursor-pointer"
+                    >
+                      Allow multiple files
+                    </Label>
+                  </div>
+                )}
               </div>
             </div>
           </>
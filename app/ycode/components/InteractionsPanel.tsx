@@ -71,7 +71,7 @@ import type { TriggerType, PropertyType } from '@/lib/animation-utils';
 
 // 4. Types
 import type { Layer, LayerInteraction, InteractionTimeline, InteractionTween, TweenProperties, Breakpoint } from '@/types';
-import { BREAKPOINTS, BREAKPOINT_VALUES } from '@/lib/breakpoint-utils';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
 import { Badge } from '@/components/ui/badge';
 
 interface InteractionsPanelProps {
@@ -200,6 +200,7 @@ export default function InteractionsPanel({
   onStateChange,
   onSelectLayer,
 }: InteractionsPanelProps) {
+  const breakpoints = useBreakpoints();
   const [selectedInteractionId, setSelectedInteractionId] = useState<string | null>(null);
   const [selectedTweenId, setSelectedTweenId] = useState<string | null>(null);
   const previewedElementRef = React.useRef<{ layerId: string; element: HTMLElement; originalStyle: string; wasHidden: boolean } | null>(null);
@@ -795,7 +796,7 @@ export default function InteractionsPanel({
         id: generateId('int'),
         trigger,
         timeline: {
-          breakpoints: [...BREAKPOINT_VALUES], // All breakpoints by default
+          breakpoints: breakpoints.map((bp) => bp.value), // All breakpoints by default
           repeat: 0,
           yoyo: false,
           // Add scroll-specific defaults
@@ -816,7 +817,7 @@ export default function InteractionsPanel({
       onLayerUpdate(triggerLayer.id, { interactions: updatedInteractions });
       setSelectedInteractionId(newInteraction.id);
     },
-    [interactions, triggerLayer.id, onLayerUpdate]
+    [interactions, triggerLayer.id, onLayerUpdate, breakpoints]
   );
 
   // Remove interaction
@@ -1197,17 +1198,17 @@ export default function InteractionsPanel({
                       className="w-full justify-between"
                     >
                       <span>
-                        {(selectedInteraction.timeline?.breakpoints?.length ?? 0) === BREAKPOINTS.length
+                        {breakpoints.every(bp => selectedInteraction.timeline?.breakpoints?.includes(bp.value))
                           ? 'All breakpoints'
                           : selectedInteraction.timeline?.breakpoints
-                            ?.map(bp => BREAKPOINTS.find(b => b.value === bp)?.label || bp)
+                            ?.map(bp => breakpoints.find(b => b.value === bp)?.label || bp)
                             .join(', ') || 'No breakpoints'}
                       </span>
                       <Icon name="chevronCombo" className="size-3 opacity-50" />
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-40">
-                    {BREAKPOINTS.map((bp) => (
+                    {breakpoints.map((bp) => (
                       <DropdownMenuCheckboxItem
                         key={bp.value}
                         checked={selectedInteraction.timeline?.breakpoints?.includes(bp.value) ?? false}
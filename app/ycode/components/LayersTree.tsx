@@ -1353,7 +1353,7 @@ export default function LayersTree({
           newParentId!,
           activeNode.id,
           newOrder,
-          activeBreakpoint as 'tablet' | 'mobile'
+          activeBreakpoint
         );
       } else {
         // Standard DOM structure change (affects all breakpoints)
@@ -1789,9 +1789,9 @@ function applyResponsiveOrderClasses(
   parentId: string,
   movedChildId: string,
   newIndex: number,
-  breakpoint: 'tablet' | 'mobile'
+  breakpoint: Breakpoint
 ): Layer[] {
-  const prefix = getBreakpointPrefix(breakpoint); // max-lg: or max-md:
+  const prefix = getBreakpointPrefix(breakpoint); // e.g. max-lg: or max-md:
 
   // Helper to normalize classes to string
   const normalizeClasses = (classes: string | string[] | undefined): string => {
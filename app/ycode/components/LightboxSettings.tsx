@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * Lightbox Settings Component
+ *
+ * Settings panel for lightbox layers: open the images/videos inside the
+ * lightbox or the files of a multi-asset CMS field, and the gallery group
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import SettingsPanel from './SettingsPanel';
+import ToggleGroup from './ToggleGroup';
+import { FieldSelectDropdown, type FieldGroup, type FieldSourceType } from './CollectionFieldSelector';
+import { getLightboxSettings } from '@/lib/lightbox-utils';
+import { filterFieldGroupsByType, flattenFieldGroups } from '@/lib/collection-field-utils';
+import type { Layer, CollectionField, CollectionFieldType, Collection, FieldVariable, LightboxSettings as LightboxSettingsValue } from '@/types';
+
+/** Field types that can be opened in a lightbox (multiple files only) */
+const LIGHTBOX_FIELD_TYPES: CollectionFieldType[] = ['image', 'video'];
+
+interface LightboxSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+  /** Field groups with labels and sources for field selection */
+  fieldGroups?: FieldGroup[];
+  allFields?: Record<string, CollectionField[]>;
+  collections?: Collection[];
+}
+
+export default function LightboxSettings({ layer, onLayerUpdate, fieldGroups, allFields, collections }: LightboxSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const lightboxFieldGroups = useMemo(() => {
+    return filterFieldGroupsByType(fieldGroups, LIGHTBOX_FIELD_TYPES, { onlyMultipleAsset: true });
+  }, [fieldGroups]);
+
+  const lightboxFields = useMemo(() => {
+    return flattenFieldGroups(lightboxFieldGroups);
+  }, [lightboxFieldGroups]);
+
+  const updateLightbox = useCallback((updates: Partial<LightboxSettingsValue>) => {
+    if (!layer) return;
+
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        lightbox: {
+          ...getLightboxSettings(layer),
+          ...updates,
+        },
+      },
+    });
+  }, [layer, onLayerUpdate]);
+
+  const handleFieldSelect = useCallback((
+    fieldId: string,
+    relationshipPath: string[],
+    source?: FieldSourceType,
+    layerId?: string
+  ) => {
+    const field = lightboxFields.find(f => f.id === fieldId);
+    const fieldVariable: FieldVariable = {
+      type: 'field',
+      data: {
+        field_id: fieldId,
+        relationships: relationshipPath,
+        field_type: field?.type || null,
+        source,
+        collection_layer_id: layerId,
+      },
+    };
+
+    updateLightbox({ field: fieldVariable });
+  }, [lightboxFields, updateLightbox]);
+
+  // Only show for lightbox layers
+  if (!layer || layer.name !== 'lightbox') {
+    return null;
+  }
+
+  const settings = getLightboxSettings(layer);
+
+  return (
+    <SettingsPanel
+      title="Lightbox"
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Source</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <div className="*:w-full">
+              <ToggleGroup
+                options={[
+                  { label: 'Elements', value: 'children' },
+                  { label: 'CMS', value: 'field' },
+                ]}
+                value={settings.source}
+                onChange={(value) => updateLightbox({ source: value as LightboxSettingsValue['source'] })}
+              />
+            </div>
+            {settings.source === 'children' && (
+              <p className="text-[10px] text-muted-foreground">
+                Images and videos inside open in the lightbox. Image alt text is used as caption.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {settings.source === 'field' && (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Field</Label>
+            <div className="col-span-2 w-full">
+              <FieldSelectDropdown
+                fieldGroups={lightboxFieldGroups}
+                allFields={allFields || {}}
+                collections={collections || []}
+                value={settings.field?.data.field_id || null}
+                onSelect={handleFieldSelect}
+                placeholder="Select a field"
+                allowedFieldTypes={LIGHTBOX_FIELD_TYPES}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Group</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <Input
+              value={settings.group || ''}
+              placeholder="gallery"
+              onChange={(e) => updateLightbox({ group: e.target.value || undefined })}
+            />
+            <p className="text-[10px] text-muted-foreground">
+              Lightboxes with the same group open as one gallery.
+            </p>
+          </div>
+        </div>
+      </div>
+    </SettingsPanel>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+/**
+ * Map Marker Settings Component
+ *
+ * Settings panel for map marker layers: static coordinates, or a geolocation
+ * CMS field when the marker is placed inside a collection layer
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import SettingsPanel from './SettingsPanel';
+import ToggleGroup from './ToggleGroup';
+import { FieldSelectDropdown, type FieldGroup, type FieldSourceType } from './CollectionFieldSelector';
+import { getMapMarkerSettings } from '@/lib/map-utils';
+import { GEOLOCATION_FIELD_TYPES, filterFieldGroupsByType, flattenFieldGroups } from '@/lib/collection-field-utils';
+import type { Layer, CollectionField, Collection, FieldVariable, MapMarkerSettings as MapMarkerSettingsValue } from '@/types';
+
+interface MapMarkerSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+  /** Field groups with labels and sources for field selection */
+  fieldGroups?: FieldGroup[];
+  allFields?: Record<string, CollectionField[]>;
+  collections?: Collection[];
+}
+
+export default function MapMarkerSettings({ layer, onLayerUpdate, fieldGroups, allFields, collections }: MapMarkerSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  const geolocationFieldGroups = useMemo(() => {
+    return filterFieldGroupsByType(fieldGroups, GEOLOCATION_FIELD_TYPES);
+  }, [fieldGroups]);
+
+  const geolocationFields = useMemo(() => {
+    return flattenFieldGroups(geolocationFieldGroups);
+  }, [geolocationFieldGroups]);
+
+  const updateMarker = useCallback((updates: Partial<MapMarkerSettingsValue>) => {
+    if (!layer) return;
+
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        mapMarker: {
+          ...getMapMarkerSettings(layer),
+          ...updates,
+        },
+      },
+    });
+  }, [layer, onLayerUpdate]);
+
+  const handleFieldSelect = useCallback((
+    fieldId: string,
+    relationshipPath: string[],
+    source?: FieldSourceType,
+    layerId?: string
+  ) => {
+    const field = geolocationFields.find(f => f.id === fieldId);
+    const fieldVariable: FieldVariable = {
+      type: 'field',
+      data: {
+        field_id: fieldId,
+        relationships: relationshipPath,
+        field_type: field?.type || null,
+        source,
+        collection_layer_id: layerId,
+      },
+    };
+
+    updateMarker({ field: fieldVariable });
+  }, [geolocationFields, updateMarker]);
+
+  // Only show for map marker layers
+  if (!layer || layer.name !== 'mapMarker') {
+    return null;
+  }
+
+  const settings = getMapMarkerSettings(layer);
+
+  const handleCoordinateChange = (key: 'latitude' | 'longitude', value: string) => {
+    const coordinate = parseFloat(value);
+    updateMarker({ [key]: isNaN(coordinate) ? undefined : coordinate });
+  };
+
+  return (
+    <SettingsPanel
+      title="Marker"
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Position</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <div className="*:w-full">
+              <ToggleGroup
+                options={[
+                  { label: 'Static', value: 'static' },
+                  { label: 'CMS', value: 'field' },
+                ]}
+                value={settings.source}
+                onChange={(value) => updateMarker({ source: value as MapMarkerSettingsValue['source'] })}
+              />
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+              {settings.source === 'field'
+                ? 'Place the marker inside a collection layer to show a marker for each item.'
+                : 'The content of the marker shows when it is clicked.'}
+            </p>
+          </div>
+        </div>
+
+        {settings.source === 'static' ? (
+          <div className="grid grid-cols-3 items-start gap-2">
+            <Label variant="muted" className="pt-2">Coordinates</Label>
+            <div className="col-span-2 grid grid-cols-2 gap-1.5">
+              <div className="flex flex-col gap-1">
+                <Input
+                  type="number"
+                  step="any"
+                  min={-90}
+                  max={90}
+                  value={settings.latitude ?? ''}
+                  onChange={(e) => handleCoordinateChange('latitude', e.target.value)}
+                />
+                <span className="text-[10px] text-muted-foreground">Latitude</span>
+              </div>
+              <div className="flex flex-col gap-1">
+                <Input
+                  type="number"
+                  step="any"
+                  min={-180}
+                  max={180}
+                  value={settings.longitude ?? ''}
+                  onChange={(e) => handleCoordinateChange('longitude', e.target.value)}
+                />
+                <span className="text-[10px] text-muted-foreground">Longitude</span>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Field</Label>
+            <div className="col-span-2 w-full">
+              <FieldSelectDropdown
+                fieldGroups={geolocationFieldGroups}
+                allFields={allFields || {}}
+                collections={collections || []}
+                value={settings.field?.data.field_id || null}
+                onSelect={handleFieldSelect}
+                placeholder="Select a field"
+                allowedFieldTypes={GEOLOCATION_FIELD_TYPES}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </SettingsPanel>
+  );
+}
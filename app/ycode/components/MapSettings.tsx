@@ -0,0 +1,260 @@
+'use client';
+
+/**
+ * Map Settings Component
+ *
+ * Settings panel for map layers: the location (static address/coordinates
+ * or a geolocation CMS field), zoom, marker and the tile provider
+ */
+
+import React, { useState, useCallback, useMemo } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import SettingsPanel from './SettingsPanel';
+import ToggleGroup from './ToggleGroup';
+import { FieldSelectDropdown, type FieldGroup, type FieldSourceType } from './CollectionFieldSelector';
+import { DEFAULT_TILE_ATTRIBUTION, DEFAULT_TILE_URL, MAX_MAP_ZOOM, MIN_MAP_ZOOM, clampMapZoom, geocodeAddress, getMapSettings } from '@/lib/map-utils';
+import { GEOLOCATION_FIELD_TYPES, filterFieldGroupsByType, flattenFieldGroups } from '@/lib/collection-field-utils';
+import { toast } from 'sonner';
+import type { Layer, CollectionField, Collection, FieldVariable, MapSettings as MapSettingsValue } from '@/types';
+
+interface MapSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+  /** Field groups with labels and sources for field selection */
+  fieldGroups?: FieldGroup[];
+  allFields?: Record<string, CollectionField[]>;
+  collections?: Collection[];
+}
+
+export default function MapSettings({ layer, onLayerUpdate, fieldGroups, allFields, collections }: MapSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const geolocationFieldGroups = useMemo(() => {
+    return filterFieldGroupsByType(fieldGroups, GEOLOCATION_FIELD_TYPES);
+  }, [fieldGroups]);
+
+  const geolocationFields = useMemo(() => {
+    return flattenFieldGroups(geolocationFieldGroups);
+  }, [geolocationFieldGroups]);
+
+  const updateMap = useCallback((updates: Partial<MapSettingsValue>) => {
+    if (!layer) return;
+
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        map: {
+          ...getMapSettings(layer),
+          ...updates,
+        },
+      },
+    });
+  }, [layer, onLayerUpdate]);
+
+  const handleFieldSelect = useCallback((
+    fieldId: string,
+    relationshipPath: string[],
+    source?: FieldSourceType,
+    layerId?: string
+  ) => {
+    const field = geolocationFields.find(f => f.id === fieldId);
+    const fieldVariable: FieldVariable = {
+      type: 'field',
+      data: {
+        field_id: fieldId,
+        relationships: relationshipPath,
+        field_type: field?.type || null,
+        source,
+        collection_layer_id: layerId,
+      },
+    };
+
+    updateMap({ field: fieldVariable });
+  }, [geolocationFields, updateMap]);
+
+  // Only show for map layers
+  if (!layer || layer.name !== 'map') {
+    return null;
+  }
+
+  const settings = getMapSettings(layer);
+
+  const handleCoordinateChange = (key: 'latitude' | 'longitude', value: string) => {
+    const coordinate = parseFloat(value);
+    if (!isNaN(coordinate)) {
+      updateMap({ [key]: coordinate });
+    }
+  };
+
+  const handleZoomChange = (value: string) => {
+    const zoom = parseInt(value, 10);
+    if (!isNaN(zoom)) {
+      updateMap({ zoom: clampMapZoom(zoom) });
+    }
+  };
+
+  const handleLocate = async () => {
+    if (!settings.address?.trim()) return;
+
+    setIsLocating(true);
+    try {
+      const location = await geocodeAddress(settings.address);
+      if (!location) {
+        toast.error('Address not found', { description: 'Try a more specific address or enter the coordinates.' });
+        return;
+      }
+      updateMap({ latitude: location.lat, longitude: location.lng });
+    } catch {
+      toast.error('Failed to look up the address');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <SettingsPanel
+      title="Map"
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Location</Label>
+          <div className="col-span-2 *:w-full">
+            <ToggleGroup
+              options={[
+                { label: 'Static', value: 'static' },
+                { label: 'CMS', value: 'field' },
+              ]}
+              value={settings.source}
+              onChange={(value) => updateMap({ source: value as MapSettingsValue['source'] })}
+            />
+          </div>
+        </div>
+
+        {settings.source === 'static' ? (
+          <>
+            <div className="grid grid-cols-3 items-center gap-2">
+              <Label variant="muted">Address</Label>
+              <div className="col-span-2 flex items-center gap-1.5">
+                <Input
+                  value={settings.address || ''}
+                  placeholder="Street, city"
+                  onChange={(e) => updateMap({ address: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleLocate()}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleLocate}
+                  disabled={!settings.address?.trim() || isLocating}
+                >
+                  Find
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 items-start gap-2">
+              <Label variant="muted" className="pt-2">Coordinates</Label>
+              <div className="col-span-2 grid grid-cols-2 gap-1.5">
+                <div className="flex flex-col gap-1">
+                  <Input
+                    type="number"
+                    step="any"
+                    min={-90}
+                    max={90}
+                    value={settings.latitude}
+                    onChange={(e) => handleCoordinateChange('latitude', e.target.value)}
+                  />
+                  <span className="text-[10px] text-muted-foreground">Latitude</span>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <Input
+                    type="number"
+                    step="any"
+                    min={-180}
+                    max={180}
+                    value={settings.longitude}
+                    onChange={(e) => handleCoordinateChange('longitude', e.target.value)}
+                  />
+                  <span className="text-[10px] text-muted-foreground">Longitude</span>
+                </div>
+              </div>
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Field</Label>
+            <div className="col-span-2 w-full">
+              <FieldSelectDropdown
+                fieldGroups={geolocationFieldGroups}
+                allFields={allFields || {}}
+                collections={collections || []}
+                value={settings.field?.data.field_id || null}
+                onSelect={handleFieldSelect}
+                placeholder="Select a field"
+                allowedFieldTypes={GEOLOCATION_FIELD_TYPES}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Zoom</Label>
+          <div className="col-span-2">
+            <Input
+              type="number"
+              min={MIN_MAP_ZOOM}
+              max={MAX_MAP_ZOOM}
+              value={settings.zoom}
+              onChange={(e) => handleZoomChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Marker</Label>
+          <div className="col-span-2 flex items-center gap-2">
+            <Switch
+              id="map-show-marker"
+              checked={settings.showMarker}
+              onCheckedChange={(checked) => updateMap({ showMarker: checked })}
+            />
+            <Label
+              variant="muted"
+              htmlFor="map-show-marker"
+              className="cursor-pointer"
+            >
+              Show at location
+            </Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Tiles</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <Input
+              value={settings.tileUrl || ''}
+              placeholder={DEFAULT_TILE_URL}
+              onChange={(e) => updateMap({ tileUrl: e.target.value || undefined })}
+            />
+            <Input
+              value={settings.attribution || ''}
+              placeholder={settings.tileUrl ? 'Attribution' : DEFAULT_TILE_ATTRIBUTION}
+              onChange={(e) => updateMap({ attribution: e.target.value || undefined })}
+            />
+            <p className="text-[10px] text-muted-foreground">
+              OpenStreetMap-compatible URL with {'{z}'}, {'{x}'} and {'{y}'}, e.g. for self-hosted tiles.
+            </p>
+          </div>
+        </div>
+      </div>
+    </SettingsPanel>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+/**
+ * OptionFieldInput Component
+ *
+ * Input for option collection fields: a select for single choice fields,
+ * or a list of toggleable choices for fields that allow multiple options.
+ * Stores the option value, or a JSON array of values for multiple options.
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { parseOptionValues } from '@/lib/option-field-utils';
+import type { CollectionFieldOption } from '@/types';
+
+/** Value of the select item that clears a single choice */
+const NO_OPTION = '__none__';
+
+interface OptionFieldInputProps {
+  options: CollectionFieldOption[];
+  /** Allow selecting multiple options */
+  multiple?: boolean;
+  value: unknown;
+  onChange: (value: string) => void;
+}
+
+/** Option label with its color */
+export function OptionBadge({ option, className }: { option: CollectionFieldOption; className?: string }) {
+  return (
+    <span className={cn('inline-flex items-center gap-1.5 rounded-md bg-secondary px-1.5 py-0.5 text-xs', className)}>
+      {option.color && (
+        <span className="size-2 shrink-0 rounded-full" style={{ backgroundColor: option.color }} />
+      )}
+      <span className="truncate">{option.label}</span>
+    </span>
+  );
+}
+
+/**
+ * Multi-select dropdown of options for is_one_of/is_not_one_of conditions
+ */
+export function OptionValuesSelector({
+  options,
+  value,
+  onChange,
+}: {
+  options: CollectionFieldOption[];
+  value: string; // JSON array of option values
+  onChange: (value: string) => void;
+}) {
+  const selectedValues = parseOptionValues(value);
+
+  const handleToggle = (optionValue: string) => {
+    const newSelectedValues = selectedValues.includes(optionValue)
+      ? selectedValues.filter(v => v !== optionValue)
+      : [...selectedValues, optionValue];
+    onChange(JSON.stringify(newSelectedValues));
+  };
+
+  const getDisplayText = () => {
+    if (selectedValues.length === 0) return 'Select options...';
+
+    const selectedLabels = selectedValues.map(v => options.find(option => option.value === v)?.label || v);
+    return selectedLabels.length <= 2
+      ? selectedLabels.join(', ')
+      : `${selectedLabels.length} options selected`;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="input"
+          size="sm"
+          className="w-full justify-between font-normal"
+        >
+          <span className="truncate text-xs">{getDisplayText()}</span>
+          <Icon name="chevronCombo" className="size-2.5 opacity-50 ml-2" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-(--radix-dropdown-menu-trigger-width) min-w-50 max-h-60 overflow-y-auto" align="start">
+        {options.length === 0 ? (
+          <div className="text-center py-4 text-xs text-muted-foreground">
+            This field has no options
+          </div>
+        ) : (
+          options.map((option) => (
+            <DropdownMenuCheckboxItem
+              key={option.value}
+              checked={selectedValues.includes(option.value)}
+              onCheckedChange={() => handleToggle(option.value)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <OptionBadge option={option} className="bg-transparent px-0" />
+            </DropdownMenuCheckboxItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default function OptionFieldInput({ options, multiple = false, value, onChange }: OptionFieldInputProps) {
+  const selectedValues = parseOptionValues(value);
+
+  if (options.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This field has no options yet. Add options in the field settings.
+      </p>
+    );
+  }
+
+  if (multiple) {
+    const handleToggle = (optionValue: string) => {
+      const updated = selectedValues.includes(optionValue)
+        ? selectedValues.filter(v => v !== optionValue)
+        : [...selectedValues, optionValue];
+      // Keep the order of the field options
+      const ordered = options.map(option => option.value).filter(v => updated.includes(v));
+      onChange(ordered.length > 0 ? JSON.stringify(ordered) : '');
+    };
+
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {options.map((option) => {
+          const isSelected = selectedValues.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => handleToggle(option.value)}
+              className={cn(
+                'rounded-md ring-1 ring-transparent transition-colors',
+                isSelected ? 'ring-foreground/40' : 'opacity-50 hover:opacity-100'
+              )}
+            >
+              <OptionBadge option={option} />
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <Select
+      value={selectedValues[0] || NO_OPTION}
+      onValueChange={(selected) => onChange(selected === NO_OPTION ? '' : selected)}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select an option" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectGroup>
+          <SelectItem value={NO_OPTION}>
+            <span className="text-muted-foreground">None</span>
+          </SelectItem>
+        </SelectGroup>
+        <SelectSeparator />
+        <SelectGroup>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <span className="flex items-center gap-2">
+                {option.color && (
+                  <span className="size-2 shrink-0 rounded-full" style={{ backgroundColor: option.color }} />
+                )}
+                {option.label}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -3,14 +3,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Spinner } from '@/components/ui/spinner';
 import Icon from '@/components/ui/icon';
 import { useSettingsStore } from '@/stores/useSettingsStore';
+import { usePagesStore } from '@/stores/usePagesStore';
+import { useCollectionsStore } from '@/stores/useCollectionsStore';
 import { publishApi } from '@/lib/api';
 import { formatRelativeTime } from '@/lib/utils';
+import { formatDateInTimezone, localDatetimeToUTC } from '@/lib/date-format-utils';
 import { toast } from 'sonner';
+import type { PublishSchedule } from '@/types';
 
 interface PublishPreviewCounts {
   pages: number;
@@ -53,17 +58,77 @@ export default function PublishPopover({
   const [changeCounts, setChangeCounts] = useState<PublishPreviewCounts | null>(null);
   const [isLoadingCount, setIsLoadingCount] = useState(false);
   const [publishSuccess, setPublishSuccess] = useState(false);
+  const [schedules, setSchedules] = useState<PublishSchedule[]>([]);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [releaseName, setReleaseName] = useState('');
 
   const { getSettingByKey, updateSetting } = useSettingsStore();
   const publishedAt = getSettingByKey('published_at');
+  const timezone = useSettingsStore((state) => state.settingsByKey.timezone as string | null) ?? 'UTC';
+  const pages = usePagesStore((state) => state.pages);
+  const collections = useCollectionsStore((state) => state.collections);
 
-  // Load changes count when popover opens
+  // Load changes count and schedules when popover opens
   useEffect(() => {
     if (isOpen) {
       loadChangesCount();
+      loadSchedules();
     }
   }, [isOpen]);
 
+  const loadSchedules = async () => {
+    const response = await publishApi.getSchedules();
+    setSchedules(response.data ?? []);
+  };
+
+  const handleSchedulePublish = async () => {
+    const scheduledAt = localDatetimeToUTC(scheduleAt, timezone);
+    if (!scheduledAt) return;
+
+    setIsScheduling(true);
+    try {
+      const result = await publishApi.createSchedule({
+        action: 'publish',
+        target_type: 'site',
+        scheduled_at: scheduledAt,
+      });
+
+      if (result.error) {
+        toast.error('Failed to schedule publish', { description: result.error });
+        return;
+      }
+
+      toast.success(`Publish scheduled for ${formatDateInTimezone(scheduledAt, timezone)}`);
+      setScheduleAt('');
+      loadSchedules();
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleCancelSchedule = async (scheduleId: string) => {
+    const result = await publishApi.cancelSchedule(scheduleId);
+    if (result.error) {
+      toast.error('Failed to cancel schedule', { description: result.error });
+    }
+    loadSchedules();
+  };
+
+  /** Human-readable description of what a schedule does */
+  const getScheduleLabel = (schedule: PublishSchedule): string => {
+    if (schedule.target_type === 'site') {
+      return 'Publish website';
+    }
+    if (schedule.target_type === 'page') {
+      const page = pages.find(p => p.id === schedule.target_id);
+      return `Publish ${page ? `"${page.name}"` : 'page'}`;
+    }
+    const collection = collections.find(c => c.id === schedule.collection_id);
+    const verb = schedule.action === 'publish' ? 'Publish' : 'Unpublish';
+    return `${verb} ${collection ? `${collection.name} item` : 'item'}`;
+  };
+
   const loadChangesCount = async () => {
     setIsLoadingCount(true);
     try {
@@ -81,7 +146,10 @@ export default function PublishPopover({
     try {
       setIsPublishing(true);
 
-      const result = await publishApi.publish({ publishAll: true });
+      const result = await publishApi.publish({
+        publishAll: true,
+        releaseName: releaseName.trim() || undefined,
+      });
 
       if (result.error) {
         throw new Error(result.error);
@@ -101,6 +169,7 @@ export default function PublishPopover({
 
       setPublishSuccess(true);
       setTimeout(() => setPublishSuccess(false), 3000);
+      setReleaseName('');
 
       // Refresh counts in background (non-blocking)
       onPublishSuccess();
@@ -110,7 +179,7 @@ export default function PublishPopover({
     } finally {
       setIsPublishing(false);
     }
-  }, [baseUrl, publishedUrl, onPublishSuccess, setIsPublishing, updateSetting]);
+  }, [baseUrl, publishedUrl, releaseName, onPublishSuccess, setIsPublishing, updateSetting]);
 
   return (
     <Popover open={isOpen} onOpenChange={setIsOpen}>
@@ -136,6 +205,14 @@ export default function PublishPopover({
 
         <hr className="my-3" />
 
+        <Input
+          value={releaseName}
+          onChange={(e) => setReleaseName(e.target.value)}
+          placeholder="Release name (optional)"
+          className="h-8 text-xs mb-2"
+          disabled={isPublishing}
+        />
+
         <Button
           size="sm"
           className="w-full"
@@ -151,6 +228,59 @@ export default function PublishPopover({
           )}
         </Button>
 
+        <Collapsible className="mt-2">
+          <CollapsibleTrigger className="flex items-center justify-between w-full text-xs text-muted-foreground hover:text-foreground transition-colors group">
+            <span className="flex items-center gap-1.5">
+              <div className="size-[22px] flex items-center justify-center bg-input rounded-md">
+                <Icon name="calendar" className="size-2.5" />
+              </div>
+              Schedule
+              {schedules.length > 0 && ` (${schedules.length})`}
+            </span>
+            <Icon
+              name="chevronRight"
+              className="size-2.5 transition-transform group-data-[state=open]:rotate-90"
+            />
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <div className="flex flex-col gap-2 pt-2">
+              <div className="flex items-center gap-1.5">
+                <Input
+                  type="datetime-local"
+                  value={scheduleAt}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  className="h-8 text-xs"
+                />
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={handleSchedulePublish}
+                  disabled={!scheduleAt || isScheduling}
+                >
+                  {isScheduling ? <Spinner /> : 'Schedule'}
+                </Button>
+              </div>
+
+              {schedules.map((schedule) => (
+                <div key={schedule.id} className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <div className="flex flex-col min-w-0">
+                    <span className="truncate text-foreground">{getScheduleLabel(schedule)}</span>
+                    <span className="text-[10px]">{formatDateInTimezone(schedule.scheduled_at, timezone)}</span>
+                  </div>
+                  <Button
+                    size="xs"
+                    variant="ghost"
+                    onClick={() => handleCancelSchedule(schedule.id)}
+                    aria-label="Cancel schedule"
+                  >
+                    <Icon name="x" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CollapsibleContent>
+        </Collapsible>
+
         <hr className="my-3" />
 
         {isLoadingCount ? (
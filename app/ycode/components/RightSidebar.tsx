@@ -20,6 +20,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectLabel, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 
 // 4. Internal components
@@ -37,6 +38,12 @@ import IconSettings from './IconSettings';
 import FormSettings from './FormSettings';
 import AlertSettings from './AlertSettings';
 import HTMLEmbedSettings from './HTMLEmbedSettings';
+import SliderSettings from './SliderSettings';
+import LightboxSettings from './LightboxSettings';
+import MapSettings from './MapSettings';
+import MapMarkerSettings from './MapMarkerSettings';
+import CollectionControlSettings from './CollectionControlSettings';
+import SiteSearchSettings from './SiteSearchSettings';
 import InputSettings from './InputSettings';
 import SelectOptionsSettings from './SelectOptionsSettings';
 import LabelSettings from './LabelSettings';
@@ -70,7 +77,7 @@ import { classesToDesign, mergeDesign, removeConflictsForClass, getRemovedProper
 import { cn } from '@/lib/utils';
 import { sanitizeHtmlId } from '@/lib/html-utils';
 import { isFieldVariable, getCollectionVariable, findParentCollectionLayer, findAllParentCollectionLayers, isTextEditable, findLayerWithParent } from '@/lib/layer-utils';
-import { detachSpecificLayerFromComponent } from '@/lib/component-utils';
+import { detachSpecificLayerFromComponent, getSelectedVariantOption, isBooleanVariableEnabled, isTextComponentVariable } from '@/lib/component-utils';
 import { convertContentToValue, parseValueToContent } from '@/lib/cms-variables-utils';
 import { DEFAULT_TEXT_STYLES, getTextStyle } from '@/lib/text-format-utils';
 import { buildFieldGroups, getFieldIcon, isMultipleAssetField, MULTI_ASSET_COLLECTION_ID } from '@/lib/collection-field-utils';
@@ -1607,12 +1614,18 @@ const RightSidebar = React.memo(function RightSidebar({
     };
 
     const allVariables = component.variables || [];
-    const textVariables = allVariables.filter(v => v.type !== 'image' && v.type !== 'link');
+    const textVariables = allVariables.filter(isTextComponentVariable);
     const imageVariables = allVariables.filter(v => v.type === 'image');
     const linkVariables = allVariables.filter(v => v.type === 'link');
+    const variantVariables = allVariables.filter(v => v.type === 'variant');
+    const booleanVariables = allVariables.filter(v => v.type === 'boolean');
     const currentTextOverrides = selectedLayer.componentOverrides?.text || {};
     const currentImageOverrides = selectedLayer.componentOverrides?.image || {};
     const currentLinkOverrides = selectedLayer.componentOverrides?.link || {};
+    const currentVariantOverrides = selectedLayer.componentOverrides?.variant || {};
+    const currentBooleanOverrides = selectedLayer.componentOverrides?.boolean || {};
+    const hasOverrides = [currentTextOverrides, currentImageOverrides, currentLinkOverrides, currentVariantOverrides, currentBooleanOverrides]
+      .some(overrides => Object.keys(overrides).length > 0);
 
     // Extract Tiptap content from text ComponentVariableValue
     // Falls back to variable's default_value if no override is set
@@ -1686,6 +1699,32 @@ const RightSidebar = React.memo(function RightSidebar({
       });
     };
 
+    // Store the selected option of a variant variable
+    const handleVariantOverrideChange = (variableId: string, optionId: string) => {
+      onLayerUpdate(selectedLayerId!, {
+        componentOverrides: {
+          ...selectedLayer.componentOverrides,
+          variant: {
+            ...currentVariantOverrides,
+            [variableId]: optionId,
+          },
+        },
+      });
+    };
+
+    // Store the on/off state of a boolean variable
+    const handleBooleanOverrideChange = (variableId: string, enabled: boolean) => {
+      onLayerUpdate(selectedLayerId!, {
+        componentOverrides: {
+          ...selectedLayer.componentOverrides,
+          boolean: {
+            ...currentBooleanOverrides,
+            [variableId]: enabled,
+          },
+        },
+      });
+    };
+
     // Handle detaching from component (converts instance to regular layers)
     const handleDetachFromComponent = () => {
       if (!selectedLayer.componentId) return;
@@ -1709,13 +1748,15 @@ const RightSidebar = React.memo(function RightSidebar({
     const handleResetAllOverrides = () => {
       if (!selectedLayerId) return;
 
-      // Clear all text, image, and link overrides - values will fall back to defaults
+      // Clear all overrides - values will fall back to defaults
       onLayerUpdate(selectedLayerId, {
         componentOverrides: {
           ...selectedLayer.componentOverrides,
           text: {},
           image: {},
           link: {},
+          variant: {},
+          boolean: {},
         },
       });
     };
@@ -1750,7 +1791,7 @@ const RightSidebar = React.memo(function RightSidebar({
                     <DropdownMenuContent align="end">
                       <DropdownMenuItem
                         onClick={handleResetAllOverrides}
-                        disabled={Object.keys(currentTextOverrides).length === 0 && Object.keys(currentImageOverrides).length === 0 && Object.keys(currentLinkOverrides).length === 0}
+                        disabled={!hasOverrides}
                       >
                         <Icon name="undo" />
                         Reset all overrides
@@ -1769,7 +1810,7 @@ const RightSidebar = React.memo(function RightSidebar({
                   <Icon name="component" className="size-3" />
                 </div>
                 <span>{component.name}</span>
-                {(Object.keys(currentTextOverrides).length > 0 || Object.keys(currentImageOverrides).length > 0 || Object.keys(currentLinkOverrides).length > 0) && (
+                {hasOverrides && (
                     <span className="ml-auto text-[10px] italic text-orange-600 dark:text-orange-200">Overridden</span>
                 )}
               </div>
@@ -1789,6 +1830,60 @@ const RightSidebar = React.memo(function RightSidebar({
               isOpen={variablesOpen}
               onToggle={() => setVariablesOpen(!variablesOpen)}
             >
+              {/* Variant variable overrides */}
+              {variantVariables.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  {variantVariables.map((variable) => (
+                    <div key={variable.id} className="grid grid-cols-3 gap-2">
+                      <Label variant="muted" className="truncate">
+                        {variable.name}
+                      </Label>
+                      <div className="col-span-2 *:w-full">
+                        <Select
+                          value={getSelectedVariantOption(variable, selectedLayer.componentOverrides)?.id || ''}
+                          onValueChange={(optionId) => handleVariantOverrideChange(variable.id, optionId)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(variable.options || []).map((option) => (
+                              <SelectItem key={option.id} value={option.id}>
+                                {option.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Boolean variable overrides */}
+              {booleanVariables.length > 0 && (
+                <div className="flex flex-col gap-2">
+                  {booleanVariables.map((variable) => (
+                    <div key={variable.id} className="grid grid-cols-3 gap-2 items-center">
+                      <Label
+                        variant="muted"
+                        htmlFor={`boolean-${variable.id}`}
+                        className="truncate cursor-pointer"
+                      >
+                        {variable.name}
+                      </Label>
+                      <div className="col-span-2">
+                        <Switch
+                          id={`boolean-${variable.id}`}
+                          checked={isBooleanVariableEnabled(variable, selectedLayer.componentOverrides)}
+                          onCheckedChange={(checked) => handleBooleanOverrideChange(variable.id, checked)}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Text variable overrides */}
               {textVariables.length > 0 && (
                 <div className="flex flex-col gap-2">
@@ -2164,7 +2259,7 @@ const RightSidebar = React.memo(function RightSidebar({
               // Get component variables if editing a component (only text variables for text content)
               const editingComponent = editingComponentId ? getComponentById(editingComponentId) : undefined;
               const allComponentVariables = editingComponent?.variables || [];
-              const componentVariables = allComponentVariables.filter(v => v.type !== 'image');
+              const componentVariables = allComponentVariables.filter(isTextComponentVariable);
               const linkedVariableId = selectedLayer.variables?.text?.id;
               const linkedVariable = componentVariables.find(v => v.id === linkedVariableId);
 
@@ -2695,6 +2790,45 @@ const RightSidebar = React.memo(function RightSidebar({
               onLayerUpdate={handleLayerUpdate}
             />
 
+            <SliderSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+            />
+
+            <LightboxSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+              fieldGroups={fieldGroups}
+              allFields={fields}
+              collections={collections}
+            />
+
+            <MapSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+              fieldGroups={fieldGroups}
+              allFields={fields}
+              collections={collections}
+            />
+
+            <CollectionControlSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+            />
+
+            <SiteSearchSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+            />
+
+            <MapMarkerSettings
+              layer={selectedLayer}
+              onLayerUpdate={handleLayerUpdate}
+              fieldGroups={fieldGroups}
+              allFields={fields}
+              collections={collections}
+            />
+
             <FormSettings
               layer={selectedLayer}
               onLayerUpdate={handleLayerUpdate}
@@ -0,0 +1,122 @@
+'use client';
+
+/**
+ * Site Search Settings Component
+ *
+ * Settings panel for site search inputs (placeholder, results page URL)
+ * and search results layers (number of hits)
+ */
+
+import React, { useState } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import SettingsPanel from './SettingsPanel';
+import { MAX_SEARCH_LIMIT, getSearchResultsSettings, getSiteSearchSettings } from '@/lib/site-search-utils';
+import type { Layer } from '@/types';
+
+interface SiteSearchSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+}
+
+export default function SiteSearchSettings({ layer, onLayerUpdate }: SiteSearchSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  // Only show for site search and search results layers
+  if (!layer || (layer.name !== 'siteSearch' && layer.name !== 'searchResults')) {
+    return null;
+  }
+
+  if (layer.name === 'searchResults') {
+    const settings = getSearchResultsSettings(layer);
+
+    const handleLimitChange = (value: string) => {
+      const limit = parseInt(value, 10);
+      onLayerUpdate(layer.id, {
+        settings: {
+          ...layer.settings,
+          searchResults: {
+            ...settings,
+            limit: isNaN(limit) ? settings.limit : Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT),
+          },
+        },
+      });
+    };
+
+    return (
+      <SettingsPanel
+        title="Search results"
+        isOpen={isOpen}
+        onToggle={() => setIsOpen(!isOpen)}
+      >
+        <div className="flex flex-col gap-3">
+          <div className="grid grid-cols-3 items-start gap-2">
+            <Label variant="muted" className="pt-2">Results</Label>
+            <div className="col-span-2 flex flex-col gap-1.5">
+              <Input
+                type="number"
+                min={1}
+                max={MAX_SEARCH_LIMIT}
+                value={settings.limit}
+                onChange={(e) => handleLimitChange(e.target.value)}
+              />
+              <p className="text-[10px] text-muted-foreground">
+                Shows the published pages and CMS items that match the search (?q=) in the page URL.
+              </p>
+            </div>
+          </div>
+        </div>
+      </SettingsPanel>
+    );
+  }
+
+  const settings = getSiteSearchSettings(layer) || {};
+
+  const updateSettings = (updates: Partial<typeof settings>) => {
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        siteSearch: {
+          ...settings,
+          ...updates,
+        },
+      },
+    });
+  };
+
+  return (
+    <SettingsPanel
+      title="Site search"
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Placeholder</Label>
+          <div className="col-span-2">
+            <Input
+              value={settings.placeholder || ''}
+              placeholder="Search..."
+              onChange={(e) => updateSettings({ placeholder: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Results page</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <Input
+              value={settings.action || ''}
+              placeholder="/search"
+              onChange={(e) => updateSettings({ action: e.target.value })}
+            />
+            <p className="text-[10px] text-muted-foreground">
+              URL of the page with a search results layer. Leave empty to show the results on the current page.
+            </p>
+          </div>
+        </div>
+      </div>
+    </SettingsPanel>
+  );
+}
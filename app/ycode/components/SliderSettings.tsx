@@ -0,0 +1,233 @@
+'use client';
+
+/**
+ * Slider Settings Component
+ *
+ * Settings panel for slider layers: slides per view per breakpoint,
+ * gap, looping, autoplay and the source of the slides (static or CMS)
+ */
+
+import React, { useState, useCallback } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import SettingsPanel from './SettingsPanel';
+import ToggleGroup from './ToggleGroup';
+import { getCollectionVariable } from '@/lib/layer-utils';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
+import { getSliderSettings, getSlidesPerView } from '@/lib/slider-utils';
+import type { Breakpoint, Layer, SliderSettings as SliderSettingsValue } from '@/types';
+
+interface SliderSettingsProps {
+  layer: Layer | null;
+  onLayerUpdate: (layerId: string, updates: Partial<Layer>) => void;
+}
+
+export default function SliderSettings({ layer, onLayerUpdate }: SliderSettingsProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const breakpoints = useBreakpoints();
+
+  const updateSlider = useCallback((updates: Partial<SliderSettingsValue>) => {
+    if (!layer) return;
+
+    onLayerUpdate(layer.id, {
+      settings: {
+        ...layer.settings,
+        slider: {
+          ...getSliderSettings(layer),
+          ...updates,
+        },
+      },
+    });
+  }, [layer, onLayerUpdate]);
+
+  // Only show for slider layers
+  if (!layer || layer.name !== 'slider') {
+    return null;
+  }
+
+  const settings = getSliderSettings(layer);
+  const slides = layer.children?.find((child) => child.name === 'sliderTrack')?.children ?? [];
+  const collectionSlide = slides.find((slide) => getCollectionVariable(slide));
+  const source = collectionSlide ? 'cms' : 'static';
+
+  const handleSlidesPerViewChange = (breakpoint: Breakpoint, value: string) => {
+    const slidesPerView = { ...settings.slidesPerView };
+    const count = parseInt(value, 10);
+
+    if (!isNaN(count) && count > 0) {
+      slidesPerView[breakpoint] = count;
+    } else if (breakpoint !== 'desktop') {
+      // Empty value inherits from the larger breakpoint
+      delete slidesPerView[breakpoint];
+    } else {
+      return;
+    }
+
+    updateSlider({ slidesPerView });
+  };
+
+  const handleSpaceBetweenChange = (value: string) => {
+    const spaceBetween = parseInt(value, 10);
+    updateSlider({ spaceBetween: !isNaN(spaceBetween) && spaceBetween >= 0 ? spaceBetween : 0 });
+  };
+
+  const handleAutoplayDelayChange = (value: string) => {
+    const autoplayDelay = parseFloat(value);
+    if (!isNaN(autoplayDelay) && autoplayDelay > 0) {
+      updateSlider({ autoplayDelay });
+    }
+  };
+
+  // CMS slides: the first slide repeats for each item of the collection chosen in its CMS settings
+  const handleSourceChange = (value: string) => {
+    if (value === 'cms' && !collectionSlide && slides[0]) {
+      onLayerUpdate(slides[0].id, {
+        variables: {
+          ...slides[0].variables,
+          collection: { id: '' },
+        },
+      });
+    } else if (value === 'static' && collectionSlide) {
+      onLayerUpdate(collectionSlide.id, {
+        variables: {
+          ...collectionSlide.variables,
+          collection: undefined,
+        },
+      });
+    }
+  };
+
+  return (
+    <SettingsPanel
+      title="Slider"
+      isOpen={isOpen}
+      onToggle={() => setIsOpen(!isOpen)}
+    >
+      <div className="flex flex-col gap-3">
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Slides</Label>
+          <div className="col-span-2 flex flex-col gap-1.5">
+            <div className="*:w-full">
+              <ToggleGroup
+                options={[
+                  { label: 'Static', value: 'static' },
+                  { label: 'CMS', value: 'cms' },
+                ]}
+                value={source}
+                onChange={(value) => handleSourceChange(value as string)}
+              />
+            </div>
+            {source === 'cms' && (
+              <p className="text-[10px] text-muted-foreground">
+                Select the collection on the slide layer. It repeats for each CMS item.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-start gap-2">
+          <Label variant="muted" className="pt-2">Per view</Label>
+          <div className="col-span-2 grid grid-cols-3 gap-1.5">
+            {[...breakpoints].reverse().map((breakpoint) => (
+              <div key={breakpoint.value} className="flex flex-col gap-1">
+                <Input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={settings.slidesPerView[breakpoint.value] ?? ''}
+                  placeholder={String(getSlidesPerView(settings, breakpoint.value))}
+                  onChange={(e) => handleSlidesPerViewChange(breakpoint.value, e.target.value)}
+                />
+                <span className="text-[10px] text-muted-foreground">{breakpoint.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-center gap-2">
+          <Label variant="muted">Gap</Label>
+          <div className="col-span-2">
+            <Input
+              type="number"
+              min={0}
+              value={settings.spaceBetween}
+              onChange={(e) => handleSpaceBetweenChange(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 items-start gap-2">
+          <div className="pt-0.5">
+            <Label variant="muted">Behavior</Label>
+          </div>
+
+          <div className="col-span-2 flex flex-col gap-3">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="slider-loop"
+                checked={settings.loop}
+                onCheckedChange={(checked) => updateSlider({ loop: checked })}
+              />
+              <Label
+                variant="muted"
+                htmlFor="slider-loop"
+                className="cursor-pointer"
+              >
+                Loop slides
+              </Label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="slider-autoplay"
+                checked={settings.autoplay}
+                onCheckedChange={(checked) => updateSlider({ autoplay: checked })}
+              />
+              <Label
+                variant="muted"
+                htmlFor="slider-autoplay"
+                className="cursor-pointer"
+              >
+                Autoplay
+              </Label>
+            </div>
+
+            {settings.autoplay && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="slider-pause-on-hover"
+                  checked={settings.pauseOnHover}
+                  onCheckedChange={(checked) => updateSlider({ pauseOnHover: checked })}
+                />
+                <Label
+                  variant="muted"
+                  htmlFor="slider-pause-on-hover"
+                  className="cursor-pointer"
+                >
+                  Pause on hover
+                </Label>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {settings.autoplay && (
+          <div className="grid grid-cols-3 items-center gap-2">
+            <Label variant="muted">Delay (s)</Label>
+            <div className="col-span-2">
+              <Input
+                type="number"
+                min={1}
+                step={0.5}
+                value={settings.autoplayDelay}
+                onChange={(e) => handleAutoplayDelayChange(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </SettingsPanel>
+  );
+}
@@ -8,6 +8,7 @@ import { InputGroup, InputGroupAddon, InputGroupInput } from '@/components/ui/in
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import DesignTokenSelect from './DesignTokenSelect';
 import { useDesignSync } from '@/hooks/use-design-sync';
 import { useControlledInputs } from '@/hooks/use-controlled-input';
 import { useModeToggle } from '@/hooks/use-mode-toggle';
@@ -202,6 +203,15 @@ export default function SpacingControls({ layer, onLayerUpdate, activeTextStyleK
                   onChange={(e) => handleMarginChange(e.target.value)}
                 />
               </InputGroup>
+              <DesignTokenSelect
+                type="spacing"
+                value={margin}
+                disabled={marginModeToggle.mode === 'individual'}
+                onSelect={(value) => {
+                  setMarginInput(value);
+                  updateDesignProperty('spacing', 'margin', value);
+                }}
+              />
               <Button
                 variant={marginModeToggle.mode === 'individual' ? 'secondary' : 'ghost'}
                 size="sm"
@@ -307,6 +317,15 @@ export default function SpacingControls({ layer, onLayerUpdate, activeTextStyleK
                   onChange={(e) => handlePaddingChange(e.target.value)}
                 />
               </InputGroup>
+              <DesignTokenSelect
+                type="spacing"
+                value={padding}
+                disabled={paddingModeToggle.mode === 'individual'}
+                onSelect={(value) => {
+                  setPaddingInput(value);
+                  updateDesignProperty('spacing', 'padding', value);
+                }}
+              />
               <Button
                 variant={paddingModeToggle.mode === 'individual' ? 'secondary' : 'ghost'}
                 size="sm"
@@ -6,19 +6,22 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { InputGroup, InputGroupAddon, InputGroupInput } from '@/components/ui/input-group';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Icon from '@/components/ui/icon';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useDesignSync } from '@/hooks/use-design-sync';
 import { useControlledInput } from '@/hooks/use-controlled-input';
+import { useCustomFonts } from '@/hooks/use-custom-fonts';
 import { useEditorStore } from '@/stores/useEditorStore';
 import { extractMeasurementValue } from '@/lib/measurement-utils';
 import { removeSpaces } from '@/lib/utils';
+import { FONT_WEIGHT_NAMES, getFontWeights } from '@/lib/font-utils';
 import type { Collection, CollectionField, Layer } from '@/types';
 import type { FieldGroup } from '@/lib/collection-field-utils';
 import ColorPropertyField from './ColorPropertyField';
+import DesignTokenSelect from './DesignTokenSelect';
 
 interface TypographyControlsProps {
   layer: Layer | null;
@@ -39,6 +42,7 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
     activeUIState,
     activeTextStyleKey,
   });
+  const customFonts = useCustomFonts();
 
   // Get current values from layer (with inheritance)
   const fontFamily = getDesignProperty('typography', 'fontFamily') || 'sans';
@@ -110,6 +114,13 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
   // Convert numeric weight to named for the Select
   const fontWeight = fontWeightMap[fontWeightRaw] || fontWeightRaw;
 
+  // Custom fonts only offer the weights they're available in
+  const customFont = customFonts.find((font) => font.key === fontFamily);
+  const customFontWeights = customFont ? getFontWeights(customFont) : [];
+  const fontWeightOptions = customFontWeights.length > 0
+    ? customFontWeights
+    : Object.keys(FONT_WEIGHT_NAMES).map(Number);
+
   // Handle font family change
   const handleFontFamilyChange = (value: string) => {
     updateDesignProperty('typography', 'fontFamily', value === 'inherit' ? null : value);
@@ -259,6 +270,16 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
                       <SelectItem value="serif">Serif</SelectItem>
                       <SelectItem value="mono">Mono</SelectItem>
                     </SelectGroup>
+                    {customFonts.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Custom fonts</SelectLabel>
+                        {customFonts.map((font) => (
+                          <SelectItem key={font.key} value={font.key}>
+                            {font.family}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
@@ -273,15 +294,11 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
                   </SelectTrigger>
                   <SelectContent>
                     <SelectGroup>
-                      <SelectItem value="thin">Thin</SelectItem>
-                      <SelectItem value="extralight">Extralight</SelectItem>
-                      <SelectItem value="light">Light</SelectItem>
-                      <SelectItem value="normal">Regular</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="semibold">Semibold</SelectItem>
-                      <SelectItem value="bold">Bold</SelectItem>
-                      <SelectItem value="extrabold">Extrabold</SelectItem>
-                      <SelectItem value="black">Black</SelectItem>
+                      {fontWeightOptions.map((weight) => (
+                        <SelectItem key={weight} value={fontWeightMap[weight] || String(weight)}>
+                          {FONT_WEIGHT_NAMES[weight] || weight}
+                        </SelectItem>
+                      ))}
                     </SelectGroup>
                   </SelectContent>
                 </Select>
@@ -290,8 +307,8 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
 
             <div className="grid grid-cols-3">
               <Label variant="muted">Size</Label>
-              <div className="col-span-2 *:w-full">
-                <InputGroup>
+              <div className="col-span-2 flex items-center gap-2">
+                <InputGroup className="flex-1">
                   <InputGroupInput
                     value={fontSizeInput}
                     onChange={(e) => handleFontSizeChange(e.target.value)}
@@ -299,6 +316,14 @@ export default function TypographyControls({ layer, onLayerUpdate, activeTextSty
                     min="0"
                   />
                 </InputGroup>
+                <DesignTokenSelect
+                  type="fontSize"
+                  value={fontSize}
+                  onSelect={(value) => {
+                    setFontSizeInput(value);
+                    updateDesignProperty('typography', 'fontSize', value);
+                  }}
+                />
               </div>
             </div>
           </>
@@ -1,6 +1,6 @@
 'use client';
 
-import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useEditorStore } from '@/stores/useEditorStore';
 import type { UIState, Layer } from '@/types';
 import { DEFAULT_TEXT_STYLES, getTextStyleLabel } from '@/lib/text-format-utils';
@@ -82,6 +82,11 @@ export default function UIStateSelector({ selectedLayer }: UIStateSelectorProps)
               Current
             </SelectItem>
           </SelectGroup>
+          <SelectSeparator />
+          <SelectGroup>
+            {/* Site dark mode overrides (dark: classes) */}
+            <SelectItem value="dark">Dark mode</SelectItem>
+          </SelectGroup>
         </SelectContent>
       </Select>
     </div>
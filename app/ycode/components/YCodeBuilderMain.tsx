@@ -58,6 +58,7 @@ import { useLiveLayerUpdates } from '@/hooks/use-live-layer-updates';
 import { useLivePageUpdates } from '@/hooks/use-live-page-updates';
 import { useLiveComponentUpdates } from '@/hooks/use-live-component-updates';
 import { useLiveLayerStyleUpdates } from '@/hooks/use-live-layer-style-updates';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
 
 // 4. Stores
 import { useAuthStore } from '@/stores/useAuthStore';
@@ -82,7 +83,7 @@ import { findLayerById, getClassesString, removeLayerById, canCopyLayer, canDele
 import { cloneDeep } from 'lodash';
 
 // 5. Types
-import type { Layer, Asset } from '@/types';
+import type { Layer, Asset, Breakpoint } from '@/types';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Field } from '@/components/ui/field';
@@ -159,9 +160,10 @@ export default function YCodeBuilder({ children }: YCodeBuilderProps = {} as YCo
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
   const [showPageDropdown, setShowPageDropdown] = useState(false);
-  const [viewportMode, setViewportMode] = useState<'desktop' | 'tablet' | 'mobile'>(
+  const [viewportMode, setViewportMode] = useState<Breakpoint>(
     urlState.view || 'desktop'
   );
+  const breakpoints = useBreakpoints();
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastLayersByPageRef = useRef<Map<string, string>>(new Map());
   const previousPageIdRef = useRef<string | null>(null);
@@ -248,6 +250,13 @@ export default function YCodeBuilder({ children }: YCodeBuilderProps = {} as YCo
     setActiveBreakpoint(viewportMode);
   }, [viewportMode, setActiveBreakpoint]);
 
+  // Fall back to desktop when the viewed breakpoint was removed from the site
+  useEffect(() => {
+    if (!breakpoints.some((bp) => bp.value === viewportMode)) {
+      setViewportMode('desktop');
+    }
+  }, [breakpoints, viewportMode]);
+
   // Sync preview mode from URL parameter
   const isPreviewMode = useEditorStore((state) => state.isPreviewMode);
   const setPreviewMode = useEditorStore((state) => state.setPreviewMode);
@@ -15,6 +15,7 @@ import { Spinner } from '@/components/ui/spinner';
 import { Empty, EmptyDescription, EmptyTitle } from '@/components/ui/empty';
 import Icon from '@/components/ui/icon';
 import { cn, formatDate } from '@/lib/utils';
+import { formatFileSize } from '@/lib/asset-utils';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -785,6 +786,33 @@ export default function FormsPage() {
                 ))}
               </div>
 
+              {/* Attachments (signed download links) */}
+              {selectedSubmission.files && selectedSubmission.files.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="font-medium text-xs">Attachments</h3>
+                  <div className="space-y-2">
+                    {selectedSubmission.files.map((file) => (
+                      <a
+                        key={file.id}
+                        href={file.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={cn(
+                          'flex items-center gap-2 p-2 bg-secondary/30 rounded-lg text-xs',
+                          file.url ? 'hover:bg-secondary/60' : 'pointer-events-none opacity-50'
+                        )}
+                      >
+                        <Icon name="paperclip" className="size-3 shrink-0" />
+                        <span className="truncate">{file.filename}</span>
+                        <span className="ml-auto shrink-0 text-muted-foreground">
+                          {formatFileSize(file.file_size)}
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Metadata */}
               {selectedSubmission.metadata && Object.keys(selectedSubmission.metadata).length > 0 && (
                 <div className="space-y-4">
@@ -9,6 +9,9 @@ import {
 } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import Icon from '@/components/ui/icon';
 import {
   Dialog,
@@ -25,31 +28,51 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { API_KEY_SCOPES, DEFAULT_API_KEY_SCOPES, isApiKeyExpired } from '@/lib/api-key-utils';
+import type { ApiKeyScope } from '@/lib/api-key-utils';
 
 interface ApiKey {
   id: string;
   name: string;
   key_prefix: string;
   api_key?: string; // Only present when newly created
+  scopes: ApiKeyScope[];
+  collection_ids: string[] | null;
+  expires_at: string | null;
+  rate_limit: number | null;
   last_used_at: string | null;
   created_at: string;
 }
 
+interface CollectionSummary {
+  id: string;
+  name: string;
+}
+
 export default function ApiPage() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showGenerateDialog, setShowGenerateDialog] = useState(false);
+  const [editingKey, setEditingKey] = useState<ApiKey | null>(null);
   const [showKeyDialog, setShowKeyDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [keyToDelete, setKeyToDelete] = useState<ApiKey | null>(null);
   const [newKeyName, setNewKeyName] = useState('');
+  const [keyScopes, setKeyScopes] = useState<ApiKeyScope[]>(DEFAULT_API_KEY_SCOPES);
+  const [restrictCollections, setRestrictCollections] = useState(false);
+  const [keyCollectionIds, setKeyCollectionIds] = useState<string[]>([]);
+  const [keyExpiresAt, setKeyExpiresAt] = useState('');
+  const [keyRateLimit, setKeyRateLimit] = useState('');
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [keyError, setKeyError] = useState<string | null>(null);
   const [generatedKey, setGeneratedKey] = useState<ApiKey | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  // Fetch API keys on mount
+  // Fetch API keys and collections on mount
   useEffect(() => {
     fetchApiKeys();
+    fetchCollections();
   }, []);
 
   const fetchApiKeys = async () => {
@@ -66,28 +89,102 @@ export default function ApiPage() {
     }
   };
 
+  const fetchCollections = async () => {
+    try {
+      const response = await fetch('/ycode/api/collections');
+      const result = await response.json();
+      if (result.data) {
+        setCollections(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to fetch collections:', error);
+    }
+  };
+
+  const openGenerateDialog = () => {
+    setEditingKey(null);
+    setNewKeyName('');
+    setKeyScopes(DEFAULT_API_KEY_SCOPES);
+    setRestrictCollections(false);
+    setKeyCollectionIds([]);
+    setKeyExpiresAt('');
+    setKeyRateLimit('');
+    setKeyError(null);
+    setShowGenerateDialog(true);
+  };
+
+  const openEditDialog = (key: ApiKey) => {
+    setEditingKey(key);
+    setNewKeyName(key.name);
+    setKeyScopes(key.scopes);
+    setRestrictCollections(!!key.collection_ids);
+    setKeyCollectionIds(key.collection_ids || []);
+    setKeyExpiresAt(key.expires_at ? toDateInputValue(key.expires_at) : '');
+    setKeyRateLimit(key.rate_limit ? String(key.rate_limit) : '');
+    setKeyError(null);
+    setShowGenerateDialog(true);
+  };
+
+  const closeGenerateDialog = () => {
+    setShowGenerateDialog(false);
+    setEditingKey(null);
+    setNewKeyName('');
+  };
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setKeyScopes(checked
+      ? [...keyScopes, scope]
+      : keyScopes.filter((s) => s !== scope));
+  };
+
+  const toggleCollection = (collectionId: string, checked: boolean) => {
+    setKeyCollectionIds(checked
+      ? [...keyCollectionIds, collectionId]
+      : keyCollectionIds.filter((id) => id !== collectionId));
+  };
+
+  const isKeyFormValid = !!newKeyName.trim()
+    && keyScopes.length > 0
+    && (!restrictCollections || keyCollectionIds.length > 0);
+
   const handleGenerateKey = async () => {
-    if (!newKeyName.trim()) return;
+    if (!isKeyFormValid) return;
 
     setIsGenerating(true);
+    setKeyError(null);
     try {
-      const response = await fetch('/ycode/api/api-keys', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name: newKeyName.trim() }),
-      });
+      const body = {
+        name: newKeyName.trim(),
+        scopes: keyScopes,
+        collection_ids: restrictCollections ? keyCollectionIds : null,
+        // Keys expire at the end of the selected day
+        expires_at: keyExpiresAt ? new Date(`${keyExpiresAt}T23:59:59`).toISOString() : null,
+        rate_limit: keyRateLimit ? Number(keyRateLimit) : null,
+      };
+
+      const response = await fetch(
+        editingKey ? `/ycode/api/api-keys/${editingKey.id}` : '/ycode/api/api-keys',
+        {
+          method: editingKey ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
 
       const result = await response.json();
       if (result.data) {
-        setGeneratedKey(result.data);
-        setShowGenerateDialog(false);
-        setShowKeyDialog(true);
-        setNewKeyName('');
+        if (!editingKey) {
+          setGeneratedKey(result.data);
+          setShowKeyDialog(true);
+        }
+        closeGenerateDialog();
         // Refresh the list
         fetchApiKeys();
+      } else {
+        setKeyError(result.error || 'Failed to save API key');
       }
     } catch (error) {
-      console.error('Failed to generate API key:', error);
+      console.error('Failed to save API key:', error);
     } finally {
       setIsGenerating(false);
     }
@@ -127,11 +224,22 @@ export default function ApiPage() {
     });
   };
 
+  /** Local YYYY-MM-DD for a date input */
+  const toDateInputValue = (dateString: string) => {
+    const date = new Date(dateString);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  };
+
   const formatLastUsed = (dateString: string | null) => {
     if (!dateString) return 'Never';
     return formatDate(dateString);
   };
 
+  const formatCollectionAccess = (key: ApiKey) => {
+    if (!key.collection_ids) return 'All collections';
+    return `${key.collection_ids.length} collection${key.collection_ids.length !== 1 ? 's' : ''}`;
+  };
+
   return (
     <div className="p-8">
       <div className="max-w-3xl mx-auto">
@@ -141,7 +249,7 @@ export default function ApiPage() {
           <Button
             variant="secondary"
             size="sm"
-            onClick={() => setShowGenerateDialog(true)}
+            onClick={openGenerateDialog}
           >
             Generate API key
           </Button>
@@ -163,14 +271,29 @@ export default function ApiPage() {
                 className="flex items-center gap-4 p-4 bg-secondary/20 rounded-lg"
               >
                 <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-1">
+                  <div className="flex items-center gap-3 mb-1 flex-wrap">
                     <Label className="font-medium">{key.name}</Label>
                     <code className="text-xs text-muted-foreground bg-secondary px-1.5 py-0.5 rounded font-mono">
                       {key.key_prefix}...
                     </code>
+                    {isApiKeyExpired(key.expires_at) && (
+                      <Badge variant="destructive">Expired</Badge>
+                    )}
+                    {key.scopes.map((scope) => (
+                      <Badge
+                        key={scope}
+                        variant="secondary"
+                        className="text-[10px]"
+                      >
+                        {scope}
+                      </Badge>
+                    ))}
                   </div>
                   <div className="text-xs text-muted-foreground">
                     Created {formatDate(key.created_at)} · Last used: {formatLastUsed(key.last_used_at)}
+                    {' · '}{formatCollectionAccess(key)}
+                    {key.expires_at && !isApiKeyExpired(key.expires_at) && ` · Expires ${formatDate(key.expires_at)}`}
+                    {key.rate_limit && ` · ${key.rate_limit} requests/min`}
                   </div>
                 </div>
 
@@ -184,6 +307,9 @@ export default function ApiPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => openEditDialog(key)}>
+                      Edit
+                    </DropdownMenuItem>
                     <DropdownMenuItem
                       className="text-destructive focus:text-destructive"
                       onClick={() => {
@@ -219,6 +345,9 @@ export default function ApiPage() {
             <pre className="bg-secondary p-3 rounded-lg text-xs overflow-x-auto">
 {`Authorization: Bearer YOUR_API_KEY`}
             </pre>
+            <p className="text-muted-foreground mt-3">
+              Each key is granted scopes: <code className="text-xs bg-secondary px-1 py-0.5 rounded">collections:read</code>, <code className="text-xs bg-secondary px-1 py-0.5 rounded">collections:write</code>, <code className="text-xs bg-secondary px-1 py-0.5 rounded">forms:read</code> and <code className="text-xs bg-secondary px-1 py-0.5 rounded">forms:write</code>. <code className="text-xs bg-secondary px-1 py-0.5 rounded">GET</code> requests need the read scope, all other methods the write scope. Keys can also be restricted to specific collections.
+            </p>
           </section>
 
           {/* Endpoints */}
@@ -264,6 +393,16 @@ export default function ApiPage() {
                 </div>
               </div>
 
+              <div>
+                <h4 className="text-muted-foreground mb-1">OpenAPI</h4>
+                <div className="bg-secondary p-3 rounded-lg space-y-1 text-xs font-mono">
+                  <div><span className="text-green-500">GET</span> /api/v1/openapi.json</div>
+                </div>
+                <p className="text-muted-foreground text-xs mt-2">
+                  OpenAPI 3.1 document generated from your published collections, with typed item schemas per collection. Import it into Postman or use it to generate typed clients.
+                </p>
+              </div>
+
             </div>
           </section>
 
@@ -278,13 +417,33 @@ export default function ApiPage() {
               <div>
                 <div className="font-medium text-xs mb-2">List Items</div>
                 <p className="text-muted-foreground text-xs mb-2">
-                  Supports pagination with <code className="bg-secondary px-1 py-0.5 rounded">page</code> and <code className="bg-secondary px-1 py-0.5 rounded">per_page</code> (max 100).
+                  Supports pagination with <code className="bg-secondary px-1 py-0.5 rounded">page</code> and <code className="bg-secondary px-1 py-0.5 rounded">per_page</code> (max 1000).
                 </p>
                 <pre className="bg-secondary p-3 rounded-lg text-xs overflow-x-auto">
 {`GET /api/v1/collections/{collection_id}/items?page=1&per_page=50`}
                 </pre>
               </div>
 
+              <div>
+                <div className="font-medium text-xs mb-2">Filter, Search and Sort</div>
+                <p className="text-muted-foreground text-xs mb-2">
+                  Filter with <code className="bg-secondary px-1 py-0.5 rounded">filter[field][operator]=value</code> (operators such as <code className="bg-secondary px-1 py-0.5 rounded">contains</code>, <code className="bg-secondary px-1 py-0.5 rounded">gte</code>, <code className="bg-secondary px-1 py-0.5 rounded">is_between</code> and <code className="bg-secondary px-1 py-0.5 rounded">is_one_of</code>; list values are comma-separated). <code className="bg-secondary px-1 py-0.5 rounded">search</code> matches text fields and <code className="bg-secondary px-1 py-0.5 rounded">sort</code> takes comma-separated fields, with <code className="bg-secondary px-1 py-0.5 rounded">-</code> for descending.
+                </p>
+                <pre className="bg-secondary p-3 rounded-lg text-xs overflow-x-auto">
+{`GET /api/v1/collections/{collection_id}/items?filter[price][gte]=10&filter[tags][is_one_of]=a,b&search=coffee&sort=-price,name`}
+                </pre>
+              </div>
+
+              <div>
+                <div className="font-medium text-xs mb-2">Cursor Pagination</div>
+                <p className="text-muted-foreground text-xs mb-2">
+                  For stable iteration over large collections, pass <code className="bg-secondary px-1 py-0.5 rounded">pagination.next_cursor</code> from the previous response as <code className="bg-secondary px-1 py-0.5 rounded">cursor</code>, with the same filters and sort. It is <code className="bg-secondary px-1 py-0.5 rounded">null</code> on the last page.
+                </p>
+                <pre className="bg-secondary p-3 rounded-lg text-xs overflow-x-auto">
+{`GET /api/v1/collections/{collection_id}/items?sort=name&per_page=100&cursor=WyJCYW5hbmEiLCIuLi4iXQ`}
+                </pre>
+              </div>
+
               <div>
                 <div className="font-medium text-xs mb-2">Create Item</div>
                 <p className="text-muted-foreground text-xs mb-2">
@@ -415,7 +574,17 @@ Content-Type: application/json
       "payload": { "name": "John", "email": "john@example.com" },
       "metadata": { "user_agent": "...", "referrer": "..." },
       "status": "new",
-      "createdAt": "2026-01-29T10:30:00.000Z"
+      "createdAt": "2026-01-29T10:30:00.000Z",
+      "files": [
+        {
+          "id": "uuid",
+          "fieldName": "resume",
+          "filename": "resume.pdf",
+          "mimeType": "application/pdf",
+          "fileSize": 48213,
+          "url": "https://..." // Signed link, valid for 1 hour
+        }
+      ]
     }
   ],
   "pagination": { "page": 1, "perPage": 50, "total": 42 }
@@ -481,7 +650,9 @@ Content-Type: application/json
 }`}
             </pre>
             <div className="mt-3 text-xs text-muted-foreground space-y-1">
-              <div><code className="text-yellow-400">401</code> - Invalid or missing API key</div>
+              <div><code className="text-yellow-400">401</code> - Invalid, missing or expired API key</div>
+              <div><code className="text-yellow-400">403</code> - API key is missing the required scope or collection access (<code>FORBIDDEN</code>)</div>
+              <div><code className="text-yellow-400">429</code> - API key rate limit exceeded (<code>RATE_LIMITED</code>), see the <code>Retry-After</code> header</div>
               <div><code className="text-yellow-400">404</code> - Collection or item not found</div>
               <div><code className="text-yellow-400">400</code> - Invalid request body</div>
               <div><code className="text-yellow-400">500</code> - Internal server error</div>
@@ -493,12 +664,18 @@ Content-Type: application/json
       </div>
 
       {/* Generate API Key Dialog */}
-      <Dialog open={showGenerateDialog} onOpenChange={setShowGenerateDialog}>
-        <DialogContent>
+      <Dialog
+        open={showGenerateDialog} onOpenChange={(open) => {
+          if (!open) closeGenerateDialog();
+        }}
+      >
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Generate API key</DialogTitle>
+            <DialogTitle>{editingKey ? 'Edit API key' : 'Generate API key'}</DialogTitle>
             <DialogDescription>
-              Create a new API key for accessing your site&apos;s public API.
+              {editingKey
+                ? 'Change what this key can access. The key itself stays the same.'
+                : 'Create a new API key for accessing your site\'s public API.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -515,29 +692,117 @@ Content-Type: application/json
                 onChange={(e) => setNewKeyName(e.target.value)}
                 autoFocus
                 onKeyDown={(e) => {
-                  if (e.key === 'Enter' && newKeyName.trim()) {
+                  if (e.key === 'Enter' && isKeyFormValid) {
                     handleGenerateKey();
                   }
                 }}
               />
             </Field>
+
+            <Field>
+              <FieldLabel>Scopes</FieldLabel>
+              <div className="flex flex-col gap-2">
+                {API_KEY_SCOPES.map((scope) => (
+                  <div key={scope.value} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`scope-${scope.value}`}
+                      checked={keyScopes.includes(scope.value)}
+                      onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                    />
+                    <Label
+                      htmlFor={`scope-${scope.value}`}
+                      className="flex flex-col items-start gap-0.5 text-xs font-normal cursor-pointer"
+                    >
+                      <span>{scope.label}</span>
+                      <span className="text-muted-foreground">{scope.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </Field>
+
+            <Field>
+              <div className="flex items-center justify-between">
+                <FieldLabel htmlFor="restrict-collections">Restrict to collections</FieldLabel>
+                <Switch
+                  id="restrict-collections"
+                  checked={restrictCollections}
+                  onCheckedChange={setRestrictCollections}
+                />
+              </div>
+              <FieldDescription>
+                Only allow access to the selected collections.
+              </FieldDescription>
+              {restrictCollections && (
+                collections.length > 0 ? (
+                  <div className="flex flex-col gap-2 mt-1">
+                    {collections.map((collection) => (
+                      <div key={collection.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`collection-${collection.id}`}
+                          checked={keyCollectionIds.includes(collection.id)}
+                          onCheckedChange={(checked) => toggleCollection(collection.id, checked === true)}
+                        />
+                        <Label
+                          htmlFor={`collection-${collection.id}`}
+                          className="text-xs font-normal cursor-pointer"
+                        >
+                          {collection.name}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">No collections yet.</p>
+                )
+              )}
+            </Field>
+
+            <div className="grid grid-cols-2 gap-4">
+              <Field>
+                <FieldLabel htmlFor="key-expires-at">Expires</FieldLabel>
+                <Input
+                  id="key-expires-at"
+                  type="date"
+                  value={keyExpiresAt}
+                  onChange={(e) => setKeyExpiresAt(e.target.value)}
+                />
+                <FieldDescription>Leave empty to never expire</FieldDescription>
+              </Field>
+
+              <Field>
+                <FieldLabel htmlFor="key-rate-limit">Rate limit</FieldLabel>
+                <Input
+                  id="key-rate-limit"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={keyRateLimit}
+                  onChange={(e) => setKeyRateLimit(e.target.value === '' ? '' : String(Math.max(1, Math.round(Number(e.target.value)))))}
+                />
+                <FieldDescription>Requests per minute</FieldDescription>
+              </Field>
+            </div>
+
+            {keyError && (
+              <p className="text-xs text-destructive">{keyError}</p>
+            )}
           </div>
 
           <DialogFooter>
             <Button
               variant="secondary"
-              onClick={() => {
-                setShowGenerateDialog(false);
-                setNewKeyName('');
-              }}
+              onClick={closeGenerateDialog}
             >
               Cancel
             </Button>
             <Button
               onClick={handleGenerateKey}
-              disabled={!newKeyName.trim() || isGenerating}
+              disabled={!isKeyFormValid || isGenerating}
             >
-              {isGenerating ? 'Generating...' : 'Generate key'}
+              {editingKey
+                ? (isGenerating ? 'Saving...' : 'Save changes')
+                : (isGenerating ? 'Generating...' : 'Generate key')}
             </Button>
           </DialogFooter>
         </DialogContent>
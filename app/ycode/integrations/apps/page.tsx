@@ -37,10 +37,10 @@ import Icon from '@/components/ui/icon';
 import Image from 'next/image';
 import { toast } from 'sonner';
 
-import type { AppCategory } from '@/lib/apps/registry';
+import type { AppCategory, AppIntegrationConfig } from '@/lib/apps/registry';
 import { APP_CATEGORIES } from '@/lib/apps/registry';
-import { MAILERLITE_SUBSCRIBER_FIELDS } from '@/lib/apps/mailerlite/types';
-import type { MailerLiteConnection, MailerLiteFieldMapping } from '@/lib/apps/mailerlite/types';
+import { EMAIL_APP_FIELD } from '@/lib/apps/field-mapping';
+import type { AppConnection, AppField, AppFieldMapping, AppList } from '@/lib/apps/types';
 
 // =============================================================================
 // Types
@@ -53,15 +53,10 @@ interface AppWithStatus {
   logo: { src: string; width: number; height: number };
   categories: AppCategory[];
   implemented: boolean;
+  integration?: AppIntegrationConfig;
   connected: boolean;
 }
 
-interface MailerLiteGroup {
-  id: string;
-  name: string;
-  active_count: number;
-}
-
 interface FormSummary {
   form_id: string;
   submission_count: number;
@@ -136,39 +131,51 @@ export default function AppsPage() {
   // Sheet state
   const [selectedAppId, setSelectedAppId] = useState<string | null>(null);
 
-  // MailerLite state
-  const [apiKey, setApiKey] = useState('');
-  const [savedApiKey, setSavedApiKey] = useState('');
+  // Credentials state (e.g. API key)
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [savedCredentials, setSavedCredentials] = useState<Record<string, string>>({});
   const [isTesting, setIsTesting] = useState(false);
-  const [isSavingKey, setIsSavingKey] = useState(false);
+  const [isSavingCredentials, setIsSavingCredentials] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isLoadingSettings, setIsLoadingSettings] = useState(false);
 
   // Connections state
-  const [connections, setConnections] = useState<MailerLiteConnection[]>([]);
+  const [connections, setConnections] = useState<AppConnection[]>([]);
   const [isSavingConnections, setIsSavingConnections] = useState(false);
+  const [isTestingHook, setIsTestingHook] = useState(false);
 
   // Inline connection editing state
   const [expandedConnectionId, setExpandedConnectionId] = useState<string | null>(null);
   const [editingConnectionId, setEditingConnectionId] = useState<string | null>(null);
   const [connectionFormId, setConnectionFormId] = useState('');
-  const [connectionGroupId, setConnectionGroupId] = useState('');
-  const [connectionGroupName, setConnectionGroupName] = useState('');
-  const [connectionFieldMappings, setConnectionFieldMappings] = useState<MailerLiteFieldMapping[]>([
-    { formField: '', mailerliteField: 'email' },
-  ]);
-
-  // Data for connection dialog selects
-  const [groups, setGroups] = useState<MailerLiteGroup[]>([]);
+  const [connectionListId, setConnectionListId] = useState('');
+  const [connectionListName, setConnectionListName] = useState('');
+  const [connectionHookUrl, setConnectionHookUrl] = useState('');
+  const [connectionFieldMappings, setConnectionFieldMappings] = useState<AppFieldMapping[]>([]);
+
+  // Data for connection form selects
+  const [lists, setLists] = useState<AppList[]>([]);
+  const [appFields, setAppFields] = useState<AppField[]>([]);
   const [forms, setForms] = useState<FormSummary[]>([]);
-  const [isLoadingGroups, setIsLoadingGroups] = useState(false);
+  const [isLoadingLists, setIsLoadingLists] = useState(false);
   const [isLoadingForms, setIsLoadingForms] = useState(false);
 
   // Disconnect state
   const [showDisconnectDialog, setShowDisconnectDialog] = useState(false);
 
   // Delete connection state
-  const [connectionToDelete, setConnectionToDelete] = useState<MailerLiteConnection | null>(null);
+  const [connectionToDelete, setConnectionToDelete] = useState<AppConnection | null>(null);
+
+  const selectedApp = apps.find((app) => app.id === selectedAppId) || null;
+  const integration = selectedApp?.integration;
+  const isListApp = integration?.target === 'list';
+  const listLabel = integration?.listLabel || 'List';
+  const hasCredentials = (integration?.credentials.length || 0) > 0;
+
+  /** Mappings a new connection starts with (list apps always need the email) */
+  const getDefaultFieldMappings = useCallback((): AppFieldMapping[] => (
+    isListApp ? [{ formField: '', appField: EMAIL_APP_FIELD }] : []
+  ), [isListApp]);
 
   // =========================================================================
   // Load apps on mount
@@ -192,46 +199,68 @@ export default function AppsPage() {
     }
   };
 
+  const setAppConnected = (appId: string, connected: boolean) => {
+    setApps((prev) =>
+      prev.map((a) => (a.id === appId ? { ...a, connected } : a))
+    );
+  };
+
   // =========================================================================
   // App sheet open/close
   // =========================================================================
 
   const openAppSettings = (appId: string) => {
+    const app = apps.find((a) => a.id === appId);
     setSelectedAppId(appId);
 
-    if (appId === 'mailerlite') {
-      loadMailerLiteSettings();
-      loadGroupsAndForms();
+    if (app?.integration) {
+      loadAppSettings(app);
+      loadForms();
     }
   };
 
   const closeAppSettings = () => {
     setSelectedAppId(null);
-    // Reset MailerLite state
-    setApiKey('');
-    setSavedApiKey('');
+    // Reset app state
+    setCredentials({});
+    setSavedCredentials({});
     setIsConnected(false);
     setConnections([]);
+    setLists([]);
+    setAppFields([]);
     setExpandedConnectionId(null);
     resetConnectionForm();
   };
 
   // =========================================================================
-  // MailerLite settings
+  // App settings
   // =========================================================================
 
-  const loadMailerLiteSettings = async () => {
+  const loadAppSettings = async (app: AppWithStatus) => {
     setIsLoadingSettings(true);
     try {
-      const response = await fetch('/ycode/api/apps/mailerlite/settings');
+      const response = await fetch(`/ycode/api/apps/${app.id}/settings`);
       const result = await response.json();
 
       if (result.data) {
-        if (result.data.api_key) {
-          setSavedApiKey(result.data.api_key);
-          setApiKey(result.data.api_key);
-          setIsConnected(true);
+        const storedCredentials: Record<string, string> = {};
+        for (const credential of app.integration?.credentials || []) {
+          if (typeof result.data[credential.key] === 'string') {
+            storedCredentials[credential.key] = result.data[credential.key];
+          }
         }
+
+        setCredentials(storedCredentials);
+        setSavedCredentials(storedCredentials);
+
+        // Hook apps have nothing to configure besides their connections
+        const configured = app.integration?.credentials.every((c) => storedCredentials[c.key]) ?? false;
+        setIsConnected(configured);
+
+        if (configured && app.integration?.target === 'list') {
+          loadLists(app.id);
+        }
+
         if (result.data.connections) {
           setConnections(result.data.connections);
         }
@@ -243,124 +272,163 @@ export default function AppsPage() {
     }
   };
 
-  const handleTestApiKey = async () => {
-    if (!apiKey.trim()) return;
+  const trimmedCredentials = () => Object.fromEntries(
+    Object.entries(credentials).map(([key, value]) => [key, value.trim()])
+  );
+
+  const areCredentialsFilled = !!integration && integration.credentials.every(
+    (credential) => credentials[credential.key]?.trim()
+  );
+
+  const areCredentialsChanged = !!integration && integration.credentials.some(
+    (credential) => (credentials[credential.key] || '').trim() !== (savedCredentials[credential.key] || '')
+  );
+
+  const handleTestCredentials = async () => {
+    if (!selectedApp || !areCredentialsFilled) return;
 
     setIsTesting(true);
     try {
-      const response = await fetch('/ycode/api/apps/mailerlite/test', {
+      const response = await fetch(`/ycode/api/apps/${selectedApp.id}/test`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ api_key: apiKey.trim() }),
+        body: JSON.stringify({ settings: trimmedCredentials() }),
       });
 
       const result = await response.json();
 
       if (result.data?.valid) {
-        toast.success('API key is valid');
+        toast.success('Connection is valid');
       } else {
-        toast.error(result.data?.error || 'Invalid API key');
+        toast.error(result.data?.error || result.error || 'Invalid credentials');
       }
     } catch (error) {
-      toast.error('Failed to test API key');
+      toast.error('Failed to test connection');
     } finally {
       setIsTesting(false);
     }
   };
 
-  const handleSaveApiKey = async () => {
-    if (!apiKey.trim()) return;
+  const handleSaveCredentials = async () => {
+    if (!selectedApp || !areCredentialsFilled) return;
 
-    setIsSavingKey(true);
+    setIsSavingCredentials(true);
     try {
-      const response = await fetch('/ycode/api/apps/mailerlite/settings', {
+      const values = trimmedCredentials();
+      const response = await fetch(`/ycode/api/apps/${selectedApp.id}/settings`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ api_key: apiKey.trim() }),
+        body: JSON.stringify(values),
       });
 
       const result = await response.json();
 
       if (result.data) {
-        setSavedApiKey(apiKey.trim());
+        setSavedCredentials(values);
         setIsConnected(true);
-        toast.success('API key saved');
+        toast.success('Settings saved');
         // Update app status in the list
-        setApps((prev) =>
-          prev.map((a) => (a.id === 'mailerlite' ? { ...a, connected: true } : a))
-        );
+        setAppConnected(selectedApp.id, true);
+
+        if (isListApp) {
+          loadLists(selectedApp.id);
+        }
       } else {
-        toast.error(result.error || 'Failed to save API key');
+        toast.error(result.error || 'Failed to save settings');
       }
     } catch (error) {
-      toast.error('Failed to save API key');
+      toast.error('Failed to save settings');
     } finally {
-      setIsSavingKey(false);
+      setIsSavingCredentials(false);
     }
   };
 
   const handleDisconnect = async () => {
+    if (!selectedApp) return;
+
     try {
-      await fetch('/ycode/api/apps/mailerlite/settings', {
+      await fetch(`/ycode/api/apps/${selectedApp.id}/settings`, {
         method: 'DELETE',
       });
 
-      setApiKey('');
-      setSavedApiKey('');
+      setCredentials({});
+      setSavedCredentials({});
       setIsConnected(false);
       setConnections([]);
+      setLists([]);
       setShowDisconnectDialog(false);
-      toast.success('MailerLite disconnected');
+      toast.success(`${selectedApp.name} disconnected`);
       // Update app status in the list
-      setApps((prev) =>
-        prev.map((a) => (a.id === 'mailerlite' ? { ...a, connected: false } : a))
-      );
+      setAppConnected(selectedApp.id, false);
     } catch (error) {
       toast.error('Failed to disconnect');
     }
   };
 
   // =========================================================================
-  // Connection actions
+  // Connection data
   // =========================================================================
 
-  const loadGroupsAndForms = useCallback(async () => {
-    setIsLoadingGroups(true);
-    setIsLoadingForms(true);
-
+  const loadLists = async (appId: string) => {
+    setIsLoadingLists(true);
     try {
-      const [groupsRes, formsRes] = await Promise.all([
-        fetch('/ycode/api/apps/mailerlite/groups'),
-        fetch('/ycode/api/form-submissions?summary=true'),
-      ]);
-
-      const groupsResult = await groupsRes.json();
-      const formsResult = await formsRes.json();
+      const response = await fetch(`/ycode/api/apps/${appId}/lists`);
+      const result = await response.json();
 
-      if (groupsResult.data) {
-        setGroups(groupsResult.data);
-      }
-      if (formsResult.data) {
-        setForms(formsResult.data);
+      if (result.data) {
+        setLists(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load data for connection setup');
       }
     } catch (error) {
-      console.error('Failed to load groups/forms:', error);
+      console.error('Failed to load lists:', error);
       toast.error('Failed to load data for connection setup');
     } finally {
-      setIsLoadingGroups(false);
+      setIsLoadingLists(false);
+    }
+  };
+
+  const loadForms = async () => {
+    setIsLoadingForms(true);
+    try {
+      const response = await fetch('/ycode/api/form-submissions?summary=true');
+      const result = await response.json();
+
+      if (result.data) {
+        setForms(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load forms:', error);
+    } finally {
       setIsLoadingForms(false);
     }
-  }, []);
+  };
+
+  // Load mappable app fields (they can depend on the selected list)
+  useEffect(() => {
+    if (!selectedAppId || !isListApp || !isConnected) return;
+
+    const query = connectionListId ? `?list_id=${encodeURIComponent(connectionListId)}` : '';
+    fetch(`/ycode/api/apps/${selectedAppId}/fields${query}`)
+      .then((response) => response.json())
+      .then((result) => setAppFields(result.data || []))
+      .catch((error) => console.error('Failed to load fields:', error));
+  }, [selectedAppId, isListApp, isConnected, connectionListId]);
+
+  // =========================================================================
+  // Connection actions
+  // =========================================================================
 
   const resetConnectionForm = () => {
     setEditingConnectionId(null);
     setConnectionFormId('');
-    setConnectionGroupId('');
-    setConnectionGroupName('');
-    setConnectionFieldMappings([{ formField: '', mailerliteField: 'email' }]);
+    setConnectionListId('');
+    setConnectionListName('');
+    setConnectionHookUrl('');
+    setConnectionFieldMappings(getDefaultFieldMappings());
   };
 
-  const expandConnection = (connection: MailerLiteConnection) => {
+  const expandConnection = (connection: AppConnection) => {
     if (expandedConnectionId === connection.id) {
       setExpandedConnectionId(null);
       resetConnectionForm();
@@ -368,12 +436,13 @@ export default function AppsPage() {
     }
     setEditingConnectionId(connection.id);
     setConnectionFormId(connection.formId);
-    setConnectionGroupId(connection.groupId);
-    setConnectionGroupName(connection.groupName);
+    setConnectionListId(connection.listId || '');
+    setConnectionListName(connection.listName || '');
+    setConnectionHookUrl(connection.hookUrl || '');
     setConnectionFieldMappings(
       connection.fieldMappings.length > 0
         ? connection.fieldMappings
-        : [{ formField: '', mailerliteField: 'email' }]
+        : getDefaultFieldMappings()
     );
     setExpandedConnectionId(connection.id);
   };
@@ -385,32 +454,60 @@ export default function AppsPage() {
     setExpandedConnectionId(newId);
   };
 
-  const handleSaveConnection = async () => {
-    if (!connectionFormId || !connectionGroupId) {
-      toast.error('Please select a form and a group');
-      return;
+  /** Build a connection from the connection form */
+  const buildConnection = (): AppConnection => ({
+    id: editingConnectionId || crypto.randomUUID(),
+    formId: connectionFormId,
+    ...(isListApp
+      ? { listId: connectionListId, listName: connectionListName }
+      : { hookUrl: connectionHookUrl.trim() }),
+    fieldMappings: connectionFieldMappings.filter((m) => m.formField && m.appField),
+    enabled: true,
+  });
+
+  const isConnectionFormValid = !!connectionFormId && (
+    isListApp
+      ? !!connectionListId && connectionFieldMappings.some(
+        (m) => m.appField === EMAIL_APP_FIELD && m.formField
+      )
+      : !!connectionHookUrl.trim()
+  );
+
+  /**
+   * Save the connections list
+   * Returns true if saved
+   */
+  const saveConnections = async (updatedConnections: AppConnection[]): Promise<boolean> => {
+    if (!selectedApp) return false;
+
+    const response = await fetch(`/ycode/api/apps/${selectedApp.id}/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ connections: updatedConnections }),
+    });
+
+    const result = await response.json();
+
+    if (!result.data) {
+      toast.error(result.error || 'Failed to save connections');
+      return false;
     }
 
-    const emailMapping = connectionFieldMappings.find((m) => m.mailerliteField === 'email');
-    if (!emailMapping || !emailMapping.formField) {
-      toast.error('Email field mapping is required');
+    setConnections(updatedConnections);
+    // Hook apps count as connected once they have settings stored
+    setAppConnected(selectedApp.id, true);
+    return true;
+  };
+
+  const handleSaveConnection = async () => {
+    if (!isConnectionFormValid) {
+      toast.error(isListApp ? `Please select a form and a ${listLabel.toLowerCase()}` : 'Please select a form and enter a hook URL');
       return;
     }
 
-    const validMappings = connectionFieldMappings.filter(
-      (m) => m.formField && m.mailerliteField
-    );
-
-    const connection: MailerLiteConnection = {
-      id: editingConnectionId || crypto.randomUUID(),
-      formId: connectionFormId,
-      groupId: connectionGroupId,
-      groupName: connectionGroupName,
-      fieldMappings: validMappings,
-      enabled: true,
-    };
+    const connection = buildConnection();
 
-    let updatedConnections: MailerLiteConnection[];
+    let updatedConnections: AppConnection[];
 
     if (editingConnectionId) {
       updatedConnections = connections.map((c) =>
@@ -422,26 +519,40 @@ export default function AppsPage() {
 
     setIsSavingConnections(true);
     try {
-      const response = await fetch('/ycode/api/apps/mailerlite/settings', {
-        method: 'PUT',
+      if (await saveConnections(updatedConnections)) {
+        setExpandedConnectionId(null);
+        resetConnectionForm();
+        toast.success(editingConnectionId ? 'Connection updated' : 'Connection added');
+      }
+    } catch (error) {
+      toast.error('Failed to save connection');
+    } finally {
+      setIsSavingConnections(false);
+    }
+  };
+
+  const handleTestHook = async () => {
+    if (!selectedApp || !connectionHookUrl.trim()) return;
+
+    setIsTestingHook(true);
+    try {
+      const response = await fetch(`/ycode/api/apps/${selectedApp.id}/test`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ connections: updatedConnections }),
+        body: JSON.stringify({ connection: buildConnection() }),
       });
 
       const result = await response.json();
 
-      if (result.data) {
-        setConnections(updatedConnections);
-        setExpandedConnectionId(null);
-        resetConnectionForm();
-        toast.success(editingConnectionId ? 'Connection updated' : 'Connection added');
+      if (result.data?.valid) {
+        toast.success(`Sample submission sent to ${selectedApp.name}`);
       } else {
-        toast.error(result.error || 'Failed to save connection');
+        toast.error(result.data?.error || result.error || 'Failed to send sample submission');
       }
     } catch (error) {
-      toast.error('Failed to save connection');
+      toast.error('Failed to send sample submission');
     } finally {
-      setIsSavingConnections(false);
+      setIsTestingHook(false);
     }
   };
 
@@ -451,13 +562,7 @@ export default function AppsPage() {
     );
 
     try {
-      await fetch('/ycode/api/apps/mailerlite/settings', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ connections: updatedConnections }),
-      });
-
-      setConnections(updatedConnections);
+      await saveConnections(updatedConnections);
     } catch (error) {
       toast.error('Failed to update connection');
     }
@@ -471,15 +576,10 @@ export default function AppsPage() {
     );
 
     try {
-      await fetch('/ycode/api/apps/mailerlite/settings', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ connections: updatedConnections }),
-      });
-
-      setConnections(updatedConnections);
-      setConnectionToDelete(null);
-      toast.success('Connection deleted');
+      if (await saveConnections(updatedConnections)) {
+        setConnectionToDelete(null);
+        toast.success('Connection deleted');
+      }
     } catch (error) {
       toast.error('Failed to delete connection');
     }
@@ -490,14 +590,14 @@ export default function AppsPage() {
   // =========================================================================
 
   const addFieldMapping = () => {
-    const usedFields = new Set(connectionFieldMappings.map((m) => m.mailerliteField));
-    const availableField = MAILERLITE_SUBSCRIBER_FIELDS.find(
-      (f) => !usedFields.has(f.key) && !f.required
-    );
+    const usedFields = new Set(connectionFieldMappings.map((m) => m.appField));
+    const availableField = isListApp
+      ? appFields.find((f) => !usedFields.has(f.key) && !f.required)
+      : undefined;
 
     setConnectionFieldMappings([
       ...connectionFieldMappings,
-      { formField: '', mailerliteField: availableField?.key || '' },
+      { formField: '', appField: availableField?.key || '' },
     ]);
   };
 
@@ -507,7 +607,7 @@ export default function AppsPage() {
 
   const updateFieldMapping = (
     index: number,
-    field: 'formField' | 'mailerliteField',
+    field: 'formField' | 'appField',
     value: string
   ) => {
     const updated = [...connectionFieldMappings];
@@ -515,6 +615,18 @@ export default function AppsPage() {
     setConnectionFieldMappings(updated);
   };
 
+  /** Short description of where a connection sends submissions */
+  const getConnectionTarget = (connection: AppConnection): string => {
+    if (connection.listName) return connection.listName;
+    if (!connection.hookUrl) return '';
+
+    try {
+      return new URL(connection.hookUrl).host;
+    } catch {
+      return connection.hookUrl;
+    }
+  };
+
   // =========================================================================
   // Connection form (reusable for both new and editing)
   // =========================================================================
@@ -554,42 +666,68 @@ export default function AppsPage() {
         )}
       </Field>
 
-      {/* Group Selection */}
-      <Field>
-        <FieldLabel>MailerLite Group</FieldLabel>
-        {isLoadingGroups ? (
-          <div className="flex items-center gap-2 text-xs text-muted-foreground py-1">
-            <Spinner /> Loading groups...
+      {isListApp ? (
+        /* List Selection */
+        <Field>
+          <FieldLabel>{selectedApp?.name} {listLabel}</FieldLabel>
+          {isLoadingLists ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground py-1">
+              <Spinner /> Loading {listLabel.toLowerCase()}s...
+            </div>
+          ) : lists.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-1">
+              No {listLabel.toLowerCase()}s found. Create one in {selectedApp?.name} first.
+            </p>
+          ) : (
+            <Select
+              value={connectionListId}
+              onValueChange={(value) => {
+                setConnectionListId(value);
+                const list = lists.find((l) => l.id === value);
+                setConnectionListName(list?.name || '');
+              }}
+            >
+              <SelectTrigger className="text-xs">
+                <SelectValue placeholder={`Select a ${listLabel.toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {lists.map((list) => (
+                  <SelectItem
+                    key={list.id}
+                    value={list.id}
+                  >
+                    {list.name}
+                    {list.count !== undefined && ` (${list.count} subscribers)`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </Field>
+      ) : (
+        /* Hook URL */
+        <Field>
+          <FieldLabel htmlFor="hook-url">Hook URL</FieldLabel>
+          <Input
+            id="hook-url"
+            type="url"
+            placeholder="https://"
+            value={connectionHookUrl}
+            onChange={(e) => setConnectionHookUrl(e.target.value)}
+            className="font-mono text-xs"
+          />
+          <div className="flex gap-2 mt-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleTestHook}
+              disabled={!connectionHookUrl.trim() || isTestingHook}
+            >
+              {isTestingHook ? 'Sending...' : 'Send sample'}
+            </Button>
           </div>
-        ) : groups.length === 0 ? (
-          <p className="text-xs text-muted-foreground py-1">
-            No groups found. Create a group in MailerLite first.
-          </p>
-        ) : (
-          <Select
-            value={connectionGroupId}
-            onValueChange={(value) => {
-              setConnectionGroupId(value);
-              const group = groups.find((g) => g.id === value);
-              setConnectionGroupName(group?.name || '');
-            }}
-          >
-            <SelectTrigger className="text-xs">
-              <SelectValue placeholder="Select a group" />
-            </SelectTrigger>
-            <SelectContent>
-              {groups.map((group) => (
-                <SelectItem
-                  key={group.id}
-                  value={group.id}
-                >
-                  {group.name} ({group.active_count} subscribers)
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        )}
-      </Field>
+        </Field>
+      )}
 
       {/* Field Mappings */}
       <Field>
@@ -599,83 +737,98 @@ export default function AppsPage() {
             variant="ghost"
             size="xs"
             onClick={addFieldMapping}
-            disabled={connectionFieldMappings.length >= MAILERLITE_SUBSCRIBER_FIELDS.length}
+            disabled={isListApp && connectionFieldMappings.length >= appFields.length}
           >
             <Icon name="plus" className="size-3 mr-1" />
             Add field
           </Button>
         </div>
         <FieldDescription>
-          Map form fields to MailerLite fields. Email is required.
+          {isListApp
+            ? `Map form fields to ${selectedApp?.name} fields. Email is required.`
+            : 'Optional. Rename the form fields sent to the hook, or leave empty to send all fields as submitted.'}
         </FieldDescription>
 
-        <div className="space-y-2 mt-2">
-          <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center text-[11px] text-muted-foreground px-1">
-            <span>Form field</span>
-            <span />
-            <span>MailerLite field</span>
-            <span className="w-7" />
-          </div>
+        {connectionFieldMappings.length > 0 && (
+          <div className="space-y-2 mt-2">
+            <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center text-[11px] text-muted-foreground px-1">
+              <span>Form field</span>
+              <span />
+              <span>{selectedApp?.name} field</span>
+              <span className="w-7" />
+            </div>
 
-          {connectionFieldMappings.map((mapping, index) => {
-            const isEmailField = mapping.mailerliteField === 'email';
-
-            return (
-              <div
-                key={index}
-                className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center"
-              >
-                <Input
-                  placeholder="e.g., email"
-                  value={mapping.formField}
-                  onChange={(e) =>
-                    updateFieldMapping(index, 'formField', e.target.value)
-                  }
-                  className="text-xs"
-                />
+            {connectionFieldMappings.map((mapping, index) => {
+              const isEmailField = isListApp && mapping.appField === EMAIL_APP_FIELD;
 
-                <Icon
-                  name="arrowLeft"
-                  className="size-3 text-muted-foreground rotate-180"
-                />
-
-                <Select
-                  value={mapping.mailerliteField}
-                  onValueChange={(value) =>
-                    updateFieldMapping(index, 'mailerliteField', value)
-                  }
+              return (
+                <div
+                  key={index}
+                  className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center"
                 >
-                  <SelectTrigger className="text-xs">
-                    <SelectValue placeholder="Select field" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {MAILERLITE_SUBSCRIBER_FIELDS.map((field) => (
-                      <SelectItem
-                        key={field.key}
-                        value={field.key}
-                      >
-                        {field.label}
-                        {field.required && ' *'}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                <div className="w-7 flex justify-center">
-                  {!isEmailField && (
-                    <Button
-                      variant="ghost"
-                      size="xs"
-                      onClick={() => removeFieldMapping(index)}
+                  <Input
+                    placeholder="e.g., email"
+                    value={mapping.formField}
+                    onChange={(e) =>
+                      updateFieldMapping(index, 'formField', e.target.value)
+                    }
+                    className="text-xs"
+                  />
+
+                  <Icon
+                    name="arrowLeft"
+                    className="size-3 text-muted-foreground rotate-180"
+                  />
+
+                  {isListApp ? (
+                    <Select
+                      value={mapping.appField}
+                      onValueChange={(value) =>
+                        updateFieldMapping(index, 'appField', value)
+                      }
                     >
-                      <Icon name="x" className="size-3" />
-                    </Button>
+                      <SelectTrigger className="text-xs">
+                        <SelectValue placeholder="Select field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {appFields.map((field) => (
+                          <SelectItem
+                            key={field.key}
+                            value={field.key}
+                          >
+                            {field.label}
+                            {field.required && ' *'}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      placeholder="e.g., email_address"
+                      value={mapping.appField}
+                      onChange={(e) =>
+                        updateFieldMapping(index, 'appField', e.target.value)
+                      }
+                      className="text-xs"
+                    />
                   )}
+
+                  <div className="w-7 flex justify-center">
+                    {!isEmailField && (
+                      <Button
+                        variant="ghost"
+                        size="xs"
+                        onClick={() => removeFieldMapping(index)}
+                      >
+                        <Icon name="x" className="size-3" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        )}
       </Field>
     </>
   );
@@ -690,6 +843,8 @@ export default function AppsPage() {
   const filteredApps = apps.filter(
     (app) => !connectedIds.has(app.id) && app.categories.includes(selectedCategory)
   );
+  const canManageConnections = isConnected || !hasCredentials;
+  const canDisconnect = hasCredentials ? isConnected : connections.length > 0;
 
   if (isLoading) {
     return (
@@ -781,14 +936,14 @@ export default function AppsPage() {
         }}
       >
         <SheetContent className="sm:max-w-lg overflow-y-auto">
-          {selectedAppId === 'mailerlite' && (
+          {selectedApp && integration && (
             <>
               <SheetHeader>
                 <SheetTitle className="mr-auto">
-                  MailerLite
+                  {selectedApp.name}
                 </SheetTitle>
                 <SheetDescription className="sr-only">
-                  MailerLite integration settings
+                  {selectedApp.name} integration settings
                 </SheetDescription>
               </SheetHeader>
 
@@ -799,71 +954,88 @@ export default function AppsPage() {
               ) : (
                 <div className="mt-6 space-y-8">
 
-                  {/* API Key Section */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <FieldLegend>API Key</FieldLegend>
-                      {isConnected && (
-                        <Button
-                          variant="secondary"
-                          size="xs"
-                          onClick={() => setShowDisconnectDialog(true)}
-                        >
-                          Disconnect
-                        </Button>
-                      )}
-                    </div>
-                    <FieldDescription>
-                      Enter your MailerLite API key. Find it in{' '}
-                      <span className="text-foreground">MailerLite &rarr; Integrations &rarr; API</span>.
-                    </FieldDescription>
-
-                    <Field>
-                      <FieldLabel htmlFor="api-key">API Key</FieldLabel>
-                      <Input
-                        id="api-key"
-                        type="password"
-                        placeholder="Enter your MailerLite API key"
-                        value={apiKey}
-                        onChange={(e) => setApiKey(e.target.value)}
-                        className="font-mono text-xs"
-                      />
-                      <div className="flex gap-2 mt-2">
+                  {/* Credentials Section */}
+                  {hasCredentials && (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <FieldLegend>Credentials</FieldLegend>
+                        {isConnected && (
+                          <Button
+                            variant="secondary"
+                            size="xs"
+                            onClick={() => setShowDisconnectDialog(true)}
+                          >
+                            Disconnect
+                          </Button>
+                        )}
+                      </div>
+
+                      {integration.credentials.map((credential) => (
+                        <Field key={credential.key}>
+                          <FieldLabel htmlFor={`credential-${credential.key}`}>{credential.label}</FieldLabel>
+                          {credential.description && (
+                            <FieldDescription>{credential.description}</FieldDescription>
+                          )}
+                          <Input
+                            id={`credential-${credential.key}`}
+                            type="password"
+                            placeholder={credential.placeholder}
+                            value={credentials[credential.key] || ''}
+                            onChange={(e) =>
+                              setCredentials((prev) => ({ ...prev, [credential.key]: e.target.value }))
+                            }
+                            className="font-mono text-xs"
+                          />
+                        </Field>
+                      ))}
+
+                      <div className="flex gap-2">
                         <Button
                           variant="secondary"
                           size="sm"
-                          onClick={handleTestApiKey}
-                          disabled={!apiKey.trim() || isTesting}
+                          onClick={handleTestCredentials}
+                          disabled={!areCredentialsFilled || isTesting}
                         >
                           {isTesting ? 'Testing...' : 'Test connection'}
                         </Button>
                         <Button
                           size="sm"
-                          onClick={handleSaveApiKey}
-                          disabled={!apiKey.trim() || apiKey === savedApiKey || isSavingKey}
+                          onClick={handleSaveCredentials}
+                          disabled={!areCredentialsFilled || !areCredentialsChanged || isSavingCredentials}
                         >
-                          {isSavingKey ? 'Saving...' : 'Save'}
+                          {isSavingCredentials ? 'Saving...' : 'Save'}
                         </Button>
                       </div>
-                    </Field>
-                  </div>
+                    </div>
+                  )}
 
                   {/* Connections Section */}
-                  {isConnected && (
-                    <div className="space-y-4 border-t pt-6">
+                  {canManageConnections && (
+                    <div className={`space-y-4 ${hasCredentials ? 'border-t pt-6' : ''}`}>
                       <div className="flex items-center justify-between">
                         <FieldLegend>Connections</FieldLegend>
-                        <Button
-                          variant="secondary"
-                          size="xs"
-                          onClick={addNewConnection}
-                        >
-                          <Icon name="plus" className="size-3 mr-1" />
-                          Add
-                        </Button>
+                        <div className="flex gap-2">
+                          {!hasCredentials && canDisconnect && (
+                            <Button
+                              variant="secondary"
+                              size="xs"
+                              onClick={() => setShowDisconnectDialog(true)}
+                            >
+                              Disconnect
+                            </Button>
+                          )}
+                          <Button
+                            variant="secondary"
+                            size="xs"
+                            onClick={addNewConnection}
+                          >
+                            <Icon name="plus" className="size-3 mr-1" />
+                            Add
+                          </Button>
+                        </div>
                       </div>
                       <FieldDescription>
-                        Map form submissions to MailerLite subscriber groups.
+                        {integration.connectionHelp}
                       </FieldDescription>
 
                       {connections.length > 0 ? (
@@ -895,11 +1067,13 @@ export default function AppsPage() {
                                         </Label>
                                         <span className="text-muted-foreground text-xs">&rarr;</span>
                                         <span className="text-xs text-muted-foreground truncate">
-                                          {connection.groupName}
+                                          {getConnectionTarget(connection)}
                                         </span>
                                       </div>
                                       <div className="text-[11px] text-muted-foreground">
-                                        {connection.fieldMappings.length} field{connection.fieldMappings.length !== 1 ? 's' : ''} mapped
+                                        {connection.fieldMappings.length > 0
+                                          ? `${connection.fieldMappings.length} field${connection.fieldMappings.length !== 1 ? 's' : ''} mapped`
+                                          : 'All fields'}
                                       </div>
                                     </div>
 
@@ -934,14 +1108,7 @@ export default function AppsPage() {
                                       <Button
                                         size="sm"
                                         onClick={handleSaveConnection}
-                                        disabled={
-                                          !connectionFormId ||
-                                          !connectionGroupId ||
-                                          !connectionFieldMappings.some(
-                                            (m) => m.mailerliteField === 'email' && m.formField
-                                          ) ||
-                                          isSavingConnections
-                                        }
+                                        disabled={!isConnectionFormValid || isSavingConnections}
                                       >
                                         {isSavingConnections ? 'Saving...' : 'Save changes'}
                                       </Button>
@@ -954,7 +1121,7 @@ export default function AppsPage() {
                         </div>
                       ) : expandedConnectionId ? null : (
                         <div className="py-6 text-center text-muted-foreground text-xs border border-dashed rounded-lg">
-                          No connections yet. Add one to start sending form data to MailerLite.
+                          No connections yet. Add one to start sending form data to {selectedApp.name}.
                         </div>
                       )}
 
@@ -981,14 +1148,7 @@ export default function AppsPage() {
                               <Button
                                 size="sm"
                                 onClick={handleSaveConnection}
-                                disabled={
-                                  !connectionFormId ||
-                                  !connectionGroupId ||
-                                  !connectionFieldMappings.some(
-                                    (m) => m.mailerliteField === 'email' && m.formField
-                                  ) ||
-                                  isSavingConnections
-                                }
+                                disabled={!isConnectionFormValid || isSavingConnections}
                               >
                                 {isSavingConnections ? 'Saving...' : 'Add connection'}
                               </Button>
@@ -1009,8 +1169,8 @@ export default function AppsPage() {
       <ConfirmDialog
         open={showDisconnectDialog}
         onOpenChange={setShowDisconnectDialog}
-        title="Disconnect MailerLite?"
-        description="This will remove your API key and all connections. Form submissions will no longer be sent to MailerLite."
+        title={`Disconnect ${selectedApp?.name}?`}
+        description={`This will remove ${hasCredentials ? 'your credentials and ' : ''}all connections. Form submissions will no longer be sent to ${selectedApp?.name}.`}
         confirmLabel="Disconnect"
         cancelLabel="Cancel"
         confirmVariant="destructive"
@@ -1025,7 +1185,7 @@ export default function AppsPage() {
           if (!open) setConnectionToDelete(null);
         }}
         title="Delete connection?"
-        description={`This will remove the connection between form "${connectionToDelete?.formId}" and MailerLite group "${connectionToDelete?.groupName}".`}
+        description={`This will remove the connection between form "${connectionToDelete?.formId}" and ${selectedApp?.name}${connectionToDelete?.listName ? ` ${listLabel.toLowerCase()} "${connectionToDelete.listName}"` : ''}.`}
         confirmLabel="Delete"
         cancelLabel="Cancel"
         confirmVariant="destructive"
@@ -5,9 +5,11 @@ import { Label } from '@/components/ui/label';
 import {
   Field,
   FieldDescription,
+  FieldError,
   FieldLabel,
 } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
@@ -44,6 +46,7 @@ import {
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { Spinner } from '@/components/ui/spinner';
 import { toast } from 'sonner';
+import { validateWebhookTemplate } from '@/lib/webhook-utils';
 
 // =============================================================================
 // Types
@@ -60,7 +63,26 @@ type WebhookEventType =
   | 'page.published'
   | 'page.deleted'
   | 'asset.uploaded'
-  | 'asset.deleted';
+  | 'asset.deleted'
+  | 'component.created'
+  | 'component.updated'
+  | 'component.deleted'
+  | 'layer_style.created'
+  | 'layer_style.updated'
+  | 'layer_style.deleted'
+  | 'locale.created'
+  | 'locale.updated'
+  | 'locale.deleted'
+  | 'translation.created'
+  | 'translation.updated'
+  | 'translation.deleted'
+  | 'translation.bulk_updated'
+  | 'collection.created'
+  | 'collection.updated'
+  | 'collection.deleted'
+  | 'collection_field.created'
+  | 'collection_field.updated'
+  | 'collection_field.deleted';
 
 interface WebhookFilters {
   form_id?: string | null;
@@ -77,6 +99,8 @@ interface Webhook {
   enabled: boolean;
   last_triggered_at: string | null;
   failure_count: number;
+  disabled_reason: string | null;
+  payload_template: string | null;
   created_at: string;
   updated_at: string;
   generated_secret?: string; // Only present on creation
@@ -89,21 +113,52 @@ interface WebhookDelivery {
   payload: Record<string, unknown>;
   response_status: number | null;
   response_body: string | null;
-  status: 'pending' | 'success' | 'failed';
+  status: 'pending' | 'success' | 'retrying' | 'failed';
   attempts: number;
   duration_ms: number | null;
+  next_retry_at: string | null;
+  last_attempt_at: string | null;
   created_at: string;
 }
 
+type DeliveriesFilter = 'all' | 'failed';
+
 // Event type labels for UI
 const EVENT_TYPES: { value: WebhookEventType; label: string; description: string }[] = [
   { value: 'form.submitted', label: 'Form Submitted', description: 'When a form submission is received' },
-  { value: 'site.published', label: 'Site Published', description: 'When the site is published' },
+  { value: 'site.published', label: 'Site Published', description: 'When the site is published, manually or by a schedule' },
   { value: 'collection_item.created', label: 'Collection Item Created', description: 'When a CMS item is created' },
   { value: 'collection_item.updated', label: 'Collection Item Updated', description: 'When a CMS item is updated' },
   { value: 'collection_item.deleted', label: 'Collection Item Deleted', description: 'When a CMS item is deleted' },
+  { value: 'collection.created', label: 'Collection Created', description: 'When a CMS collection is created' },
+  { value: 'collection.updated', label: 'Collection Updated', description: 'When a CMS collection is renamed or changed' },
+  { value: 'collection.deleted', label: 'Collection Deleted', description: 'When a CMS collection is deleted' },
+  { value: 'collection_field.created', label: 'Collection Field Created', description: 'When a field is added to a collection' },
+  { value: 'collection_field.updated', label: 'Collection Field Updated', description: 'When a collection field is changed' },
+  { value: 'collection_field.deleted', label: 'Collection Field Deleted', description: 'When a collection field is deleted' },
+  { value: 'component.created', label: 'Component Created', description: 'When a component is created' },
+  { value: 'component.updated', label: 'Component Updated', description: 'When a component is changed' },
+  { value: 'component.deleted', label: 'Component Deleted', description: 'When a component is deleted' },
+  { value: 'layer_style.created', label: 'Layer Style Created', description: 'When a layer style is created' },
+  { value: 'layer_style.updated', label: 'Layer Style Updated', description: 'When a layer style is changed' },
+  { value: 'layer_style.deleted', label: 'Layer Style Deleted', description: 'When a layer style is deleted' },
+  { value: 'locale.created', label: 'Locale Created', description: 'When a locale is added' },
+  { value: 'locale.updated', label: 'Locale Updated', description: 'When a locale is changed' },
+  { value: 'locale.deleted', label: 'Locale Deleted', description: 'When a locale is deleted' },
+  { value: 'translation.created', label: 'Translation Created', description: 'When a translation is added' },
+  { value: 'translation.updated', label: 'Translation Updated', description: 'When a translation is changed' },
+  { value: 'translation.deleted', label: 'Translation Deleted', description: 'When a translation is deleted' },
+  { value: 'translation.bulk_updated', label: 'Translations Bulk Updated', description: 'When translations are saved or deleted in bulk' },
 ];
 
+// Events that can be filtered to a specific collection
+const COLLECTION_EVENT_PREFIXES = ['collection_item.', 'collection.', 'collection_field.'];
+
+const PAYLOAD_TEMPLATE_PLACEHOLDER = `{
+  "text": "New {{event}} event",
+  "data": "{{data}}"
+}`;
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -120,6 +175,7 @@ export default function WebhooksPage() {
   const [webhookEvent, setWebhookEvent] = useState<WebhookEventType | ''>('');
   const [webhookFilterFormId, setWebhookFilterFormId] = useState<string>('');
   const [webhookFilterCollectionId, setWebhookFilterCollectionId] = useState<string>('');
+  const [webhookPayloadTemplate, setWebhookPayloadTemplate] = useState('');
   const [generateSecret, setGenerateSecret] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -145,6 +201,13 @@ export default function WebhooksPage() {
   const [selectedWebhook, setSelectedWebhook] = useState<Webhook | null>(null);
   const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
   const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+  const [deliveriesFilter, setDeliveriesFilter] = useState<DeliveriesFilter>('all');
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  const isCollectionEvent = !!webhookEvent && COLLECTION_EVENT_PREFIXES.some((prefix) => webhookEvent.startsWith(prefix));
+  const payloadTemplateError = webhookPayloadTemplate.trim()
+    ? validateWebhookTemplate(webhookPayloadTemplate)
+    : null;
 
   // Fetch webhooks on mount
   useEffect(() => {
@@ -172,6 +235,11 @@ export default function WebhooksPage() {
       return;
     }
 
+    if (payloadTemplateError) {
+      toast.error(payloadTemplateError);
+      return;
+    }
+
     setIsSaving(true);
     try {
       const isEditing = !!editingWebhook;
@@ -186,9 +254,11 @@ export default function WebhooksPage() {
       if (webhookFilterCollectionId) filters.collection_id = webhookFilterCollectionId;
       const hasFilters = Object.keys(filters).length > 0;
 
+      const payloadTemplate = webhookPayloadTemplate.trim() || null;
+
       const body = isEditing
-        ? { name: webhookName.trim(), url: webhookUrl.trim(), events: [webhookEvent], filters: hasFilters ? filters : null }
-        : { name: webhookName.trim(), url: webhookUrl.trim(), events: [webhookEvent], filters: hasFilters ? filters : null, generateSecret };
+        ? { name: webhookName.trim(), url: webhookUrl.trim(), events: [webhookEvent], filters: hasFilters ? filters : null, payload_template: payloadTemplate }
+        : { name: webhookName.trim(), url: webhookUrl.trim(), events: [webhookEvent], filters: hasFilters ? filters : null, payload_template: payloadTemplate, generateSecret };
 
       const response = await fetch(url, {
         method,
@@ -264,8 +334,9 @@ export default function WebhooksPage() {
         throw new Error(result.error || 'Failed to update webhook');
       }
 
+      // Use the saved webhook - re-enabling also resets the failure count
       setWebhooks((prev) =>
-        prev.map((w) => (w.id === webhook.id ? { ...w, enabled: !webhook.enabled } : w))
+        prev.map((w) => (w.id === webhook.id ? { ...w, ...result.data } : w))
       );
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to update webhook');
@@ -299,10 +370,16 @@ export default function WebhooksPage() {
   const handleViewDeliveries = async (webhook: Webhook) => {
     setSelectedWebhook(webhook);
     setShowDeliveriesSheet(true);
+    setDeliveriesFilter('all');
+    await loadDeliveries(webhook, 'all');
+  };
+
+  const loadDeliveries = async (webhook: Webhook, filter: DeliveriesFilter) => {
     setIsLoadingDeliveries(true);
 
     try {
-      const response = await fetch(`/ycode/api/webhooks/${webhook.id}/deliveries?limit=20`);
+      const statusParam = filter === 'failed' ? '&status=failed' : '';
+      const response = await fetch(`/ycode/api/webhooks/${webhook.id}/deliveries?limit=20${statusParam}`);
       const result = await response.json();
 
       if (result.data) {
@@ -316,6 +393,47 @@ export default function WebhooksPage() {
     }
   };
 
+  const handleDeliveriesFilterChange = (filter: DeliveriesFilter) => {
+    setDeliveriesFilter(filter);
+    if (selectedWebhook) {
+      loadDeliveries(selectedWebhook, filter);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id);
+    try {
+      const response = await fetch(
+        `/ycode/api/webhooks/${delivery.webhook_id}/deliveries/${delivery.id}/redeliver`,
+        { method: 'POST' }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to redeliver webhook');
+      }
+
+      if (result.data.status === 'success') {
+        toast.success('Redelivered successfully');
+      } else {
+        toast.error(`Redelivery failed${result.data.response_status ? ` (HTTP ${result.data.response_status})` : ''}`);
+      }
+
+      // Show the new delivery at the top of the log
+      if (deliveriesFilter === 'all' || result.data.status === 'failed') {
+        setDeliveries((prev) => [result.data, ...prev]);
+      }
+
+      // Refresh webhooks to update failure count and last triggered time
+      fetchWebhooks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeliver webhook');
+    } finally {
+      setRedeliveringId(null);
+    }
+  };
+
   const loadFilterData = async () => {
     setIsLoadingFilterData(true);
     try {
@@ -341,6 +459,7 @@ export default function WebhooksPage() {
     setWebhookEvent('');
     setWebhookFilterFormId('');
     setWebhookFilterCollectionId('');
+    setWebhookPayloadTemplate('');
     setGenerateSecret(true);
     setShowWebhookSheet(true);
     loadFilterData();
@@ -353,6 +472,7 @@ export default function WebhooksPage() {
     setWebhookEvent(webhook.events[0] || '');
     setWebhookFilterFormId(webhook.filters?.form_id || '');
     setWebhookFilterCollectionId(webhook.filters?.collection_id || '');
+    setWebhookPayloadTemplate(webhook.payload_template || '');
     setShowWebhookSheet(true);
     loadFilterData();
   };
@@ -365,6 +485,7 @@ export default function WebhooksPage() {
     setWebhookEvent('');
     setWebhookFilterFormId('');
     setWebhookFilterCollectionId('');
+    setWebhookPayloadTemplate('');
     setGenerateSecret(true);
   };
 
@@ -516,6 +637,12 @@ export default function WebhooksPage() {
                   </div>
                   <span className="shrink-0">Last triggered: {formatRelativeTime(webhook.last_triggered_at)}</span>
                 </div>
+
+                {!webhook.enabled && webhook.disabled_reason && (
+                  <div className="mt-2 text-xs text-destructive">
+                    {webhook.disabled_reason}. Fix the endpoint and turn the webhook back on to resume deliveries.
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -638,9 +765,7 @@ export default function WebhooksPage() {
               </Field>
             )}
 
-            {(webhookEvent === 'collection_item.created' ||
-              webhookEvent === 'collection_item.updated' ||
-              webhookEvent === 'collection_item.deleted') && (
+            {isCollectionEvent && (
               <Field>
                 <FieldLabel>Collection filter</FieldLabel>
                 <FieldDescription>
@@ -674,6 +799,22 @@ export default function WebhooksPage() {
               </Field>
             )}
 
+            <Field>
+              <FieldLabel htmlFor="webhook-payload-template">Payload template</FieldLabel>
+              <FieldDescription>
+                Optional JSON sent instead of the default payload. Use placeholders like
+                {' '}<code>{'{{data.fields.email}}'}</code> to insert event values.
+              </FieldDescription>
+              <Textarea
+                id="webhook-payload-template"
+                className="font-mono text-xs min-h-32"
+                placeholder={PAYLOAD_TEMPLATE_PLACEHOLDER}
+                value={webhookPayloadTemplate}
+                onChange={(e) => setWebhookPayloadTemplate(e.target.value)}
+              />
+              {payloadTemplateError && <FieldError>{payloadTemplateError}</FieldError>}
+            </Field>
+
             {editingWebhook ? (
               <div className="flex items-center justify-between">
                 <div>
@@ -707,7 +848,7 @@ export default function WebhooksPage() {
             <div className="flex gap-2">
               <Button
                 onClick={handleSaveWebhook}
-                disabled={!webhookName.trim() || !webhookUrl.trim() || !webhookEvent || isSaving}
+                disabled={!webhookName.trim() || !webhookUrl.trim() || !webhookEvent || !!payloadTemplateError || isSaving}
               >
                 {isSaving
                   ? 'Saving...'
@@ -821,13 +962,28 @@ export default function WebhooksPage() {
           </SheetHeader>
 
           <div className="mt-6">
+            <div className="mb-4">
+              <Select
+                value={deliveriesFilter}
+                onValueChange={(value) => handleDeliveriesFilterChange(value as DeliveriesFilter)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All deliveries</SelectItem>
+                  <SelectItem value="failed">Failed (out of retries)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             {isLoadingDeliveries ? (
               <div className="flex justify-center py-8">
                 <Spinner />
               </div>
             ) : deliveries.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground text-sm">
-                No deliveries yet
+                {deliveriesFilter === 'failed' ? 'No failed deliveries' : 'No deliveries yet'}
               </div>
             ) : (
               <div className="space-y-3">
@@ -848,9 +1004,21 @@ export default function WebhooksPage() {
                       >
                         {delivery.status}
                       </Badge>
-                      <span className="text-xs text-muted-foreground">
-                        {formatDate(delivery.created_at)}
-                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {formatDate(delivery.created_at)}
+                        </span>
+                        {delivery.status !== 'pending' && (
+                          <Button
+                            variant="secondary"
+                            size="xs"
+                            onClick={() => handleRedeliver(delivery)}
+                            disabled={redeliveringId === delivery.id}
+                          >
+                            {redeliveringId === delivery.id ? 'Sending...' : 'Redeliver'}
+                          </Button>
+                        )}
+                      </div>
                     </div>
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
                       <span>{delivery.event_type}</span>
@@ -866,8 +1034,20 @@ export default function WebhooksPage() {
                           <span>{delivery.duration_ms}ms</span>
                         </>
                       )}
+                      {delivery.attempts > 1 && (
+                        <>
+                          <span>•</span>
+                          <span>{delivery.attempts} attempts</span>
+                        </>
+                      )}
+                      {delivery.status === 'retrying' && delivery.next_retry_at && (
+                        <>
+                          <span>•</span>
+                          <span>Next retry {formatDate(delivery.next_retry_at)}</span>
+                        </>
+                      )}
                     </div>
-                    {delivery.response_body && delivery.status === 'failed' && (
+                    {delivery.response_body && (delivery.status === 'failed' || delivery.status === 'retrying') && (
                       <div className="mt-2 p-2 bg-secondary rounded text-xs font-mono break-all">
                         {delivery.response_body.slice(0, 200)}
                         {delivery.response_body.length > 200 && '...'}
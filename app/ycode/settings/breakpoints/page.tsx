@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  FieldDescription,
+  FieldLegend,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+import { toast } from 'sonner';
+
+import {
+  BASE_BREAKPOINT,
+  BREAKPOINTS_SETTING,
+  DEFAULT_BREAKPOINTS,
+  validateBreakpoints,
+  type BreakpointSetting,
+} from '@/lib/breakpoint-utils';
+import { slugify } from '@/lib/collection-utils';
+import { useBreakpoints } from '@/hooks/use-breakpoints';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+
+type BreakpointDirection = 'max' | 'min';
+
+/** Breakpoints whose prefix is fixed (their classes exist in templates and layers) */
+const BUILT_IN_BREAKPOINTS = DEFAULT_BREAKPOINTS.map((bp) => bp.value);
+
+/** Breakpoint row being edited, new breakpoints get their ID when saved */
+interface BreakpointRow extends BreakpointSetting {
+  key: string;
+}
+
+/** Create a unique breakpoint ID from its name */
+function createBreakpointValue(label: string, usedValues: Set<string>): string {
+  const base = slugify(label).replace(/[^a-z0-9-]/g, '') || 'breakpoint';
+  let value = base;
+  let counter = 2;
+  while (usedValues.has(value)) {
+    value = `${base}-${counter++}`;
+  }
+  return value;
+}
+
+export default function BreakpointsSettingsPage() {
+  const breakpoints = useBreakpoints();
+  const saveSettings = useSettingsStore((state) => state.saveSettings);
+  const [rows, setRows] = useState<BreakpointRow[]>(() =>
+    breakpoints.map(({ value, label, maxWidth, minWidth }) => ({ key: value, value, label, maxWidth, minWidth }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (key: string, updates: Partial<BreakpointRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...updates } : row)));
+  };
+
+  const handleDirectionChange = (row: BreakpointRow, direction: BreakpointDirection) => {
+    const width = row.maxWidth ?? row.minWidth;
+    updateRow(row.key, direction === 'max'
+      ? { maxWidth: width, minWidth: null }
+      : { maxWidth: null, minWidth: width });
+  };
+
+  const handleWidthChange = (row: BreakpointRow, value: string) => {
+    const width = value === '' ? 0 : parseInt(value, 10);
+    if (isNaN(width)) return;
+    updateRow(row.key, row.maxWidth !== null ? { maxWidth: width } : { minWidth: width });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    setRows((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    setRows((current) => [
+      ...current,
+      { key: `new-${Date.now()}`, value: '', label: 'Wide desktop', maxWidth: null, minWidth: 1440 },
+    ]);
+  };
+
+  const handleDelete = (key: string) => {
+    setRows((current) => current.filter((row) => row.key !== key));
+  };
+
+  const handleSave = async () => {
+    const validationError = validateBreakpoints(rows);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    // New breakpoints get an ID from their name, the ID is kept when renamed
+    const usedValues = new Set([...BUILT_IN_BREAKPOINTS, ...rows.map((row) => row.value).filter(Boolean)]);
+    const value: BreakpointSetting[] = rows.map(({ value: bpValue, label, maxWidth, minWidth }) => {
+      const id = bpValue || createBreakpointValue(label, usedValues);
+      usedValues.add(id);
+      return { value: id, label: label.trim(), maxWidth, minWidth };
+    });
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await saveSettings({ [BREAKPOINTS_SETTING]: value });
+    setIsSaving(false);
+
+    if (saved) {
+      setRows(value.map((bp) => ({ ...bp, key: bp.value })));
+      toast.success('Breakpoints saved');
+    } else {
+      setError('Failed to save breakpoints');
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto">
+        <header className="pt-8 pb-3">
+          <span className="text-base font-medium">Breakpoints</span>
+        </header>
+
+        <div className="flex flex-col gap-6 bg-secondary/20 p-8 rounded-lg">
+          <header className="flex justify-between">
+            <div>
+              <FieldLegend>Breakpoints</FieldLegend>
+              <FieldDescription>
+                Desktop is the base design. Other breakpoints override it up to
+                or from a width. Styles of a deleted breakpoint stop applying.
+              </FieldDescription>
+            </div>
+
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleAdd}
+              disabled={isSaving}
+            >
+              Add breakpoint
+            </Button>
+          </header>
+
+          {error && (
+            <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="border-t divide-y">
+            {rows.map((row, index) => {
+              const isBase = row.value === BASE_BREAKPOINT;
+              const isBuiltIn = BUILT_IN_BREAKPOINTS.includes(row.value);
+
+              return (
+                <div key={row.key} className="py-4 flex items-center gap-4">
+                  <Input
+                    value={row.label}
+                    onChange={(e) => updateRow(row.key, { label: e.target.value })}
+                    className="flex-1"
+                  />
+
+                  {isBase ? (
+                    <Label variant="muted" className="w-62">
+                      Base design
+                    </Label>
+                  ) : (
+                    <div className="w-62 flex items-center gap-2">
+                      <Select
+                        value={row.maxWidth !== null ? 'max' : 'min'}
+                        onValueChange={(direction) => handleDirectionChange(row, direction as BreakpointDirection)}
+                        disabled={isBuiltIn}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="max">Up to</SelectItem>
+                          <SelectItem value="min">From</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={(row.maxWidth ?? row.minWidth) || ''}
+                        onChange={(e) => handleWidthChange(row, e.target.value)}
+                        className="flex-1"
+                      />
+                      <span className="text-xs text-muted-foreground">px</span>
+                    </div>
+                  )}
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="secondary"
+                        size="xs"
+                        disabled={isSaving}
+                      >
+                        <Icon name="more" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => handleMove(index, -1)}
+                        disabled={index === 0}
+                      >
+                        Move up
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleMove(index, 1)}
+                        disabled={index === rows.length - 1}
+                      >
+                        Move down
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => handleDelete(row.key)}
+                        disabled={isBuiltIn}
+                      >
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
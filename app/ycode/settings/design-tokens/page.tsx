@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  FieldDescription,
+  FieldLegend,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+
+import { toast } from 'sonner';
+
+import {
+  DESIGN_TOKENS_SETTING,
+  createDesignTokenKey,
+  getDesignTokenVariable,
+} from '@/lib/design-token-utils';
+import { generateId } from '@/lib/utils';
+import { useDesignTokens } from '@/hooks/use-design-tokens';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import type { DesignToken, DesignTokenType } from '@/types';
+
+/** Sections of the page, one per token type */
+const TOKEN_SECTIONS: {
+  type: DesignTokenType;
+  title: string;
+  description: string;
+  addLabel: string;
+  newToken: Pick<DesignToken, 'name' | 'value'>;
+  placeholder: string;
+}[] = [
+  {
+    type: 'color',
+    title: 'Colors',
+    description: 'Colors appear as swatches in the color picker. The dark value is used in dark mode, the light value otherwise.',
+    addLabel: 'Add color',
+    newToken: { name: 'Brand', value: '#1c70d7' },
+    placeholder: '#1c70d7',
+  },
+  {
+    type: 'spacing',
+    title: 'Spacing',
+    description: 'Spacing tokens can be used for margin and padding.',
+    addLabel: 'Add spacing',
+    newToken: { name: 'Medium', value: '16px' },
+    placeholder: '16px',
+  },
+  {
+    type: 'fontSize',
+    title: 'Font sizes',
+    description: 'Font size tokens can be used for text sizes.',
+    addLabel: 'Add font size',
+    newToken: { name: 'Body', value: '16px' },
+    placeholder: '16px',
+  },
+];
+
+export default function DesignTokensSettingsPage() {
+  const tokens = useDesignTokens();
+  const saveSettings = useSettingsStore((state) => state.saveSettings);
+  const [rows, setRows] = useState<DesignToken[]>(tokens);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRow = (id: string, updates: Partial<DesignToken>) => {
+    setRows((current) => current.map((row) => (row.id === id ? { ...row, ...updates } : row)));
+  };
+
+  const handleAdd = (type: DesignTokenType, newToken: Pick<DesignToken, 'name' | 'value'>) => {
+    setRows((current) => [
+      ...current,
+      { id: generateId('token'), type, key: '', ...newToken, dark_value: null },
+    ]);
+  };
+
+  const handleDelete = (id: string) => {
+    setRows((current) => current.filter((row) => row.id !== id));
+  };
+
+  const handleSave = async () => {
+    if (rows.some((row) => !row.name.trim())) {
+      setError('Every token needs a name');
+      return;
+    }
+    if (rows.some((row) => !row.value.trim())) {
+      setError('Every token needs a value');
+      return;
+    }
+
+    // New tokens get a key from their name, the key is kept when renamed (layers reference it)
+    const usedKeys: Record<DesignTokenType, Set<string>> = {
+      color: new Set(),
+      spacing: new Set(),
+      fontSize: new Set(),
+    };
+    rows.forEach((row) => row.key && usedKeys[row.type].add(row.key));
+
+    const value: DesignToken[] = rows.map((row) => {
+      const key = row.key || createDesignTokenKey(row.name, usedKeys[row.type]);
+      usedKeys[row.type].add(key);
+
+      return {
+        ...row,
+        key,
+        name: row.name.trim(),
+        value: row.value.trim(),
+        dark_value: row.type === 'color' ? row.dark_value?.trim() || null : null,
+      };
+    });
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await saveSettings({ [DESIGN_TOKENS_SETTING]: value });
+
+    if (saved) {
+      setRows(value);
+      try {
+        // Regenerate the draft CSS, so it includes the changed custom properties
+        const { regenerateDraftCSS } = await import('@/lib/client/cssGenerator');
+        await regenerateDraftCSS();
+      } catch (cssError) {
+        console.error('Failed to generate CSS after saving design tokens:', cssError);
+      }
+      toast.success('Design tokens saved');
+    } else {
+      setError('Failed to save design tokens');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto">
+        <header className="pt-8 pb-3">
+          <span className="text-base font-medium">Design tokens</span>
+        </header>
+
+        <div className="flex flex-col gap-6">
+          {error && (
+            <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {TOKEN_SECTIONS.map((section) => {
+            const sectionRows = rows.filter((row) => row.type === section.type);
+
+            return (
+              <div key={section.type} className="flex flex-col gap-6 bg-secondary/20 p-8 rounded-lg">
+                <header className="flex justify-between">
+                  <div>
+                    <FieldLegend>{section.title}</FieldLegend>
+                    <FieldDescription>{section.description}</FieldDescription>
+                  </div>
+
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => handleAdd(section.type, section.newToken)}
+                    disabled={isSaving}
+                  >
+                    {section.addLabel}
+                  </Button>
+                </header>
+
+                {sectionRows.length > 0 && (
+                  <div className="border-t divide-y">
+                    {sectionRows.map((row) => (
+                      <div key={row.id} className="py-4 flex items-center gap-4">
+                        <div className="flex-1 flex flex-col gap-1">
+                          <Input
+                            value={row.name}
+                            onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                            placeholder="Name"
+                          />
+                          {row.key && (
+                            <span className="text-xs text-muted-foreground">
+                              {getDesignTokenVariable(row)}
+                            </span>
+                          )}
+                        </div>
+
+                        {section.type === 'color' ? (
+                          <div className="w-80 flex items-center gap-2">
+                            <div
+                              className="size-6 rounded border shrink-0"
+                              style={{ background: row.value }}
+                            />
+                            <Input
+                              value={row.value}
+                              onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                              placeholder={section.placeholder}
+                            />
+                            <div
+                              className="size-6 rounded border shrink-0"
+                              style={{ background: row.dark_value || row.value }}
+                            />
+                            <Input
+                              value={row.dark_value || ''}
+                              onChange={(e) => updateRow(row.id, { dark_value: e.target.value })}
+                              placeholder="Dark"
+                            />
+                          </div>
+                        ) : (
+                          <Input
+                            value={row.value}
+                            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                            placeholder={section.placeholder}
+                            className="w-40"
+                          />
+                        )}
+
+                        <Button
+                          variant="secondary"
+                          size="xs"
+                          onClick={() => handleDelete(row.id)}
+                          disabled={isSaving}
+                        >
+                          <Icon name="trash" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={isSaving}
+            >
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  FieldDescription,
+  FieldLegend,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+import { toast } from 'sonner';
+
+import {
+  FONT_ASSET_SOURCE,
+  FONT_DISPLAY_VALUES,
+  FONT_FALLBACK_VALUES,
+  FONT_WEIGHT_NAMES,
+  FONTS_SETTING,
+  createFontKey,
+} from '@/lib/font-utils';
+import { generateId } from '@/lib/utils';
+import { uploadFileApi } from '@/lib/api';
+import { useCustomFonts, useFontAssetUrls } from '@/hooks/use-custom-fonts';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useAssetsStore } from '@/stores/useAssetsStore';
+import type { CustomFont, FontDisplay, FontFallback, FontFile, FontStyle } from '@/types';
+
+const FONT_FILE_ACCEPT = '.woff2,.woff,.ttf,.otf,font/woff2,font/woff,font/ttf,font/otf';
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  woff2: 'font/woff2',
+  woff: 'font/woff',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+};
+
+/** Guess the weight and style of a font file from its name, e.g. "Inter-SemiBoldItalic.woff2" */
+function guessFontFileStyle(filename: string): { weight: number; style: FontStyle } {
+  const name = filename.toLowerCase().replace(/\.[^.]+$/, '').replace(/[^a-z0-9]/g, '');
+  const style: FontStyle = name.includes('italic') ? 'italic' : 'normal';
+
+  // Longest names first, so "semibold" isn't matched as "bold"
+  const match = Object.entries(FONT_WEIGHT_NAMES)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .find(([, weightName]) => name.includes(weightName.toLowerCase()));
+
+  return { weight: match ? Number(match[0]) : 400, style };
+}
+
+export default function FontsSettingsPage() {
+  const fonts = useCustomFonts();
+  const saveSettings = useSettingsStore((state) => state.saveSettings);
+  const assetsById = useAssetsStore((state) => state.assetsById);
+  const addAssetsToCache = useAssetsStore((state) => state.addAssetsToCache);
+  const [rows, setRows] = useState<CustomFont[]>(fonts);
+  const [weightInputs, setWeightInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fonts.map((font) => [font.id, font.weights.join(', ')]))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadingFontId, setUploadingFontId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<string | null>(null);
+
+  // Fetch the uploaded font files, to show their names
+  useFontAssetUrls(rows);
+
+  const updateFont = (fontId: string, updates: Partial<CustomFont>) => {
+    setRows((current) => current.map((font) => (font.id === fontId ? { ...font, ...updates } : font)));
+  };
+
+  const updateFile = (fontId: string, fileId: string, updates: Partial<FontFile>) => {
+    setRows((current) => current.map((font) => (
+      font.id === fontId
+        ? { ...font, files: font.files.map((file) => (file.id === fileId ? { ...file, ...updates } : file)) }
+        : font
+    )));
+  };
+
+  const addFile = (fontId: string, file: FontFile) => {
+    setRows((current) => current.map((font) => (
+      font.id === fontId ? { ...font, files: [...font.files, file] } : font
+    )));
+  };
+
+  const removeFile = (fontId: string, fileId: string) => {
+    setRows((current) => current.map((font) => (
+      font.id === fontId ? { ...font, files: font.files.filter((file) => file.id !== fileId) } : font
+    )));
+  };
+
+  const handleAddFont = () => {
+    const id = generateId('fnt');
+    setRows((current) => [
+      ...current,
+      { id, family: '', key: '', fallback: 'sans-serif', display: 'swap', weights: [], files: [] },
+    ]);
+    setWeightInputs((current) => ({ ...current, [id]: '' }));
+  };
+
+  const handleDeleteFont = (fontId: string) => {
+    setRows((current) => current.filter((font) => font.id !== fontId));
+  };
+
+  const handleUploadClick = (fontId: string) => {
+    uploadTargetRef.current = fontId;
+    fileInputRef.current?.click();
+  };
+
+  const handleUpload = async (fontId: string, file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (!FONT_MIME_TYPES[extension]) {
+      toast.error('Only WOFF2, WOFF, TTF and OTF files are allowed');
+      return;
+    }
+
+    // Browsers often report an empty type for font files
+    const fontFile = file.type ? file : new File([file], file.name, { type: FONT_MIME_TYPES[extension] });
+
+    setUploadingFontId(fontId);
+    const asset = await uploadFileApi(fontFile, FONT_ASSET_SOURCE);
+    setUploadingFontId(null);
+
+    if (!asset) {
+      toast.error('Failed to upload font file');
+      return;
+    }
+
+    addAssetsToCache([asset]);
+    addFile(fontId, {
+      id: generateId('fnf'),
+      ...guessFontFileStyle(file.name),
+      asset_id: asset.id,
+      url: null,
+      preload: false,
+    });
+  };
+
+  const handleAddUrl = (fontId: string) => {
+    addFile(fontId, {
+      id: generateId('fnf'),
+      weight: 400,
+      style: 'normal',
+      asset_id: null,
+      url: '',
+      preload: false,
+    });
+  };
+
+  const handleSave = async () => {
+    if (rows.some((font) => !font.family.trim())) {
+      setError('Every font needs a name');
+      return;
+    }
+    if (rows.some((font) => font.files.some((file) => !file.asset_id && !file.url?.trim()))) {
+      setError('Every font file needs a URL');
+      return;
+    }
+
+    // New fonts get a key from their name, the key is kept when renamed
+    const usedKeys = new Set(rows.map((font) => font.key).filter(Boolean));
+    const value: CustomFont[] = rows.map((font) => {
+      const key = font.key || createFontKey(font.family, usedKeys);
+      usedKeys.add(key);
+
+      const weights = (weightInputs[font.id] || '')
+        .split(/[\s,]+/)
+        .map(Number)
+        .filter((weight) => weight >= 1 && weight <= 1000);
+
+      return {
+        ...font,
+        key,
+        family: font.family.trim(),
+        weights: Array.from(new Set(weights)),
+        files: font.files.map((file) => ({ ...file, url: file.url?.trim() || null })),
+      };
+    });
+
+    setIsSaving(true);
+    setError(null);
+    const saved = await saveSettings({ [FONTS_SETTING]: value });
+
+    if (saved) {
+      setRows(value);
+      try {
+        // Regenerate the draft CSS, so it includes the changed @font-face rules
+        const { regenerateDraftCSS } = await import('@/lib/client/cssGenerator');
+        await regenerateDraftCSS();
+      } catch (cssError) {
+        console.error('Failed to generate CSS after saving fonts:', cssError);
+      }
+      toast.success('Fonts saved');
+    } else {
+      setError('Failed to save fonts');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto">
+        <header className="pt-8 pb-3">
+          <span className="text-base font-medium">Fonts</span>
+        </header>
+
+        <div className="flex flex-col gap-6 bg-secondary/20 p-8 rounded-lg">
+          <header className="flex justify-between">
+            <div>
+              <FieldLegend>Custom fonts</FieldLegend>
+              <FieldDescription>
+                Upload font files or declare fonts loaded with custom code.
+                Custom fonts show in the typography controls with their weights.
+              </FieldDescription>
+            </div>
+
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleAddFont}
+              disabled={isSaving}
+            >
+              Add font
+            </Button>
+          </header>
+
+          {error && (
+            <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={FONT_FILE_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file && uploadTargetRef.current) handleUpload(uploadTargetRef.current, file);
+            }}
+          />
+
+          {rows.length === 0 ? (
+            <Label variant="muted">No custom fonts yet</Label>
+          ) : (
+            <div className="border-t divide-y">
+              {rows.map((font) => (
+                <div key={font.id} className="py-4 flex flex-col gap-3">
+                  <div className="flex items-center gap-4">
+                    <Input
+                      value={font.family}
+                      placeholder="Font name, e.g. Inter"
+                      onChange={(e) => updateFont(font.id, { family: e.target.value })}
+                      className="flex-1"
+                    />
+
+                    <Select
+                      value={font.fallback}
+                      onValueChange={(fallback) => updateFont(font.id, { fallback: fallback as FontFallback })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FONT_FALLBACK_VALUES.map((fallback) => (
+                          <SelectItem key={fallback} value={fallback}>{fallback}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <Select
+                      value={font.display}
+                      onValueChange={(display) => updateFont(font.id, { display: display as FontDisplay })}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FONT_DISPLAY_VALUES.map((display) => (
+                          <SelectItem key={display} value={display}>Display: {display}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="secondary"
+                          size="xs"
+                          disabled={isSaving}
+                        >
+                          <Icon name="more" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleUploadClick(font.id)}>
+                          Upload font file
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleAddUrl(font.id)}>
+                          Add file URL
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleDeleteFont(font.id)}>
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+
+                  {font.files.map((file) => (
+                    <div key={file.id} className="flex items-center gap-4 pl-4">
+                      {file.asset_id ? (
+                        <Label variant="muted" className="flex-1 truncate">
+                          {assetsById[file.asset_id]?.filename || 'Uploaded file'}
+                        </Label>
+                      ) : (
+                        <Input
+                          value={file.url || ''}
+                          placeholder="https://example.com/fonts/inter.woff2"
+                          onChange={(e) => updateFile(font.id, file.id, { url: e.target.value })}
+                          className="flex-1"
+                        />
+                      )}
+
+                      <Select
+                        value={String(file.weight)}
+                        onValueChange={(weight) => updateFile(font.id, file.id, { weight: Number(weight) })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(FONT_WEIGHT_NAMES).map(([weight, name]) => (
+                            <SelectItem key={weight} value={weight}>{weight} {name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      <Select
+                        value={file.style}
+                        onValueChange={(style) => updateFile(font.id, file.id, { style: style as FontStyle })}
+                      >
+                        <SelectTrigger className="w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="normal">Normal</SelectItem>
+                          <SelectItem value="italic">Italic</SelectItem>
+                        </SelectContent>
+                      </Select>
+
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`preload-${file.id}`}
+                          checked={!!file.preload}
+                          onCheckedChange={(checked) => updateFile(font.id, file.id, { preload: checked === true })}
+                        />
+                        <Label htmlFor={`preload-${file.id}`}>Preload</Label>
+                      </div>
+
+                      <Button
+                        variant="ghost"
+                        size="xs"
+                        onClick={() => removeFile(font.id, file.id)}
+                        disabled={isSaving}
+                      >
+                        <Icon name="x" />
+                      </Button>
+                    </div>
+                  ))}
+
+                  {uploadingFontId === font.id && (
+                    <Label variant="muted" className="pl-4">Uploading...</Label>
+                  )}
+
+                  <div className="flex items-center gap-4 pl-4">
+                    <Label variant="muted" className="flex-1">
+                      Other weights (loaded with custom code)
+                    </Label>
+                    <Input
+                      value={weightInputs[font.id] || ''}
+                      placeholder="e.g. 400, 700"
+                      onChange={(e) => setWeightInputs((current) => ({ ...current, [font.id]: e.target.value }))}
+                      className="w-62"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={isSaving || uploadingFontId !== null}
+            >
+              {isSaving ? 'Saving...' : 'Save changes'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
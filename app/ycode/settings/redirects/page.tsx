@@ -1,8 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Label } from '@/components/ui/label';
 import {
+  FieldContent,
   FieldDescription,
   FieldLabel,
   FieldLegend,
@@ -10,6 +11,14 @@ import {
 } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import Icon from '@/components/ui/icon';
 import { Spinner } from '@/components/ui/spinner';
 import {
@@ -26,13 +35,24 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 
-import type { Redirect } from '@/types';
+import { toast } from 'sonner';
+
+import {
+  REDIRECT_TYPES,
+  normalizeRedirectPath,
+  parseRedirectsCsv,
+  redirectsToCsv,
+  validateRedirect,
+} from '@/lib/redirect-utils';
+import type { Redirect, RedirectHit, RedirectType } from '@/types';
 
 export default function RedirectsSettingsPage() {
   const [redirects, setRedirects] = useState<Redirect[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [hits, setHits] = useState<Record<string, RedirectHit>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Dialog state
   const [showAddDialog, setShowAddDialog] = useState(false);
@@ -42,6 +62,9 @@ export default function RedirectsSettingsPage() {
   // Form state
   const [oldUrl, setOldUrl] = useState('');
   const [newUrl, setNewUrl] = useState('');
+  const [type, setType] = useState<RedirectType>('301');
+  const [preserveQuery, setPreserveQuery] = useState(true);
+  const [formError, setFormError] = useState<string | null>(null);
 
   // Load redirects on mount
   useEffect(() => {
@@ -67,7 +90,24 @@ export default function RedirectsSettingsPage() {
       }
     };
 
+    // Hit counters are optional; the list works without them
+    const loadHits = async () => {
+      try {
+        const response = await fetch('/ycode/api/settings/redirects/hits');
+        if (!response.ok) return;
+        const result = await response.json();
+        const hitsById: Record<string, RedirectHit> = {};
+        (result.data || []).forEach((hit: RedirectHit) => {
+          hitsById[hit.redirect_id] = hit;
+        });
+        setHits(hitsById);
+      } catch (err) {
+        console.error('Error loading redirect hits:', err);
+      }
+    };
+
     loadRedirects();
+    loadHits();
   }, []);
 
   // Save redirects to API
@@ -97,16 +137,23 @@ export default function RedirectsSettingsPage() {
 
   const handleAddRedirect = async () => {
     if (oldUrl && newUrl) {
+      const validationError = validateRedirect({ oldUrl, newUrl });
+      if (validationError) {
+        setFormError(validationError);
+        return;
+      }
+
       const newRedirect: Redirect = {
         id: Date.now().toString(),
-        oldUrl: oldUrl.startsWith('/') ? oldUrl : `/${oldUrl}`,
-        newUrl,
+        oldUrl: normalizeRedirectPath(oldUrl),
+        newUrl: newUrl.trim(),
+        type,
+        preserveQuery,
       };
 
       try {
         await saveRedirects([...redirects, newRedirect]);
-        setOldUrl('');
-        setNewUrl('');
+        resetForm();
         setShowAddDialog(false);
       } catch {
         // Error already handled in saveRedirects
@@ -118,26 +165,34 @@ export default function RedirectsSettingsPage() {
     setEditingRedirect(redirect);
     setOldUrl(redirect.oldUrl);
     setNewUrl(redirect.newUrl);
+    setType(redirect.type || '301');
+    setPreserveQuery(redirect.preserveQuery !== false);
     setShowEditDialog(true);
   };
 
   const handleSaveEdit = async () => {
     if (editingRedirect && oldUrl && newUrl) {
+      const validationError = validateRedirect({ oldUrl, newUrl });
+      if (validationError) {
+        setFormError(validationError);
+        return;
+      }
+
       const updatedRedirects = redirects.map((r) =>
         r.id === editingRedirect.id
           ? {
             ...r,
-            oldUrl: oldUrl.startsWith('/') ? oldUrl : `/${oldUrl}`,
-            newUrl,
+            oldUrl: normalizeRedirectPath(oldUrl),
+            newUrl: newUrl.trim(),
+            type,
+            preserveQuery,
           }
           : r
       );
 
       try {
         await saveRedirects(updatedRedirects);
-        setOldUrl('');
-        setNewUrl('');
-        setEditingRedirect(null);
+        resetForm();
         setShowEditDialog(false);
       } catch {
         // Error already handled in saveRedirects
@@ -145,6 +200,16 @@ export default function RedirectsSettingsPage() {
     }
   };
 
+  // Pending automatic redirects are kept when discarded, so they aren't recreated
+  const handleDismissRedirect = async (id: string, dismissed: boolean) => {
+    const updatedRedirects = redirects.map((r) => (r.id === id ? { ...r, dismissed } : r));
+    try {
+      await saveRedirects(updatedRedirects);
+    } catch {
+      // Error already handled in saveRedirects
+    }
+  };
+
   const handleDeleteRedirect = async (id: string) => {
     const updatedRedirects = redirects.filter((r) => r.id !== id);
     try {
@@ -157,9 +222,97 @@ export default function RedirectsSettingsPage() {
   const resetForm = () => {
     setOldUrl('');
     setNewUrl('');
+    setType('301');
+    setPreserveQuery(true);
+    setFormError(null);
     setEditingRedirect(null);
   };
 
+  const activeRedirects = redirects.filter((r) => !r.pending);
+  const pendingRedirects = redirects.filter((r) => r.pending);
+
+  const handleExport = () => {
+    const blob = new Blob([redirectsToCsv(activeRedirects)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'redirects.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Imported rules replace existing rules with the same old URL
+  const handleImport = async (file: File) => {
+    const { redirects: imported, errors } = parseRedirectsCsv(await file.text());
+
+    if (imported.length === 0) {
+      toast.error('No redirects imported', { description: errors[0] || 'The file has no rows.' });
+      return;
+    }
+
+    const baseId = Date.now();
+    const updatedRedirects = [...redirects];
+    imported.forEach((redirect, index) => {
+      const existingIndex = updatedRedirects.findIndex((r) => !r.pending && normalizeRedirectPath(r.oldUrl) === redirect.oldUrl);
+      if (existingIndex >= 0) {
+        updatedRedirects[existingIndex] = { ...updatedRedirects[existingIndex], ...redirect };
+      } else {
+        updatedRedirects.push({ id: `${baseId}-${index}`, ...redirect });
+      }
+    });
+
+    try {
+      await saveRedirects(updatedRedirects);
+      toast.success(`Imported ${imported.length} redirect${imported.length === 1 ? '' : 's'}`, {
+        description: errors.length > 0
+          ? `${errors.length} row${errors.length === 1 ? '' : 's'} skipped. ${errors[0]}`
+          : undefined,
+      });
+    } catch {
+      // Error already handled in saveRedirects
+    }
+  };
+
+  const renderRedirectOptions = (idPrefix: string) => (
+    <>
+      <Field>
+        <FieldLabel htmlFor={`${idPrefix}-type`}>Type</FieldLabel>
+        <Select value={type} onValueChange={(value) => setType(value as RedirectType)}>
+          <SelectTrigger id={`${idPrefix}-type`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REDIRECT_TYPES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label} &ndash; {option.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </Field>
+
+      <Field orientation="horizontal" className="flex-row-reverse">
+        <FieldContent>
+          <FieldLabel htmlFor={`${idPrefix}-preserve-query`}>Preserve query string</FieldLabel>
+          <FieldDescription>
+            Pass the query string of the old URL on to the new URL
+          </FieldDescription>
+        </FieldContent>
+        <Switch
+          id={`${idPrefix}-preserve-query`}
+          checked={preserveQuery}
+          onCheckedChange={setPreserveQuery}
+        />
+      </Field>
+
+      {formError && (
+        <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+          {formError}
+        </div>
+      )}
+    </>
+  );
+
   return (
     <div className="p-8">
       <div className="max-w-3xl mx-auto">
@@ -177,7 +330,40 @@ export default function RedirectsSettingsPage() {
               </FieldDescription>
             </div>
 
-            <div>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImport(file);
+                }}
+              />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={isSaving || isLoading}
+                  >
+                    CSV
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                    Import CSV
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={handleExport}
+                    disabled={activeRedirects.length === 0}
+                  >
+                    Export CSV
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Button
                 variant="secondary"
                 size="sm"
@@ -195,13 +381,65 @@ export default function RedirectsSettingsPage() {
             </div>
           )}
 
+          {!isLoading && pendingRedirects.length > 0 && (
+            <div className="border-t pt-6 flex flex-col gap-2">
+              <div>
+                <Label>Pending</Label>
+                <FieldDescription>
+                  Created automatically for changed page and CMS item URLs.
+                  They become active with the next publish.
+                </FieldDescription>
+              </div>
+              <div className="divide-y">
+                {pendingRedirects.map((redirect) => (
+                  <div key={redirect.id} className="py-4 flex">
+                    <div className={`flex-1 flex items-center gap-4 ${redirect.dismissed ? 'opacity-50' : ''}`}>
+                      <Label variant="muted" className="flex-1">
+                        {redirect.oldUrl}
+                      </Label>
+                      <Icon
+                        name="arrowLeft"
+                        className="size-2.5 rotate-180 opacity-50"
+                      />
+                      <Label variant="muted" className="flex-1">
+                        {redirect.newUrl}
+                      </Label>
+                      <span className="text-xs text-muted-foreground w-30 text-right pr-4">
+                        {redirect.dismissed ? 'Discarded' : redirect.type || '301'}
+                      </span>
+                    </div>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="secondary"
+                          size="xs"
+                          disabled={isSaving}
+                        >
+                          <Icon name="more" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleDismissRedirect(redirect.id, !redirect.dismissed)}
+                        >
+                          {redirect.dismissed ? 'Restore' : 'Discard'}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {isLoading ? (
             <div className="border-t pt-8 pb-4 flex justify-center">
               <Spinner />
             </div>
-          ) : redirects.length > 0 ? (
+          ) : activeRedirects.length > 0 ? (
             <div className="border-t -mb-4 divide-y">
-              {redirects.map((redirect) => (
+              {activeRedirects.map((redirect) => (
                 <div key={redirect.id} className="py-4 flex">
                   <div className="flex-1 flex items-center gap-4">
                     <Label variant="muted" className="flex-1">
@@ -214,6 +452,17 @@ export default function RedirectsSettingsPage() {
                     <Label variant="muted" className="flex-1">
                       {redirect.newUrl}
                     </Label>
+                    <span className="text-xs text-muted-foreground w-10">
+                      {redirect.type || '301'}
+                    </span>
+                    <span
+                      className="text-xs text-muted-foreground w-20 text-right pr-4"
+                      title={hits[redirect.id]?.last_hit_at
+                        ? `Last hit ${new Date(hits[redirect.id].last_hit_at as string).toLocaleString()}`
+                        : undefined}
+                    >
+                      {(hits[redirect.id]?.hits || 0).toLocaleString()} hits
+                    </span>
                   </div>
 
                   <DropdownMenu>
@@ -267,13 +516,18 @@ export default function RedirectsSettingsPage() {
             <Field>
               <FieldLabel htmlFor="add-old-url">Old URL</FieldLabel>
               <FieldDescription>
-                The URL path to redirect from (e.g. /old-page)
+                The URL path to redirect from (e.g. /old-page). Use :name
+                for a segment and * for the rest of the path (e.g.
+                /blog/:slug or /old/*)
               </FieldDescription>
               <Input
                 id="add-old-url"
                 placeholder="/old-page"
                 value={oldUrl}
-                onChange={(e) => setOldUrl(e.target.value)}
+                onChange={(e) => {
+                  setOldUrl(e.target.value);
+                  setFormError(null);
+                }}
                 autoFocus
               />
             </Field>
@@ -282,15 +536,21 @@ export default function RedirectsSettingsPage() {
               <FieldLabel htmlFor="add-new-url">New URL</FieldLabel>
               <FieldDescription>
                 Internal path (e.g. /new-page) or external URL (e.g.
-                https://example.com)
+                https://example.com). Can use the :name and * values of
+                the old URL (e.g. /articles/:slug)
               </FieldDescription>
               <Input
                 id="add-new-url"
                 placeholder="/new-page or https://example.com"
                 value={newUrl}
-                onChange={(e) => setNewUrl(e.target.value)}
+                onChange={(e) => {
+                  setNewUrl(e.target.value);
+                  setFormError(null);
+                }}
               />
             </Field>
+
+            {renderRedirectOptions('add')}
           </div>
 
           <DialogFooter>
@@ -331,13 +591,18 @@ export default function RedirectsSettingsPage() {
             <Field>
               <FieldLabel htmlFor="edit-old-url">Old URL</FieldLabel>
               <FieldDescription>
-                The URL path to redirect from (e.g. /old-page)
+                The URL path to redirect from (e.g. /old-page). Use :name
+                for a segment and * for the rest of the path (e.g.
+                /blog/:slug or /old/*)
               </FieldDescription>
               <Input
                 id="edit-old-url"
                 placeholder="/old-page"
                 value={oldUrl}
-                onChange={(e) => setOldUrl(e.target.value)}
+                onChange={(e) => {
+                  setOldUrl(e.target.value);
+                  setFormError(null);
+                }}
                 autoFocus
               />
             </Field>
@@ -346,15 +611,21 @@ export default function RedirectsSettingsPage() {
               <FieldLabel htmlFor="edit-new-url">New URL</FieldLabel>
               <FieldDescription>
                 Internal path (e.g. /new-page) or external URL (e.g.
-                https://example.com)
+                https://example.com). Can use the :name and * values of
+                the old URL (e.g. /articles/:slug)
               </FieldDescription>
               <Input
                 id="edit-new-url"
                 placeholder="/new-page or https://example.com"
                 value={newUrl}
-                onChange={(e) => setNewUrl(e.target.value)}
+                onChange={(e) => {
+                  setNewUrl(e.target.value);
+                  setFormError(null);
+                }}
               />
             </Field>
+
+            {renderRedirectOptions('edit')}
           </div>
 
           <DialogFooter>
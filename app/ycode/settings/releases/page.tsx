@@ -0,0 +1,468 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import {
+  Field,
+  FieldDescription,
+  FieldLabel,
+  FieldLegend,
+} from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+import { toast } from 'sonner';
+
+import { publishApi } from '@/lib/api';
+import { formatRelativeTime } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import type { SiteRelease, SiteReleaseChangeType, SiteReleaseDiff, SiteReleaseEntityType } from '@/types';
+
+const ENTITY_LABELS: Record<SiteReleaseEntityType, string> = {
+  page_folder: 'Folder',
+  page: 'Page',
+  component: 'Component',
+  layer_style: 'Layer style',
+  collection: 'Collection',
+  collection_item: 'Collection item',
+  locale: 'Locale',
+};
+
+const CHANGE_LABELS: Record<SiteReleaseChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+/** Short summary of what a release contains */
+function getReleaseSummary(release: SiteRelease): string {
+  const pages = release.stats.pages || 0;
+  const items = release.stats.collection_items || 0;
+  return `${pages} ${pages === 1 ? 'page' : 'pages'}, ${items} CMS ${items === 1 ? 'item' : 'items'}`;
+}
+
+export default function ReleasesSettingsPage() {
+  const [releases, setReleases] = useState<SiteRelease[]>([]);
+  const [liveReleaseId, setLiveReleaseId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const updateSetting = useSettingsStore((state) => state.updateSetting);
+
+  // Rename dialog state
+  const [renamingRelease, setRenamingRelease] = useState<SiteRelease | null>(null);
+  const [name, setName] = useState('');
+
+  // Rollback dialog state
+  const [rollbackRelease, setRollbackRelease] = useState<SiteRelease | null>(null);
+
+  // Compare dialog state
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+  const [compareFromId, setCompareFromId] = useState('');
+  const [compareToId, setCompareToId] = useState('');
+  const [diff, setDiff] = useState<SiteReleaseDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const loadReleases = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await publishApi.getReleases();
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      setReleases(response.data?.releases || []);
+      setLiveReleaseId(response.data?.live_release_id || null);
+    } catch (err) {
+      console.error('Error loading releases:', err);
+      setError('Failed to load releases');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Load releases on mount
+  useEffect(() => {
+    loadReleases();
+  }, []);
+
+  // Compare the selected releases (older one first)
+  useEffect(() => {
+    if (!showCompareDialog || !compareFromId || !compareToId || compareFromId === compareToId) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    const compare = async () => {
+      setIsComparing(true);
+      const response = await publishApi.diffReleases(compareFromId, compareToId);
+      if (cancelled) return;
+      if (response.error) {
+        toast.error('Failed to compare releases', { description: response.error });
+        setDiff(null);
+      } else {
+        setDiff(response.data || null);
+      }
+      setIsComparing(false);
+    };
+
+    compare();
+    return () => {
+      cancelled = true;
+    };
+  }, [showCompareDialog, compareFromId, compareToId]);
+
+  const handleRename = async () => {
+    if (!renamingRelease || !name.trim()) return;
+
+    try {
+      setIsSaving(true);
+      const response = await publishApi.renameRelease(renamingRelease.id, name.trim());
+      if (response.error || !response.data) {
+        throw new Error(response.error || 'Failed to rename release');
+      }
+      const updated = response.data;
+      setReleases((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+      setRenamingRelease(null);
+    } catch (err) {
+      toast.error('Failed to rename release', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!rollbackRelease) return;
+
+    try {
+      setIsSaving(true);
+      const response = await publishApi.rollbackRelease(rollbackRelease.id);
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      setLiveReleaseId(rollbackRelease.id);
+      updateSetting('published_at', new Date().toISOString());
+      toast.success(`Rolled back to "${rollbackRelease.name}"`);
+      setRollbackRelease(null);
+    } catch (err) {
+      toast.error('Failed to roll back', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /** Open the compare dialog for a release, against the release before it */
+  const openCompare = (release: SiteRelease) => {
+    const index = releases.findIndex((r) => r.id === release.id);
+    const previous = releases[index + 1];
+    setCompareFromId(previous?.id || '');
+    setCompareToId(release.id);
+    setShowCompareDialog(true);
+  };
+
+  const renderReleaseSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select a release" />
+      </SelectTrigger>
+      <SelectContent>
+        {releases.map((release) => (
+          <SelectItem key={release.id} value={release.id}>
+            {release.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="p-8">
+      <div className="max-w-3xl mx-auto">
+        <header className="pt-8 pb-3">
+          <span className="text-base font-medium">Releases</span>
+        </header>
+
+        <div className="flex flex-col gap-6 bg-secondary/20 p-8 rounded-lg">
+          <header className="flex justify-between">
+            <div>
+              <FieldLegend>Releases</FieldLegend>
+              <FieldDescription>
+                Each publish is recorded as a release. Roll the live site
+                back to an earlier release; your drafts are kept.
+              </FieldDescription>
+            </div>
+
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => {
+                setCompareFromId(releases[1]?.id || '');
+                setCompareToId(releases[0]?.id || '');
+                setShowCompareDialog(true);
+              }}
+              disabled={releases.length < 2}
+            >
+              Compare
+            </Button>
+          </header>
+
+          {error && (
+            <div className="bg-destructive/10 text-destructive px-4 py-2 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="border-t pt-8 pb-4 flex justify-center">
+              <Spinner />
+            </div>
+          ) : releases.length > 0 ? (
+            <div className="border-t -mb-4 divide-y">
+              {releases.map((release) => (
+                <div key={release.id} className="py-4 flex items-center">
+                  <div className="flex-1 flex items-center gap-4 min-w-0">
+                    <div className="flex-1 flex flex-col gap-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Label className="truncate">{release.name}</Label>
+                        {release.id === liveReleaseId && (
+                          <Badge variant="green">Live</Badge>
+                        )}
+                      </div>
+                      <span className="text-xs text-muted-foreground">
+                        {getReleaseSummary(release)}
+                      </span>
+                    </div>
+                    <span
+                      className="text-xs text-muted-foreground w-30 text-right pr-4"
+                      title={new Date(release.created_at).toLocaleString()}
+                    >
+                      {formatRelativeTime(release.created_at, false)}
+                    </span>
+                  </div>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="secondary"
+                        size="xs"
+                        disabled={isSaving}
+                      >
+                        <Icon name="more" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setRenamingRelease(release);
+                          setName(release.name);
+                        }}
+                      >
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => openCompare(release)}
+                        disabled={releases.length < 2}
+                      >
+                        Compare
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        onClick={() => setRollbackRelease(release)}
+                        disabled={release.id === liveReleaseId}
+                      >
+                        Roll back to this release
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="border-t pt-8 pb-4 text-center text-muted-foreground text-sm">
+              No releases yet. A release is recorded each time you publish.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Rename Dialog */}
+      <Dialog
+        open={!!renamingRelease}
+        onOpenChange={(open) => {
+          if (!open) setRenamingRelease(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename release</DialogTitle>
+          </DialogHeader>
+
+          <Field>
+            <FieldLabel htmlFor="release-name">Name</FieldLabel>
+            <Input
+              id="release-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename();
+              }}
+              autoFocus
+            />
+          </Field>
+
+          <DialogFooter>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setRenamingRelease(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleRename}
+              disabled={!name.trim() || isSaving}
+            >
+              {isSaving ? <Spinner className="size-4" /> : 'Save changes'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rollback Dialog */}
+      <Dialog
+        open={!!rollbackRelease}
+        onOpenChange={(open) => {
+          if (!open) setRollbackRelease(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll back to &ldquo;{rollbackRelease?.name}&rdquo;?</DialogTitle>
+            <DialogDescription>
+              The live site is replaced with the pages, CMS items, components,
+              styles, translations and CSS of this release. Your drafts are
+              kept, so publishing again brings your latest changes back.
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setRollbackRelease(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleRollback}
+              disabled={isSaving}
+            >
+              {isSaving ? <Spinner className="size-4" /> : 'Roll back'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Compare Dialog */}
+      <Dialog
+        open={showCompareDialog}
+        onOpenChange={setShowCompareDialog}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Compare releases</DialogTitle>
+          </DialogHeader>
+
+          <div className="flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              {renderReleaseSelect(compareFromId, setCompareFromId)}
+            </div>
+            <Icon
+              name="arrowLeft"
+              className="size-2.5 rotate-180 opacity-50"
+            />
+            <div className="flex-1 min-w-0">
+              {renderReleaseSelect(compareToId, setCompareToId)}
+            </div>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {isComparing ? (
+              <div className="py-6 flex justify-center">
+                <Spinner />
+              </div>
+            ) : diff ? (
+              diff.changes.length > 0 || diff.css_changed ? (
+                <div className="divide-y">
+                  {diff.changes.map((change) => (
+                    <div
+                      key={`${change.entity_type}:${change.entity_id}`}
+                      className="py-2 flex items-center gap-4 text-xs"
+                    >
+                      <span className="text-muted-foreground w-28">
+                        {ENTITY_LABELS[change.entity_type]}
+                      </span>
+                      <span className="flex-1 truncate">{change.name}</span>
+                      <span className="text-muted-foreground">
+                        {CHANGE_LABELS[change.change]}
+                      </span>
+                    </div>
+                  ))}
+                  {diff.css_changed && (
+                    <div className="py-2 flex items-center gap-4 text-xs">
+                      <span className="text-muted-foreground w-28">Styles</span>
+                      <span className="flex-1">Site CSS</span>
+                      <span className="text-muted-foreground">Changed</span>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="py-6 text-center text-muted-foreground text-sm">
+                  These releases have the same content.
+                </div>
+              )
+            ) : (
+              <div className="py-6 text-center text-muted-foreground text-sm">
+                Select two different releases to compare.
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import { SplitText } from 'gsap/SplitText';
 
 import { buildGsapProps, addTweenToTimeline, createSplitTextAnimation } from '@/lib/animation-utils';
-import { getCurrentBreakpoint } from '@/lib/breakpoint-utils';
+import { getCurrentBreakpoint, setBreakpoints, type BreakpointSetting } from '@/lib/breakpoint-utils';
 import type { Layer, LayerInteraction, Breakpoint } from '@/types';
 
 // Register GSAP plugins
@@ -24,6 +24,7 @@ if (typeof window !== 'undefined') {
 
 interface AnimationInitializerProps {
   layers: Layer[];
+  breakpoints?: BreakpointSetting[] | null; // Site breakpoints (defaults when not set)
 }
 
 interface CollectedInteraction {
@@ -284,11 +285,15 @@ function buildTimeline(interaction: LayerInteraction): gsap.core.Timeline | null
   return timeline;
 }
 
-export default function AnimationInitializer({ layers }: AnimationInitializerProps) {
+export default function AnimationInitializer({ layers, breakpoints }: AnimationInitializerProps) {
   const cleanupRef = useRef<(() => void)[]>([]);
   const timelinesRef = useRef<Map<string, gsap.core.Timeline>>(new Map());
   const prevBreakpointRef = useRef<Breakpoint | null>(null);
-  const [currentBreakpoint, setCurrentBreakpoint] = useState<Breakpoint>(() => getCurrentBreakpoint());
+  const [currentBreakpoint, setCurrentBreakpoint] = useState<Breakpoint>(() => {
+    // Published pages load the site's breakpoints here, before the first breakpoint check
+    setBreakpoints(breakpoints);
+    return getCurrentBreakpoint();
+  });
 
   // Listen for breakpoint changes on resize
   useEffect(() => {
@@ -0,0 +1,17 @@
+'use client';
+
+/**
+ * ColorSchemeToggleInitializer - Enables color scheme toggles on preview/published pages
+ * Clicks are delegated from the document, so toggles rendered later
+ * (load more, pagination) work without re-initializing.
+ */
+
+import { useEffect } from 'react';
+
+import { initColorSchemeToggles } from '@/lib/color-scheme-utils';
+
+export default function ColorSchemeToggleInitializer() {
+  useEffect(() => initColorSchemeToggles(document), []);
+
+  return null;
+}
@@ -8,7 +8,7 @@ import EditingIndicator from '@/components/collaboration/EditingIndicator';
 import { useCollaborationPresenceStore, getResourceLockKey, RESOURCE_TYPES } from '@/stores/useCollaborationPresenceStore';
 import { useAuthStore } from '@/stores/useAuthStore';
 import { useLocalisationStore } from '@/stores/useLocalisationStore';
-import type { Layer, Locale, ComponentVariable, FormSettings, LinkSettings, Breakpoint, CollectionItemWithValues } from '@/types';
+import type { Layer, Locale, ComponentVariable, FormSettings, FormFieldErrors, LinkSettings, Breakpoint, CollectionItemWithValues } from '@/types';
 import type { UseLiveLayerUpdatesReturn } from '@/hooks/use-live-layer-updates';
 import type { UseLiveComponentUpdatesReturn } from '@/hooks/use-live-component-updates';
 import { getLayerHtmlTag, getClassesString, getText, resolveFieldValue, isTextEditable, getCollectionVariable, evaluateVisibility } from '@/lib/layer-utils';
@@ -16,6 +16,7 @@ import { resolveFieldFromSources } from '@/lib/cms-variables-utils';
 import { getDynamicTextContent, getImageUrlFromVariable, getVideoUrlFromVariable, getIframeUrlFromVariable, isFieldVariable, isAssetVariable, isStaticTextVariable, isDynamicTextVariable, getAssetId, getStaticTextContent, createAssetVariable, createDynamicTextVariable, resolveDesignStyles } from '@/lib/variable-utils';
 import { getTranslatedAssetId, getTranslatedText } from '@/lib/localisation-utils';
 import { isValidLinkSettings } from '@/lib/link-utils';
+import { applyVariantAndBooleanOverrides } from '@/lib/component-utils';
 import { DEFAULT_ASSETS, ASSET_CATEGORIES, isAssetOfType } from '@/lib/asset-utils';
 import { parseMultiAssetFieldValue, buildAssetVirtualValues } from '@/lib/multi-asset-utils';
 import { parseMultiReferenceValue, resolveReferenceFieldsSync } from '@/lib/collection-utils';
@@ -36,9 +37,18 @@ import { cn } from '@/lib/utils';
 import PaginatedCollection from '@/components/PaginatedCollection';
 import LoadMoreCollection from '@/components/LoadMoreCollection';
 import LocaleSelector from '@/components/layers/LocaleSelector';
+import CollectionControl from '@/components/layers/CollectionControl';
+import SiteSearchInput from '@/components/layers/SiteSearchInput';
 import { usePagesStore } from '@/stores/usePagesStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { generateLinkHref, type LinkResolutionContext } from '@/lib/link-utils';
+import { FORM_HONEYPOT_FIELD, FORM_TOKEN_FIELD, FORM_FILE_PART_PREFIX } from '@/lib/form-utils';
+import { buildSliderCss, getSliderPart, getSliderSettings, initSlider } from '@/lib/slider-utils';
+import { buildLightboxItems, getLightboxSettings } from '@/lib/lightbox-utils';
+import { COLOR_SCHEME_TOGGLE_ATTRIBUTE } from '@/lib/color-scheme-utils';
+import { buildMapCss, getMapAttributes, initMap } from '@/lib/map-utils';
+import { getCollectionControlSettings, getCollectionFilterOptions, getCollectionSortOptions } from '@/lib/collection-query-utils';
+import { getSiteSearchSettings } from '@/lib/site-search-utils';
 import type { HiddenLayerInfo } from '@/lib/animation-utils';
 
 import type { DesignColorVariable } from '@/types';
@@ -125,6 +135,37 @@ function buildAnchorMap(layers: Layer[]): Record<string, string> {
   return map;
 }
 
+/**
+ * Mark invalid form fields and list their errors inside the form's error alert
+ * Passing an empty error map clears errors left from a previous submission
+ */
+function showFormFieldErrors(form: HTMLFormElement, errorAlert: HTMLElement | null, errors: FormFieldErrors): void {
+  form.querySelectorAll('[aria-invalid="true"]').forEach((element) => element.removeAttribute('aria-invalid'));
+  errorAlert?.querySelector('[data-form-errors]')?.remove();
+
+  const entries = Object.entries(errors);
+  if (!errorAlert || entries.length === 0) return;
+
+  const list = form.ownerDocument.createElement('ul');
+  list.setAttribute('data-form-errors', '');
+  list.style.marginTop = '0.5rem';
+  list.style.paddingLeft = '1.25rem';
+  list.style.listStyle = 'disc';
+
+  for (const [name, message] of entries) {
+    const fieldElements = Array.from(form.elements)
+      .filter((element) => (element as HTMLInputElement).name === name) as HTMLInputElement[];
+    fieldElements.forEach((element) => element.setAttribute('aria-invalid', 'true'));
+
+    const label = fieldElements[0]?.labels?.[0]?.textContent?.trim() || name;
+    const item = form.ownerDocument.createElement('li');
+    item.textContent = `${label}: ${message}`;
+    list.appendChild(item);
+  }
+
+  errorAlert.appendChild(list);
+}
+
 interface LayerRendererProps {
   layers: Layer[];
   onLayerClick?: (layerId: string, event?: React.MouseEvent) => void;
@@ -242,6 +283,8 @@ const LayerRenderer: React.FC<LayerRendererProps> = ({
           return (
             <Suspense key={layer.id} fallback={<div className="animate-pulse bg-gray-200 rounded h-32" />}>
               <LoadMoreCollection
+                // Remount when the visitor query changes (drops items loaded for the previous query)
+                key={JSON.stringify(layer._paginationMeta.query || {})}
                 paginationMeta={layer._paginationMeta}
                 collectionLayerId={originalLayerId}
                 itemIds={layer._paginationMeta.itemIds}
@@ -503,6 +546,21 @@ const LayerItem: React.FC<{
     htmlTag = 'div';
   }
 
+  // Form spam protection - published forms fetch a signed time-to-submit token on mount
+  // (published pages are cached, so the token can't be rendered server-side)
+  const formSpamProtection = htmlTag === 'form' && !isEditMode ? layer.settings?.form?.spam_protection : undefined;
+  const formTokenFormId = formSpamProtection?.min_submit_seconds ? (layer.settings?.id || 'unnamed-form') : null;
+  const [formToken, setFormToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!formTokenFormId) return;
+
+    fetch(`/ycode/api/form-submissions/token?form_id=${encodeURIComponent(formTokenFormId)}`)
+      .then((response) => response.json())
+      .then((result) => setFormToken(result.data?.token ?? null))
+      .catch(() => setFormToken(null));
+  }, [formTokenFormId]);
+
   // Code Embed iframe ref and effect - must be at component level
   const htmlEmbedIframeRef = React.useRef<HTMLIFrameElement>(null);
   const htmlEmbedCode = layer.name === 'htmlEmbed'
@@ -715,12 +773,14 @@ const LayerItem: React.FC<{
 
   // Transform component layers for this instance to ensure unique IDs per instance
   // This enables animations to target the correct elements when multiple instances exist
+  // Variant styles and boolean visibility are applied first (they reference the component's layer IDs)
   const transformedComponentLayers = useMemo(() => {
     if (isEditMode && component && component.layers && component.layers.length > 0) {
-      return transformComponentLayersForInstance(component.layers, layer.id);
+      const instanceLayers = applyVariantAndBooleanOverrides(component.layers, layer.componentOverrides, component.variables);
+      return transformComponentLayersForInstance(instanceLayers, layer.id);
     }
     return null;
-  }, [isEditMode, component, layer.id]);
+  }, [isEditMode, component, layer.id, layer.componentOverrides]);
 
   const collectionVariable = getCollectionVariable(layer);
   const isCollectionLayer = !!collectionVariable;
@@ -734,6 +794,29 @@ const LayerItem: React.FC<{
   const itemsByCollectionId = useCollectionsStore((state) => state.items);
   const allCollectionItems = React.useMemo(() => layerData || [], [layerData]);
 
+  // Search, filter and sort controls: choices are resolved during SSR on generated pages,
+  // and from the collections store on the canvas
+  const collectionControlSettings = getCollectionControlSettings(layer);
+  const siteSearchSettings = getSiteSearchSettings(layer);
+  const collectionControlOptions = React.useMemo(() => {
+    if (!collectionControlSettings) return [];
+    if (layer._collectionControl) return layer._collectionControl.options;
+    if (layer.name === 'collectionSort') return getCollectionSortOptions(collectionControlSettings);
+    if (layer.name !== 'collectionFilter' || !collectionControlSettings.collectionId) return [];
+
+    const field = (fieldsByCollectionId[collectionControlSettings.collectionId] || [])
+      .find((f) => f.id === collectionControlSettings.fieldId);
+    if (!field) return [];
+
+    const referenceCollectionId = field.reference_collection_id || '';
+    return getCollectionFilterOptions(
+      field,
+      itemsByCollectionId[collectionControlSettings.collectionId],
+      itemsByCollectionId[referenceCollectionId],
+      fieldsByCollectionId[referenceCollectionId]
+    );
+  }, [collectionControlSettings, layer._collectionControl, layer.name, fieldsByCollectionId, itemsByCollectionId]);
+
   // Get the source for multi-asset field resolution
   const sourceFieldSource = collectionVariable?.source_field_source;
 
@@ -861,6 +944,42 @@ const LayerItem: React.FC<{
     },
   });
 
+  // Slider element ref and behavior (arrows, pagination, autoplay, keyboard) - must be at component level
+  const sliderElementRef = React.useRef<HTMLElement | null>(null);
+  const sliderSettings = layer.name === 'slider' ? getSliderSettings(layer) : null;
+  const sliderSettingsKey = sliderSettings ? JSON.stringify(sliderSettings) : '';
+
+  const setSliderNodeRef = useCallback((node: HTMLElement | null) => {
+    setNodeRef(node);
+    sliderElementRef.current = node;
+  }, [setNodeRef]);
+
+  useEffect(() => {
+    if (!sliderSettingsKey || !sliderElementRef.current) return;
+
+    // Autoplay only on published pages and previews, so the canvas stays still while designing
+    return initSlider(sliderElementRef.current, JSON.parse(sliderSettingsKey), { allowAutoplay: !isEditMode });
+  }, [sliderSettingsKey, isEditMode]);
+
+  // Map element ref and runtime (tiles, markers, panning) - must be at component level
+  const mapElementRef = React.useRef<HTMLElement | null>(null);
+  const mapAttributes = layer.name === 'map' || layer.name === 'mapMarker'
+    ? getMapAttributes(layer, (fieldVar) => resolveFieldValue(fieldVar, collectionLayerData, pageCollectionItemData, effectiveLayerDataMap))
+    : null;
+  const mapConfigKey = layer.name === 'map' ? mapAttributes?.['data-map-config'] ?? '' : '';
+
+  const setMapNodeRef = useCallback((node: HTMLElement | null) => {
+    setNodeRef(node);
+    mapElementRef.current = node;
+  }, [setNodeRef]);
+
+  useEffect(() => {
+    if (!mapConfigKey || !mapElementRef.current) return;
+
+    // Panning and zooming only on published pages and previews, so clicks select the map in the canvas
+    return initMap(mapElementRef.current, { interactive: !isEditMode });
+  }, [mapConfigKey, isEditMode]);
+
   const startEditing = (clickX?: number, clickY?: number) => {
     // Enable inline editing for text layers (both rich text and plain text)
     if (textEditable && isEditMode && !isLockedByOther) {
@@ -1172,6 +1291,53 @@ const LayerItem: React.FC<{
       }
     }
 
+    // Slider layers - layout is scoped with data-slider, parts are wired up by initSlider
+    const sliderPart = getSliderPart(layer);
+    if (sliderPart) {
+      elementProps['data-slider-part'] = sliderPart;
+    }
+    if (sliderPart === 'track') {
+      elementProps.tabIndex = 0;
+    }
+    if (sliderSettings) {
+      elementProps.ref = setSliderNodeRef;
+      elementProps['data-slider'] = layer.id;
+      elementProps.role = 'region';
+      elementProps['aria-roledescription'] = 'carousel';
+    }
+
+    // Map layers - location and markers are read from data attributes by initMap
+    if (mapAttributes) {
+      Object.assign(elementProps, mapAttributes);
+    }
+    if (mapConfigKey) {
+      elementProps.ref = setMapNodeRef;
+    }
+
+    // Lightbox layers - opened by initLightboxes (LightboxInitializer) on preview/published pages
+    if (layer.name === 'lightbox') {
+      const lightboxSettings = getLightboxSettings(layer);
+      elementProps['data-lightbox'] = lightboxSettings.group || '';
+      elementProps.role = 'button';
+      elementProps.tabIndex = 0;
+      elementProps['aria-haspopup'] = 'dialog';
+
+      if (lightboxSettings.source === 'field' && lightboxSettings.field) {
+        const fieldValue = resolveFieldValue(lightboxSettings.field, collectionLayerData, pageCollectionItemData, effectiveLayerDataMap);
+        const items = buildLightboxItems(parseMultiAssetFieldValue(fieldValue), (assetId) => getAsset(assetId)?.public_url);
+        elementProps['data-lightbox-items'] = JSON.stringify(items);
+      }
+    }
+
+    // Color scheme toggles - switched by initColorSchemeToggles (ColorSchemeToggleInitializer) on preview/published pages
+    if (layer.name === 'colorSchemeToggle') {
+      elementProps[COLOR_SCHEME_TOGGLE_ATTRIBUTE] = '';
+      elementProps.role = 'button';
+      elementProps.tabIndex = 0;
+      elementProps['aria-label'] = 'Toggle dark mode';
+      elementProps['aria-pressed'] = 'false';
+    }
+
     // Apply custom ID from settings or attributes
     if (layer.settings?.id) {
       elementProps.id = layer.settings.id;
@@ -1360,9 +1526,16 @@ const LayerItem: React.FC<{
         const form = e.currentTarget;
         const formData = new FormData(form);
         const payload: Record<string, any> = {};
+        const files: Array<[string, File]> = [];
 
         // Convert FormData to object
         formData.forEach((value, key) => {
+          // Files are uploaded as separate multipart parts (empty file inputs are skipped)
+          if (value instanceof File) {
+            if (value.size > 0) files.push([key, value]);
+            return;
+          }
+
           // Handle multiple values (e.g., checkboxes with same name)
           if (payload[key]) {
             if (Array.isArray(payload[key])) {
@@ -1385,19 +1558,35 @@ const LayerItem: React.FC<{
           }
         });
 
+        // Form IDs are only unique within a page, the server looks the form up on this page
+        const submission = {
+          form_id: formId || 'unnamed-form',
+          page_id: form.closest('[data-page-id]')?.getAttribute('data-page-id') || undefined,
+          payload,
+          metadata: {
+            page_url: typeof window !== 'undefined' ? window.location.href : undefined,
+          },
+        };
+
+        // Forms with file inputs are sent as multipart so the files can be uploaded
+        let requestInit: RequestInit = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(submission),
+        };
+
+        if (form.querySelector('input[type="file"]')) {
+          const body = new FormData();
+          body.append('form_id', submission.form_id);
+          if (submission.page_id) body.append('page_id', submission.page_id);
+          body.append('payload', JSON.stringify(submission.payload));
+          body.append('metadata', JSON.stringify(submission.metadata));
+          files.forEach(([key, file]) => body.append(`${FORM_FILE_PART_PREFIX}${key}`, file));
+          requestInit = { method: 'POST', body };
+        }
+
         try {
-          const response = await fetch('/ycode/api/form-submissions', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              form_id: formId || 'unnamed-form',
-              payload,
-              metadata: {
-                page_url: typeof window !== 'undefined' ? window.location.href : undefined,
-              },
-              email: formSettings?.email_notification,
-            }),
-          });
+          const response = await fetch('/ycode/api/form-submissions', requestInit);
 
           const result = await response.json();
 
@@ -1409,6 +1598,9 @@ const LayerItem: React.FC<{
           if (errorAlert) errorAlert.style.display = 'none';
           if (successAlert) successAlert.style.display = 'none';
 
+          // Clear field errors from a previous attempt
+          showFormFieldErrors(form, errorAlert, result.errors || {});
+
           if (response.ok) {
             // Success handling
             const successAction = formSettings?.success_action || 'message';
@@ -2011,6 +2203,51 @@ const LayerItem: React.FC<{
 
         {textContent && textContent}
 
+        {/* Collection search, filter or sort control */}
+        {collectionControlSettings && (
+          <CollectionControl
+            layerName={layer.name}
+            settings={collectionControlSettings}
+            options={collectionControlOptions}
+            value={layer._collectionControl?.value || []}
+            isEditMode={isEditMode}
+          />
+        )}
+
+        {/* Site search input (opens the search results page) */}
+        {siteSearchSettings && (
+          <SiteSearchInput settings={siteSearchSettings} isEditMode={isEditMode} />
+        )}
+
+        {/* Slider layout (slides per view and gap for each breakpoint) */}
+        {sliderSettings && (
+          <style dangerouslySetInnerHTML={{ __html: buildSliderCss(layer.id, sliderSettings) }} />
+        )}
+
+        {/* Map markers only carry data, their content shows in the marker popup */}
+        {mapConfigKey && (
+          <style dangerouslySetInnerHTML={{ __html: buildMapCss(layer.id) }} />
+        )}
+
+        {/* Spam protection fields (published forms only) */}
+        {formSpamProtection?.honeypot && (
+          <input
+            type="text"
+            name={FORM_HONEYPOT_FIELD}
+            tabIndex={-1}
+            autoComplete="off"
+            aria-hidden="true"
+            style={{ position: 'absolute', left: '-9999px', width: 1, height: 1, opacity: 0 }}
+          />
+        )}
+        {formToken && (
+          <input
+            type="hidden"
+            name={FORM_TOKEN_FIELD}
+            value={formToken}
+          />
+        )}
+
         {/* Render children */}
         {children && children.length > 0 && (
           <LayerRenderer
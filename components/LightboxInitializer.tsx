@@ -0,0 +1,17 @@
+'use client';
+
+/**
+ * LightboxInitializer - Enables lightbox layers on preview/published pages
+ * Clicks are delegated from the document, so lightboxes rendered later
+ * (load more, pagination) open without re-initializing.
+ */
+
+import { useEffect } from 'react';
+
+import { initLightboxes } from '@/lib/lightbox-utils';
+
+export default function LightboxInitializer() {
+  useEffect(() => initLightboxes(document), []);
+
+  return null;
+}
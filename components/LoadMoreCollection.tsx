@@ -12,9 +12,11 @@
  * - Loading spinner during fetch (same style as PaginatedCollection)
  * - Automatic button hide when all items loaded
  * - Works with multi-reference fields (itemIds filtering)
+ * - Keeps visitor search, filters and sort (paginationMeta.query)
  */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { initMap } from '@/lib/map-utils';
 import type { CollectionPaginationMeta, Layer } from '@/types';
 
 interface LoadMoreCollectionProps {
@@ -40,9 +42,10 @@ export default function LoadMoreCollection({
   layerTemplate,
   itemIds,
 }: LoadMoreCollectionProps) {
-  const { totalItems, itemsPerPage, collectionId } = paginationMeta;
+  const { totalItems, itemsPerPage, collectionId, query, filters } = paginationMeta;
   const containerRef = useRef<HTMLDivElement>(null);
   const itemsContainerRef = useRef<HTMLDivElement>(null);
+  const mapCleanupsRef = useRef<(() => void)[]>([]);
   
   const [state, setState] = useState<LoadMoreState>({
     loadedCount: itemsPerPage,
@@ -78,6 +81,8 @@ export default function LoadMoreCollection({
             itemIds: itemIds,
             layerTemplate: layerTemplate,
             collectionLayerId: collectionLayerId,
+            query,
+            filters,
           }),
         }
       );
@@ -91,7 +96,16 @@ export default function LoadMoreCollection({
       
       // Append rendered HTML to the items container
       if (html && itemsContainerRef.current) {
-        itemsContainerRef.current.insertAdjacentHTML('beforeend', html);
+        const container = itemsContainerRef.current;
+        const previousCount = container.children.length;
+        container.insertAdjacentHTML('beforeend', html);
+
+        // Maps in loaded items (maps rendered with the page are initialized by LayerRenderer)
+        Array.from(container.children).slice(previousCount).forEach((element) => {
+          element.querySelectorAll<HTMLElement>('[data-map-config]').forEach((map) => {
+            mapCleanupsRef.current.push(initMap(map, { interactive: true }));
+          });
+        });
       }
       
       setState(prev => ({
@@ -103,7 +117,7 @@ export default function LoadMoreCollection({
       console.error('Load more failed:', error);
       setState(prev => ({ ...prev, isLoading: false }));
     }
-  }, [state.loadedCount, state.isLoading, state.hasMore, itemsPerPage, collectionId, collectionLayerId, itemIds, layerTemplate]);
+  }, [state.loadedCount, state.isLoading, state.hasMore, itemsPerPage, collectionId, collectionLayerId, itemIds, layerTemplate, query, filters]);
 
   // Handle click events on load more button (delegated)
   useEffect(() => {
@@ -146,6 +160,12 @@ export default function LoadMoreCollection({
     }
   }, [state.loadedCount, state.hasMore, totalItems, collectionLayerId]);
 
+  // Detach maps of loaded items on unmount
+  useEffect(() => {
+    const mapCleanups = mapCleanupsRef.current;
+    return () => mapCleanups.forEach((cleanup) => cleanup());
+  }, []);
+
   return (
     <div 
       ref={containerRef}
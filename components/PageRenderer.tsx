@@ -1,10 +1,18 @@
+import { preload } from 'react-dom';
 import AnimationInitializer from '@/components/AnimationInitializer';
+import LightboxInitializer from '@/components/LightboxInitializer';
+import ColorSchemeToggleInitializer from '@/components/ColorSchemeToggleInitializer';
 import ContentHeightReporter from '@/components/ContentHeightReporter';
 import LayerRenderer from '@/components/LayerRenderer';
 import PasswordForm from '@/components/PasswordForm';
 import { resolveComponents } from '@/lib/resolve-components';
 import { resolveCustomCodePlaceholders } from '@/lib/resolve-cms-variables';
 import { generateInitialAnimationCSS, type HiddenLayerInfo } from '@/lib/animation-utils';
+import { setBreakpoints } from '@/lib/breakpoint-utils';
+import { fetchGlobalPageSettings } from '@/lib/generate-page-metadata';
+import { getLightboxFieldIds, hasLightboxLayers } from '@/lib/lightbox-utils';
+import { getColorSchemeScript, hasColorSchemeToggleLayers } from '@/lib/color-scheme-utils';
+import { parseMultiAssetFieldValue } from '@/lib/multi-asset-utils';
 import { getAllPages } from '@/lib/repositories/pageRepository';
 import { getAllPageFolders } from '@/lib/repositories/pageFolderRepository';
 import { getItemWithValues } from '@/lib/repositories/collectionItemRepository';
@@ -198,11 +206,22 @@ export default async function PageRenderer({
   const normalizedLayers = normalizeRootLayers(resolvedLayers);
   const hasLayers = normalizedLayers.length > 0;
 
+  // Use the site's breakpoints for animation and slider media queries
+  const { breakpoints, fontPreloadUrls } = await fetchGlobalPageSettings();
+  setBreakpoints(breakpoints);
+
+  // Preload custom font files (hoisted to <head>), fonts are always fetched in CORS mode
+  fontPreloadUrls?.forEach((url) => {
+    preload(url, { as: 'font', crossOrigin: 'anonymous' });
+  });
+
   // Generate CSS for initial animation states to prevent flickering
   const { css: initialAnimationCSS, hiddenLayerInfo } = generateInitialAnimationCSS(resolvedLayers);
 
   // Pre-resolve all asset URLs for SSR (images, videos, audio, icons, and field values)
   // This prevents client-side fetching delays and ensures links/media work immediately
+  const lightboxFieldIds = getLightboxFieldIds(resolvedLayers);
+
   const collectAssetIds = (layers: Layer[]): Set<string> => {
     const assetIds = new Set<string>();
 
@@ -273,9 +292,12 @@ export default async function PageRenderer({
 
       // Collection item values on resolved collection layers
       if (layer._collectionItemValues) {
-        for (const value of Object.values(layer._collectionItemValues)) {
+        for (const [fieldId, value] of Object.entries(layer._collectionItemValues)) {
           if (typeof value === 'string' && isUuid(value)) {
             assetIds.add(value);
+          } else if (lightboxFieldIds.has(fieldId)) {
+            // Multi-asset field opened in a lightbox
+            parseMultiAssetFieldValue(value).filter(isUuid).forEach((id) => assetIds.add(id));
           }
         }
       }
@@ -294,9 +316,11 @@ export default async function PageRenderer({
 
   // Also collect from page collection item values (for dynamic pages)
   if (collectionItem) {
-    for (const value of Object.values(collectionItem.values)) {
+    for (const [fieldId, value] of Object.entries(collectionItem.values)) {
       if (typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
         layerAssetIds.add(value);
+      } else if (lightboxFieldIds.has(fieldId)) {
+        parseMultiAssetFieldValue(value).forEach((id) => layerAssetIds.add(id));
       }
     }
   }
@@ -324,6 +348,12 @@ export default async function PageRenderer({
 
   return (
     <>
+      {/* Apply the visitor's color scheme before the page paints (dark: classes) */}
+      <script
+        id="ycode-color-scheme"
+        dangerouslySetInnerHTML={{ __html: getColorSchemeScript() }}
+      />
+
       {/* Inject CSS directly - Next.js hoists this to <head> during SSR */}
       {generatedCss && (
         <style
@@ -376,6 +406,7 @@ export default async function PageRenderer({
         className="min-h-screen bg-white"
         data-layer-id="body"
         data-layer-type="div"
+        data-page-id={page.id}
         data-is-empty={hasLayers ? 'false' : 'true'}
       >
         <LayerRenderer
@@ -407,7 +438,13 @@ export default async function PageRenderer({
       </div>
 
       {/* Initialize GSAP animations based on layer interactions */}
-      <AnimationInitializer layers={resolvedLayers} />
+      <AnimationInitializer layers={resolvedLayers} breakpoints={breakpoints} />
+
+      {/* Open lightbox layers in a full-screen overlay */}
+      {hasLightboxLayers(resolvedLayers) && <LightboxInitializer />}
+
+      {/* Switch between the light and dark color scheme */}
+      {hasColorSchemeToggleLayers(resolvedLayers) && <ColorSchemeToggleInitializer />}
 
       {/* Report content height to parent for zoom calculations (preview only) */}
       {!page.is_published && <ContentHeightReporter />}
@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * Collection control for generated pages: search input, filter dropdown or
+ * checkboxes, or sort selector. Changes update the query params of the
+ * collection layer (q_, f_ and s_, see collection-query-utils) and the page
+ * is rendered again with the filtered items.
+ */
+
+import React, { useState, useEffect, useRef, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  getFilterParamKey,
+  getPageParamKey,
+  getSearchParamKey,
+  getSortParamKey,
+} from '@/lib/collection-query-utils';
+import type { CollectionControlOption, CollectionControlSettings } from '@/types';
+
+/** Delay before the search is applied while typing */
+const SEARCH_DEBOUNCE_MS = 400;
+
+/** The native control fills the layer, which holds the design */
+const CONTROL_STYLE: React.CSSProperties = {
+  width: '100%',
+  minWidth: 0,
+  background: 'transparent',
+  border: 0,
+  outline: 'none',
+  padding: 0,
+  font: 'inherit',
+  color: 'inherit',
+  cursor: 'inherit',
+};
+
+interface CollectionControlProps {
+  layerName: string;
+  settings: CollectionControlSettings;
+  options: CollectionControlOption[];
+  value: string[];
+  isEditMode?: boolean;
+}
+
+export default function CollectionControl({
+  layerName,
+  settings,
+  options,
+  value,
+  isEditMode = false,
+}: CollectionControlProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const { collectionLayerId } = settings;
+
+  // Update the query params of the collection layer and go back to its first page
+  const updateParams = (update: (params: URLSearchParams) => void) => {
+    if (isEditMode || !collectionLayerId) return;
+
+    const params = new URLSearchParams(window.location.search);
+    update(params);
+    params.delete(getPageParamKey(collectionLayerId));
+
+    const search = params.toString();
+    const newUrl = search ? `${window.location.pathname}?${search}` : window.location.pathname;
+
+    startTransition(() => {
+      router.push(newUrl, { scroll: false });
+    });
+  };
+
+  // Canvas: show the control without interactions, so clicks select the layer
+  const editModeProps = isEditMode ? { tabIndex: -1, style: { ...CONTROL_STYLE, pointerEvents: 'none' as const } } : {};
+
+  if (layerName === 'collectionSearch') {
+    return (
+      <CollectionSearchInput
+        settings={settings}
+        value={value[0] || ''}
+        isPending={isPending}
+        editModeProps={editModeProps}
+        onSearch={(search) => updateParams((params) => {
+          const key = getSearchParamKey(collectionLayerId || '');
+          if (search.trim()) {
+            params.set(key, search.trim());
+          } else {
+            params.delete(key);
+          }
+        })}
+      />
+    );
+  }
+
+  if (layerName === 'collectionFilter' && settings.display === 'checkboxes') {
+    return (
+      <CollectionFilterCheckboxes
+        options={options}
+        value={value}
+        isPending={isPending}
+        isEditMode={isEditMode}
+        onChange={(selected) => updateParams((params) => {
+          const key = getFilterParamKey(collectionLayerId || '', settings.fieldId || '');
+          params.delete(key);
+          selected.forEach((selectedValue) => params.append(key, selectedValue));
+        })}
+      />
+    );
+  }
+
+  // Filter dropdown and sort selector
+  const isSort = layerName === 'collectionSort';
+  const emptyLabel = settings.placeholder || (isSort ? 'Default' : 'All');
+
+  return (
+    <select
+      value={value[0] || ''}
+      aria-busy={isPending}
+      aria-label={isSort ? 'Sort by' : 'Filter'}
+      onChange={(e) => {
+        const selected = e.target.value;
+        updateParams((params) => {
+          const key = isSort
+            ? getSortParamKey(collectionLayerId || '')
+            : getFilterParamKey(collectionLayerId || '', settings.fieldId || '');
+          if (selected) {
+            params.set(key, selected);
+          } else {
+            params.delete(key);
+          }
+        });
+      }}
+      style={CONTROL_STYLE}
+      {...editModeProps}
+    >
+      <option value="">{emptyLabel}</option>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function CollectionSearchInput({
+  settings,
+  value,
+  isPending,
+  editModeProps,
+  onSearch,
+}: {
+  settings: CollectionControlSettings;
+  value: string;
+  isPending: boolean;
+  editModeProps: React.InputHTMLAttributes<HTMLInputElement>;
+  onSearch: (search: string) => void;
+}) {
+  const [text, setText] = useState(value);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Follow the URL (back/forward navigation), unless the visitor is typing
+  useEffect(() => {
+    if (document.activeElement !== inputRef.current) {
+      setText(value);
+    }
+  }, [value]);
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  const scheduleSearch = (search: string, delay: number) => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => {
+      if (search.trim() !== value) onSearch(search);
+    }, delay);
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      type="search"
+      value={text}
+      placeholder={settings.placeholder || 'Search...'}
+      aria-busy={isPending}
+      aria-label={settings.placeholder || 'Search'}
+      onChange={(e) => {
+        setText(e.target.value);
+        scheduleSearch(e.target.value, SEARCH_DEBOUNCE_MS);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          scheduleSearch(text, 0);
+        }
+      }}
+      style={CONTROL_STYLE}
+      {...editModeProps}
+    />
+  );
+}
+
+function CollectionFilterCheckboxes({
+  options,
+  value,
+  isPending,
+  isEditMode,
+  onChange,
+}: {
+  options: CollectionControlOption[];
+  value: string[];
+  isPending: boolean;
+  isEditMode: boolean;
+  onChange: (selected: string[]) => void;
+}) {
+  // Checked immediately, while the filtered page loads
+  const [selected, setSelected] = useState(value);
+  const valueKey = JSON.stringify(value);
+
+  useEffect(() => {
+    setSelected(JSON.parse(valueKey));
+  }, [valueKey]);
+
+  const handleToggle = (optionValue: string) => {
+    const updated = selected.includes(optionValue)
+      ? selected.filter((v) => v !== optionValue)
+      : [...selected, optionValue];
+    setSelected(updated);
+    onChange(updated);
+  };
+
+  return (
+    <>
+      {options.map((option) => (
+        <label
+          key={option.value}
+          aria-busy={isPending}
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: '0.5em',
+            cursor: 'pointer',
+            pointerEvents: isEditMode ? 'none' : undefined,
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={selected.includes(option.value)}
+            onChange={() => handleToggle(option.value)}
+            tabIndex={isEditMode ? -1 : undefined}
+          />
+          {option.label}
+        </label>
+      ))}
+    </>
+  );
+}
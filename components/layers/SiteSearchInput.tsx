@@ -0,0 +1,61 @@
+'use client';
+
+/**
+ * Site search input for generated pages: a plain GET form that opens the
+ * search results page with the search param (?q=, see site-search-utils).
+ * Works without JavaScript, the page renders the hits during SSR.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { SITE_SEARCH_PARAM } from '@/lib/site-search-utils';
+import type { SiteSearchSettings } from '@/types';
+
+/** The native input fills the layer, which holds the design */
+const INPUT_STYLE: React.CSSProperties = {
+  width: '100%',
+  minWidth: 0,
+  background: 'transparent',
+  border: 0,
+  outline: 'none',
+  padding: 0,
+  font: 'inherit',
+  color: 'inherit',
+};
+
+interface SiteSearchInputProps {
+  settings: SiteSearchSettings;
+  isEditMode?: boolean;
+}
+
+export default function SiteSearchInput({ settings, isEditMode = false }: SiteSearchInputProps) {
+  const [value, setValue] = useState('');
+
+  // Show the current search on the results page
+  useEffect(() => {
+    if (isEditMode) return;
+    setValue(new URLSearchParams(window.location.search).get(SITE_SEARCH_PARAM) || '');
+  }, [isEditMode]);
+
+  return (
+    <form
+      role="search"
+      method="get"
+      action={settings.action || undefined}
+      style={{ width: '100%', margin: 0 }}
+      onSubmit={(e) => {
+        if (isEditMode || !value.trim()) e.preventDefault();
+      }}
+    >
+      <input
+        type="search"
+        name={SITE_SEARCH_PARAM}
+        value={value}
+        placeholder={settings.placeholder || 'Search...'}
+        aria-label={settings.placeholder || 'Search'}
+        onChange={(e) => setValue(e.target.value)}
+        tabIndex={isEditMode ? -1 : undefined}
+        style={isEditMode ? { ...INPUT_STYLE, pointerEvents: 'none' } : INPUT_STYLE}
+      />
+    </form>
+  );
+}
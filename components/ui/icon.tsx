@@ -15,7 +15,7 @@ export interface IconProps extends React.SVGProps<SVGSVGElement> {
     | 'select' | 'checkbox' | 'radio' | 'zap' | 'zap-outline' | 'loopAlternate' | 'loopRepeat' | 'globe' | 'ease-linear' | 'ease-in' | 'ease-in-out' | 'ease-out' | 'ease-back-in'
     | 'ease-back-in-out' | 'ease-back-out' | 'none' | 'play' | 'stop' | 'info' | 'preview' | 'linear' | 'radial' | 'color' | 'fill-image' | 'eyedrop' | 'calendar' | 'hash'
     | 'paintbrush' | 'swatch' | 'cube' | 'triangle-down' | 'triangle-right' | 'plus-circle' | 'plus-circle-solid' | 'detach' | 'email' | 'phone' | 'paperclip' | 'unlink' | 'map'
-    | 'droplet'
+    | 'droplet' | 'moon'
   );
 }
 
@@ -147,6 +147,9 @@ const ICONS: Record<IconProps['name'], React.ReactNode> = {
   droplet: (
     <path d="M6 0.1345L9.182 3.3164C10.9394 5.0738 10.9394 7.9231 9.182 9.6804C7.4246 11.4378 4.5754 11.4378 2.818 9.6804C1.0606 7.9231 1.0606 5.0738 2.818 3.3164L6 0.1345ZM6 1.5487L3.5251 4.0236C2.1583 5.3904 2.1583 7.6065 3.5251 8.9733C4.2091 9.6573 5.1057 9.999 6.0021 9.9984L6 1.5487Z" />
   ),
+  moon: (
+    <path d="M4.6 1.2C4.3 1.8 4.2 2.4 4.2 3.1C4.2 5.6 6.2 7.7 8.8 7.7C9.5 7.7 10.1 7.6 10.7 7.3C10 9.4 8.1 10.9 5.8 10.9C3 10.9 0.9 8.8 0.9 6C0.9 3.8 2.5 1.9 4.6 1.2Z" />
+  ),
   radial: (
     <>
       <radialGradient
@@ -0,0 +1,80 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Create form_submission_files table
+ *
+ * Stores files uploaded through file inputs in published forms.
+ * Files live in the private 'form-uploads' storage bucket and are only
+ * served through short-lived signed URLs.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  // Private bucket - no public read policy, access goes through the admin client
+  await knex.schema.raw(`
+    INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+    VALUES ('form-uploads', 'form-uploads', false, 52428800, NULL)
+    ON CONFLICT (id) DO NOTHING
+  `);
+
+  await knex.schema.createTable('form_submission_files', (table) => {
+    table.uuid('id').defaultTo(knex.raw('gen_random_uuid()')).primary();
+
+    table.uuid('submission_id').notNullable()
+      .references('id').inTable('form_submissions').onDelete('CASCADE');
+
+    // Form identifier (from layer.settings.id)
+    table.string('form_id', 255).notNullable();
+
+    // Name of the file input the file was submitted with
+    table.string('field_name', 255).notNullable();
+
+    // Original file details
+    table.string('filename', 255).notNullable();
+    table.string('mime_type', 255).notNullable();
+    table.bigInteger('file_size').notNullable();
+
+    // Path within the form-uploads bucket
+    table.text('storage_path').notNullable();
+
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.raw(`
+    CREATE INDEX idx_form_submission_files_submission_id
+    ON form_submission_files(submission_id)
+  `);
+
+  await knex.schema.raw(`
+    CREATE INDEX idx_form_submission_files_form_id
+    ON form_submission_files(form_id)
+  `);
+
+  // Enable Row Level Security
+  await knex.schema.raw('ALTER TABLE form_submission_files ENABLE ROW LEVEL SECURITY');
+
+  // Files are written by the server with the admin client and only
+  // viewed/managed by authenticated users
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can view form submission files"
+      ON form_submission_files FOR SELECT
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can delete form submission files"
+      ON form_submission_files FOR DELETE
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  // Drop policies
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can view form submission files" ON form_submission_files');
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can delete form submission files" ON form_submission_files');
+
+  // Drop table
+  await knex.schema.dropTableIfExists('form_submission_files');
+
+  // Delete bucket (this will fail if there are files in it)
+  await knex.schema.raw("DELETE FROM storage.buckets WHERE id = 'form-uploads'");
+}
@@ -0,0 +1,58 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Add webhook delivery retries
+ *
+ * Failed deliveries are retried on a backoff schedule: next_retry_at holds
+ * when the retry worker should pick a delivery up again (or, while a retry
+ * is being sent, when its claim expires). Webhooks that keep failing are
+ * disabled automatically, with the reason stored on the webhook.
+ *
+ * Also adds the increment_webhook_failure_count function used to count
+ * consecutive failures atomically.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('webhook_deliveries', (table) => {
+    table.timestamp('next_retry_at', { useTz: true }).nullable();
+    table.timestamp('last_attempt_at', { useTz: true }).nullable();
+  });
+
+  await knex.schema.raw(`
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_retry_at
+    ON webhook_deliveries(next_retry_at)
+    WHERE status IN ('retrying', 'pending')
+  `);
+
+  await knex.schema.alterTable('webhooks', (table) => {
+    table.text('disabled_reason').nullable();
+  });
+
+  await knex.schema.raw(`
+    CREATE OR REPLACE FUNCTION increment_webhook_failure_count(webhook_id uuid)
+    RETURNS integer
+    LANGUAGE sql
+    AS $$
+      UPDATE webhooks
+      SET failure_count = COALESCE(failure_count, 0) + 1,
+          updated_at = now()
+      WHERE id = webhook_id
+      RETURNING failure_count;
+    $$
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.raw('DROP FUNCTION IF EXISTS increment_webhook_failure_count(uuid)');
+
+  await knex.schema.alterTable('webhooks', (table) => {
+    table.dropColumn('disabled_reason');
+  });
+
+  await knex.schema.raw('DROP INDEX IF EXISTS idx_webhook_deliveries_next_retry_at');
+
+  await knex.schema.alterTable('webhook_deliveries', (table) => {
+    table.dropColumn('next_retry_at');
+    table.dropColumn('last_attempt_at');
+  });
+}
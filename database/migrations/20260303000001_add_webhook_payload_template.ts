@@ -0,0 +1,20 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Add webhook payload templates
+ *
+ * Optional JSON template per webhook with {{placeholders}} that reshapes
+ * the payload for receivers like Slack that expect their own format.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('webhooks', (table) => {
+    table.text('payload_template').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('webhooks', (table) => {
+    table.dropColumn('payload_template');
+  });
+}
@@ -0,0 +1,62 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Migrate MailerLite connections to the shared connection format
+ *
+ * App integrations now share one connection shape (see lib/apps/types.ts):
+ * groupId/groupName become listId/listName and field mappings use appField
+ * instead of mailerliteField.
+ */
+
+type ConnectionRecord = Record<string, unknown> & {
+  fieldMappings?: Record<string, unknown>[];
+};
+
+function renameKeys(
+  record: Record<string, unknown>,
+  renames: Record<string, string>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [renames[key] || key, value])
+  );
+}
+
+async function migrateConnections(
+  knex: Knex,
+  connectionRenames: Record<string, string>,
+  mappingRenames: Record<string, string>
+): Promise<void> {
+  const setting = await knex('app_settings')
+    .where({ app_id: 'mailerlite', key: 'connections' })
+    .first();
+
+  if (!setting || !Array.isArray(setting.value)) return;
+
+  const connections = (setting.value as ConnectionRecord[]).map((connection) => ({
+    ...renameKeys(connection, connectionRenames),
+    fieldMappings: (connection.fieldMappings || []).map((mapping) => renameKeys(mapping, mappingRenames)),
+  }));
+
+  await knex('app_settings')
+    .where({ id: setting.id })
+    .update({
+      value: JSON.stringify(connections),
+      updated_at: knex.fn.now(),
+    });
+}
+
+export async function up(knex: Knex): Promise<void> {
+  await migrateConnections(
+    knex,
+    { groupId: 'listId', groupName: 'listName' },
+    { mailerliteField: 'appField' }
+  );
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await migrateConnections(
+    knex,
+    { listId: 'groupId', listName: 'groupName' },
+    { appField: 'mailerliteField' }
+  );
+}
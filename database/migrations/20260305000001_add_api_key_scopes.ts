@@ -0,0 +1,31 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Add API Key Scopes
+ *
+ * Adds scopes, collection restriction, expiry and per-key rate limits
+ * to the api_keys table. Existing keys keep full access.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('api_keys', (table) => {
+    // Granted scopes, e.g. ["collections:read", "forms:read"]
+    table.jsonb('scopes').notNullable().defaultTo(
+      JSON.stringify(['collections:read', 'collections:write', 'forms:read', 'forms:write'])
+    );
+    // Collection IDs the key is restricted to (null = all collections)
+    table.jsonb('collection_ids').nullable();
+    table.timestamp('expires_at', { useTz: true }).nullable();
+    // Max requests per minute (null = unlimited)
+    table.integer('rate_limit').nullable();
+  });
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.alterTable('api_keys', (table) => {
+    table.dropColumn('scopes');
+    table.dropColumn('collection_ids');
+    table.dropColumn('expires_at');
+    table.dropColumn('rate_limit');
+  });
+}
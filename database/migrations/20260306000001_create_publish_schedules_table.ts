@@ -0,0 +1,42 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Create Publish Schedules Table
+ *
+ * Stores publishes of the site, pages or collection items scheduled for a
+ * future time, and collection items scheduled to unpublish (expire).
+ * Due schedules are executed by the /ycode/api/cron/publish-schedules route.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('publish_schedules', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('action', 20).notNullable(); // publish, unpublish
+    table.string('target_type', 20).notNullable(); // site, page, collection_item
+    table.uuid('target_id').nullable(); // Null for site-wide publishes
+    table.uuid('collection_id').nullable(); // Collection of collection_item targets
+    table.timestamp('scheduled_at', { useTz: true }).notNullable();
+    table.string('status', 20).notNullable().defaultTo('pending'); // pending, running, completed, failed, cancelled
+    table.text('error').nullable();
+    table.timestamp('executed_at', { useTz: true }).nullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+    table.timestamp('updated_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.raw('CREATE INDEX IF NOT EXISTS idx_publish_schedules_due ON publish_schedules(status, scheduled_at)');
+  await knex.schema.raw('CREATE INDEX IF NOT EXISTS idx_publish_schedules_target ON publish_schedules(target_type, target_id)');
+
+  // Enable Row Level Security
+  await knex.schema.raw('ALTER TABLE publish_schedules ENABLE ROW LEVEL SECURITY');
+
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can manage publish_schedules"
+      ON publish_schedules FOR ALL
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can manage publish_schedules" ON publish_schedules');
+  await knex.schema.dropTableIfExists('publish_schedules');
+}
@@ -0,0 +1,46 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Create Redirect Hits Table
+ *
+ * Counts how often each redirect rule (stored in the "redirects" setting)
+ * is followed. Rows are created on the first hit by the
+ * increment_redirect_hits function, which counts atomically.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('redirect_hits', (table) => {
+    table.string('redirect_id', 255).primary(); // Redirect.id from the redirects setting
+    table.bigInteger('hits').notNullable().defaultTo(0);
+    table.timestamp('last_hit_at', { useTz: true }).nullable();
+  });
+
+  // Enable Row Level Security
+  await knex.schema.raw('ALTER TABLE redirect_hits ENABLE ROW LEVEL SECURITY');
+
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can manage redirect_hits"
+      ON redirect_hits FOR ALL
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+
+  await knex.schema.raw(`
+    CREATE OR REPLACE FUNCTION increment_redirect_hits(p_redirect_id text)
+    RETURNS bigint
+    LANGUAGE sql
+    AS $$
+      INSERT INTO redirect_hits (redirect_id, hits, last_hit_at)
+      VALUES (p_redirect_id, 1, now())
+      ON CONFLICT (redirect_id) DO UPDATE
+      SET hits = redirect_hits.hits + 1,
+          last_hit_at = now()
+      RETURNING hits;
+    $$
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.raw('DROP FUNCTION IF EXISTS increment_redirect_hits(text)');
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can manage redirect_hits" ON redirect_hits');
+  await knex.schema.dropTableIfExists('redirect_hits');
+}
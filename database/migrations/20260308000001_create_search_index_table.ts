@@ -0,0 +1,102 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Create Search Index Table
+ *
+ * Site search index, rebuilt from published pages and CMS items on each
+ * publish (one row per page or dynamic page item and locale). Uses Postgres
+ * full-text search with the 'simple' configuration, which works for any
+ * language (no stemming). Queried by the search_site function.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('search_index', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('source_type', 20).notNullable(); // 'page' or 'cms'
+    table.uuid('source_id').notNullable(); // Page ID or CMS item ID
+    table.uuid('page_id').notNullable();
+    table.string('locale_code', 20).nullable(); // null for the default locale
+    table.text('title').notNullable();
+    table.text('url').notNullable();
+    table.text('content').notNullable();
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  // Title matches rank above content matches
+  await knex.schema.raw(`
+    ALTER TABLE search_index ADD COLUMN search_vector tsvector
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+    ) STORED
+  `);
+
+  await knex.schema.raw('CREATE INDEX idx_search_index_vector ON search_index USING GIN (search_vector)');
+  await knex.schema.raw('CREATE INDEX idx_search_index_locale ON search_index (locale_code)');
+
+  // Enable Row Level Security
+  await knex.schema.raw('ALTER TABLE search_index ENABLE ROW LEVEL SECURITY');
+
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can manage search_index"
+      ON search_index FOR ALL
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+
+  // Ranked matches with an excerpt around them (matches between chr(2) and chr(3))
+  await knex.schema.raw(`
+    CREATE OR REPLACE FUNCTION search_site(p_query text, p_locale text, p_limit integer, p_offset integer)
+    RETURNS TABLE (
+      source_type text,
+      source_id uuid,
+      page_id uuid,
+      title text,
+      url text,
+      excerpt text,
+      rank real,
+      total_count bigint
+    )
+    LANGUAGE sql
+    STABLE
+    AS $$
+      WITH matches AS (
+        SELECT
+          s.source_type,
+          s.source_id,
+          s.page_id,
+          s.title,
+          s.url,
+          s.content,
+          ts_rank(s.search_vector, to_tsquery('simple', p_query)) AS rank,
+          count(*) OVER () AS total_count
+        FROM search_index s
+        WHERE s.locale_code IS NOT DISTINCT FROM p_locale
+          AND s.search_vector @@ to_tsquery('simple', p_query)
+        ORDER BY rank DESC, s.title ASC
+        LIMIT p_limit OFFSET p_offset
+      )
+      SELECT
+        m.source_type::text,
+        m.source_id,
+        m.page_id,
+        m.title,
+        m.url,
+        ts_headline(
+          'simple',
+          m.content,
+          to_tsquery('simple', p_query),
+          'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS excerpt,
+        m.rank,
+        m.total_count
+      FROM matches m
+      ORDER BY m.rank DESC, m.title ASC
+    $$
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.raw('DROP FUNCTION IF EXISTS search_site(text, text, integer, integer)');
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can manage search_index" ON search_index');
+  await knex.schema.dropTableIfExists('search_index');
+}
@@ -0,0 +1,125 @@
+import type { Knex } from 'knex';
+
+/**
+ * Migration: Create Site Releases Table
+ *
+ * Each publish is recorded as a named release: a snapshot of all published
+ * rows (pages, layers, components, styles, collections, translations) and
+ * the published CSS. The live site can be rolled back to a release with the
+ * restore_site_release function, which replaces the published rows in one
+ * transaction. Drafts are not changed.
+ */
+
+export async function up(knex: Knex): Promise<void> {
+  await knex.schema.createTable('site_releases', (table) => {
+    table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+    table.string('name', 255).notNullable();
+    table.jsonb('snapshot').notNullable(); // Published rows per table, and published_css
+    table.jsonb('stats').notNullable().defaultTo('{}'); // Number of rows per table
+    table.timestamp('created_at', { useTz: true }).defaultTo(knex.fn.now());
+  });
+
+  await knex.schema.raw('CREATE INDEX idx_site_releases_created_at ON site_releases (created_at DESC)');
+
+  // Enable Row Level Security
+  await knex.schema.raw('ALTER TABLE site_releases ENABLE ROW LEVEL SECURITY');
+
+  await knex.schema.raw(`
+    CREATE POLICY "Authenticated users can manage site_releases"
+      ON site_releases FOR ALL
+      USING ((SELECT auth.uid()) IS NOT NULL)
+  `);
+
+  // Tables are listed parents first (foreign keys reference earlier tables)
+  await knex.schema.raw(`
+    CREATE OR REPLACE FUNCTION create_site_release(p_name text)
+    RETURNS uuid
+    LANGUAGE plpgsql
+    AS $$
+    DECLARE
+      v_table text;
+      v_rows jsonb;
+      v_snapshot jsonb := '{}'::jsonb;
+      v_stats jsonb := '{}'::jsonb;
+      v_id uuid;
+    BEGIN
+      FOREACH v_table IN ARRAY ARRAY[
+        'page_folders', 'pages', 'page_layers', 'components', 'layer_styles',
+        'collections', 'collection_fields', 'collection_items', 'collection_item_values',
+        'locales', 'translations'
+      ]
+      LOOP
+        EXECUTE format(
+          'SELECT coalesce(jsonb_agg(to_jsonb(t)), ''[]''::jsonb) FROM %I t WHERE t.is_published = true',
+          v_table
+        ) INTO v_rows;
+        v_snapshot := v_snapshot || jsonb_build_object(v_table, v_rows);
+        v_stats := v_stats || jsonb_build_object(v_table, jsonb_array_length(v_rows));
+      END LOOP;
+
+      v_snapshot := v_snapshot || jsonb_build_object(
+        'published_css',
+        (SELECT s.value FROM settings s WHERE s.key = 'published_css')
+      );
+
+      INSERT INTO site_releases (name, snapshot, stats)
+      VALUES (p_name, v_snapshot, v_stats)
+      RETURNING id INTO v_id;
+
+      RETURN v_id;
+    END;
+    $$
+  `);
+
+  // Children are deleted first, parents are inserted first
+  await knex.schema.raw(`
+    CREATE OR REPLACE FUNCTION restore_site_release(p_release_id uuid)
+    RETURNS void
+    LANGUAGE plpgsql
+    AS $$
+    DECLARE
+      v_tables text[] := ARRAY[
+        'page_folders', 'pages', 'page_layers', 'components', 'layer_styles',
+        'collections', 'collection_fields', 'collection_items', 'collection_item_values',
+        'locales', 'translations'
+      ];
+      v_table text;
+      v_snapshot jsonb;
+    BEGIN
+      SELECT r.snapshot INTO v_snapshot FROM site_releases r WHERE r.id = p_release_id;
+
+      IF v_snapshot IS NULL THEN
+        RAISE EXCEPTION 'Release % not found', p_release_id;
+      END IF;
+
+      FOR i IN REVERSE array_length(v_tables, 1)..1
+      LOOP
+        EXECUTE format('DELETE FROM %I WHERE is_published = true', v_tables[i]);
+      END LOOP;
+
+      FOREACH v_table IN ARRAY v_tables
+      LOOP
+        EXECUTE format(
+          'INSERT INTO %I SELECT * FROM jsonb_populate_recordset(NULL::%I, $1)',
+          v_table,
+          v_table
+        ) USING coalesce(v_snapshot -> v_table, '[]'::jsonb);
+      END LOOP;
+
+      IF jsonb_typeof(v_snapshot -> 'published_css') IS NOT NULL
+        AND jsonb_typeof(v_snapshot -> 'published_css') <> 'null' THEN
+        INSERT INTO settings (key, value)
+        VALUES ('published_css', v_snapshot -> 'published_css')
+        ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = now();
+      END IF;
+    END;
+    $$
+  `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+  await knex.schema.raw('DROP FUNCTION IF EXISTS restore_site_release(uuid)');
+  await knex.schema.raw('DROP FUNCTION IF EXISTS create_site_release(text)');
+  await knex.schema.raw('DROP POLICY IF EXISTS "Authenticated users can manage site_releases" ON site_releases');
+  await knex.schema.dropTableIfExists('site_releases');
+}
@@ -0,0 +1,13 @@
+import { useMemo } from 'react';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { BREAKPOINTS_SETTING, normalizeBreakpoints, type BreakpointConfig } from '@/lib/breakpoint-utils';
+
+/**
+ * Hook to get the site's breakpoints (from the breakpoints setting)
+ * Re-renders when breakpoints are added, renamed, reordered or resized.
+ */
+export function useBreakpoints(): BreakpointConfig[] {
+  const value = useSettingsStore((state) => state.settingsByKey[BREAKPOINTS_SETTING]);
+
+  return useMemo(() => normalizeBreakpoints(value), [value]);
+}
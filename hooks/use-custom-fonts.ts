@@ -0,0 +1,38 @@
+import { useEffect, useMemo } from 'react';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { useAssetsStore } from '@/stores/useAssetsStore';
+import { FONTS_SETTING, getFontAssetIds, normalizeFonts } from '@/lib/font-utils';
+import type { CustomFont } from '@/types';
+
+/**
+ * Hook to get the site's custom fonts (from the fonts setting)
+ * Re-renders when fonts are added, changed or removed.
+ */
+export function useCustomFonts(): CustomFont[] {
+  const value = useSettingsStore((state) => state.settingsByKey[FONTS_SETTING]);
+
+  return useMemo(() => normalizeFonts(value), [value]);
+}
+
+/**
+ * Hook to get the public URLs of uploaded font files (asset ID → URL)
+ * Missing assets are fetched into the assets store.
+ */
+export function useFontAssetUrls(fonts: CustomFont[]): Record<string, string> {
+  const assetsById = useAssetsStore((state) => state.assetsById);
+  const getAsset = useAssetsStore((state) => state.getAsset);
+  const assetIds = useMemo(() => getFontAssetIds(fonts), [fonts]);
+
+  useEffect(() => {
+    assetIds.forEach((id) => getAsset(id));
+  }, [assetIds, getAsset]);
+
+  return useMemo(() => {
+    const urls: Record<string, string> = {};
+    assetIds.forEach((id) => {
+      const url = assetsById[id]?.public_url;
+      if (url) urls[id] = url;
+    });
+    return urls;
+  }, [assetIds, assetsById]);
+}
@@ -15,6 +15,8 @@ import {
   setBreakpointClass,
   getInheritedValue,
   getConflictingClassPattern,
+  stripClassPrefixes,
+  stripArbitraryTypeHint,
 } from '@/lib/tailwind-class-mapper';
 import { updateStyledLayer } from '@/lib/layer-style-utils';
 import { useCanvasTextEditorStore } from '@/stores/useCanvasTextEditorStore';
@@ -294,7 +296,7 @@ export function useDesignSync({
         if (!inheritedClass) return undefined;
 
         const arbitraryMatch = inheritedClass.match(/\[([^\]]+)\]/);
-        if (arbitraryMatch) return arbitraryMatch[1];
+        if (arbitraryMatch) return stripArbitraryTypeHint(arbitraryMatch[1]);
 
         return mapClassToDesignValue(inheritedClass, property);
       }
@@ -330,7 +332,7 @@ export function useDesignSync({
       // Parse the inherited class to extract the actual value
       const arbitraryMatch = inheritedClass.match(/\[([^\]]+)\]/);
       if (arbitraryMatch) {
-        return arbitraryMatch[1];
+        return stripArbitraryTypeHint(arbitraryMatch[1]);
       }
 
       return mapClassToDesignValue(inheritedClass, property);
@@ -472,7 +474,7 @@ export function useDesignSync({
  */
 function mapClassToDesignValue(className: string, property: string): string | undefined {
   // Remove any breakpoint and state prefixes
-  const cleanClass = className.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+  const cleanClass = stripClassPrefixes(className);
 
   // Special cases for properties where classes don't have dashes or are complete values
   const noSplitProperties = [
@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { DESIGN_TOKENS_SETTING, normalizeDesignTokens } from '@/lib/design-token-utils';
+import type { DesignToken, DesignTokenType } from '@/types';
+
+/**
+ * Hook to get the site's design tokens (from the design tokens setting)
+ * Pass a type to only get tokens of that type.
+ */
+export function useDesignTokens(type?: DesignTokenType): DesignToken[] {
+  const value = useSettingsStore((state) => state.settingsByKey[DESIGN_TOKENS_SETTING]);
+
+  return useMemo(() => {
+    const tokens = normalizeDesignTokens(value);
+    return type ? tokens.filter((token) => token.type === type) : tokens;
+  }, [value, type]);
+}
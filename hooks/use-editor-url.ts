@@ -4,6 +4,7 @@ import { usePathname, useSearchParams, useRouter } from 'next/navigation';
 import { useCallback, useMemo } from 'react';
 import { useEditorStore } from '@/stores/useEditorStore';
 import { useCollectionsStore } from '@/stores/useCollectionsStore';
+import type { Breakpoint } from '@/types';
 
 /**
  * Update URL query parameter using browser history API
@@ -53,7 +54,7 @@ interface EditorUrlState {
   pageSize?: number | null; // For collection items per page
   search?: string | null; // For collection search
   sidebarTab: EditorTab; // Inferred from route type
-  view?: 'desktop' | 'tablet' | 'mobile' | null; // Viewport mode
+  view?: Breakpoint | null; // Viewport mode (breakpoint ID)
   rightTab?: 'design' | 'settings' | 'interactions' | null; // Right sidebar tab
   layerId?: string | null; // Selected layer ID
 }
@@ -92,7 +93,7 @@ export function useEditorUrl() {
         tab: null,
         page: null,
         sidebarTab: 'layers', // Inferred: layers route shows layers sidebar
-        view: viewParam as 'desktop' | 'tablet' | 'mobile' | null,
+        view: viewParam as Breakpoint | null,
         rightTab: rightTabParam as 'design' | 'settings' | 'interactions' | null,
         layerId: layerParam,
       };
@@ -116,7 +117,7 @@ export function useEditorUrl() {
         tab: editTab,
         page: null,
         sidebarTab: 'pages', // Inferred: pages route shows pages sidebar
-        view: viewParam as 'desktop' | 'tablet' | 'mobile' | null,
+        view: viewParam as Breakpoint | null,
         rightTab: rightTabParam as 'design' | 'settings' | 'interactions' | null,
         layerId: layerParam,
       };
@@ -3,7 +3,7 @@
  */
 
 import type { InteractionTween, TweenProperties, Layer, Breakpoint } from '@/types';
-import { BREAKPOINTS } from '@/lib/breakpoint-utils';
+import { getBreakpointRange, getBreakpoints, getBreakpointValues, getWidthMediaQuery } from '@/lib/breakpoint-utils';
 
 /**
  * Creates a SplitText instance with responsive animation support
@@ -393,32 +393,36 @@ export function isLayerOrAncestorSelected(
  * Returns null if no restriction (all breakpoints), or the appropriate media query
  */
 function getMediaQueryForBreakpoints(breakpoints: Breakpoint[] | undefined): string | null {
+  const allBreakpoints = getBreakpointValues();
+
   // No restriction - apply to all breakpoints
-  if (!breakpoints || breakpoints.length === 0 || breakpoints.length === 3) {
+  if (!breakpoints || breakpoints.length === 0 || allBreakpoints.every((bp) => breakpoints.includes(bp))) {
     return null;
   }
 
-  const hasMobile = breakpoints.includes('mobile');
-  const hasTablet = breakpoints.includes('tablet');
-  const hasDesktop = breakpoints.includes('desktop');
-
-  // Single breakpoint cases
-  if (breakpoints.length === 1) {
-    if (hasMobile) return '@media (max-width: 767px)';
-    if (hasTablet) return '@media (min-width: 768px) and (max-width: 1023px)';
-    if (hasDesktop) return '@media (min-width: 1024px)';
+  // Width ranges of the breakpoints, narrowest widths first
+  const ranges = breakpoints
+    .filter((bp) => allBreakpoints.includes(bp))
+    .map(getBreakpointRange)
+    .sort((a, b) => (a.min ?? -Infinity) - (b.min ?? -Infinity));
+
+  // Merge adjacent ranges (e.g. mobile + tablet → max-width of tablet)
+  const merged: Array<{ min: number | null; max: number | null }> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && last.max !== null && range.min !== null && range.min <= last.max + 1) {
+      last.max = range.max;
+    } else {
+      merged.push({ ...range });
+    }
   }
 
-  // Two breakpoint cases
-  if (breakpoints.length === 2) {
-    if (hasMobile && hasTablet) return '@media (max-width: 1023px)';
-    if (hasTablet && hasDesktop) return '@media (min-width: 768px)';
-    // Mobile + Desktop is a weird case - we'd need two separate rules
-    // For now, return null and apply everywhere (better than breaking)
-    if (hasMobile && hasDesktop) return null;
-  }
+  // Non-adjacent ranges (e.g. mobile + desktop) become a media query list
+  const queries = merged
+    .map(getWidthMediaQuery)
+    .filter((query): query is string => query !== null);
 
-  return null;
+  return queries.length > 0 ? `@media ${queries.join(', ')}` : null;
 }
 
 /**
@@ -438,9 +442,11 @@ export function generateInitialAnimationCSS(layers: Layer[]): InitialAnimationRe
   // Global (all breakpoints)
   cssRules.push('[data-gsap-hidden=""] { display: none !important; }');
   // Per-breakpoint rules
-  cssRules.push('@media (max-width: 767px) { [data-gsap-hidden~="mobile"] { display: none !important; } }');
-  cssRules.push('@media (min-width: 768px) and (max-width: 1023px) { [data-gsap-hidden~="tablet"] { display: none !important; } }');
-  cssRules.push('@media (min-width: 1024px) { [data-gsap-hidden~="desktop"] { display: none !important; } }');
+  getBreakpoints().forEach((bp) => {
+    const mediaQuery = getWidthMediaQuery(getBreakpointRange(bp.value));
+    const rule = `[data-gsap-hidden~="${bp.value}"] { display: none !important; }`;
+    cssRules.push(mediaQuery ? `@media ${mediaQuery} { ${rule} }` : rule);
+  });
 
   const collectStyles = (layerList: Layer[]) => {
     layerList.forEach((layer) => {
@@ -0,0 +1,88 @@
+/**
+ * API Key Utilities
+ *
+ * Scopes and access settings for public v1 API keys, safe to import from both
+ * the v1 API auth helpers and the API keys settings page.
+ */
+
+export type ApiKeyScope =
+  | 'collections:read'
+  | 'collections:write'
+  | 'forms:read'
+  | 'forms:write';
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'collections:read', label: 'Read collections', description: 'List collections and their items' },
+  { value: 'collections:write', label: 'Write collections', description: 'Create, update and delete collection items' },
+  { value: 'forms:read', label: 'Read forms', description: 'List forms and their submissions' },
+  { value: 'forms:write', label: 'Write forms', description: 'Create, update and delete form submissions' },
+];
+
+/** Scopes granted to new keys unless chosen otherwise */
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = API_KEY_SCOPES.map((scope) => scope.value);
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.some((scope) => scope.value === value);
+}
+
+/**
+ * Whether an API key has expired
+ */
+export function isApiKeyExpired(expiresAt: string | null, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
+
+export interface ApiKeyAccessData {
+  scopes?: ApiKeyScope[];
+  collection_ids?: string[] | null;
+  expires_at?: string | null;
+  rate_limit?: number | null;
+}
+
+/**
+ * Validate the access settings of an API key request body
+ * Only fields present in the body are returned, so partial updates work.
+ */
+export function parseApiKeyAccess(
+  body: Record<string, unknown>
+): { data: ApiKeyAccessData; error?: undefined } | { data?: undefined; error: string } {
+  const data: ApiKeyAccessData = {};
+
+  if (body.scopes !== undefined) {
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isApiKeyScope)) {
+      return { error: 'Select at least one valid scope' };
+    }
+    data.scopes = Array.from(new Set(body.scopes));
+  }
+
+  if (body.collection_ids !== undefined) {
+    if (body.collection_ids !== null && (
+      !Array.isArray(body.collection_ids) ||
+      body.collection_ids.length === 0 ||
+      !body.collection_ids.every((id) => typeof id === 'string' && id)
+    )) {
+      return { error: 'Select at least one collection, or allow all collections' };
+    }
+    data.collection_ids = body.collection_ids as string[] | null;
+  }
+
+  if (body.expires_at !== undefined) {
+    if (body.expires_at !== null && (
+      typeof body.expires_at !== 'string' || isNaN(new Date(body.expires_at).getTime())
+    )) {
+      return { error: 'Invalid expiry date' };
+    }
+    data.expires_at = body.expires_at ? new Date(body.expires_at).toISOString() : null;
+  }
+
+  if (body.rate_limit !== undefined) {
+    if (body.rate_limit !== null && (
+      typeof body.rate_limit !== 'number' || !Number.isInteger(body.rate_limit) || body.rate_limit < 1
+    )) {
+      return { error: 'Rate limit must be a positive whole number' };
+    }
+    data.rate_limit = body.rate_limit as number | null;
+  }
+
+  return { data };
+}
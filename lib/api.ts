@@ -4,7 +4,7 @@
  * Handles communication with Next.js API routes
  */
 
-import type { Page, PageLayers, Layer, Asset, AssetCategory, PageFolder, ApiResponse, Collection, CollectionField, CollectionItemWithValues, Component, LayerStyle, Setting, UpdateCollectionData, CreateCollectionFieldData, UpdateCollectionFieldData, Locale, Translation, CreateLocaleData, UpdateLocaleData, CreateTranslationData, UpdateTranslationData, AssetFolder } from '../types';
+import type { Page, PageLayers, Layer, Asset, AssetCategory, PageFolder, ApiResponse, Collection, CollectionField, CollectionItemWithValues, Component, LayerStyle, Setting, UpdateCollectionData, CreateCollectionFieldData, UpdateCollectionFieldData, Locale, Translation, CreateLocaleData, UpdateLocaleData, CreateTranslationData, UpdateTranslationData, AssetFolder, PublishSchedule, CreatePublishScheduleData, PublishScheduleTargetType, SiteRelease, SiteReleaseDiff } from '../types';
 
 // All API routes are now relative (Next.js API routes)
 const API_BASE = '';
@@ -215,6 +215,7 @@ export const publishApi = {
     layerStyleIds?: string[];
     publishLocales?: boolean;
     publishAll?: boolean;
+    releaseName?: string;
   } = {}): Promise<ApiResponse<{
     changes: {
       folders: number;
@@ -227,12 +228,68 @@ export const publishApi = {
       css: boolean;
     };
     published_at_setting: Setting;
+    release: SiteRelease | null;
   }>> {
     return apiRequest('/ycode/api/publish', {
       method: 'POST',
       body: JSON.stringify(options),
     });
   },
+
+  /** Get pending publish schedules, optionally for a single target */
+  async getSchedules(filters: {
+    target_type?: PublishScheduleTargetType;
+    target_id?: string;
+    collection_id?: string;
+  } = {}): Promise<ApiResponse<PublishSchedule[]>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const query = params.toString();
+    return apiRequest(`/ycode/api/publish/schedules${query ? `?${query}` : ''}`);
+  },
+
+  /** Schedule a publish or unpublish */
+  async createSchedule(data: CreatePublishScheduleData): Promise<ApiResponse<PublishSchedule>> {
+    return apiRequest('/ycode/api/publish/schedules', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /** Cancel a pending publish schedule */
+  async cancelSchedule(id: string): Promise<ApiResponse<PublishSchedule>> {
+    return apiRequest(`/ycode/api/publish/schedules/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /** Get the releases recorded on publish (newest first) and the ID of the live release */
+  async getReleases(): Promise<ApiResponse<{ releases: SiteRelease[]; live_release_id: string | null }>> {
+    return apiRequest('/ycode/api/publish/releases');
+  },
+
+  /** Rename a release */
+  async renameRelease(id: string, name: string): Promise<ApiResponse<SiteRelease>> {
+    return apiRequest(`/ycode/api/publish/releases/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+    });
+  },
+
+  /** Compare two releases (from the older to the newer one) */
+  async diffReleases(fromId: string, toId: string): Promise<ApiResponse<SiteReleaseDiff>> {
+    const params = new URLSearchParams({ from: fromId, to: toId });
+    return apiRequest(`/ycode/api/publish/releases/diff?${params.toString()}`);
+  },
+
+  /** Roll the live site back to a release */
+  async rollbackRelease(id: string): Promise<ApiResponse<SiteRelease>> {
+    return apiRequest(`/ycode/api/publish/releases/${id}/rollback`, {
+      method: 'POST',
+    });
+  },
 };
 
 // Assets API
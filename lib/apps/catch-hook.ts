@@ -0,0 +1,115 @@
+/**
+ * Catch Hook Integration Provider
+ *
+ * Posts form submissions to an automation platform's catch-hook URL
+ * (Zapier "Catch Hook", Make "Custom webhook"). Each connection has its
+ * own hook URL; field mappings are optional and rename the submitted
+ * fields, otherwise all fields are sent as submitted.
+ * Settings: connections
+ */
+
+import { mapSubmissionFields } from './field-mapping';
+import type { AppConnection, AppSubmissionResult, IntegrationProvider } from './types';
+
+/** Give up on a hook that doesn't respond within this time */
+const CATCH_HOOK_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Build the JSON body sent to the hook
+ */
+function buildHookPayload(
+  connection: AppConnection,
+  submissionId: string,
+  payload: Record<string, unknown>
+): Record<string, unknown> {
+  return {
+    form_id: connection.formId,
+    submission_id: submissionId,
+    submitted_at: new Date().toISOString(),
+    fields: connection.fieldMappings.length > 0
+      ? mapSubmissionFields(connection.fieldMappings, payload)
+      : payload,
+  };
+}
+
+/**
+ * Post a payload to a connection's hook URL
+ */
+async function postToHook(
+  appName: string,
+  connection: AppConnection,
+  body: Record<string, unknown>
+): Promise<AppSubmissionResult> {
+  try {
+    const response = await fetch(connection.hookUrl as string, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Ycode-Integration/1.0',
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(CATCH_HOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { success: false, error: `${appName} hook returned status ${response.status}` };
+    }
+
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[${appName}] Failed to post to hook for form ${connection.formId}:`, message);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Create a provider for a catch-hook based automation app
+ *
+ * @param appName - Display name used in logs and error messages
+ */
+export function createCatchHookProvider(appName: string): IntegrationProvider {
+  return {
+    // Nothing to configure besides the connections
+    isConfigured: () => true,
+
+    test: async (_settings, connection) => {
+      if (!connection?.hookUrl) {
+        return { valid: false, error: 'Hook URL is required' };
+      }
+
+      // Send sample values so the platform can pick up the field names
+      const sampleFields = connection.fieldMappings.length > 0
+        ? Object.fromEntries(connection.fieldMappings.map((m) => [m.formField, `Sample ${m.formField}`]))
+        : { email: 'jane@example.com', message: 'This is a test submission from Ycode' };
+
+      const result = await postToHook(appName, connection, {
+        ...buildHookPayload(connection, 'test', sampleFields),
+        test: true,
+      });
+
+      return { valid: result.success, error: result.error };
+    },
+
+    validateConnection: (connection) => {
+      if (!connection.formId) return 'Select a form';
+      if (!connection.hookUrl) return 'Hook URL is required';
+
+      try {
+        const url = new URL(connection.hookUrl);
+        if (url.protocol !== 'https:') return 'Hook URL must use https';
+      } catch {
+        return 'Invalid hook URL';
+      }
+
+      return null;
+    },
+
+    processSubmission: (_settings, connection, submission) =>
+      postToHook(
+        appName,
+        connection,
+        buildHookPayload(connection, submission.submissionId, submission.payload)
+      ),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Field Mapping Helpers
+ *
+ * Apply a connection's field mappings to a form submission payload.
+ * Shared by the integration providers.
+ */
+
+import type { AppConnection, AppFieldMapping } from './types';
+
+/** App field key that holds the subscriber email in list-based apps */
+export const EMAIL_APP_FIELD = 'email';
+
+/**
+ * Convert a submitted value to the string sent to the app
+ * Multi-value fields (checkbox groups, multiple files) are comma-separated.
+ */
+export function formatMappedValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(formatMappedValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Build an app field -> value map from the mappings
+ * Empty values are skipped so existing data in the app isn't cleared.
+ */
+export function mapSubmissionFields(
+  mappings: AppFieldMapping[],
+  payload: Record<string, unknown>,
+  excludeAppFields: string[] = []
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+
+  for (const mapping of mappings) {
+    if (!mapping.formField || !mapping.appField || excludeAppFields.includes(mapping.appField)) {
+      continue;
+    }
+
+    const value = formatMappedValue(payload[mapping.formField]);
+    if (value) {
+      fields[mapping.appField] = value;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Get the submitter's email from the email mapping
+ * Returns null if there is no mapping or the value isn't an email address.
+ */
+export function getMappedEmail(
+  mappings: AppFieldMapping[],
+  payload: Record<string, unknown>
+): string | null {
+  const emailMapping = mappings.find((m) => m.appField === EMAIL_APP_FIELD);
+  if (!emailMapping) return null;
+
+  const email = formatMappedValue(payload[emailMapping.formField]).trim();
+  return email.includes('@') ? email : null;
+}
+
+/**
+ * Check a connection for a list-based app (list selected, email mapped)
+ * Returns null if valid, error message if invalid
+ */
+export function validateListConnection(connection: AppConnection, listLabel: string): string | null {
+  if (!connection.formId) return 'Select a form';
+  if (!connection.listId) return `Select a ${listLabel.toLowerCase()}`;
+
+  const hasEmailMapping = connection.fieldMappings.some(
+    (m) => m.appField === EMAIL_APP_FIELD && m.formField
+  );
+  if (!hasEmailMapping) return 'Email field mapping is required';
+
+  return null;
+}
@@ -5,13 +5,52 @@
  * Each app that has active connections for the submitted form
  * will receive the submission data.
  *
+ * Apps receive submissions through an IntegrationProvider, registered
+ * below by the id of their AppDefinition (see lib/apps/registry.ts).
+ *
  * This runs fire-and-forget (non-blocking) so form submission
  * response is not delayed by integration processing.
  */
 
-import { getAppSettingValue } from '@/lib/repositories/appSettingsRepository';
-import { processFormSubmission } from '@/lib/apps/mailerlite';
-import type { MailerLiteConnection } from '@/lib/apps/mailerlite/types';
+import { getAppSettingsMap } from '@/lib/repositories/appSettingsRepository';
+import { getAppById } from '@/lib/apps/registry';
+import { mailerliteProvider } from '@/lib/apps/mailerlite/provider';
+import { mailchimpProvider } from '@/lib/apps/mailchimp/provider';
+import { createCatchHookProvider } from '@/lib/apps/catch-hook';
+import type {
+  AppConnection,
+  IntegrationProvider,
+  IntegrationSubmission,
+} from '@/lib/apps/types';
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+const providers: Record<string, IntegrationProvider> = {
+  mailerlite: mailerliteProvider,
+  mailchimp: mailchimpProvider,
+  zapier: createCatchHookProvider('Zapier'),
+  make: createCatchHookProvider('Make'),
+};
+
+/**
+ * Get the integration provider of an app
+ */
+export function getIntegrationProvider(appId: string): IntegrationProvider | undefined {
+  return providers[appId];
+}
+
+/**
+ * Read the connections stored in an app's settings
+ */
+export function getAppConnections(settings: Record<string, unknown>): AppConnection[] {
+  return Array.isArray(settings.connections) ? (settings.connections as AppConnection[]) : [];
+}
+
+// =============================================================================
+// Submission Processing
+// =============================================================================
 
 /**
  * Process a form submission through all configured app integrations.
@@ -23,46 +62,47 @@ export async function processAppIntegrations(
   payload: Record<string, unknown>
 ): Promise<void> {
   try {
-    await processMailerLiteIntegration(formId, payload);
+    const submission: IntegrationSubmission = { formId, submissionId, payload };
+
+    await Promise.allSettled(
+      Object.entries(providers).map(([appId, provider]) =>
+        processAppIntegration(appId, provider, submission)
+      )
+    );
   } catch (error) {
     console.error('[processAppIntegrations] Unexpected error:', error);
   }
 }
 
 /**
- * Process form submission for MailerLite integration
+ * Process a form submission for a single app
  */
-async function processMailerLiteIntegration(
-  formId: string,
-  payload: Record<string, unknown>
+async function processAppIntegration(
+  appId: string,
+  provider: IntegrationProvider,
+  submission: IntegrationSubmission
 ): Promise<void> {
+  const appName = getAppById(appId)?.name || appId;
+
   try {
-    // Load MailerLite API key
-    const apiKey = await getAppSettingValue<string>('mailerlite', 'api_key');
-    if (!apiKey) return; // MailerLite not configured
-
-    // Load connections
-    const connections = await getAppSettingValue<MailerLiteConnection[]>(
-      'mailerlite',
-      'connections'
-    );
-    if (!connections || connections.length === 0) return;
+    const settings = await getAppSettingsMap(appId);
+    if (!provider.isConfigured(settings)) return; // App not configured
 
     // Find active connections for this form
-    const activeConnections = connections.filter(
-      (c) => c.enabled && c.formId === formId
+    const activeConnections = getAppConnections(settings).filter(
+      (c) => c.enabled && c.formId === submission.formId
     );
 
     if (activeConnections.length === 0) return;
 
     console.log(
-      `[MailerLite] Processing ${activeConnections.length} connection(s) for form "${formId}"`
+      `[${appName}] Processing ${activeConnections.length} connection(s) for form "${submission.formId}"`
     );
 
     // Process each connection in parallel
     const results = await Promise.allSettled(
       activeConnections.map((connection) =>
-        processFormSubmission(apiKey, connection, payload)
+        provider.processSubmission(settings, connection, submission)
       )
     );
 
@@ -70,26 +110,27 @@ async function processMailerLiteIntegration(
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
       const connection = activeConnections[i];
+      const target = connection.listName || `connection ${connection.id}`;
 
       if (result.status === 'fulfilled') {
         if (result.value.success) {
           console.log(
-            `[MailerLite] Successfully processed form "${formId}" -> group "${connection.groupName}"`
+            `[${appName}] Successfully processed form "${submission.formId}" -> "${target}"`
           );
         } else {
           console.error(
-            `[MailerLite] Failed to process form "${formId}" -> group "${connection.groupName}":`,
+            `[${appName}] Failed to process form "${submission.formId}" -> "${target}":`,
             result.value.error
           );
         }
       } else {
         console.error(
-          `[MailerLite] Error processing form "${formId}" -> group "${connection.groupName}":`,
+          `[${appName}] Error processing form "${submission.formId}" -> "${target}":`,
           result.reason
         );
       }
     }
   } catch (error) {
-    console.error('[MailerLite] Integration error:', error);
+    console.error(`[${appName}] Integration error:`, error);
   }
 }
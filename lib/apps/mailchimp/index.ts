@@ -0,0 +1,187 @@
+/**
+ * Mailchimp API Client
+ *
+ * Server-side functions for communicating with the Mailchimp Marketing API.
+ * The API host depends on the account's data center, which is the suffix
+ * of the API key (e.g. "...-us21" -> https://us21.api.mailchimp.com/3.0).
+ *
+ * API Documentation: https://mailchimp.com/developer/marketing/api/
+ */
+
+import { createHash } from 'crypto';
+import type {
+  MailchimpAudience,
+  MailchimpMergeField,
+  MailchimpMember,
+  MailchimpError,
+} from './types';
+import type { AppConnection, AppSubmissionResult } from '../types';
+import { EMAIL_APP_FIELD, getMappedEmail, mapSubmissionFields } from '../field-mapping';
+
+// =============================================================================
+// API Helpers
+// =============================================================================
+
+interface MailchimpRequestOptions {
+  method?: string;
+  body?: unknown;
+}
+
+/**
+ * Get the API base URL from the data center suffix of the API key
+ */
+function getApiBase(apiKey: string): string {
+  const dataCenter = apiKey.split('-')[1];
+
+  if (!dataCenter || !/^[a-z]+\d+$/.test(dataCenter)) {
+    throw new Error('Invalid API key format (expected a key ending in a data center, e.g. "-us21")');
+  }
+
+  return `https://${dataCenter}.api.mailchimp.com/3.0`;
+}
+
+async function mailchimpRequest<T>(
+  apiKey: string,
+  path: string,
+  options: MailchimpRequestOptions = {}
+): Promise<T> {
+  const { method = 'GET', body } = options;
+
+  const response = await fetch(`${getApiBase(apiKey)}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`ycode:${apiKey}`).toString('base64')}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const errorData: MailchimpError = await response.json().catch(() => ({}));
+    const message = errorData.detail || errorData.title || `Mailchimp API error: ${response.status} ${response.statusText}`;
+    throw new Error(message);
+  }
+
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+
+  return response.json();
+}
+
+// =============================================================================
+// API Key Validation
+// =============================================================================
+
+/**
+ * Test if a Mailchimp API key is valid using the ping endpoint
+ */
+export async function testApiKey(apiKey: string): Promise<{
+  valid: boolean;
+  error?: string;
+}> {
+  try {
+    await mailchimpRequest<{ health_status: string }>(apiKey, '/ping');
+    return { valid: true };
+  } catch (error) {
+    return {
+      valid: false,
+      error: error instanceof Error ? error.message : 'Invalid API key',
+    };
+  }
+}
+
+// =============================================================================
+// Audiences
+// =============================================================================
+
+/**
+ * Fetch all audiences (lists) from Mailchimp
+ */
+export async function getAudiences(apiKey: string): Promise<MailchimpAudience[]> {
+  const response = await mailchimpRequest<{ lists: MailchimpAudience[] }>(
+    apiKey,
+    '/lists?count=1000&fields=lists.id,lists.name,lists.stats.member_count'
+  );
+
+  return response.lists || [];
+}
+
+/**
+ * Fetch the merge fields (custom audience fields) of an audience
+ */
+export async function getMergeFields(
+  apiKey: string,
+  audienceId: string
+): Promise<MailchimpMergeField[]> {
+  const response = await mailchimpRequest<{ merge_fields: MailchimpMergeField[] }>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}/merge-fields?count=100`
+  );
+
+  return response.merge_fields || [];
+}
+
+// =============================================================================
+// Members
+// =============================================================================
+
+/**
+ * Create or update an audience member
+ * New members are subscribed; existing members keep their status.
+ */
+export async function upsertMember(
+  apiKey: string,
+  audienceId: string,
+  email: string,
+  mergeFields: Record<string, string>
+): Promise<MailchimpMember> {
+  const subscriberHash = createHash('md5').update(email.toLowerCase()).digest('hex');
+
+  return mailchimpRequest<MailchimpMember>(
+    apiKey,
+    `/lists/${encodeURIComponent(audienceId)}/members/${subscriberHash}`,
+    {
+      method: 'PUT',
+      body: {
+        email_address: email,
+        status_if_new: 'subscribed',
+        merge_fields: mergeFields,
+      },
+    }
+  );
+}
+
+// =============================================================================
+// Integration Logic
+// =============================================================================
+
+/**
+ * Process a form submission against a Mailchimp connection.
+ * Maps form fields to merge fields and creates/updates the audience member.
+ */
+export async function processFormSubmission(
+  apiKey: string,
+  connection: AppConnection,
+  formPayload: Record<string, unknown>
+): Promise<AppSubmissionResult> {
+  try {
+    const email = getMappedEmail(connection.fieldMappings, formPayload);
+
+    if (!email) {
+      return { success: false, error: 'No valid email value for the email field mapping' };
+    }
+
+    const mergeFields = mapSubmissionFields(connection.fieldMappings, formPayload, [EMAIL_APP_FIELD]);
+
+    await upsertMember(apiKey, connection.listId as string, email, mergeFields);
+
+    return { success: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Mailchimp] Failed to process submission for form ${connection.formId}:`, message);
+    return { success: false, error: message };
+  }
+}
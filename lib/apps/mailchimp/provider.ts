@@ -0,0 +1,49 @@
+/**
+ * Mailchimp Integration Provider
+ *
+ * Adds form submitters as members of a Mailchimp audience.
+ * Settings: api_key, connections
+ */
+
+import { getAudiences, getMergeFields, processFormSubmission, testApiKey } from './index';
+import { EMAIL_APP_FIELD, validateListConnection } from '../field-mapping';
+import type { AppSettingsMap, IntegrationProvider } from '../types';
+
+function getApiKey(settings: AppSettingsMap): string {
+  return typeof settings.api_key === 'string' ? settings.api_key : '';
+}
+
+export const mailchimpProvider: IntegrationProvider = {
+  isConfigured: (settings) => !!getApiKey(settings),
+
+  test: (settings) => testApiKey(getApiKey(settings)),
+
+  getLists: async (settings) => {
+    const audiences = await getAudiences(getApiKey(settings));
+    return audiences.map((audience) => ({
+      id: audience.id,
+      name: audience.name,
+      count: audience.stats?.member_count,
+    }));
+  },
+
+  getFields: async (settings, listId) => {
+    const emailField = { key: EMAIL_APP_FIELD, label: 'Email', required: true };
+    if (!listId) return [emailField];
+
+    const mergeFields = await getMergeFields(getApiKey(settings), listId);
+    return [
+      emailField,
+      ...mergeFields.map((field) => ({
+        key: field.tag,
+        label: field.name,
+        required: field.required,
+      })),
+    ];
+  },
+
+  validateConnection: (connection) => validateListConnection(connection, 'Audience'),
+
+  processSubmission: (settings, connection, submission) =>
+    processFormSubmission(getApiKey(settings), connection, submission.payload),
+};
@@ -0,0 +1,39 @@
+/**
+ * Mailchimp Types
+ *
+ * TypeScript interfaces for the Mailchimp Marketing API (v3).
+ */
+
+// =============================================================================
+// API Responses
+// =============================================================================
+
+export interface MailchimpAudience {
+  id: string;
+  name: string;
+  stats?: {
+    member_count: number;
+  };
+}
+
+export interface MailchimpMergeField {
+  merge_id: number;
+  tag: string;
+  name: string;
+  type: string;
+  required: boolean;
+}
+
+export interface MailchimpMember {
+  id: string;
+  email_address: string;
+  status: string;
+  merge_fields: Record<string, unknown>;
+}
+
+export interface MailchimpError {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+}
@@ -12,9 +12,9 @@ import type {
   MailerLiteField,
   MailerLiteSubscriber,
   MailerLitePaginatedResponse,
-  MailerLiteConnection,
-  MailerLiteFieldMapping,
 } from './types';
+import type { AppConnection, AppSubmissionResult } from '../types';
+import { EMAIL_APP_FIELD, getMappedEmail, mapSubmissionFields } from '../field-mapping';
 
 const MAILERLITE_API_BASE = 'https://connect.mailerlite.com/api';
 
@@ -175,35 +175,21 @@ export async function upsertSubscriber(
  */
 export async function processFormSubmission(
   apiKey: string,
-  connection: MailerLiteConnection,
+  connection: AppConnection,
   formPayload: Record<string, unknown>
-): Promise<{ success: boolean; error?: string }> {
+): Promise<AppSubmissionResult> {
   try {
-    // Extract email from field mappings
-    const emailMapping = connection.fieldMappings.find(
-      (m: MailerLiteFieldMapping) => m.mailerliteField === 'email'
-    );
+    const email = getMappedEmail(connection.fieldMappings, formPayload);
 
-    if (!emailMapping) {
-      return { success: false, error: 'No email field mapping configured' };
-    }
-
-    const email = String(formPayload[emailMapping.formField] || '').trim();
-
-    if (!email || !email.includes('@')) {
-      return { success: false, error: `Invalid email value: "${email}"` };
+    if (!email) {
+      return { success: false, error: 'No valid email value for the email field mapping' };
     }
 
     // Build MailerLite fields object from mappings (excluding email)
-    const fields: Record<string, string> = {};
-    for (const mapping of connection.fieldMappings) {
-      if (mapping.mailerliteField !== 'email' && formPayload[mapping.formField]) {
-        fields[mapping.mailerliteField] = String(formPayload[mapping.formField]);
-      }
-    }
+    const fields = mapSubmissionFields(connection.fieldMappings, formPayload, [EMAIL_APP_FIELD]);
 
     // Create/update subscriber with group assignment
-    await upsertSubscriber(apiKey, email, fields, [connection.groupId]);
+    await upsertSubscriber(apiKey, email, fields, [connection.listId as string]);
 
     return { success: true };
   } catch (error) {
@@ -0,0 +1,37 @@
+/**
+ * MailerLite Integration Provider
+ *
+ * Adds form submitters to a MailerLite subscriber group.
+ * Settings: api_key, connections
+ */
+
+import { getGroups, processFormSubmission, testApiKey } from './index';
+import { MAILERLITE_SUBSCRIBER_FIELDS } from './types';
+import { validateListConnection } from '../field-mapping';
+import type { AppSettingsMap, IntegrationProvider } from '../types';
+
+function getApiKey(settings: AppSettingsMap): string {
+  return typeof settings.api_key === 'string' ? settings.api_key : '';
+}
+
+export const mailerliteProvider: IntegrationProvider = {
+  isConfigured: (settings) => !!getApiKey(settings),
+
+  test: (settings) => testApiKey(getApiKey(settings)),
+
+  getLists: async (settings) => {
+    const groups = await getGroups(getApiKey(settings));
+    return groups.map((group) => ({
+      id: group.id,
+      name: group.name,
+      count: group.active_count,
+    }));
+  },
+
+  getFields: async () => MAILERLITE_SUBSCRIBER_FIELDS.map((field) => ({ ...field })),
+
+  validateConnection: (connection) => validateListConnection(connection, 'Group'),
+
+  processSubmission: (settings, connection, submission) =>
+    processFormSubmission(getApiKey(settings), connection, submission.payload),
+};
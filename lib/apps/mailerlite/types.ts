@@ -55,26 +55,6 @@ export interface MailerLitePaginatedResponse<T> {
   };
 }
 
-// =============================================================================
-// Connection Configuration (stored in app_settings)
-// =============================================================================
-
-export interface MailerLiteFieldMapping {
-  /** The form field key (from Ycode form payload) */
-  formField: string;
-  /** The MailerLite subscriber field key */
-  mailerliteField: string;
-}
-
-export interface MailerLiteConnection {
-  id: string;
-  formId: string;
-  groupId: string;
-  groupName: string;
-  fieldMappings: MailerLiteFieldMapping[];
-  enabled: boolean;
-}
-
 // =============================================================================
 // Standard MailerLite subscriber fields available for mapping
 // =============================================================================
@@ -6,7 +6,12 @@
  * 1. Adding an AppDefinition here
  * 2. Creating the app module under lib/apps/<app-id>/
  * 3. Adding a logo.svg in lib/apps/<app-id>/logo.svg
- * 4. Creating proxy API routes under app/ycode/api/apps/<app-id>/
+ * 4. For apps that receive form submissions: describing the settings in
+ *    `integration` and registering an IntegrationProvider in
+ *    lib/apps/integration-service.ts (the generic /ycode/api/apps/<app-id>/
+ *    routes and the apps settings page use both)
+ *
+ * This file is imported by the apps page, so it must stay client-safe.
  */
 
 import type { StaticImageData } from 'next/image';
@@ -31,6 +36,30 @@ export const APP_CATEGORIES: { value: AppCategory; label: string }[] = [
   { value: 'other', label: 'Other' },
 ];
 
+export interface AppCredentialField {
+  /** App setting key the value is stored under (e.g. "api_key") */
+  key: string;
+  label: string;
+  placeholder?: string;
+  /** Where to find the credential in the app */
+  description?: string;
+}
+
+export interface AppIntegrationConfig {
+  /** Credentials entered in the settings sheet (none for catch-hook apps) */
+  credentials: AppCredentialField[];
+  /**
+   * Where a connection sends submissions:
+   * - list: a list loaded from the app, with fields mapped to the app's fields
+   * - hook: a catch-hook URL, with optional free-form field names
+   */
+  target: 'list' | 'hook';
+  /** Name of the app's lists in the UI (e.g. "Group", "Audience") */
+  listLabel?: string;
+  /** Setup instructions shown above the connections */
+  connectionHelp: string;
+}
+
 export interface AppDefinition {
   /** Unique identifier (kebab-case), used as app_id in database */
   id: string;
@@ -44,6 +73,8 @@ export interface AppDefinition {
   categories: AppCategory[];
   /** Whether this app is fully implemented or just a placeholder */
   implemented: boolean;
+  /** Form submission integration settings (see IntegrationProvider) */
+  integration?: AppIntegrationConfig;
 }
 
 // =============================================================================
@@ -58,14 +89,40 @@ export const apps: AppDefinition[] = [
     logo: mailerliteLogo,
     categories: ['popular', 'marketing'],
     implemented: true,
+    integration: {
+      credentials: [
+        {
+          key: 'api_key',
+          label: 'API Key',
+          placeholder: 'Enter your MailerLite API key',
+          description: 'Find it in MailerLite → Integrations → API.',
+        },
+      ],
+      target: 'list',
+      listLabel: 'Group',
+      connectionHelp: 'Map form submissions to MailerLite subscriber groups.',
+    },
   },
   {
     id: 'mailchimp',
     name: 'Mailchimp',
-    description: 'Sync form submissions with Mailchimp audiences and manage email campaigns.',
+    description: 'Add form submissions to Mailchimp audiences with field mapping.',
     logo: mailchimpLogo,
     categories: ['popular', 'marketing'],
-    implemented: false,
+    implemented: true,
+    integration: {
+      credentials: [
+        {
+          key: 'api_key',
+          label: 'API Key',
+          placeholder: 'e.g., 0123456789abcdef-us21',
+          description: 'Find it in Mailchimp → Profile → Extras → API keys.',
+        },
+      ],
+      target: 'list',
+      listLabel: 'Audience',
+      connectionHelp: 'Add or update form submitters as members of a Mailchimp audience.',
+    },
   },
   {
     id: 'zapier',
@@ -73,7 +130,12 @@ export const apps: AppDefinition[] = [
     description: 'Connect your website to 5,000+ apps with automated workflows.',
     logo: zapierLogo,
     categories: ['popular', 'automation'],
-    implemented: false,
+    implemented: true,
+    integration: {
+      credentials: [],
+      target: 'hook',
+      connectionHelp: 'Create a Zap with the "Webhooks by Zapier → Catch Hook" trigger and paste its URL here.',
+    },
   },
   {
     id: 'make',
@@ -81,7 +143,12 @@ export const apps: AppDefinition[] = [
     description: 'Build powerful automations with a visual workflow builder.',
     logo: makeLogo,
     categories: ['popular', 'automation'],
-    implemented: false,
+    implemented: true,
+    integration: {
+      credentials: [],
+      target: 'hook',
+      connectionHelp: 'Create a scenario with the "Webhooks → Custom webhook" trigger and paste its URL here.',
+    },
   },
 ];
 
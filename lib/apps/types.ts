@@ -0,0 +1,98 @@
+/**
+ * App Integration Types
+ *
+ * Shared types for app integrations that receive form submissions.
+ * Safe to import from both server code and the apps settings page.
+ */
+
+// =============================================================================
+// App Data
+// =============================================================================
+
+/** A destination in the app that submissions are sent to (e.g. a MailerLite group) */
+export interface AppList {
+  id: string;
+  name: string;
+  /** Number of subscribers/members, if the app reports it */
+  count?: number;
+}
+
+/** A field in the app that form fields can be mapped to */
+export interface AppField {
+  key: string;
+  label: string;
+  required?: boolean;
+}
+
+// =============================================================================
+// Connection Configuration (stored in app_settings under "connections")
+// =============================================================================
+
+export interface AppFieldMapping {
+  /** The form field key (from Ycode form payload) */
+  formField: string;
+  /** The app field key */
+  appField: string;
+}
+
+export interface AppConnection {
+  id: string;
+  formId: string;
+  /** Selected list for list-based apps (MailerLite group, Mailchimp audience) */
+  listId?: string;
+  listName?: string;
+  /** Catch-hook URL for hook-based apps (Zapier, Make) */
+  hookUrl?: string;
+  fieldMappings: AppFieldMapping[];
+  enabled: boolean;
+}
+
+// =============================================================================
+// Results
+// =============================================================================
+
+export interface AppTestResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface AppSubmissionResult {
+  success: boolean;
+  error?: string;
+}
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+/** An app's settings as a key-value map (see appSettingsRepository) */
+export type AppSettingsMap = Record<string, unknown>;
+
+export interface IntegrationSubmission {
+  formId: string;
+  submissionId: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Server-side implementation of an app that receives form submissions
+ * Registered by AppDefinition id in lib/apps/integration-service.ts.
+ */
+export interface IntegrationProvider {
+  /** Whether the app's credentials are configured */
+  isConfigured(settings: AppSettingsMap): boolean;
+  /** Test the credentials, or send a sample submission through a connection */
+  test(settings: AppSettingsMap, connection?: AppConnection): Promise<AppTestResult>;
+  /** Lists a connection can send submissions to (list-based apps) */
+  getLists?(settings: AppSettingsMap): Promise<AppList[]>;
+  /** App fields that form fields can be mapped to (list-based apps) */
+  getFields?(settings: AppSettingsMap, listId?: string): Promise<AppField[]>;
+  /** Check a connection before it's saved. Returns an error message or null */
+  validateConnection(connection: AppConnection): string | null;
+  /** Send a submission through a connection */
+  processSubmission(
+    settings: AppSettingsMap,
+    connection: AppConnection,
+    submission: IntegrationSubmission
+  ): Promise<AppSubmissionResult>;
+}
@@ -4,38 +4,298 @@ export interface BreakpointConfig {
   value: Breakpoint;
   label: string;
   prefix: string;
+  /** Overrides apply up to and including this width (px) */
   maxWidth: number | null;
+  /** Overrides apply from this width (px) up */
+  minWidth: number | null;
 }
 
+/** Breakpoint as stored in the breakpoints setting (the prefix is derived) */
+export type BreakpointSetting = Omit<BreakpointConfig, 'prefix'>;
+
+/** Setting with the site's breakpoints, in display order */
+export const BREAKPOINTS_SETTING = 'breakpoints';
+
+/** The base breakpoint, its classes have no prefix */
+export const BASE_BREAKPOINT: Breakpoint = 'desktop';
+
 /**
- * All available breakpoints with labels and Tailwind config (Desktop-First)
+ * Default breakpoints with labels and Tailwind config (Desktop-First)
  * Desktop is base (no prefix), tablet and mobile use max-width overrides
  */
-export const BREAKPOINTS: BreakpointConfig[] = [
-  { value: 'mobile', label: 'Mobile', prefix: 'max-md:', maxWidth: 767 },
-  { value: 'tablet', label: 'Tablet', prefix: 'max-lg:', maxWidth: 1023 },
-  { value: 'desktop', label: 'Desktop', prefix: '', maxWidth: null },
+export const DEFAULT_BREAKPOINTS: BreakpointConfig[] = [
+  { value: 'mobile', label: 'Mobile', prefix: 'max-md:', maxWidth: 767, minWidth: null },
+  { value: 'tablet', label: 'Tablet', prefix: 'max-lg:', maxWidth: 1023, minWidth: null },
+  { value: 'desktop', label: 'Desktop', prefix: '', maxWidth: null, minWidth: null },
+];
+
+/**
+ * Tailwind theme breakpoints used by the built-in breakpoints
+ * Custom breakpoints get their own theme breakpoint (bp-<id>), so changing
+ * a width only changes the theme, never the classes of the layers.
+ */
+const BUILT_IN_THEME_KEYS: Record<string, string> = {
+  mobile: 'md',
+  tablet: 'lg',
+};
+
+/** Legacy mobile-first prefixes (parsed for backward compatibility) */
+const LEGACY_PREFIXES: Array<{ prefix: string; breakpoint: Breakpoint }> = [
+  { prefix: 'lg:', breakpoint: 'desktop' },
+  { prefix: 'md:', breakpoint: 'tablet' },
 ];
 
-/** All available breakpoint values in order (for backward compatibility) */
-export const BREAKPOINT_VALUES: Breakpoint[] = BREAKPOINTS.map(bp => bp.value);
+/** Preferred canvas widths of the built-in breakpoints */
+const BUILT_IN_VIEWPORT_WIDTHS: Record<string, number> = {
+  desktop: 1366,
+  tablet: 768,
+  mobile: 375,
+};
+
+let activeBreakpoints: BreakpointConfig[] = DEFAULT_BREAKPOINTS;
+
+/** Get the Tailwind theme breakpoint name of a breakpoint */
+export function getBreakpointThemeKey(breakpoint: Breakpoint): string {
+  return BUILT_IN_THEME_KEYS[breakpoint] ?? `bp-${breakpoint}`;
+}
+
+/**
+ * Build the full breakpoint list from the breakpoints setting
+ * Invalid entries are dropped and the base breakpoint is always included.
+ */
+export function normalizeBreakpoints(value: unknown): BreakpointConfig[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return DEFAULT_BREAKPOINTS;
+  }
+
+  const seen = new Set<string>();
+  const breakpoints: BreakpointConfig[] = [];
+
+  for (const entry of value) {
+    if (!entry || typeof entry.value !== 'string' || !/^[a-z0-9-]+$/.test(entry.value) || seen.has(entry.value)) {
+      continue;
+    }
+
+    const isBase = entry.value === BASE_BREAKPOINT;
+    const maxWidth = !isBase && Number(entry.maxWidth) > 0 ? Math.round(Number(entry.maxWidth)) : null;
+    const minWidth = !isBase && maxWidth === null && Number(entry.minWidth) > 0 ? Math.round(Number(entry.minWidth)) : null;
+
+    // Other breakpoints need a width to override the base
+    if (!isBase && maxWidth === null && minWidth === null) continue;
+
+    const themeKey = getBreakpointThemeKey(entry.value);
+    seen.add(entry.value);
+    breakpoints.push({
+      value: entry.value,
+      label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : entry.value,
+      prefix: maxWidth !== null ? `max-${themeKey}:` : minWidth !== null ? `${themeKey}:` : '',
+      maxWidth,
+      minWidth,
+    });
+  }
+
+  if (!seen.has(BASE_BREAKPOINT)) {
+    breakpoints.push(DEFAULT_BREAKPOINTS.find((bp) => bp.value === BASE_BREAKPOINT)!);
+  }
+
+  return breakpoints;
+}
+
+/**
+ * Validate breakpoints before saving them
+ * Returns an error message or null when valid
+ */
+export function validateBreakpoints(breakpoints: BreakpointSetting[]): string | null {
+  const maxWidths: number[] = [];
+  const minWidths: number[] = [];
+
+  for (const bp of breakpoints) {
+    if (!bp.label.trim()) return 'Every breakpoint needs a name';
+    if (bp.value === BASE_BREAKPOINT) continue;
+
+    const width = bp.maxWidth ?? bp.minWidth;
+    if (!width || width <= 0) return `${bp.label} needs a width`;
+    (bp.maxWidth !== null ? maxWidths : minWidths).push(width);
+  }
+
+  if (new Set(maxWidths).size !== maxWidths.length || new Set(minWidths).size !== minWidths.length) {
+    return 'Two breakpoints can\'t use the same width';
+  }
+
+  // Desktop sits between the max-width and the min-width breakpoints
+  if (maxWidths.length > 0 && minWidths.length > 0 && Math.max(...maxWidths) >= Math.min(...minWidths) - 1) {
+    return 'Breakpoints larger than desktop must be wider than the ones smaller than desktop';
+  }
+
+  return null;
+}
+
+/**
+ * Use the site's breakpoints (from the breakpoints setting)
+ * Called when settings are loaded in the editor and before rendering published pages.
+ */
+export function setBreakpoints(value: unknown): void {
+  activeBreakpoints = normalizeBreakpoints(value);
+}
+
+/** All breakpoints of the site, in display order */
+export function getBreakpoints(): BreakpointConfig[] {
+  return activeBreakpoints;
+}
+
+/** All breakpoint values of the site, in display order */
+export function getBreakpointValues(): Breakpoint[] {
+  return activeBreakpoints.map((bp) => bp.value);
+}
+
+/** Get a breakpoint by value */
+export function getBreakpointConfig(breakpoint: Breakpoint): BreakpointConfig | undefined {
+  return activeBreakpoints.find((bp) => bp.value === breakpoint);
+}
 
 /**
  * Convert breakpoint to Tailwind prefix (Desktop-First)
- * desktop → '' (base), tablet → 'max-lg:', mobile → 'max-md:'
+ * desktop → '' (base), tablet → 'max-lg:', mobile → 'max-md:', wide (min 1440px) → 'bp-wide:'
  */
 export function getBreakpointPrefix(breakpoint: Breakpoint): string {
-  const config = BREAKPOINTS.find(bp => bp.value === breakpoint);
+  const config = getBreakpointConfig(breakpoint);
   return config?.prefix ?? '';
 }
 
+/**
+ * Split the breakpoint prefix from a class
+ * "max-md:w-[100px]" → { breakpoint: 'mobile', baseClass: 'w-[100px]' }
+ * "w-[100px]" → { breakpoint: 'desktop', baseClass: 'w-[100px]' }
+ */
+export function splitBreakpointPrefix(className: string): { breakpoint: Breakpoint; baseClass: string } {
+  // Longest prefixes first, so "max-bp-small-phone:" isn't matched as a shorter prefix
+  const prefixed = activeBreakpoints
+    .filter((bp) => bp.prefix)
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+
+  for (const bp of prefixed) {
+    if (className.startsWith(bp.prefix)) {
+      return { breakpoint: bp.value, baseClass: className.slice(bp.prefix.length) };
+    }
+  }
+
+  for (const legacy of LEGACY_PREFIXES) {
+    if (className.startsWith(legacy.prefix)) {
+      return { breakpoint: legacy.breakpoint, baseClass: className.slice(legacy.prefix.length) };
+    }
+  }
+
+  return { breakpoint: BASE_BREAKPOINT, baseClass: className };
+}
+
+/**
+ * Breakpoints a breakpoint inherits values from, base first (Desktop-First)
+ * mobile → ['desktop', 'tablet', 'mobile'], wide (min-width) → ['desktop', 'wide']
+ */
+export function getBreakpointCascade(breakpoint: Breakpoint): Breakpoint[] {
+  const config = getBreakpointConfig(breakpoint);
+  if (!config || breakpoint === BASE_BREAKPOINT) return [BASE_BREAKPOINT];
+
+  if (config.maxWidth !== null) {
+    const larger = activeBreakpoints
+      .filter((bp) => bp.maxWidth !== null && bp.maxWidth >= (config.maxWidth as number))
+      .sort((a, b) => (b.maxWidth as number) - (a.maxWidth as number));
+    return [BASE_BREAKPOINT, ...larger.map((bp) => bp.value)];
+  }
+
+  const smaller = activeBreakpoints
+    .filter((bp) => bp.minWidth !== null && bp.minWidth <= (config.minWidth as number))
+    .sort((a, b) => (a.minWidth as number) - (b.minWidth as number));
+  return [BASE_BREAKPOINT, ...smaller.map((bp) => bp.value)];
+}
+
+/**
+ * Get the viewport widths (px) where a breakpoint is the active one
+ * Ranges of all breakpoints cover every width without overlapping; null means unbounded.
+ */
+export function getBreakpointRange(breakpoint: Breakpoint): { min: number | null; max: number | null } {
+  const maxWidths = activeBreakpoints
+    .filter((bp) => bp.maxWidth !== null)
+    .map((bp) => bp.maxWidth as number)
+    .sort((a, b) => a - b);
+  const minWidths = activeBreakpoints
+    .filter((bp) => bp.minWidth !== null)
+    .map((bp) => bp.minWidth as number)
+    .sort((a, b) => a - b);
+
+  const config = getBreakpointConfig(breakpoint);
+
+  if (config?.maxWidth != null) {
+    const smaller = maxWidths.filter((width) => width < (config.maxWidth as number));
+    return {
+      min: smaller.length > 0 ? smaller[smaller.length - 1] + 1 : null,
+      max: config.maxWidth,
+    };
+  }
+
+  if (config?.minWidth != null) {
+    const larger = minWidths.filter((width) => width > (config.minWidth as number));
+    return {
+      min: config.minWidth,
+      max: larger.length > 0 ? larger[0] - 1 : null,
+    };
+  }
+
+  return {
+    min: maxWidths.length > 0 ? maxWidths[maxWidths.length - 1] + 1 : null,
+    max: minWidths.length > 0 ? minWidths[0] - 1 : null,
+  };
+}
+
+/**
+ * Get a media query (without @media) for a width range
+ * Returns null for an unbounded range
+ */
+export function getWidthMediaQuery(range: { min: number | null; max: number | null }): string | null {
+  const conditions: string[] = [];
+  if (range.min !== null) conditions.push(`(min-width: ${range.min}px)`);
+  if (range.max !== null) conditions.push(`(max-width: ${range.max}px)`);
+  return conditions.length > 0 ? conditions.join(' and ') : null;
+}
+
+/**
+ * Get the canvas width (px) to preview a breakpoint
+ * Built-in breakpoints keep their device widths when these fall inside the breakpoint.
+ */
+export function getBreakpointViewportWidth(breakpoint: Breakpoint): number {
+  const config = getBreakpointConfig(breakpoint);
+  const { min, max } = getBreakpointRange(breakpoint);
+  const preferred = BUILT_IN_VIEWPORT_WIDTHS[breakpoint] ?? config?.maxWidth ?? config?.minWidth ?? BUILT_IN_VIEWPORT_WIDTHS.desktop;
+
+  return Math.min(Math.max(preferred, min ?? 0), max ?? Infinity);
+}
+
 /**
  * Get current breakpoint based on window width
  */
 export function getCurrentBreakpoint(): Breakpoint {
-  if (typeof window === 'undefined') return 'desktop';
+  if (typeof window === 'undefined') return BASE_BREAKPOINT;
   const width = window.innerWidth;
-  if (width < 768) return 'mobile';
-  if (width < 1024) return 'tablet';
-  return 'desktop';
+
+  const match = activeBreakpoints.find((bp) => {
+    const { min, max } = getBreakpointRange(bp.value);
+    return (min === null || width >= min) && (max === null || width <= max);
+  });
+
+  return match?.value ?? BASE_BREAKPOINT;
+}
+
+/**
+ * Build the Tailwind @theme declarations of the breakpoints
+ * Widths are set in rem like Tailwind's default theme, so variants are sorted by width.
+ */
+export function getBreakpointThemeCss(): string {
+  const declarations = activeBreakpoints
+    .filter((bp) => bp.prefix)
+    .map((bp) => {
+      const width = bp.maxWidth !== null ? bp.maxWidth + 1 : (bp.minWidth as number);
+      return `--breakpoint-${getBreakpointThemeKey(bp.value)}: ${width / 16}rem;`;
+    });
+
+  return `@theme {\n  ${declarations.join('\n  ')}\n}`;
 }
@@ -7,8 +7,14 @@
 
 'use client';
 
-import type { Component, Layer } from '@/types';
+import type { Asset, Component, Layer } from '@/types';
 import { DEFAULT_TEXT_STYLES } from '@/lib/text-format-utils';
+import { getBreakpointThemeCss } from '@/lib/breakpoint-utils';
+import { getCustomFonts, getFontAssetIds, getFontThemeCss } from '@/lib/font-utils';
+import { getDesignTokensCss } from '@/lib/design-token-utils';
+import { DARK_VARIANT_CSS } from '@/lib/color-scheme-utils';
+import { getComponentVariantClasses } from '@/lib/component-utils';
+import { useAssetsStore } from '@/stores/useAssetsStore';
 
 /**
  * Extract all classes from layers recursively
@@ -69,10 +75,44 @@ function extractClassesFromLayers(layers: Layer[]): Set<string> {
   return classes;
 }
 
+/**
+ * Get the public URLs of uploaded font files (asset ID → URL)
+ * Assets missing from the assets store are fetched and cached.
+ */
+async function loadFontAssetUrls(): Promise<Record<string, string>> {
+  const { assetsById, addAssetsToCache } = useAssetsStore.getState();
+  const assetIds = getFontAssetIds(getCustomFonts());
+
+  const missingIds = assetIds.filter((id) => !assetsById[id]);
+  if (missingIds.length > 0) {
+    const fetchedAssets = await Promise.all(
+      missingIds.map((id) =>
+        fetch(`/ycode/api/assets/${id}`)
+          .then((res) => (res.ok ? res.json() : null))
+          .then((result) => result?.data as Asset | null)
+          .catch(() => null)
+      )
+    );
+    addAssetsToCache(fetchedAssets.filter((asset): asset is Asset => asset !== null));
+  }
+
+  const { assetsById: cachedAssets } = useAssetsStore.getState();
+  const urls: Record<string, string> = {};
+  assetIds.forEach((id) => {
+    const url = cachedAssets[id]?.public_url;
+    if (url) urls[id] = url;
+  });
+  return urls;
+}
+
 /**
  * Generate CSS using Tailwind Browser CDN in a hidden iframe
+ * Includes the @font-face rules of the site's custom fonts and the design token custom properties
  */
 export async function generateCSS(layers: Layer[]): Promise<string> {
+  const fontThemeCss = getFontThemeCss(await loadFontAssetUrls());
+  const designTokensCss = getDesignTokensCss();
+
   return new Promise((resolve, reject) => {
     const classes = extractClassesFromLayers(layers);
     const classesArray = Array.from(classes);
@@ -101,7 +141,7 @@ export async function generateCSS(layers: Layer[]): Promise<string> {
         if (document.body.contains(iframe)) {
           document.body.removeChild(iframe);
         }
-        resolve(event.data.css);
+        resolve(designTokensCss ? `${designTokensCss}\n${event.data.css}` : event.data.css);
       } else if (event.data.type === 'css-error') {
         clearTimeout(timeout);
         window.removeEventListener('message', handleMessage);
@@ -131,7 +171,9 @@ export async function generateCSS(layers: Layer[]): Promise<string> {
 <head>
   <meta charset="UTF-8">
   <script src="https://cdn.jsdelivr.net/npm/@tailwindcss/browser@4"></script>
-  <style type="text/tailwindcss"></style>
+  <style type="text/tailwindcss">${DARK_VARIANT_CSS}
+${getBreakpointThemeCss()}</style>
+  <style type="text/tailwindcss">${fontThemeCss}</style>
 </head>
 <body>
   ${htmlContent}
@@ -236,6 +278,14 @@ async function collectAllLayers(pageLayers: Layer[]): Promise<Layer[]> {
     }
   });
 
+  // Add the classes of variant options (applied to component layers per instance)
+  components.forEach((component: Component) => {
+    const variantClasses = getComponentVariantClasses(component.variables);
+    if (variantClasses.length > 0) {
+      componentLayers.push({ id: `${component.id}-variants`, name: 'div', classes: variantClasses });
+    }
+  });
+
   // Combine page layers and component layers
   return [...pageLayers, ...componentLayers];
 }
@@ -251,3 +301,20 @@ export async function generateAndSaveCSS(layers: Layer[]): Promise<string> {
   await saveCSS(css, 'draft_css');
   return css;
 }
+
+/**
+ * Regenerate the draft CSS from all page drafts
+ * Used after site-wide style settings change (fonts, design tokens)
+ */
+export async function regenerateDraftCSS(): Promise<string> {
+  const { usePagesStore } = await import('@/stores/usePagesStore');
+
+  const pageLayers: Layer[] = [];
+  Object.values(usePagesStore.getState().draftsByPageId).forEach((draft) => {
+    if (draft.layers) {
+      pageLayers.push(...draft.layers);
+    }
+  });
+
+  return generateAndSaveCSS(pageLayers);
+}
@@ -8,6 +8,8 @@
 import type { CollectionField, InlineVariable } from '@/types';
 import { formatDateInTimezone } from '@/lib/date-format-utils';
 import { extractPlainTextFromTiptap } from '@/lib/tiptap-utils';
+import { formatGeolocationValue } from '@/lib/geolocation-utils';
+import { OPTION_LABEL_KEY } from '@/lib/option-field-utils';
 
 /**
  * Format a field value for display based on field type
@@ -44,6 +46,16 @@ export function formatFieldValue(
     return formatDateInTimezone(value, timezone, 'display');
   }
 
+  // Handle geolocation fields - show the label or coordinates
+  if (fieldType === 'geolocation') {
+    return formatGeolocationValue(value);
+  }
+
+  // Handle option fields without resolved labels - show the option values
+  if (fieldType === 'option' && Array.isArray(value)) {
+    return value.join(', ');
+  }
+
   // For other fields, ensure we return a string
   if (typeof value === 'object') {
     // Safety fallback - if an object slips through, stringify it
@@ -53,6 +65,14 @@ export function formatFieldValue(
   return String(value);
 }
 
+/**
+ * Get the value path a field displays as text
+ * Option fields display the labels of the selected options (see option-field-utils)
+ */
+export function getFieldTextPath(fieldPath: string, fieldType: string | null | undefined): string {
+  return fieldType === 'option' ? `${fieldPath}.${OPTION_LABEL_KEY}` : fieldPath;
+}
+
 /**
  * Resolve a field value from data sources based on source preference
  * Used for inline variables with page/collection source selection
@@ -38,9 +38,11 @@ export const FIELD_TYPES = [
   { value: 'boolean', label: 'Boolean', icon: 'check', category: 'basic', hasDefault: true },
   { value: 'date', label: 'Date', icon: 'calendar', category: 'basic', hasDefault: true },
   { value: 'color', label: 'Color', icon: 'droplet', category: 'basic', hasDefault: true },
+  { value: 'option', label: 'Option', icon: 'select', category: 'basic', hasDefault: true },
   { value: 'email', label: 'Email', icon: 'email', category: 'contact', hasDefault: true },
   { value: 'phone', label: 'Phone', icon: 'phone', category: 'contact', hasDefault: true },
   { value: 'link', label: 'Link', icon: 'link', category: 'contact', hasDefault: true },
+  { value: 'geolocation', label: 'Geolocation', icon: 'map', category: 'contact', hasDefault: true },
   { value: 'image', label: 'Image', icon: 'image', category: 'asset', hasDefault: true },
   { value: 'audio', label: 'Audio', icon: 'audio', category: 'asset', hasDefault: true },
   { value: 'video', label: 'Video', icon: 'video', category: 'asset', hasDefault: true },
@@ -145,6 +147,24 @@ export const MULTI_REFERENCE_OPERATORS: OperatorOption[] = [
   { value: 'has_no_items', label: 'has no items' },
 ];
 
+export const OPTION_OPERATORS: OperatorOption[] = [
+  { value: 'is_one_of', label: 'is one of' },
+  { value: 'is_not_one_of', label: 'is not one of' },
+  { value: 'is', label: 'is' },
+  { value: 'is_not', label: 'is not' },
+  { value: 'is_present', label: 'is set' },
+  { value: 'is_empty', label: 'is not set' },
+];
+
+export const MULTI_OPTION_OPERATORS: OperatorOption[] = [
+  { value: 'is_one_of', label: 'is one of' },
+  { value: 'is_not_one_of', label: 'is not one of' },
+  { value: 'contains_all_of', label: 'contains all of' },
+  { value: 'contains_exactly', label: 'contains exactly' },
+  { value: 'has_items', label: 'has options' },
+  { value: 'has_no_items', label: 'has no options' },
+];
+
 export const PAGE_COLLECTION_OPERATORS: OperatorOption[] = [
   { value: 'item_count', label: 'item count' },
   { value: 'has_items', label: 'has items' },
@@ -159,11 +179,17 @@ export const COMPARE_OPERATORS: { value: string; label: string }[] = [
   { value: 'gte', label: 'greater than or equal' },
 ];
 
-/** Get operators available for a given field type */
+/**
+ * Get operators available for a given field type
+ * @param multiple - Whether the field allows multiple values (option fields)
+ */
 export function getOperatorsForFieldType(
-  fieldType: CollectionFieldType | undefined
+  fieldType: CollectionFieldType | undefined,
+  multiple: boolean = false
 ): OperatorOption[] {
   switch (fieldType) {
+    case 'option':
+      return multiple ? MULTI_OPTION_OPERATORS : OPTION_OPERATORS;
     case 'number':
       return NUMBER_OPERATORS;
     case 'date':
@@ -410,8 +436,8 @@ export const MEDIA_FIELD_TYPES: CollectionFieldType[] = ['image', 'audio', 'vide
 /** Field types that store asset IDs (media + documents) */
 export const ASSET_FIELD_TYPES: CollectionFieldType[] = ['image', 'audio', 'video', 'document'];
 
-/** Field types that can be bound to color design properties */
-export const COLOR_FIELD_TYPES: CollectionFieldType[] = ['color'];
+/** Field types that can be bound to color design properties (option fields bind the option color) */
+export const COLOR_FIELD_TYPES: CollectionFieldType[] = ['color', 'option'];
 
 /** Field types that can be bound to image layers (image fields) */
 export const IMAGE_FIELD_TYPES: CollectionFieldType[] = ['image'];
@@ -428,6 +454,9 @@ export const TEXT_FIELD_TYPES: CollectionFieldType[] = ['text'];
 /** Field types that can be bound to link layers for downloads (document fields) */
 export const DOCUMENT_FIELD_TYPES: CollectionFieldType[] = ['document'];
 
+/** Field types that can position maps and map markers */
+export const GEOLOCATION_FIELD_TYPES: CollectionFieldType[] = ['geolocation'];
+
 /** Check if a field type uses asset selector (image, audio, video, document) */
 export function isAssetFieldType(fieldType: CollectionFieldType | undefined | null): boolean {
   return fieldType != null && ASSET_FIELD_TYPES.includes(fieldType);
@@ -540,11 +569,12 @@ export function isVirtualAssetField(fieldId: string): boolean {
  * Filter field groups to only include fields of specified types.
  * Returns empty array if no matching fields exist.
  * When options.excludeMultipleAsset is true, also excludes fields with multiple assets.
+ * When options.onlyMultipleAsset is true, only keeps fields with multiple assets.
  */
 export function filterFieldGroupsByType(
   fieldGroups: FieldGroup[] | undefined,
   allowedTypes: CollectionFieldType[],
-  options?: { excludeMultipleAsset?: boolean }
+  options?: { excludeMultipleAsset?: boolean; onlyMultipleAsset?: boolean }
 ): FieldGroup[] {
   if (!fieldGroups || fieldGroups.length === 0) return [];
 
@@ -554,6 +584,7 @@ export function filterFieldGroupsByType(
       fields: group.fields.filter(field => {
         if (!allowedTypes.includes(field.type)) return false;
         if (options?.excludeMultipleAsset && isMultipleAssetField(field)) return false;
+        if (options?.onlyMultipleAsset && !isMultipleAssetField(field)) return false;
         return true;
       }),
     }))
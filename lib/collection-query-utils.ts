@@ -0,0 +1,351 @@
+/**
+ * Collection Query Utilities
+ *
+ * Search, filter and sort controls on published pages drive collection layers
+ * through URL query params keyed by the collection layer ID, like pagination (p_LAYER_ID):
+ * - q_LAYER_ID=text: search
+ * - f_LAYER_ID.FIELD_ID=value: filter (repeated for multiple values)
+ * - s_LAYER_ID=FIELD_ID.asc: sort
+ *
+ * Pages with these params are rendered dynamically (see proxy.ts) and the
+ * query is applied to the collection items during SSR (see page-fetcher).
+ * Only queries backed by a control on the page are applied (see restrictCollectionQuery).
+ */
+
+import type {
+  CollectionControlOption,
+  CollectionControlSettings,
+  CollectionField,
+  CollectionFieldType,
+  CollectionItemWithValues,
+  CollectionQuery,
+  CollectionQueryControls,
+  ConditionalVisibility,
+  Layer,
+  VisibilityCondition,
+  VisibilityConditionGroup,
+} from '@/types';
+import { findDisplayField, getItemDisplayName } from '@/lib/collection-field-utils';
+
+export const PAGE_PARAM_PREFIX = 'p_';
+export const SEARCH_PARAM_PREFIX = 'q_';
+export const FILTER_PARAM_PREFIX = 'f_';
+export const SORT_PARAM_PREFIX = 's_';
+
+const COLLECTION_QUERY_PARAM_PREFIXES = [PAGE_PARAM_PREFIX, SEARCH_PARAM_PREFIX, FILTER_PARAM_PREFIX, SORT_PARAM_PREFIX];
+
+/** Layer names of the search, filter and sort controls */
+export const COLLECTION_CONTROL_LAYER_NAMES = ['collectionSearch', 'collectionFilter', 'collectionSort'];
+
+/** Field types that can be searched */
+export const SEARCHABLE_FIELD_TYPES: CollectionFieldType[] = ['text', 'rich_text', 'email', 'phone', 'option'];
+
+/** Field types searched by search controls without selected fields (email and phone have to be selected) */
+export const DEFAULT_SEARCH_FIELD_TYPES: CollectionFieldType[] = ['text', 'rich_text', 'option'];
+
+/** Field types that can be filtered by a filter control */
+export const FILTERABLE_FIELD_TYPES: CollectionFieldType[] = ['text', 'number', 'boolean', 'date', 'color', 'email', 'phone', 'option', 'reference', 'multi_reference'];
+
+/** Field types that can be sorted by */
+export const SORTABLE_FIELD_TYPES: CollectionFieldType[] = ['text', 'number', 'boolean', 'date', 'email', 'phone', 'option'];
+
+/** Check if a layer is a search, filter or sort control */
+export function isCollectionControlLayer(layer: Layer): boolean {
+  return COLLECTION_CONTROL_LAYER_NAMES.includes(layer.name);
+}
+
+/** Get the control settings of a layer */
+export function getCollectionControlSettings(layer: Layer): CollectionControlSettings | null {
+  return isCollectionControlLayer(layer) ? layer.settings?.collectionControl || null : null;
+}
+
+/** Check if a URL query param drives a collection layer (pagination, search, filter or sort) */
+export function isCollectionQueryParam(key: string): boolean {
+  return COLLECTION_QUERY_PARAM_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+export function getPageParamKey(collectionLayerId: string): string {
+  return `${PAGE_PARAM_PREFIX}${collectionLayerId}`;
+}
+
+export function getSearchParamKey(collectionLayerId: string): string {
+  return `${SEARCH_PARAM_PREFIX}${collectionLayerId}`;
+}
+
+export function getFilterParamKey(collectionLayerId: string, fieldId: string): string {
+  return `${FILTER_PARAM_PREFIX}${collectionLayerId}.${fieldId}`;
+}
+
+export function getSortParamKey(collectionLayerId: string): string {
+  return `${SORT_PARAM_PREFIX}${collectionLayerId}`;
+}
+
+/** Format a sort choice as a query param value (FIELD_ID.asc) */
+export function formatSortValue(fieldId: string, order: 'asc' | 'desc'): string {
+  return `${fieldId}.${order}`;
+}
+
+/** Parse a sort query param value (FIELD_ID.asc) */
+export function parseSortValue(value: string): { sortBy: string; sortOrder: 'asc' | 'desc' } | null {
+  const separatorIndex = value.lastIndexOf('.');
+  if (separatorIndex <= 0) return null;
+
+  const sortBy = value.slice(0, separatorIndex);
+  const sortOrder = value.slice(separatorIndex + 1);
+  if (sortOrder !== 'asc' && sortOrder !== 'desc') return null;
+
+  return { sortBy, sortOrder };
+}
+
+/**
+ * Parse the search, filter and sort query params of a page URL
+ * @returns Queries keyed by collection layer ID
+ */
+export function parseCollectionQueries(
+  searchParams: Record<string, string | string[] | undefined>
+): Record<string, CollectionQuery> {
+  const queries: Record<string, CollectionQuery> = {};
+  const getQuery = (layerId: string) => {
+    if (!queries[layerId]) queries[layerId] = {};
+    return queries[layerId];
+  };
+
+  for (const [key, rawValue] of Object.entries(searchParams)) {
+    if (rawValue === undefined) continue;
+    const values = (Array.isArray(rawValue) ? rawValue : [rawValue]).filter((value) => value !== '');
+    if (values.length === 0) continue;
+
+    if (key.startsWith(SEARCH_PARAM_PREFIX)) {
+      const search = values[0].trim();
+      if (search) getQuery(key.slice(SEARCH_PARAM_PREFIX.length)).search = search;
+    } else if (key.startsWith(FILTER_PARAM_PREFIX)) {
+      const [layerId, fieldId] = key.slice(FILTER_PARAM_PREFIX.length).split('.');
+      if (!layerId || !fieldId) continue;
+      const query = getQuery(layerId);
+      query.filters = { ...query.filters, [fieldId]: values };
+    } else if (key.startsWith(SORT_PARAM_PREFIX)) {
+      const sort = parseSortValue(values[0]);
+      if (!sort) continue;
+      Object.assign(getQuery(key.slice(SORT_PARAM_PREFIX.length)), sort);
+    }
+  }
+
+  return queries;
+}
+
+/** Check if a query changes the items of a collection layer */
+export function isCollectionQueryActive(query: CollectionQuery | undefined): query is CollectionQuery {
+  if (!query) return false;
+  return !!query.search?.trim()
+    || !!query.sortBy
+    || Object.values(query.filters || {}).some((values) => values.length > 0);
+}
+
+/**
+ * Build the filter conditions of a query (one group per filtered field, AND logic between fields)
+ * Evaluated against item values like collection filters.
+ */
+export function buildCollectionQueryFilters(
+  query: CollectionQuery,
+  fields: CollectionField[]
+): ConditionalVisibility {
+  const groups: VisibilityConditionGroup[] = [];
+
+  for (const [fieldId, values] of Object.entries(query.filters || {})) {
+    const field = fields.find((f) => f.id === fieldId);
+    if (!field || values.length === 0 || !FILTERABLE_FIELD_TYPES.includes(field.type)) continue;
+
+    const conditions: VisibilityCondition[] = field.type === 'boolean'
+      ? values.map((value, index) => ({
+        id: `${fieldId}-${index}`,
+        source: 'collection_field',
+        fieldId,
+        fieldType: field.type,
+        operator: 'is',
+        value,
+      }))
+      : [{
+        id: fieldId,
+        source: 'collection_field',
+        fieldId,
+        fieldType: field.type,
+        operator: 'is_one_of',
+        value: JSON.stringify(values),
+      }];
+
+    groups.push({ id: fieldId, conditions });
+  }
+
+  return { groups };
+}
+
+/**
+ * Build the search conditions of a query (any searched field contains the text)
+ * Evaluated against the searchable text of items (see page-fetcher).
+ */
+export function buildCollectionQuerySearch(
+  query: CollectionQuery,
+  fields: CollectionField[]
+): ConditionalVisibility {
+  const search = query.search?.trim();
+  if (!search) return { groups: [] };
+
+  const conditions: VisibilityCondition[] = getSearchFields(fields, query.searchFieldIds).map((field) => ({
+    id: field.id,
+    source: 'collection_field',
+    fieldId: field.id,
+    fieldType: 'text',
+    operator: 'contains',
+    value: search,
+  }));
+
+  return { groups: [{ id: 'search', conditions }] };
+}
+
+/** Get the fields searched by a query (all text fields when none are selected) */
+export function getSearchFields(fields: CollectionField[], searchFieldIds?: string[]): CollectionField[] {
+  if (!searchFieldIds?.length) {
+    return fields.filter((field) => DEFAULT_SEARCH_FIELD_TYPES.includes(field.type));
+  }
+  return fields.filter((field) => SEARCHABLE_FIELD_TYPES.includes(field.type) && searchFieldIds.includes(field.id));
+}
+
+/**
+ * Get the choices of a filter control
+ * @param items - Items of the filtered collection (distinct values of text, number and date fields)
+ * @param referencedItems - Items of the referenced collection (reference fields)
+ * @param referencedFields - Fields of the referenced collection (reference fields)
+ */
+export function getCollectionFilterOptions(
+  field: CollectionField,
+  items: CollectionItemWithValues[] = [],
+  referencedItems: CollectionItemWithValues[] = [],
+  referencedFields: CollectionField[] = []
+): CollectionControlOption[] {
+  if (field.type === 'option') {
+    return (field.data?.options || []).map((option) => ({ label: option.label, value: option.value }));
+  }
+
+  if (field.type === 'boolean') {
+    return [
+      { label: 'Yes', value: 'true' },
+      { label: 'No', value: 'false' },
+    ];
+  }
+
+  if (field.type === 'reference' || field.type === 'multi_reference') {
+    const displayField = findDisplayField(referencedFields);
+    return referencedItems.map((item) => ({ label: getItemDisplayName(item, displayField), value: item.id }));
+  }
+
+  const values = new Set<string>();
+  for (const item of items) {
+    const value = item.values[field.id];
+    if (typeof value === 'string' && value.trim()) values.add(value.trim());
+  }
+
+  const sortedValues = Array.from(values);
+  if (field.type === 'number') {
+    sortedValues.sort((a, b) => parseFloat(a) - parseFloat(b));
+  } else {
+    sortedValues.sort((a, b) => a.localeCompare(b));
+  }
+
+  return sortedValues.map((value) => ({
+    label: field.type === 'date' ? value.slice(0, 10) : value,
+    value,
+  }));
+}
+
+/** Get the choices of a sort control */
+export function getCollectionSortOptions(settings: CollectionControlSettings): CollectionControlOption[] {
+  return (settings.sortOptions || [])
+    .filter((option) => option.fieldId)
+    .map((option) => ({ label: option.label, value: formatSortValue(option.fieldId, option.order) }));
+}
+
+/** Get the values of a control selected by a query */
+export function getCollectionControlValue(
+  layer: Layer,
+  query: CollectionQuery | undefined
+): string[] {
+  const settings = getCollectionControlSettings(layer);
+  if (!settings || !query) return [];
+
+  switch (layer.name) {
+    case 'collectionSearch':
+      return query.search ? [query.search] : [];
+    case 'collectionFilter':
+      return settings.fieldId ? query.filters?.[settings.fieldId] || [] : [];
+    case 'collectionSort':
+      return query.sortBy && query.sortOrder ? [formatSortValue(query.sortBy, query.sortOrder)] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Collect what the search, filter and sort controls on a page let visitors query
+ * @returns Allowed queries keyed by collection layer ID (layers without controls are left out)
+ */
+export function getCollectionQueryControls(layers: Layer[]): Record<string, CollectionQueryControls> {
+  const result: Record<string, CollectionQueryControls> = {};
+
+  const traverse = (layerList: Layer[]) => {
+    for (const layer of layerList) {
+      const settings = getCollectionControlSettings(layer);
+      if (settings?.collectionLayerId) {
+        const controls = result[settings.collectionLayerId] ||= { filterFieldIds: [], sortValues: [] };
+
+        if (layer.name === 'collectionSearch') {
+          const previous = controls.searchFieldIds;
+          const fieldIds = settings.searchFieldIds || [];
+          // Any search control searching all fields widens the search to all fields
+          controls.searchFieldIds = previous && (previous.length === 0 || fieldIds.length === 0)
+            ? []
+            : Array.from(new Set([...(previous || []), ...fieldIds]));
+        } else if (layer.name === 'collectionFilter' && settings.fieldId) {
+          controls.filterFieldIds.push(settings.fieldId);
+        } else if (layer.name === 'collectionSort') {
+          controls.sortValues.push(...getCollectionSortOptions(settings).map((option) => option.value));
+        }
+      }
+      if (layer.children) traverse(layer.children);
+    }
+  };
+
+  traverse(layers);
+  return result;
+}
+
+/**
+ * Keep only the parts of a URL query that controls on the page allow
+ * Search, filters and sort without a matching control are dropped, so visitors
+ * can't query layers or fields the page doesn't expose.
+ */
+export function restrictCollectionQuery(
+  query: CollectionQuery | undefined,
+  controls: CollectionQueryControls | undefined
+): CollectionQuery | undefined {
+  if (!query || !controls) return undefined;
+
+  const restricted: CollectionQuery = {};
+
+  if (query.search && controls.searchFieldIds) {
+    restricted.search = query.search;
+    restricted.searchFieldIds = controls.searchFieldIds;
+  }
+
+  const filters = Object.entries(query.filters || {})
+    .filter(([fieldId]) => controls.filterFieldIds.includes(fieldId));
+  if (filters.length > 0) {
+    restricted.filters = Object.fromEntries(filters);
+  }
+
+  if (query.sortBy && query.sortOrder && controls.sortValues.includes(formatSortValue(query.sortBy, query.sortOrder))) {
+    restricted.sortBy = query.sortBy;
+    restricted.sortOrder = query.sortOrder;
+  }
+
+  return restricted;
+}
@@ -1,5 +1,6 @@
 import type { Collection, CollectionFieldType } from '@/types';
 import { sanitizeSlug } from './page-utils';
+import { getOptionDisplayValues } from './option-field-utils';
 
 /**
  * Collection Utilities
@@ -119,6 +120,14 @@ export function castValue(value: string | null, type: CollectionFieldType): any
       // Standard hex color string (e.g. #ff0000 or #ff0000aa with alpha)
       return value;
 
+    case 'geolocation':
+      // Parse {lat, lng, label} from stored JSON
+      try {
+        return JSON.parse(value);
+      } catch {
+        return null;
+      }
+
     case 'email':
     case 'phone':
     case 'text':
@@ -240,7 +249,8 @@ export function resolveReferenceFieldsSync(
   allFields: Record<string, import('@/types').CollectionField[]>,
   visited: Set<string> = new Set()
 ): Record<string, string> {
-  const enhancedValues = { ...itemValues };
+  // Add option labels and colors (e.g. "optionFieldId.__option_label")
+  const enhancedValues = { ...itemValues, ...getOptionDisplayValues(itemValues, fields) };
 
   // Find reference fields (single reference only)
   const referenceFields = fields.filter(
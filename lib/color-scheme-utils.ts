@@ -0,0 +1,119 @@
+/**
+ * Color scheme utility functions
+ *
+ * Dark mode for published sites. Dark overrides are `dark:` classes (the
+ * "dark" UI state), they apply while <html> has data-color-scheme="dark".
+ * The attribute is set before the page paints from the visitor's choice
+ * (made with a color scheme toggle) or their system preference.
+ */
+
+import type { Layer } from '@/types';
+
+/** Attribute on <html> holding the active color scheme */
+export const COLOR_SCHEME_ATTRIBUTE = 'data-color-scheme';
+
+/** Attribute marking color scheme toggle layers */
+export const COLOR_SCHEME_TOGGLE_ATTRIBUTE = 'data-color-scheme-toggle';
+
+/** localStorage key of the visitor's choice */
+const COLOR_SCHEME_STORAGE_KEY = 'ycode-color-scheme';
+
+/**
+ * Tailwind variant for dark: classes
+ * Replaces the default prefers-color-scheme media query, so the toggle can override it.
+ */
+export const DARK_VARIANT_CSS = `@custom-variant dark (&:where([${COLOR_SCHEME_ATTRIBUTE}=dark], [${COLOR_SCHEME_ATTRIBUTE}=dark] *));`;
+
+/** Selector of the dark color scheme (used for dark design token values) */
+export const DARK_SCHEME_SELECTOR = `[${COLOR_SCHEME_ATTRIBUTE}="dark"]`;
+
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * Script that applies the color scheme before the page paints
+ * Uses the visitor's stored choice, or follows prefers-color-scheme until they choose.
+ */
+export function getColorSchemeScript(): string {
+  return `(function(){try{
+var d=document.documentElement,q=window.matchMedia('(prefers-color-scheme: dark)');
+var apply=function(){var s=localStorage.getItem('${COLOR_SCHEME_STORAGE_KEY}');d.setAttribute('${COLOR_SCHEME_ATTRIBUTE}',s==='dark'||s==='light'?s:(q.matches?'dark':'light'));};
+apply();q.addEventListener('change',apply);
+}catch(e){}})();`;
+}
+
+/**
+ * Check if a layer tree contains color scheme toggles
+ */
+export function hasColorSchemeToggleLayers(layers: Layer[]): boolean {
+  return layers.some((layer) => layer.name === 'colorSchemeToggle' || (layer.children ? hasColorSchemeToggleLayers(layer.children) : false));
+}
+
+/**
+ * Get the active color scheme of a document
+ */
+export function getColorScheme(doc: Document): ColorScheme {
+  return doc.documentElement.getAttribute(COLOR_SCHEME_ATTRIBUTE) === 'dark' ? 'dark' : 'light';
+}
+
+/**
+ * Apply a color scheme to a document and update the toggles' pressed state
+ * @param persist - Store the choice, so it wins over the system preference on later visits
+ */
+export function setColorScheme(doc: Document, scheme: ColorScheme, persist = false): void {
+  doc.documentElement.setAttribute(COLOR_SCHEME_ATTRIBUTE, scheme);
+
+  doc.querySelectorAll(`[${COLOR_SCHEME_TOGGLE_ATTRIBUTE}]`).forEach((toggle) => {
+    toggle.setAttribute('aria-pressed', String(scheme === 'dark'));
+  });
+
+  if (persist) {
+    try {
+      doc.defaultView?.localStorage.setItem(COLOR_SCHEME_STORAGE_KEY, scheme);
+    } catch {
+      // Storage can be unavailable (private mode), the choice then lasts for the page
+    }
+  }
+}
+
+/**
+ * Enable color scheme toggles on a document
+ * Uses event delegation, so toggles added later (e.g. by load more) work too.
+ *
+ * @returns Cleanup function that removes the listeners
+ */
+export function initColorSchemeToggles(doc: Document): () => void {
+  const toggle = () => {
+    setColorScheme(doc, getColorScheme(doc) === 'dark' ? 'light' : 'dark', true);
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    if (event.defaultPrevented || event.button !== 0) return;
+
+    const target = event.target as Element | null;
+    if (!target?.closest(`[${COLOR_SCHEME_TOGGLE_ATTRIBUTE}]`)) return;
+
+    event.preventDefault();
+    toggle();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+
+    const target = event.target as HTMLElement | null;
+    if (!target?.hasAttribute(COLOR_SCHEME_TOGGLE_ATTRIBUTE)) return;
+
+    event.preventDefault();
+    toggle();
+  };
+
+  // Sync the pressed state with the scheme applied by the head script
+  setColorScheme(doc, getColorScheme(doc));
+
+  doc.addEventListener('click', handleClick);
+  doc.addEventListener('keydown', handleKeyDown);
+
+  return () => {
+    doc.removeEventListener('click', handleClick);
+    doc.removeEventListener('keydown', handleKeyDown);
+  };
+}
@@ -4,8 +4,9 @@
  * Core logic for applying, detaching, and managing components
  */
 
-import type { Layer, Component } from '@/types';
-import { regenerateIdsWithInteractionRemapping } from './layer-utils';
+import type { Layer, Component, ComponentVariable, ComponentVariantLayerOverride, ComponentVariantOption } from '@/types';
+import { cn } from './utils';
+import { getClassesString, regenerateIdsWithInteractionRemapping } from './layer-utils';
 
 /**
  * Collect all component IDs referenced in a layer tree
@@ -309,8 +310,9 @@ function replaceLayerWithComponentChildren(layer: Layer, component?: Component):
     return [rest as Layer];
   }
 
-  // Clone the component's layers with new IDs and return them
-  const cloned = JSON.parse(JSON.stringify(component.layers)) as Layer[];
+  // Clone the component's layers (as styled by the instance's variants) with new IDs and return them
+  const styledLayers = applyVariantAndBooleanOverrides(component.layers, layer.componentOverrides, component.variables);
+  const cloned = JSON.parse(JSON.stringify(styledLayers)) as Layer[];
   return cloned.map(regenerateIdsWithInteractionRemapping);
 }
 
@@ -353,3 +355,112 @@ export function getLayerIdsUsingComponent(layers: Layer[], componentId: string):
 
   return ids;
 }
+
+/**
+ * Check if a component variable holds text
+ * Variables without a type are text variables (created before types existed)
+ */
+export function isTextComponentVariable(variable: ComponentVariable): boolean {
+  return !variable.type || variable.type === 'text';
+}
+
+/**
+ * Get the option a variant variable uses for an instance
+ * Falls back to the default option, then to the first option
+ */
+export function getSelectedVariantOption(
+  variable: ComponentVariable,
+  overrides?: Layer['componentOverrides']
+): ComponentVariantOption | undefined {
+  const options = variable.options || [];
+  const optionId = overrides?.variant?.[variable.id] ?? variable.default_option;
+
+  return options.find(option => option.id === optionId) || options[0];
+}
+
+/**
+ * Check if a boolean variable is on for an instance (variables are on by default)
+ */
+export function isBooleanVariableEnabled(
+  variable: ComponentVariable,
+  overrides?: Layer['componentOverrides']
+): boolean {
+  return overrides?.boolean?.[variable.id] ?? variable.default_enabled ?? true;
+}
+
+/**
+ * Get the classes of all variant options of a component
+ * Instances apply them at render time, so CSS generation needs them in addition to the layers' classes.
+ */
+export function getComponentVariantClasses(componentVariables?: ComponentVariable[]): string[] {
+  return (componentVariables || [])
+    .filter(variable => variable.type === 'variant')
+    .flatMap(variable => variable.options || [])
+    .flatMap(option => Object.values(option.layers || {}).map(style => style.classes))
+    .filter(Boolean);
+}
+
+/**
+ * Apply the variant and boolean variables of a component instance to the component's layers
+ * Layers of boolean variables that are off are removed, selected variant options restyle their layers.
+ * Expects the component's own layer IDs (before instance-specific IDs are applied),
+ * the root layers are never removed.
+ */
+export function applyVariantAndBooleanOverrides(
+  layers: Layer[],
+  overrides?: Layer['componentOverrides'],
+  componentVariables?: ComponentVariable[]
+): Layer[] {
+  const hiddenLayerIds = new Set<string>();
+  const layerStyles = new Map<string, ComponentVariantLayerOverride[]>();
+
+  for (const variable of componentVariables || []) {
+    if (variable.type === 'boolean' && !isBooleanVariableEnabled(variable, overrides)) {
+      variable.layer_ids?.forEach(layerId => hiddenLayerIds.add(layerId));
+    }
+
+    if (variable.type === 'variant') {
+      const option = getSelectedVariantOption(variable, overrides);
+      Object.entries(option?.layers || {}).forEach(([layerId, style]) => {
+        layerStyles.set(layerId, [...(layerStyles.get(layerId) || []), style]);
+      });
+    }
+  }
+
+  if (hiddenLayerIds.size === 0 && layerStyles.size === 0) {
+    return layers;
+  }
+
+  const applyToLayer = (layer: Layer): Layer => {
+    let updatedLayer = layer;
+
+    const styles = layerStyles.get(layer.id);
+    if (styles) {
+      // Merge each category, so option properties replace the layer's without dropping the rest
+      const design = styles.reduce<NonNullable<Layer['design']>>((merged, style) => {
+        Object.entries(style.design || {}).forEach(([category, properties]) => {
+          const key = category as keyof NonNullable<Layer['design']>;
+          merged[key] = { ...merged[key], ...properties } as any;
+        });
+        return merged;
+      }, { ...layer.design });
+
+      updatedLayer = {
+        ...layer,
+        classes: cn(getClassesString(layer), ...styles.map(style => style.classes)),
+        design,
+      };
+    }
+
+    if (updatedLayer.children) {
+      updatedLayer = {
+        ...updatedLayer,
+        children: updatedLayer.children.filter(child => !hiddenLayerIds.has(child.id)).map(applyToLayer),
+      };
+    }
+
+    return updatedLayer;
+  };
+
+  return layers.map(applyToLayer);
+}
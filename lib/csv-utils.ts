@@ -5,6 +5,8 @@
  */
 
 import type { CollectionField, CollectionFieldType } from '@/types';
+import { parseGeolocationText, stringifyGeolocationValue } from '@/lib/geolocation-utils';
+import { getFieldOptions, normalizeOptionInput, parseOptionValues } from '@/lib/option-field-utils';
 
 // ============================================================================
 // Constants
@@ -331,10 +333,12 @@ export async function parseCSVFile(file: File): Promise<ParsedCSV> {
 
 /**
  * Convert CSV value to appropriate type based on field type
+ * @param field - The target field (needed for option fields to match labels)
  */
 export function convertValueForFieldType(
   value: string,
-  fieldType: CollectionFieldType
+  fieldType: CollectionFieldType,
+  field?: CollectionField
 ): string | null {
   if (!value || value.trim() === '') {
     return null;
@@ -393,6 +397,21 @@ export function convertValueForFieldType(
       // Reference IDs should be provided as-is or comma-separated
       return trimmedValue;
 
+    case 'geolocation': {
+      // Accepts "lat, lng", "lat, lng, label", "lat;lng;label" or JSON
+      const geolocation = parseGeolocationText(trimmedValue);
+      return geolocation ? stringifyGeolocationValue(geolocation) : null;
+    }
+
+    case 'option': {
+      // Accepts option labels or values, comma-separated for multiple options
+      if (!field) return trimmedValue;
+      const normalized = normalizeOptionInput(field, trimmedValue);
+      const options = getFieldOptions(field);
+      const isValid = parseOptionValues(normalized).every(optionValue => options.some(option => option.value === optionValue));
+      return isValid ? normalized : null;
+    }
+
     default:
       return trimmedValue;
   }
@@ -475,6 +494,8 @@ export function getFieldTypeLabel(type: CollectionFieldType): string {
     link: 'Link',
     email: 'Email',
     phone: 'Phone',
+    geolocation: 'Geolocation',
+    option: 'Option',
   };
   return labels[type] || type;
 }
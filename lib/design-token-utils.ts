@@ -0,0 +1,132 @@
+import type { DesignToken, DesignTokenType } from '@/types';
+import { DARK_SCHEME_SELECTOR } from './color-scheme-utils';
+
+/** Setting with the site's design tokens */
+export const DESIGN_TOKENS_SETTING = 'design_tokens';
+
+export const DESIGN_TOKEN_TYPES: DesignTokenType[] = ['color', 'spacing', 'fontSize'];
+
+/** CSS custom property prefix of each token type */
+const TOKEN_VARIABLE_PREFIXES: Record<DesignTokenType, string> = {
+  color: '--token-color-',
+  spacing: '--token-spacing-',
+  fontSize: '--token-font-size-',
+};
+
+/** Matches a value referencing a token, e.g. "var(--token-color-brand)" */
+const TOKEN_VALUE_PATTERN = /^var\((--token-(?:color|spacing|font-size)-[a-z0-9-]+)\)$/;
+
+let activeTokens: DesignToken[] = [];
+
+/** Get a token value that can't break out of its CSS declaration */
+function normalizeTokenValue(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[;{}<>]/g, '').trim();
+  return cleaned || null;
+}
+
+/**
+ * Create a unique token key from a token name
+ * "Brand Blue" → "brand-blue", "Brand" (taken) → "brand-2"
+ */
+export function createDesignTokenKey(name: string, usedKeys: Set<string>): string {
+  let base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  if (!/^[a-z]/.test(base)) {
+    base = `token-${base}`.replace(/-+$/, '');
+  }
+
+  let key = base;
+  let counter = 2;
+  while (usedKeys.has(key)) {
+    key = `${base}-${counter++}`;
+  }
+  return key;
+}
+
+/**
+ * Build the token list from the design tokens setting
+ * Invalid entries are dropped, keys are unique per type.
+ */
+export function normalizeDesignTokens(value: unknown): DesignToken[] {
+  if (!Array.isArray(value)) return [];
+
+  const seenKeys = new Set<string>();
+  const tokens: DesignToken[] = [];
+
+  for (const entry of value) {
+    if (!entry || !DESIGN_TOKEN_TYPES.includes(entry.type)) continue;
+    if (typeof entry.key !== 'string' || !/^[a-z][a-z0-9-]*$/.test(entry.key)) continue;
+    const tokenValue = normalizeTokenValue(entry.value);
+    if (!tokenValue || seenKeys.has(`${entry.type}:${entry.key}`)) continue;
+
+    seenKeys.add(`${entry.type}:${entry.key}`);
+    tokens.push({
+      id: String(entry.id || `${entry.type}-${entry.key}`),
+      type: entry.type,
+      name: typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : entry.key,
+      key: entry.key,
+      value: tokenValue,
+      dark_value: entry.type === 'color' ? normalizeTokenValue(entry.dark_value) : null,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Use the site's design tokens (from the design tokens setting)
+ * Called when settings are loaded in the editor.
+ */
+export function setDesignTokens(value: unknown): void {
+  activeTokens = normalizeDesignTokens(value);
+}
+
+/** All design tokens of the site */
+export function getDesignTokens(): DesignToken[] {
+  return activeTokens;
+}
+
+/** Get the CSS custom property of a token, e.g. "--token-color-brand" */
+export function getDesignTokenVariable(token: Pick<DesignToken, 'type' | 'key'>): string {
+  return `${TOKEN_VARIABLE_PREFIXES[token.type]}${token.key}`;
+}
+
+/**
+ * Get the design value that references a token, e.g. "var(--token-color-brand)"
+ * Layers store this value, so changing the token restyles every usage.
+ */
+export function getDesignTokenValue(token: Pick<DesignToken, 'type' | 'key'>): string {
+  return `var(${getDesignTokenVariable(token)})`;
+}
+
+/** Check if a design value references a color token */
+export function isColorTokenValue(value: string): boolean {
+  return value.startsWith(`var(${TOKEN_VARIABLE_PREFIXES.color}`) && TOKEN_VALUE_PATTERN.test(value);
+}
+
+/** Get the token a design value references (undefined for literal values and deleted tokens) */
+export function findDesignTokenByValue(value: string | null | undefined, tokens: DesignToken[] = activeTokens): DesignToken | undefined {
+  const variable = value?.match(TOKEN_VALUE_PATTERN)?.[1];
+  if (!variable) return undefined;
+  return tokens.find((token) => getDesignTokenVariable(token) === variable);
+}
+
+/**
+ * Build the CSS custom properties of design tokens
+ * Dark values apply in the dark color scheme (<html data-color-scheme="dark">).
+ */
+export function getDesignTokensCss(tokens: DesignToken[] = activeTokens): string {
+  if (tokens.length === 0) return '';
+
+  const declarations = tokens.map((token) => `${getDesignTokenVariable(token)}: ${token.value};`);
+  const darkDeclarations = tokens
+    .filter((token) => token.dark_value)
+    .map((token) => `${getDesignTokenVariable(token)}: ${token.dark_value};`);
+
+  const rules = [`:root {\n  ${declarations.join('\n  ')}\n}`];
+  if (darkDeclarations.length > 0) {
+    rules.push(`${DARK_SCHEME_SELECTOR} {\n  ${darkDeclarations.join('\n  ')}\n}`);
+  }
+
+  return rules.join('\n');
+}
@@ -0,0 +1,267 @@
+/**
+ * Field Validation Utilities
+ *
+ * Per-field validation rules of CMS collections (stored in field.data.validation)
+ * and validation of item values against them. Shared by the item sheet in the
+ * editor, the internal and public items APIs and the CSV import.
+ */
+
+import type { CollectionField, CollectionFieldType, CollectionFieldValidation } from '@/types';
+import { isAssetFieldType, validateFieldValue } from '@/lib/collection-field-utils';
+import { getFieldOptions, parseOptionValues } from '@/lib/option-field-utils';
+
+export type FieldValidationRule =
+  | 'required'
+  | 'unique'
+  | 'format'
+  | 'min_length'
+  | 'max_length'
+  | 'min'
+  | 'max'
+  | 'pattern'
+  | 'file_type';
+
+export interface FieldValidationError {
+  field_id: string;
+  field: string; // Field name
+  rule: FieldValidationRule;
+  message: string;
+}
+
+export interface FieldValidationContext {
+  /** Check if another item of the collection already has the value (unique rule) */
+  isDuplicate?: (fieldId: string, value: string) => boolean;
+  /** Look up the file of an asset (allowed file types rule) */
+  getAsset?: (assetId: string) => { filename: string; mime_type: string } | null | undefined;
+}
+
+/** Field types that support min/max length and pattern rules */
+export const TEXT_VALIDATION_FIELD_TYPES: CollectionFieldType[] = ['text', 'email', 'phone', 'link'];
+
+/** Field types that support min/max rules */
+export const RANGE_VALIDATION_FIELD_TYPES: CollectionFieldType[] = ['number'];
+
+/** Field types that support the unique rule */
+export const UNIQUE_VALIDATION_FIELD_TYPES: CollectionFieldType[] = ['text', 'number', 'email', 'phone', 'link', 'date'];
+
+/** Built-in fields that are generated automatically and never validated */
+const AUTO_FIELD_KEYS = ['id', 'created_at', 'updated_at'];
+
+/** Get the validation rules of a field */
+export function getFieldValidation(field: CollectionField): CollectionFieldValidation {
+  return field.data?.validation || {};
+}
+
+/** Check if a field has any validation rules */
+export function hasFieldValidation(field: CollectionField): boolean {
+  return Object.values(getFieldValidation(field)).some((rule) => (
+    Array.isArray(rule) ? rule.length > 0 : rule !== undefined && rule !== null && rule !== false && rule !== ''
+  ));
+}
+
+/**
+ * Check if a regular expression source is valid
+ * @returns Error message, or null when valid
+ */
+export function validatePatternSource(pattern: string): string | null {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch {
+    return 'Invalid regular expression';
+  }
+}
+
+/** Collect the text of a rich text (Tiptap JSON) value */
+function getRichTextContent(node: unknown): string {
+  if (!node || typeof node !== 'object') return '';
+  const { text, content } = node as { text?: unknown; content?: unknown };
+  const ownText = typeof text === 'string' ? text : '';
+  return ownText + (Array.isArray(content) ? content.map(getRichTextContent).join('') : '');
+}
+
+/** Normalize a value to its text content for validation */
+function getValueText(fieldType: CollectionFieldType, value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (fieldType === 'rich_text') {
+    if (typeof value === 'object') return getRichTextContent(value).trim();
+    try {
+      return getRichTextContent(JSON.parse(String(value))).trim();
+    } catch {
+      return String(value).trim();
+    }
+  }
+
+  if (Array.isArray(value)) return value.length > 0 ? JSON.stringify(value) : '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/** Parse the IDs of a single or multiple asset/reference value */
+function parseIdList(value: string): string[] {
+  if (!value.startsWith('[')) return value ? [value] : [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string' && !!id) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check if an asset file matches allowed file types
+ * Types are extensions ("pdf", ".pdf"), MIME types ("image/png") or wildcards ("image/*").
+ */
+export function isAllowedFileType(
+  asset: { filename: string; mime_type: string },
+  allowedFileTypes: string[]
+): boolean {
+  const extension = asset.filename.split('.').pop()?.toLowerCase() || '';
+  const mimeType = (asset.mime_type || '').toLowerCase();
+
+  return allowedFileTypes.some((allowed) => {
+    const type = allowed.trim().toLowerCase();
+    if (!type) return false;
+    if (type.endsWith('/*')) return mimeType.startsWith(type.slice(0, -1));
+    if (type.includes('/')) return mimeType === type;
+    return extension === type.replace(/^\./, '');
+  });
+}
+
+/**
+ * Validate a value against the rules of a field
+ * @returns The first failed rule, or null when valid
+ */
+export function validateFieldRules(
+  field: CollectionField,
+  value: unknown,
+  context: FieldValidationContext = {}
+): FieldValidationError | null {
+  if (field.key && AUTO_FIELD_KEYS.includes(field.key)) return null;
+
+  const rules = getFieldValidation(field);
+  const text = getValueText(field.type, value);
+  const error = (rule: FieldValidationRule, message: string): FieldValidationError => ({
+    field_id: field.id,
+    field: field.name,
+    rule,
+    message,
+  });
+
+  if (text === '' || text === '[]') {
+    return rules.required ? error('required', `${field.name} is required`) : null;
+  }
+
+  // Built-in format checks (email, phone)
+  const formatError = validateFieldValue(field.type, text);
+  if (formatError) return error('format', formatError);
+
+  if (field.type === 'option') {
+    const options = getFieldOptions(field);
+    const unknownValue = parseOptionValues(value).find((optionValue) => !options.some((option) => option.value === optionValue));
+    if (unknownValue) {
+      return error('format', `"${unknownValue}" is not an option of ${field.name}`);
+    }
+  }
+
+  if (TEXT_VALIDATION_FIELD_TYPES.includes(field.type) || field.type === 'rich_text') {
+    if (typeof rules.minLength === 'number' && text.length < rules.minLength) {
+      return error('min_length', `${field.name} must be at least ${rules.minLength} characters`);
+    }
+    if (typeof rules.maxLength === 'number' && text.length > rules.maxLength) {
+      return error('max_length', `${field.name} must be at most ${rules.maxLength} characters`);
+    }
+  }
+
+  if (TEXT_VALIDATION_FIELD_TYPES.includes(field.type) && rules.pattern) {
+    let matches = true;
+    try {
+      matches = new RegExp(rules.pattern).test(text);
+    } catch {
+      // Invalid patterns are rejected when the field is saved
+    }
+    if (!matches) {
+      return error('pattern', rules.patternMessage || `${field.name} has an invalid format`);
+    }
+  }
+
+  if (RANGE_VALIDATION_FIELD_TYPES.includes(field.type)) {
+    const number = Number(text);
+    if (isNaN(number)) {
+      return error('format', `${field.name} must be a number`);
+    }
+    if (typeof rules.min === 'number' && number < rules.min) {
+      return error('min', `${field.name} must be at least ${rules.min}`);
+    }
+    if (typeof rules.max === 'number' && number > rules.max) {
+      return error('max', `${field.name} must be at most ${rules.max}`);
+    }
+  }
+
+  if (isAssetFieldType(field.type) && rules.allowedFileTypes?.length && context.getAsset) {
+    const invalidAsset = parseIdList(text)
+      .map((assetId) => context.getAsset?.(assetId))
+      .find((asset) => asset && !isAllowedFileType(asset, rules.allowedFileTypes || []));
+    if (invalidAsset) {
+      return error('file_type', `${field.name} must be a ${rules.allowedFileTypes.join(', ')} file`);
+    }
+  }
+
+  if (rules.unique && UNIQUE_VALIDATION_FIELD_TYPES.includes(field.type) && context.isDuplicate?.(field.id, text)) {
+    return error('unique', `${field.name} must be unique, another item already uses this value`);
+  }
+
+  return null;
+}
+
+/**
+ * Validate item values against the rules of the collection fields
+ *
+ * @param values - Values keyed by field ID
+ * @param options.partial - Only validate fields present in values (partial updates)
+ */
+export function validateItemValues(
+  fields: CollectionField[],
+  values: Record<string, unknown>,
+  options: FieldValidationContext & { partial?: boolean } = {}
+): FieldValidationError[] {
+  const errors: FieldValidationError[] = [];
+
+  for (const field of fields) {
+    if (!field.fillable) continue;
+    if (options.partial && !(field.id in values)) continue;
+
+    const fieldError = validateFieldRules(field, values[field.id], options);
+    if (fieldError) errors.push(fieldError);
+  }
+
+  return errors;
+}
+
+/**
+ * Describe the validation rules of a field (for hints next to inputs)
+ */
+export function describeFieldValidation(field: CollectionField): string | null {
+  const rules = getFieldValidation(field);
+  const parts: string[] = [];
+
+  if (rules.unique) parts.push('unique');
+  if (typeof rules.minLength === 'number' && typeof rules.maxLength === 'number') {
+    parts.push(`${rules.minLength}–${rules.maxLength} characters`);
+  } else if (typeof rules.minLength === 'number') {
+    parts.push(`at least ${rules.minLength} characters`);
+  } else if (typeof rules.maxLength === 'number') {
+    parts.push(`at most ${rules.maxLength} characters`);
+  }
+  if (typeof rules.min === 'number' && typeof rules.max === 'number') {
+    parts.push(`${rules.min} to ${rules.max}`);
+  } else if (typeof rules.min === 'number') {
+    parts.push(`${rules.min} or more`);
+  } else if (typeof rules.max === 'number') {
+    parts.push(`${rules.max} or less`);
+  }
+  if (rules.allowedFileTypes?.length) parts.push(rules.allowedFileTypes.join(', '));
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
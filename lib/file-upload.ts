@@ -11,6 +11,9 @@ import type { Asset } from '@/types';
 
 const STORAGE_BUCKET = 'assets';
 
+/** Private bucket for files uploaded through published forms */
+const FORM_UPLOADS_BUCKET = 'form-uploads';
+
 /**
  * Validate SVG content
  * @param content - SVG content to validate
@@ -346,3 +349,115 @@ export async function deleteAsset(assetId: string): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * Upload a file submitted through a form to the private form uploads bucket
+ * Files are stored as-is (no image conversion) in a folder per form.
+ *
+ * @param file - File to upload
+ * @param formId - Form ID, used as the storage folder
+ * @returns Storage path of the uploaded file or null if upload fails
+ */
+export async function uploadFormFile(file: File, formId: string): Promise<string | null> {
+  try {
+    const supabase = await getSupabaseAdmin();
+
+    if (!supabase) {
+      throw new Error('Supabase client not available');
+    }
+
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 15);
+    const extension = file.name.includes('.') ? file.name.split('.').pop() : '';
+    const folder = formId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const storagePath = `${folder}/${timestamp}-${random}${extension ? `.${extension}` : ''}`;
+
+    const { data, error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .upload(storagePath, file, {
+        upsert: false,
+        contentType: file.type || 'application/octet-stream',
+      });
+
+    if (error) {
+      console.error('Error uploading form file:', error);
+      return null;
+    }
+
+    return data.path;
+  } catch (error) {
+    console.error('Error in uploadFormFile:', error);
+    return null;
+  }
+}
+
+/**
+ * Create signed download URLs for files in the form uploads bucket
+ *
+ * @param storagePaths - Storage paths of the files
+ * @param expiresIn - Lifetime of the URLs in seconds
+ * @returns Map of storage path to signed URL (paths that couldn't be signed are omitted)
+ */
+export async function createSignedFormFileUrls(
+  storagePaths: string[],
+  expiresIn: number
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+
+  if (storagePaths.length === 0) return urls;
+
+  const supabase = await getSupabaseAdmin();
+
+  if (!supabase) {
+    throw new Error('Supabase client not available');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(FORM_UPLOADS_BUCKET)
+    .createSignedUrls(storagePaths, expiresIn);
+
+  if (error) {
+    console.error('Error creating signed form file URLs:', error);
+    return urls;
+  }
+
+  for (const entry of data || []) {
+    if (entry.path && entry.signedUrl) {
+      urls.set(entry.path, entry.signedUrl);
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Delete files from the form uploads bucket
+ *
+ * @param storagePaths - Storage paths of the files
+ * @returns True if successful, false otherwise
+ */
+export async function deleteFormFiles(storagePaths: string[]): Promise<boolean> {
+  if (storagePaths.length === 0) return true;
+
+  try {
+    const supabase = await getSupabaseAdmin();
+
+    if (!supabase) {
+      throw new Error('Supabase client not available');
+    }
+
+    const { error } = await supabase.storage
+      .from(FORM_UPLOADS_BUCKET)
+      .remove(storagePaths);
+
+    if (error) {
+      console.error('Error deleting form files from storage:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteFormFiles:', error);
+    return false;
+  }
+}
@@ -0,0 +1,215 @@
+import type { CustomFont, FontDisplay, FontFallback, FontFile, FontStyle } from '@/types';
+
+/** Setting with the site's custom fonts */
+export const FONTS_SETTING = 'fonts';
+
+/** Source of uploaded font file assets */
+export const FONT_ASSET_SOURCE = 'fonts';
+
+export const FONT_DISPLAY_VALUES: FontDisplay[] = ['swap', 'block', 'fallback', 'optional', 'auto'];
+
+export const FONT_FALLBACK_VALUES: FontFallback[] = ['sans-serif', 'serif', 'monospace', 'cursive', 'system-ui'];
+
+/** Font weights with their names, as shown in the typography controls */
+export const FONT_WEIGHT_NAMES: Record<number, string> = {
+  100: 'Thin',
+  200: 'Extralight',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'Semibold',
+  700: 'Bold',
+  800: 'Extrabold',
+  900: 'Black',
+};
+
+/**
+ * Keys a custom font can't use, their font-<key> classes already exist
+ * (built-in families, named weights and other font utilities)
+ */
+const RESERVED_FONT_KEYS = [
+  'sans', 'serif', 'mono',
+  'thin', 'extralight', 'light', 'normal', 'medium', 'semibold', 'bold', 'extrabold', 'black',
+  'stretch', 'features',
+];
+
+let activeFonts: CustomFont[] = [];
+
+/** Check if a key can be used for a custom font class (font-<key>) */
+export function isValidFontKey(key: string): boolean {
+  return /^[a-z][a-z0-9-]*$/.test(key)
+    && !RESERVED_FONT_KEYS.some((reserved) => key === reserved || key.startsWith(`${reserved}-`));
+}
+
+/**
+ * Create a unique font key from a family name
+ * "Open Sans" → "open-sans", "Inter" (taken) → "inter-2"
+ */
+export function createFontKey(family: string, usedKeys: Set<string>): string {
+  let base = family.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  if (!isValidFontKey(base)) {
+    base = `custom-${base || 'font'}`.replace(/-+$/, '');
+  }
+
+  let key = base;
+  let counter = 2;
+  while (usedKeys.has(key)) {
+    key = `${base}-${counter++}`;
+  }
+  return key;
+}
+
+function normalizeWeight(value: unknown): number | null {
+  const weight = Math.round(Number(value));
+  return weight >= 1 && weight <= 1000 ? weight : null;
+}
+
+/**
+ * Build the font list from the fonts setting
+ * Invalid entries are dropped, keys are unique.
+ */
+export function normalizeFonts(value: unknown): CustomFont[] {
+  if (!Array.isArray(value)) return [];
+
+  const seenKeys = new Set<string>();
+  const fonts: CustomFont[] = [];
+
+  for (const entry of value) {
+    if (!entry || typeof entry.family !== 'string' || !entry.family.trim()) continue;
+    if (typeof entry.key !== 'string' || !isValidFontKey(entry.key) || seenKeys.has(entry.key)) continue;
+
+    const files: FontFile[] = Array.isArray(entry.files)
+      ? entry.files
+        .filter((file: any) => file && (file.asset_id || file.url) && normalizeWeight(file.weight) !== null)
+        .map((file: any) => ({
+          id: String(file.id || ''),
+          weight: normalizeWeight(file.weight) as number,
+          style: (file.style === 'italic' ? 'italic' : 'normal') as FontStyle,
+          asset_id: typeof file.asset_id === 'string' && file.asset_id ? file.asset_id : null,
+          url: typeof file.url === 'string' && file.url ? file.url : null,
+          preload: file.preload === true,
+        }))
+      : [];
+
+    const weights = Array.isArray(entry.weights)
+      ? entry.weights.map(normalizeWeight).filter((weight: number | null): weight is number => weight !== null)
+      : [];
+
+    seenKeys.add(entry.key);
+    fonts.push({
+      id: String(entry.id || entry.key),
+      family: entry.family.trim(),
+      key: entry.key,
+      fallback: FONT_FALLBACK_VALUES.includes(entry.fallback) ? entry.fallback : 'sans-serif',
+      display: FONT_DISPLAY_VALUES.includes(entry.display) ? entry.display : 'swap',
+      weights,
+      files,
+    });
+  }
+
+  return fonts;
+}
+
+/**
+ * Use the site's custom fonts (from the fonts setting)
+ * Called when settings are loaded in the editor.
+ */
+export function setCustomFonts(value: unknown): void {
+  activeFonts = normalizeFonts(value);
+}
+
+/** All custom fonts of the site */
+export function getCustomFonts(): CustomFont[] {
+  return activeFonts;
+}
+
+/** Weights a font is available in (its files and declared weights), ascending */
+export function getFontWeights(font: CustomFont): number[] {
+  const weights = new Set([...font.weights, ...font.files.map((file) => file.weight)]);
+  return Array.from(weights).sort((a, b) => a - b);
+}
+
+/** IDs of the assets used by font files */
+export function getFontAssetIds(fonts: CustomFont[]): string[] {
+  return Array.from(new Set(
+    fonts.flatMap((font) => font.files.map((file) => file.asset_id).filter((id): id is string => !!id))
+  ));
+}
+
+/**
+ * Get the URL of a font file
+ * @param assetUrls - Asset ID → public URL of uploaded font files
+ */
+export function getFontFileUrl(file: FontFile, assetUrls: Record<string, string>): string | null {
+  if (file.asset_id) return assetUrls[file.asset_id] || null;
+  return file.url;
+}
+
+/** Get the @font-face format of a font file URL */
+function getFontFormat(url: string): string | null {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'woff2': return 'woff2';
+    case 'woff': return 'woff';
+    case 'ttf': return 'truetype';
+    case 'otf': return 'opentype';
+    default: return null;
+  }
+}
+
+function quoteCssString(value: string): string {
+  return `"${value.replace(/["\\\n]/g, '')}"`;
+}
+
+/** Get the font-family value of a custom font, e.g. "Inter", sans-serif */
+export function getFontFamilyValue(font: CustomFont): string {
+  return `${quoteCssString(font.family)}, ${font.fallback}`;
+}
+
+/**
+ * Build the @font-face rules of custom fonts
+ * Files without a URL (e.g. a deleted asset) are skipped.
+ */
+export function getFontFaceCss(fonts: CustomFont[], assetUrls: Record<string, string>): string {
+  const rules: string[] = [];
+
+  for (const font of fonts) {
+    for (const file of font.files) {
+      const url = getFontFileUrl(file, assetUrls);
+      if (!url) continue;
+
+      const format = getFontFormat(url);
+      rules.push([
+        '@font-face {',
+        `  font-family: ${quoteCssString(font.family)};`,
+        `  src: url(${quoteCssString(url)})${format ? ` format("${format}")` : ''};`,
+        `  font-weight: ${file.weight};`,
+        `  font-style: ${file.style};`,
+        `  font-display: ${font.display};`,
+        '}',
+      ].join('\n'));
+    }
+  }
+
+  return rules.join('\n');
+}
+
+/**
+ * Build the CSS of the site's custom fonts for Tailwind
+ * @font-face rules plus a theme font per family, so font-<key> classes resolve to it.
+ */
+export function getFontThemeCss(assetUrls: Record<string, string>, fonts: CustomFont[] = activeFonts): string {
+  if (fonts.length === 0) return '';
+
+  const declarations = fonts.map((font) => `--font-${font.key}: ${getFontFamilyValue(font)};`);
+
+  return `${getFontFaceCss(fonts, assetUrls)}\n@theme {\n  ${declarations.join('\n  ')}\n}`;
+}
+
+/** URLs of the font files that published pages preload */
+export function getFontPreloadUrls(fonts: CustomFont[], assetUrls: Record<string, string>): string[] {
+  return fonts.flatMap((font) => font.files
+    .filter((file) => file.preload)
+    .map((file) => getFontFileUrl(file, assetUrls))
+    .filter((url): url is string => !!url));
+}
@@ -0,0 +1,447 @@
+/**
+ * Form Utilities
+ *
+ * Shared helpers for public form submissions, safe to import from both
+ * the published site renderer and server-side API routes.
+ */
+
+import { validateFieldValue } from '@/lib/collection-field-utils';
+import { extractPlainTextFromTiptap } from '@/lib/tiptap-utils';
+import type {
+  Layer,
+  FormDefinition,
+  FormFieldDefinition,
+  FormFieldErrors,
+  FormFieldType,
+} from '@/types';
+
+/** Name of the hidden honeypot input rendered into protected forms */
+export const FORM_HONEYPOT_FIELD = '_ycode_hp';
+
+/** Name of the hidden input holding the signed time-to-submit token */
+export const FORM_TOKEN_FIELD = '_ycode_token';
+
+/**
+ * Remove internal spam protection fields from a submission payload
+ */
+export function stripFormSpamFields(payload: Record<string, any>): Record<string, any> {
+  const {
+    [FORM_HONEYPOT_FIELD]: _honeypot,
+    [FORM_TOKEN_FIELD]: _token,
+    ...fields
+  } = payload;
+
+  return fields;
+}
+
+/** Longest value accepted for a single form field */
+export const MAX_FORM_VALUE_LENGTH = 10000;
+
+/** Default maximum size per uploaded file when a file input doesn't set one */
+export const DEFAULT_FORM_FILE_MAX_SIZE_MB = 10;
+
+/** Largest per-file size a file input can allow (matches the form-uploads bucket limit) */
+export const MAX_FORM_FILE_SIZE_MB = 50;
+
+/** Prefix for multipart parts holding uploaded files, followed by the field name */
+export const FORM_FILE_PART_PREFIX = 'file:';
+
+/** Uploaded file details needed for validation (satisfied by File) */
+type FormFileInfo = Pick<File, 'name' | 'size' | 'type'>;
+
+const NON_FIELD_INPUT_TYPES = ['submit', 'button', 'reset', 'image'];
+
+// Hidden inputs are fields too (source, campaign or product IDs), their value is often set by scripts
+const INPUT_FIELD_TYPES: FormFieldType[] = [
+  'text', 'email', 'tel', 'url', 'number', 'range', 'date', 'datetime-local', 'password', 'checkbox', 'radio', 'hidden',
+];
+
+function isTruthyAttribute(value: unknown): boolean {
+  return value === true || value === 'true' || value === '';
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Get the payload key a form input submits under
+ * Mirrors LayerRenderer: explicit name attribute, then element ID, then layer ID
+ */
+export function getFormFieldName(layer: Layer): string {
+  return layer.attributes?.name || layer.settings?.id || layer.id;
+}
+
+/**
+ * Get the plain text of a label layer
+ */
+function getLabelText(layer: Layer): string {
+  const textVariable = layer.variables?.text;
+
+  if (textVariable?.type === 'dynamic_text') {
+    return textVariable.data.content.trim();
+  }
+
+  if (textVariable?.type === 'dynamic_rich_text') {
+    return extractPlainTextFromTiptap(textVariable.data.content).trim();
+  }
+
+  return '';
+}
+
+/**
+ * Build a form definition (inputs, required flags, types, options) from a form layer
+ */
+export function buildFormDefinition(formLayer: Layer): FormDefinition {
+  const fields = new Map<string, Omit<FormFieldDefinition, 'label'>>();
+  const labels = new Map<string, string>(); // element ID -> label text
+  const elementIds = new Map<string, string>(); // field name -> first element ID
+
+  const traverse = (layers: Layer[]) => {
+    for (const layer of layers) {
+      if (layer.settings?.tag === 'label' && layer.attributes?.for) {
+        labels.set(layer.attributes.for, getLabelText(layer));
+      }
+
+      const field = getFieldFromLayer(layer);
+      if (field) {
+        const existing = fields.get(field.name);
+
+        // Radios and checkboxes sharing a name form a single field with several options
+        if (existing?.options && field.options) {
+          existing.options.push(...field.options);
+          existing.required = existing.required || field.required;
+          existing.multiple = existing.type === 'checkbox';
+        } else if (!existing) {
+          fields.set(field.name, field);
+          if (layer.settings?.id) {
+            elementIds.set(field.name, layer.settings.id);
+          }
+        }
+      }
+
+      // Options are read from the select itself
+      if (layer.children && layer.name !== 'select') {
+        traverse(layer.children);
+      }
+    }
+  };
+
+  traverse(formLayer.children || []);
+
+  return {
+    form_id: formLayer.settings?.id || 'unnamed-form',
+    fields: Array.from(fields.values()).map((field) => {
+      const elementId = elementIds.get(field.name);
+      return {
+        ...field,
+        label: (elementId && labels.get(elementId)) || field.name,
+      };
+    }),
+    settings: formLayer.settings?.form || {},
+  };
+}
+
+/**
+ * Get a field definition for an input, textarea or select layer
+ */
+function getFieldFromLayer(layer: Layer): Omit<FormFieldDefinition, 'label'> | null {
+  const attributes = layer.attributes || {};
+  const name = getFormFieldName(layer);
+  const required = isTruthyAttribute(attributes.required);
+
+  if (layer.name === 'textarea') {
+    return {
+      name,
+      type: 'textarea',
+      required,
+      min_length: toOptionalNumber(attributes.minlength),
+      max_length: toOptionalNumber(attributes.maxlength),
+    };
+  }
+
+  if (layer.name === 'select') {
+    const options = (layer.children || [])
+      .filter((child) => child.name === 'option')
+      .map((child) => String(child.attributes?.value ?? ''));
+
+    return {
+      name,
+      type: 'select',
+      required,
+      options,
+      multiple: isTruthyAttribute(attributes.multiple),
+    };
+  }
+
+  if (layer.name !== 'input') {
+    return null;
+  }
+
+  const inputType = String(attributes.type || 'text');
+
+  if (NON_FIELD_INPUT_TYPES.includes(inputType)) {
+    return null;
+  }
+
+  if (inputType === 'file') {
+    const maxSizeMb = Math.min(
+      toOptionalNumber(attributes['data-max-size']) ?? DEFAULT_FORM_FILE_MAX_SIZE_MB,
+      MAX_FORM_FILE_SIZE_MB
+    );
+
+    return {
+      name,
+      type: 'file',
+      required,
+      multiple: isTruthyAttribute(attributes.multiple),
+      accept: parseAcceptAttribute(attributes.accept),
+      max_size: maxSizeMb * 1024 * 1024,
+    };
+  }
+
+  const type = INPUT_FIELD_TYPES.includes(inputType as FormFieldType) ? inputType as FormFieldType : 'text';
+
+  if (type === 'checkbox' || type === 'radio') {
+    return {
+      name,
+      type,
+      required,
+      options: [String(attributes.value || 'true')],
+    };
+  }
+
+  return {
+    name,
+    type,
+    required,
+    min: toOptionalNumber(attributes.min),
+    max: toOptionalNumber(attributes.max),
+    min_length: toOptionalNumber(attributes.minlength),
+    max_length: toOptionalNumber(attributes.maxlength),
+    pattern: typeof attributes.pattern === 'string' && attributes.pattern ? attributes.pattern : undefined,
+  };
+}
+
+/**
+ * Split an accept attribute ("image/*, .pdf") into lowercase tokens
+ */
+function parseAcceptAttribute(accept: unknown): string[] | undefined {
+  if (typeof accept !== 'string') return undefined;
+
+  const tokens = accept
+    .split(',')
+    .map((token) => token.trim().toLowerCase())
+    .filter(Boolean);
+
+  return tokens.length > 0 ? tokens : undefined;
+}
+
+/**
+ * Check a file against accept tokens (extensions, exact MIME types or type/* wildcards)
+ */
+function isAcceptedFile(file: FormFileInfo, accept: string[]): boolean {
+  const filename = file.name.toLowerCase();
+  const mimeType = file.type.toLowerCase();
+
+  return accept.some((token) => {
+    if (token.startsWith('.')) return filename.endsWith(token);
+    if (token.endsWith('/*')) return mimeType.startsWith(token.slice(0, -1));
+    return mimeType === token;
+  });
+}
+
+/**
+ * Validate uploaded files against a file field definition
+ * Returns null if valid, error message if invalid
+ */
+function validateFormFiles(field: FormFieldDefinition, files: FormFileInfo[]): string | null {
+  if (files.length > 1 && !field.multiple) {
+    return 'Only one file is allowed';
+  }
+
+  for (const file of files) {
+    if (field.max_size !== undefined && file.size > field.max_size) {
+      return `${file.name} is larger than ${Math.round(field.max_size / (1024 * 1024))} MB`;
+    }
+
+    if (field.accept && !isAcceptedFile(file, field.accept)) {
+      return `${file.name} is not an allowed file type`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a submitted value counts as empty for a field
+ */
+function isEmptyFieldValue(field: FormFieldDefinition, value: unknown): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value !== 'string') return false;
+  // Unchecked checkboxes are submitted as 'false'
+  if (field.type === 'checkbox' && value === 'false') return true;
+  return value.trim() === '';
+}
+
+/**
+ * Validate a single (non-empty) string value against a field definition
+ * Returns null if valid, error message if invalid
+ */
+function validateFormFieldValue(field: FormFieldDefinition, value: string): string | null {
+  if (value.length > MAX_FORM_VALUE_LENGTH) {
+    return `Must be at most ${MAX_FORM_VALUE_LENGTH} characters`;
+  }
+
+  if (field.options) {
+    if (field.type === 'checkbox' && value === 'false') return null;
+    return field.options.includes(value) ? null : 'Invalid option';
+  }
+
+  const trimmed = value.trim();
+
+  switch (field.type) {
+    case 'email':
+      return validateFieldValue('email', trimmed);
+    case 'tel':
+      return validateFieldValue('phone', trimmed);
+    case 'url': {
+      try {
+        const url = new URL(trimmed);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'Invalid URL';
+      } catch {
+        return 'Invalid URL';
+      }
+    }
+    case 'number':
+    case 'range': {
+      const number = Number(trimmed);
+      if (!Number.isFinite(number)) return 'Must be a number';
+      if (field.min !== undefined && number < field.min) return `Must be at least ${field.min}`;
+      if (field.max !== undefined && number > field.max) return `Must be at most ${field.max}`;
+      return null;
+    }
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(trimmed) && !isNaN(Date.parse(trimmed)) ? null : 'Invalid date';
+    case 'datetime-local':
+      return !isNaN(Date.parse(trimmed)) ? null : 'Invalid date and time';
+  }
+
+  if (field.min_length !== undefined && value.length < field.min_length) {
+    return `Must be at least ${field.min_length} characters`;
+  }
+
+  if (field.max_length !== undefined && value.length > field.max_length) {
+    return `Must be at most ${field.max_length} characters`;
+  }
+
+  if (field.pattern) {
+    try {
+      if (!new RegExp(`^(?:${field.pattern})$`).test(value)) {
+        return 'Invalid format';
+      }
+    } catch {
+      // Ignore invalid patterns set in the builder
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a submission payload against a form definition
+ * Fields the form doesn't define are dropped from the returned values.
+ * File fields are validated against `files` (field name -> uploaded files)
+ * and submit the uploaded file names as their value.
+ */
+export function validateFormSubmission(
+  definition: FormDefinition,
+  payload: Record<string, unknown>,
+  files: Record<string, FormFileInfo[]> = {}
+): { values: Record<string, string | string[]>; errors: FormFieldErrors } {
+  const values: Record<string, string | string[]> = {};
+  const errors: FormFieldErrors = {};
+
+  for (const field of definition.fields) {
+    if (field.type === 'file') {
+      const fieldFiles = files[field.name] || [];
+
+      if (fieldFiles.length === 0) {
+        if (field.required) {
+          errors[field.name] = 'This field is required';
+        }
+        continue;
+      }
+
+      const error = validateFormFiles(field, fieldFiles);
+
+      if (error) {
+        errors[field.name] = error;
+        continue;
+      }
+
+      const filenames = fieldFiles.map((file) => file.name);
+      values[field.name] = field.multiple ? filenames : filenames[0];
+      continue;
+    }
+
+    const value = payload[field.name];
+
+    if (isEmptyFieldValue(field, value)) {
+      if (field.required) {
+        errors[field.name] = 'This field is required';
+      } else if (typeof value === 'string') {
+        values[field.name] = value;
+      }
+      continue;
+    }
+
+    if (Array.isArray(value) && !field.multiple) {
+      errors[field.name] = 'Only one value is allowed';
+      continue;
+    }
+
+    const fieldValues = Array.isArray(value) ? value : [value];
+
+    if (fieldValues.some((fieldValue) => typeof fieldValue !== 'string')) {
+      errors[field.name] = 'Invalid value';
+      continue;
+    }
+
+    const error = (fieldValues as string[])
+      .map((fieldValue) => validateFormFieldValue(field, fieldValue))
+      .find(Boolean);
+
+    if (error) {
+      errors[field.name] = error;
+      continue;
+    }
+
+    values[field.name] = value as string | string[];
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Keep only the uploaded files of the form's file fields
+ * Files sent under names the form doesn't define as file inputs are dropped,
+ * so they are neither validated nor stored.
+ */
+export function pickFormFiles<T extends FormFileInfo>(
+  definition: FormDefinition,
+  files: Record<string, T[]>
+): Record<string, T[]> {
+  const picked: Record<string, T[]> = {};
+
+  for (const field of definition.fields) {
+    if (field.type === 'file' && files[field.name]?.length) {
+      picked[field.name] = files[field.name];
+    }
+  }
+
+  return picked;
+}
@@ -12,7 +12,9 @@ import type { Page } from '@/types';
 import type { CollectionItemWithValues } from '@/types';
 import { resolveInlineVariables, resolveImageUrl } from '@/lib/resolve-cms-variables';
 import { getSettingsByKeys } from '@/lib/repositories/settingsRepository';
-import { getAssetById } from '@/lib/repositories/assetRepository';
+import { getAssetById, getAssetsByIds } from '@/lib/repositories/assetRepository';
+import { BREAKPOINTS_SETTING, type BreakpointSetting } from '@/lib/breakpoint-utils';
+import { FONTS_SETTING, getFontAssetIds, getFontPreloadUrls, normalizeFonts } from '@/lib/font-utils';
 
 /**
  * Global page render settings fetched once per page render
@@ -27,6 +29,8 @@ export interface GlobalPageSettings {
   ycodeBadge?: boolean;
   faviconUrl?: string | null;
   webClipUrl?: string | null;
+  breakpoints?: BreakpointSetting[] | null;
+  fontPreloadUrls?: string[];
 }
 
 /** @deprecated Use GlobalPageSettings instead */
@@ -66,6 +70,8 @@ export const fetchGlobalPageSettings = cache(async (): Promise<GlobalPageSetting
     'ycode_badge',
     'favicon_asset_id',
     'web_clip_asset_id',
+    BREAKPOINTS_SETTING,
+    FONTS_SETTING,
   ]);
 
   // Fetch favicon and web clip asset URLs if IDs are set
@@ -90,6 +96,23 @@ export const fetchGlobalPageSettings = cache(async (): Promise<GlobalPageSetting
     }
   }
 
+  // Resolve the URLs of the custom font files to preload
+  let fontPreloadUrls: string[] = [];
+  const fonts = normalizeFonts(settings[FONTS_SETTING]);
+
+  if (fonts.some((font) => font.files.some((file) => file.preload))) {
+    try {
+      const assets = await getAssetsByIds(getFontAssetIds(fonts), true);
+      const assetUrls: Record<string, string> = {};
+      Object.values(assets).forEach((asset) => {
+        if (asset.public_url) assetUrls[asset.id] = asset.public_url;
+      });
+      fontPreloadUrls = getFontPreloadUrls(fonts, assetUrls);
+    } catch {
+      // Ignore errors fetching font files
+    }
+  }
+
   return {
     googleSiteVerification: settings.google_site_verification || null,
     globalCanonicalUrl: settings.global_canonical_url || null,
@@ -100,6 +123,8 @@ export const fetchGlobalPageSettings = cache(async (): Promise<GlobalPageSetting
     ycodeBadge: settings.ycode_badge ?? true,
     faviconUrl,
     webClipUrl,
+    breakpoints: settings[BREAKPOINTS_SETTING] || null,
+    fontPreloadUrls,
   };
 });
 
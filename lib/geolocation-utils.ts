@@ -0,0 +1,87 @@
+/**
+ * Geolocation Utilities
+ *
+ * Parsing and formatting of geolocation CMS field values.
+ * Values are stored as JSON: {"lat":52.37,"lng":4.89,"label":"Amsterdam"}
+ */
+
+import type { GeolocationValue } from '@/types';
+
+/** Check if coordinates are within valid latitude/longitude ranges */
+export function isValidCoordinates(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng)
+    && lat >= -90 && lat <= 90
+    && lng >= -180 && lng <= 180;
+}
+
+/**
+ * Parse a geolocation value from a stored JSON string or object
+ * @returns The geolocation, or null if the value has no valid coordinates
+ */
+export function parseGeolocationValue(value: unknown): GeolocationValue | null {
+  if (!value) return null;
+
+  let parsed: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const { lat, lng, label } = parsed as Record<string, unknown>;
+  const latitude = typeof lat === 'string' ? parseFloat(lat) : lat;
+  const longitude = typeof lng === 'string' ? parseFloat(lng) : lng;
+
+  if (typeof latitude !== 'number' || typeof longitude !== 'number' || !isValidCoordinates(latitude, longitude)) {
+    return null;
+  }
+
+  return {
+    lat: latitude,
+    lng: longitude,
+    ...(typeof label === 'string' && label.trim() ? { label: label.trim() } : {}),
+  };
+}
+
+/**
+ * Parse a geolocation from free text (CSV imports, pasted values)
+ * Accepts JSON, "lat, lng", "lat, lng, label" and "lat;lng;label".
+ */
+export function parseGeolocationText(text: string): GeolocationValue | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{')) {
+    return parseGeolocationValue(trimmed);
+  }
+
+  const separator = trimmed.includes(';') ? ';' : ',';
+  const [latPart, lngPart, ...labelParts] = trimmed.split(separator);
+  if (latPart === undefined || lngPart === undefined) return null;
+
+  return parseGeolocationValue({
+    lat: parseFloat(latPart),
+    lng: parseFloat(lngPart),
+    label: labelParts.join(separator).trim(),
+  });
+}
+
+/** Serialize a geolocation for storage */
+export function stringifyGeolocationValue(value: GeolocationValue): string {
+  return JSON.stringify({
+    lat: value.lat,
+    lng: value.lng,
+    ...(value.label ? { label: value.label } : {}),
+  });
+}
+
+/** Format a geolocation for display: the label, or the coordinates when unlabeled */
+export function formatGeolocationValue(value: unknown): string {
+  const geolocation = parseGeolocationValue(value);
+  if (!geolocation) return '';
+  return geolocation.label || `${geolocation.lat}, ${geolocation.lng}`;
+}
@@ -6,7 +6,7 @@
  */
 
 import type { CollectionItemWithValues } from '@/types';
-import { formatFieldValue, resolveFieldFromSources } from '@/lib/cms-variables-utils';
+import { formatFieldValue, getFieldTextPath, resolveFieldFromSources } from '@/lib/cms-variables-utils';
 
 /** Regex for matching inline variable tags (use with 'g' flag) */
 export const INLINE_VARIABLE_REGEX = /<ycode-inline-variable>([\s\S]*?)<\/ycode-inline-variable>/g;
@@ -33,7 +33,9 @@ export function resolveInlineVariables(
       const parsed = JSON.parse(variableContent.trim());
 
       if (parsed.type === 'field' && parsed.data?.field_id) {
-        const fieldValue = collectionItem.values[parsed.data.field_id];
+        const fieldId = parsed.data.field_id;
+        const fieldValue = collectionItem.values[getFieldTextPath(fieldId, parsed.data.field_type)]
+          ?? collectionItem.values[fieldId];
         return formatFieldValue(fieldValue, parsed.data.field_type, timezone);
       }
     } catch {
@@ -76,14 +78,15 @@ export function resolveInlineVariablesFromData(
           ? [parsed.data.field_id, ...relationships].join('.')
           : parsed.data.field_id;
 
-        const fieldValue = resolveFieldFromSources(
-          fieldPath,
+        const resolve = (path: string) => resolveFieldFromSources(
+          path,
           parsed.data.source,
           collectionItemData,
           pageCollectionItemData,
           parsed.data.collection_layer_id,
           layerDataMap
         );
+        const fieldValue = resolve(getFieldTextPath(fieldPath, parsed.data.field_type)) ?? resolve(fieldPath);
         return formatFieldValue(fieldValue, parsed.data.field_type, timezone);
       }
     } catch {
@@ -10,6 +10,7 @@ import { resolveInlineVariablesFromData } from '@/lib/inline-variables';
 import { resolveFieldFromSources } from '@/lib/cms-variables-utils';
 import { parseMultiReferenceValue } from '@/lib/collection-utils';
 import { getInheritedValue } from '@/lib/tailwind-class-mapper';
+import { getBreakpoints } from '@/lib/breakpoint-utils';
 import { cloneDeep } from 'lodash';
 import { layerHasLink, hasLinkInTree, hasRichTextLinks } from '@/lib/link-utils';
 
@@ -499,7 +500,7 @@ export function canHaveChildren(layer: Layer, childLayerType?: string): boolean
     'icon', 'image', 'audio', 'video', 'iframe',
     'text', 'span', 'label', 'hr',
     'input', 'textarea', 'select', 'checkbox', 'radio',
-    'htmlEmbed',
+    'htmlEmbed', 'collectionSearch', 'collectionFilter', 'collectionSort', 'siteSearch',
   ];
 
   // Sections cannot contain other sections
@@ -910,10 +911,11 @@ export function getLayerIcon(
   // Other named layers
   if (layer.customName === 'Container') return 'container';
 
-  // Input elements - use type-specific icons for checkbox and radio
+  // Input elements - use type-specific icons for checkbox, radio and file
   if (layer.name === 'input' && layer.attributes?.type) {
     if (layer.attributes.type === 'checkbox') return 'checkbox';
     if (layer.attributes.type === 'radio') return 'radio';
+    if (layer.attributes.type === 'file') return 'upload';
   }
 
   // Fallback to block icon (based on name)
@@ -967,10 +969,11 @@ export function getLayerName(
     return layer.customName;
   }
 
-  // Input elements - use type-specific names for checkbox and radio
+  // Input elements - use type-specific names for checkbox, radio and file
   if (layer.name === 'input' && layer.attributes?.type) {
     if (layer.attributes.type === 'checkbox') return 'Checkbox';
     if (layer.attributes.type === 'radio') return 'Radio';
+    if (layer.attributes.type === 'file') return 'File upload';
   }
 
   return getBlockName(layer.name) || 'Layer';
@@ -1233,7 +1236,8 @@ function evaluateCondition(
 
     // Use source-aware resolution (collection layer data first, then page data)
     const rawValue = resolveFieldFromSources(fieldId, undefined, collectionLayerData, pageCollectionData);
-    const value = String(rawValue ?? '');
+    // Multiple values (multi-reference, multi-option) can be loaded as arrays
+    const value = Array.isArray(rawValue) ? JSON.stringify(rawValue) : String(rawValue ?? '');
     const compareValue = String(condition.value ?? '');
     const fieldType = condition.fieldType || 'text';
 
@@ -1675,13 +1679,12 @@ export function assignOrderClassToNewLayer(
   layers: Layer[],
   parentId: string,
   newLayerId: string,
-  _breakpoint: 'desktop' | 'tablet' | 'mobile'
+  _breakpoint: Breakpoint
 ): Layer[] {
   // Define all responsive breakpoints to check
-  const breakpointConfigs = [
-    { name: 'tablet', prefix: 'max-lg:' },
-    { name: 'mobile', prefix: 'max-md:' },
-  ];
+  const breakpointConfigs = getBreakpoints()
+    .filter(bp => bp.prefix)
+    .map(bp => ({ name: bp.value, prefix: bp.prefix }));
 
   // Helper to normalize classes to string
   const normalizeClasses = (classes: string | string[] | undefined): string => {
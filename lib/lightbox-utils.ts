@@ -0,0 +1,361 @@
+/**
+ * Lightbox utility functions
+ *
+ * Opens images and videos in an accessible full-screen overlay on published
+ * pages. Lightbox layers are plain HTML marked with `data-lightbox` (rendered
+ * by LayerRenderer and layerToHtml), so the runtime is framework-free and only
+ * depends on the DOM - it works for server-rendered and load-more HTML alike.
+ */
+
+import type { Layer, LightboxSettings } from '@/types';
+
+export interface LightboxItem {
+  src: string;
+  type?: 'image' | 'video' | 'embed';
+  caption?: string;
+  poster?: string;
+}
+
+export const DEFAULT_LIGHTBOX_SETTINGS: LightboxSettings = {
+  source: 'children',
+};
+
+/**
+ * Get the lightbox settings of a layer, with defaults for missing values
+ */
+export function getLightboxSettings(layer: Layer): LightboxSettings {
+  return {
+    ...DEFAULT_LIGHTBOX_SETTINGS,
+    ...layer.settings?.lightbox,
+  };
+}
+
+/**
+ * Build lightbox items from the asset IDs of a multi-asset CMS field
+ * @param assetIds - Asset IDs from the field value
+ * @param getUrl - Resolves an asset ID to its public URL
+ */
+export function buildLightboxItems(
+  assetIds: string[],
+  getUrl: (assetId: string) => string | null | undefined
+): LightboxItem[] {
+  const items: LightboxItem[] = [];
+  for (const assetId of assetIds) {
+    const src = getUrl(assetId);
+    if (src) items.push({ src });
+  }
+  return items;
+}
+
+/**
+ * Check if a layer tree contains a lightbox
+ */
+export function hasLightboxLayers(layers: Layer[]): boolean {
+  return layers.some((layer) => layer.name === 'lightbox' || (layer.children ? hasLightboxLayers(layer.children) : false));
+}
+
+/**
+ * Collect the CMS field IDs used by lightboxes in a layer tree
+ * Used to pre-resolve the assets of multi-asset fields for SSR
+ */
+export function getLightboxFieldIds(layers: Layer[]): Set<string> {
+  const fieldIds = new Set<string>();
+
+  const traverse = (layerList: Layer[]) => {
+    for (const layer of layerList) {
+      const settings = layer.settings?.lightbox;
+      if (layer.name === 'lightbox' && settings?.source === 'field' && settings.field?.data.field_id) {
+        fieldIds.add(settings.field.data.field_id);
+      }
+      if (layer.children) traverse(layer.children);
+    }
+  };
+
+  traverse(layers);
+  return fieldIds;
+}
+
+const VIDEO_EXTENSION_PATTERN = /\.(mp4|webm|ogv|ogg|mov|m4v)(\?|#|$)/i;
+
+/** Guess the item type from its URL (CMS files carry no element to inspect) */
+function getItemType(item: LightboxItem): 'image' | 'video' | 'embed' {
+  if (item.type) return item.type;
+  return VIDEO_EXTENSION_PATTERN.test(item.src) ? 'video' : 'image';
+}
+
+/**
+ * Collect the items of a lightbox trigger
+ * Explicit items (CMS field source) take precedence over the media inside it.
+ *
+ * @returns Items and the elements they were read from (for opening at the clicked one)
+ */
+function getTriggerItems(trigger: Element): { items: LightboxItem[]; elements: (Element | null)[] } {
+  const itemsAttr = trigger.getAttribute('data-lightbox-items');
+  if (itemsAttr) {
+    try {
+      const items = (JSON.parse(itemsAttr) as LightboxItem[]).filter((item) => item?.src);
+      return { items, elements: items.map(() => null) };
+    } catch {
+      // Fall back to the media inside the trigger
+    }
+  }
+
+  const items: LightboxItem[] = [];
+  const elements: Element[] = [];
+
+  trigger.querySelectorAll('img, video, iframe').forEach((el) => {
+    if (el.tagName === 'IMG') {
+      const img = el as HTMLImageElement;
+      const src = img.currentSrc || img.src;
+      if (!src) return;
+      items.push({ src, type: 'image', caption: img.alt || undefined });
+    } else if (el.tagName === 'VIDEO') {
+      const video = el as HTMLVideoElement;
+      const src = video.currentSrc || video.src || video.querySelector('source')?.src;
+      if (!src) return;
+      items.push({
+        src,
+        type: 'video',
+        poster: video.poster || undefined,
+        caption: video.getAttribute('aria-label') || video.title || undefined,
+      });
+    } else {
+      const iframe = el as HTMLIFrameElement;
+      if (!iframe.src) return;
+      items.push({ src: iframe.src, type: 'embed', caption: iframe.title || undefined });
+    }
+    elements.push(el);
+  });
+
+  return { items, elements };
+}
+
+const ICONS = {
+  close: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20" aria-hidden="true"><path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z"></path></svg>',
+  prev: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20" aria-hidden="true"><path fill-rule="evenodd" d="M11.78 5.22a.75.75 0 0 1 0 1.06L8.06 10l3.72 3.72a.75.75 0 1 1-1.06 1.06l-4.25-4.25a.75.75 0 0 1 0-1.06l4.25-4.25a.75.75 0 0 1 1.06 0Z" clip-rule="evenodd"></path></svg>',
+  next: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20" aria-hidden="true"><path fill-rule="evenodd" d="M8.22 5.22a.75.75 0 0 1 1.06 0l4.25 4.25a.75.75 0 0 1 0 1.06l-4.25 4.25a.75.75 0 0 1-1.06-1.06L11.94 10 8.22 6.28a.75.75 0 0 1 0-1.06Z" clip-rule="evenodd"></path></svg>',
+};
+
+/** Inline styles - published CSS only contains the classes used by the page */
+const BUTTON_STYLE = 'position:absolute;display:flex;align-items:center;justify-content:center;width:44px;height:44px;border:0;border-radius:9999px;background:rgba(255,255,255,0.12);color:#fff;cursor:pointer;';
+
+function createButton(doc: Document, label: string, icon: string, position: string): HTMLButtonElement {
+  const button = doc.createElement('button');
+  button.type = 'button';
+  button.setAttribute('aria-label', label);
+  button.innerHTML = icon;
+  button.style.cssText = BUTTON_STYLE + position;
+  return button;
+}
+
+/**
+ * Open a gallery of items in the lightbox overlay
+ * @returns Function that closes the overlay
+ */
+export function openLightbox(
+  doc: Document,
+  items: LightboxItem[],
+  startIndex: number = 0,
+  returnFocusTo?: HTMLElement | null
+): () => void {
+  if (items.length === 0) return () => {};
+
+  let index = Math.min(Math.max(startIndex, 0), items.length - 1);
+  const hasGallery = items.length > 1;
+
+  const overlay = doc.createElement('div');
+  overlay.setAttribute('role', 'dialog');
+  overlay.setAttribute('aria-modal', 'true');
+  overlay.setAttribute('aria-label', 'Media viewer');
+  overlay.setAttribute('data-lightbox-overlay', '');
+  overlay.style.cssText = 'position:fixed;inset:0;z-index:10000;display:flex;align-items:center;justify-content:center;padding:64px 72px;background:rgba(0,0,0,0.9);';
+
+  const figure = doc.createElement('figure');
+  figure.style.cssText = 'margin:0;display:flex;flex-direction:column;align-items:center;gap:12px;max-width:100%;max-height:100%;';
+
+  const media = doc.createElement('div');
+  media.style.cssText = 'display:flex;align-items:center;justify-content:center;max-width:100%;max-height:calc(100vh - 160px);';
+
+  const caption = doc.createElement('figcaption');
+  caption.style.cssText = 'color:#fff;font-size:14px;line-height:1.5;text-align:center;max-width:720px;';
+
+  const counter = doc.createElement('div');
+  counter.setAttribute('aria-live', 'polite');
+  counter.style.cssText = 'position:absolute;top:24px;left:24px;color:rgba(255,255,255,0.8);font-size:14px;';
+
+  const closeButton = createButton(doc, 'Close', ICONS.close, 'top:16px;right:16px;');
+  const prevButton = createButton(doc, 'Previous', ICONS.prev, 'left:16px;top:50%;transform:translateY(-50%);');
+  const nextButton = createButton(doc, 'Next', ICONS.next, 'right:16px;top:50%;transform:translateY(-50%);');
+
+  figure.append(media, caption);
+  overlay.append(figure, closeButton);
+  if (hasGallery) {
+    overlay.append(counter, prevButton, nextButton);
+  }
+
+  const render = () => {
+    const item = items[index];
+    const type = getItemType(item);
+    media.replaceChildren();
+
+    let element: HTMLElement;
+    if (type === 'video') {
+      const video = doc.createElement('video');
+      video.src = item.src;
+      video.controls = true;
+      video.autoplay = true;
+      video.playsInline = true;
+      if (item.poster) video.poster = item.poster;
+      element = video;
+    } else if (type === 'embed') {
+      const iframe = doc.createElement('iframe');
+      iframe.src = item.src;
+      iframe.title = item.caption || 'Embedded media';
+      iframe.allow = 'autoplay; fullscreen; picture-in-picture';
+      iframe.allowFullscreen = true;
+      iframe.style.cssText = 'width:min(1280px, calc(100vw - 144px));aspect-ratio:16/9;border:0;';
+      element = iframe;
+    } else {
+      const img = doc.createElement('img');
+      img.src = item.src;
+      img.alt = item.caption || '';
+      element = img;
+    }
+
+    if (type !== 'embed') {
+      element.style.cssText = 'display:block;max-width:100%;max-height:calc(100vh - 160px);object-fit:contain;';
+    }
+
+    media.append(element);
+    caption.textContent = item.caption || '';
+    caption.style.display = item.caption ? '' : 'none';
+    counter.textContent = `${index + 1} / ${items.length}`;
+  };
+
+  const go = (offset: number) => {
+    index = (index + offset + items.length) % items.length;
+    render();
+  };
+
+  const getFocusable = (): HTMLElement[] => Array.from(
+    overlay.querySelectorAll<HTMLElement>('button, video[controls], iframe, [tabindex]:not([tabindex="-1"])')
+  );
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    } else if (event.key === 'ArrowLeft' && hasGallery) {
+      event.preventDefault();
+      go(-1);
+    } else if (event.key === 'ArrowRight' && hasGallery) {
+      event.preventDefault();
+      go(1);
+    } else if (event.key === 'Tab') {
+      // Keep focus inside the dialog
+      const focusable = getFocusable();
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = doc.activeElement;
+
+      if (event.shiftKey && (active === first || !overlay.contains(active))) {
+        event.preventDefault();
+        last?.focus();
+      } else if (!event.shiftKey && (active === last || !overlay.contains(active))) {
+        event.preventDefault();
+        first?.focus();
+      }
+    }
+  };
+
+  const handleOverlayClick = (event: MouseEvent) => {
+    // Clicking the backdrop (not the media) closes the lightbox
+    if (event.target === overlay || event.target === figure || event.target === media) {
+      close();
+    }
+  };
+
+  const previousOverflow = doc.body.style.overflow;
+  const previousFocus = returnFocusTo ?? (doc.activeElement as HTMLElement | null);
+
+  function close() {
+    doc.removeEventListener('keydown', handleKeyDown, true);
+    overlay.remove();
+    doc.body.style.overflow = previousOverflow;
+    previousFocus?.focus?.();
+  }
+
+  closeButton.addEventListener('click', close);
+  prevButton.addEventListener('click', () => go(-1));
+  nextButton.addEventListener('click', () => go(1));
+  overlay.addEventListener('click', handleOverlayClick);
+  doc.addEventListener('keydown', handleKeyDown, true);
+
+  render();
+  doc.body.append(overlay);
+  doc.body.style.overflow = 'hidden';
+  closeButton.focus();
+
+  return close;
+}
+
+/**
+ * Enable lightboxes on a document
+ * Uses event delegation, so lightboxes added later (e.g. by load more) work too.
+ *
+ * @returns Cleanup function that removes the listeners
+ */
+export function initLightboxes(doc: Document): () => void {
+  const open = (trigger: HTMLElement, target: Element | null) => {
+    if (doc.querySelector('[data-lightbox-overlay]')) return;
+
+    // Lightboxes of the same group form one gallery, in page order
+    const group = trigger.getAttribute('data-lightbox');
+    const triggers = group
+      ? Array.from(doc.querySelectorAll<HTMLElement>('[data-lightbox]')).filter((el) => el.getAttribute('data-lightbox') === group)
+      : [trigger];
+
+    const items: LightboxItem[] = [];
+    let startIndex = 0;
+
+    for (const el of triggers) {
+      const { items: triggerItems, elements } = getTriggerItems(el);
+      if (el === trigger) {
+        const clickedIndex = target ? elements.findIndex((mediaEl) => mediaEl && (mediaEl === target || mediaEl.contains(target))) : -1;
+        startIndex = items.length + Math.max(clickedIndex, 0);
+      }
+      items.push(...triggerItems);
+    }
+
+    openLightbox(doc, items, startIndex, trigger);
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    if (event.defaultPrevented || event.button !== 0) return;
+
+    const target = event.target as Element | null;
+    const trigger = target?.closest<HTMLElement>('[data-lightbox]');
+    if (!trigger) return;
+
+    event.preventDefault();
+    open(trigger, target);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+
+    const target = event.target as HTMLElement | null;
+    if (!target?.hasAttribute('data-lightbox')) return;
+
+    event.preventDefault();
+    open(target, null);
+  };
+
+  doc.addEventListener('click', handleClick);
+  doc.addEventListener('keydown', handleKeyDown);
+
+  return () => {
+    doc.removeEventListener('click', handleClick);
+    doc.removeEventListener('keydown', handleKeyDown);
+  };
+}
@@ -0,0 +1,581 @@
+/**
+ * Map utility functions
+ *
+ * Settings, markup attributes and the runtime of map layers. Maps render
+ * raster tiles from any OpenStreetMap-compatible tile server (so self-hosted
+ * tiles work too) without a mapping library: the map layer carries its
+ * location in `data-map-config`, and `mapMarker` layers inside it (including
+ * repeated collection items) carry their coordinates as data attributes.
+ */
+
+import type { FieldVariable, GeolocationValue, Layer, MapMarkerSettings, MapSettings } from '@/types';
+import { isValidCoordinates, parseGeolocationValue } from '@/lib/geolocation-utils';
+
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const DEFAULT_TILE_ATTRIBUTION = '© OpenStreetMap contributors';
+export const DEFAULT_GEOCODER_URL = 'https://nominatim.openstreetmap.org/search';
+
+export const MIN_MAP_ZOOM = 0;
+export const MAX_MAP_ZOOM = 19;
+
+const TILE_SIZE = 256;
+const TILE_SUBDOMAINS = ['a', 'b', 'c'];
+const FIT_PADDING = 48;
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  source: 'static',
+  latitude: 52.3676,
+  longitude: 4.9041,
+  address: 'Amsterdam',
+  zoom: 12,
+  showMarker: true,
+};
+
+export const DEFAULT_MAP_MARKER_SETTINGS: MapMarkerSettings = {
+  source: 'static',
+};
+
+/** Resolves a CMS field binding to its raw value in the current item context */
+export type MapFieldResolver = (field: FieldVariable) => string | undefined;
+
+/** Map options embedded in the markup (data-map-config) */
+interface MapConfig {
+  location: GeolocationValue | null;
+  zoom: number;
+  showMarker: boolean;
+  tileUrl: string;
+  attribution: string;
+}
+
+/**
+ * Get the map settings of a layer, with defaults for missing values
+ */
+export function getMapSettings(layer: Layer): MapSettings {
+  return {
+    ...DEFAULT_MAP_SETTINGS,
+    ...layer.settings?.map,
+  };
+}
+
+/**
+ * Get the marker settings of a layer, with defaults for missing values
+ */
+export function getMapMarkerSettings(layer: Layer): MapMarkerSettings {
+  return {
+    ...DEFAULT_MAP_MARKER_SETTINGS,
+    ...layer.settings?.mapMarker,
+  };
+}
+
+/** Clamp a zoom level to the supported tile range */
+export function clampMapZoom(zoom: number): number {
+  const value = Math.round(Number(zoom));
+  if (!Number.isFinite(value)) return DEFAULT_MAP_SETTINGS.zoom;
+  return Math.min(Math.max(value, MIN_MAP_ZOOM), MAX_MAP_ZOOM);
+}
+
+/**
+ * Resolve a static or CMS-bound position
+ * @returns The geolocation, or null when there are no valid coordinates
+ */
+function resolvePosition(
+  settings: { source: 'static' | 'field'; latitude?: number; longitude?: number; field?: FieldVariable | null },
+  label: string | undefined,
+  resolveField: MapFieldResolver
+): GeolocationValue | null {
+  if (settings.source === 'field') {
+    return settings.field ? parseGeolocationValue(resolveField(settings.field)) : null;
+  }
+
+  const lat = Number(settings.latitude);
+  const lng = Number(settings.longitude);
+  if (settings.latitude === undefined || settings.longitude === undefined || !isValidCoordinates(lat, lng)) {
+    return null;
+  }
+
+  return { lat, lng, ...(label ? { label } : {}) };
+}
+
+/**
+ * Get the data attributes of a map or map marker layer
+ * Shared by the React renderer and the HTML renderer (load more), so both
+ * produce markup the map runtime understands.
+ *
+ * @returns Attributes to add to the element, or null for other layers
+ */
+export function getMapAttributes(layer: Layer, resolveField: MapFieldResolver): Record<string, string> | null {
+  if (layer.name === 'map') {
+    const settings = getMapSettings(layer);
+    const config: MapConfig = {
+      location: resolvePosition(settings, settings.address?.trim() || undefined, resolveField),
+      zoom: clampMapZoom(settings.zoom),
+      showMarker: settings.showMarker,
+      tileUrl: settings.tileUrl?.trim() || DEFAULT_TILE_URL,
+      attribution: settings.tileUrl?.trim() ? (settings.attribution?.trim() || '') : (settings.attribution?.trim() || DEFAULT_TILE_ATTRIBUTION),
+    };
+
+    return {
+      'data-map': layer.id,
+      'data-map-config': JSON.stringify(config),
+    };
+  }
+
+  if (layer.name === 'mapMarker') {
+    const position = resolvePosition(getMapMarkerSettings(layer), undefined, resolveField);
+    return {
+      'data-map-marker': '',
+      ...(position ? { 'data-map-lat': String(position.lat), 'data-map-lng': String(position.lng) } : {}),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build the CSS of a map layer
+ * Marker layers only carry data for the runtime, their content shows in the marker popup.
+ */
+export function buildMapCss(layerId: string): string {
+  return `[data-map="${layerId}"] [data-map-marker]{display:none}`;
+}
+
+/**
+ * Look up the coordinates of an address (OpenStreetMap Nominatim)
+ * Used by the map settings to fill in the coordinates of a static address.
+ */
+export async function geocodeAddress(address: string): Promise<GeolocationValue | null> {
+  const query = address.trim();
+  if (!query) return null;
+
+  const response = await fetch(`${DEFAULT_GEOCODER_URL}?format=jsonv2&limit=1&q=${encodeURIComponent(query)}`, {
+    headers: { Accept: 'application/json' },
+  });
+  if (!response.ok) return null;
+
+  const results = await response.json();
+  const result = Array.isArray(results) ? results[0] : null;
+  if (!result) return null;
+
+  return parseGeolocationValue({ lat: result.lat, lng: result.lon, label: query });
+}
+
+/**
+ * Build a tile URL from an OpenStreetMap-style template
+ * Supports {z}, {x}, {y}, {s} (a/b/c subdomains) and {r} (retina suffix, left empty).
+ */
+export function buildTileUrl(template: string, z: number, x: number, y: number): string {
+  return template
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{s}', TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length])
+    .replace('{r}', '');
+}
+
+/** Web Mercator projection to world pixels at a zoom level */
+function project(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+/** Inverse of project() */
+function unproject(x: number, y: number, zoom: number): { lat: number; lng: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / scale) * 360 - 180,
+  };
+}
+
+/** Largest zoom level (up to maxZoom) at which all points fit in the viewport */
+function getFitZoom(points: GeolocationValue[], width: number, height: number, maxZoom: number): number {
+  for (let zoom = maxZoom; zoom > MIN_MAP_ZOOM; zoom--) {
+    const projected = points.map((point) => project(point.lat, point.lng, zoom));
+    const xs = projected.map((p) => p.x);
+    const ys = projected.map((p) => p.y);
+    if (Math.max(...xs) - Math.min(...xs) <= width - FIT_PADDING * 2
+      && Math.max(...ys) - Math.min(...ys) <= height - FIT_PADDING * 2) {
+      return zoom;
+    }
+  }
+  return MIN_MAP_ZOOM;
+}
+
+const PIN_ICON = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 34" width="28" height="40" aria-hidden="true"><path d="M12 0C5.4 0 0 5.3 0 11.9 0 20.8 12 34 12 34s12-13.2 12-22.1C24 5.3 18.6 0 12 0Z" fill="currentColor"></path><circle cx="12" cy="12" r="4.5" fill="#fff"></circle></svg>';
+
+const CONTROL_BUTTON_STYLE = 'display:flex;align-items:center;justify-content:center;width:32px;height:32px;border:0;background:#fff;color:#111;font:600 18px/1 system-ui,sans-serif;cursor:pointer;';
+
+interface MapPoint extends GeolocationValue {
+  /** Marker layer element, its content is shown in the popup */
+  element?: HTMLElement;
+}
+
+interface MapControllerOptions {
+  /** Panning and zooming are disabled in the editor so clicks select the map layer */
+  interactive: boolean;
+}
+
+/**
+ * Attach the map runtime to a rendered map element
+ * Renders tiles and markers into a generated viewport, fits the view to the
+ * markers, and handles dragging, zoom controls and keyboard navigation.
+ *
+ * @returns Cleanup function that removes the viewport and all listeners
+ */
+export function initMap(root: HTMLElement, { interactive }: MapControllerOptions): () => void {
+  const doc = root.ownerDocument;
+  const view = doc.defaultView;
+  if (!view) return () => {};
+
+  let config: MapConfig;
+  try {
+    config = JSON.parse(root.getAttribute('data-map-config') || '');
+  } catch {
+    return () => {};
+  }
+
+  const viewport = doc.createElement('div');
+  viewport.setAttribute('data-map-viewport', '');
+  viewport.setAttribute('role', 'region');
+  viewport.setAttribute('aria-label', config.location?.label ? `Map of ${config.location.label}` : 'Map');
+  viewport.style.cssText = 'position:absolute;inset:0;overflow:hidden;background:#e5e3df;';
+
+  const tilePane = doc.createElement('div');
+  tilePane.style.cssText = 'position:absolute;inset:0;';
+
+  const markerPane = doc.createElement('div');
+  markerPane.style.cssText = 'position:absolute;inset:0;';
+
+  const attribution = doc.createElement('div');
+  attribution.textContent = config.attribution;
+  attribution.style.cssText = 'position:absolute;right:0;bottom:0;padding:2px 6px;background:rgba(255,255,255,0.8);color:#333;font:11px/1.4 system-ui,sans-serif;';
+  if (!config.attribution) attribution.style.display = 'none';
+
+  const popup = doc.createElement('div');
+  popup.setAttribute('role', 'dialog');
+  popup.style.cssText = 'position:absolute;display:none;transform:translate(-50%,calc(-100% - 46px));max-width:240px;padding:8px 12px;border-radius:6px;background:#fff;color:#111;font:14px/1.4 system-ui,sans-serif;box-shadow:0 2px 12px rgba(0,0,0,0.25);';
+
+  viewport.append(tilePane, markerPane, popup, attribution);
+
+  if (interactive) {
+    viewport.tabIndex = 0;
+    viewport.style.cursor = 'grab';
+    viewport.style.touchAction = 'none';
+
+    const controls = doc.createElement('div');
+    controls.style.cssText = 'position:absolute;top:12px;right:12px;display:flex;flex-direction:column;gap:1px;border-radius:6px;overflow:hidden;box-shadow:0 1px 4px rgba(0,0,0,0.3);background:#ccc;';
+
+    const zoomInButton = doc.createElement('button');
+    zoomInButton.type = 'button';
+    zoomInButton.textContent = '+';
+    zoomInButton.setAttribute('aria-label', 'Zoom in');
+    zoomInButton.style.cssText = CONTROL_BUTTON_STYLE;
+    zoomInButton.addEventListener('click', () => zoomTo(zoom + 1));
+
+    const zoomOutButton = doc.createElement('button');
+    zoomOutButton.type = 'button';
+    zoomOutButton.textContent = '−';
+    zoomOutButton.setAttribute('aria-label', 'Zoom out');
+    zoomOutButton.style.cssText = CONTROL_BUTTON_STYLE;
+    zoomOutButton.addEventListener('click', () => zoomTo(zoom - 1));
+
+    controls.append(zoomInButton, zoomOutButton);
+    viewport.append(controls);
+  } else {
+    viewport.style.pointerEvents = 'none';
+  }
+
+  root.append(viewport);
+
+  const tiles = new Map<string, HTMLImageElement>();
+  let points: MapPoint[] = [];
+  let pins: HTMLButtonElement[] = [];
+  let openPoint: MapPoint | null = null;
+  let center = config.location ?? { lat: 20, lng: 0 };
+  let zoom = config.location ? config.zoom : 1;
+  let hasUserMoved = false;
+
+  // Pixel offset of the viewport's top-left corner in world pixels
+  const getOrigin = () => {
+    const c = project(center.lat, center.lng, zoom);
+    return { left: c.x - viewport.clientWidth / 2, top: c.y - viewport.clientHeight / 2 };
+  };
+
+  const render = () => {
+    const width = viewport.clientWidth;
+    const height = viewport.clientHeight;
+    if (!width || !height) return;
+
+    const { left, top } = getOrigin();
+    const count = 2 ** zoom;
+    const wanted = new Set<string>();
+
+    const minX = Math.floor(left / TILE_SIZE);
+    const maxX = Math.floor((left + width - 1) / TILE_SIZE);
+    const minY = Math.max(Math.floor(top / TILE_SIZE), 0);
+    const maxY = Math.min(Math.floor((top + height - 1) / TILE_SIZE), count - 1);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const key = `${zoom}/${x}/${y}`;
+        wanted.add(key);
+
+        let tile = tiles.get(key);
+        if (!tile) {
+          tile = doc.createElement('img');
+          tile.alt = '';
+          tile.draggable = false;
+          tile.src = buildTileUrl(config.tileUrl, zoom, ((x % count) + count) % count, y);
+          tile.style.cssText = `position:absolute;width:${TILE_SIZE}px;height:${TILE_SIZE}px;max-width:none;user-select:none;pointer-events:none;`;
+          tilePane.append(tile);
+          tiles.set(key, tile);
+        }
+        tile.style.left = `${Math.round(x * TILE_SIZE - left)}px`;
+        tile.style.top = `${Math.round(y * TILE_SIZE - top)}px`;
+      }
+    }
+
+    tiles.forEach((tile, key) => {
+      if (!wanted.has(key)) {
+        tile.remove();
+        tiles.delete(key);
+      }
+    });
+
+    points.forEach((point, index) => {
+      const p = project(point.lat, point.lng, zoom);
+      pins[index].style.left = `${Math.round(p.x - left)}px`;
+      pins[index].style.top = `${Math.round(p.y - top)}px`;
+    });
+
+    if (openPoint) {
+      const p = project(openPoint.lat, openPoint.lng, zoom);
+      popup.style.left = `${Math.round(p.x - left)}px`;
+      popup.style.top = `${Math.round(p.y - top)}px`;
+    }
+  };
+
+  const closePopup = () => {
+    openPoint = null;
+    popup.style.display = 'none';
+    popup.replaceChildren();
+  };
+
+  const openPopup = (point: MapPoint) => {
+    popup.replaceChildren();
+
+    if (point.element && point.element.childNodes.length > 0) {
+      point.element.childNodes.forEach((node) => {
+        const clone = node.cloneNode(true);
+        // Copies must not be mistaken for the layer elements
+        if (clone instanceof view.Element) {
+          [clone, ...Array.from(clone.querySelectorAll('[id], [data-layer-id]'))].forEach((el) => {
+            el.removeAttribute('id');
+            el.removeAttribute('data-layer-id');
+          });
+        }
+        popup.append(clone);
+      });
+    } else if (point.label) {
+      popup.textContent = point.label;
+    } else {
+      return;
+    }
+
+    openPoint = point;
+    popup.style.display = '';
+    render();
+  };
+
+  // Marker layers of this map only (not of maps nested inside its markers)
+  const readPoints = (): MapPoint[] => {
+    const result: MapPoint[] = [];
+    if (config.showMarker && config.location) {
+      result.push({ ...config.location });
+    }
+
+    root.querySelectorAll<HTMLElement>('[data-map-marker]').forEach((element) => {
+      if (element.closest('[data-map]') !== root) return;
+
+      const lat = parseFloat(element.getAttribute('data-map-lat') || '');
+      const lng = parseFloat(element.getAttribute('data-map-lng') || '');
+      if (!isValidCoordinates(lat, lng)) return;
+
+      result.push({ lat, lng, label: element.textContent?.trim() || undefined, element });
+    });
+
+    return result;
+  };
+
+  const buildPins = () => {
+    closePopup();
+    pins.forEach((pin) => pin.remove());
+    points = readPoints();
+
+    pins = points.map((point) => {
+      const pin = doc.createElement('button');
+      pin.type = 'button';
+      pin.innerHTML = PIN_ICON;
+      pin.setAttribute('aria-label', point.label || 'Location');
+      pin.style.cssText = 'position:absolute;display:block;padding:0;border:0;background:none;color:#e11d48;transform:translate(-50%,-100%);cursor:pointer;line-height:0;';
+      pin.addEventListener('click', (event) => {
+        event.stopPropagation();
+        if (openPoint === point) {
+          closePopup();
+        } else {
+          openPopup(point);
+        }
+      });
+      markerPane.append(pin);
+      return pin;
+    });
+  };
+
+  // Fit the view to the markers (or center on the location) until the visitor moves the map
+  const resetView = () => {
+    if (hasUserMoved) return;
+
+    const markerPoints = points.filter((point) => point.element);
+    const fitPoints = config.location ? [config.location, ...markerPoints] : markerPoints;
+
+    if (fitPoints.length > 1 && viewport.clientWidth && viewport.clientHeight) {
+      const lats = fitPoints.map((p) => p.lat);
+      const lngs = fitPoints.map((p) => p.lng);
+      zoom = getFitZoom(fitPoints, viewport.clientWidth, viewport.clientHeight, config.zoom);
+
+      const topLeft = project(Math.max(...lats), Math.min(...lngs), zoom);
+      const bottomRight = project(Math.min(...lats), Math.max(...lngs), zoom);
+      center = unproject((topLeft.x + bottomRight.x) / 2, (topLeft.y + bottomRight.y) / 2, zoom);
+    } else if (fitPoints.length === 1) {
+      center = fitPoints[0];
+      zoom = config.zoom;
+    }
+  };
+
+  const panBy = (dx: number, dy: number) => {
+    const c = project(center.lat, center.lng, zoom);
+    center = unproject(c.x + dx, c.y + dy, zoom);
+    hasUserMoved = true;
+    render();
+  };
+
+  // Zoom keeping the given viewport point (default: the center) in place
+  function zoomTo(nextZoom: number, pointX?: number, pointY?: number) {
+    const targetZoom = Math.min(Math.max(nextZoom, MIN_MAP_ZOOM), MAX_MAP_ZOOM);
+    if (targetZoom === zoom) return;
+
+    const width = viewport.clientWidth;
+    const height = viewport.clientHeight;
+    const px = pointX ?? width / 2;
+    const py = pointY ?? height / 2;
+    const { left, top } = getOrigin();
+    const factor = 2 ** (targetZoom - zoom);
+
+    center = unproject((left + px) * factor - px + width / 2, (top + py) * factor - py + height / 2, targetZoom);
+    zoom = targetZoom;
+    hasUserMoved = true;
+    render();
+  }
+
+  // Dragging
+  let drag: { x: number; y: number; pointerId: number } | null = null;
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (event.button !== 0 || (event.target as Element).closest('button')) return;
+    drag = { x: event.clientX, y: event.clientY, pointerId: event.pointerId };
+    viewport.setPointerCapture(event.pointerId);
+    viewport.style.cursor = 'grabbing';
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    panBy(drag.x - event.clientX, drag.y - event.clientY);
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    drag = null;
+    viewport.style.cursor = 'grab';
+  };
+
+  const handleDoubleClick = (event: MouseEvent) => {
+    if ((event.target as Element).closest('button')) return;
+    const rect = viewport.getBoundingClientRect();
+    zoomTo(zoom + 1, event.clientX - rect.left, event.clientY - rect.top);
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    if (!popup.contains(event.target as Node)) closePopup();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.target !== viewport && event.key !== 'Escape') return;
+
+    const step = 80;
+    switch (event.key) {
+      case 'ArrowLeft': panBy(-step, 0); break;
+      case 'ArrowRight': panBy(step, 0); break;
+      case 'ArrowUp': panBy(0, -step); break;
+      case 'ArrowDown': panBy(0, step); break;
+      case '+':
+      case '=': zoomTo(zoom + 1); break;
+      case '-':
+      case '_': zoomTo(zoom - 1); break;
+      case 'Escape':
+        if (!openPoint) return;
+        closePopup();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  if (interactive) {
+    viewport.addEventListener('pointerdown', handlePointerDown);
+    viewport.addEventListener('pointermove', handlePointerMove);
+    viewport.addEventListener('pointerup', handlePointerUp);
+    viewport.addEventListener('pointercancel', handlePointerUp);
+    viewport.addEventListener('dblclick', handleDoubleClick);
+    viewport.addEventListener('click', handleClick);
+    viewport.addEventListener('keydown', handleKeyDown);
+  }
+
+  buildPins();
+  resetView();
+  render();
+
+  const resizeObserver = view.ResizeObserver ? new view.ResizeObserver(() => {
+    resetView();
+    render();
+  }) : null;
+  resizeObserver?.observe(viewport);
+
+  // Markers change when CMS items load or marker layers are edited
+  const mutationObserver = new view.MutationObserver((records) => {
+    if (records.every((record) => viewport.contains(record.target))) return;
+    buildPins();
+    resetView();
+    render();
+  });
+  mutationObserver.observe(root, {
+    childList: true,
+    subtree: true,
+    characterData: true,
+    attributes: true,
+    attributeFilter: ['data-map-lat', 'data-map-lng'],
+  });
+
+  return () => {
+    resizeObserver?.disconnect();
+    mutationObserver.disconnect();
+    viewport.remove();
+  };
+}
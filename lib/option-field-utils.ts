@@ -0,0 +1,145 @@
+/**
+ * Option Field Utilities
+ *
+ * Option fields have a managed list of choices (label, value, color) stored
+ * in field.data.options. Items store the value of the selected option, or a
+ * JSON array of values when the field allows multiple choices.
+ *
+ * Labels and colors are exposed to bindings as virtual values next to the
+ * stored value (e.g. "fieldId.__option_label"), added when item values are
+ * resolved for rendering.
+ */
+
+import type { CollectionField, CollectionFieldOption } from '@/types';
+import { sanitizeSlug } from '@/lib/page-utils';
+
+/** Virtual value key with the labels of the selected options */
+export const OPTION_LABEL_KEY = '__option_label';
+
+/** Virtual value key with the color of the (first) selected option */
+export const OPTION_COLOR_KEY = '__option_color';
+
+/** Get the choices of an option field */
+export function getFieldOptions(field: CollectionField): CollectionFieldOption[] {
+  return field.data?.options || [];
+}
+
+/** Check if an option field allows multiple choices */
+export function isMultipleOptionField(field: CollectionField): boolean {
+  return field.type === 'option' && field.data?.multiple === true;
+}
+
+/** Generate an option value from its label */
+export function getOptionValueFromLabel(label: string): string {
+  return sanitizeSlug(label) || label.trim().toLowerCase();
+}
+
+/**
+ * Parse the selected option values of an item value
+ * Accepts a single value, an array or a JSON array string
+ */
+export function parseOptionValues(value: unknown): string[] {
+  if (value === null || value === undefined || value === '') return [];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string' && v !== '');
+
+  const text = String(value).trim();
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string' && v !== '') : [];
+    } catch {
+      return [text];
+    }
+  }
+
+  return text ? [text] : [];
+}
+
+/** Serialize selected option values for storage */
+export function stringifyOptionValues(field: CollectionField, values: string[]): string | null {
+  if (values.length === 0) return null;
+  return isMultipleOptionField(field) ? JSON.stringify(values) : values[0];
+}
+
+/** Find the option with a value (or a label, case-insensitive) */
+export function findFieldOption(field: CollectionField, valueOrLabel: string): CollectionFieldOption | undefined {
+  const options = getFieldOptions(field);
+  const normalized = valueOrLabel.trim().toLowerCase();
+  return options.find(option => option.value === valueOrLabel)
+    || options.find(option => option.value.toLowerCase() === normalized || option.label.trim().toLowerCase() === normalized);
+}
+
+/** Get the options selected by an item value (unknown values are skipped) */
+export function getSelectedOptions(field: CollectionField, value: unknown): CollectionFieldOption[] {
+  const options = getFieldOptions(field);
+  return parseOptionValues(value)
+    .map(optionValue => options.find(option => option.value === optionValue))
+    .filter((option): option is CollectionFieldOption => !!option);
+}
+
+/** Format an item value as the labels of the selected options */
+export function formatOptionValue(field: CollectionField, value: unknown): string {
+  return getSelectedOptions(field, value).map(option => option.label).join(', ');
+}
+
+/**
+ * Normalize an option value from external input (API, CSV)
+ * Labels are matched to their values; unknown entries are kept so validation can report them.
+ * Multiple values can be given as an array, a JSON array or comma-separated.
+ */
+export function normalizeOptionInput(field: CollectionField, input: unknown): string | null {
+  let entries = parseOptionValues(input);
+  if (entries.length === 1 && isMultipleOptionField(field) && !findFieldOption(field, entries[0])) {
+    entries = entries[0].split(',').map(entry => entry.trim()).filter(Boolean);
+  }
+
+  const values = entries.map(entry => findFieldOption(field, entry)?.value ?? entry);
+  return stringifyOptionValues(field, Array.from(new Set(values)));
+}
+
+/**
+ * Normalize the values of option fields in a values map keyed by field ID
+ */
+export function normalizeOptionFieldValues<T>(
+  values: Record<string, T>,
+  fields: CollectionField[]
+): Record<string, T | string | null> {
+  const normalized: Record<string, T | string | null> = { ...values };
+
+  for (const field of fields) {
+    if (field.type !== 'option' || !(field.id in values)) continue;
+    normalized[field.id] = normalizeOptionInput(field, values[field.id]);
+  }
+
+  return normalized;
+}
+
+/**
+ * Build the virtual label and color values of option fields
+ * @param pathPrefix - Relationship path of the item (for referenced items)
+ * @returns Values keyed by "<path>.<fieldId>.__option_label" / "...__option_color"
+ */
+export function getOptionDisplayValues(
+  values: Record<string, unknown>,
+  fields: CollectionField[],
+  pathPrefix: string = ''
+): Record<string, string> {
+  const displayValues: Record<string, string> = {};
+
+  for (const field of fields) {
+    if (field.type !== 'option') continue;
+
+    const selected = getSelectedOptions(field, values[field.id]);
+    if (selected.length === 0) continue;
+
+    const path = pathPrefix ? `${pathPrefix}.${field.id}` : field.id;
+    displayValues[`${path}.${OPTION_LABEL_KEY}`] = selected.map(option => option.label).join(', ');
+
+    const color = selected.find(option => option.color)?.color;
+    if (color) {
+      displayValues[`${path}.${OPTION_COLOR_KEY}`] = color;
+    }
+  }
+
+  return displayValues;
+}
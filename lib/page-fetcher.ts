@@ -2,8 +2,8 @@ import { getSupabaseAdmin } from '@/lib/supabase-server';
 import { buildSlugPath, buildDynamicPageUrl, buildLocalizedSlugPath, buildLocalizedDynamicPageUrl, detectLocaleFromPath, matchPageWithTranslatedSlugs, matchDynamicPageWithTranslatedSlugs } from '@/lib/page-utils';
 import { getItemWithValues, getItemsWithValues } from '@/lib/repositories/collectionItemRepository';
 import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
-import type { Page, PageFolder, PageLayers, Component, CollectionItemWithValues, CollectionField, Layer, CollectionPaginationMeta, Translation, Locale } from '@/types';
-import { getCollectionVariable, resolveFieldValue, evaluateVisibility } from '@/lib/layer-utils';
+import type { Page, PageFolder, PageLayers, Component, CollectionItemWithValues, CollectionField, Layer, CollectionPaginationMeta, CollectionQuery, Translation, Locale } from '@/types';
+import { getCollectionVariable, resolveFieldValue, evaluateVisibility, applyLimitOffset } from '@/lib/layer-utils';
 import { isFieldVariable, isAssetVariable, createDynamicTextVariable, createDynamicRichTextVariable, createAssetVariable, getDynamicTextContent, getVariableStringValue, getAssetId, resolveDesignStyles } from '@/lib/variable-utils';
 import { generateImageSrcset, getImageSizes, getOptimizedImageUrl } from '@/lib/asset-utils';
 import { resolveComponents } from '@/lib/resolve-components';
@@ -16,8 +16,14 @@ export interface PaginationContext {
   pageNumbers?: Record<string, number>;
   // Default page number for all collection layers (from URL ?page=N)
   defaultPage?: number;
+  // Map of layerId -> visitor search, filters and sort (from URL q_, f_ and s_ params)
+  collectionQueries?: Record<string, CollectionQuery>;
+  // Site search text of search results layers (from URL ?q= param)
+  siteSearch?: string;
+  // Locale of the page, for site search results
+  localeCode?: string | null;
 }
-import { resolveFieldLinkValue } from '@/lib/link-utils';
+import { createUrlLinkSettings, resolveFieldLinkValue } from '@/lib/link-utils';
 import { resolveInlineVariables, resolveInlineVariablesFromData } from '@/lib/inline-variables';
 import { buildLayerTranslationKey, getTranslationByKey, hasValidTranslationValue, getTranslationValue } from '@/lib/localisation-utils';
 import { formatDateFieldsInItemValues } from '@/lib/date-format-utils';
@@ -26,7 +32,16 @@ import { parseMultiAssetFieldValue, buildAssetVirtualValues } from '@/lib/multi-
 import { parseMultiReferenceValue } from '@/lib/collection-utils';
 import { getAssetsByIds } from '@/lib/repositories/assetRepository';
 import { isVirtualAssetField } from '@/lib/collection-field-utils';
-import type { FieldVariable, AssetVariable, DynamicTextVariable } from '@/types';
+import { buildSliderCss, getSliderPart, getSliderSettings } from '@/lib/slider-utils';
+import { buildLightboxItems, getLightboxSettings, getLightboxFieldIds } from '@/lib/lightbox-utils';
+import { COLOR_SCHEME_TOGGLE_ATTRIBUTE } from '@/lib/color-scheme-utils';
+import { buildMapCss, getMapAttributes } from '@/lib/map-utils';
+import { getOptionDisplayValues, formatOptionValue } from '@/lib/option-field-utils';
+import { buildCollectionQueryFilters, buildCollectionQuerySearch, getCollectionControlSettings, getCollectionControlValue, getCollectionFilterOptions, getCollectionSortOptions, getCollectionQueryControls, isCollectionQueryActive, restrictCollectionQuery } from '@/lib/collection-query-utils';
+import { extractPlainTextFromTiptap } from '@/lib/tiptap-utils';
+import { SEARCH_RESULT_KEYS, buildSearchExcerptContent, getSearchResultsSettings } from '@/lib/site-search-utils';
+import { searchSite } from '@/lib/services/searchIndexService';
+import type { FieldVariable, AssetVariable, DynamicTextVariable, SiteSearchHit } from '@/types';
 import type { DesignColorVariable } from '@/types';
 
 /**
@@ -282,6 +297,11 @@ export async function fetchPageByPath(
       translations = trans;
     }
 
+    // Site search results are searched in the locale of the page
+    const localizedPaginationContext: PaginationContext | undefined = paginationContext
+      ? { ...paginationContext, localeCode: detectedLocale?.code ?? null }
+      : undefined;
+
     // Get all pages and folders to match the full path
     const { data: pages } = await supabase
       .from('pages')
@@ -454,7 +474,7 @@ export async function fetchPageByPath(
             // The isPublished parameter controls which collection items to fetch
             // Pass enhanced values so nested collections can filter based on dynamic page data
             let resolvedLayers = layersWithInjectedData.length > 0
-              ? await resolveCollectionLayers(layersWithInjectedData, isPublished, enhancedItemValues, paginationContext, translations)
+              ? await resolveCollectionLayers(layersWithInjectedData, isPublished, enhancedItemValues, localizedPaginationContext, translations)
               : [];
 
             // Apply translations (components already resolved above)
@@ -510,7 +530,7 @@ export async function fetchPageByPath(
     // Resolve collection layers server-side (for both draft and published)
     // The isPublished parameter controls which collection items to fetch
     let resolvedLayers = layersWithComponents.length > 0
-      ? await resolveCollectionLayers(layersWithComponents, isPublished, undefined, paginationContext, translations)
+      ? await resolveCollectionLayers(layersWithComponents, isPublished, undefined, localizedPaginationContext, translations)
       : [];
 
     // Apply translations (components already resolved above)
@@ -907,7 +927,8 @@ async function resolveReferenceFields(
   pathPrefix: string = '',
   visited: Set<string> = new Set()
 ): Promise<Record<string, string>> {
-  const enhancedValues = { ...itemValues };
+  // Add option labels and colors (e.g. "optionFieldId.__option_label")
+  const enhancedValues = { ...itemValues, ...getOptionDisplayValues(itemValues, fields, pathPrefix) };
 
   // Find reference fields (single reference only - multi-reference is used for collection sources)
   const referenceFields = fields.filter(
@@ -1366,6 +1387,14 @@ export async function resolveCollectionLayers(
   // Fetch timezone setting for date formatting
   const timezone = (await getSettingByKey('timezone') as string | null) || 'UTC';
 
+  // Visitor queries from the URL, limited to what the controls on the page allow
+  const queryControlsByLayer = getCollectionQueryControls(layers);
+  const collectionQueries: Record<string, CollectionQuery> = {};
+  for (const [layerId, query] of Object.entries(paginationContext?.collectionQueries || {})) {
+    const restricted = restrictCollectionQuery(query, queryControlsByLayer[layerId]);
+    if (restricted) collectionQueries[layerId] = restricted;
+  }
+
   const resolveLayer = async (
     layer: Layer,
     itemValues?: Record<string, string>,
@@ -1491,10 +1520,15 @@ export async function resolveCollectionLayers(
             offset = collectionVariable.offset;
           }
 
+          // Visitor search, filters and sort from the URL (see collection-query-utils)
+          const collectionQuery = collectionQueries[layer.id];
+          const query = isCollectionQueryActive(collectionQuery) ? collectionQuery : undefined;
+
           // Build filters for the query
+          // With a visitor query, all items are fetched and paginated after filtering
           const filters: any = {};
-          if (limit) filters.limit = limit;
-          if (offset) filters.offset = offset;
+          if (limit && !query) filters.limit = limit;
+          if (offset && !query) filters.offset = offset;
 
           // For reference/multi-reference fields, get allowed item IDs BEFORE fetching
           // This ensures pagination counts and offsets are correct for the filtered set
@@ -1527,7 +1561,7 @@ export async function resolveCollectionLayers(
             filters
           );
           let items = fetchResult.items;
-          const totalItems = fetchResult.total;
+          let totalItems = fetchResult.total;
 
           // Apply collection filters (evaluate against each item's own values)
           const collectionFilters = collectionVariable.filters;
@@ -1541,33 +1575,24 @@ export async function resolveCollectionLayers(
             );
           }
 
-          // Apply sorting if specified (since API doesn't handle sortBy yet)
-          let sortedItems = items;
-          if (sortBy && sortBy !== 'none') {
-            if (sortBy === 'manual') {
-              sortedItems = items.sort((a, b) => a.manual_order - b.manual_order);
-            } else if (sortBy === 'random') {
-              sortedItems = items.sort(() => Math.random() - 0.5);
-            } else {
-              // Field-based sorting
-              sortedItems = items.sort((a, b) => {
-                const aValue = a.values[sortBy] || '';
-                const bValue = b.values[sortBy] || '';
-                const aNum = parseFloat(String(aValue));
-                const bNum = parseFloat(String(bValue));
-
-                if (!isNaN(aNum) && !isNaN(bNum)) {
-                  return sortOrder === 'desc' ? bNum - aNum : aNum - bNum;
-                }
+          // Fetch collection fields for reference resolution
+          const collectionFields = await getFieldsByCollectionId(collectionVariable.id, isPublished);
 
-                const comparison = String(aValue).localeCompare(String(bValue));
-                return sortOrder === 'desc' ? -comparison : comparison;
-              });
-            }
+          // Apply visitor search and filters before pagination
+          if (query) {
+            items = applyCollectionQuery(items, query, collectionFields);
+            totalItems = items.length;
           }
 
-          // Fetch collection fields for reference resolution
-          const collectionFields = await getFieldsByCollectionId(collectionVariable.id, isPublished);
+          // Apply sorting if specified (since API doesn't handle sortBy yet)
+          // A visitor sort replaces the sort of the collection layer
+          const effectiveSortBy = query?.sortBy || sortBy;
+          const effectiveSortOrder = query?.sortBy ? query.sortOrder : sortOrder;
+          let sortedItems = sortCollectionItems(items, effectiveSortBy, effectiveSortOrder);
+
+          if (query) {
+            sortedItems = applyLimitOffset(sortedItems, limit, offset);
+          }
 
           // Find slug field for building collection item URLs
           const slugField = collectionFields.find(f => f.key === 'slug');
@@ -1651,6 +1676,9 @@ export async function resolveCollectionLayers(
               itemIds: allowedItemIds, // For multi-reference filtering in load_more
               // Store the original layer template for load_more client-side rendering
               layerTemplate: paginationConfig.mode === 'load_more' ? layer.children : undefined,
+              // Load more fetches with the same visitor query, collection filters and sort
+              query: query ? { ...query, sortBy: effectiveSortBy, sortOrder: effectiveSortOrder } : undefined,
+              filters: query ? collectionFilters : undefined,
             };
           }
 
@@ -1736,14 +1764,259 @@ export async function resolveCollectionLayers(
 
   const resultWithPagination = updatePaginationSiblings(result);
 
+  // Resolve the choices and selected values of search, filter and sort controls
+  const resultWithControls = await resolveCollectionControls(resultWithPagination, isPublished, collectionQueries);
+
+  // Fill search results layers with the hits of the site search
+  const resultWithSearch = await resolveSearchResultsLayers(resultWithControls, paginationContext);
+
   // Third pass: Filter layers by conditional visibility
   // We need to compute collection counts first, then filter
   // parentItemValues is the page collection data for dynamic pages
-  const filteredResult = filterByVisibility(resultWithPagination, undefined, parentItemValues);
+  const filteredResult = filterByVisibility(resultWithSearch, undefined, parentItemValues);
 
   return filteredResult;
 }
 
+/**
+ * Sort collection items by a field, manual order or randomly
+ * @param sortBy - 'none', 'manual', 'random' or a field ID
+ */
+export function sortCollectionItems(
+  items: CollectionItemWithValues[],
+  sortBy?: string,
+  sortOrder?: 'asc' | 'desc'
+): CollectionItemWithValues[] {
+  if (!sortBy || sortBy === 'none') return items;
+
+  if (sortBy === 'manual') {
+    return items.sort((a, b) => a.manual_order - b.manual_order);
+  }
+
+  if (sortBy === 'random') {
+    return items.sort(() => Math.random() - 0.5);
+  }
+
+  // Field-based sorting
+  return items.sort((a, b) => {
+    const aValue = a.values[sortBy] || '';
+    const bValue = b.values[sortBy] || '';
+    const aNum = parseFloat(String(aValue));
+    const bNum = parseFloat(String(bValue));
+
+    if (!isNaN(aNum) && !isNaN(bNum)) {
+      return sortOrder === 'desc' ? bNum - aNum : aNum - bNum;
+    }
+
+    const comparison = String(aValue).localeCompare(String(bValue));
+    return sortOrder === 'desc' ? -comparison : comparison;
+  });
+}
+
+/**
+ * Get the text of item values to search (rich text as plain text, options as labels)
+ */
+function getSearchableValues(
+  values: Record<string, string>,
+  fields: CollectionField[]
+): Record<string, string> {
+  const searchableValues: Record<string, string> = { ...values };
+
+  for (const field of fields) {
+    const value = values[field.id];
+    if (!value) continue;
+
+    if (field.type === 'rich_text') {
+      try {
+        searchableValues[field.id] = extractPlainTextFromTiptap(typeof value === 'string' ? JSON.parse(value) : value);
+      } catch {
+        // Plain text value
+      }
+    } else if (field.type === 'option') {
+      searchableValues[field.id] = formatOptionValue(field, value);
+    }
+  }
+
+  return searchableValues;
+}
+
+/**
+ * Apply visitor search and filters to collection items
+ * Uses the same condition evaluation as collection filters.
+ */
+export function applyCollectionQuery(
+  items: CollectionItemWithValues[],
+  query: CollectionQuery,
+  fields: CollectionField[]
+): CollectionItemWithValues[] {
+  const queryFilters = buildCollectionQueryFilters(query, fields);
+  const querySearch = buildCollectionQuerySearch(query, fields);
+
+  return items.filter(item =>
+    evaluateVisibility(queryFilters, {
+      collectionLayerData: item.values,
+      pageCollectionData: null,
+      pageCollectionCounts: {},
+    })
+    && evaluateVisibility(querySearch, {
+      collectionLayerData: getSearchableValues(item.values, fields),
+      pageCollectionData: null,
+      pageCollectionCounts: {},
+    })
+  );
+}
+
+/**
+ * Resolve the choices of filter and sort controls and the values selected in the URL
+ * Choices of filter controls come from the filtered field (options, referenced items or distinct values).
+ */
+async function resolveCollectionControls(
+  layers: Layer[],
+  isPublished: boolean,
+  collectionQueries?: Record<string, CollectionQuery>
+): Promise<Layer[]> {
+  const fieldsCache = new Map<string, Promise<CollectionField[]>>();
+  const itemsCache = new Map<string, Promise<CollectionItemWithValues[]>>();
+
+  const getFields = (collectionId: string) => {
+    if (!fieldsCache.has(collectionId)) {
+      fieldsCache.set(collectionId, getFieldsByCollectionId(collectionId, isPublished));
+    }
+    return fieldsCache.get(collectionId)!;
+  };
+  const getItems = (collectionId: string) => {
+    if (!itemsCache.has(collectionId)) {
+      itemsCache.set(collectionId, getItemsWithValues(collectionId, isPublished).then(result => result.items));
+    }
+    return itemsCache.get(collectionId)!;
+  };
+
+  const resolveLayer = async (layer: Layer): Promise<Layer> => {
+    const children = layer.children ? await Promise.all(layer.children.map(resolveLayer)) : undefined;
+    const settings = getCollectionControlSettings(layer);
+    if (!settings) {
+      return children ? { ...layer, children } : layer;
+    }
+
+    const query = settings.collectionLayerId ? collectionQueries?.[settings.collectionLayerId] : undefined;
+    let options: { label: string; value: string }[] = [];
+
+    try {
+      if (layer.name === 'collectionSort') {
+        options = getCollectionSortOptions(settings);
+      } else if (layer.name === 'collectionFilter' && settings.collectionId && settings.fieldId) {
+        const fields = await getFields(settings.collectionId);
+        const field = fields.find(f => f.id === settings.fieldId);
+
+        if (field?.reference_collection_id && (field.type === 'reference' || field.type === 'multi_reference')) {
+          const [referencedItems, referencedFields] = await Promise.all([
+            getItems(field.reference_collection_id),
+            getFields(field.reference_collection_id),
+          ]);
+          options = getCollectionFilterOptions(field, [], referencedItems, referencedFields);
+        } else if (field) {
+          const needsItems = !['option', 'boolean'].includes(field.type);
+          options = getCollectionFilterOptions(field, needsItems ? await getItems(settings.collectionId) : []);
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to resolve collection control ${layer.id}:`, error);
+    }
+
+    return {
+      ...layer,
+      children,
+      _collectionControl: {
+        options,
+        value: getCollectionControlValue(layer, query),
+      },
+    };
+  };
+
+  return Promise.all(layers.map(resolveLayer));
+}
+
+/** Fill the keyed parts of a search result item with a hit */
+function fillSearchResultItem(layer: Layer, hit: SiteSearchHit): Layer {
+  let filled: Layer = layer;
+
+  if (layer.key === SEARCH_RESULT_KEYS.title || layer.key === SEARCH_RESULT_KEYS.url) {
+    const content = layer.key === SEARCH_RESULT_KEYS.title ? hit.title : hit.url;
+    filled = { ...layer, variables: { ...layer.variables, text: createDynamicTextVariable(content) } };
+  } else if (layer.key === SEARCH_RESULT_KEYS.excerpt) {
+    filled = {
+      ...layer,
+      variables: {
+        ...layer.variables,
+        text: { type: 'dynamic_rich_text', data: { content: buildSearchExcerptContent(hit.excerpt_parts) } },
+      },
+    };
+  } else if (layer.key === SEARCH_RESULT_KEYS.link) {
+    filled = { ...layer, variables: { ...layer.variables, link: { ...layer.variables?.link, ...createUrlLinkSettings(hit.url) } } };
+  }
+
+  return layer.children
+    ? { ...filled, children: layer.children.map(child => fillSearchResultItem(child, hit)) }
+    : filled;
+}
+
+/**
+ * Fill search results layers with the hits of the site search (?q= param)
+ * The item part is repeated for each hit. The empty part is only kept
+ * when a search has no hits, and both are left out when there is no search.
+ */
+async function resolveSearchResultsLayers(
+  layers: Layer[],
+  paginationContext?: PaginationContext
+): Promise<Layer[]> {
+  const hasSearchResults = (items: Layer[]): boolean => (
+    items.some(layer => layer.name === 'searchResults' || (!!layer.children && hasSearchResults(layer.children)))
+  );
+  if (!hasSearchResults(layers)) {
+    return layers;
+  }
+
+  const query = paginationContext?.siteSearch?.trim() || '';
+
+  const resolveLayer = async (layer: Layer): Promise<Layer> => {
+    if (layer.name !== 'searchResults') {
+      return layer.children
+        ? { ...layer, children: await Promise.all(layer.children.map(resolveLayer)) }
+        : layer;
+    }
+
+    let hits: SiteSearchHit[] = [];
+    if (query) {
+      try {
+        const result = await searchSite(query, {
+          localeCode: paginationContext?.localeCode,
+          limit: getSearchResultsSettings(layer).limit,
+        });
+        hits = result.hits;
+      } catch (error) {
+        console.error(`Failed to resolve search results ${layer.id}:`, error);
+      }
+    }
+
+    const children: Layer[] = [];
+    for (const child of layer.children || []) {
+      if (child.key === SEARCH_RESULT_KEYS.item) {
+        hits.forEach((hit, index) => {
+          children.push(remapLayerIdsForCollectionItem(fillSearchResultItem(child, hit), `-hit-${index}`));
+        });
+      } else if (child.key === SEARCH_RESULT_KEYS.empty) {
+        if (query && hits.length === 0) children.push(child);
+      } else {
+        children.push(child);
+      }
+    }
+
+    return { ...layer, children };
+  };
+
+  return Promise.all(layers.map(resolveLayer));
+}
+
 /**
  * Compute item counts for all collection layers in a layer tree
  * Used for evaluating page collection visibility conditions
@@ -2095,6 +2368,15 @@ export async function renderCollectionItemsToHtml(
 
       const missingAssetIds = collectFieldLinkAssetIds(resolvedLayers);
 
+      // Multi-asset fields opened in lightboxes
+      for (const fieldId of getLightboxFieldIds(resolvedLayers)) {
+        for (const assetId of parseMultiAssetFieldValue(item.values[fieldId])) {
+          if (!assetMap[assetId]) {
+            missingAssetIds.push(assetId);
+          }
+        }
+      }
+
       // Fetch any missing assets from field links
       if (missingAssetIds.length > 0) {
         const { getAssetsByIds } = await import('@/lib/repositories/assetRepository');
@@ -2646,6 +2928,43 @@ function layerToHtml(
     attrs.push(`style="${escapeHtml(styleStr)}"`);
   }
 
+  // Slider layers - scoped layout styles and the parts wired up by the slider controller
+  const sliderPart = getSliderPart(layer);
+  if (sliderPart) {
+    attrs.push(`data-slider-part="${sliderPart}"`);
+  }
+  if (layer.name === 'slider') {
+    attrs.push(`data-slider="${escapeHtml(layer.id)}"`);
+  }
+
+  // Map layers - location and markers are read from data attributes by the map runtime
+  const mapAttributes = getMapAttributes(layer, (fieldVar) =>
+    resolveFieldValue(fieldVar, effectiveCollectionItemData, pageCollectionItemData, effectiveLayerDataMap)
+  );
+  if (mapAttributes) {
+    for (const [name, value] of Object.entries(mapAttributes)) {
+      attrs.push(value ? `${name}="${escapeHtml(value)}"` : name);
+    }
+  }
+
+  // Lightbox layers - opened by the lightbox controller, CMS files are embedded as items
+  if (layer.name === 'lightbox') {
+    const lightboxSettings = getLightboxSettings(layer);
+    attrs.push(`data-lightbox="${escapeHtml(lightboxSettings.group || '')}"`);
+    attrs.push('role="button" tabindex="0" aria-haspopup="dialog"');
+
+    if (lightboxSettings.source === 'field' && lightboxSettings.field) {
+      const fieldValue = resolveFieldValue(lightboxSettings.field, effectiveCollectionItemData, pageCollectionItemData, effectiveLayerDataMap);
+      const items = buildLightboxItems(parseMultiAssetFieldValue(fieldValue), (assetId) => assetMap?.[assetId]?.public_url);
+      attrs.push(`data-lightbox-items="${escapeHtml(JSON.stringify(items))}"`);
+    }
+  }
+
+  // Color scheme toggles - switched by the color scheme controller
+  if (layer.name === 'colorSchemeToggle') {
+    attrs.push(`${COLOR_SCHEME_TOGGLE_ATTRIBUTE} role="button" tabindex="0" aria-label="Toggle dark mode" aria-pressed="false"`);
+  }
+
   // Handle images (variables structure)
   if (tag === 'img') {
     const imageSrc = layer.variables?.image?.src;
@@ -2942,14 +3261,20 @@ function layerToHtml(
     }
   }
 
-  // Render children
-  const childrenHtml = layer.children
+  // Render children (slider and map styles go first)
+  const sliderCssHtml = layer.name === 'slider'
+    ? `<style>${buildSliderCss(layer.id, getSliderSettings(layer))}</style>`
+    : '';
+  const mapCssHtml = layer.name === 'map'
+    ? `<style>${buildMapCss(layer.id)}</style>`
+    : '';
+  const childrenHtml = sliderCssHtml + mapCssHtml + (layer.children
     ? layer.children
       .map((child) =>
         layerToHtml(child, effectiveCollectionItemId, pages, folders, collectionItemSlugs, locale, translations, anchorMap, effectiveCollectionItemData, pageCollectionItemData, assetMap, effectiveLayerDataMap)
       )
       .join('')
-    : '';
+    : '');
 
   // Get text content from variables.text
   const textVariable = layer.variables?.text;
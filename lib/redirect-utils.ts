@@ -0,0 +1,415 @@
+/**
+ * Redirect Utilities
+ *
+ * Matching of redirect rules against request paths, shared by the proxy and
+ * the page routes, plus CSV import/export of rules.
+ *
+ * Pending rules (automatic redirects for unpublished path changes) are ignored
+ * until they are activated by a publish.
+ *
+ * Rules support exact paths and patterns:
+ * - `:name` matches one path segment: /blog/:slug → /articles/:slug
+ * - `*` matches the rest of the path: /old/* → /new/*
+ */
+
+import { parseCSVText } from '@/lib/csv-utils';
+import type { Redirect, RedirectType } from '@/types';
+
+export const REDIRECT_TYPES: { value: RedirectType; label: string; description: string }[] = [
+  { value: '301', label: '301', description: 'Moved permanently' },
+  { value: '302', label: '302', description: 'Found (temporary)' },
+  { value: '307', label: '307', description: 'Temporary, keeps the request method' },
+  { value: '308', label: '308', description: 'Permanent, keeps the request method' },
+];
+
+const DEFAULT_REDIRECT_TYPE: RedirectType = '301';
+
+export interface RedirectMatch {
+  redirect: Redirect;
+  /** Resolved target: internal path (with query) or external URL */
+  destination: string;
+  status: number;
+}
+
+interface CompiledPattern {
+  regex: RegExp;
+  params: string[];
+}
+
+const PARAM_PATTERN = /^:([A-Za-z_][A-Za-z0-9_]*)$/;
+
+/** Get the HTTP status of a redirect rule (301 when not set) */
+export function getRedirectStatus(redirect: Pick<Redirect, 'type'>): number {
+  return parseInt(redirect.type || DEFAULT_REDIRECT_TYPE, 10);
+}
+
+/** Check if a redirect rule is permanent (301/308) */
+export function isPermanentRedirect(redirect: Pick<Redirect, 'type'>): boolean {
+  const status = getRedirectStatus(redirect);
+  return status === 301 || status === 308;
+}
+
+/**
+ * Normalize a path for matching: leading slash, no trailing slash
+ */
+export function normalizeRedirectPath(path: string): string {
+  let normalized = path.trim();
+  if (!normalized.startsWith('/')) normalized = `/${normalized}`;
+  if (normalized.length > 1 && normalized.endsWith('/')) normalized = normalized.replace(/\/+$/, '');
+  return normalized || '/';
+}
+
+/** Check if a rule uses :params or * wildcards */
+export function isPatternRedirect(oldUrl: string): boolean {
+  return oldUrl.split('/').some((segment) => segment === '*' || PARAM_PATTERN.test(segment));
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const patternCache = new Map<string, CompiledPattern>();
+
+/**
+ * Compile a rule path to a regular expression
+ * Captured values are named after the params, the wildcard is captured as `*`.
+ */
+function compilePattern(oldUrl: string): CompiledPattern {
+  const cached = patternCache.get(oldUrl);
+  if (cached) return cached;
+
+  const params: string[] = [];
+  const segments = normalizeRedirectPath(oldUrl).split('/').slice(1);
+  let source = '';
+
+  segments.forEach((segment, index) => {
+    const param = segment.match(PARAM_PATTERN);
+    if (segment === '*' && index === segments.length - 1) {
+      // Trailing wildcard also matches the parent path itself (/old/* matches /old)
+      params.push('*');
+      source += '(?:/(.*))?';
+    } else if (segment === '*') {
+      params.push('*');
+      source += '/([^/]+)';
+    } else if (param) {
+      params.push(param[1]);
+      source += '/([^/]+)';
+    } else {
+      source += `/${escapeRegex(segment)}`;
+    }
+  });
+
+  const compiled = { regex: new RegExp(`^${source || '/'}$`), params };
+  patternCache.set(oldUrl, compiled);
+  return compiled;
+}
+
+/** Substitute captured :params and * into the rule target */
+function fillTarget(newUrl: string, values: Record<string, string>): string {
+  let target = newUrl.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (match, name: string) => (
+    name in values ? values[name] : match
+  ));
+
+  if ('*' in values) {
+    target = target.replace('*', values['*']);
+  }
+
+  // An empty wildcard can leave a trailing slash (/new/* with /old → /new/)
+  return target.length > 1 && !/^[a-z][a-z0-9+.-]*:\/\/[^/]+\/$/i.test(target)
+    ? target.replace(/\/+(?=$|\?|#)/, '')
+    : target;
+}
+
+/** Append the request query string to the target (target parameters win) */
+function mergeQuery(target: string, search: string): string {
+  const query = search.startsWith('?') ? search.slice(1) : search;
+  if (!query) return target;
+
+  const hashIndex = target.indexOf('#');
+  const hash = hashIndex >= 0 ? target.slice(hashIndex) : '';
+  const withoutHash = hashIndex >= 0 ? target.slice(0, hashIndex) : target;
+  const [base, targetQuery = ''] = withoutHash.split('?');
+
+  const params = new URLSearchParams(query);
+  new URLSearchParams(targetQuery).forEach((value, key) => params.set(key, value));
+
+  const merged = params.toString();
+  return `${base}${merged ? `?${merged}` : ''}${hash}`;
+}
+
+/**
+ * Find the redirect rule for a request
+ * Exact rules take precedence over patterns; patterns are tried in list order.
+ *
+ * @param pathname - Request path (without query string)
+ * @param search - Request query string (with or without leading ?)
+ */
+export function findRedirect(
+  redirects: Redirect[] | null | undefined,
+  pathname: string,
+  search: string = ''
+): RedirectMatch | null {
+  if (!redirects || !Array.isArray(redirects) || redirects.length === 0) return null;
+
+  const activeRedirects = redirects.filter((r) => !r.pending);
+
+  let path: string;
+  try {
+    path = normalizeRedirectPath(decodeURI(pathname));
+  } catch {
+    path = normalizeRedirectPath(pathname);
+  }
+
+  let matched: { redirect: Redirect; values: Record<string, string> } | null = null;
+
+  const exact = activeRedirects.find((r) => r.oldUrl && !isPatternRedirect(r.oldUrl) && normalizeRedirectPath(r.oldUrl) === path);
+  if (exact) {
+    matched = { redirect: exact, values: {} };
+  } else {
+    for (const redirect of activeRedirects) {
+      if (!redirect.oldUrl || !isPatternRedirect(redirect.oldUrl)) continue;
+
+      const { regex, params } = compilePattern(redirect.oldUrl);
+      const match = path.match(regex);
+      if (!match) continue;
+
+      const values: Record<string, string> = {};
+      params.forEach((name, index) => {
+        values[name] = match[index + 1] ?? '';
+      });
+      matched = { redirect, values };
+      break;
+    }
+  }
+
+  if (!matched || !matched.redirect.newUrl) return null;
+
+  let destination = fillTarget(matched.redirect.newUrl.trim(), matched.values);
+  if (matched.redirect.preserveQuery !== false) {
+    destination = mergeQuery(destination, search);
+  }
+
+  // Never redirect to the same URL
+  const currentUrl = search && search !== '?' ? `${path}${search.startsWith('?') ? search : `?${search}`}` : path;
+  if (destination === currentUrl || (destination.startsWith('/') && normalizeRedirectPath(destination) === currentUrl)) {
+    return null;
+  }
+
+  return {
+    redirect: matched.redirect,
+    destination,
+    status: getRedirectStatus(matched.redirect),
+  };
+}
+
+/**
+ * Validate a redirect rule
+ * @returns Error message, or null when valid
+ */
+export function validateRedirect(redirect: Pick<Redirect, 'oldUrl' | 'newUrl'>): string | null {
+  if (!redirect.oldUrl.trim()) return 'Old URL is required';
+  if (!redirect.newUrl.trim()) return 'New URL is required';
+  if (/^[a-z][a-z0-9+.-]*:/i.test(redirect.oldUrl.trim())) return 'Old URL must be a path (e.g. /old-page)';
+
+  const segments = normalizeRedirectPath(redirect.oldUrl).split('/');
+  const wildcardIndex = segments.indexOf('*');
+  if (wildcardIndex !== -1 && wildcardIndex !== segments.length - 1) {
+    return 'The * wildcard must be the last part of the old URL';
+  }
+
+  // Targets can only use params captured by the old URL
+  const params = new Set(segments.map((segment) => segment.match(PARAM_PATTERN)?.[1]).filter(Boolean));
+  const targetPath = redirect.newUrl.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '');
+  const missing = Array.from(targetPath.matchAll(/\/:([A-Za-z_][A-Za-z0-9_]*)/g))
+    .map((match) => match[1])
+    .find((name) => !params.has(name));
+  if (missing) return `New URL uses :${missing}, which is not in the old URL`;
+
+  return null;
+}
+
+/**
+ * A change of the URL path of a page or CMS item
+ */
+export interface PathChange {
+  source: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Compare the URL paths of pages/CMS items (keyed by source) between two states
+ * Only sources that exist in both states are compared; new or removed pages aren't moves.
+ */
+export function diffPaths(before: Map<string, string>, after: Map<string, string>): PathChange[] {
+  const changes: PathChange[] = [];
+
+  before.forEach((from, source) => {
+    const to = after.get(source);
+    if (to && to !== from) {
+      changes.push({ source, from, to });
+    }
+  });
+
+  return changes;
+}
+
+function createRedirectId(index: number): string {
+  return `${Date.now()}-${index}`;
+}
+
+/**
+ * Update pending automatic redirects to match unpublished path changes
+ * Pending redirects of reverted changes are removed; dismissed ones stay dismissed.
+ */
+export function applyPendingPathChanges(redirects: Redirect[], changes: PathChange[]): Redirect[] {
+  const changesBySource = new Map(changes.map((change) => [change.source, change]));
+  const handledSources = new Set<string>();
+
+  const updated = redirects.flatMap((redirect) => {
+    if (!redirect.pending) return [redirect];
+
+    const change = redirect.source ? changesBySource.get(redirect.source) : undefined;
+    if (!change || change.from !== redirect.oldUrl || handledSources.has(change.source)) return [];
+
+    handledSources.add(change.source);
+    return redirect.newUrl === change.to
+      ? [redirect]
+      : [{ ...redirect, newUrl: change.to, dismissed: false }];
+  });
+
+  changes
+    .filter((change) => !handledSources.has(change.source))
+    .forEach((change, index) => {
+      updated.push({
+        id: createRedirectId(index),
+        oldUrl: change.from,
+        newUrl: change.to,
+        type: DEFAULT_REDIRECT_TYPE,
+        source: change.source,
+        pending: true,
+      });
+    });
+
+  return updated;
+}
+
+/**
+ * Create 301 redirects for published path changes
+ * Uses the target and type of the matching pending redirect (unless dismissed),
+ * collapses chains (/a → /b plus /b → /c becomes /a → /c) and drops rules
+ * from paths that are live pages again.
+ */
+export function applyPublishedPathChanges(redirects: Redirect[], changes: PathChange[]): Redirect[] {
+  if (changes.length === 0) return redirects;
+
+  const changedSources = new Set(changes.map((change) => change.source));
+  const livePaths = new Set(changes.map((change) => change.to));
+
+  // Pending redirects of the published changes are replaced by active ones
+  let updated = redirects.filter((redirect) => !(redirect.pending && redirect.source && changedSources.has(redirect.source)));
+
+  changes.forEach((change, index) => {
+    const pending = redirects.find((r) => r.pending && r.source === change.source && r.oldUrl === change.from);
+    if (pending?.dismissed) return;
+
+    const target = pending?.newUrl || change.to;
+
+    // Rules pointing to the old path now point to the new one
+    updated = updated.map((redirect) => (
+      !redirect.pending && redirect.newUrl.startsWith('/') && normalizeRedirectPath(redirect.newUrl) === change.from
+        ? { ...redirect, newUrl: target }
+        : redirect
+    ));
+
+    const existingIndex = updated.findIndex((r) => !r.pending && !isPatternRedirect(r.oldUrl) && normalizeRedirectPath(r.oldUrl) === change.from);
+    if (existingIndex >= 0) {
+      updated[existingIndex] = { ...updated[existingIndex], newUrl: target };
+    } else {
+      updated.push({
+        id: pending?.id || createRedirectId(index),
+        oldUrl: change.from,
+        newUrl: target,
+        type: pending?.type || DEFAULT_REDIRECT_TYPE,
+        preserveQuery: pending?.preserveQuery,
+        source: change.source,
+      });
+    }
+  });
+
+  return updated.filter((redirect) => (
+    redirect.pending
+    || isPatternRedirect(redirect.oldUrl)
+    || (!livePaths.has(normalizeRedirectPath(redirect.oldUrl)) && normalizeRedirectPath(redirect.oldUrl) !== redirect.newUrl)
+  ));
+}
+
+const CSV_HEADERS = ['old_url', 'new_url', 'type', 'preserve_query'];
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export redirect rules as CSV (old_url, new_url, type, preserve_query)
+ */
+export function redirectsToCsv(redirects: Redirect[]): string {
+  const rows = redirects.map((redirect) => [
+    redirect.oldUrl,
+    redirect.newUrl,
+    redirect.type || DEFAULT_REDIRECT_TYPE,
+    redirect.preserveQuery === false ? 'false' : 'true',
+  ].map(escapeCsvValue).join(','));
+
+  return [CSV_HEADERS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Parse redirect rules from CSV
+ * Accepts the exported columns; headers like "from"/"to"/"status" are recognized too.
+ *
+ * @returns Valid rules (without IDs) and an error per skipped row
+ */
+export function parseRedirectsCsv(text: string): { redirects: Omit<Redirect, 'id'>[]; errors: string[] } {
+  const { headers, rows } = parseCSVText(text);
+  const errors: string[] = [];
+  const redirects: Omit<Redirect, 'id'>[] = [];
+
+  const findHeader = (names: string[]) => headers.find((header) => names.includes(header.toLowerCase().replace(/[\s-]/g, '_')));
+  const oldHeader = findHeader(['old_url', 'oldurl', 'from', 'source']);
+  const newHeader = findHeader(['new_url', 'newurl', 'to', 'destination', 'target']);
+  const typeHeader = findHeader(['type', 'status', 'code']);
+  const queryHeader = findHeader(['preserve_query', 'preservequery', 'query']);
+
+  if (!oldHeader || !newHeader) {
+    return { redirects, errors: ['CSV must have old_url and new_url columns'] };
+  }
+
+  rows.forEach((row, index) => {
+    const lineNumber = index + 2;
+    const oldUrl = row[oldHeader]?.trim() || '';
+    const newUrl = row[newHeader]?.trim() || '';
+    const type = (typeHeader && row[typeHeader]?.trim()) || DEFAULT_REDIRECT_TYPE;
+    const preserveQuery = queryHeader ? !['false', '0', 'no', 'n'].includes(row[queryHeader]?.trim().toLowerCase() || '') : true;
+
+    if (!REDIRECT_TYPES.some((option) => option.value === type)) {
+      errors.push(`Row ${lineNumber}: type must be 301, 302, 307 or 308`);
+      return;
+    }
+
+    const error = validateRedirect({ oldUrl, newUrl });
+    if (error) {
+      errors.push(`Row ${lineNumber}: ${error}`);
+      return;
+    }
+
+    redirects.push({
+      oldUrl: normalizeRedirectPath(oldUrl),
+      newUrl,
+      type: type as RedirectType,
+      preserveQuery,
+    });
+  });
+
+  return { redirects, errors };
+}
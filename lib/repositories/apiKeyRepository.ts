@@ -1,5 +1,7 @@
 import { getSupabaseAdmin } from '@/lib/supabase-server';
 import { createHash, randomBytes } from 'crypto';
+import { DEFAULT_API_KEY_SCOPES } from '@/lib/api-key-utils';
+import type { ApiKeyAccessData, ApiKeyScope } from '@/lib/api-key-utils';
 
 /**
  * API Key Repository
@@ -12,6 +14,10 @@ export interface ApiKey {
   id: string;
   name: string;
   key_prefix: string;
+  scopes: ApiKeyScope[];
+  collection_ids: string[] | null; // null = all collections
+  expires_at: string | null;
+  rate_limit: number | null; // Max requests per minute, null = unlimited
   last_used_at: string | null;
   created_at: string;
   updated_at: string;
@@ -21,6 +27,8 @@ export interface ApiKeyWithPlainKey extends ApiKey {
   api_key: string; // Only returned once during creation
 }
 
+const API_KEY_COLUMNS = 'id, name, key_prefix, scopes, collection_ids, expires_at, rate_limit, last_used_at, created_at, updated_at';
+
 /**
  * Hash an API key using SHA-256
  */
@@ -48,7 +56,7 @@ export async function getAllApiKeys(): Promise<ApiKey[]> {
 
   const { data, error } = await client
     .from('api_keys')
-    .select('id, name, key_prefix, last_used_at, created_at, updated_at')
+    .select(API_KEY_COLUMNS)
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -62,7 +70,10 @@ export async function getAllApiKeys(): Promise<ApiKey[]> {
  * Create a new API key
  * Returns the key info including the plain key (shown only once)
  */
-export async function createApiKey(name: string): Promise<ApiKeyWithPlainKey> {
+export async function createApiKey(
+  name: string,
+  access: ApiKeyAccessData = {}
+): Promise<ApiKeyWithPlainKey> {
   const client = await getSupabaseAdmin();
 
   if (!client) {
@@ -80,10 +91,14 @@ export async function createApiKey(name: string): Promise<ApiKeyWithPlainKey> {
       name,
       key_hash: keyHash,
       key_prefix: keyPrefix,
+      scopes: access.scopes ?? DEFAULT_API_KEY_SCOPES,
+      collection_ids: access.collection_ids ?? null,
+      expires_at: access.expires_at ?? null,
+      rate_limit: access.rate_limit ?? null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     })
-    .select('id, name, key_prefix, last_used_at, created_at, updated_at')
+    .select(API_KEY_COLUMNS)
     .single();
 
   if (error) {
@@ -96,6 +111,36 @@ export async function createApiKey(name: string): Promise<ApiKeyWithPlainKey> {
   };
 }
 
+/**
+ * Update an API key's name and access settings
+ */
+export async function updateApiKey(
+  id: string,
+  data: ApiKeyAccessData & { name?: string }
+): Promise<ApiKey> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data: key, error } = await client
+    .from('api_keys')
+    .update({
+      ...data,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update API key: ${error.message}`);
+  }
+
+  return key;
+}
+
 /**
  * Delete an API key
  */
@@ -133,7 +178,7 @@ export async function validateApiKey(apiKey: string): Promise<ApiKey | null> {
   // Find the key by hash
   const { data, error } = await client
     .from('api_keys')
-    .select('id, name, key_prefix, last_used_at, created_at, updated_at')
+    .select(API_KEY_COLUMNS)
     .eq('key_hash', keyHash)
     .single();
 
@@ -168,7 +213,7 @@ export async function getApiKeyById(id: string): Promise<ApiKey | null> {
 
   const { data, error } = await client
     .from('api_keys')
-    .select('id, name, key_prefix, last_used_at, created_at, updated_at')
+    .select(API_KEY_COLUMNS)
     .eq('id', id)
     .single();
 
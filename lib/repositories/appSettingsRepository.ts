@@ -85,6 +85,20 @@ export async function getAppSettingValue<T = unknown>(
   return setting ? (setting.value as T) : null;
 }
 
+/**
+ * Get all settings for an app as a key-value map
+ */
+export async function getAppSettingsMap(appId: string): Promise<Record<string, unknown>> {
+  const settings = await getAppSettings(appId);
+
+  const settingsMap: Record<string, unknown> = {};
+  for (const setting of settings) {
+    settingsMap[setting.key] = setting.value;
+  }
+
+  return settingsMap;
+}
+
 /**
  * Check if an app has a specific setting configured
  */
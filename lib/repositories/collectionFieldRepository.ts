@@ -2,6 +2,22 @@ import { getSupabaseAdmin } from '@/lib/supabase-server';
 import { SUPABASE_QUERY_LIMIT } from '@/lib/supabase-constants';
 import type { CollectionField, CreateCollectionFieldData, UpdateCollectionFieldData } from '@/types';
 import { randomUUID } from 'crypto';
+import { dispatchCollectionFieldEvent } from '@/lib/services/webhookService';
+
+/**
+ * Dispatch a collection field webhook event (fire and forget)
+ */
+function dispatchFieldChange(
+  action: 'created' | 'updated' | 'deleted',
+  field: Pick<CollectionField, 'id' | 'collection_id' | 'name' | 'type'>
+): void {
+  dispatchCollectionFieldEvent(action, {
+    collection_id: field.collection_id,
+    field_id: field.id,
+    field_name: field.name,
+    field_type: field.type,
+  });
+}
 
 /**
  * Collection Field Repository
@@ -161,6 +177,11 @@ export async function createField(fieldData: CreateCollectionFieldData): Promise
     throw new Error(`Failed to create collection field: ${error.message}`);
   }
 
+  // Dispatch webhook event for draft changes only
+  if (!isPublished) {
+    dispatchFieldChange('created', data);
+  }
+
   return data;
 }
 
@@ -197,6 +218,11 @@ export async function updateField(
     throw new Error(`Failed to update collection field: ${error.message}`);
   }
 
+  // Dispatch webhook event for draft changes only
+  if (!isPublished) {
+    dispatchFieldChange('updated', data);
+  }
+
   return data;
 }
 
@@ -217,7 +243,7 @@ export async function deleteField(id: string, isPublished: boolean = false): Pro
   const now = new Date().toISOString();
 
   // Soft delete the field
-  const { error: fieldError } = await client
+  const { data: deletedField, error: fieldError } = await client
     .from('collection_fields')
     .update({
       deleted_at: now,
@@ -225,7 +251,9 @@ export async function deleteField(id: string, isPublished: boolean = false): Pro
     })
     .eq('id', id)
     .eq('is_published', isPublished)
-    .is('deleted_at', null);
+    .is('deleted_at', null)
+    .select('id, collection_id, name, type')
+    .maybeSingle();
 
   if (fieldError) {
     throw new Error(`Failed to delete collection field: ${fieldError.message}`);
@@ -245,6 +273,11 @@ export async function deleteField(id: string, isPublished: boolean = false): Pro
   if (valuesError) {
     throw new Error(`Failed to delete field values: ${valuesError.message}`);
   }
+
+  // Dispatch webhook event for draft changes only
+  if (deletedField && !isPublished) {
+    dispatchFieldChange('deleted', deletedField);
+  }
 }
 
 /**
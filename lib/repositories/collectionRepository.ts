@@ -1,6 +1,7 @@
 import { getSupabaseAdmin } from '@/lib/supabase-server';
 import type { Collection, CreateCollectionData, UpdateCollectionData } from '@/types';
 import { randomUUID } from 'crypto';
+import { dispatchCollectionEvent } from '@/lib/services/webhookService';
 
 /**
  * Collection Repository
@@ -170,6 +171,11 @@ export async function createCollection(collectionData: CreateCollectionData): Pr
     throw new Error(`Failed to create collection: ${error.message}`);
   }
 
+  // Dispatch webhook event for draft changes only (fire and forget)
+  if (!isPublished) {
+    dispatchCollectionEvent('created', { collection_id: data.id, collection_name: data.name });
+  }
+
   return data;
 }
 
@@ -206,6 +212,11 @@ export async function updateCollection(
     throw new Error(`Failed to update collection: ${error.message}`);
   }
 
+  // Dispatch webhook event for draft changes only (fire and forget)
+  if (!isPublished) {
+    dispatchCollectionEvent('updated', { collection_id: data.id, collection_name: data.name });
+  }
+
   return data;
 }
 
@@ -225,7 +236,7 @@ export async function deleteCollection(id: string, isPublished: boolean = false)
   const now = new Date().toISOString();
 
   // Soft delete the collection
-  const { error: collectionError } = await client
+  const { data: deletedCollection, error: collectionError } = await client
     .from('collections')
     .update({
       deleted_at: now,
@@ -233,12 +244,19 @@ export async function deleteCollection(id: string, isPublished: boolean = false)
     })
     .eq('id', id)
     .eq('is_published', isPublished)
-    .is('deleted_at', null);
+    .is('deleted_at', null)
+    .select('id, name')
+    .maybeSingle();
 
   if (collectionError) {
     throw new Error(`Failed to delete collection: ${collectionError.message}`);
   }
 
+  // Dispatch webhook event for draft changes only (fire and forget)
+  if (deletedCollection && !isPublished) {
+    dispatchCollectionEvent('deleted', { collection_id: id, collection_name: deletedCollection.name });
+  }
+
   // Soft delete all related fields
   const { error: fieldsError } = await client
     .from('collection_fields')
@@ -11,6 +11,7 @@ import type { Component, Layer } from '@/types';
 import { generateComponentContentHash } from '../hash-utils';
 import { deleteTranslationsInBulk, markTranslationsIncomplete } from '@/lib/repositories/translationRepository';
 import { extractLayerContentMap } from '../localisation-utils';
+import { dispatchComponentEvent } from '@/lib/services/webhookService';
 
 /**
  * Input data for creating a new component
@@ -148,6 +149,9 @@ export async function createComponent(
     throw new Error(`Failed to create component: ${error.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchComponentEvent('created', { component_id: data.id, component_name: data.name });
+
   return data;
 }
 
@@ -218,6 +222,9 @@ export async function updateComponent(
     throw new Error(`Failed to update component: ${error.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchComponentEvent('updated', { component_id: data.id, component_name: data.name });
+
   return data;
 }
 
@@ -595,6 +602,9 @@ export async function softDeleteComponent(id: string): Promise<SoftDeleteResult>
     throw new Error(`Failed to soft delete component: ${deleteError.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchComponentEvent('deleted', { component_id: id, component_name: component.name });
+
   return {
     component: { ...component, deleted_at: deletedAt },
     affectedEntities,
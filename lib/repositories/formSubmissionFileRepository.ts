@@ -0,0 +1,86 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import type { FormSubmissionFile, CreateFormSubmissionFileData } from '@/types';
+
+/**
+ * Form Submission File Repository
+ *
+ * Handles records of files uploaded with form submissions.
+ * The files themselves live in the private 'form-uploads' storage bucket.
+ * Uses Supabase/PostgreSQL via admin client.
+ */
+
+/**
+ * Get files for a set of submissions
+ */
+export async function getFilesBySubmissionIds(submissionIds: string[]): Promise<FormSubmissionFile[]> {
+  if (submissionIds.length === 0) return [];
+
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('form_submission_files')
+    .select('*')
+    .in('submission_id', submissionIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch form submission files: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Get all files uploaded to a form
+ */
+export async function getFilesByFormId(formId: string): Promise<FormSubmissionFile[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('form_submission_files')
+    .select('*')
+    .eq('form_id', formId);
+
+  if (error) {
+    throw new Error(`Failed to fetch form submission files: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Create file records for a submission
+ */
+export async function createFormSubmissionFiles(
+  files: CreateFormSubmissionFileData[]
+): Promise<FormSubmissionFile[]> {
+  if (files.length === 0) return [];
+
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('form_submission_files')
+    .insert(files.map((file) => ({
+      ...file,
+      created_at: new Date().toISOString(),
+    })))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to create form submission files: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -138,7 +138,7 @@ export async function createFormSubmission(
       form_id: submissionData.form_id,
       payload: submissionData.payload,
       metadata: submissionData.metadata || null,
-      status: 'new',
+      status: submissionData.status || 'new',
       created_at: new Date().toISOString(),
     })
     .select()
@@ -151,6 +151,30 @@ export async function createFormSubmission(
   return data;
 }
 
+/**
+ * Count submissions sent from an IP address since a given time
+ * Used for per-IP rate limiting of public form submissions
+ */
+export async function countRecentSubmissionsByIp(ip: string, since: Date): Promise<number> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { count, error } = await client
+    .from('form_submissions')
+    .select('id', { count: 'exact', head: true })
+    .eq('metadata->>ip', ip)
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to count form submissions: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
 /**
  * Update a form submission (e.g., change status)
  */
@@ -8,6 +8,7 @@
 import { getSupabaseAdmin } from '@/lib/supabase-server';
 import type { LayerStyle, Layer } from '@/types';
 import { generateLayerStyleContentHash } from '../hash-utils';
+import { dispatchLayerStyleEvent } from '@/lib/services/webhookService';
 
 /**
  * Input data for creating a new layer style
@@ -149,6 +150,9 @@ export async function createStyle(
     throw new Error(`Failed to create layer style: ${error.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchLayerStyleEvent('created', { style_id: data.id, style_name: data.name });
+
   return data;
 }
 
@@ -196,6 +200,9 @@ export async function updateStyle(
     throw new Error(`Failed to update layer style: ${error.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchLayerStyleEvent('updated', { style_id: data.id, style_name: data.name });
+
   return data;
 }
 
@@ -583,6 +590,9 @@ export async function softDeleteStyle(id: string): Promise<LayerStyleSoftDeleteR
     throw new Error(`Failed to soft delete layer style: ${deleteError.message}`);
   }
 
+  // Dispatch webhook event (fire and forget)
+  dispatchLayerStyleEvent('deleted', { style_id: id, style_name: layerStyle.name });
+
   return {
     layerStyle: { ...layerStyle, deleted_at: deletedAt },
     affectedEntities,
@@ -7,6 +7,19 @@
 
 import { getSupabaseAdmin } from '@/lib/supabase-server';
 import type { Locale, CreateLocaleData, UpdateLocaleData } from '@/types';
+import { dispatchLocaleEvent } from '@/lib/services/webhookService';
+
+/**
+ * Dispatch a locale webhook event (fire and forget)
+ */
+function dispatchLocaleChange(action: 'created' | 'updated' | 'deleted', locale: Locale): void {
+  dispatchLocaleEvent(action, {
+    locale_id: locale.id,
+    code: locale.code,
+    label: locale.label,
+    is_default: locale.is_default,
+  });
+}
 
 /**
  * Get all locales (draft by default)
@@ -186,6 +199,8 @@ export async function createLocale(
     data = newData;
   }
 
+  dispatchLocaleChange('created', data);
+
   // Always return all locales so client can update all is_default flags
   const allLocales = await getAllLocales(false);
 
@@ -230,6 +245,8 @@ export async function updateLocale(
     throw new Error(`Failed to update locale: ${error.message}`);
   }
 
+  dispatchLocaleChange('updated', data);
+
   // Always return all locales so client can update all is_default flags
   const allLocales = await getAllLocales(false);
 
@@ -260,6 +277,10 @@ export async function deleteLocale(id: string): Promise<void> {
   if (error) {
     throw new Error(`Failed to delete locale: ${error.message}`);
   }
+
+  if (locale) {
+    dispatchLocaleChange('deleted', locale);
+  }
 }
 
 /**
@@ -294,5 +315,7 @@ export async function setDefaultLocale(id: string): Promise<Locale> {
     throw new Error(`Failed to set default locale: ${error.message}`);
   }
 
+  dispatchLocaleChange('updated', data);
+
   return data;
 }
@@ -228,6 +228,30 @@ export async function getAllDraftLayers(): Promise<PageLayers[]> {
   return data || [];
 }
 
+/**
+ * Get all published layers
+ * Used to look up published elements (e.g. forms) across the site
+ */
+export async function getAllPublishedLayers(): Promise<PageLayers[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('page_layers')
+    .select('*')
+    .eq('is_published', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch published layers: ${error.message}`);
+  }
+
+  return data || [];
+}
+
 /**
  * Get all draft layers for multiple pages
  * Used for batch publishing optimization
@@ -0,0 +1,264 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import type {
+  CreatePublishScheduleData,
+  PublishSchedule,
+  PublishScheduleStatus,
+  PublishScheduleTargetType,
+} from '@/types';
+
+/**
+ * Publish Schedule Repository
+ *
+ * Handles CRUD operations for scheduled publishes and unpublishes.
+ */
+
+export interface PublishScheduleFilters {
+  status?: PublishScheduleStatus;
+  target_type?: PublishScheduleTargetType;
+  target_id?: string;
+  collection_id?: string;
+}
+
+/**
+ * Get publish schedules, soonest first
+ */
+export async function getPublishSchedules(
+  filters: PublishScheduleFilters = {}
+): Promise<PublishSchedule[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  let query = client
+    .from('publish_schedules')
+    .select('*')
+    .order('scheduled_at', { ascending: true });
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.target_type) {
+    query = query.eq('target_type', filters.target_type);
+  }
+  if (filters.target_id) {
+    query = query.eq('target_id', filters.target_id);
+  }
+  if (filters.collection_id) {
+    query = query.eq('collection_id', filters.collection_id);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch publish schedules: ${error.message}`);
+  }
+
+  return (data || []) as PublishSchedule[];
+}
+
+/**
+ * Get a publish schedule by ID
+ */
+export async function getPublishScheduleById(id: string): Promise<PublishSchedule | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch publish schedule: ${error.message}`);
+  }
+
+  return data as PublishSchedule | null;
+}
+
+/**
+ * Create a publish schedule
+ */
+export async function createPublishSchedule(
+  scheduleData: CreatePublishScheduleData
+): Promise<PublishSchedule> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const now = new Date().toISOString();
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .insert({
+      action: scheduleData.action,
+      target_type: scheduleData.target_type,
+      target_id: scheduleData.target_id || null,
+      collection_id: scheduleData.collection_id || null,
+      scheduled_at: scheduleData.scheduled_at,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create publish schedule: ${error.message}`);
+  }
+
+  return data as PublishSchedule;
+}
+
+/**
+ * Cancel a pending publish schedule
+ *
+ * @returns The cancelled schedule, or null if it is no longer pending
+ */
+export async function cancelPublishSchedule(id: string): Promise<PublishSchedule | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to cancel publish schedule: ${error.message}`);
+  }
+
+  return data as PublishSchedule | null;
+}
+
+/**
+ * Get pending schedules whose time has come, oldest first
+ */
+export async function getDuePublishSchedules(limit: number = 100): Promise<PublishSchedule[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('scheduled_at', new Date().toISOString())
+    .order('scheduled_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due publish schedules: ${error.message}`);
+  }
+
+  return (data || []) as PublishSchedule[];
+}
+
+/**
+ * Claim a due schedule for execution
+ * Moves it from 'pending' to 'running' so concurrent workers don't run it twice.
+ *
+ * @returns The claimed schedule, or null if it was claimed or cancelled first
+ */
+export async function claimPublishSchedule(id: string): Promise<PublishSchedule | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim publish schedule: ${error.message}`);
+  }
+
+  return data as PublishSchedule | null;
+}
+
+/**
+ * Record the outcome of running schedules
+ */
+export async function completePublishSchedules(
+  ids: string[],
+  outcome: { status: 'completed' } | { status: 'failed'; error: string }
+): Promise<void> {
+  if (ids.length === 0) return;
+
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const now = new Date().toISOString();
+
+  const { error } = await client
+    .from('publish_schedules')
+    .update({
+      status: outcome.status,
+      error: outcome.status === 'failed' ? outcome.error : null,
+      executed_at: now,
+      updated_at: now,
+    })
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Failed to update publish schedules: ${error.message}`);
+  }
+}
+
+/**
+ * Get when each collection item was last unpublished by a schedule
+ * Used to keep expired items out of bulk publishes until they are edited again.
+ *
+ * @returns Map of item ID to the time it was unpublished
+ */
+export async function getUnpublishedItemTimes(): Promise<Map<string, string>> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('publish_schedules')
+    .select('target_id, executed_at')
+    .eq('action', 'unpublish')
+    .eq('target_type', 'collection_item')
+    .eq('status', 'completed')
+    .order('executed_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch unpublished items: ${error.message}`);
+  }
+
+  const times = new Map<string, string>();
+  for (const row of data || []) {
+    if (row.target_id && row.executed_at) {
+      times.set(row.target_id, row.executed_at);
+    }
+  }
+  return times;
+}
@@ -0,0 +1,50 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import type { RedirectHit } from '@/types';
+
+/**
+ * Redirect Hit Repository
+ *
+ * Handles hit counters of redirect rules.
+ */
+
+/**
+ * Get hit counters of all redirect rules that were followed at least once
+ */
+export async function getRedirectHits(): Promise<RedirectHit[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('redirect_hits')
+    .select('*');
+
+  if (error) {
+    throw new Error(`Failed to fetch redirect hits: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    redirect_id: row.redirect_id,
+    hits: Number(row.hits) || 0,
+    last_hit_at: row.last_hit_at,
+  }));
+}
+
+/**
+ * Increment the hit counter of a redirect rule
+ */
+export async function incrementRedirectHits(redirectId: string): Promise<void> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { error } = await client.rpc('increment_redirect_hits', { p_redirect_id: redirectId });
+
+  if (error) {
+    throw new Error(`Failed to increment redirect hits: ${error.message}`);
+  }
+}
@@ -0,0 +1,98 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import { SUPABASE_WRITE_BATCH_SIZE } from '@/lib/supabase-constants';
+import type { SearchIndexEntry, SearchIndexSourceType } from '@/types';
+
+/**
+ * Search Index Repository
+ *
+ * Handles the site search index (Postgres full-text search).
+ */
+
+export interface SearchIndexMatch {
+  source_type: SearchIndexSourceType;
+  source_id: string;
+  page_id: string;
+  title: string;
+  url: string;
+  excerpt: string; // Matches between \u0002 and \u0003
+  rank: number;
+}
+
+/**
+ * Replace the whole search index with new entries
+ * @returns Number of indexed entries
+ */
+export async function replaceSearchIndex(entries: SearchIndexEntry[]): Promise<number> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { error: deleteError } = await client
+    .from('search_index')
+    .delete()
+    .not('id', 'is', null);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear search index: ${deleteError.message}`);
+  }
+
+  for (let i = 0; i < entries.length; i += SUPABASE_WRITE_BATCH_SIZE) {
+    const batch = entries.slice(i, i + SUPABASE_WRITE_BATCH_SIZE);
+
+    const { error } = await client
+      .from('search_index')
+      .insert(batch);
+
+    if (error) {
+      throw new Error(`Failed to index search entries: ${error.message}`);
+    }
+  }
+
+  return entries.length;
+}
+
+/**
+ * Search the index
+ * @param tsQuery - Postgres tsquery (see buildSearchTsQuery)
+ * @param localeCode - Locale of the entries (null for the default locale)
+ */
+export async function searchIndex(
+  tsQuery: string,
+  localeCode: string | null,
+  limit: number,
+  offset: number
+): Promise<{ matches: SearchIndexMatch[]; total: number }> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client.rpc('search_site', {
+    p_query: tsQuery,
+    p_locale: localeCode,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search site: ${error.message}`);
+  }
+
+  const rows = (data || []) as Array<SearchIndexMatch & { total_count: number | string }>;
+
+  return {
+    matches: rows.map((row) => ({
+      source_type: row.source_type,
+      source_id: row.source_id,
+      page_id: row.page_id,
+      title: row.title,
+      url: row.url,
+      excerpt: row.excerpt || '',
+      rank: Number(row.rank) || 0,
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) || 0 : 0,
+  };
+}
@@ -0,0 +1,185 @@
+import { getSupabaseAdmin } from '@/lib/supabase-server';
+import type { SiteRelease, SiteReleaseSnapshot } from '@/types';
+
+/**
+ * Site Release Repository
+ *
+ * Handles named snapshots of the published site (one per publish).
+ * Snapshots are taken and restored by database functions, so a rollback
+ * replaces all published rows in one transaction.
+ */
+
+export const MAX_SITE_RELEASES = 50; // Maximum releases to keep (oldest are deleted first)
+
+/** Release columns without the (large) snapshot */
+const RELEASE_COLUMNS = 'id, name, stats, created_at';
+
+/**
+ * Record the current published state as a release
+ * Automatically deletes the oldest releases if the limit is reached
+ */
+export async function createSiteRelease(name: string): Promise<SiteRelease> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data: releaseId, error } = await client.rpc('create_site_release', { p_name: name });
+
+  if (error) {
+    throw new Error(`Failed to create release: ${error.message}`);
+  }
+
+  await enforceSiteReleaseLimit();
+
+  const release = await getSiteReleaseById(releaseId as string);
+  if (!release) {
+    throw new Error('Failed to create release: release not found');
+  }
+
+  return release;
+}
+
+/**
+ * Get all releases, newest first
+ */
+export async function getAllSiteReleases(): Promise<SiteRelease[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('site_releases')
+    .select(RELEASE_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch releases: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Get a release by ID (without the snapshot)
+ */
+export async function getSiteReleaseById(id: string): Promise<SiteRelease | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('site_releases')
+    .select(RELEASE_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch release: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the published rows recorded in a release
+ */
+export async function getSiteReleaseSnapshot(id: string): Promise<SiteReleaseSnapshot | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('site_releases')
+    .select('snapshot')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch release snapshot: ${error.message}`);
+  }
+
+  return data?.snapshot || null;
+}
+
+/**
+ * Rename a release
+ */
+export async function updateSiteRelease(id: string, name: string): Promise<SiteRelease> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('site_releases')
+    .update({ name })
+    .eq('id', id)
+    .select(RELEASE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update release: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Replace all published rows and the published CSS with those of a release
+ * Drafts are not changed.
+ */
+export async function restoreSiteRelease(id: string): Promise<void> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { error } = await client.rpc('restore_site_release', { p_release_id: id });
+
+  if (error) {
+    throw new Error(`Failed to restore release: ${error.message}`);
+  }
+}
+
+/**
+ * Delete the oldest releases beyond MAX_SITE_RELEASES
+ */
+async function enforceSiteReleaseLimit(): Promise<void> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase not configured');
+  }
+
+  const { data, error } = await client
+    .from('site_releases')
+    .select('id')
+    .order('created_at', { ascending: false })
+    .range(MAX_SITE_RELEASES, MAX_SITE_RELEASES + 999);
+
+  if (error) {
+    throw new Error(`Failed to fetch old releases: ${error.message}`);
+  }
+
+  const oldIds = (data || []).map((release) => release.id);
+  if (oldIds.length === 0) return;
+
+  const { error: deleteError } = await client
+    .from('site_releases')
+    .delete()
+    .in('id', oldIds);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete old releases: ${deleteError.message}`);
+  }
+}
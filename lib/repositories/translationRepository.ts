@@ -6,7 +6,47 @@
  */
 
 import { getSupabaseAdmin } from '@/lib/supabase-server';
+import { SUPABASE_QUERY_LIMIT, SUPABASE_WRITE_BATCH_SIZE } from '@/lib/supabase-constants';
 import type { Translation, CreateTranslationData, UpdateTranslationData } from '@/types';
+import { dispatchTranslationBulkEvent, dispatchTranslationEvent } from '@/lib/services/webhookService';
+import type { TranslationEventKey } from '@/lib/services/webhookService';
+
+/**
+ * Dispatch a translation webhook event (fire and forget)
+ */
+function dispatchTranslationChange(
+  action: 'created' | 'updated' | 'deleted',
+  translation: Translation
+): void {
+  dispatchTranslationEvent(action, {
+    translation_id: translation.id,
+    locale_id: translation.locale_id,
+    source_type: translation.source_type,
+    source_id: translation.source_id,
+    content_key: translation.content_key,
+    content_value: translation.content_value,
+  });
+}
+
+/**
+ * Get the key identifying a translation within its draft/published version
+ */
+function getTranslationKey(translation: Pick<Translation, 'locale_id' | 'source_type' | 'source_id' | 'content_key'>): string {
+  return [translation.locale_id, translation.source_type, translation.source_id, translation.content_key].join(':');
+}
+
+/**
+ * Get the fields listing a translation in a translation.bulk_updated event
+ */
+function toTranslationEventKey(translation: Pick<Translation, 'id' | 'locale_id' | 'source_type' | 'source_id' | 'content_key'>): TranslationEventKey {
+  return {
+    translation_id: translation.id,
+    locale_id: translation.locale_id,
+    source_type: translation.source_type,
+    source_id: translation.source_id,
+    content_key: translation.content_key,
+  };
+}
 
 /**
  * Get all translations for a locale (draft by default)
@@ -172,6 +212,8 @@ export async function createTranslation(
     throw new Error(`Failed to create translation: ${error.message}`);
   }
 
+  dispatchTranslationChange('created', data);
+
   return data;
 }
 
@@ -204,6 +246,8 @@ export async function updateTranslation(
     throw new Error(`Failed to update translation: ${error.message}`);
   }
 
+  dispatchTranslationChange('updated', data);
+
   return data;
 }
 
@@ -217,15 +261,21 @@ export async function deleteTranslation(id: string): Promise<void> {
     throw new Error('Supabase not configured');
   }
 
-  const { error } = await client
+  const { data, error } = await client
     .from('translations')
     .update({ deleted_at: new Date().toISOString() })
     .eq('id', id)
-    .eq('is_published', false);
+    .eq('is_published', false)
+    .select()
+    .maybeSingle();
 
   if (error) {
     throw new Error(`Failed to delete translation: ${error.message}`);
   }
+
+  if (data) {
+    dispatchTranslationChange('deleted', data);
+  }
 }
 
 /**
@@ -260,24 +310,29 @@ export async function deleteTranslationsInBulk(
     return;
   }
 
-  // Build the base query
+  // Build the base query (already deleted translations are skipped, so they don't send events again)
   let query = client
     .from('translations')
     .update({ deleted_at: new Date().toISOString() })
     .eq('source_type', sourceType)
     .in('source_id', sourceIdArray)
-    .eq('is_published', false);
+    .eq('is_published', false)
+    .is('deleted_at', null);
 
   // Add content_key filter if specific keys provided
   if (contentKeys !== undefined) {
     query = query.in('content_key', contentKeys);
   }
 
-  const { error } = await query;
+  const { data, error } = await query.select('id, locale_id, source_type, source_id, content_key');
 
   if (error) {
     throw new Error(`Failed to delete translations: ${error.message}`);
   }
+
+  if (data && data.length > 0) {
+    dispatchTranslationBulkEvent({ deleted: data.map(toTranslationEventKey) });
+  }
 }
 
 /**
@@ -318,6 +373,7 @@ export async function markTranslationsIncomplete(
 /**
  * Upsert multiple translations (draft by default)
  * Uses batch upsert for efficiency
+ * Sends a single translation.bulk_updated event listing the created and updated translations
  */
 export async function upsertTranslations(
   translations: CreateTranslationData[]
@@ -339,6 +395,39 @@ export async function upsertTranslations(
     deleted_at: null, // Restore if previously deleted
   }));
 
+  if (translationsToUpsert.length === 0) {
+    return [];
+  }
+
+  // Find which translations already exist, to tell created from updated ones
+  // (source IDs are queried in batches to stay within URL length limits)
+  const existingKeys = new Set<string>();
+  const localeIds = Array.from(new Set(translations.map((t) => t.locale_id)));
+  const sourceIds = Array.from(new Set(translations.map((t) => t.source_id)));
+
+  for (let i = 0; i < sourceIds.length; i += SUPABASE_WRITE_BATCH_SIZE) {
+    const batchSourceIds = sourceIds.slice(i, i + SUPABASE_WRITE_BATCH_SIZE);
+
+    for (let offset = 0; ; offset += SUPABASE_QUERY_LIMIT) {
+      const { data: existing, error: existingError } = await client
+        .from('translations')
+        .select('locale_id, source_type, source_id, content_key')
+        .in('locale_id', localeIds)
+        .in('source_id', batchSourceIds)
+        .eq('is_published', false)
+        .is('deleted_at', null)
+        .range(offset, offset + SUPABASE_QUERY_LIMIT - 1);
+
+      if (existingError) {
+        throw new Error(`Failed to fetch existing translations: ${existingError.message}`);
+      }
+
+      (existing || []).forEach((translation) => existingKeys.add(getTranslationKey(translation)));
+
+      if (!existing || existing.length < SUPABASE_QUERY_LIMIT) break;
+    }
+  }
+
   const { data, error } = await client
     .from('translations')
     .upsert(translationsToUpsert, {
@@ -350,5 +439,15 @@ export async function upsertTranslations(
     throw new Error(`Failed to upsert translations: ${error.message}`);
   }
 
+  if (data && data.length > 0) {
+    const updated = data.filter((translation) => existingKeys.has(getTranslationKey(translation)));
+    const created = data.filter((translation) => !existingKeys.has(getTranslationKey(translation)));
+
+    dispatchTranslationBulkEvent({
+      created: created.map(toTranslationEventKey),
+      updated: updated.map(toTranslationEventKey),
+    });
+  }
+
   return data || [];
 }
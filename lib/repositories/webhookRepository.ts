@@ -21,12 +21,31 @@ export type WebhookEventType =
   | 'page.published'
   | 'page.deleted'
   | 'asset.uploaded'
-  | 'asset.deleted';
+  | 'asset.deleted'
+  | 'component.created'
+  | 'component.updated'
+  | 'component.deleted'
+  | 'layer_style.created'
+  | 'layer_style.updated'
+  | 'layer_style.deleted'
+  | 'locale.created'
+  | 'locale.updated'
+  | 'locale.deleted'
+  | 'translation.created'
+  | 'translation.updated'
+  | 'translation.deleted'
+  | 'translation.bulk_updated'
+  | 'collection.created'
+  | 'collection.updated'
+  | 'collection.deleted'
+  | 'collection_field.created'
+  | 'collection_field.updated'
+  | 'collection_field.deleted';
 
 export interface WebhookFilters {
   /** Filter form.submitted events to a specific form */
   form_id?: string | null;
-  /** Filter collection_item.* events to a specific collection */
+  /** Filter collection_item.*, collection.* and collection_field.* events to a specific collection */
   collection_id?: string | null;
 }
 
@@ -40,10 +59,23 @@ export interface Webhook {
   enabled: boolean;
   last_triggered_at: string | null;
   failure_count: number;
+  /** Why the webhook was disabled automatically (cleared when re-enabled) */
+  disabled_reason: string | null;
+  /** JSON template with {{placeholders}} replacing the standard payload (see lib/webhook-utils) */
+  payload_template: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Delivery status:
+ * - pending: being sent (for retries, next_retry_at holds when the claim expires)
+ * - success: receiver responded with 2xx
+ * - retrying: failed, another attempt is scheduled at next_retry_at
+ * - failed: failed and out of retries (dead letter)
+ */
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'retrying' | 'failed';
+
 export interface WebhookDelivery {
   id: string;
   webhook_id: string;
@@ -51,9 +83,11 @@ export interface WebhookDelivery {
   payload: Record<string, unknown>;
   response_status: number | null;
   response_body: string | null;
-  status: 'pending' | 'success' | 'failed';
+  status: WebhookDeliveryStatus;
   attempts: number;
   duration_ms: number | null;
+  next_retry_at: string | null;
+  last_attempt_at: string | null;
   created_at: string;
 }
 
@@ -63,6 +97,7 @@ export interface CreateWebhookData {
   secret?: string;
   events: WebhookEventType[];
   filters?: WebhookFilters | null;
+  payload_template?: string | null;
 }
 
 export interface UpdateWebhookData {
@@ -72,22 +107,26 @@ export interface UpdateWebhookData {
   events?: WebhookEventType[];
   filters?: WebhookFilters | null;
   enabled?: boolean;
+  disabled_reason?: string | null;
+  payload_template?: string | null;
 }
 
 export interface CreateWebhookDeliveryData {
   webhook_id: string;
   event_type: string;
   payload: Record<string, unknown>;
-  status?: 'pending' | 'success' | 'failed';
+  status?: WebhookDeliveryStatus;
   attempts?: number;
 }
 
 export interface UpdateWebhookDeliveryData {
-  response_status?: number;
+  response_status?: number | null;
   response_body?: string;
-  status?: 'pending' | 'success' | 'failed';
+  status?: WebhookDeliveryStatus;
   attempts?: number;
   duration_ms?: number;
+  next_retry_at?: string | null;
+  last_attempt_at?: string;
 }
 
 // =============================================================================
@@ -182,6 +221,7 @@ export async function createWebhook(webhookData: CreateWebhookData): Promise<Web
       secret: webhookData.secret || null,
       events: webhookData.events,
       filters: webhookData.filters || null,
+      payload_template: webhookData.payload_template || null,
       enabled: true,
       failure_count: 0,
       created_at: new Date().toISOString(),
@@ -217,6 +257,14 @@ export async function updateWebhook(id: string, updates: UpdateWebhookData): Pro
   if (updates.events !== undefined) updateData.events = updates.events;
   if (updates.filters !== undefined) updateData.filters = updates.filters;
   if (updates.enabled !== undefined) updateData.enabled = updates.enabled;
+  if (updates.disabled_reason !== undefined) updateData.disabled_reason = updates.disabled_reason;
+  if (updates.payload_template !== undefined) updateData.payload_template = updates.payload_template;
+
+  // Re-enabling a webhook gives it a fresh start
+  if (updates.enabled === true) {
+    updateData.failure_count = 0;
+    updateData.disabled_reason = null;
+  }
 
   const { data, error } = await client
     .from('webhooks')
@@ -254,8 +302,10 @@ export async function deleteWebhook(id: string): Promise<void> {
 
 /**
  * Update webhook trigger timestamp and reset failure count on success
+ *
+ * @returns The number of consecutive failures after this attempt
  */
-export async function markWebhookTriggered(id: string, success: boolean): Promise<void> {
+export async function markWebhookTriggered(id: string, success: boolean): Promise<number> {
   const client = await getSupabaseAdmin();
 
   if (!client) {
@@ -271,10 +321,18 @@ export async function markWebhookTriggered(id: string, success: boolean): Promis
         updated_at: new Date().toISOString(),
       })
       .eq('id', id);
-  } else {
-    // Increment failure count
-    await client.rpc('increment_webhook_failure_count', { webhook_id: id });
+
+    return 0;
   }
+
+  // Increment failure count
+  const { data, error } = await client.rpc('increment_webhook_failure_count', { webhook_id: id });
+
+  if (error) {
+    throw new Error(`Failed to increment webhook failure count: ${error.message}`);
+  }
+
+  return typeof data === 'number' ? data : 0;
 }
 
 /**
@@ -370,12 +428,92 @@ export async function updateWebhookDelivery(
   }
 }
 
+/**
+ * Get a webhook delivery by ID
+ */
+export async function getWebhookDeliveryById(id: string): Promise<WebhookDelivery | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(`Failed to fetch webhook delivery: ${error.message}`);
+  }
+
+  return data as WebhookDelivery | null;
+}
+
+/**
+ * Get deliveries whose scheduled retry is due, oldest first
+ * Includes retries whose claim expired, e.g. because the worker was stopped mid-send.
+ */
+export async function getDueWebhookDeliveries(limit: number = 50): Promise<WebhookDelivery[]> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('webhook_deliveries')
+    .select('*')
+    .in('status', ['retrying', 'pending'])
+    .lte('next_retry_at', new Date().toISOString())
+    .order('next_retry_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due webhook deliveries: ${error.message}`);
+  }
+
+  return (data || []) as WebhookDelivery[];
+}
+
+/**
+ * Claim a due delivery for a retry attempt
+ * Moves it to 'pending' with next_retry_at set to the claim expiry, so concurrent
+ * workers don't send it twice and a claim that is never completed is retried later.
+ *
+ * @param claimExpiresAt - When the delivery becomes due again if the attempt isn't recorded
+ * @returns The claimed delivery, or null if another worker claimed it first
+ */
+export async function claimWebhookDelivery(id: string, claimExpiresAt: Date): Promise<WebhookDelivery | null> {
+  const client = await getSupabaseAdmin();
+
+  if (!client) {
+    throw new Error('Supabase client not configured');
+  }
+
+  const { data, error } = await client
+    .from('webhook_deliveries')
+    .update({ status: 'pending', next_retry_at: claimExpiresAt.toISOString() })
+    .eq('id', id)
+    .in('status', ['retrying', 'pending'])
+    .lte('next_retry_at', new Date().toISOString())
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim webhook delivery: ${error.message}`);
+  }
+
+  return data as WebhookDelivery | null;
+}
+
 /**
  * Get deliveries for a specific webhook
  */
 export async function getWebhookDeliveries(
   webhookId: string,
-  options: { limit?: number; offset?: number } = {}
+  options: { limit?: number; offset?: number; status?: WebhookDeliveryStatus } = {}
 ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
   const client = await getSupabaseAdmin();
 
@@ -387,20 +525,32 @@ export async function getWebhookDeliveries(
   const offset = options.offset || 0;
 
   // Get total count
-  const { count, error: countError } = await client
+  let countQuery = client
     .from('webhook_deliveries')
     .select('*', { count: 'exact', head: true })
     .eq('webhook_id', webhookId);
 
+  if (options.status) {
+    countQuery = countQuery.eq('status', options.status);
+  }
+
+  const { count, error: countError } = await countQuery;
+
   if (countError) {
     throw new Error(`Failed to count webhook deliveries: ${countError.message}`);
   }
 
   // Get paginated results
-  const { data, error } = await client
+  let query = client
     .from('webhook_deliveries')
     .select('*')
-    .eq('webhook_id', webhookId)
+    .eq('webhook_id', webhookId);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+
+  const { data, error } = await query
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1);
 
@@ -455,6 +605,8 @@ function mapWebhookFromDb(data: any): Webhook {
     enabled: data.enabled,
     last_triggered_at: data.last_triggered_at,
     failure_count: data.failure_count || 0,
+    disabled_reason: data.disabled_reason || null,
+    payload_template: data.payload_template || null,
     created_at: data.created_at,
     updated_at: data.updated_at,
   };
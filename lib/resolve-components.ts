@@ -1,10 +1,11 @@
 /**
  * Server-side utility to resolve component instances in layer tree
  * Replaces layers with componentId with the actual component layers
- * Applies component variable overrides during resolution
+ * Applies component variable overrides (and variant/boolean variables) during resolution
  */
 
 import type { Layer, Component, ComponentVariable } from '@/types';
+import { applyVariantAndBooleanOverrides } from './component-utils';
 
 /**
  * Transform layer IDs to be instance-specific to ensure unique IDs per component instance.
@@ -185,7 +186,12 @@ export function resolveComponents(layers: Layer[], components: Component[]): Lay
 
       if (component?.layers?.length) {
         // The component's first layer is the actual content (Section, etc.)
-        const componentContent = component.layers[0];
+        // Variant styles and boolean visibility target the component's own layers, so apply them first
+        const [componentContent] = applyVariantAndBooleanOverrides(
+          [component.layers[0]],
+          layer.componentOverrides,
+          component.variables
+        );
 
         // Recursively resolve nested components
         const nestedResolved = componentContent.children
@@ -0,0 +1,142 @@
+/**
+ * Automatic Redirect Service
+ *
+ * Creates redirects when the URL of a published page or dynamic page CMS
+ * item changes (slug edit, folder move or folder slug edit): as pending
+ * rules while the change is a draft, so they can be reviewed on the
+ * redirects settings page, and as active 301 rules once it is published.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import { getSettingByKey, setSetting } from '@/lib/repositories/settingsRepository';
+import { getAllPages } from '@/lib/repositories/pageRepository';
+import { getAllDraftPageFolders, getAllPublishedPageFolders } from '@/lib/repositories/pageFolderRepository';
+import { getValuesByFieldId } from '@/lib/repositories/collectionItemValueRepository';
+import { clearRedirectCache } from '@/lib/services/redirectService';
+import { diffPaths, applyPendingPathChanges, applyPublishedPathChanges } from '@/lib/redirect-utils';
+import { buildDynamicPageUrl, buildSlugPath } from '@/lib/page-utils';
+import type { Redirect } from '@/types';
+
+/**
+ * Get the URL paths of all pages and dynamic page CMS items, keyed by source
+ * ("page:<id>" or "item:<pageId>:<itemId>")
+ */
+async function getPagePaths(isPublished: boolean): Promise<Map<string, string>> {
+  const [pages, folders] = await Promise.all([
+    getAllPages({ is_published: isPublished }),
+    isPublished ? getAllPublishedPageFolders() : getAllDraftPageFolders(),
+  ]);
+
+  const paths = new Map<string, string>();
+
+  for (const page of pages) {
+    if (page.error_page !== null) continue;
+
+    if (!page.is_dynamic) {
+      paths.set(`page:${page.id}`, buildSlugPath(page, folders, 'page'));
+      continue;
+    }
+
+    const slugFieldId = page.settings?.cms?.slug_field_id;
+    if (!slugFieldId) continue;
+
+    const slugValues = await getValuesByFieldId(slugFieldId, isPublished);
+    for (const slugValue of slugValues) {
+      if (slugValue.value) {
+        paths.set(`item:${page.id}:${slugValue.item_id}`, buildDynamicPageUrl(page, folders, slugValue.value));
+      }
+    }
+  }
+
+  return paths;
+}
+
+async function saveRedirects(current: Redirect[], updated: Redirect[]): Promise<void> {
+  if (JSON.stringify(current) === JSON.stringify(updated)) return;
+
+  await setSetting('redirects', updated);
+  clearRedirectCache();
+}
+
+async function getStoredRedirects(): Promise<Redirect[]> {
+  const value = await getSettingByKey('redirects');
+  return Array.isArray(value) ? value as Redirect[] : [];
+}
+
+/**
+ * Create or update pending redirects for draft URL changes of published
+ * pages and CMS items (call after slugs or folders change; never throws)
+ */
+export async function syncPendingRedirects(): Promise<void> {
+  try {
+    const [publishedPaths, draftPaths, redirects] = await Promise.all([
+      getPagePaths(true),
+      getPagePaths(false),
+      getStoredRedirects(),
+    ]);
+
+    const updated = applyPendingPathChanges(redirects, diffPaths(publishedPaths, draftPaths));
+    await saveRedirects(redirects, updated);
+  } catch (error) {
+    console.error('[Redirects] Failed to sync pending redirects:', error);
+  }
+}
+
+/**
+ * Sync pending redirects after CMS values change, when one of the fields
+ * is the slug field of a dynamic page (never throws)
+ * @param fieldIds - IDs of the changed fields
+ */
+export async function syncPendingItemRedirects(fieldIds: string[]): Promise<void> {
+  if (fieldIds.length === 0) return;
+
+  try {
+    const pages = await getAllPages({ is_published: false, is_dynamic: true });
+    const isSlugField = pages.some((page) => {
+      const slugFieldId = page.settings?.cms?.slug_field_id;
+      return !!slugFieldId && fieldIds.includes(slugFieldId);
+    });
+
+    if (isSlugField) {
+      await syncPendingRedirects();
+    }
+  } catch (error) {
+    console.error('[Redirects] Failed to sync pending redirects:', error);
+  }
+}
+
+/**
+ * Get the published URL paths before a publish, to compare afterwards
+ * with applyPublishedRedirects (returns null when they can't be loaded)
+ */
+export async function getPublishedPagePaths(): Promise<Map<string, string> | null> {
+  try {
+    return await getPagePaths(true);
+  } catch (error) {
+    console.error('[Redirects] Failed to load published page paths:', error);
+    return null;
+  }
+}
+
+/**
+ * Create redirects for URL paths changed by a publish (never throws)
+ * @param pathsBefore - Published paths from getPublishedPagePaths before publishing
+ */
+export async function applyPublishedRedirects(pathsBefore: Map<string, string> | null): Promise<void> {
+  if (!pathsBefore) return;
+
+  try {
+    const [publishedPaths, draftPaths, redirects] = await Promise.all([
+      getPagePaths(true),
+      getPagePaths(false),
+      getStoredRedirects(),
+    ]);
+
+    let updated = applyPublishedPathChanges(redirects, diffPaths(pathsBefore, publishedPaths));
+    updated = applyPendingPathChanges(updated, diffPaths(publishedPaths, draftPaths));
+    await saveRedirects(redirects, updated);
+  } catch (error) {
+    console.error('[Redirects] Failed to create redirects for published changes:', error);
+  }
+}
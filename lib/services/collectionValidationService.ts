@@ -0,0 +1,125 @@
+/**
+ * Collection Validation Service
+ *
+ * Enforces the validation rules of collection fields (required, unique,
+ * length, range, pattern and allowed file types) on item values before
+ * they are saved. Used by the internal and public items APIs and the CSV import.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
+import { getValuesByFieldId } from '@/lib/repositories/collectionItemValueRepository';
+import { getAssetsByIds } from '@/lib/repositories/assetRepository';
+import { isAssetFieldType } from '@/lib/collection-field-utils';
+import {
+  getFieldValidation,
+  validateItemValues,
+  UNIQUE_VALIDATION_FIELD_TYPES,
+  type FieldValidationContext,
+  type FieldValidationError,
+} from '@/lib/field-validation-utils';
+import type { CollectionField } from '@/types';
+
+export interface ValidateItemOptions {
+  /** Item being updated (excluded from unique checks) */
+  itemId?: string;
+  /** Only validate fields present in the values (partial updates) */
+  partial?: boolean;
+  /** Validate against published (true) or draft (false) fields and values */
+  isPublished?: boolean;
+  /** Fields of the collection, when already loaded */
+  fields?: CollectionField[];
+}
+
+/**
+ * Load values of fields with the unique rule, keyed by field ID and value
+ * @returns Map of field ID → value → IDs of the items with that value
+ */
+export async function getUniqueFieldValues(
+  fields: CollectionField[],
+  isPublished: boolean = false
+): Promise<Map<string, Map<string, string[]>>> {
+  const uniqueFields = fields.filter((field) => (
+    getFieldValidation(field).unique && UNIQUE_VALIDATION_FIELD_TYPES.includes(field.type)
+  ));
+
+  const entries = await Promise.all(uniqueFields.map(async (field) => {
+    const values = await getValuesByFieldId(field.id, isPublished);
+    const itemIdsByValue = new Map<string, string[]>();
+
+    for (const { value, item_id } of values) {
+      const key = value?.trim();
+      if (!key) continue;
+      itemIdsByValue.set(key, [...(itemIdsByValue.get(key) || []), item_id]);
+    }
+
+    return [field.id, itemIdsByValue] as const;
+  }));
+
+  return new Map(entries);
+}
+
+/**
+ * Load the files of assets referenced by fields with allowed file types
+ */
+export async function getValidationAssets(
+  fields: CollectionField[],
+  valuesList: Record<string, unknown>[]
+): Promise<Map<string, { filename: string; mime_type: string }>> {
+  const assetFieldIds = fields
+    .filter((field) => isAssetFieldType(field.type) && getFieldValidation(field).allowedFileTypes?.length)
+    .map((field) => field.id);
+
+  const assetIds = new Set<string>();
+  for (const values of valuesList) {
+    for (const fieldId of assetFieldIds) {
+      const value = values[fieldId];
+      if (!value) continue;
+
+      if (Array.isArray(value)) {
+        value.forEach((id) => typeof id === 'string' && assetIds.add(id));
+      } else if (typeof value === 'string' && value.startsWith('[')) {
+        try {
+          (JSON.parse(value) as unknown[]).forEach((id) => typeof id === 'string' && assetIds.add(id));
+        } catch {
+          // Not a list of asset IDs
+        }
+      } else if (typeof value === 'string') {
+        assetIds.add(value);
+      }
+    }
+  }
+
+  if (assetIds.size === 0) return new Map();
+
+  const assets = await getAssetsByIds(Array.from(assetIds));
+  return new Map(Object.entries(assets).map(([id, asset]) => [id, { filename: asset.filename, mime_type: asset.mime_type }]));
+}
+
+/**
+ * Validate the values of an item to create or update
+ *
+ * @param values - Values keyed by field ID
+ * @returns Validation errors (empty when valid)
+ */
+export async function validateCollectionItemValues(
+  collectionId: string,
+  values: Record<string, unknown>,
+  options: ValidateItemOptions = {}
+): Promise<FieldValidationError[]> {
+  const { itemId, partial = false, isPublished = false } = options;
+  const fields = options.fields || await getFieldsByCollectionId(collectionId, isPublished);
+
+  const [uniqueValues, assets] = await Promise.all([
+    getUniqueFieldValues(partial ? fields.filter((field) => field.id in values) : fields, isPublished),
+    getValidationAssets(fields, [values]),
+  ]);
+
+  const context: FieldValidationContext = {
+    isDuplicate: (fieldId, value) => (uniqueValues.get(fieldId)?.get(value) || []).some((id) => id !== itemId),
+    getAsset: (assetId) => assets.get(assetId),
+  };
+
+  return validateItemValues(fields, values, { ...context, partial });
+}
@@ -7,6 +7,8 @@
 import nodemailer from 'nodemailer';
 import type { Transporter } from 'nodemailer';
 import { getSettingByKey } from '@/lib/repositories/settingsRepository';
+import { formatFileSize } from '@/lib/asset-utils';
+import type { FormSubmissionFileLink } from '@/types';
 
 export interface EmailSettings {
   enabled: boolean;
@@ -29,6 +31,7 @@ export interface FormSubmissionEmailData {
     referrer?: string;
     submitted_at: string;
   };
+  files?: FormSubmissionFileLink[];
   replyTo?: string;
 }
 
@@ -98,6 +101,19 @@ function generateEmailHtml(data: FormSubmissionEmailData): string {
     )
     .join('');
 
+  const files = (data.files || [])
+    .map(
+      (file) =>
+        `<li style="margin-bottom: 4px;"><a href="${escapeHtml(file.url)}" style="color: #2563eb;">${escapeHtml(file.filename)}</a> <span style="color: #6b7280;">(${escapeHtml(file.field_name)}, ${formatFileSize(file.file_size)})</span></li>`
+    )
+    .join('');
+
+  const filesSection = files
+    ? `<h3 style="font-size: 14px; margin: 24px 0 8px;">Attachments</h3>
+  <ul style="padding-left: 20px; margin: 0;">${files}</ul>
+  <p style="font-size: 12px; color: #6b7280;">Download links expire after 7 days.</p>`
+    : '';
+
   return `
 <!DOCTYPE html>
 <html>
@@ -111,6 +127,7 @@ function generateEmailHtml(data: FormSubmissionEmailData): string {
       ${fields}
     </tbody>
   </table>
+  ${filesSection}
 </body>
 </html>
   `.trim();
@@ -120,9 +137,19 @@ function generateEmailHtml(data: FormSubmissionEmailData): string {
  * Generate plain text email body for form submission notification
  */
 function generateEmailText(data: FormSubmissionEmailData): string {
-  return Object.entries(data.payload)
+  const fields = Object.entries(data.payload)
     .map(([key, value]) => `${key}: ${String(value ?? '')}`)
     .join('\n');
+
+  if (!data.files || data.files.length === 0) {
+    return fields;
+  }
+
+  const files = data.files
+    .map((file) => `${file.filename} (${file.field_name}, ${formatFileSize(file.file_size)}): ${file.url}`)
+    .join('\n');
+
+  return `${fields}\n\nAttachments (links expire after 7 days):\n${files}`;
 }
 
 /**
@@ -0,0 +1,142 @@
+/**
+ * Form File Service
+ *
+ * Stores files uploaded through form file inputs and links them to their
+ * submission. Files live in a private storage bucket, so every place that
+ * shows them (dashboard, v1 API, webhooks, emails) gets signed download URLs.
+ */
+
+import {
+  uploadFormFile,
+  createSignedFormFileUrls,
+  deleteFormFiles,
+} from '@/lib/file-upload';
+import {
+  createFormSubmissionFiles,
+  getFilesBySubmissionIds,
+  getFilesByFormId,
+} from '@/lib/repositories/formSubmissionFileRepository';
+import type {
+  FormSubmission,
+  FormSubmissionFile,
+  FormSubmissionFileLink,
+  CreateFormSubmissionFileData,
+} from '@/types';
+
+/** Lifetime of download links shown in the dashboard and returned by the API (1 hour) */
+export const FORM_FILE_URL_EXPIRY_SECONDS = 60 * 60;
+
+/** Lifetime of download links sent in webhooks and notification emails (7 days) */
+export const FORM_FILE_NOTIFICATION_URL_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Upload a submission's files and link them to the submission
+ * Files that fail to upload are logged and skipped so the submission is kept.
+ *
+ * @param submission - The stored submission
+ * @param files - Field name -> uploaded files
+ */
+export async function saveFormSubmissionFiles(
+  submission: FormSubmission,
+  files: Record<string, File[]>
+): Promise<FormSubmissionFile[]> {
+  const records: CreateFormSubmissionFileData[] = [];
+
+  for (const [fieldName, fieldFiles] of Object.entries(files)) {
+    for (const file of fieldFiles) {
+      const storagePath = await uploadFormFile(file, submission.form_id);
+
+      if (!storagePath) {
+        console.error(`[FormFiles] Failed to upload ${file.name} for submission ${submission.id}`);
+        continue;
+      }
+
+      records.push({
+        submission_id: submission.id,
+        form_id: submission.form_id,
+        field_name: fieldName,
+        filename: file.name,
+        mime_type: file.type || 'application/octet-stream',
+        file_size: file.size,
+        storage_path: storagePath,
+      });
+    }
+  }
+
+  return createFormSubmissionFiles(records);
+}
+
+/**
+ * Add signed download URLs to file records
+ */
+export async function signFormSubmissionFiles(
+  files: FormSubmissionFile[],
+  expiresIn: number = FORM_FILE_URL_EXPIRY_SECONDS
+): Promise<FormSubmissionFile[]> {
+  const urls = await createSignedFormFileUrls(
+    files.map((file) => file.storage_path),
+    expiresIn
+  );
+
+  return files.map((file) => ({
+    ...file,
+    url: urls.get(file.storage_path),
+  }));
+}
+
+/**
+ * Get download links for a new submission's files, for webhooks and notification emails
+ */
+export async function getFormSubmissionFileLinks(
+  files: FormSubmissionFile[]
+): Promise<FormSubmissionFileLink[]> {
+  const signedFiles = await signFormSubmissionFiles(files, FORM_FILE_NOTIFICATION_URL_EXPIRY_SECONDS);
+
+  return signedFiles
+    .filter((file) => file.url)
+    .map((file) => ({
+      field_name: file.field_name,
+      filename: file.filename,
+      mime_type: file.mime_type,
+      file_size: file.file_size,
+      url: file.url as string,
+    }));
+}
+
+/**
+ * Attach each submission's files (with signed download URLs)
+ */
+export async function withSubmissionFiles(
+  submissions: FormSubmission[],
+  expiresIn: number = FORM_FILE_URL_EXPIRY_SECONDS
+): Promise<FormSubmission[]> {
+  const files = await getFilesBySubmissionIds(submissions.map((submission) => submission.id));
+
+  if (files.length === 0) {
+    return submissions.map((submission) => ({ ...submission, files: [] }));
+  }
+
+  const signedFiles = await signFormSubmissionFiles(files, expiresIn);
+
+  return submissions.map((submission) => ({
+    ...submission,
+    files: signedFiles.filter((file) => file.submission_id === submission.id),
+  }));
+}
+
+/**
+ * Remove the stored files of submissions that are about to be deleted
+ * File records are removed with the submissions (ON DELETE CASCADE).
+ */
+export async function deleteSubmissionFiles(submissionIds: string[]): Promise<void> {
+  const files = await getFilesBySubmissionIds(submissionIds);
+  await deleteFormFiles(files.map((file) => file.storage_path));
+}
+
+/**
+ * Remove the stored files of all submissions to a form
+ */
+export async function deleteFormSubmissionFiles(formId: string): Promise<void> {
+  const files = await getFilesByFormId(formId);
+  await deleteFormFiles(files.map((file) => file.storage_path));
+}
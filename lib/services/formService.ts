@@ -0,0 +1,108 @@
+/**
+ * Form Service
+ *
+ * Looks up form elements by their form ID so public submission endpoints
+ * can read the form definition and settings server-side instead of
+ * trusting the browser.
+ *
+ * Form IDs are only unique within a page, so forms are looked up on the
+ * page they were submitted from. Definitions are kept in memory for a short
+ * time, so submissions don't load the page and its components every time.
+ */
+
+import { getPublishedLayers, getDraftLayers } from '@/lib/repositories/pageLayersRepository';
+import { getComponentsByIds } from '@/lib/repositories/componentRepository';
+import { collectComponentIds } from '@/lib/component-utils';
+import { resolveComponents } from '@/lib/resolve-components';
+import { buildFormDefinition } from '@/lib/form-utils';
+import type { Component, FormDefinition, Layer } from '@/types';
+
+const FORM_DEFINITIONS_CACHE_TTL = 30 * 1000; // 30 seconds
+
+// Only found forms are cached, so made-up page/form IDs can't grow the cache
+const formDefinitionsCache = new Map<string, { definition: FormDefinition; expiresAt: number }>();
+
+/**
+ * Find a form layer by form ID in a layer tree
+ * The form ID is the form layer's custom element ID (layer.settings.id)
+ */
+export function findFormLayerInTree(layers: Layer[], formId: string): Layer | null {
+  for (const layer of layers) {
+    if (layer.name === 'form' && (layer.settings?.id || 'unnamed-form') === formId) {
+      return layer;
+    }
+    if (layer.children) {
+      const found = findFormLayerInTree(layer.children, formId);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load the components used in a layer tree, including components nested in components
+ */
+async function getComponentsInLayers(layers: Layer[], isPublished: boolean): Promise<Component[]> {
+  const components: Record<string, Component> = {};
+  const requestedIds = new Set<string>();
+  let pendingIds = Array.from(collectComponentIds(layers));
+
+  while (pendingIds.length > 0) {
+    pendingIds.forEach((id) => requestedIds.add(id));
+    const loaded = Object.values(await getComponentsByIds(pendingIds, isPublished));
+    loaded.forEach((component) => { components[component.id] = component; });
+
+    pendingIds = Array.from(new Set(loaded.flatMap((component) => Array.from(collectComponentIds(component.layers || [])))))
+      .filter((id) => !requestedIds.has(id));
+  }
+
+  return Object.values(components);
+}
+
+/**
+ * Find a form layer on a page, including forms inside the page's components
+ */
+async function findFormLayerOnPage(pageId: string, formId: string, isPublished: boolean): Promise<Layer | null> {
+  const pageLayers = isPublished ? await getPublishedLayers(pageId) : await getDraftLayers(pageId);
+  const layers = pageLayers?.layers || [];
+
+  const found = findFormLayerInTree(layers, formId);
+  if (found) return found;
+
+  const components = await getComponentsInLayers(layers, isPublished);
+  if (components.length === 0) return null;
+
+  return findFormLayerInTree(resolveComponents(layers, components), formId);
+}
+
+/**
+ * Get the form layer for a form ID on a page, preferring the published page
+ * Falls back to draft layers so forms submitted from preview still resolve
+ */
+export async function getFormLayer(pageId: string, formId: string): Promise<Layer | null> {
+  const publishedForm = await findFormLayerOnPage(pageId, formId, true);
+  if (publishedForm) return publishedForm;
+
+  return findFormLayerOnPage(pageId, formId, false);
+}
+
+/**
+ * Get the form definition (fields and settings) for a form ID on a page (cached in memory)
+ */
+export async function getFormDefinition(pageId: string, formId: string): Promise<FormDefinition | null> {
+  const cacheKey = `${pageId}:${formId}`;
+  const cached = formDefinitionsCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.definition;
+  }
+
+  const formLayer = await getFormLayer(pageId, formId);
+  if (!formLayer) {
+    formDefinitionsCache.delete(cacheKey);
+    return null;
+  }
+
+  const definition = buildFormDefinition(formLayer);
+  formDefinitionsCache.set(cacheKey, { definition, expiresAt: Date.now() + FORM_DEFINITIONS_CACHE_TTL });
+  return definition;
+}
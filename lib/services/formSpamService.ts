@@ -0,0 +1,272 @@
+/**
+ * Form Spam Service
+ *
+ * Scores public form submissions before they are stored.
+ * Each spam check returns a score and a reason; submissions whose total
+ * score reaches SPAM_SCORE_THRESHOLD are stored with status 'spam' and
+ * skip webhooks, email notifications and app integrations.
+ *
+ * Additional checks can be plugged in with registerSpamCheck().
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { countRecentSubmissionsByIp } from '@/lib/repositories/formSubmissionRepository';
+import type { FormSpamProtectionSettings, FormSpamVerdict } from '@/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SpamCheckContext {
+  formId: string;
+  payload: Record<string, unknown>;
+  settings: FormSpamProtectionSettings;
+  ip?: string;
+  honeypot?: string;
+  token?: string;
+}
+
+export interface SpamCheckResult {
+  score: number;
+  reason?: string;
+}
+
+export interface SpamCheck {
+  name: string;
+  check: (context: SpamCheckContext) => SpamCheckResult | Promise<SpamCheckResult>;
+}
+
+/** Total score at which a submission is considered spam */
+export const SPAM_SCORE_THRESHOLD = 1;
+
+/** Tokens older than this are rejected (the page was left open too long) */
+const FORM_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+const SPAM_KEYWORDS = [
+  'viagra',
+  'cialis',
+  'casino',
+  'crypto investment',
+  'bitcoin investment',
+  'seo services',
+  'backlinks',
+  'payday loan',
+  'work from home',
+];
+
+// =============================================================================
+// Time-to-submit Tokens
+// =============================================================================
+
+/**
+ * Get the signing secret from environment or use a fallback
+ */
+function getSigningSecret(): string {
+  return process.env.FORM_TOKEN_SECRET || process.env.PAGE_AUTH_SECRET || 'ycode-form-token-default-secret';
+}
+
+function signToken(formId: string, issuedAt: number): string {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${formId}:${issuedAt}`)
+    .digest('hex');
+}
+
+/**
+ * Create a signed token recording when a form was rendered
+ * Format: issuedAt.signature
+ */
+export function createFormToken(formId: string): string {
+  const issuedAt = Date.now();
+  return `${issuedAt}.${signToken(formId, issuedAt)}`;
+}
+
+/**
+ * Verify a form token and return its issue timestamp, or null if invalid
+ */
+export function verifyFormToken(token: string, formId: string): number | null {
+  const [issuedAtPart, signature] = token.split('.');
+  const issuedAt = Number(issuedAtPart);
+
+  if (!signature || !Number.isFinite(issuedAt)) {
+    return null;
+  }
+
+  const expected = Buffer.from(signToken(formId, issuedAt));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return issuedAt;
+}
+
+// =============================================================================
+// Built-in Checks
+// =============================================================================
+
+/**
+ * Any value in the hidden honeypot field means a bot filled in the form
+ */
+const honeypotCheck: SpamCheck = {
+  name: 'honeypot',
+  check: ({ settings, honeypot }) => {
+    if (!settings.honeypot || !honeypot) {
+      return { score: 0 };
+    }
+    return { score: SPAM_SCORE_THRESHOLD, reason: 'Honeypot field was filled in' };
+  },
+};
+
+/**
+ * Humans need a few seconds to fill in a form; bots post immediately
+ */
+const submitTimeCheck: SpamCheck = {
+  name: 'submit_time',
+  check: ({ formId, settings, token }) => {
+    const minSeconds = settings.min_submit_seconds || 0;
+    if (minSeconds <= 0) {
+      return { score: 0 };
+    }
+
+    const issuedAt = token ? verifyFormToken(token, formId) : null;
+    if (issuedAt === null) {
+      return { score: SPAM_SCORE_THRESHOLD, reason: 'Missing or invalid form token' };
+    }
+
+    const elapsedMs = Date.now() - issuedAt;
+
+    if (elapsedMs > FORM_TOKEN_MAX_AGE_MS) {
+      return { score: SPAM_SCORE_THRESHOLD, reason: 'Form token expired' };
+    }
+
+    if (elapsedMs < minSeconds * 1000) {
+      return {
+        score: SPAM_SCORE_THRESHOLD,
+        reason: `Submitted ${Math.round(elapsedMs / 1000)}s after load (minimum ${minSeconds}s)`,
+      };
+    }
+
+    return { score: 0 };
+  },
+};
+
+/**
+ * Limit how many submissions a single IP can send per hour
+ * Only applies to forms that set a rate limit.
+ */
+const rateLimitCheck: SpamCheck = {
+  name: 'rate_limit',
+  check: async ({ settings, ip }) => {
+    const limit = settings.rate_limit || 0;
+    if (!ip || limit <= 0) {
+      return { score: 0 };
+    }
+
+    const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MS);
+    const count = await countRecentSubmissionsByIp(ip, since);
+
+    if (count >= limit) {
+      return { score: SPAM_SCORE_THRESHOLD, reason: `Rate limit exceeded (${count} submissions in the last hour)` };
+    }
+
+    return { score: 0 };
+  },
+};
+
+/**
+ * Heuristics on the submitted text: links, markup and common spam phrases
+ */
+const contentCheck: SpamCheck = {
+  name: 'content',
+  check: ({ payload }) => {
+    const text = Object.values(payload)
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .filter((value): value is string => typeof value === 'string')
+      .join('\n');
+
+    if (!text) {
+      return { score: 0 };
+    }
+
+    const reasons: string[] = [];
+    let score = 0;
+
+    const linkCount = (text.match(/https?:\/\//gi) || []).length;
+    if (linkCount >= 6) {
+      score += 1;
+      reasons.push(`Contains ${linkCount} links`);
+    } else if (linkCount >= 3) {
+      score += 0.5;
+      reasons.push(`Contains ${linkCount} links`);
+    }
+
+    if (/\[url=|<a\s+href/i.test(text)) {
+      score += 1;
+      reasons.push('Contains link markup');
+    }
+
+    const lowerText = text.toLowerCase();
+    const matchedKeywords = SPAM_KEYWORDS.filter((keyword) => lowerText.includes(keyword));
+    if (matchedKeywords.length > 0) {
+      score += Math.min(matchedKeywords.length * 0.5, 1);
+      reasons.push(`Contains spam phrases: ${matchedKeywords.join(', ')}`);
+    }
+
+    return { score, reason: reasons.length > 0 ? reasons.join('; ') : undefined };
+  },
+};
+
+const spamChecks: SpamCheck[] = [
+  honeypotCheck,
+  submitTimeCheck,
+  rateLimitCheck,
+  contentCheck,
+];
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * Register an additional spam check (e.g. a third-party spam API)
+ */
+export function registerSpamCheck(check: SpamCheck): void {
+  if (spamChecks.some((existing) => existing.name === check.name)) {
+    return;
+  }
+  spamChecks.push(check);
+}
+
+/**
+ * Run all spam checks against a submission
+ * A failing check is logged and skipped so spam scoring never blocks a form.
+ */
+export async function scoreFormSubmission(context: SpamCheckContext): Promise<FormSpamVerdict> {
+  const results = await Promise.allSettled(
+    spamChecks.map(async (spamCheck) => spamCheck.check(context))
+  );
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`[FormSpam] Check "${spamChecks[index].name}" failed:`, result.reason);
+      return;
+    }
+
+    score += result.value.score;
+    if (result.value.score > 0 && result.value.reason) {
+      reasons.push(result.value.reason);
+    }
+  });
+
+  return {
+    is_spam: score >= SPAM_SCORE_THRESHOLD,
+    score,
+    reasons,
+  };
+}
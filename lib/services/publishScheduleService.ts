@@ -0,0 +1,201 @@
+/**
+ * Publish Schedule Service
+ *
+ * Runs scheduled publishes and unpublishes once they are due. Called every
+ * minute by the /ycode/api/cron/publish-schedules route.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import { publish, type PublishOptions } from '@/lib/services/publishService';
+import { clearAllCache } from '@/lib/services/cacheService';
+import { rebuildSearchIndex } from '@/lib/services/searchIndexService';
+import { dispatchSitePublishedEvent } from '@/lib/services/webhookService';
+import { hardDeleteItem } from '@/lib/repositories/collectionItemRepository';
+import {
+  getDuePublishSchedules,
+  claimPublishSchedule,
+  completePublishSchedules,
+} from '@/lib/repositories/publishScheduleRepository';
+import type { CreatePublishScheduleData, PublishSchedule } from '@/types';
+
+export interface RunPublishSchedulesResult {
+  processed: number;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Validate a schedule request body
+ */
+export function parsePublishSchedule(
+  body: Record<string, unknown>
+): { data: CreatePublishScheduleData; error?: undefined } | { data?: undefined; error: string } {
+  const { action, target_type, target_id, collection_id, scheduled_at } = body;
+
+  if (action !== 'publish' && action !== 'unpublish') {
+    return { error: 'Action must be publish or unpublish' };
+  }
+
+  if (target_type !== 'site' && target_type !== 'page' && target_type !== 'collection_item') {
+    return { error: 'Target type must be site, page or collection_item' };
+  }
+
+  if (action === 'unpublish' && target_type !== 'collection_item') {
+    return { error: 'Only collection items can be scheduled to unpublish' };
+  }
+
+  if (target_type !== 'site' && (!target_id || typeof target_id !== 'string')) {
+    return { error: 'Target ID is required' };
+  }
+
+  if (target_type === 'collection_item' && (!collection_id || typeof collection_id !== 'string')) {
+    return { error: 'Collection ID is required for collection items' };
+  }
+
+  const scheduledAt = typeof scheduled_at === 'string' ? new Date(scheduled_at) : null;
+  if (!scheduledAt || isNaN(scheduledAt.getTime())) {
+    return { error: 'A valid schedule time is required' };
+  }
+
+  if (scheduledAt.getTime() <= Date.now()) {
+    return { error: 'Schedule time must be in the future' };
+  }
+
+  return {
+    data: {
+      action,
+      target_type,
+      target_id: target_type === 'site' ? null : target_id as string,
+      collection_id: target_type === 'collection_item' ? collection_id as string : null,
+      scheduled_at: scheduledAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Publish options covering the due publish schedules
+ * A due site-wide publish covers every page and item, so they are merged.
+ */
+function getScheduledPublishOptions(schedules: PublishSchedule[]): PublishOptions {
+  if (schedules.some((schedule) => schedule.target_type === 'site')) {
+    return { publishAll: true };
+  }
+
+  const idsOf = (targetType: PublishSchedule['target_type']) => Array.from(new Set(
+    schedules
+      .filter((schedule) => schedule.target_type === targetType && schedule.target_id)
+      .map((schedule) => schedule.target_id as string)
+  ));
+
+  const pageIds = idsOf('page');
+  const collectionItemIds = idsOf('collection_item');
+
+  return {
+    pageIds: pageIds.length > 0 ? pageIds : undefined,
+    collectionItemIds: collectionItemIds.length > 0 ? collectionItemIds : undefined,
+  };
+}
+
+/**
+ * Remove the live version of a collection item
+ * The draft is kept, so the item can be published again.
+ */
+async function unpublishCollectionItem(itemId: string): Promise<void> {
+  await hardDeleteItem(itemId, true);
+}
+
+/**
+ * Run every publish schedule that is due
+ *
+ * Publishes run first, as a single publish, then unpublishes, so an item
+ * scheduled to publish and expire at the same time ends up unpublished.
+ */
+export async function runDuePublishSchedules(): Promise<RunPublishSchedulesResult> {
+  const dueSchedules = await getDuePublishSchedules();
+  const summary: RunPublishSchedulesResult = { processed: 0, completed: 0, failed: 0 };
+
+  const claimed: PublishSchedule[] = [];
+  for (const dueSchedule of dueSchedules) {
+    const schedule = await claimPublishSchedule(dueSchedule.id);
+    if (schedule) claimed.push(schedule); // Otherwise claimed by another worker or cancelled
+  }
+
+  if (claimed.length === 0) {
+    return summary;
+  }
+
+  summary.processed = claimed.length;
+
+  const completedIds: string[] = [];
+  let pagesCount = 0;
+  let collectionItemsCount = 0;
+  let unpublishedCount = 0;
+
+  // Publishes
+  const publishSchedules = claimed.filter((schedule) => schedule.action === 'publish');
+  if (publishSchedules.length > 0) {
+    const ids = publishSchedules.map((schedule) => schedule.id);
+    try {
+      const result = await publish(getScheduledPublishOptions(publishSchedules));
+      pagesCount = result.changes.pages;
+      collectionItemsCount = result.changes.collectionItems;
+      await completePublishSchedules(ids, { status: 'completed' });
+      completedIds.push(...ids);
+    } catch (error) {
+      console.error('Scheduled publish failed:', error);
+      await completePublishSchedules(ids, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to publish',
+      });
+      summary.failed += ids.length;
+    }
+  }
+
+  // Unpublishes
+  const unpublishSchedules = claimed.filter((schedule) => schedule.action === 'unpublish');
+  for (const schedule of unpublishSchedules) {
+    try {
+      await unpublishCollectionItem(schedule.target_id as string);
+      await completePublishSchedules([schedule.id], { status: 'completed' });
+      completedIds.push(schedule.id);
+      unpublishedCount++;
+    } catch (error) {
+      console.error(`Scheduled unpublish of item ${schedule.target_id} failed:`, error);
+      await completePublishSchedules([schedule.id], {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Failed to unpublish',
+      });
+      summary.failed++;
+    }
+  }
+
+  if (unpublishedCount > 0) {
+    // Unpublished items leave the site search
+    try {
+      await rebuildSearchIndex();
+    } catch (error) {
+      console.error('Failed to rebuild search index:', error);
+    }
+
+    try {
+      await clearAllCache();
+    } catch {
+      // Silently handle - non-fatal
+    }
+  }
+
+  summary.completed = completedIds.length;
+
+  if (completedIds.length > 0) {
+    await dispatchSitePublishedEvent({
+      origin: 'schedule',
+      schedule_ids: completedIds,
+      pages_count: pagesCount,
+      collection_items_count: collectionItemsCount,
+      unpublished_items_count: unpublishedCount,
+    });
+  }
+
+  return summary;
+}
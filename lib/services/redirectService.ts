@@ -0,0 +1,65 @@
+/**
+ * Redirect Service
+ *
+ * Resolves redirect rules for incoming requests. Used by the proxy, which
+ * runs before every page render, so rules are kept in memory for a short
+ * time instead of being loaded from the database per request.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import { getSettingByKey } from '@/lib/repositories/settingsRepository';
+import { incrementRedirectHits } from '@/lib/repositories/redirectHitRepository';
+import { findRedirect, type RedirectMatch } from '@/lib/redirect-utils';
+import type { Redirect } from '@/types';
+
+const REDIRECTS_CACHE_TTL = 30 * 1000; // 30 seconds
+
+let redirectsCache: { redirects: Redirect[]; expiresAt: number } | null = null;
+
+/**
+ * Get redirect rules (cached in memory)
+ * Returns no rules when they can't be loaded, e.g. before setup.
+ */
+export async function getRedirects(): Promise<Redirect[]> {
+  if (redirectsCache && redirectsCache.expiresAt > Date.now()) {
+    return redirectsCache.redirects;
+  }
+
+  let redirects: Redirect[] = [];
+  try {
+    const value = await getSettingByKey('redirects');
+    redirects = Array.isArray(value) ? value as Redirect[] : [];
+  } catch {
+    // Not configured yet; page routes still check redirects themselves
+  }
+
+  redirectsCache = { redirects, expiresAt: Date.now() + REDIRECTS_CACHE_TTL };
+  return redirects;
+}
+
+/**
+ * Drop cached redirect rules (call after rules are updated)
+ */
+export function clearRedirectCache(): void {
+  redirectsCache = null;
+}
+
+/**
+ * Find the redirect for a request path
+ */
+export async function resolveRedirect(pathname: string, search: string = ''): Promise<RedirectMatch | null> {
+  const redirects = await getRedirects();
+  return findRedirect(redirects, pathname, search);
+}
+
+/**
+ * Count a followed redirect (never throws)
+ */
+export async function recordRedirectHit(redirectId: string): Promise<void> {
+  try {
+    await incrementRedirectHits(redirectId);
+  } catch (error) {
+    console.error('[Redirects] Failed to record hit:', error);
+  }
+}
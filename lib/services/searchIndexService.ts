@@ -0,0 +1,318 @@
+/**
+ * Search Index Service
+ *
+ * Builds the site search index from published content after each publish:
+ * one entry per page (layer text, including components) and per dynamic page
+ * CMS item (field values), for each locale. Searches it for the public search
+ * endpoint and search results layers.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import { getAllPages } from '@/lib/repositories/pageRepository';
+import { getAllPublishedPageFolders } from '@/lib/repositories/pageFolderRepository';
+import { getAllPublishedLayers } from '@/lib/repositories/pageLayersRepository';
+import { getAllComponents } from '@/lib/repositories/componentRepository';
+import { getAllLocales } from '@/lib/repositories/localeRepository';
+import { getTranslationsByLocale } from '@/lib/repositories/translationRepository';
+import { getFieldsByCollectionId } from '@/lib/repositories/collectionFieldRepository';
+import { getItemsByCollectionId } from '@/lib/repositories/collectionItemRepository';
+import { getValuesByItemIds } from '@/lib/repositories/collectionItemValueRepository';
+import { replaceSearchIndex, searchIndex } from '@/lib/repositories/searchIndexRepository';
+import {
+  extractCmsTranslatableItems,
+  extractComponentTranslatableItems,
+  extractPageTranslatableItems,
+  getTranslationValue,
+  type TranslatableItem,
+} from '@/lib/localisation-utils';
+import { buildLocalizedDynamicPageUrl, buildLocalizedSlugPath } from '@/lib/page-utils';
+import { getPasswordProtection } from '@/lib/page-auth';
+import { findDisplayField, getItemDisplayName } from '@/lib/collection-field-utils';
+import { formatOptionValue } from '@/lib/option-field-utils';
+import { INLINE_VARIABLE_REGEX } from '@/lib/inline-variables';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  buildSearchTsQuery,
+  formatSearchExcerptHtml,
+  getRichTextSearchContent,
+  normalizeSearchContent,
+  parseSearchExcerpt,
+} from '@/lib/site-search-utils';
+import type {
+  CollectionField,
+  CollectionItemWithValues,
+  Component,
+  Layer,
+  Locale,
+  Page,
+  PageFolder,
+  SearchIndexEntry,
+  SiteSearchResult,
+  Translation,
+} from '@/types';
+
+/** Field types whose values are indexed for dynamic page items */
+const INDEXED_FIELD_TYPES = ['text', 'rich_text', 'email', 'phone', 'option'];
+
+/** Locale of index entries: null for the default locale (or sites without locales) */
+interface IndexLocale {
+  locale: Locale | null;
+  translations: Record<string, Translation>;
+}
+
+/** Get the plain text of a translatable text or rich text value */
+function getTranslatableText(item: TranslatableItem, translations: Record<string, Translation>): string {
+  const value = getTranslationValue(translations[item.key]) || item.content_value;
+
+  if (item.content_type === 'richtext') {
+    try {
+      return getRichTextSearchContent(JSON.parse(value));
+    } catch {
+      return value;
+    }
+  }
+
+  // CMS variables have no text of their own
+  return value.replace(INLINE_VARIABLE_REGEX, ' ');
+}
+
+/** Collect the IDs of the components used in a layer tree (including nested components) */
+function collectComponentIds(layers: Layer[], componentsById: Map<string, Component>, ids: Set<string>): void {
+  for (const layer of layers) {
+    if (layer.componentId && !ids.has(layer.componentId)) {
+      ids.add(layer.componentId);
+      const component = componentsById.get(layer.componentId);
+      if (component) collectComponentIds(component.layers || [], componentsById, ids);
+    }
+    if (layer.children) collectComponentIds(layer.children, componentsById, ids);
+  }
+}
+
+/** Get the text of a page and its components for a locale */
+function getPageContent(
+  page: Page,
+  layers: Layer[],
+  componentsById: Map<string, Component>,
+  translations: Record<string, Translation>
+): string {
+  const items = extractPageTranslatableItems(page, layers)
+    .filter((item) => item.content_key.startsWith('layer:') || item.content_key === 'seo:description');
+
+  const componentIds = new Set<string>();
+  collectComponentIds(layers, componentsById, componentIds);
+  for (const componentId of componentIds) {
+    const component = componentsById.get(componentId);
+    if (component) items.push(...extractComponentTranslatableItems(component, component.layers || []));
+  }
+
+  return normalizeSearchContent(
+    items
+      .filter((item) => item.content_type !== 'asset_id')
+      .map((item) => getTranslatableText(item, translations))
+      .join(' ')
+  );
+}
+
+/** Get the title of a page for a locale (SEO title, or page name) */
+function getPageTitle(page: Page, translations: Record<string, Translation>): string {
+  const translatedTitle = getTranslationValue(translations[`page:${page.id}:seo:title`]);
+  return normalizeSearchContent(translatedTitle || page.settings?.seo?.title || page.name);
+}
+
+/** Get item values with text and rich text translations of a locale applied */
+function getTranslatedItemValues(
+  item: CollectionItemWithValues,
+  fields: CollectionField[],
+  translations: Record<string, Translation>
+): Record<string, string> {
+  const values = { ...item.values };
+
+  for (const translatableItem of extractCmsTranslatableItems(item, fields)) {
+    const translatedValue = getTranslationValue(translations[translatableItem.key]);
+    if (!translatedValue) continue;
+
+    const contentKey = translatableItem.content_key;
+    const field = fields.find((f) => (
+      contentKey === (f.key ? `field:key:${f.key}` : `field:id:${f.id}`)
+    ));
+    if (field) values[field.id] = translatedValue;
+  }
+
+  return values;
+}
+
+/** Get the indexed text of a CMS item (values of text, rich text, email, phone and option fields) */
+function getItemContent(values: Record<string, string>, fields: CollectionField[]): string {
+  const texts: string[] = [];
+
+  for (const field of fields) {
+    const value = values[field.id];
+    if (!value || !INDEXED_FIELD_TYPES.includes(field.type) || field.key === 'slug') continue;
+
+    if (field.type === 'rich_text') {
+      try {
+        texts.push(getRichTextSearchContent(JSON.parse(value)));
+      } catch {
+        texts.push(value);
+      }
+    } else if (field.type === 'option') {
+      texts.push(formatOptionValue(field, value));
+    } else {
+      texts.push(value);
+    }
+  }
+
+  return normalizeSearchContent(texts.join(' '));
+}
+
+/** Check if a page should be left out of the search index */
+function isExcludedPage(page: Page, folders: PageFolder[]): boolean {
+  return page.error_page != null
+    || page.deleted_at != null
+    || !!page.settings?.seo?.noindex
+    || getPasswordProtection(page, folders, null).isProtected;
+}
+
+/** Build the index entries of a dynamic page (one per published CMS item and locale) */
+async function buildDynamicPageEntries(
+  page: Page,
+  folders: PageFolder[],
+  indexLocales: IndexLocale[]
+): Promise<SearchIndexEntry[]> {
+  const collectionId = page.settings?.cms?.collection_id;
+  const slugFieldId = page.settings?.cms?.slug_field_id;
+  if (!collectionId || !slugFieldId) return [];
+
+  const [fields, { items }] = await Promise.all([
+    getFieldsByCollectionId(collectionId, true),
+    getItemsByCollectionId(collectionId, true),
+  ]);
+  if (items.length === 0) return [];
+
+  const valuesByItem = await getValuesByItemIds(items.map((item) => item.id), true);
+  const displayField = findDisplayField(fields);
+  const entries: SearchIndexEntry[] = [];
+
+  for (const item of items) {
+    const itemWithValues: CollectionItemWithValues = { ...item, values: valuesByItem[item.id] || {} };
+
+    for (const { locale, translations } of indexLocales) {
+      const values = getTranslatedItemValues(itemWithValues, fields, translations);
+      const slug = values[slugFieldId];
+      if (!slug) continue;
+
+      entries.push({
+        source_type: 'cms',
+        source_id: item.id,
+        page_id: page.id,
+        locale_code: locale && !locale.is_default ? locale.code : null,
+        title: normalizeSearchContent(getItemDisplayName({ ...itemWithValues, values }, displayField)),
+        url: buildLocalizedDynamicPageUrl(page, folders, slug, locale, translations),
+        content: getItemContent(values, fields),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Rebuild the search index from published content
+ * @returns Number of indexed entries
+ */
+export async function rebuildSearchIndex(): Promise<number> {
+  const [pages, folders, pageLayers, components, locales] = await Promise.all([
+    getAllPages({ is_published: true }),
+    getAllPublishedPageFolders(),
+    getAllPublishedLayers(),
+    getAllComponents(true),
+    getAllLocales(true),
+  ]);
+
+  const layersByPageId = new Map(pageLayers.map((entry) => [entry.page_id, entry.layers || []]));
+  const componentsById = new Map(components.map((component) => [component.id, component]));
+
+  // Default locale first, then one set of entries per translated locale
+  const indexLocales: IndexLocale[] = [{ locale: locales.find((l) => l.is_default) || null, translations: {} }];
+  for (const locale of locales.filter((l) => !l.is_default)) {
+    const translations: Record<string, Translation> = {};
+    for (const translation of await getTranslationsByLocale(locale.id, true)) {
+      translations[`${translation.source_type}:${translation.source_id}:${translation.content_key}`] = translation;
+    }
+    indexLocales.push({ locale, translations });
+  }
+
+  const entries: SearchIndexEntry[] = [];
+
+  for (const page of pages) {
+    if (isExcludedPage(page, folders)) continue;
+
+    if (page.is_dynamic) {
+      entries.push(...await buildDynamicPageEntries(page, folders, indexLocales));
+      continue;
+    }
+
+    const layers = layersByPageId.get(page.id) || [];
+    for (const { locale, translations } of indexLocales) {
+      entries.push({
+        source_type: 'page',
+        source_id: page.id,
+        page_id: page.id,
+        locale_code: locale && !locale.is_default ? locale.code : null,
+        title: getPageTitle(page, translations),
+        url: buildLocalizedSlugPath(page, folders, 'page', locale, translations),
+        content: getPageContent(page, layers, componentsById, translations),
+      });
+    }
+  }
+
+  return replaceSearchIndex(entries);
+}
+
+/**
+ * Search the site
+ * @param query - Search text from the visitor
+ * @param options.localeCode - Locale of the results (default locale when not set)
+ */
+export async function searchSite(
+  query: string,
+  options: { localeCode?: string | null; limit?: number; offset?: number } = {}
+): Promise<SiteSearchResult> {
+  const tsQuery = buildSearchTsQuery(query);
+  if (!tsQuery) {
+    return { query, hits: [], total: 0 };
+  }
+
+  // Entries of the default locale are stored without a locale code
+  let localeCode: string | null = options.localeCode || null;
+  if (localeCode) {
+    const locales = await getAllLocales(true);
+    const locale = locales.find((l) => l.code === localeCode);
+    localeCode = locale && !locale.is_default ? locale.code : null;
+  }
+
+  const limit = Math.min(Math.max(options.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const offset = Math.max(options.offset || 0, 0);
+  const { matches, total } = await searchIndex(tsQuery, localeCode, limit, offset);
+
+  return {
+    query,
+    total,
+    hits: matches.map((match) => {
+      const excerptParts = parseSearchExcerpt(match.excerpt);
+      return {
+        source_type: match.source_type,
+        source_id: match.source_id,
+        page_id: match.page_id,
+        title: match.title,
+        url: match.url,
+        excerpt: excerptParts.map((part) => part.text).join(''),
+        excerpt_html: formatSearchExcerptHtml(excerptParts),
+        excerpt_parts: excerptParts,
+        rank: match.rank,
+      };
+    }),
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Site Release Service
+ *
+ * Records each publish as a named release (a snapshot of the live site),
+ * compares releases and rolls the live site back to an earlier release.
+ * A rollback only replaces published content, drafts are kept, so the next
+ * publish brings the draft changes back live.
+ *
+ * ⚠️ Server-side only - contains database operations
+ */
+
+import {
+  createSiteRelease,
+  getSiteReleaseById,
+  getSiteReleaseSnapshot,
+  restoreSiteRelease,
+} from '@/lib/repositories/siteReleaseRepository';
+import { getSettingByKey, setSetting } from '@/lib/repositories/settingsRepository';
+import { savePublishedAt } from '@/lib/services/settingsService';
+import { rebuildSearchIndex } from '@/lib/services/searchIndexService';
+import { clearAllCache } from '@/lib/services/cacheService';
+import type {
+  SiteRelease,
+  SiteReleaseChange,
+  SiteReleaseChangeType,
+  SiteReleaseDiff,
+  SiteReleaseEntityType,
+  SiteReleaseSnapshot,
+  SiteReleaseTable,
+} from '@/types';
+
+/** Setting with the ID of the release that is live */
+export const LIVE_RELEASE_SETTING = 'live_release_id';
+
+/**
+ * Entity each table's rows belong to, in display order
+ * Rows of the entity's own table add or remove it, other rows change it.
+ */
+const RELEASE_TABLE_ENTITIES: Record<SiteReleaseTable, {
+  entityType: SiteReleaseEntityType;
+  getEntityId: (row: Record<string, any>) => string;
+}> = {
+  page_folders: { entityType: 'page_folder', getEntityId: (row) => row.id },
+  pages: { entityType: 'page', getEntityId: (row) => row.id },
+  page_layers: { entityType: 'page', getEntityId: (row) => row.page_id },
+  components: { entityType: 'component', getEntityId: (row) => row.id },
+  layer_styles: { entityType: 'layer_style', getEntityId: (row) => row.id },
+  collections: { entityType: 'collection', getEntityId: (row) => row.id },
+  collection_fields: { entityType: 'collection', getEntityId: (row) => row.collection_id },
+  collection_items: { entityType: 'collection_item', getEntityId: (row) => row.id },
+  collection_item_values: { entityType: 'collection_item', getEntityId: (row) => row.item_id },
+  locales: { entityType: 'locale', getEntityId: (row) => row.id },
+  translations: { entityType: 'locale', getEntityId: (row) => row.locale_id },
+};
+
+const ENTITY_TYPE_ORDER: SiteReleaseEntityType[] = [
+  'page_folder', 'page', 'component', 'layer_style', 'collection', 'collection_item', 'locale',
+];
+
+/** Default release name, e.g. "Release 2026-03-09 14:30 UTC" */
+export function getDefaultReleaseName(date: Date = new Date()): string {
+  return `Release ${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Record the live site as a release after a publish
+ * @param name - Release name (default name with the date when empty)
+ */
+export async function recordSiteRelease(name?: string | null): Promise<SiteRelease> {
+  const release = await createSiteRelease(name?.trim() || getDefaultReleaseName());
+  await setSetting(LIVE_RELEASE_SETTING, release.id);
+  return release;
+}
+
+/** Get the ID of the release that is live (null when the site changed outside of releases) */
+export async function getLiveReleaseId(): Promise<string | null> {
+  return (await getSettingByKey(LIVE_RELEASE_SETTING) as string | null) || null;
+}
+
+/**
+ * Roll the live site back to a release
+ * Restores the published content and CSS, rebuilds the search index and clears the cache.
+ */
+export async function rollbackToRelease(releaseId: string): Promise<SiteRelease> {
+  const release = await getSiteReleaseById(releaseId);
+  if (!release) {
+    throw new Error('Release not found');
+  }
+
+  await restoreSiteRelease(releaseId);
+  await setSetting(LIVE_RELEASE_SETTING, releaseId);
+  await savePublishedAt(new Date().toISOString());
+
+  try {
+    await rebuildSearchIndex();
+  } catch (error) {
+    console.error('[Release] Failed to rebuild search index:', error);
+  }
+
+  await clearAllCache();
+
+  return release;
+}
+
+/** Row content without timestamps, to compare rows of two releases */
+function serializeReleaseRow(row: Record<string, any>): string {
+  const { created_at: _createdAt, updated_at: _updatedAt, ...content } = row;
+  return JSON.stringify(content);
+}
+
+/** Get the name shown for an entity of a release */
+function getEntityName(
+  entityType: SiteReleaseEntityType,
+  entityId: string,
+  snapshots: SiteReleaseSnapshot[]
+): string {
+  const findRow = (table: SiteReleaseTable) => {
+    for (const snapshot of snapshots) {
+      const row = snapshot[table]?.find((r) => r.id === entityId);
+      if (row) return row;
+    }
+    return null;
+  };
+
+  switch (entityType) {
+    case 'page_folder': return findRow('page_folders')?.name || entityId;
+    case 'page': return findRow('pages')?.name || entityId;
+    case 'component': return findRow('components')?.name || entityId;
+    case 'layer_style': return findRow('layer_styles')?.name || entityId;
+    case 'collection': return findRow('collections')?.name || entityId;
+    case 'locale': return findRow('locales')?.label || entityId;
+    case 'collection_item': {
+      // Items are named by the value of their built-in name field
+      for (const snapshot of snapshots) {
+        const nameFieldIds = new Set(
+          (snapshot.collection_fields || []).filter((f) => f.key === 'name').map((f) => f.id)
+        );
+        const nameValue = (snapshot.collection_item_values || [])
+          .find((v) => v.item_id === entityId && nameFieldIds.has(v.field_id))?.value;
+        if (nameValue) return nameValue;
+      }
+      return entityId;
+    }
+  }
+}
+
+/**
+ * Compare two releases
+ * @param fromId - Older release
+ * @param toId - Newer release
+ */
+export async function diffSiteReleases(fromId: string, toId: string): Promise<SiteReleaseDiff> {
+  const [from, to, fromSnapshot, toSnapshot] = await Promise.all([
+    getSiteReleaseById(fromId),
+    getSiteReleaseById(toId),
+    getSiteReleaseSnapshot(fromId),
+    getSiteReleaseSnapshot(toId),
+  ]);
+
+  if (!from || !to || !fromSnapshot || !toSnapshot) {
+    throw new Error('Release not found');
+  }
+
+  // Entity key ("<type>:<id>") -> change
+  const entityChanges = new Map<string, SiteReleaseChangeType>();
+  const setChange = (entityType: SiteReleaseEntityType, entityId: string, change: SiteReleaseChangeType) => {
+    const key = `${entityType}:${entityId}`;
+    const current = entityChanges.get(key);
+    // Adding or removing an entity outweighs changes to its rows
+    if (!current || current === 'changed') {
+      entityChanges.set(key, change);
+    }
+  };
+
+  for (const [table, { entityType, getEntityId }] of Object.entries(RELEASE_TABLE_ENTITIES) as Array<[SiteReleaseTable, typeof RELEASE_TABLE_ENTITIES[SiteReleaseTable]]>) {
+    const fromRows = new Map((fromSnapshot[table] || []).map((row) => [row.id as string, row]));
+    const toRows = new Map((toSnapshot[table] || []).map((row) => [row.id as string, row]));
+
+    const setRowChange = (rowId: string, change: SiteReleaseChangeType, row: Record<string, any>) => {
+      const entityId = getEntityId(row);
+      // Only the entity's own row adds or removes it
+      setChange(entityType, entityId, entityId === rowId ? change : 'changed');
+    };
+
+    toRows.forEach((row, rowId) => {
+      const fromRow = fromRows.get(rowId);
+      if (!fromRow) {
+        setRowChange(rowId, 'added', row);
+      } else if (serializeReleaseRow(fromRow) !== serializeReleaseRow(row)) {
+        setChange(entityType, getEntityId(row), 'changed');
+      }
+    });
+
+    fromRows.forEach((row, rowId) => {
+      if (!toRows.has(rowId)) {
+        setRowChange(rowId, 'removed', row);
+      }
+    });
+  }
+
+  const snapshots = [toSnapshot, fromSnapshot];
+  const changes: SiteReleaseChange[] = Array.from(entityChanges.entries()).map(([key, change]) => {
+    const separatorIndex = key.indexOf(':');
+    const entityType = key.slice(0, separatorIndex) as SiteReleaseEntityType;
+    const entityId = key.slice(separatorIndex + 1);
+    return {
+      entity_type: entityType,
+      entity_id: entityId,
+      name: getEntityName(entityType, entityId, snapshots),
+      change,
+    };
+  });
+
+  changes.sort((a, b) => (
+    ENTITY_TYPE_ORDER.indexOf(a.entity_type) - ENTITY_TYPE_ORDER.indexOf(b.entity_type)
+    || a.name.localeCompare(b.name)
+  ));
+
+  return {
+    from,
+    to,
+    changes,
+    css_changed: JSON.stringify(fromSnapshot.published_css ?? null) !== JSON.stringify(toSnapshot.published_css ?? null),
+  };
+}
@@ -1,6 +1,8 @@
 import { getKnexClient, closeKnexClient, testKnexConnection } from '../knex-client';
 import { getSupabaseAdmin } from '@/lib/supabase-server';
 import { YCODE_EXTERNAL_API_URL } from '@/lib/config';
+import { FONT_ASSET_SOURCE, FONTS_SETTING } from '@/lib/font-utils';
+import { DESIGN_TOKENS_SETTING } from '@/lib/design-token-utils';
 
 // API key for uploading templates to the shared template service
 const TEMPLATE_UPLOAD_API_KEY =
@@ -32,6 +34,15 @@ const EXPORT_TABLES = [
   'translations',
 ];
 
+/**
+ * Settings to export with the content (the content depends on them).
+ * Their values replace the settings of the site the template is applied to.
+ */
+const EXPORT_SETTINGS = [
+  FONTS_SETTING, // Custom fonts used by font-<key> classes
+  DESIGN_TOKENS_SETTING, // Design tokens referenced by var() classes
+];
+
 /**
  * Columns to exclude from export by table.
  * These are either auto-generated or user-specific.
@@ -282,7 +293,7 @@ export async function exportTemplateSQL(
       // For assets table, exclude any seeded/external icons
       if (table === 'assets') {
         query = query.where(function() {
-          this.whereNull('source').orWhere('source', 'file-manager');
+          this.whereNull('source').orWhere('source', 'file-manager').orWhere('source', FONT_ASSET_SOURCE);
         });
       }
 
@@ -376,6 +387,29 @@ export async function exportTemplateSQL(
       sqlStatements.push('');
     }
 
+    // Export settings (after assets, so asset IDs in their values share placeholders)
+    if (await knex.schema.hasTable('settings')) {
+      const hasTenantId = await knex.schema.hasColumn('settings', 'tenant_id');
+      const settingRows = await knex('settings').whereIn('key', EXPORT_SETTINGS).select('key', 'value');
+
+      if (settingRows.length > 0) {
+        sqlStatements.push(`-- settings (${settingRows.length} rows)`);
+
+        for (const row of settingRows) {
+          const key = formatSqlValue(row.key);
+          const value = formatSqlValue(row.value, toPlaceholder);
+          const tenantCondition = hasTenantId ? ' AND "tenant_id" = \'{{TENANT_ID}}\'' : '';
+
+          sqlStatements.push(`DELETE FROM settings WHERE "key" = ${key}${tenantCondition};`);
+          sqlStatements.push(hasTenantId
+            ? `INSERT INTO settings ("key", "value", "tenant_id") VALUES (${key}, ${value}, '{{TENANT_ID}}');`
+            : `INSERT INTO settings ("key", "value") VALUES (${key}, ${value});`);
+        }
+
+        sqlStatements.push('');
+      }
+    }
+
     // Get the latest migration name for template versioning
     const lastMigration = await getLatestMigrationName(knex);
     console.log(`[exportTemplateSQL] Latest migration: ${lastMigration || 'none'}`);
@@ -3,17 +3,28 @@
  *
  * Handles dispatching webhook notifications for various events.
  * Supports HMAC signing, delivery logging, and event dispatching.
+ * Failed deliveries are retried with exponential backoff, and webhooks
+ * that keep failing are disabled automatically. Webhooks with a payload
+ * template receive the rendered template instead of the standard payload.
  */
 
 import { createHmac } from 'crypto';
 import {
+  getWebhookById,
   getWebhooksForEvent,
+  updateWebhook,
   createWebhookDelivery,
   updateWebhookDelivery,
+  getWebhookDeliveryById,
+  getDueWebhookDeliveries,
+  claimWebhookDelivery,
   markWebhookTriggered,
   type Webhook,
+  type WebhookDelivery,
   type WebhookEventType,
 } from '@/lib/repositories/webhookRepository';
+import { renderWebhookTemplate } from '@/lib/webhook-utils';
+import type { FormSubmissionFileLink } from '@/types';
 
 // =============================================================================
 // Types
@@ -37,6 +48,26 @@ export interface WebhookPayload {
   metadata?: Record<string, unknown>;
 }
 
+export type WebhookEventAction = 'created' | 'updated' | 'deleted';
+
+/** Delay before each retry of a failed delivery (1m, 5m, 30m, 2h, 6h) */
+export const WEBHOOK_RETRY_DELAYS_SECONDS = [60, 5 * 60, 30 * 60, 2 * 60 * 60, 6 * 60 * 60];
+
+/** Consecutive failed attempts after which a webhook is disabled */
+export const WEBHOOK_MAX_CONSECUTIVE_FAILURES = 15;
+
+/** Give up on a receiver that doesn't respond within this time */
+const WEBHOOK_TIMEOUT_MS = 15 * 1000;
+
+/** Maximum retries sent by one run of the retry worker */
+const WEBHOOK_RETRY_BATCH_SIZE = 20;
+
+/** Time one run of the retry worker may spend, leaving room within the 60s function limit */
+const WEBHOOK_RETRY_TIME_BUDGET_MS = 40 * 1000;
+
+/** Claimed retries that were never recorded (the worker was stopped) are due again after this */
+const WEBHOOK_RETRY_CLAIM_MS = 5 * 60 * 1000;
+
 // =============================================================================
 // Signature Generation
 // =============================================================================
@@ -97,6 +128,7 @@ export async function dispatchWebhookEvent(event: WebhookEvent): Promise<void> {
 
 /**
  * Deliver an event to a single webhook with logging
+ * Failed deliveries are scheduled for retry (see retryDueWebhookDeliveries).
  */
 async function deliverToWebhook(webhook: Webhook, event: WebhookEvent): Promise<void> {
   const payload: WebhookPayload = {
@@ -106,30 +138,85 @@ async function deliverToWebhook(webhook: Webhook, event: WebhookEvent): Promise<
     metadata: event.metadata,
   };
 
-  const payloadString = JSON.stringify(payload);
-
   // Create delivery log entry
-  let deliveryId: string | undefined;
+  let delivery: WebhookDelivery | null = null;
   try {
-    const delivery = await createWebhookDelivery({
+    delivery = await createWebhookDelivery({
       webhook_id: webhook.id,
       event_type: event.type,
       payload: payload as unknown as Record<string, unknown>,
       status: 'pending',
     });
-    deliveryId = delivery.id;
   } catch (error) {
     console.error('Failed to create webhook delivery log:', error);
   }
 
+  const result = await sendWebhookRequest(webhook, event.type, payload, delivery?.id, 1);
+
+  if (delivery) {
+    await recordDeliveryAttempt(delivery, 1, result);
+  }
+
+  await recordWebhookOutcome(webhook, result.ok);
+}
+
+// =============================================================================
+// Delivery Attempts
+// =============================================================================
+
+interface DeliveryAttemptResult {
+  ok: boolean;
+  status: number | null;
+  body: string;
+  durationMs: number;
+}
+
+/**
+ * Build the request body for a webhook
+ * Applies the webhook's payload template, falling back to the standard
+ * payload if the template can't be rendered.
+ */
+export function buildWebhookRequestBody(
+  webhook: Pick<Webhook, 'name' | 'payload_template'>,
+  payload: WebhookPayload | Record<string, unknown>
+): string {
+  if (webhook.payload_template) {
+    try {
+      return JSON.stringify(
+        renderWebhookTemplate(webhook.payload_template, payload as Record<string, unknown>)
+      );
+    } catch (error) {
+      console.error(`Failed to render payload template for ${webhook.name}:`, error);
+    }
+  }
+
+  return JSON.stringify(payload);
+}
+
+/**
+ * Send a payload to a webhook URL
+ * The stored delivery payload is always the standard payload; the template
+ * is rendered per attempt so retries pick up template changes.
+ * Never throws - network errors are returned as a failed result.
+ */
+async function sendWebhookRequest(
+  webhook: Webhook,
+  eventType: string,
+  payload: WebhookPayload | Record<string, unknown>,
+  deliveryId: string | undefined,
+  attempt: number
+): Promise<DeliveryAttemptResult> {
+  const payloadString = buildWebhookRequestBody(webhook, payload);
+
   // Build headers
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
     'User-Agent': 'Ycode-Webhook/1.0',
-    'X-Ycode-Event': event.type,
+    'X-Ycode-Event': eventType,
+    'X-Ycode-Attempt': String(attempt),
   };
 
-  // Add delivery ID header if available
+  // Add delivery ID header if available (stays the same across retries)
   if (deliveryId) {
     headers['X-Ycode-Delivery'] = deliveryId;
   }
@@ -147,50 +234,173 @@ async function deliverToWebhook(webhook: Webhook, event: WebhookEvent): Promise<
       method: 'POST',
       headers,
       body: payloadString,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
     });
 
-    const duration = Date.now() - startTime;
     const responseBody = await response.text();
 
-    // Update delivery log
-    if (deliveryId) {
-      await updateWebhookDelivery(deliveryId, {
-        status: response.ok ? 'success' : 'failed',
-        response_status: response.status,
-        response_body: responseBody.slice(0, 1000),
-        duration_ms: duration,
-      }).catch((err) => {
-        console.error('Failed to update webhook delivery log:', err);
-      });
-    }
-
-    // Update webhook trigger status
-    await markWebhookTriggered(webhook.id, response.ok);
-
     if (response.ok) {
       console.log(`Webhook delivered to ${webhook.name} (${webhook.id})`);
     } else {
       console.error(`Webhook failed for ${webhook.name}: ${response.status}`);
     }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: responseBody.slice(0, 1000),
+      durationMs: Date.now() - startTime,
+    };
+  } catch (error) {
+    console.error(`Webhook delivery failed for ${webhook.name}:`, error);
+
+    return {
+      ok: false,
+      status: null,
+      body: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Get when a failed delivery should be retried, or null when out of retries
+ *
+ * @param attempts - Number of attempts made so far
+ */
+export function getNextRetryAt(attempts: number, from: Date = new Date()): Date | null {
+  const delaySeconds = WEBHOOK_RETRY_DELAYS_SECONDS[attempts - 1];
+  if (delaySeconds === undefined) return null;
+  return new Date(from.getTime() + delaySeconds * 1000);
+}
+
+/**
+ * Update the delivery log with the result of an attempt and schedule a retry if needed
+ */
+async function recordDeliveryAttempt(
+  delivery: WebhookDelivery,
+  attempts: number,
+  result: DeliveryAttemptResult,
+  retry: boolean = true
+): Promise<void> {
+  const nextRetryAt = !result.ok && retry ? getNextRetryAt(attempts) : null;
+
+  await updateWebhookDelivery(delivery.id, {
+    status: result.ok ? 'success' : nextRetryAt ? 'retrying' : 'failed',
+    response_status: result.status,
+    response_body: result.body,
+    duration_ms: result.durationMs,
+    attempts,
+    next_retry_at: nextRetryAt ? nextRetryAt.toISOString() : null,
+    last_attempt_at: new Date().toISOString(),
+  }).catch((err) => {
+    console.error('Failed to update webhook delivery log:', err);
+  });
+}
+
+/**
+ * Track consecutive failures and disable webhooks that keep failing
+ */
+async function recordWebhookOutcome(webhook: Webhook, success: boolean): Promise<void> {
+  try {
+    const failureCount = await markWebhookTriggered(webhook.id, success);
+
+    if (!success && webhook.enabled && failureCount >= WEBHOOK_MAX_CONSECUTIVE_FAILURES) {
+      await updateWebhook(webhook.id, {
+        enabled: false,
+        disabled_reason: `Disabled after ${failureCount} consecutive failed deliveries`,
+      });
+      console.error(`Webhook ${webhook.name} (${webhook.id}) disabled after ${failureCount} consecutive failures`);
+    }
   } catch (error) {
-    const duration = Date.now() - startTime;
+    console.error('Failed to update webhook status:', error);
+  }
+}
 
-    // Update delivery log with failure
-    if (deliveryId) {
-      await updateWebhookDelivery(deliveryId, {
+// =============================================================================
+// Retries
+// =============================================================================
+
+/**
+ * Retry failed deliveries whose next attempt is due
+ *
+ * Run periodically by the retry worker (the /ycode/api/cron/webhook-retries
+ * route or `npm run webhooks:retry`). Deliveries for webhooks that were
+ * deleted or disabled in the meantime are moved to 'failed'. A run stops
+ * sending when its time budget is used up, leaving the rest for the next run.
+ */
+export async function retryDueWebhookDeliveries(
+  limit: number = WEBHOOK_RETRY_BATCH_SIZE
+): Promise<{ processed: number; succeeded: number; failed: number }> {
+  const startedAt = Date.now();
+  const dueDeliveries = await getDueWebhookDeliveries(limit);
+  const summary = { processed: 0, succeeded: 0, failed: 0 };
+
+  for (const dueDelivery of dueDeliveries) {
+    // Stop before an attempt could run past the time budget; the rest is picked up next run
+    if (Date.now() - startedAt + WEBHOOK_TIMEOUT_MS > WEBHOOK_RETRY_TIME_BUDGET_MS) break;
+
+    const delivery = await claimWebhookDelivery(dueDelivery.id, new Date(Date.now() + WEBHOOK_RETRY_CLAIM_MS));
+    if (!delivery) continue; // Claimed by another worker
+
+    summary.processed++;
+
+    const webhook = await getWebhookById(delivery.webhook_id);
+
+    if (!webhook || !webhook.enabled) {
+      await updateWebhookDelivery(delivery.id, {
         status: 'failed',
-        response_body: error instanceof Error ? error.message : 'Unknown error',
-        duration_ms: duration,
-      }).catch((err) => {
-        console.error('Failed to update webhook delivery log:', err);
+        response_body: 'Webhook is disabled - retry skipped',
+        next_retry_at: null,
       });
+      summary.failed++;
+      continue;
     }
 
-    // Mark webhook as failed
-    await markWebhookTriggered(webhook.id, false);
+    const attempts = delivery.attempts + 1;
+    const result = await sendWebhookRequest(webhook, delivery.event_type, delivery.payload, delivery.id, attempts);
 
-    console.error(`Webhook delivery failed for ${webhook.name}:`, error);
+    await recordDeliveryAttempt(delivery, attempts, result);
+    await recordWebhookOutcome(webhook, result.ok);
+
+    if (result.ok) {
+      summary.succeeded++;
+    } else {
+      summary.failed++;
+    }
   }
+
+  return summary;
+}
+
+/**
+ * Manually redeliver a past delivery
+ * Sends the original payload again as a new delivery. Works for disabled
+ * webhooks too, so a fixed endpoint can be checked before re-enabling it.
+ */
+export async function redeliverWebhookDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+  const original = await getWebhookDeliveryById(deliveryId);
+  if (!original) return null;
+
+  const webhook = await getWebhookById(original.webhook_id);
+  if (!webhook) return null;
+
+  const delivery = await createWebhookDelivery({
+    webhook_id: webhook.id,
+    event_type: original.event_type,
+    payload: original.payload,
+    status: 'pending',
+  });
+
+  const result = await sendWebhookRequest(webhook, delivery.event_type, delivery.payload, delivery.id, 1);
+
+  // Manual redeliveries are not retried automatically
+  await recordDeliveryAttempt(delivery, 1, result, false);
+  await markWebhookTriggered(webhook.id, result.ok).catch((error) => {
+    console.error('Failed to update webhook status:', error);
+  });
+
+  return getWebhookDeliveryById(delivery.id);
 }
 
 // =============================================================================
@@ -204,6 +414,7 @@ export async function dispatchFormSubmittedEvent(data: {
   form_id: string;
   submission_id: string;
   fields: Record<string, unknown>;
+  files?: FormSubmissionFileLink[];
   metadata?: {
     page_url?: string;
     user_agent?: string;
@@ -217,6 +428,7 @@ export async function dispatchFormSubmittedEvent(data: {
       form_id: data.form_id,
       submission_id: data.submission_id,
       fields: data.fields,
+      files: data.files || [],
     },
     metadata: data.metadata,
     resourceType: 'form',
@@ -226,10 +438,14 @@ export async function dispatchFormSubmittedEvent(data: {
 
 /**
  * Dispatch a site.published event
+ * origin tells receivers whether someone pressed Publish or a schedule ran.
  */
 export async function dispatchSitePublishedEvent(data: {
+  origin: 'manual' | 'schedule';
+  schedule_ids?: string[];
   pages_count?: number;
-  collections_count?: number;
+  collection_items_count?: number;
+  unpublished_items_count?: number;
 }): Promise<void> {
   await dispatchWebhookEvent({
     type: 'site.published',
@@ -336,3 +552,144 @@ export async function dispatchAssetUploadedEvent(data: {
     data,
   });
 }
+
+/**
+ * Dispatch a component.created / updated / deleted event
+ */
+export async function dispatchComponentEvent(
+  action: WebhookEventAction,
+  data: {
+    component_id: string;
+    component_name?: string;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `component.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+/**
+ * Dispatch a layer_style.created / updated / deleted event
+ */
+export async function dispatchLayerStyleEvent(
+  action: WebhookEventAction,
+  data: {
+    style_id: string;
+    style_name?: string;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `layer_style.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+/**
+ * Dispatch a locale.created / updated / deleted event
+ */
+export async function dispatchLocaleEvent(
+  action: WebhookEventAction,
+  data: {
+    locale_id: string;
+    code?: string;
+    label?: string;
+    is_default?: boolean;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `locale.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+/**
+ * Dispatch a translation.created / updated / deleted event
+ */
+export async function dispatchTranslationEvent(
+  action: WebhookEventAction,
+  data: {
+    translation_id: string;
+    locale_id?: string;
+    source_type?: string;
+    source_id?: string;
+    content_key?: string;
+    content_value?: string;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `translation.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+/** Translation listed in a translation.bulk_updated event */
+export interface TranslationEventKey {
+  translation_id: string;
+  locale_id: string;
+  source_type: string;
+  source_id: string;
+  content_key: string;
+}
+
+/**
+ * Dispatch a translation.bulk_updated event
+ * Sent once per bulk save or delete instead of an event per translation.
+ */
+export async function dispatchTranslationBulkEvent(
+  data: {
+    created?: TranslationEventKey[];
+    updated?: TranslationEventKey[];
+    deleted?: TranslationEventKey[];
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: 'translation.bulk_updated',
+    timestamp: new Date().toISOString(),
+    data,
+  });
+}
+
+/**
+ * Dispatch a collection.created / updated / deleted event
+ */
+export async function dispatchCollectionEvent(
+  action: WebhookEventAction,
+  data: {
+    collection_id: string;
+    collection_name?: string;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `collection.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+    resourceType: 'collection',
+    resourceId: data.collection_id,
+  });
+}
+
+/**
+ * Dispatch a collection_field.created / updated / deleted event
+ */
+export async function dispatchCollectionFieldEvent(
+  action: WebhookEventAction,
+  data: {
+    collection_id: string;
+    field_id: string;
+    field_name?: string;
+    field_type?: string;
+  }
+): Promise<void> {
+  await dispatchWebhookEvent({
+    type: `collection_field.${action}`,
+    timestamp: new Date().toISOString(),
+    data,
+    resourceType: 'collection',
+    resourceId: data.collection_id,
+  });
+}
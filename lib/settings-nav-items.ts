@@ -11,8 +11,12 @@ export interface SettingsNavItem {
 
 export const SETTINGS_NAV_ITEMS: SettingsNavItem[] = [
   { id: 'general', label: 'General', path: '/ycode/settings/general' },
+  { id: 'breakpoints', label: 'Breakpoints', path: '/ycode/settings/breakpoints' },
+  { id: 'fonts', label: 'Fonts', path: '/ycode/settings/fonts' },
+  { id: 'design-tokens', label: 'Design tokens', path: '/ycode/settings/design-tokens' },
   { id: 'users', label: 'Users', path: '/ycode/settings/users' },
   { id: 'redirects', label: 'Redirects', path: '/ycode/settings/redirects' },
+  { id: 'releases', label: 'Releases', path: '/ycode/settings/releases' },
   { id: 'email', label: 'Email', path: '/ycode/settings/email' },
   { id: 'templates', label: 'Templates', path: '/ycode/settings/templates' },
   { id: 'updates', label: 'Updates', path: '/ycode/settings/updates' },
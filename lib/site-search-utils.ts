@@ -0,0 +1,145 @@
+/**
+ * Site Search Utilities
+ *
+ * Shared by the search index (built on publish, see searchIndexService),
+ * the public search endpoint and the "Search results" layer.
+ *
+ * Pages with the search param (?q=...) are rendered dynamically (see proxy.ts)
+ * and search results layers are filled with hits during SSR (see page-fetcher).
+ */
+
+import type { Layer, SearchExcerptPart, SearchResultsSettings, SiteSearchSettings } from '@/types';
+
+/** URL query param with the search text of the search results layer */
+export const SITE_SEARCH_PARAM = 'q';
+
+/** Hits per search when no limit is given */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+export const MAX_SEARCH_LIMIT = 50;
+
+/** Excerpt match markers set by the search_site function */
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+/**
+ * Keys of the parts of the search results layer
+ * - Item: repeated for each hit
+ * - Title, URL, excerpt: text filled from the hit
+ * - Link: gets the hit URL as link
+ * - Empty: shown when a search has no hits
+ */
+export const SEARCH_RESULT_KEYS = {
+  item: 'searchResultItem',
+  title: 'searchResultTitle',
+  url: 'searchResultUrl',
+  excerpt: 'searchResultExcerpt',
+  link: 'searchResultLink',
+  empty: 'searchResultsEmpty',
+} as const;
+
+/** Get the settings of a site search input layer (null for other layers) */
+export function getSiteSearchSettings(layer: Layer): SiteSearchSettings | null {
+  return layer.name === 'siteSearch' ? layer.settings?.siteSearch || {} : null;
+}
+
+/** Get the settings of a search results layer, with defaults */
+export function getSearchResultsSettings(layer: Layer): SearchResultsSettings {
+  return {
+    limit: layer.settings?.searchResults?.limit || DEFAULT_SEARCH_LIMIT,
+  };
+}
+
+/** Get the words of a search text (letters and digits in any script) */
+export function getSearchTerms(search: string): string[] {
+  return (search.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).slice(0, 10);
+}
+
+/**
+ * Build a Postgres tsquery from a search text
+ * All words must match, as prefixes ("prod" matches "products").
+ * @returns The tsquery, or null when the text has no words
+ */
+export function buildSearchTsQuery(search: string): string | null {
+  const terms = getSearchTerms(search);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/** Split an excerpt from the search_site function into plain and matched parts */
+export function parseSearchExcerpt(excerpt: string): SearchExcerptPart[] {
+  const parts: SearchExcerptPart[] = [];
+  const pattern = new RegExp(`${MATCH_START}([\\s\\S]*?)${MATCH_END}`, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(excerpt)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ text: excerpt.slice(lastIndex, match.index), highlighted: false });
+    }
+    parts.push({ text: match[1], highlighted: true });
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < excerpt.length) {
+    parts.push({ text: excerpt.slice(lastIndex), highlighted: false });
+  }
+
+  return parts.filter((part) => part.text.length > 0);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/** Format excerpt parts as escaped HTML with matches wrapped in <mark> */
+export function formatSearchExcerptHtml(parts: SearchExcerptPart[]): string {
+  return parts
+    .map((part) => (part.highlighted ? `<mark>${escapeHtml(part.text)}</mark>` : escapeHtml(part.text)))
+    .join('');
+}
+
+/** Build rich text content (Tiptap JSON) of an excerpt, with matches in bold */
+export function buildSearchExcerptContent(parts: SearchExcerptPart[]): object {
+  return {
+    type: 'doc',
+    content: [
+      {
+        type: 'paragraph',
+        content: parts.map((part) => (
+          part.highlighted
+            ? { type: 'text', text: part.text, marks: [{ type: 'bold' }] }
+            : { type: 'text', text: part.text }
+        )),
+      },
+    ],
+  };
+}
+
+/**
+ * Get the text of rich text content (Tiptap JSON) for the search index
+ * Leaves out CMS variables, which have no text of their own.
+ */
+export function getRichTextSearchContent(node: unknown): string {
+  if (!node || typeof node !== 'object') return '';
+  const { type, text, content } = node as { type?: string; text?: unknown; content?: unknown };
+
+  if (type === 'text') return typeof text === 'string' ? text : '';
+  if (!Array.isArray(content)) return '';
+
+  const childTexts = content.map(getRichTextSearchContent);
+  // Separate paragraphs, headings and list items
+  return type === 'doc' || type === 'bulletList' || type === 'orderedList' || type === 'listItem' || type === 'blockquote'
+    ? childTexts.filter(Boolean).join(' ')
+    : childTexts.join('');
+}
+
+/** Collapse whitespace of indexed text */
+export function normalizeSearchContent(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,388 @@
+/**
+ * Slider utility functions
+ *
+ * Layout CSS and runtime behavior for slider layers. The same markup is used
+ * in the canvas and on published pages: slides are the children of the
+ * `sliderTrack` layer (including repeated collection items), laid out with a
+ * scroll-snapping flex track so touch swiping works natively.
+ */
+
+import type { Breakpoint, Layer, SliderSettings } from '@/types';
+import { getBreakpointCascade, getBreakpoints } from '@/lib/breakpoint-utils';
+
+export type SliderPart = 'track' | 'prev' | 'next' | 'pagination' | 'bullet';
+
+/** Layer names of the slider parts the controller wires up */
+const SLIDER_PART_NAMES: Record<string, SliderPart> = {
+  sliderTrack: 'track',
+  sliderPrev: 'prev',
+  sliderNext: 'next',
+  sliderPagination: 'pagination',
+  sliderBullet: 'bullet',
+};
+
+export const DEFAULT_SLIDER_SETTINGS: SliderSettings = {
+  slidesPerView: { desktop: 1 },
+  spaceBetween: 16,
+  loop: false,
+  autoplay: false,
+  autoplayDelay: 5,
+  pauseOnHover: true,
+};
+
+/**
+ * Get the slider settings of a layer, with defaults for missing values
+ */
+export function getSliderSettings(layer: Layer): SliderSettings {
+  const settings = layer.settings?.slider;
+
+  return {
+    ...DEFAULT_SLIDER_SETTINGS,
+    ...settings,
+    slidesPerView: {
+      ...DEFAULT_SLIDER_SETTINGS.slidesPerView,
+      ...settings?.slidesPerView,
+    },
+  };
+}
+
+/**
+ * Get the slider part a layer represents (based on its name)
+ */
+export function getSliderPart(layer: Layer): SliderPart | null {
+  return SLIDER_PART_NAMES[layer.name] ?? null;
+}
+
+/**
+ * Get the number of slides per view for a breakpoint
+ * Desktop-first: a breakpoint without its own value inherits from the next larger one.
+ */
+export function getSlidesPerView(settings: SliderSettings, breakpoint: Breakpoint): number {
+  // Most specific breakpoint first
+  for (const bp of getBreakpointCascade(breakpoint).reverse()) {
+    const value = Math.round(Number(settings.slidesPerView[bp]));
+    if (value > 0) return value;
+  }
+
+  return 1;
+}
+
+/**
+ * Build the layout CSS of a slider layer
+ * Slides-per-view and gap are set as custom properties on the slider element, so
+ * nested sliders each use their own values with the shared track rules.
+ */
+export function buildSliderCss(layerId: string, settings: SliderSettings): string {
+  const selector = `[data-slider="${layerId}"]`;
+  const gap = Math.max(Number(settings.spaceBetween) || 0, 0);
+  const rules: string[] = [
+    `${selector}{--slider-per-view:${getSlidesPerView(settings, 'desktop')};--slider-gap:${gap}px}`,
+  ];
+
+  // Larger max-widths first so smaller breakpoints win
+  const maxBreakpoints = getBreakpoints()
+    .filter((bp) => bp.maxWidth !== null)
+    .sort((a, b) => (b.maxWidth as number) - (a.maxWidth as number));
+
+  for (const bp of maxBreakpoints) {
+    rules.push(`@media (max-width:${bp.maxWidth}px){${selector}{--slider-per-view:${getSlidesPerView(settings, bp.value)}}}`);
+  }
+
+  // Smaller min-widths first so larger breakpoints win
+  const minBreakpoints = getBreakpoints()
+    .filter((bp) => bp.minWidth !== null)
+    .sort((a, b) => (a.minWidth as number) - (b.minWidth as number));
+
+  for (const bp of minBreakpoints) {
+    rules.push(`@media (min-width:${bp.minWidth}px){${selector}{--slider-per-view:${getSlidesPerView(settings, bp.value)}}}`);
+  }
+
+  const track = `${selector} [data-slider-part="track"]`;
+  rules.push(
+    `${track}{display:flex;flex-direction:row;flex-wrap:nowrap;gap:var(--slider-gap);overflow-x:auto;scroll-snap-type:x mandatory;scroll-behavior:smooth;overscroll-behavior-x:contain;scrollbar-width:none}`,
+    `${track}::-webkit-scrollbar{display:none}`,
+    `${track}>*{flex:0 0 calc((100% - (var(--slider-per-view) - 1) * var(--slider-gap)) / var(--slider-per-view));min-width:0;scroll-snap-align:start}`
+  );
+
+  return rules.join('\n');
+}
+
+interface SliderControllerOptions {
+  /** Autoplay is disabled in the editor so the canvas doesn't move while designing */
+  allowAutoplay: boolean;
+}
+
+/**
+ * Attach slider behavior to a rendered slider element
+ * Handles arrows, pagination bullets, autoplay, looping and keyboard navigation.
+ * Works inside the canvas iframe as well as on published pages.
+ *
+ * @returns Cleanup function that detaches all listeners and generated bullets
+ */
+export function initSlider(
+  root: HTMLElement,
+  settings: SliderSettings,
+  { allowAutoplay }: SliderControllerOptions
+): () => void {
+  const view = root.ownerDocument.defaultView;
+  if (!view) return () => {};
+
+  // Parts of this slider only (not of sliders nested inside its slides)
+  const getPart = (part: SliderPart): HTMLElement | null => {
+    const elements = root.querySelectorAll<HTMLElement>(`[data-slider-part="${part}"]`);
+    return Array.from(elements).find((el) => el.closest('[data-slider]') === root) ?? null;
+  };
+
+  const track = getPart('track');
+  if (!track) return () => {};
+
+  // Collection wrappers may use display: contents, so flatten them into their items
+  const getSlides = (): HTMLElement[] => {
+    const slides: HTMLElement[] = [];
+    const collect = (parent: Element) => {
+      for (const child of Array.from(parent.children)) {
+        if (!(child instanceof view.HTMLElement) || child.tagName === 'STYLE') continue;
+        if (view.getComputedStyle(child).display === 'contents') {
+          collect(child);
+        } else {
+          slides.push(child);
+        }
+      }
+    };
+    collect(track);
+    return slides;
+  };
+
+  const getPerView = (): number => {
+    const value = parseFloat(view.getComputedStyle(root).getPropertyValue('--slider-per-view'));
+    return value > 0 ? Math.round(value) : 1;
+  };
+
+  // Positions the track can snap to (sliding one slide at a time)
+  const getPositionCount = (): number => Math.max(1, getSlides().length - getPerView() + 1);
+
+  const getSlideOffset = (slide: HTMLElement): number => {
+    return slide.getBoundingClientRect().left - track.getBoundingClientRect().left + track.scrollLeft;
+  };
+
+  const getCurrentIndex = (): number => {
+    const slides = getSlides().slice(0, getPositionCount());
+    let closest = 0;
+    let closestDistance = Infinity;
+    slides.forEach((slide, index) => {
+      const distance = Math.abs(getSlideOffset(slide) - track.scrollLeft);
+      if (distance < closestDistance) {
+        closest = index;
+        closestDistance = distance;
+      }
+    });
+    return closest;
+  };
+
+  const goTo = (index: number, wrap = settings.loop) => {
+    const count = getPositionCount();
+    let target = index;
+    if (wrap) {
+      target = ((index % count) + count) % count;
+    } else {
+      target = Math.min(Math.max(index, 0), count - 1);
+    }
+
+    const slide = getSlides()[target];
+    if (slide) {
+      track.scrollTo({ left: getSlideOffset(slide), behavior: 'smooth' });
+    }
+  };
+
+  // Pagination bullets - the bullet layer is the template, cloned once per position
+  const pagination = getPart('pagination');
+  const templateBullet = pagination ? getPart('bullet') : null;
+  let bullets: HTMLElement[] = [];
+
+  const renderBullets = () => {
+    if (!pagination || !templateBullet) return;
+
+    pagination.querySelectorAll('[data-slider-clone]').forEach((el) => el.remove());
+    pagination.setAttribute('role', 'tablist');
+
+    bullets = [templateBullet];
+    const count = getPositionCount();
+    for (let i = 1; i < count; i++) {
+      const clone = templateBullet.cloneNode(true) as HTMLElement;
+      clone.removeAttribute('id');
+      clone.removeAttribute('data-layer-id');
+      clone.setAttribute('data-slider-clone', '');
+      pagination.appendChild(clone);
+      bullets.push(clone);
+    }
+
+    bullets.forEach((bullet, index) => {
+      bullet.setAttribute('role', 'tab');
+      bullet.setAttribute('tabindex', '0');
+      bullet.setAttribute('aria-label', `Go to slide ${index + 1}`);
+    });
+  };
+
+  const prevButton = getPart('prev');
+  const nextButton = getPart('next');
+
+  const updateState = () => {
+    const current = getCurrentIndex();
+    const count = getPositionCount();
+
+    bullets.forEach((bullet, index) => {
+      bullet.setAttribute('aria-selected', index === current ? 'true' : 'false');
+    });
+
+    prevButton?.setAttribute('aria-disabled', !settings.loop && current === 0 ? 'true' : 'false');
+    nextButton?.setAttribute('aria-disabled', !settings.loop && current >= count - 1 ? 'true' : 'false');
+
+    getSlides().forEach((slide, index, slides) => {
+      slide.setAttribute('role', 'group');
+      slide.setAttribute('aria-roledescription', 'slide');
+      slide.setAttribute('aria-label', `${index + 1} of ${slides.length}`);
+    });
+  };
+
+  let frame = 0;
+  const handleScroll = () => {
+    view.cancelAnimationFrame(frame);
+    frame = view.requestAnimationFrame(updateState);
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    const target = event.target as Element | null;
+    if (!target) return;
+
+    if (prevButton?.contains(target)) {
+      goTo(getCurrentIndex() - 1);
+      restartAutoplay();
+      return;
+    }
+
+    if (nextButton?.contains(target)) {
+      goTo(getCurrentIndex() + 1);
+      restartAutoplay();
+      return;
+    }
+
+    const bulletIndex = bullets.findIndex((bullet) => bullet.contains(target));
+    if (bulletIndex !== -1) {
+      goTo(bulletIndex);
+      restartAutoplay();
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+    if (target?.closest('[data-slider]') !== root) return;
+
+    const bulletIndex = bullets.findIndex((bullet) => bullet === target);
+    if (bulletIndex !== -1 && (event.key === 'Enter' || event.key === ' ')) {
+      event.preventDefault();
+      goTo(bulletIndex);
+      restartAutoplay();
+    } else if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      goTo(getCurrentIndex() - 1);
+      restartAutoplay();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      goTo(getCurrentIndex() + 1);
+      restartAutoplay();
+    }
+  };
+
+  // Autoplay - always wraps to the first slide at the end, pauses on hover,
+  // focus and touch, and respects reduced motion preferences
+  const reducedMotion = view.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+  const autoplayEnabled = allowAutoplay && settings.autoplay && !reducedMotion;
+  let autoplayTimer: number | undefined;
+  let isPaused = false;
+
+  const stopAutoplay = () => {
+    if (autoplayTimer !== undefined) {
+      view.clearInterval(autoplayTimer);
+      autoplayTimer = undefined;
+    }
+  };
+
+  const startAutoplay = () => {
+    stopAutoplay();
+    if (!autoplayEnabled || isPaused) return;
+    autoplayTimer = view.setInterval(() => {
+      goTo(getCurrentIndex() + 1, true);
+    }, Math.max(settings.autoplayDelay, 1) * 1000);
+  };
+
+  function restartAutoplay() {
+    if (autoplayTimer !== undefined) startAutoplay();
+  }
+
+  const pause = () => {
+    isPaused = true;
+    stopAutoplay();
+  };
+
+  const resume = () => {
+    isPaused = false;
+    startAutoplay();
+  };
+
+  const handleMouseEnter = () => {
+    if (settings.pauseOnHover) pause();
+  };
+
+  const handleFocusOut = (event: FocusEvent) => {
+    if (!root.contains(event.relatedTarget as Node | null)) resume();
+  };
+
+  // Keep bullets and state in sync with slide changes (e.g. collection items loading)
+  const mutationObserver = new view.MutationObserver(() => {
+    renderBullets();
+    updateState();
+  });
+  mutationObserver.observe(track, { childList: true, subtree: true });
+
+  // Slides per view changes with the breakpoint
+  const resizeObserver = new view.ResizeObserver(() => {
+    if (bullets.length !== getPositionCount()) renderBullets();
+    updateState();
+  });
+  resizeObserver.observe(track);
+
+  track.addEventListener('scroll', handleScroll, { passive: true });
+  root.addEventListener('click', handleClick);
+  root.addEventListener('keydown', handleKeyDown);
+
+  if (autoplayEnabled) {
+    root.addEventListener('mouseenter', handleMouseEnter);
+    root.addEventListener('mouseleave', resume);
+    root.addEventListener('focusin', pause);
+    root.addEventListener('focusout', handleFocusOut);
+    track.addEventListener('touchstart', pause, { passive: true });
+    track.addEventListener('touchend', resume, { passive: true });
+  }
+
+  renderBullets();
+  updateState();
+  startAutoplay();
+
+  return () => {
+    stopAutoplay();
+    view.cancelAnimationFrame(frame);
+    mutationObserver.disconnect();
+    resizeObserver.disconnect();
+    track.removeEventListener('scroll', handleScroll);
+    root.removeEventListener('click', handleClick);
+    root.removeEventListener('keydown', handleKeyDown);
+    root.removeEventListener('mouseenter', handleMouseEnter);
+    root.removeEventListener('mouseleave', resume);
+    root.removeEventListener('focusin', pause);
+    root.removeEventListener('focusout', handleFocusOut);
+    track.removeEventListener('touchstart', pause);
+    track.removeEventListener('touchend', resume);
+    pagination?.querySelectorAll('[data-slider-clone]').forEach((el) => el.remove());
+  };
+}
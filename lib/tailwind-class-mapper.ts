@@ -7,7 +7,8 @@
 
 import type { Layer, UIState, Breakpoint } from '@/types';
 import { cn } from '@/lib/utils';
-import { getBreakpointPrefix } from './breakpoint-utils';
+import { getBreakpointCascade, getBreakpointPrefix, splitBreakpointPrefix } from './breakpoint-utils';
+import { isColorTokenValue } from './design-token-utils';
 
 /**
  * Helper: Check if a value looks like a color (hex, rgb, rgba, hsl, hsla, or color name)
@@ -28,6 +29,9 @@ function isColorValue(value: string): boolean {
   // Supports: hsl(h,s,l), hsla(h,s,l,a), with or without spaces
   if (/^hsla?\s*\(/i.test(value)) return true;
 
+  // Check for color design tokens, e.g. var(--token-color-brand)
+  if (isColorTokenValue(value)) return true;
+
   // Check for CSS color keywords (common ones)
   const colorKeywords = [
     'transparent', 'currentcolor', 'inherit',
@@ -95,10 +99,27 @@ function formatMeasurementClass(
     return `${prefix}-[${value}]`;
   }
 
+  // Design tokens (e.g., "var(--token-spacing-md)") are arbitrary values too
+  if (value.startsWith('var(')) {
+    return `${prefix}-[${value}]`;
+  }
+
   // Otherwise use as named class (e.g., "large", "small")
   return `${prefix}-${value}`;
 }
 
+/**
+ * Helper: Format an arbitrary color value for Tailwind class generation
+ * Color tokens get a type hint, Tailwind can't tell a var() color from a size
+ *
+ * @example
+ * formatArbitraryColor("#ff0000") // "#ff0000"
+ * formatArbitraryColor("var(--token-color-brand)") // "color:var(--token-color-brand)"
+ */
+function formatArbitraryColor(value: string): string {
+  return isColorTokenValue(value) ? `color:${value}` : value;
+}
+
 /**
  * Map of Tailwind class prefixes to their property names
  * Used for conflict detection and removal
@@ -143,7 +164,8 @@ const CLASS_PROPERTY_MAP: Record<string, RegExp> = {
   gridRowSpan: /^row-span-(1|2|3|4|5|6|7|8|9|10|11|12|auto|full)$/,
 
   // Typography
-  fontFamily: /^font-(sans|serif|mono|\[.+\])$/,
+  // Custom fonts use font-<key> (keys never collide with weights or other font utilities)
+  fontFamily: /^font-(sans|serif|mono|\[.+\]|(?!(?:thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$|stretch-|features-)[a-z][a-z0-9-]*)$/,
   // Updated to match partial arbitrary values like text-n, text-no, text-non (not just complete text-[10rem])
   // Excludes text-align values (left, center, right, justify, start, end)
   fontSize: /^text-(?!(?:left|center|right|justify|start|end)(?:\s|$)).+$/,
@@ -154,7 +176,7 @@ const CLASS_PROPERTY_MAP: Record<string, RegExp> = {
   textTransform: /^(uppercase|lowercase|capitalize|normal-case)$/,
   textDecoration: /^(underline|overline|line-through|no-underline)$/,
   textDecorationColor: /^decoration-\[.+\](\/\d+)?$/,
-  textDecorationThickness: /^decoration-(\d+|auto|from-font|\[(?!#|rgb|hsl).+\])$/,
+  textDecorationThickness: /^decoration-(\d+|auto|from-font|\[(?!#|rgb|hsl|color:).+\])$/,
   underlineOffset: /^underline-offset-.+$/,
   // Updated to match partial arbitrary values like text-r, text-re, text-red (not just complete text-[#FF0000])
   // Excludes fontSize named values and text-align values
@@ -169,13 +191,13 @@ const CLASS_PROPERTY_MAP: Record<string, RegExp> = {
   backgroundImage: /^bg-(none|gradient-to-t|gradient-to-tr|gradient-to-r|gradient-to-br|gradient-to-b|gradient-to-bl|gradient-to-l|gradient-to-tl|\[.+\])$/,
 
   // Borders
-  borderWidth: /^border(-\d+|-\[(?!#|rgb).+\])?$/,
-  borderTopWidth: /^border-t(-\d+|-\[(?!#|rgb).+\])?$/,
-  borderRightWidth: /^border-r(-\d+|-\[(?!#|rgb).+\])?$/,
-  borderBottomWidth: /^border-b(-\d+|-\[(?!#|rgb).+\])?$/,
-  borderLeftWidth: /^border-l(-\d+|-\[(?!#|rgb).+\])?$/,
+  borderWidth: /^border(-\d+|-\[(?!#|rgb|color:).+\])?$/,
+  borderTopWidth: /^border-t(-\d+|-\[(?!#|rgb|color:).+\])?$/,
+  borderRightWidth: /^border-r(-\d+|-\[(?!#|rgb|color:).+\])?$/,
+  borderBottomWidth: /^border-b(-\d+|-\[(?!#|rgb|color:).+\])?$/,
+  borderLeftWidth: /^border-l(-\d+|-\[(?!#|rgb|color:).+\])?$/,
   borderStyle: /^border-(solid|dashed|dotted|double|hidden|none)$/,
-  borderColor: /^border-(?!(?:solid|dashed|dotted|double|hidden|none)$)(?!t-|r-|b-|l-|x-|y-)((\w+)(-\d+)?|\[(?:#|rgb).+\])(\/\d+)?$/,
+  borderColor: /^border-(?!(?:solid|dashed|dotted|double|hidden|none)$)(?!t-|r-|b-|l-|x-|y-)((\w+)(-\d+)?|\[(?:#|rgb|color:).+\])(\/\d+)?$/,
   borderRadius: /^rounded(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full|-\[.+\])?$/,
   borderTopLeftRadius: /^rounded-tl(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full|-\[.+\])?$/,
   borderTopRightRadius: /^rounded-tr(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full|-\[.+\])?$/,
@@ -183,10 +205,10 @@ const CLASS_PROPERTY_MAP: Record<string, RegExp> = {
   borderBottomLeftRadius: /^rounded-bl(-none|-sm|-md|-lg|-xl|-2xl|-3xl|-full|-\[.+\])?$/,
 
   // Dividers
-  divideX: /^divide-x(-\d+|-\[(?!#|rgb).+\])?$/,
-  divideY: /^divide-y(-\d+|-\[(?!#|rgb).+\])?$/,
+  divideX: /^divide-x(-\d+|-\[(?!#|rgb|color:).+\])?$/,
+  divideY: /^divide-y(-\d+|-\[(?!#|rgb|color:).+\])?$/,
   divideStyle: /^divide-(solid|dashed|dotted|double|none)$/,
-  divideColor: /^divide-((\w+)(-\d+)?|\[(?:#|rgb).+\])(\/\d+)?$/,
+  divideColor: /^divide-((\w+)(-\d+)?|\[(?:#|rgb|color:).+\])(\/\d+)?$/,
 
   // Effects
   opacity: /^opacity-(\d+|\[.+\])$/,
@@ -215,7 +237,15 @@ export function getConflictingClassPattern(property: string): RegExp | null {
  */
 function extractArbitraryValue(className: string): string | null {
   const match = className.match(/\[([^\]]+)\]/);
-  return match ? match[1] : null;
+  return match ? stripArbitraryTypeHint(match[1]) : null;
+}
+
+/**
+ * Helper: Strip the type hint of an arbitrary value
+ * "color:var(--token-color-brand)" → "var(--token-color-brand)"
+ */
+export function stripArbitraryTypeHint(value: string): string {
+  return value.replace(/^(?:color|length):(?=var\()/, '');
 }
 
 /**
@@ -226,7 +256,7 @@ function extractArbitraryValueWithOpacity(className: string): string | null {
   const match = className.match(/\[([^\]]+)\](?:\/(\d+))?/);
   if (!match) return null;
 
-  const value = match[1];
+  const value = stripArbitraryTypeHint(match[1]);
   const opacity = match[2];
 
   // If opacity exists, append it with /
@@ -247,7 +277,7 @@ export function removeConflictingClasses(
 
   return classes.filter(cls => {
     // Strip breakpoint and state prefixes for helper class detection
-    const baseClass = cls.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+    const baseClass = stripClassPrefixes(cls);
 
     // Special handling for text color property
     // Remove gradient-related classes (bg-[gradient], bg-clip-text, text-transparent)
@@ -320,7 +350,7 @@ export function removeConflictingClasses(
  */
 function isStandardColorClass(className: string): boolean {
   // Strip prefixes
-  const baseClass = className.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+  const baseClass = stripClassPrefixes(className);
 
   // Common Tailwind color patterns
   const colorPattern = /^(text|bg|border|ring|outline|decoration|shadow|from|via|to|caret|accent|divide|placeholder)-(slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose)(-\d+)?$/;
@@ -333,7 +363,7 @@ function isStandardColorClass(className: string): boolean {
  */
 function isArbitraryColorClass(className: string, property: string): boolean {
   // Strip prefixes
-  const baseClass = className.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+  const baseClass = stripClassPrefixes(className);
 
   // Check based on property
   if (property === 'color' && baseClass.startsWith('text-[')) {
@@ -424,6 +454,8 @@ export function propertyToClass(
   if (category === 'typography') {
     switch (property) {
       case 'fontSize':
+        // Font size tokens need a type hint, text-[var(...)] would be a color
+        if (value.startsWith('var(')) return `text-[length:${value}]`;
         return formatMeasurementClass(value, 'text');
       case 'fontWeight':
         // Always use arbitrary values for numeric weights
@@ -450,12 +482,12 @@ export function propertyToClass(
         if (value === 'none') return 'no-underline';
         return value; // underline, line-through, overline
       case 'textDecorationColor': {
-        if (value.match(/^#|^rgb|^hsl/)) {
+        if (value.match(/^#|^rgb|^hsl|^var\(/)) {
           const parts = value.split('/');
           if (parts.length === 2) {
-            return `decoration-[${parts[0]}]/${parts[1]}`;
+            return `decoration-[${formatArbitraryColor(parts[0])}]/${parts[1]}`;
           }
-          return `decoration-[${value}]`;
+          return `decoration-[${formatArbitraryColor(value)}]`;
         }
         return `decoration-${value}`;
       }
@@ -470,13 +502,13 @@ export function propertyToClass(
           // Note: This returns space-separated classes that will be split by the caller
           return `bg-[${value}] bg-clip-text text-transparent`;
         }
-        if (value.match(/^#|^rgb/)) {
+        if (value.match(/^#|^rgb|^var\(/)) {
           // Handle opacity: split "#cc8d8d/59" into "text-[#cc8d8d]/59"
           const parts = value.split('/');
           if (parts.length === 2) {
-            return `text-[${parts[0]}]/${parts[1]}`;
+            return `text-[${formatArbitraryColor(parts[0])}]/${parts[1]}`;
           }
-          return `text-[${value}]`;
+          return `text-[${formatArbitraryColor(value)}]`;
         }
         return `text-${value}`;
     }
@@ -575,13 +607,13 @@ export function propertyToClass(
       case 'borderStyle':
         return `border-${value}`;
       case 'borderColor':
-        if (value.match(/^#|^rgb/)) {
+        if (value.match(/^#|^rgb|^var\(/)) {
           // Handle opacity: split "#cc8d8d/59" into "border-[#cc8d8d]/59"
           const parts = value.split('/');
           if (parts.length === 2) {
-            return `border-[${parts[0]}]/${parts[1]}`;
+            return `border-[${formatArbitraryColor(parts[0])}]/${parts[1]}`;
           }
-          return `border-[${value}]`;
+          return `border-[${formatArbitraryColor(value)}]`;
         }
         return `border-${value}`;
       case 'borderRadius':
@@ -603,13 +635,13 @@ export function propertyToClass(
       case 'divideStyle':
         return `divide-${value}`;
       case 'divideColor':
-        if (value.match(/^#|^rgb/)) {
+        if (value.match(/^#|^rgb|^var\(/)) {
           // Handle opacity: split "#cc8d8d/59" into "divide-[#cc8d8d]/59"
           const parts = value.split('/');
           if (parts.length === 2) {
-            return `divide-[${parts[0]}]/${parts[1]}`;
+            return `divide-[${formatArbitraryColor(parts[0])}]/${parts[1]}`;
           }
-          return `divide-[${value}]`;
+          return `divide-[${formatArbitraryColor(value)}]`;
         }
         return `divide-${value}`;
     }
@@ -620,13 +652,13 @@ export function propertyToClass(
     switch (property) {
       case 'backgroundColor':
         // Gradients and hex/rgb colors need brackets for arbitrary values
-        if (value.match(/^#|^rgb|gradient\(/)) {
+        if (value.match(/^#|^rgb|^var\(|gradient\(/)) {
           // Handle opacity: split "#cc8d8d/59" into "bg-[#cc8d8d]/59"
           const parts = value.split('/');
           if (parts.length === 2 && !value.includes('gradient(')) {
-            return `bg-[${parts[0]}]/${parts[1]}`;
+            return `bg-[${formatArbitraryColor(parts[0])}]/${parts[1]}`;
           }
-          return `bg-[${value}]`;
+          return `bg-[${formatArbitraryColor(value)}]`;
         }
         return `bg-${value}`;
       case 'backgroundImage':
@@ -742,7 +774,7 @@ export function getAffectedProperties(className: string): string[] {
   const properties: string[] = [];
 
   // Strip breakpoint and state prefixes for helper class detection
-  const baseClass = className.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+  const baseClass = stripClassPrefixes(className);
 
   // Special handling for text gradient helper classes
   // bg-clip-text and text-transparent are part of text gradient implementation
@@ -912,20 +944,20 @@ export function classesToDesign(classes: string | string[]): Layer['design'] {
     // CRITICAL FIX: Skip state-specific classes (they should not be in design object)
     // The design object should only contain base/neutral values
     // State-specific values are handled by getInheritedValue based on activeUIState
-    if (cls.match(/^(hover|focus|active|disabled|visited):/)) {
+    if (cls.match(/^(hover|focus|active|disabled|visited|dark):/)) {
       return; // Skip this class
     }
 
+    // Strip breakpoint prefix (but keep base classes)
+    // "max-md:m-[10px]" should still be parsed into design object
+    // But "max-md:hover:m-[10px]" is skipped like other state classes
+    cls = splitBreakpointPrefix(cls).baseClass;
+
     // Also skip breakpoint+state combinations
-    if (cls.match(/^(max-lg|max-md|lg|md):(hover|focus|active|disabled|visited):/)) {
+    if (cls.match(/^(hover|focus|active|disabled|visited|dark):/)) {
       return; // Skip this class
     }
 
-    // Strip breakpoint prefix (but keep base classes)
-    // "max-md:m-[10px]" should still be parsed into design object
-    // But "max-md:hover:m-[10px]" should have been skipped above
-    cls = cls.replace(/^(max-lg|max-md|lg|md):/, '');
-
     // ===== LAYOUT =====
     // Display
     if (cls === 'block') design.layout!.display = 'block';
@@ -1018,6 +1050,10 @@ export function classesToDesign(classes: string | string[]): Layer['design'] {
     if (cls === 'font-sans') design.typography!.fontFamily = 'sans-serif';
     if (cls === 'font-serif') design.typography!.fontFamily = 'serif';
     if (cls === 'font-mono') design.typography!.fontFamily = 'monospace';
+    // Font Family (custom fonts, e.g. font-inter)
+    if (!['font-sans', 'font-serif', 'font-mono'].includes(cls) && /^font-[a-z]/.test(cls) && CLASS_PROPERTY_MAP.fontFamily.test(cls)) {
+      design.typography!.fontFamily = cls.slice('font-'.length);
+    }
 
     // Text Align
     if (cls === 'text-left') design.typography!.textAlign = 'left';
@@ -1207,7 +1243,7 @@ export function classesToDesign(classes: string | string[]): Layer['design'] {
     }
 
     // Border Width (all)
-    if (cls.startsWith('border-[') && !cls.includes('#') && !cls.includes('rgb')) {
+    if (cls.startsWith('border-[') && !cls.includes('#') && !cls.includes('rgb') && !cls.includes('[color:')) {
       const value = extractArbitraryValue(cls);
       if (value) design.borders!.borderWidth = value;
     }
@@ -1220,7 +1256,7 @@ export function classesToDesign(classes: string | string[]): Layer['design'] {
     if (cls === 'border-none') design.borders!.borderStyle = 'none';
 
     // Border Color
-    if (cls.startsWith('border-[#') || cls.startsWith('border-[rgb')) {
+    if (cls.startsWith('border-[#') || cls.startsWith('border-[rgb') || cls.startsWith('border-[color:')) {
       const value = extractArbitraryValueWithOpacity(cls);
       if (value) design.borders!.borderColor = value;
     }
@@ -1249,14 +1285,14 @@ export function classesToDesign(classes: string | string[]): Layer['design'] {
     if (cls === 'divide-none') design.borders!.divideStyle = 'none';
 
     // Divide Color
-    if (cls.startsWith('divide-[#') || cls.startsWith('divide-[rgb')) {
+    if (cls.startsWith('divide-[#') || cls.startsWith('divide-[rgb') || cls.startsWith('divide-[color:')) {
       const value = extractArbitraryValueWithOpacity(cls);
       if (value) design.borders!.divideColor = value;
     }
 
     // ===== BACKGROUNDS =====
     // Background Color
-    if (cls.startsWith('bg-[#') || cls.startsWith('bg-[rgb')) {
+    if (cls.startsWith('bg-[#') || cls.startsWith('bg-[rgb') || cls.startsWith('bg-[color:')) {
       const value = extractArbitraryValueWithOpacity(cls);
       if (value) design.backgrounds!.backgroundColor = value;
     }
@@ -1349,6 +1385,7 @@ export const UI_STATE_CONFIG = {
   active: { prefix: 'active:' },
   disabled: { prefix: 'disabled:' },
   current: { prefix: 'visited:' }, // Tailwind uses 'visited' for current/visited state
+  dark: { prefix: 'dark:' }, // Dark color scheme of published sites (see color-scheme-utils)
 } as const;
 
 /**
@@ -1368,24 +1405,10 @@ export function parseFullClass(className: string): {
   uiState: UIState;
   baseClass: string;
 } {
-  let remaining = className;
-  let breakpoint: Breakpoint = 'desktop';
-  let uiState: UIState = 'neutral';
-
   // Check for responsive prefix first (Tailwind order: responsive then state)
-  if (remaining.startsWith('max-md:')) {
-    breakpoint = 'mobile';
-    remaining = remaining.slice(7);
-  } else if (remaining.startsWith('max-lg:')) {
-    breakpoint = 'tablet';
-    remaining = remaining.slice(7);
-  } else if (remaining.startsWith('lg:')) {
-    breakpoint = 'desktop';
-    remaining = remaining.slice(3);
-  } else if (remaining.startsWith('md:')) {
-    breakpoint = 'tablet';
-    remaining = remaining.slice(3);
-  }
+  const { breakpoint, baseClass } = splitBreakpointPrefix(className);
+  let remaining = baseClass;
+  let uiState: UIState = 'neutral';
 
   // Check for state prefix
   if (remaining.startsWith('hover:')) {
@@ -1403,6 +1426,9 @@ export function parseFullClass(className: string): {
   } else if (remaining.startsWith('visited:')) {
     uiState = 'current';
     remaining = remaining.slice(8);
+  } else if (remaining.startsWith('dark:')) {
+    uiState = 'dark';
+    remaining = remaining.slice(5);
   }
 
   return { breakpoint, uiState, baseClass: remaining };
@@ -1413,25 +1439,21 @@ export function parseFullClass(className: string): {
  * "max-lg:w-[100px]" → { breakpoint: 'tablet', baseClass: 'w-[100px]' }
  * "max-md:w-[100px]" → { breakpoint: 'mobile', baseClass: 'w-[100px]' }
  * "w-[100px]" → { breakpoint: 'desktop', baseClass: 'w-[100px]' }
+ * Legacy mobile-first classes (lg:, md:) are supported for backward compatibility
  */
 export function parseBreakpointClass(className: string): {
   breakpoint: Breakpoint;
   baseClass: string;
 } {
-  if (className.startsWith('max-md:')) {
-    return { breakpoint: 'mobile', baseClass: className.slice(7) };
-  }
-  if (className.startsWith('max-lg:')) {
-    return { breakpoint: 'tablet', baseClass: className.slice(7) };
-  }
-  // Support legacy mobile-first classes for backward compatibility
-  if (className.startsWith('lg:')) {
-    return { breakpoint: 'desktop', baseClass: className.slice(3) };
-  }
-  if (className.startsWith('md:')) {
-    return { breakpoint: 'tablet', baseClass: className.slice(3) };
-  }
-  return { breakpoint: 'desktop', baseClass: className };
+  return splitBreakpointPrefix(className);
+}
+
+/**
+ * Strip breakpoint and state prefixes from a class
+ * "max-md:hover:text-red-500" → "text-red-500"
+ */
+export function stripClassPrefixes(className: string): string {
+  return splitBreakpointPrefix(className).baseClass.replace(/^(hover:|focus:|active:|disabled:|visited:|dark:)/, '');
 }
 
 /**
@@ -1455,13 +1477,12 @@ export function getBreakpointClasses(classes: string[], breakpoint: Breakpoint):
   return classes
     .filter(cls => {
       if (prefix) {
-        // For tablet (max-lg:) or mobile (max-md:), match their specific prefix
+        // For other breakpoints (e.g. max-lg:, max-md:), match their specific prefix
         return cls.startsWith(prefix);
       } else {
-        // For desktop (no prefix), return classes without max-lg: or max-md: prefix
+        // For desktop (no prefix), return classes without a breakpoint prefix
         // Also exclude legacy mobile-first prefixes (md:, lg:)
-        return !cls.startsWith('max-lg:') && !cls.startsWith('max-md:') &&
-               !cls.startsWith('md:') && !cls.startsWith('lg:');
+        return splitBreakpointPrefix(cls).baseClass === cls;
       }
     })
     .map(cls => (prefix ? cls.slice(prefix.length) : cls));
@@ -1497,7 +1518,7 @@ function isImageValue(value: string): boolean {
  */
 function shouldIncludeClassForProperty(className: string, property: string, pattern: RegExp): boolean {
   // Strip breakpoint and state prefixes for helper class detection
-  const baseClass = className.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+  const baseClass = stripClassPrefixes(className);
 
   // Special handling for text color property
   // Include gradient-related classes (bg-[gradient], bg-clip-text, text-transparent)
@@ -1602,7 +1623,7 @@ function shouldIncludeClassForProperty(className: string, property: string, patt
 
 /**
  * Get inherited value for a property across breakpoints
- * Desktop-first cascade: desktop → tablet → mobile
+ * Desktop-first cascade: desktop → tablet → mobile (see getBreakpointCascade)
  */
 export function getInheritedValue(
   classes: string[],
@@ -1614,10 +1635,7 @@ export function getInheritedValue(
   if (!pattern) return { value: null, source: null };
 
   // Define inheritance chain based on current breakpoint (desktop-first)
-  const inheritanceChain: Breakpoint[] =
-    currentBreakpoint === 'mobile' ? ['desktop', 'tablet', 'mobile'] :
-      currentBreakpoint === 'tablet' ? ['desktop', 'tablet'] :
-        ['desktop'];
+  const inheritanceChain = getBreakpointCascade(currentBreakpoint);
 
   // Check each breakpoint in order (desktop → tablet → mobile)
   let lastValue: string | null = null;
@@ -1651,12 +1669,13 @@ export function getInheritedValue(
         if (!cls.startsWith(bpPrefix)) return false;
         const afterBp = cls.slice(bpPrefix.length);
         // Must not have a state prefix
-        if (afterBp.match(/^(hover|focus|active|disabled|visited):/)) return false;
+        if (afterBp.match(/^(hover|focus|active|disabled|visited|dark):/)) return false;
         // Smart filtering for text-[...] classes
         return shouldIncludeClassForProperty(afterBp, property, pattern);
       } else {
         // Desktop: no breakpoint prefix, no state prefix
-        if (cls.match(/^(max-lg|max-md|hover|focus|active|disabled|visited):/)) return false;
+        if (splitBreakpointPrefix(cls).baseClass !== cls) return false;
+        if (cls.match(/^(hover|focus|active|disabled|visited|dark):/)) return false;
         // Smart filtering for text-[...] classes
         return shouldIncludeClassForProperty(cls, property, pattern);
       }
@@ -1817,7 +1836,7 @@ export function getRemovedPropertyClasses(
           // Find all style classes that match this property pattern
           for (const styleClass of styleClasses) {
             // Strip prefixes for pattern matching
-            const baseClass = styleClass.replace(/^(max-lg:|max-md:|lg:|md:)?(hover:|focus:|active:|disabled:|visited:)?/, '');
+            const baseClass = stripClassPrefixes(styleClass);
 
             // Special handling for text-[...] classes
             if (baseClass.startsWith('text-[')) {
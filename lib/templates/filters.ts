@@ -0,0 +1,218 @@
+/**
+ * Filter Elements Templates
+ *
+ * Search, filter and sort controls for collection lists on published pages,
+ * and the site search input and results
+ */
+
+import { BlockTemplate } from '@/types';
+import { getTemplateRef } from '@/lib/templates/blocks';
+import { getTiptapTextContent } from '@/lib/text-format-utils';
+import { DEFAULT_SEARCH_LIMIT, SEARCH_RESULT_KEYS } from '@/lib/site-search-utils';
+
+/** Shared look of the controls (like form inputs) */
+const controlClasses = ['w-[100%]', 'px-[1rem]', 'py-[0.5rem]', 'border', 'border-[#d1d5db]', 'rounded-[0.5rem]', 'text-[0.875rem]', 'text-[#111827]'];
+
+const controlDesign = {
+  sizing: {
+    isActive: true,
+    width: '100%'
+  },
+  spacing: {
+    isActive: true,
+    paddingLeft: '1rem',
+    paddingRight: '1rem',
+    paddingTop: '0.5rem',
+    paddingBottom: '0.5rem'
+  },
+  borders: {
+    isActive: true,
+    borderWidth: '1px',
+    borderColor: '#d1d5db',
+    borderRadius: '0.5rem'
+  },
+  typography: {
+    isActive: true,
+    fontSize: '0.875rem',
+    color: '#111827'
+  }
+};
+
+export const filterTemplates: Record<string, BlockTemplate> = {
+  collectionSearch: {
+    icon: 'search',
+    name: 'Search',
+    template: getTemplateRef('div', {
+      name: 'collectionSearch',
+      customName: 'Search',
+      settings: {
+        tag: 'div',
+        collectionControl: {
+          collectionLayerId: null,
+          collectionId: null,
+          placeholder: 'Search...',
+          searchFieldIds: [],
+        },
+      },
+      classes: controlClasses,
+      design: controlDesign,
+    }),
+  },
+
+  collectionFilter: {
+    icon: 'select',
+    name: 'Filter',
+    template: getTemplateRef('div', {
+      name: 'collectionFilter',
+      customName: 'Filter',
+      settings: {
+        tag: 'div',
+        collectionControl: {
+          collectionLayerId: null,
+          collectionId: null,
+          fieldId: null,
+          display: 'dropdown',
+        },
+      },
+      classes: controlClasses,
+      design: controlDesign,
+    }),
+  },
+
+  collectionSort: {
+    icon: 'listOrdered',
+    name: 'Sort',
+    template: getTemplateRef('div', {
+      name: 'collectionSort',
+      customName: 'Sort',
+      settings: {
+        tag: 'div',
+        collectionControl: {
+          collectionLayerId: null,
+          collectionId: null,
+          placeholder: 'Sort by',
+          sortOptions: [],
+        },
+      },
+      classes: controlClasses,
+      design: controlDesign,
+    }),
+  },
+
+  siteSearch: {
+    icon: 'search',
+    name: 'Site search',
+    template: getTemplateRef('div', {
+      name: 'siteSearch',
+      customName: 'Site search',
+      settings: {
+        tag: 'div',
+        siteSearch: {
+          placeholder: 'Search...',
+        },
+      },
+      classes: controlClasses,
+      design: controlDesign,
+    }),
+  },
+
+  searchResults: {
+    icon: 'rows',
+    name: 'Search results',
+    template: getTemplateRef('div', {
+      name: 'searchResults',
+      customName: 'Search results',
+      open: true,
+      settings: {
+        tag: 'div',
+        searchResults: {
+          limit: DEFAULT_SEARCH_LIMIT,
+        },
+      },
+      classes: ['flex', 'flex-col', 'gap-[1.5rem]'],
+      design: {
+        layout: { isActive: true, display: 'Flex', flexDirection: 'column', gap: '1.5rem' },
+      },
+      children: [
+        // Repeated for each hit
+        getTemplateRef('div', {
+          key: SEARCH_RESULT_KEYS.item,
+          customName: 'Result',
+          restrictions: { ancestor: 'searchResults', copy: false, delete: false },
+          children: [
+            getTemplateRef('div', {
+              key: SEARCH_RESULT_KEYS.link,
+              customName: 'Link',
+              restrictions: { ancestor: 'searchResults', copy: false, delete: false },
+              classes: ['flex', 'flex-col', 'gap-[0.25rem]'],
+              design: {
+                layout: { isActive: true, display: 'Flex', flexDirection: 'column', gap: '0.25rem' },
+              },
+              children: [
+                getTemplateRef('text', {
+                  key: SEARCH_RESULT_KEYS.title,
+                  customName: 'Title',
+                  settings: { tag: 'h3' },
+                  restrictions: { ancestor: 'searchResults', copy: false, editText: false },
+                  classes: ['text-[1.125rem]', 'font-[600]', 'text-[#111827]'],
+                  design: {
+                    typography: { isActive: true, fontSize: '1.125rem', fontWeight: '600', color: '#111827' },
+                  },
+                  variables: {
+                    text: { type: 'dynamic_text', data: { content: 'Page title' } },
+                  },
+                }),
+                getTemplateRef('text', {
+                  key: SEARCH_RESULT_KEYS.url,
+                  customName: 'URL',
+                  settings: { tag: 'span' },
+                  restrictions: { ancestor: 'searchResults', copy: false, editText: false },
+                  classes: ['text-[0.75rem]', 'text-[#6b7280]'],
+                  design: {
+                    typography: { isActive: true, fontSize: '0.75rem', color: '#6b7280' },
+                  },
+                  variables: {
+                    text: { type: 'dynamic_text', data: { content: '/page-url' } },
+                  },
+                }),
+              ],
+            }),
+            getTemplateRef('text', {
+              key: SEARCH_RESULT_KEYS.excerpt,
+              customName: 'Excerpt',
+              settings: { tag: 'p' },
+              restrictions: { ancestor: 'searchResults', copy: false, editText: false },
+              classes: ['text-[0.875rem]', 'text-[#374151]'],
+              design: {
+                typography: { isActive: true, fontSize: '0.875rem', color: '#374151' },
+              },
+              variables: {
+                text: {
+                  type: 'dynamic_rich_text',
+                  data: { content: getTiptapTextContent('Text around the words that match the search.') },
+                },
+              },
+            }),
+          ],
+        }),
+        // Shown when a search has no hits
+        getTemplateRef('text', {
+          key: SEARCH_RESULT_KEYS.empty,
+          customName: 'No results',
+          settings: { tag: 'p' },
+          restrictions: { ancestor: 'searchResults', copy: false, delete: false, editText: true },
+          classes: ['text-[0.875rem]', 'text-[#6b7280]'],
+          design: {
+            typography: { isActive: true, fontSize: '0.875rem', color: '#6b7280' },
+          },
+          variables: {
+            text: {
+              type: 'dynamic_rich_text',
+              data: { content: getTiptapTextContent('No results found.') },
+            },
+          },
+        }),
+      ],
+    }),
+  },
+};
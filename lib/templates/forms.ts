@@ -698,6 +698,87 @@ export const formTemplates: Record<string, BlockTemplate> = {
     }
   },
 
+  fileUpload: {
+    icon: 'upload',
+    name: 'File upload',
+    template: {
+      name: 'div',
+      classes: ['w-full', 'flex', 'flex-col', 'gap-1'],
+      children: [
+        getTemplateRef('text', {
+          customName: 'Label',
+          settings: { tag: 'label' },
+          attributes: { for: 'file' },
+          classes: ['text-[0.875rem]', 'font-[500]', 'text-[#111827]', 'cursor-pointer'],
+          restrictions: { editText: true },
+          design: {
+            typography: {
+              isActive: true,
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              color: '#111827'
+            }
+          },
+          variables: {
+            text: {
+              type: 'dynamic_rich_text',
+              data: {
+                content: getTiptapTextContent('Attachment')
+              }
+            }
+          }
+        }),
+        {
+          name: 'input',
+          classes: ['w-[100%]', 'px-[1rem]', 'py-[0.5rem]', 'border', 'border-[#d1d5db]', 'rounded-[0.5rem]', 'focus:ring-[2px]', 'focus:ring-[#3b82f6]', 'cursor-pointer', 'text-[0.875rem]', 'text-[#111827]'],
+          settings: {
+            id: 'file'
+          },
+          attributes: {
+            type: 'file',
+            accept: 'image/*, .pdf'
+          },
+          design: {
+            sizing: {
+              isActive: true,
+              width: '100%'
+            },
+            spacing: {
+              isActive: true,
+              paddingLeft: '1rem',
+              paddingRight: '1rem',
+              paddingTop: '0.5rem',
+              paddingBottom: '0.5rem'
+            },
+            borders: {
+              isActive: true,
+              borderWidth: '1px',
+              borderColor: '#d1d5db',
+              borderRadius: '0.5rem'
+            },
+            typography: {
+              isActive: true,
+              fontSize: '0.875rem',
+              color: '#111827'
+            }
+          }
+        }
+      ] as any[],
+      design: {
+        sizing: {
+          isActive: true,
+          width: '100%'
+        },
+        layout: {
+          isActive: true,
+          display: 'Flex',
+          flexDirection: 'column',
+          gap: '0.25rem'
+        }
+      }
+    }
+  },
+
   label: {
     icon: 'text',
     name: 'Label',
@@ -2,38 +2,224 @@
  * Utility Elements Templates
  */
 
-import { BlockTemplate } from '@/types';
+import { BlockTemplate, LayerTemplateRef } from '@/types';
 import { getTemplateRef } from './blocks';
+import { getTiptapTextContent } from '@/lib/text-format-utils';
+import { DEFAULT_SLIDER_SETTINGS } from '@/lib/slider-utils';
+import { DEFAULT_LIGHTBOX_SETTINGS } from '@/lib/lightbox-utils';
+import { DEFAULT_MAP_MARKER_SETTINGS, DEFAULT_MAP_SETTINGS } from '@/lib/map-utils';
+
+const SLIDER_ARROW_ICONS = {
+  prev: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true"><path fill-rule="evenodd" d="M11.78 5.22a.75.75 0 0 1 0 1.06L8.06 10l3.72 3.72a.75.75 0 1 1-1.06 1.06l-4.25-4.25a.75.75 0 0 1 0-1.06l4.25-4.25a.75.75 0 0 1 1.06 0Z" clip-rule="evenodd"></path></svg>',
+  next: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true"><path fill-rule="evenodd" d="M8.22 5.22a.75.75 0 0 1 1.06 0l4.25 4.25a.75.75 0 0 1 0 1.06l-4.25 4.25a.75.75 0 0 1-1.06-1.06L11.94 10 8.22 6.28a.75.75 0 0 1 0-1.06Z" clip-rule="evenodd"></path></svg>',
+};
+
+const COLOR_SCHEME_TOGGLE_ICON = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true"><path fill-rule="evenodd" d="M7.455 2.004a.75.75 0 0 1 .26.77 7 7 0 0 0 9.958 7.967.75.75 0 0 1 1.067.853A8.5 8.5 0 1 1 6.647 1.921a.75.75 0 0 1 .808.083Z" clip-rule="evenodd"></path></svg>';
+
+/**
+ * Slide for the slider template
+ */
+function getSliderSlideTemplate(text: string): LayerTemplateRef {
+  return getTemplateRef('div', {
+    name: 'sliderSlide',
+    customName: 'Slide',
+    restrictions: { ancestor: 'slider' },
+    classes: ['flex', 'flex-col', 'items-center', 'justify-center', 'h-[320px]', 'rounded-[12px]', 'bg-[#F5F5F5]'],
+    design: {
+      layout: { isActive: true, display: 'Flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center' },
+      sizing: { isActive: true, height: '320px' },
+      borders: { isActive: true, borderRadius: '12px' },
+      backgrounds: { isActive: true, backgroundColor: '#f5f5f5' },
+    },
+    children: [
+      getTemplateRef('text', {
+        variables: {
+          text: {
+            type: 'dynamic_rich_text',
+            data: {
+              content: getTiptapTextContent(text),
+            },
+          },
+        },
+      }),
+    ],
+  });
+}
+
+/**
+ * Previous/next arrow button for the slider template
+ */
+function getSliderArrowTemplate(direction: 'prev' | 'next'): LayerTemplateRef {
+  const side = direction === 'prev' ? 'left' : 'right';
+  const label = direction === 'prev' ? 'Previous' : 'Next';
+
+  return getTemplateRef('div', {
+    name: direction === 'prev' ? 'sliderPrev' : 'sliderNext',
+    customName: label,
+    settings: { tag: 'button' },
+    attributes: { type: 'button', 'aria-label': `${label} slide` },
+    restrictions: { ancestor: 'slider', copy: false },
+    classes: ['absolute', 'top-[50%]', `${side}-[16px]`, '-translate-y-[50%]', 'flex', 'items-center', 'justify-center', 'w-[40px]', 'h-[40px]', 'rounded-[9999px]', 'bg-[#FFFFFF]', 'text-[#171717]', 'aria-disabled:opacity-[30%]'],
+    design: {
+      layout: { isActive: true, display: 'Flex', alignItems: 'center', justifyContent: 'center' },
+      sizing: { isActive: true, width: '40px', height: '40px' },
+      positioning: { isActive: true, position: 'absolute', top: '50%', [side]: '16px' },
+      borders: { isActive: true, borderRadius: '9999px' },
+      backgrounds: { isActive: true, backgroundColor: '#ffffff' },
+      typography: { isActive: true, color: '#171717' },
+    },
+    children: [
+      getTemplateRef('icon', {
+        customName: 'Icon',
+        variables: {
+          icon: {
+            src: {
+              type: 'static_text',
+              data: {
+                content: SLIDER_ARROW_ICONS[direction],
+              },
+            },
+          },
+        },
+        classes: ['w-[20px]', 'h-[20px]'],
+        design: {
+          sizing: { isActive: true, width: '20px', height: '20px' },
+        },
+      }),
+    ],
+  });
+}
 
 export const utilityTemplates: Record<string, BlockTemplate> = {
   map: {
-    icon: 'block',
+    icon: 'map',
     name: 'Map',
-    template: {
+    template: getTemplateRef('div', {
+      customName: 'Map',
       name: 'map',
-      classes: ['w-full', 'h-full'],
-      children: [],
-    },
+      open: true,
+      settings: {
+        tag: 'div',
+        map: DEFAULT_MAP_SETTINGS,
+      },
+      classes: ['relative', 'w-[100%]', 'h-[400px]', 'overflow-hidden', 'rounded-[12px]'],
+      design: {
+        sizing: { isActive: true, width: '100%', height: '400px' },
+        positioning: { isActive: true, position: 'relative' },
+        borders: { isActive: true, borderRadius: '12px' },
+      },
+      children: [
+        // Extra marker, its content shows in the popup (repeats for each item when bound to a collection)
+        getTemplateRef('div', {
+          name: 'mapMarker',
+          customName: 'Marker',
+          restrictions: { ancestor: 'map' },
+          settings: {
+            tag: 'div',
+            mapMarker: DEFAULT_MAP_MARKER_SETTINGS,
+          },
+          children: [
+            getTemplateRef('text', {
+              variables: {
+                text: {
+                  type: 'dynamic_rich_text',
+                  data: {
+                    content: getTiptapTextContent('Marker'),
+                  },
+                },
+              },
+            }),
+          ],
+        }),
+      ],
+    }),
   },
 
   lightbox: {
-    icon: 'block',
+    icon: 'image',
     name: 'Lightbox',
-    template: {
+    template: getTemplateRef('div', {
+      customName: 'Lightbox',
       name: 'lightbox',
-      classes: ['w-full', 'h-full'],
-      children: [],
-    },
+      open: true,
+      settings: {
+        tag: 'div',
+        lightbox: DEFAULT_LIGHTBOX_SETTINGS,
+      },
+      classes: ['flex', 'flex-col', 'w-[100%]', 'cursor-zoom-in'],
+      design: {
+        layout: { isActive: true, display: 'Flex', flexDirection: 'column' },
+        sizing: { isActive: true, width: '100%' },
+      },
+      // Images and videos inside open in the lightbox, add more to make a gallery
+      children: [
+        getTemplateRef('image'),
+      ],
+    }),
   },
 
   slider: {
-    icon: 'block',
+    icon: 'columns',
     name: 'Slider',
-    template: {
+    template: getTemplateRef('div', {
+      customName: 'Slider',
       name: 'slider',
-      classes: ['w-full', 'h-full'],
-      children: [],
-    },
+      open: true,
+      settings: {
+        tag: 'div',
+        slider: DEFAULT_SLIDER_SETTINGS,
+      },
+      classes: ['relative', 'flex', 'flex-col', 'w-[100%]', 'gap-[16px]'],
+      design: {
+        layout: { isActive: true, display: 'Flex', flexDirection: 'column', gap: '16px' },
+        sizing: { isActive: true, width: '100%' },
+        positioning: { isActive: true, position: 'relative' },
+      },
+      children: [
+        // Slides track (laid out by the slider, slides can be a collection layer)
+        getTemplateRef('div', {
+          name: 'sliderTrack',
+          customName: 'Slides',
+          open: true,
+          restrictions: { ancestor: 'slider', copy: false, delete: false },
+          classes: ['w-[100%]'],
+          design: {
+            sizing: { isActive: true, width: '100%' },
+          },
+          children: [
+            getSliderSlideTemplate('Slide 1'),
+            getSliderSlideTemplate('Slide 2'),
+            getSliderSlideTemplate('Slide 3'),
+          ],
+        }),
+        // Navigation arrows
+        getSliderArrowTemplate('prev'),
+        getSliderArrowTemplate('next'),
+        // Pagination (the bullet is repeated for each slide)
+        getTemplateRef('div', {
+          name: 'sliderPagination',
+          customName: 'Pagination',
+          restrictions: { ancestor: 'slider', copy: false },
+          classes: ['flex', 'flex-row', 'items-center', 'justify-center', 'gap-[8px]'],
+          design: {
+            layout: { isActive: true, display: 'Flex', flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: '8px' },
+          },
+          children: [
+            getTemplateRef('div', {
+              name: 'sliderBullet',
+              customName: 'Bullet',
+              restrictions: { ancestor: 'sliderPagination', copy: false, delete: false },
+              classes: ['w-[8px]', 'h-[8px]', 'rounded-[9999px]', 'bg-[#171717]', 'opacity-[30%]', 'aria-selected:opacity-[100%]', 'cursor-pointer'],
+              design: {
+                sizing: { isActive: true, width: '8px', height: '8px' },
+                borders: { isActive: true, borderRadius: '9999px' },
+                backgrounds: { isActive: true, backgroundColor: '#171717' },
+              },
+            }),
+          ],
+        }),
+      ],
+    }),
   },
 
   localeSelector: {
@@ -153,6 +339,50 @@ export const utilityTemplates: Record<string, BlockTemplate> = {
     }),
   },
 
+  colorSchemeToggle: {
+    icon: 'moon',
+    name: 'Dark mode toggle',
+    template: getTemplateRef('div', {
+      customName: 'Dark mode toggle',
+      name: 'colorSchemeToggle',
+      open: true,
+      settings: {
+        tag: 'div',
+      },
+      // Switches the site between light and dark, the choice is remembered per visitor
+      children: [
+        getTemplateRef('icon', {
+          customName: 'Icon',
+          variables: {
+            icon: {
+              src: {
+                type: 'static_text',
+                data: {
+                  content: COLOR_SCHEME_TOGGLE_ICON,
+                },
+              },
+            },
+          },
+          classes: ['w-[18px]', 'h-[18px]'],
+          design: {
+            sizing: { isActive: true, width: '18px', height: '18px' },
+          },
+        }),
+      ],
+      classes: [
+        'flex', 'items-center', 'justify-center', 'w-[40px]', 'h-[40px]', 'rounded-[999px]', 'cursor-pointer',
+        'bg-[#F5F5F5]', 'text-[#171717]', 'dark:bg-[#262626]', 'dark:text-[#FAFAFA]',
+      ],
+      design: {
+        layout: { isActive: true, display: 'Flex', alignItems: 'center', justifyContent: 'center' },
+        sizing: { isActive: true, width: '40px', height: '40px' },
+        borders: { isActive: true, borderRadius: '999px' },
+        backgrounds: { isActive: true, backgroundColor: '#f5f5f5' },
+        typography: { isActive: true, color: '#171717' },
+      },
+    }),
+  },
+
   htmlEmbed: {
     icon: 'code',
     name: 'Code',
@@ -1,7 +1,7 @@
 import React from 'react';
 import type { TextStyle, DynamicRichTextVariable, LinkSettings } from '@/types';
 import { cn } from '@/lib/utils';
-import { formatFieldValue, resolveFieldFromSources } from '@/lib/cms-variables-utils';
+import { formatFieldValue, getFieldTextPath, resolveFieldFromSources } from '@/lib/cms-variables-utils';
 import { generateLinkHref, type LinkResolutionContext } from '@/lib/link-utils';
 import { extractInlineNodesFromRichText, isTiptapDoc, contentHasBlockElements, hasBlockElementsWithResolver } from '@/lib/tiptap-utils';
 
@@ -245,7 +245,8 @@ function getVariableNodeData(
       ? [field_id, ...relationships].join('.')
       : field_id;
 
-    const rawValue = resolveFieldFromSources(fieldPath, source, collectionItemData, pageCollectionItemData, collection_layer_id, layerDataMap);
+    const rawValue = resolveFieldFromSources(getFieldTextPath(fieldPath, field_type), source, collectionItemData, pageCollectionItemData, collection_layer_id, layerDataMap)
+      ?? resolveFieldFromSources(fieldPath, source, collectionItemData, pageCollectionItemData, collection_layer_id, layerDataMap);
     return { fieldType: field_type || null, rawValue };
   }
 
@@ -1,6 +1,6 @@
 import type { Layer, Breakpoint } from '../types';
 import { canHaveChildren } from './layer-utils';
-import { getBreakpointPrefix } from './breakpoint-utils';
+import { getBreakpointCascade, getBreakpointPrefix } from './breakpoint-utils';
 
 export interface FlattenedItem {
   id: string;
@@ -23,6 +23,17 @@ export interface FlattenedTreeNode<T> {
   index: number;
 }
 
+/**
+ * Get the order class prefixes that apply at a breakpoint, most specific first
+ * Desktop-first cascade: mobile inherits from tablet if no mobile-specific override
+ */
+function getOrderPrefixesForBreakpoint(breakpoint: Breakpoint): string[] {
+  return getBreakpointCascade(breakpoint)
+    .reverse()
+    .map(getBreakpointPrefix)
+    .filter(Boolean);
+}
+
 /**
  * Get the CSS order value from a layer's classes for a specific breakpoint
  * Handles CSS cascade: mobile inherits from tablet if no mobile-specific override
@@ -35,54 +46,25 @@ export interface FlattenedTreeNode<T> {
  * Returns null if no order class is found
  */
 function getOrderValueForBreakpoint(layer: Layer, breakpoint: Breakpoint): number | null {
-  if (breakpoint === 'desktop') return null;
-  
   const classes = Array.isArray(layer.classes) ? layer.classes.join(' ') : (layer.classes || '');
   
-  if (breakpoint === 'mobile') {
-    // First check for mobile-specific order (max-md:)
-    const mobileRegex = /max-md:order-(\d+)/;
-    const mobileMatch = classes.match(mobileRegex);
-    if (mobileMatch) {
-      return parseInt(mobileMatch[1], 10);
-    }
-    
-    // Fall back to tablet order (max-lg:) which also applies to mobile
-    const tabletRegex = /max-lg:order-(\d+)/;
-    const tabletMatch = classes.match(tabletRegex);
-    if (tabletMatch) {
-      return parseInt(tabletMatch[1], 10);
+  for (const prefix of getOrderPrefixesForBreakpoint(breakpoint)) {
+    const regex = new RegExp(`(?:^|\\s)${prefix}order-(\\d+)`);
+    const match = classes.match(regex);
+    if (match) {
+      return parseInt(match[1], 10);
     }
-    
-    return null;
   }
   
-  // Tablet breakpoint - only check max-lg:
-  const prefix = getBreakpointPrefix(breakpoint);
-  const regex = new RegExp(`${prefix.replace(':', '\\:')}order-(\\d+)`);
-  const match = classes.match(regex);
-  
-  return match ? parseInt(match[1], 10) : null;
+  return null;
 }
 
 /**
  * Check if any layer has an order class for the given breakpoint
- * For mobile, also checks tablet classes (due to CSS cascade)
+ * Also checks the classes of larger breakpoints (due to CSS cascade)
  */
 function hasAnyOrderClassForBreakpoint(layers: Layer[], breakpoint: Breakpoint): boolean {
-  if (breakpoint === 'desktop') return false;
-  
-  return layers.some(layer => {
-    const classes = Array.isArray(layer.classes) ? layer.classes.join(' ') : (layer.classes || '');
-    
-    if (breakpoint === 'mobile') {
-      // Check both mobile and tablet (tablet cascades to mobile)
-      return /max-md:order-\d+/.test(classes) || /max-lg:order-\d+/.test(classes);
-    }
-    
-    // Tablet - only check max-lg:
-    return /max-lg:order-\d+/.test(classes);
-  });
+  return layers.some(layer => getOrderValueForBreakpoint(layer, breakpoint) !== null);
 }
 
 /**
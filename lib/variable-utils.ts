@@ -390,6 +390,19 @@ export function getIframeUrlFromVariable(
  */
 
 import type { DesignColorVariable } from '@/types';
+import { OPTION_COLOR_KEY } from '@/lib/option-field-utils';
+
+/**
+ * Point a color binding at the value holding its color
+ * Option fields bind the color of the selected option (see option-field-utils)
+ */
+function getColorFieldVariable(fieldVar: FieldVariable): FieldVariable {
+  if (fieldVar.data.field_type !== 'option') return fieldVar;
+  return {
+    ...fieldVar,
+    data: { ...fieldVar.data, relationships: [...(fieldVar.data.relationships || []), OPTION_COLOR_KEY] },
+  };
+}
 
 /**
  * Convert Tailwind color format (#rrggbb/NN) to valid CSS rgba().
@@ -420,8 +433,10 @@ export const DESIGN_COLOR_CSS_MAP: Record<string, string> = {
  */
 export function resolveDesignColorBinding(
   binding: DesignColorVariable,
-  resolveField: (fieldVar: FieldVariable) => string | null | undefined,
+  resolveFieldValue: (fieldVar: FieldVariable) => string | null | undefined,
 ): string | null {
+  const resolveField = (fieldVar: FieldVariable) => resolveFieldValue(getColorFieldVariable(fieldVar));
+
   // Solid mode
   if (binding.mode === 'solid') {
     return binding.field ? (resolveField(binding.field) ?? null) : null;
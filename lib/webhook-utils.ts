@@ -0,0 +1,81 @@
+/**
+ * Webhook Utilities
+ *
+ * Payload template rendering, safe to import from both the webhook
+ * service and the webhook settings page.
+ *
+ * A payload template is a JSON document whose string values may contain
+ * {{placeholders}} pointing into the standard payload, e.g.
+ * { "text": "New submission from {{data.fields.email}}" }.
+ * A string that is only a placeholder ("{{data.fields}}") is replaced
+ * with the raw value, so objects, arrays and numbers keep their type.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+
+/**
+ * Read a dot-separated path (e.g. "data.fields.email") from a value
+ */
+function getValueAtPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function stringifyTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function renderTemplateValue(value: unknown, context: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const exactMatch = value.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exactMatch) {
+      return getValueAtPath(context, exactMatch[1]) ?? null;
+    }
+
+    return value.replace(PLACEHOLDER_PATTERN, (_match, path: string) =>
+      stringifyTemplateValue(getValueAtPath(context, path))
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplateValue(item, context));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplateValue(item, context)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Check that a payload template is valid JSON
+ * Returns null if valid, error message if invalid
+ */
+export function validateWebhookTemplate(template: string): string | null {
+  try {
+    JSON.parse(template);
+    return null;
+  } catch (error) {
+    return `Payload template must be valid JSON${error instanceof Error ? `: ${error.message}` : ''}`;
+  }
+}
+
+/**
+ * Render a payload template against the standard webhook payload
+ *
+ * @param template - JSON template with {{placeholders}}
+ * @param context - The standard payload ({ event, timestamp, data, metadata })
+ */
+export function renderWebhookTemplate(template: string, context: Record<string, unknown>): unknown {
+  return renderTemplateValue(JSON.parse(template), context);
+}
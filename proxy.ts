@@ -1,6 +1,9 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse } from 'next/server';
-import type { NextRequest } from 'next/server';
+import type { NextFetchEvent, NextRequest } from 'next/server';
+import { resolveRedirect, recordRedirectHit } from '@/lib/services/redirectService';
+import { isCollectionQueryParam } from '@/lib/collection-query-utils';
+import { SITE_SEARCH_PARAM } from '@/lib/site-search-utils';
 
 /**
  * Public API routes that skip authentication.
@@ -10,6 +13,7 @@ const PUBLIC_API_PREFIXES = [
   '/ycode/api/supabase/', // Supabase config — needed for browser client init
   '/ycode/api/auth/',     // Auth callbacks and session checks
   '/ycode/api/v1/',       // Public API — has own API key auth
+  '/ycode/api/cron/',     // Scheduled jobs — has own CRON_SECRET auth
 ];
 
 const PUBLIC_API_EXACT = [
@@ -44,6 +48,16 @@ function isPublicApiRoute(pathname: string, method: string): boolean {
     return true;
   }
 
+  // Form spam protection tokens are requested by published forms
+  if (pathname === '/ycode/api/form-submissions/token' && method === 'GET') {
+    return true;
+  }
+
+  // Site search is used by published pages
+  if (pathname === '/ycode/api/search' && method === 'GET') {
+    return true;
+  }
+
   if (PUBLIC_API_EXACT.includes(pathname)) return true;
   if (PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix))) return true;
 
@@ -95,7 +109,7 @@ async function verifyApiAuth(request: NextRequest): Promise<NextResponse | null>
   return null;
 }
 
-export async function proxy(request: NextRequest) {
+export async function proxy(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl;
 
   // Protect API routes with auth
@@ -108,10 +122,21 @@ export async function proxy(request: NextRequest) {
     && !pathname.startsWith('/_next')
     && !pathname.startsWith('/api')
     && !pathname.startsWith('/_dynamic');
-  const hasPaginationParams = Array.from(request.nextUrl.searchParams.keys())
-    .some((key) => key.startsWith('p_'));
 
-  if (isPublicPage && hasPaginationParams) {
+  // Redirects are evaluated before the page is resolved or rendered
+  if (isPublicPage) {
+    const match = await resolveRedirect(pathname, request.nextUrl.search);
+    if (match) {
+      event.waitUntil(recordRedirectHit(match.redirect.id));
+      return NextResponse.redirect(new URL(match.destination, request.url), match.status);
+    }
+  }
+
+  // Pagination, search, filter and sort params, and site search, are rendered dynamically
+  const hasDynamicQueryParams = Array.from(request.nextUrl.searchParams.keys())
+    .some((key) => isCollectionQueryParam(key) || key === SITE_SEARCH_PARAM);
+
+  if (isPublicPage && hasDynamicQueryParams) {
     const rewriteUrl = request.nextUrl.clone();
     rewriteUrl.pathname = pathname === '/' ? '/_dynamic' : `/_dynamic${pathname}`;
 
@@ -0,0 +1,61 @@
+/**
+ * Run scheduled publishes
+ *
+ * Calls the publish schedules cron route of a running Ycode instance, for
+ * environments without a scheduler (e.g. local development).
+ * Reads CRON_SECRET from .env / .env.local.
+ *
+ * Usage:
+ *   npx ts-node scripts/run-publish-schedules.ts           Run once
+ *   npx ts-node scripts/run-publish-schedules.ts --watch   Run every minute
+ *
+ * Set YCODE_URL to target another instance (default: http://localhost:3002).
+ */
+
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+const BASE_URL = process.env.YCODE_URL || 'http://localhost:3002';
+const INTERVAL_MS = 60 * 1000;
+
+async function runOnce(): Promise<void> {
+  const response = await fetch(`${BASE_URL}/ycode/api/cron/publish-schedules`, {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || `Request failed with status ${response.status}`);
+  }
+
+  const { processed, completed, failed } = result.data;
+  console.log(`[${new Date().toISOString()}] Ran ${processed} schedules: ${completed} completed, ${failed} failed`);
+}
+
+async function run() {
+  if (!process.env.CRON_SECRET) {
+    console.error('CRON_SECRET is not set. Add it to .env to enable scheduled publishing.');
+    process.exit(1);
+  }
+
+  if (!process.argv.includes('--watch')) {
+    await runOnce();
+    return;
+  }
+
+  console.log(`Running due publish schedules every minute against ${BASE_URL}`);
+
+  const tick = () => runOnce().catch((error) => {
+    console.error('Running publish schedules failed:', error instanceof Error ? error.message : error);
+  });
+
+  await tick();
+  setInterval(tick, INTERVAL_MS);
+}
+
+run().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -13,7 +13,7 @@ import {
 } from '@/lib/layer-utils';
 import { detachStyleFromLayers, updateLayersWithStyle } from '@/lib/layer-style-utils';
 import { generateId } from '@/lib/utils';
-import type { Component, Layer } from '@/types';
+import type { Component, ComponentVariable, Layer } from '@/types';
 
 interface ComponentsState {
   components: Component[];
@@ -79,7 +79,13 @@ interface ComponentsActions {
   addTextVariable: (componentId: string, name: string) => Promise<string | null>;
   addImageVariable: (componentId: string, name: string) => Promise<string | null>;
   addLinkVariable: (componentId: string, name: string) => Promise<string | null>;
-  updateTextVariable: (componentId: string, variableId: string, updates: { name?: string; default_value?: any }) => Promise<void>;
+  addVariantVariable: (componentId: string, name: string) => Promise<string | null>;
+  addBooleanVariable: (componentId: string, name: string) => Promise<string | null>;
+  updateTextVariable: (
+    componentId: string,
+    variableId: string,
+    updates: { name?: string; default_value?: any } & Partial<Pick<ComponentVariable, 'options' | 'default_option' | 'default_enabled' | 'layer_ids'>>
+  ) => Promise<void>;
   deleteTextVariable: (componentId: string, variableId: string) => Promise<void>;
 
   // Layer style operations
@@ -737,6 +743,82 @@ export const useComponentsStore = create<ComponentsStore>((set, get) => {
       }
     },
 
+    // Add a variant variable to a component (starts with two options)
+    addVariantVariable: async (componentId, name) => {
+      const component = get().getComponentById(componentId);
+      if (!component) return null;
+
+      const variableId = generateId('cpv'); // CPV = Component Variable
+      const options = [
+        { id: generateId('cpo'), name: 'Default', layers: {} },
+        { id: generateId('cpo'), name: 'Option 2', layers: {} },
+      ];
+      const newVariable = { id: variableId, name, type: 'variant' as const, options, default_option: options[0].id };
+      const updatedVariables = [...(component.variables || []), newVariable];
+
+      try {
+        const response = await fetch(`/ycode/api/components/${componentId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ variables: updatedVariables }),
+        });
+
+        const result = await response.json();
+        if (result.error) {
+          console.error('Failed to add variant variable:', result.error);
+          return null;
+        }
+
+        // Update local state
+        set((state) => ({
+          components: state.components.map((c) =>
+            c.id === componentId ? { ...c, variables: updatedVariables } : c
+          ),
+        }));
+
+        return variableId;
+      } catch (error) {
+        console.error('Failed to add variant variable:', error);
+        return null;
+      }
+    },
+
+    // Add a boolean (visibility) variable to a component
+    addBooleanVariable: async (componentId, name) => {
+      const component = get().getComponentById(componentId);
+      if (!component) return null;
+
+      const variableId = generateId('cpv'); // CPV = Component Variable
+      const newVariable = { id: variableId, name, type: 'boolean' as const, default_enabled: true, layer_ids: [] };
+      const updatedVariables = [...(component.variables || []), newVariable];
+
+      try {
+        const response = await fetch(`/ycode/api/components/${componentId}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ variables: updatedVariables }),
+        });
+
+        const result = await response.json();
+        if (result.error) {
+          console.error('Failed to add boolean variable:', result.error);
+          return null;
+        }
+
+        // Update local state
+        set((state) => ({
+          components: state.components.map((c) =>
+            c.id === componentId ? { ...c, variables: updatedVariables } : c
+          ),
+        }));
+
+        return variableId;
+      } catch (error) {
+        console.error('Failed to add boolean variable:', error);
+        return null;
+      }
+    },
+
     // Update a text variable's name and/or default value
     updateTextVariable: async (componentId, variableId, updates) => {
       const component = get().getComponentById(componentId);
@@ -843,15 +925,19 @@ export const useComponentsStore = create<ComponentsStore>((set, get) => {
           return layers.map(layer => {
             const updatedLayer = { ...layer };
 
-            // If this is an instance of our component, clean up the override
-            if (layer.componentId === componentId && layer.componentOverrides?.text?.[variableId] !== undefined) {
-              const { [variableId]: _, ...remainingOverrides } = layer.componentOverrides.text;
+            // If this is an instance of our component, clean up the override (of any variable type)
+            const overrideType = layer.componentId === componentId && layer.componentOverrides
+              ? (Object.keys(layer.componentOverrides) as (keyof NonNullable<Layer['componentOverrides']>)[])
+                .find((type) => layer.componentOverrides?.[type]?.[variableId] !== undefined)
+              : undefined;
+            if (overrideType && layer.componentOverrides) {
+              const { [variableId]: _, ...remainingOverrides } = layer.componentOverrides[overrideType] as Record<string, unknown>;
               updatedLayer.componentOverrides = {
                 ...layer.componentOverrides,
-                text: Object.keys(remainingOverrides).length > 0 ? remainingOverrides : undefined,
+                [overrideType]: Object.keys(remainingOverrides).length > 0 ? remainingOverrides : undefined,
               };
               // Clean up empty componentOverrides
-              if (!updatedLayer.componentOverrides?.text) {
+              if (Object.values(updatedLayer.componentOverrides!).every((overrides) => !overrides)) {
                 delete updatedLayer.componentOverrides;
               }
             }
@@ -7,6 +7,9 @@
 
 import { create } from 'zustand';
 import { settingsApi } from '@/lib/api';
+import { BREAKPOINTS_SETTING, setBreakpoints } from '@/lib/breakpoint-utils';
+import { FONTS_SETTING, setCustomFonts } from '@/lib/font-utils';
+import { DESIGN_TOKENS_SETTING, setDesignTokens } from '@/lib/design-token-utils';
 import type { Setting } from '@/types';
 
 interface SettingsState {
@@ -49,6 +52,10 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
     settings.forEach((setting) => {
       settingsByKey[setting.key] = setting.value;
     });
+    // Breakpoints, fonts and design tokens are used outside of React (class mapper, CSS generation)
+    setBreakpoints(settingsByKey[BREAKPOINTS_SETTING]);
+    setCustomFonts(settingsByKey[FONTS_SETTING]);
+    setDesignTokens(settingsByKey[DESIGN_TOKENS_SETTING]);
     set({ settings, settingsByKey });
   },
 
@@ -60,6 +67,16 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
 
   // Update a single setting in the store (local state)
   updateSetting: (key, value) => {
+    if (key === BREAKPOINTS_SETTING) {
+      setBreakpoints(value);
+    }
+    if (key === FONTS_SETTING) {
+      setCustomFonts(value);
+    }
+    if (key === DESIGN_TOKENS_SETTING) {
+      setDesignTokens(value);
+    }
+
     set((state) => {
       const updatedSettings = state.settings.map((setting) =>
         setting.key === key
@@ -5,8 +5,8 @@
  */
 
 // UI State Types (for state-specific styling: hover, focus, etc.)
-export type UIState = 'neutral' | 'hover' | 'focus' | 'active' | 'disabled' | 'current';
-export type Breakpoint = 'mobile' | 'tablet' | 'desktop';
+export type UIState = 'neutral' | 'hover' | 'focus' | 'active' | 'disabled' | 'current' | 'dark';
+export type Breakpoint = string; // Breakpoint ID from the breakpoints setting ('mobile', 'tablet', 'desktop' by default)
 export type StringAssetId = string;
 
 // Design Property Interfaces
@@ -135,6 +135,12 @@ export interface DesignProperties {
   positioning?: PositioningDesign;
 }
 
+export interface FormSpamProtectionSettings {
+  honeypot?: boolean; // Render a hidden field that only bots fill in
+  min_submit_seconds?: number; // Minimum seconds between page load and submit (0 = disabled)
+  rate_limit?: number; // Maximum submissions per IP per hour (unset or 0 = disabled)
+}
+
 export interface FormSettings {
   success_action?: 'message' | 'redirect'; // What happens on successful submission (default: 'message')
   success_message?: string; // Message shown on successful submission (deprecated - now uses alert child)
@@ -145,6 +151,7 @@ export interface FormSettings {
     to: string; // Email address to send notifications to
     subject?: string; // Email subject line
   };
+  spam_protection?: FormSpamProtectionSettings;
 }
 
 export interface LayerSettings {
@@ -159,6 +166,79 @@ export interface LayerSettings {
     code?: string; // Custom HTML code to embed
   };
   form?: FormSettings; // Form-specific settings (only for form layers)
+  slider?: SliderSettings; // Slider-specific settings (only for slider layers)
+  lightbox?: LightboxSettings; // Lightbox-specific settings (only for lightbox layers)
+  map?: MapSettings; // Map-specific settings (only for map layers)
+  mapMarker?: MapMarkerSettings; // Marker-specific settings (only for map marker layers)
+  collectionControl?: CollectionControlSettings; // Search, filter and sort settings (only for collection control layers)
+  siteSearch?: SiteSearchSettings; // Site search input settings (only for site search layers)
+  searchResults?: SearchResultsSettings; // Site search settings (only for search results layers)
+}
+
+export interface SliderSettings {
+  slidesPerView: Partial<Record<Breakpoint, number>>; // Desktop-first: smaller breakpoints inherit from larger ones
+  spaceBetween: number; // Gap between slides in px
+  loop: boolean; // Wrap around from the last slide to the first (and back)
+  autoplay: boolean;
+  autoplayDelay: number; // Seconds between slides when autoplaying
+  pauseOnHover: boolean;
+}
+
+export interface LightboxSettings {
+  source: 'children' | 'field'; // Open the images/videos inside the lightbox, or the files of a CMS field
+  field?: FieldVariable | null; // Multi-asset CMS field (when source is 'field')
+  group?: string; // Lightboxes with the same group open as one gallery
+}
+
+export interface MapSettings {
+  source: 'static' | 'field'; // Location from the settings, or from a geolocation CMS field
+  latitude: number; // Static location
+  longitude: number;
+  address?: string; // Static location label (also used to look up the coordinates)
+  field?: FieldVariable | null; // Geolocation CMS field (when source is 'field')
+  zoom: number; // Tile zoom level (0-19), ignored when markers are fitted into view
+  showMarker: boolean; // Show a marker at the map location
+  tileUrl?: string; // OpenStreetMap-compatible tile URL template, e.g. https://tile.openstreetmap.org/{z}/{x}/{y}.png
+  attribution?: string; // Tile provider attribution
+}
+
+export interface MapMarkerSettings {
+  source: 'static' | 'field'; // Position from the settings, or from a geolocation CMS field
+  latitude?: number;
+  longitude?: number;
+  field?: FieldVariable | null; // Geolocation CMS field (when source is 'field')
+}
+
+export interface SiteSearchSettings {
+  placeholder?: string;
+  action?: string; // URL of the page with the search results (current page when empty)
+}
+
+export interface SearchResultsSettings {
+  limit: number; // Maximum number of hits shown
+}
+
+export interface CollectionControlSettings {
+  collectionLayerId: string | null; // Collection layer whose items the control searches, filters or sorts
+  collectionId: string | null; // Collection of that layer (for field lookups)
+  placeholder?: string; // Search input placeholder, or label of the empty choice of dropdowns
+  searchFieldIds?: string[]; // Search: fields to search (all text fields when empty)
+  fieldId?: string | null; // Filter: field to filter by
+  display?: 'dropdown' | 'checkboxes'; // Filter: single choice dropdown or multiple choice checkboxes
+  sortOptions?: CollectionSortOption[]; // Sort: choices of the sort selector
+}
+
+export interface CollectionSortOption {
+  id: string;
+  label: string;
+  fieldId: string;
+  order: 'asc' | 'desc';
+}
+
+/** Choice of a filter or sort control */
+export interface CollectionControlOption {
+  label: string;
+  value: string;
 }
 
 // Layer Style Types
@@ -288,6 +368,8 @@ export interface Layer {
     text?: Record<string, ComponentVariableValue>; // ComponentVariable.id → override value (text)
     image?: Record<string, ComponentVariableValue>; // ComponentVariable.id → override value (image)
     link?: Record<string, ComponentVariableValue>; // ComponentVariable.id → override value (link)
+    variant?: Record<string, string>; // ComponentVariable.id → selected ComponentVariantOption.id (variant)
+    boolean?: Record<string, boolean>; // ComponentVariable.id → on/off (boolean)
   };
 
   // Layer variables (layer collection data & dynamic data for texts, assets, links)
@@ -312,6 +394,8 @@ export interface Layer {
   _paginationMeta?: CollectionPaginationMeta;
   // SSR-only property for dynamic inline styles from CMS color field bindings
   _dynamicStyles?: Record<string, string>;
+  // SSR-only property for collection control choices and the values selected in the URL
+  _collectionControl?: { options: CollectionControlOption[]; value: string[] };
 }
 
 export interface LayerVariables {
@@ -455,8 +539,28 @@ export interface BlockTemplate {
 export interface ComponentVariable {
   id: string;        // Unique variable ID
   name: string;      // Display name (e.g., "Button title")
-  type?: 'text' | 'image' | 'link'; // Variable type (defaults to 'text' for backwards compatibility)
-  default_value?: ComponentVariableValue; // Default value
+  type?: 'text' | 'image' | 'link' | 'variant' | 'boolean'; // Variable type (defaults to 'text' for backwards compatibility)
+  default_value?: ComponentVariableValue; // Default value (text, image and link variables)
+
+  // Variant variables (e.g. size = sm | md | lg)
+  options?: ComponentVariantOption[];
+  default_option?: string; // ComponentVariantOption.id used when an instance doesn't pick one
+
+  // Boolean variables (e.g. "Show icon")
+  default_enabled?: boolean;
+  layer_ids?: string[]; // Component layers only rendered while the variable is on
+}
+
+// Option of a variant variable, with the styles it applies to inner layers
+export interface ComponentVariantOption {
+  id: string;
+  name: string; // Display name (e.g., "Large")
+  layers?: Record<string, ComponentVariantLayerOverride>; // Component layer ID → styles
+}
+
+export interface ComponentVariantLayerOverride {
+  classes: string; // Merged over the layer's classes (conflicting classes are replaced)
+  design?: DesignProperties; // Design properties of the classes, merged per category
 }
 
 // Component Types (Reusable Layer Trees)
@@ -645,10 +749,95 @@ export interface Redirect {
   id: string;
   oldUrl: string;   // Internal path only, e.g. "/about-us"
   newUrl: string;   // Internal path "/about" OR external URL "https://example.com"
-  type?: '301' | '302'; // Permanent vs temporary (default 301)
+  type?: RedirectType; // Permanent vs temporary (default 301)
+  preserveQuery?: boolean; // Append the request query string to the target (default true)
+  source?: string; // Page ("page:<id>") or CMS item ("item:<pageId>:<itemId>") that created it automatically
+  pending?: boolean; // Automatic redirect for an unpublished path change, activated by the next publish
+  dismissed?: boolean; // Pending redirect that should not be created on publish
 }
 
-export type SmtpProvider = 'google' | 'microsoft365' | 'mailersend' | 'postmark' | 'sendgrid' | 'mailgun' | 'amazonses' | 'other';
+// 301/308 are permanent, 302/307 temporary; 307/308 keep the request method
+export type RedirectType = '301' | '302' | '307' | '308';
+
+export interface RedirectHit {
+  redirect_id: string;
+  hits: number;
+  last_hit_at: string | null;
+}
+
+// Site search index (rebuilt from published content on each publish)
+export type SearchIndexSourceType = 'page' | 'cms';
+
+export interface SearchIndexEntry {
+  source_type: SearchIndexSourceType;
+  source_id: string; // Page ID, or CMS item ID for dynamic pages
+  page_id: string;
+  locale_code: string | null; // null for the default locale
+  title: string;
+  url: string;
+  content: string; // Plain text of the page or CMS item
+}
+
+export interface SiteSearchHit {
+  source_type: SearchIndexSourceType;
+  source_id: string;
+  page_id: string;
+  title: string;
+  url: string;
+  excerpt: string; // Plain text excerpt around the matches
+  excerpt_html: string; // Escaped excerpt with matches wrapped in <mark>
+  excerpt_parts: SearchExcerptPart[];
+  rank: number;
+}
+
+export interface SearchExcerptPart {
+  text: string;
+  highlighted: boolean; // Matches the search
+}
+
+export interface SiteSearchResult {
+  query: string;
+  hits: SiteSearchHit[];
+  total: number;
+}
+
+// Custom web fonts (stored in the fonts setting)
+export type FontDisplay = 'auto' | 'block' | 'swap' | 'fallback' | 'optional';
+export type FontStyle = 'normal' | 'italic';
+export type FontFallback = 'sans-serif' | 'serif' | 'monospace' | 'cursive' | 'system-ui';
+
+export interface FontFile {
+  id: string;
+  weight: number; // 100-900
+  style: FontStyle;
+  asset_id: string | null; // Uploaded font file (WOFF2)
+  url: string | null; // Self-hosted font file URL, when not uploaded as an asset
+  preload?: boolean; // Add a preload hint to published pages
+}
+
+export interface CustomFont {
+  id: string;
+  family: string; // CSS font-family name
+  key: string; // Class name suffix (font-<key>), kept when the family is renamed
+  fallback: FontFallback;
+  display: FontDisplay;
+  weights: number[]; // Declared weights, e.g. for fonts loaded with custom head code
+  files: FontFile[];
+}
+
+// Design tokens (stored in the design_tokens setting, compiled to CSS custom properties)
+export type DesignTokenType = 'color' | 'spacing' | 'fontSize';
+
+export interface DesignToken {
+  id: string;
+  type: DesignTokenType;
+  name: string; // Display name, e.g. "Brand"
+  key: string; // CSS custom property suffix (--token-<type>-<key>), kept when renamed
+  value: string; // Color or size, e.g. "#1c70d7" or "1.5rem"
+  dark_value?: string | null; // Color used in dark mode (colors only)
+}
+
+export type SmtpProvider ='google' | 'microsoft365' | 'mailersend' | 'postmark' | 'sendgrid' | 'mailgun' | 'amazonses' | 'other';
 
 export interface EmailSettings {
   enabled: boolean;
@@ -803,7 +992,7 @@ export interface ActivityNotification {
 }
 
 // Collection Types (EAV Architecture)
-export type CollectionFieldType = 'text' | 'number' | 'boolean' | 'date' | 'color' | 'reference' | 'multi_reference' | 'rich_text' | 'image' | 'audio' | 'video' | 'document' | 'link' | 'email' | 'phone';
+export type CollectionFieldType = 'text' | 'number' | 'boolean' | 'date' | 'color' | 'reference' | 'multi_reference' | 'rich_text' | 'image' | 'audio' | 'video' | 'document' | 'link' | 'email' | 'phone' | 'geolocation' | 'option';
 export type CollectionSortDirection = 'asc' | 'desc' | 'manual';
 
 export interface CollectionSorting {
@@ -838,8 +1027,35 @@ export interface UpdateCollectionData {
 }
 
 /** Field-specific settings stored in the data column */
+export interface GeolocationValue {
+  lat: number;
+  lng: number;
+  label?: string;
+}
+
 export interface CollectionFieldData {
-  multiple?: boolean; // For asset fields - allow multiple files
+  multiple?: boolean; // For asset fields - allow multiple files; for option fields - allow multiple choices
+  options?: CollectionFieldOption[]; // For option fields
+  validation?: CollectionFieldValidation;
+}
+
+/** A choice of an option field (items store the value) */
+export interface CollectionFieldOption {
+  label: string;
+  value: string;
+  color?: string; // Hex color
+}
+
+export interface CollectionFieldValidation {
+  required?: boolean;
+  unique?: boolean; // Unique within the collection
+  minLength?: number; // Text fields
+  maxLength?: number;
+  min?: number; // Number fields
+  max?: number;
+  pattern?: string; // Regular expression for text fields
+  patternMessage?: string; // Error shown when the pattern doesn't match
+  allowedFileTypes?: string[]; // Asset fields: extensions ("pdf") or MIME types ("image/*")
 }
 
 export interface CreateCollectionFieldData {
@@ -1060,6 +1276,24 @@ export interface CollectionPaginationMeta {
   mode?: 'pages' | 'load_more'; // Pagination mode
   itemIds?: string[]; // For multi-reference filtering in load_more mode
   layerTemplate?: Layer[]; // Layer template for rendering new items in load_more mode
+  query?: CollectionQuery; // Visitor search, filters and sort (load_more mode fetches with the same query)
+  filters?: ConditionalVisibility; // Collection filters (applied with the query in load_more mode)
+}
+
+// Visitor search, filters and sort of a collection layer (from URL query params on published pages)
+export interface CollectionQuery {
+  search?: string; // q_LAYER_ID=text
+  searchFieldIds?: string[]; // Fields to search (from the search control, all text fields when empty)
+  filters?: Record<string, string[]>; // f_LAYER_ID.FIELD_ID=value (repeated for multiple values)
+  sortBy?: string; // s_LAYER_ID=FIELD_ID.asc
+  sortOrder?: 'asc' | 'desc';
+}
+
+/** Queries the controls on a page allow for a collection layer */
+export interface CollectionQueryControls {
+  searchFieldIds?: string[]; // Fields of search controls (empty for all text fields), unset without a search control
+  filterFieldIds: string[]; // Fields of filter controls
+  sortValues: string[]; // Choices of sort controls (FIELD_ID.asc)
 }
 
 // Conditional Visibility Types
@@ -1240,6 +1474,13 @@ export interface FormSubmissionMetadata {
   user_agent?: string;
   referrer?: string;
   page_url?: string;
+  spam?: FormSpamVerdict; // Spam scoring result (set when the submission was scored)
+}
+
+export interface FormSpamVerdict {
+  is_spam: boolean;
+  score: number;
+  reasons: string[];
 }
 
 export interface FormSubmission {
@@ -1249,18 +1490,95 @@ export interface FormSubmission {
   metadata: FormSubmissionMetadata | null;
   status: FormSubmissionStatus;
   created_at: string;
+  files?: FormSubmissionFile[]; // Uploaded files with signed download URLs (read endpoints only)
+}
+
+export interface FormSubmissionFile {
+  id: string;
+  submission_id: string;
+  form_id: string;
+  field_name: string;
+  filename: string;
+  mime_type: string;
+  file_size: number;
+  storage_path: string;
+  created_at: string;
+  url?: string; // Signed download URL, set when files are returned to the dashboard or API
+}
+
+// Uploaded file as shared with webhooks and notification emails
+export interface FormSubmissionFileLink {
+  field_name: string;
+  filename: string;
+  mime_type: string;
+  file_size: number;
+  url: string; // Signed download URL
+}
+
+export interface CreateFormSubmissionFileData {
+  submission_id: string;
+  form_id: string;
+  field_name: string;
+  filename: string;
+  mime_type: string;
+  file_size: number;
+  storage_path: string;
 }
 
 export interface CreateFormSubmissionData {
   form_id: string;
   payload: Record<string, any>;
   metadata?: FormSubmissionMetadata;
+  status?: FormSubmissionStatus;
 }
 
 export interface UpdateFormSubmissionData {
   status?: FormSubmissionStatus;
 }
 
+// Form Definition Types (derived server-side from the form layer tree)
+export type FormFieldType =
+  | 'text'
+  | 'email'
+  | 'tel'
+  | 'url'
+  | 'number'
+  | 'range'
+  | 'date'
+  | 'datetime-local'
+  | 'password'
+  | 'textarea'
+  | 'select'
+  | 'checkbox'
+  | 'radio'
+  | 'hidden'
+  | 'file';
+
+export interface FormFieldDefinition {
+  name: string; // Key in the submission payload
+  label: string; // Text of the associated <label>, falls back to name
+  type: FormFieldType;
+  required: boolean;
+  options?: string[]; // Allowed values (select, radio and checkbox fields)
+  multiple?: boolean; // Accepts several values (multi-select, checkbox groups)
+  min?: number;
+  max?: number;
+  min_length?: number;
+  max_length?: number;
+  pattern?: string;
+  accept?: string[]; // Allowed MIME types and extensions (file fields), e.g. ['image/*', '.pdf']
+  max_size?: number; // Maximum size per file in bytes (file fields)
+}
+
+export interface FormDefinition {
+  form_id: string;
+  fields: FormFieldDefinition[];
+  settings: FormSettings;
+}
+
+// Field name -> error message
+export type FormFieldErrors = Record<string, string>;
+
 // Form summary for listing (grouped by form_id)
 export interface FormSummary {
   form_id: string;
@@ -1310,3 +1628,81 @@ export interface PublishStats {
     css: PublishTableStats;
   };
 }
+
+/** Tables whose published rows are recorded in site releases */
+export type SiteReleaseTable =
+  | 'page_folders'
+  | 'pages'
+  | 'page_layers'
+  | 'components'
+  | 'layer_styles'
+  | 'collections'
+  | 'collection_fields'
+  | 'collection_items'
+  | 'collection_item_values'
+  | 'locales'
+  | 'translations';
+
+/** A snapshot of the live site, recorded on each publish */
+export interface SiteRelease {
+  id: string;
+  name: string;
+  stats: Partial<Record<SiteReleaseTable, number>>; // Number of published rows per table
+  created_at: string;
+}
+
+/** Published rows per table, and the published CSS */
+export type SiteReleaseSnapshot = Partial<Record<SiteReleaseTable, Record<string, any>[]>> & {
+  published_css?: string | null;
+};
+
+export type SiteReleaseChangeType = 'added' | 'removed' | 'changed';
+
+/** What a change between two releases applies to (layers belong to pages, values to items, etc.) */
+export type SiteReleaseEntityType = 'page_folder' | 'page' | 'component' | 'layer_style' | 'collection' | 'collection_item' | 'locale';
+
+export interface SiteReleaseChange {
+  entity_type: SiteReleaseEntityType;
+  entity_id: string;
+  name: string;
+  change: SiteReleaseChangeType;
+}
+
+/** Differences between two releases, from the older one to the newer one */
+export interface SiteReleaseDiff {
+  from: SiteRelease;
+  to: SiteRelease;
+  changes: SiteReleaseChange[];
+  css_changed: boolean;
+}
+
+/** What a publish schedule does when it runs */
+export type PublishScheduleAction = 'publish' | 'unpublish';
+
+/** What a publish schedule targets (unpublishing only applies to collection items) */
+export type PublishScheduleTargetType = 'site' | 'page' | 'collection_item';
+
+export type PublishScheduleStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/** A publish or unpublish scheduled for a future time */
+export interface PublishSchedule {
+  id: string; // UUID
+  action: PublishScheduleAction;
+  target_type: PublishScheduleTargetType;
+  target_id: string | null; // Null for site-wide publishes
+  collection_id: string | null; // Set for collection_item targets
+  scheduled_at: string;
+  status: PublishScheduleStatus;
+  error: string | null;
+  executed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePublishScheduleData {
+  action: PublishScheduleAction;
+  target_type: PublishScheduleTargetType;
+  target_id?: string | null;
+  collection_id?: string | null;
+  scheduled_at: string;
+}